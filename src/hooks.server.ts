@@ -3,10 +3,45 @@
  */
 
 import { refreshAllNews, fetchAllMarketsServer } from '$lib/server/fetcher';
-import { deleteOldNews, setMeta } from '$lib/server/db';
+import {
+	deleteOldNews,
+	pruneAIBriefs,
+	pruneGovContracts,
+	pruneLayoffs,
+	pruneAlertDeliveries,
+	pruneAlerts,
+	pruneEventStudyObservations,
+	pruneHotspotLevels,
+	pruneMonitorMatches,
+	pruneNewsArticles,
+	pruneNewsEntities,
+	pruneWhaleTransactions,
+	setMeta
+} from '$lib/server/db';
+import { evaluateMonitors } from '$lib/server/monitors';
+import { compactMarketHistory } from '$lib/server/market-history';
+import { resolveEventStudy } from '$lib/server/event-study';
+import { refreshWhaleTransactions, WHALE_RETENTION_DAYS } from '$lib/server/whales';
+import { CONTRACT_RETENTION_DAYS, refreshContracts } from '$lib/server/contracts';
+import { LAYOFF_RETENTION_DAYS, refreshLayoffs } from '$lib/server/layoffs';
+import { compactPredictionHistory, refreshPredictions } from '$lib/server/predictions';
+import { AI_BRIEF_RETENTION_DAYS } from '$lib/server/ai-brief';
+import { ARTICLE_RETENTION_DAYS, refreshArticles } from '$lib/server/articles';
+import { refreshTranslations } from '$lib/server/translation';
+import { ENTITY_RETENTION_DAYS } from '$lib/server/entities';
+import { recordHotspotLevels } from '$lib/server/hotspots';
+import { refreshNewsAreas } from '$lib/server/map-layers';
+import { HOTSPOT_RETENTION_DAYS } from '$lib/config/hotspots';
+import { getStreamHealth, publishServerEvent } from '$lib/server/events';
+import { detectServerAlerts } from '$lib/server/alerts';
+import { deliverAlerts } from '$lib/server/alert-delivery';
+import { MONITOR_MATCH_RETENTION_DAYS } from '$lib/config/monitors';
 import { NEWS_CATEGORIES } from '$lib/shared/news-parser';
 
 const REFRESH_INTERVAL_MS = parseInt(process.env.REFRESH_INTERVAL_MS || '900000', 10); // 15 min default
+const ALERT_DELIVERY_RETENTION_DAYS = 30;
+const ALERT_RETENTION_DAYS = 30;
+const EVENT_STUDY_RETENTION_DAYS = 365;
 let refreshInterval: ReturnType<typeof setInterval> | null = null;
 let isRefreshing = false;
 
@@ -25,14 +60,138 @@ async function backgroundRefresh(): Promise<void> {
 			console.warn(`[Background] Refresh completed with ${result.errors.length} errors:`, result.errors.slice(0, 5));
 		}
 
+		// Download article bodies of alert and compound-signal headlines (opt-in, rate-limited)
+		try {
+			const articles = await refreshArticles();
+			if (articles.fetched + articles.blocked + articles.failed > 0) {
+				console.log(
+					`[Background] Articles: ${articles.fetched} fetched, ${articles.blocked} blocked by robots.txt, ${articles.failed} failed`
+				);
+			}
+		} catch (error) {
+			console.error('[Background] Article fetch failed:', error);
+		}
+
+		// Translate foreign-language titles (off unless TRANSLATION_PROVIDER is set)
+		try {
+			const translations = await refreshTranslations();
+			if (translations.translated + translations.failed > 0) {
+				console.log(
+					`[Background] Translations: ${translations.translated} stored, ${translations.failed} failed`
+				);
+			}
+		} catch (error) {
+			console.error('[Background] Translation failed:', error);
+		}
+
+		// Re-flag headlines inside imported map areas (translations may have placed new ones)
+		try {
+			const changed = refreshNewsAreas();
+			if (changed > 0) console.log(`[Background] Updated map area flags on ${changed} headlines`);
+		} catch (error) {
+			console.error('[Background] Map area flagging failed:', error);
+		}
+
+		// Record new matches for every enabled custom monitor
+		try {
+			const recorded = Object.values(evaluateMonitors()).reduce((sum, count) => sum + count, 0);
+			if (recorded > 0) console.log(`[Background] Recorded ${recorded} new monitor matches`);
+		} catch (error) {
+			console.error('[Background] Monitor evaluation failed:', error);
+		}
+
+		// Score map hotspots from the refreshed coverage
+		try {
+			const raised = recordHotspotLevels().filter((status) => status.level !== status.staticLevel);
+			if (raised.length > 0) console.log(`[Background] ${raised.length} hotspots above their static level`);
+		} catch (error) {
+			console.error('[Background] Hotspot scoring failed:', error);
+		}
+
 		// Fetch market data
 		await fetchAllMarketsServer();
 
+		// Snapshot prediction-market probabilities so swings can be detected below
+		try {
+			const predictions = await refreshPredictions();
+			if (predictions.error) {
+				console.warn('[Background] Polymarket poll failed:', predictions.error);
+			}
+		} catch (error) {
+			console.error('[Background] Prediction refresh failed:', error);
+		}
+
+		// Record new alerts in the shared inbox and push them to the configured channels. Delivery
+		// retries with backoff, so the rest of the refresh does not wait for it.
+		try {
+			deliverAlerts(detectServerAlerts())
+				.then((delivery) => {
+					if (delivery.sent + delivery.failed > 0) {
+						console.log(`[Background] Alert delivery: ${delivery.sent} sent, ${delivery.failed} failed`);
+					}
+				})
+				.catch((error) => {
+					console.error('[Background] Alert delivery failed:', error);
+				});
+		} catch (error) {
+			console.error('[Background] Alert detection failed:', error);
+		}
+
+		// Poll whale transaction providers (priced from the crypto quotes just fetched)
+		try {
+			const whales = await refreshWhaleTransactions();
+			if (whales.errors.length > 0) {
+				console.warn('[Background] Whale providers failed:', whales.errors);
+			}
+		} catch (error) {
+			console.error('[Background] Whale refresh failed:', error);
+		}
+
+		// Search USAspending for new awards (a few times a day) and re-tag vendors in the news
+		try {
+			const contracts = await refreshContracts();
+			if (contracts.inserted > 0) console.log(`[Background] Stored ${contracts.inserted} new contract awards`);
+			if (contracts.error) console.warn('[Background] Contract search failed:', contracts.error);
+		} catch (error) {
+			console.error('[Background] Contract refresh failed:', error);
+		}
+
+		// Poll state WARN notices (twice a day) and pick layoff announcements out of the news
+		try {
+			const layoffs = await refreshLayoffs();
+			if (layoffs.inserted > 0) console.log(`[Background] Stored ${layoffs.inserted} new layoff reports`);
+			if (layoffs.errors.length > 0) console.warn('[Background] WARN sources failed:', layoffs.errors);
+		} catch (error) {
+			console.error('[Background] Layoff refresh failed:', error);
+		}
+
+		// Fill in post-signal prices for the event study
+		try {
+			resolveEventStudy();
+		} catch (error) {
+			console.error('[Background] Event study update failed:', error);
+		}
+
 		// Clean up old news
 		const deleted = deleteOldNews(7);
+		pruneMonitorMatches(MONITOR_MATCH_RETENTION_DAYS);
+		pruneAlertDeliveries(ALERT_DELIVERY_RETENTION_DAYS);
+		pruneAlerts(ALERT_RETENTION_DAYS);
+		compactMarketHistory();
+		compactPredictionHistory();
+		pruneEventStudyObservations(EVENT_STUDY_RETENTION_DAYS);
+		pruneWhaleTransactions(WHALE_RETENTION_DAYS);
+		pruneGovContracts(CONTRACT_RETENTION_DAYS);
+		pruneLayoffs(LAYOFF_RETENTION_DAYS);
+		pruneAIBriefs(AI_BRIEF_RETENTION_DAYS);
+		pruneNewsArticles(ARTICLE_RETENTION_DAYS);
+		pruneNewsEntities(ENTITY_RETENTION_DAYS);
+		pruneHotspotLevels(HOTSPOT_RETENTION_DAYS);
 
 		const duration = Date.now() - start;
 		setMeta('lastRefreshTime', Date.now());
+		setMeta('lastRefreshErrors', result.errors);
+		publishServerEvent({ type: 'health', data: getStreamHealth() });
 		console.log(`[Background] Refresh complete in ${(duration / 1000).toFixed(1)}s, cleaned ${deleted} old items`);
 	} catch (error) {
 		console.error('[Background] Refresh failed:', error);
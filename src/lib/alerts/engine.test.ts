@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { MarketsState } from '$lib/stores/markets';
+import type { AlertDedupState } from './engine';
 
 vi.mock('$lib/analysis/correlation', () => ({
 	analyzeCorrelations: vi.fn()
@@ -47,10 +48,12 @@ const emptyNarratives = {
 };
 
 describe('alert engine', () => {
+	let state: AlertDedupState;
+
 	beforeEach(async () => {
 		vi.resetModules();
-		const { resetAlertState } = await import('./engine');
-		resetAlertState();
+		const { createMemoryAlertState } = await import('./engine');
+		state = createMemoryAlertState();
 	});
 
 	it('creates a popup for alert-tagged news', async () => {
@@ -73,7 +76,8 @@ describe('alert engine', () => {
 				}
 			],
 			marketsState: createEmptyMarkets(),
-			locale: 'en'
+			locale: 'en',
+			state
 		});
 
 		expect(popups.length).toBe(1);
@@ -93,22 +97,22 @@ describe('alert engine', () => {
 			{ symbol: '^SPX', name: 'S&P 500', price: 100, change: 2, changePercent: 2 }
 		];
 
-		const first = detectAlerts({ newsItems: [], marketsState: markets, locale: 'en' });
+		const first = detectAlerts({ newsItems: [], marketsState: markets, locale: 'en', state });
 		expect(first.length).toBe(1);
 		expect(first[0].type).toBe('econSwing');
 
-		const second = detectAlerts({ newsItems: [], marketsState: markets, locale: 'en' });
+		const second = detectAlerts({ newsItems: [], marketsState: markets, locale: 'en', state });
 		expect(second.length).toBe(0);
 
 		markets.indices.items = [
 			{ symbol: '^SPX', name: 'S&P 500', price: 100, change: 0.2, changePercent: 0.2 }
 		];
-		detectAlerts({ newsItems: [], marketsState: markets, locale: 'en' });
+		detectAlerts({ newsItems: [], marketsState: markets, locale: 'en', state });
 
 		markets.indices.items = [
 			{ symbol: '^SPX', name: 'S&P 500', price: 100, change: -2, changePercent: -2 }
 		];
-		const third = detectAlerts({ newsItems: [], marketsState: markets, locale: 'en' });
+		const third = detectAlerts({ newsItems: [], marketsState: markets, locale: 'en', state });
 		expect(third.length).toBe(1);
 		expect(third[0].type).toBe('econSwing');
 	});
@@ -138,13 +142,48 @@ describe('alert engine', () => {
 		});
 
 		const { detectAlerts } = await import('./engine');
-		const first = detectAlerts({ newsItems: [], marketsState: createEmptyMarkets(), locale: 'en' });
+		const first = detectAlerts({ newsItems: [], marketsState: createEmptyMarkets(), locale: 'en', state });
 		expect(first.some((p) => p.type === 'compound')).toBe(true);
 
-		const second = detectAlerts({ newsItems: [], marketsState: createEmptyMarkets(), locale: 'en' });
+		const second = detectAlerts({ newsItems: [], marketsState: createEmptyMarkets(), locale: 'en', state });
 		expect(second.some((p) => p.type === 'compound')).toBe(false);
 	});
 
+	it('keeps dedup state for types whose analysis returned nothing', async () => {
+		const { analyzeCorrelations } = await import('$lib/analysis/correlation');
+		const { analyzeNarratives } = await import('$lib/analysis/narrative');
+		vi.mocked(analyzeNarratives).mockReturnValue(emptyNarratives);
+		const withSignal = {
+			...emptyCorrelation,
+			compoundSignals: [
+				{
+					id: 'c1',
+					name: 'Compound 1',
+					topics: [],
+					activeTopics: [],
+					score: 10,
+					keyJudgments: [],
+					indicators: [],
+					confirmationSignals: [],
+					assumptions: [],
+					changeTriggers: [],
+					level: 'high' as const
+				}
+			]
+		};
+
+		const { detectAlerts } = await import('./engine');
+		const markets = createEmptyMarkets();
+		vi.mocked(analyzeCorrelations).mockReturnValueOnce(withSignal);
+		expect(detectAlerts({ newsItems: [], marketsState: markets, locale: 'en', state })).toHaveLength(1);
+
+		vi.mocked(analyzeCorrelations).mockReturnValueOnce(null);
+		detectAlerts({ newsItems: [], marketsState: markets, locale: 'en', state });
+
+		vi.mocked(analyzeCorrelations).mockReturnValueOnce(withSignal);
+		expect(detectAlerts({ newsItems: [], marketsState: markets, locale: 'en', state })).toHaveLength(0);
+	});
+
 	it('fires for new narrative watch items', async () => {
 		const { analyzeCorrelations } = await import('$lib/analysis/correlation');
 		const { analyzeNarratives } = await import('$lib/analysis/narrative');
@@ -168,7 +207,88 @@ describe('alert engine', () => {
 		});
 
 		const { detectAlerts } = await import('./engine');
-		const popups = detectAlerts({ newsItems: [], marketsState: createEmptyMarkets(), locale: 'en' });
+		const popups = detectAlerts({ newsItems: [], marketsState: createEmptyMarkets(), locale: 'en', state });
 		expect(popups.some((p) => p.type === 'narrativeWatch')).toBe(true);
 	});
+
+	it('gives a grouped popup the severity of its most severe candidate', async () => {
+		const { groupAlertCandidates } = await import('./engine');
+		const [popup] = groupAlertCandidates([
+			{ type: 'predictionSwing', key: 'm1', severity: 'warning', detail: 'Ceasefire by March?' },
+			{ type: 'predictionSwing', key: 'm2', severity: 'danger', detail: 'Rate cut?' },
+			{ type: 'predictionSwing', key: 'm3', severity: 'danger', detail: 'Snap election?' }
+		]);
+		expect(popup).toMatchObject({ severity: 'danger', detail: 'Rate cut?', count: 3 });
+	});
+
+	it('fires prediction swings past the window threshold on liquid markets', async () => {
+		const { analyzeCorrelations } = await import('$lib/analysis/correlation');
+		const { analyzeNarratives } = await import('$lib/analysis/narrative');
+		vi.mocked(analyzeCorrelations).mockReturnValue(emptyCorrelation);
+		vi.mocked(analyzeNarratives).mockReturnValue(emptyNarratives);
+		const market = {
+			id: 'm1',
+			question: 'Ceasefire by March?',
+			yes: 62,
+			volume: 2_000_000,
+			url: 'https://polymarket.com/event/ceasefire',
+			category: 'geopolitics' as const,
+			deltas: { '1h': 4, '24h': 20, '7d': 22 }
+		};
+		const predictions = [
+			market,
+			// Large move, but too little volume to trust
+			{ ...market, id: 'm2', volume: 5_000, deltas: { '1h': 40, '24h': 40, '7d': 40 } },
+			// Below every threshold
+			{ ...market, id: 'm3', deltas: { '1h': -9, '24h': null, '7d': 24 } },
+			// Twice the 1h threshold
+			{
+				...market,
+				id: 'm4',
+				question: 'Rate cut?',
+				yes: 30,
+				deltas: { '1h': -20, '24h': -5, '7d': null }
+			}
+		];
+
+		const { collectAlertCandidates } = await import('./engine');
+		const swings = collectAlertCandidates({
+			newsItems: [],
+			marketsState: createEmptyMarkets(),
+			locale: 'en',
+			predictions
+		}).get('predictionSwing');
+
+		expect(swings).toEqual([
+			expect.objectContaining({
+				key: 'm1',
+				severity: 'warning',
+				detail: 'Ceasefire by March?: 42% → 62% (24h)',
+				panelId: 'polymarket',
+				url: 'https://polymarket.com/event/ceasefire'
+			}),
+			expect.objectContaining({
+				key: 'm4',
+				severity: 'danger',
+				detail: 'Rate cut?: 50% → 30% (1h)'
+			})
+		]);
+
+		const withoutDaily = collectAlertCandidates({
+			newsItems: [],
+			marketsState: createEmptyMarkets(),
+			locale: 'en',
+			predictions,
+			predictionSwingThresholds: { '1h': 10, '24h': null, '7d': 25 }
+		}).get('predictionSwing');
+		expect(withoutDaily?.map((candidate) => candidate.key)).toEqual(['m4']);
+
+		expect(
+			collectAlertCandidates({
+				newsItems: [],
+				marketsState: createEmptyMarkets(),
+				locale: 'en'
+			}).has('predictionSwing')
+		).toBe(false);
+	});
 });
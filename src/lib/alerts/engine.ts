@@ -2,8 +2,13 @@ import { analyzeCorrelations } from '$lib/analysis/correlation';
 import { analyzeNarratives } from '$lib/analysis/narrative';
 import type { MarketsState } from '$lib/stores/markets';
 import type { Locale } from '$lib/i18n/types';
-import type { NewsItem } from '$lib/types';
+import { detectSentimentShifts } from '$lib/shared/sentiment';
+import type { NewsItem, Prediction, PredictionDeltaWindow } from '$lib/types';
 import type { PanelId } from '$lib/config';
+import {
+	DEFAULT_PREDICTION_SWING_THRESHOLDS,
+	PREDICTION_SWING_MIN_VOLUME
+} from '$lib/config/predictions';
 
 export type AlertType =
 	| 'newsAlert'
@@ -13,7 +18,9 @@ export type AlertType =
 	| 'momentum'
 	| 'predictive'
 	| 'narrativeTracker'
-	| 'narrativeWatch';
+	| 'narrativeWatch'
+	| 'predictionSwing'
+	| 'sentimentShift';
 
 export type AlertSeverity = 'danger' | 'warning' | 'info';
 
@@ -31,11 +38,40 @@ export interface AlertPopup {
 	sourceId?: string;
 }
 
+/**
+ * One thing that can raise an alert, identified within its type by `key`
+ * (news id, signal id, market symbol)
+ */
+export interface AlertCandidate {
+	type: AlertType;
+	key: string;
+	severity: AlertSeverity;
+	detail?: string;
+	panelId?: PanelId;
+	tabId?: AlertPopup['tabId'];
+	sourceId?: string;
+	/** Link for candidates that are not news items (news alerts link to the article) */
+	url?: string;
+}
+
+/**
+ * Remembers which candidates already fired. `filterNew` receives every candidate
+ * currently present for a type and returns the ones that should fire now.
+ */
+export interface AlertDedupState {
+	filterNew(type: AlertType, candidates: AlertCandidate[]): AlertCandidate[];
+}
+
 interface DetectAlertsParams {
 	newsItems: NewsItem[];
 	marketsState: MarketsState;
 	locale: Locale;
+	state: AlertDedupState;
 	getPanelForNews?: (item: NewsItem) => PanelId | undefined;
+	/** Prediction markets with probability deltas; swing alerts are skipped when absent */
+	predictions?: Prediction[];
+	/** Percentage-point move per window that counts as a swing; null turns a window off */
+	predictionSwingThresholds?: Partial<Record<PredictionDeltaWindow, number | null>>;
 }
 
 const ECON_THRESHOLDS = {
@@ -43,59 +79,93 @@ const ECON_THRESHOLDS = {
 	commodities: 3
 };
 
-const prevNewsAlertIds = new Set<string>();
-const prevCompoundIds = new Set<string>();
-const prevEmergingIds = new Set<string>();
-const prevMomentumIds = new Set<string>();
-const prevPredictiveIds = new Set<string>();
-const prevNarrativeTrackerIds = new Set<string>();
-const prevNarrativeWatchIds = new Set<string>();
-const activeSwingSymbols = new Set<string>();
+/**
+ * In-memory dedup: a candidate fires when it was absent from the previous call for its type
+ */
+export function createMemoryAlertState(): AlertDedupState {
+	const previous = new Map<AlertType, Set<string>>();
+	return {
+		filterNew(type, candidates) {
+			const prevKeys = previous.get(type) ?? new Set<string>();
+			previous.set(type, new Set(candidates.map((candidate) => candidate.key)));
+			return candidates.filter((candidate) => !prevKeys.has(candidate.key));
+		}
+	};
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { danger: 2, warning: 1, info: 0 };
 
-export function resetAlertState(): void {
-	prevNewsAlertIds.clear();
-	prevCompoundIds.clear();
-	prevEmergingIds.clear();
-	prevMomentumIds.clear();
-	prevPredictiveIds.clear();
-	prevNarrativeTrackerIds.clear();
-	prevNarrativeWatchIds.clear();
-	activeSwingSymbols.clear();
+/**
+ * The alert that stands for a group: the first of the most severe, so a group is filtered by
+ * severity as its worst member
+ */
+export function pickGroupExample<T extends { severity: AlertSeverity }>(alerts: T[]): T {
+	return alerts.reduce((worst, alert) =>
+		SEVERITY_RANK[alert.severity] > SEVERITY_RANK[worst.severity] ? alert : worst
+	);
 }
 
-function createPopup(
-	type: AlertType,
-	count: number,
-	detail: string | undefined,
-	severity: AlertSeverity,
-	panelId?: PanelId,
-	tabId?: AlertPopup['tabId'],
-	sourceId?: string
-): AlertPopup {
+function createPopup(type: AlertType, candidates: AlertCandidate[]): AlertPopup {
+	const example = pickGroupExample(candidates);
 	return {
 		id: `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
 		type,
 		titleKey: `alerts.title.${type}`,
-		detail,
-		count,
+		detail: example.detail,
+		count: candidates.length,
 		timestamp: Date.now(),
-		severity,
-		panelId,
-		tabId,
-		sourceId
+		severity: example.severity,
+		panelId: example.panelId,
+		tabId: example.tabId,
+		sourceId: example.sourceId
 	};
 }
 
-function addNewIds(currentIds: string[], prevIds: Set<string>): string[] {
-	const newIds: string[] = [];
-	for (const id of currentIds) {
-		if (!prevIds.has(id)) {
-			newIds.push(id);
-		}
+/**
+ * Collapse fired candidates into one popup per type, using the most severe one as the example
+ */
+export function groupAlertCandidates(candidates: AlertCandidate[]): AlertPopup[] {
+	const byType = new Map<AlertType, AlertCandidate[]>();
+	for (const candidate of candidates) {
+		const group = byType.get(candidate.type);
+		if (group) group.push(candidate);
+		else byType.set(candidate.type, [candidate]);
+	}
+	return [...byType].map(([type, group]) => createPopup(type, group));
+}
+
+/**
+ * Dashboard panel that lists news of the given category
+ */
+export function getPanelForNews(item: { category: string }): PanelId | undefined {
+	switch (item.category) {
+		case 'politics':
+			return 'politics';
+		case 'tech':
+			return 'tech';
+		case 'finance':
+			return 'finance';
+		case 'gov':
+			return 'gov';
+		case 'ai':
+			return 'ai';
+		case 'intel':
+			return 'intel';
+		case 'brazil':
+			return 'brazil';
+		case 'latam':
+			return 'latam';
+		case 'iran':
+			return 'iran';
+		case 'venezuela':
+			return 'venezuela';
+		case 'greenland':
+			return 'greenland';
+		case 'fringe':
+			return 'intel';
+		default:
+			return undefined;
 	}
-	prevIds.clear();
-	for (const id of currentIds) prevIds.add(id);
-	return newIds;
 }
 
 function getTabForPanel(panelId?: PanelId): AlertPopup['tabId'] | undefined {
@@ -109,6 +179,7 @@ function getTabForPanel(panelId?: PanelId): AlertPopup['tabId'] | undefined {
 			return 'economy';
 		case 'correlation':
 		case 'narrative':
+		case 'mainchar':
 		case 'polymarket':
 			return 'social';
 		case 'brazil':
@@ -122,194 +193,199 @@ function getTabForPanel(panelId?: PanelId): AlertPopup['tabId'] | undefined {
 	}
 }
 
-export function detectAlerts({
+/**
+ * Alert candidates present in the current news and market data, per alert type.
+ * Types whose analysis produced no result are absent, so their dedup state is kept.
+ */
+export function collectAlertCandidates({
 	newsItems,
 	marketsState,
 	locale,
-	getPanelForNews
-}: DetectAlertsParams): AlertPopup[] {
-	const popups: AlertPopup[] = [];
+	getPanelForNews: panelForNews = getPanelForNews,
+	predictions,
+	predictionSwingThresholds = DEFAULT_PREDICTION_SWING_THRESHOLDS
+}: Omit<DetectAlertsParams, 'state'>): Map<AlertType, AlertCandidate[]> {
+	const candidates = new Map<AlertType, AlertCandidate[]>();
 
 	// News alerts
-	const alertNews = newsItems.filter((item) => item.isAlert);
-	const alertNewsIds = alertNews.map((item) => item.id);
-	const newAlertIds = addNewIds(alertNewsIds, prevNewsAlertIds);
-	if (newAlertIds.length > 0) {
-		const example = alertNews.find((item) => newAlertIds.includes(item.id));
-		const panelId = example && getPanelForNews ? getPanelForNews(example) : undefined;
-		const tabId = getTabForPanel(panelId);
-		popups.push(
-			createPopup(
-				'newsAlert',
-				newAlertIds.length,
-				example?.title,
-				'danger',
-				panelId,
-				tabId,
-				example?.id
-			)
-		);
-	}
+	candidates.set(
+		'newsAlert',
+		newsItems
+			.filter((item) => item.isAlert)
+			.map((item) => {
+				const panelId = panelForNews(item);
+				return {
+					type: 'newsAlert',
+					key: item.id,
+					severity: 'danger',
+					detail: item.title,
+					panelId,
+					tabId: getTabForPanel(panelId),
+					sourceId: item.id
+				};
+			})
+	);
 
 	// Economic indicator swings
 	const econItems = [
 		...marketsState.indices.items.map((item) => ({ item, category: 'indices' as const })),
 		...marketsState.commodities.items.map((item) => ({ item, category: 'commodities' as const }))
 	];
-	const newSwings: { symbol: string; name: string }[] = [];
-	for (const entry of econItems) {
-		const threshold = ECON_THRESHOLDS[entry.category];
-		const symbol = entry.item.symbol;
-		const change = Math.abs(entry.item.changePercent);
-		if (change >= threshold) {
-			if (!activeSwingSymbols.has(symbol)) {
-				activeSwingSymbols.add(symbol);
-				newSwings.push({ symbol, name: entry.item.name });
-			}
-		} else {
-			activeSwingSymbols.delete(symbol);
-		}
-	}
-	if (newSwings.length > 0) {
-		const example = newSwings[0];
-		popups.push(
-			createPopup(
-				'econSwing',
-				newSwings.length,
-				example?.name ?? example?.symbol,
-				'warning',
-				'markets',
-				'economy'
-			)
-		);
-	}
+	candidates.set(
+		'econSwing',
+		econItems
+			.filter(({ item, category }) => Math.abs(item.changePercent) >= ECON_THRESHOLDS[category])
+			.map(({ item }) => ({
+				type: 'econSwing',
+				key: item.symbol,
+				severity: 'warning',
+				detail: item.name ?? item.symbol,
+				panelId: 'markets',
+				tabId: 'economy'
+			}))
+	);
 
 	// Correlation-based signals
 	const correlation = analyzeCorrelations(newsItems, locale);
 	if (correlation) {
-		const newCompound = addNewIds(
-			correlation.compoundSignals.map((c) => c.id),
-			prevCompoundIds
-		);
-		if (newCompound.length > 0) {
-			const example = correlation.compoundSignals.find((c) => newCompound.includes(c.id));
-			popups.push(
-				createPopup(
-					'compound',
-					newCompound.length,
-					example?.name,
-					'danger',
-					'correlation',
-					'social',
-					example?.id
-				)
+		const signals = (
+			type: AlertType,
+			severity: AlertSeverity,
+			items: { id: string; detail?: string }[]
+		) =>
+			candidates.set(
+				type,
+				items.map((item) => ({
+					type,
+					key: item.id,
+					severity,
+					detail: item.detail,
+					panelId: 'correlation',
+					tabId: 'social',
+					sourceId: item.id
+				}))
 			);
-		}
-
-		const newEmerging = addNewIds(
-			correlation.emergingPatterns.map((c) => c.id),
-			prevEmergingIds
+		signals(
+			'compound',
+			'danger',
+			correlation.compoundSignals.map((c) => ({ id: c.id, detail: c.name }))
 		);
-		if (newEmerging.length > 0) {
-			const example = correlation.emergingPatterns.find((c) => newEmerging.includes(c.id));
-			popups.push(
-				createPopup(
-					'emerging',
-					newEmerging.length,
-					example?.name,
-					'warning',
-					'correlation',
-					'social',
-					example?.id
-				)
-			);
-		}
-
-		const newMomentum = addNewIds(
-			correlation.momentumSignals.map((c) => c.id),
-			prevMomentumIds
+		signals(
+			'emerging',
+			'warning',
+			correlation.emergingPatterns.map((c) => ({ id: c.id, detail: c.name }))
 		);
-		if (newMomentum.length > 0) {
-			const example = correlation.momentumSignals.find((c) => newMomentum.includes(c.id));
-			popups.push(
-				createPopup(
-					'momentum',
-					newMomentum.length,
-					example?.name,
-					'warning',
-					'correlation',
-					'social',
-					example?.id
-				)
-			);
-		}
-
-		const newPredictive = addNewIds(
-			correlation.predictiveSignals.map((c) => c.id),
-			prevPredictiveIds
+		signals(
+			'momentum',
+			'warning',
+			correlation.momentumSignals.map((c) => ({ id: c.id, detail: c.name }))
+		);
+		signals(
+			'predictive',
+			'info',
+			correlation.predictiveSignals.map((c) => ({ id: c.id, detail: c.prediction ?? c.name }))
 		);
-		if (newPredictive.length > 0) {
-			const example = correlation.predictiveSignals.find((c) => newPredictive.includes(c.id));
-			popups.push(
-				createPopup(
-					'predictive',
-					newPredictive.length,
-					example?.prediction ?? example?.name,
-					'info',
-					'correlation',
-					'social',
-					example?.id
-				)
-			);
-		}
 	}
 
 	// Narrative alerts
 	const narrative = analyzeNarratives(newsItems);
 	if (narrative) {
-		const trackerIds = [
-			...narrative.trendingNarratives.map((n) => n.id),
-			...narrative.emergingFringe.map((n) => n.id),
-			...narrative.fringeToMainstream.map((n) => n.id),
-			...narrative.disinfoSignals.map((n) => n.id)
-		];
-		const newTracker = addNewIds(trackerIds, prevNarrativeTrackerIds);
-		if (newTracker.length > 0) {
-			const example =
-				narrative.trendingNarratives.find((n) => newTracker.includes(n.id)) ??
-				narrative.emergingFringe.find((n) => newTracker.includes(n.id)) ??
-				narrative.fringeToMainstream.find((n) => newTracker.includes(n.id)) ??
-				narrative.disinfoSignals.find((n) => newTracker.includes(n.id));
-			popups.push(
-				createPopup(
-					'narrativeTracker',
-					newTracker.length,
-					example?.name,
-					'info',
-					'narrative',
-					'social',
-					example?.id
-				)
+		const stories = (type: AlertType, items: { id: string; name: string }[]) =>
+			candidates.set(
+				type,
+				items.map((item) => ({
+					type,
+					key: item.id,
+					severity: 'info',
+					detail: item.name,
+					panelId: 'narrative',
+					tabId: 'social',
+					sourceId: item.id
+				}))
 			);
-		}
+		stories('narrativeTracker', [
+			...narrative.trendingNarratives,
+			...narrative.emergingFringe,
+			...narrative.fringeToMainstream,
+			...narrative.disinfoSignals
+		]);
+		stories('narrativeWatch', narrative.narrativeWatch);
+	}
 
-		const watchIds = narrative.narrativeWatch.map((n) => n.id);
-		const newWatch = addNewIds(watchIds, prevNarrativeWatchIds);
-		if (newWatch.length > 0) {
-			const example = narrative.narrativeWatch.find((n) => newWatch.includes(n.id));
-			popups.push(
-				createPopup(
-					'narrativeWatch',
-					newWatch.length,
-					example?.name,
-					'info',
-					'narrative',
-					'social',
-					example?.id
-				)
-			);
-		}
+	// Leaders whose coverage turned sharply negative
+	candidates.set(
+		'sentimentShift',
+		detectSentimentShifts(newsItems).map((shift) => ({
+			type: 'sentimentShift',
+			key: shift.name,
+			severity: 'warning',
+			detail: `${shift.name}: ${shift.baselineScore.toFixed(2)} → ${shift.recentScore.toFixed(2)}`,
+			panelId: 'mainchar',
+			tabId: 'social'
+		}))
+	);
+
+	// Prediction market swings
+	if (predictions) {
+		candidates.set(
+			'predictionSwing',
+			predictions.flatMap((prediction) => {
+				const swing = getPredictionSwing(prediction, predictionSwingThresholds);
+				if (!swing) return [];
+				const from = prediction.yes - swing.delta;
+				return [
+					{
+						type: 'predictionSwing',
+						key: prediction.id,
+						severity: swing.ratio >= 2 ? 'danger' : 'warning',
+						detail: `${prediction.question}: ${from}% → ${prediction.yes}% (${swing.window})`,
+						panelId: 'polymarket',
+						tabId: 'social',
+						url: prediction.url
+					}
+				];
+			})
+		);
+	}
+
+	return candidates;
+}
+
+/**
+ * The window whose move is largest relative to its threshold, when any reaches it.
+ * Low-volume markets are ignored, since a single trade can move them.
+ */
+export function getPredictionSwing(
+	prediction: Prediction,
+	thresholds: Partial<Record<PredictionDeltaWindow, number | null>>
+): { window: PredictionDeltaWindow; delta: number; ratio: number } | null {
+	if (!prediction.deltas || prediction.volume < PREDICTION_SWING_MIN_VOLUME) return null;
+	let swing: { window: PredictionDeltaWindow; delta: number; ratio: number } | null = null;
+	for (const [window, delta] of Object.entries(prediction.deltas) as Array<
+		[PredictionDeltaWindow, number | null]
+	>) {
+		const threshold = thresholds[window];
+		if (delta === null || !threshold) continue;
+		const ratio = Math.abs(delta) / threshold;
+		if (ratio >= 1 && (!swing || ratio > swing.ratio)) swing = { window, delta, ratio };
 	}
+	return swing;
+}
+
+/**
+ * Candidates that fire now according to `state`, in alert-type order
+ */
+export function detectAlertCandidates(params: DetectAlertsParams): AlertCandidate[] {
+	const fired: AlertCandidate[] = [];
+	for (const [type, candidates] of collectAlertCandidates(params)) {
+		fired.push(...params.state.filterNew(type, candidates));
+	}
+	return fired;
+}
 
-	return popups;
+/**
+ * Detect newly fired alerts, one popup per alert type
+ */
+export function detectAlerts(params: DetectAlertsParams): AlertPopup[] {
+	return groupAlertCandidates(detectAlertCandidates(params));
 }
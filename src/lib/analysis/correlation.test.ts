@@ -965,3 +965,53 @@ describe('New Correlation Topics Coverage', () => {
 		expect(pattern).toBeDefined();
 	});
 });
+
+describe('Correlation replay', () => {
+	beforeEach(() => {
+		clearCorrelationHistory();
+		clearPersistedHistory();
+		seedPersistedHistoryForTesting(buildSeededHistory());
+	});
+
+	it('scores only headlines published by the replayed moment against its baseline', () => {
+		const at = Date.now() - 24 * 3600000;
+		const minute = 60000;
+		const news: NewsItem[] = [
+			createCorrelationNewsItem({
+				title: 'Ransomware attack hits hospitals',
+				timestamp: at - 30 * minute
+			}),
+			createCorrelationNewsItem({
+				title: 'Data breach exposes millions',
+				timestamp: at - 5 * minute
+			}),
+			createCorrelationNewsItem({
+				title: 'Zero-day exploit in routers',
+				timestamp: at - 2 * minute
+			}),
+			createCorrelationNewsItem({
+				title: 'Ransomware gang leaks files',
+				timestamp: at + 60 * minute
+			})
+		];
+		const hourlyAverages = { cyberattack: Array.from({ length: 48 }, (_, i) => i % 2) };
+
+		const results = analyzeCorrelations(news, 'en', { at, hourlyAverages });
+		const pattern = results?.emergingPatterns.find((p) => p.id === 'cyberattack');
+		expect(pattern).toMatchObject({ count: 3, baselinePoints: 48, baselineMedian: 0.5 });
+		const momentum = results?.momentumSignals.find((s) => s.id === 'cyberattack');
+		expect(momentum).toMatchObject({ current: 3, delta: 2, velocity: 0 });
+
+		// The live cache is untouched: the same input without replay counts every headline
+		const live = analyzeCorrelations(news);
+		expect(live?.topicStats.cyberattack.count).toBe(4);
+	});
+
+	it('returns nothing before the first headline', () => {
+		const at = Date.now() - 24 * 3600000;
+		const news = [
+			createCorrelationNewsItem({ title: 'Data breach exposes millions', timestamp: at + 1 })
+		];
+		expect(analyzeCorrelations(news, 'en', { at, hourlyAverages: {} })).toBeNull();
+	});
+});
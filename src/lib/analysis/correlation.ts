@@ -12,6 +12,12 @@ import {
 	type CompoundPattern
 } from '$lib/config/analysis';
 import type { Locale } from '$lib/i18n/types';
+import {
+	calculateMad,
+	calculateMedian,
+	calculateRobustZScore,
+	calculateZScore
+} from '$lib/shared/statistics';
 import { fetchCorrelationHistory, persistCorrelationHistory } from '$lib/api/analysis';
 
 // Types for correlation results
@@ -98,6 +104,15 @@ export interface CorrelationResults {
 	topicStats: Record<string, TopicStats>;
 }
 
+/**
+ * A past moment to analyze instead of the present: only headlines published by `at` count,
+ * scored against the hourly baseline stored before it. Live history is left untouched.
+ */
+export interface CorrelationReplayContext {
+	at: number;
+	hourlyAverages: Record<string, number[]>;
+}
+
 let lastCorrelationInput: NewsItem[] | null = null;
 let lastCorrelationLocale: Locale = 'en';
 let lastCorrelationResult: CorrelationResults | null = null;
@@ -237,47 +252,6 @@ function updatePersistedHistory(topicCounts: Record<string, number>): PersistedH
 	return history;
 }
 
-// Statistical functions
-function calculateZScore(value: number, historyValues: number[]): number {
-	if (historyValues.length < 3) return 0;
-
-	const mean = historyValues.reduce((a, b) => a + b, 0) / historyValues.length;
-	const variance =
-		historyValues.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / historyValues.length;
-	const stdDev = Math.sqrt(variance);
-
-	if (stdDev === 0) return 0;
-	return (value - mean) / stdDev;
-}
-
-function calculateMedian(values: number[]): number {
-	if (values.length === 0) return 0;
-	const sorted = [...values].sort((a, b) => a - b);
-	const middle = Math.floor(sorted.length / 2);
-	return sorted.length % 2 === 0
-		? (sorted[middle - 1] + sorted[middle]) / 2
-		: sorted[middle];
-}
-
-function calculateMad(values: number[], median: number): number {
-	if (values.length === 0) return 0;
-	const deviations = values.map((v) => Math.abs(v - median));
-	return calculateMedian(deviations);
-}
-
-function calculateRobustZScore(value: number, historyValues: number[]): number {
-	if (historyValues.length < 3) return 0;
-
-	const median = calculateMedian(historyValues);
-	const mad = calculateMad(historyValues, median);
-	if (mad > 0) {
-		return (0.6745 * (value - median)) / mad;
-	}
-
-	// Fallback to classic z-score when MAD collapses but variance remains informative.
-	return calculateZScore(value, historyValues);
-}
-
 function calculateVelocity(
 	topicId: string,
 	history: Record<number, Record<string, number>>
@@ -389,12 +363,35 @@ function detectCompoundPatterns(
 }
 
 /**
- * Analyze correlations across all news items
+ * Topic counts of the headlines published by `until`, for replayed momentum
+ */
+function countTopicsUntil(allNews: NewsItem[], until: number): Record<string, number> {
+	const counts: Record<string, number> = {};
+	for (const item of allNews) {
+		if (item.timestamp > until) continue;
+		const matchText = `${item.title || ''} ${item.translatedTitle || ''}`;
+		for (const topic of CORRELATION_TOPICS) {
+			if (topic.patterns.some((p) => p.test(matchText))) {
+				counts[topic.id] = (counts[topic.id] ?? 0) + 1;
+			}
+		}
+	}
+	return counts;
+}
+
+/**
+ * Analyze correlations across all news items, or as of a replayed moment
  */
 export function analyzeCorrelations(
 	allNews: NewsItem[],
-	locale: Locale = 'en'
+	locale: Locale = 'en',
+	replay?: CorrelationReplayContext
 ): CorrelationResults | null {
+	if (replay) {
+		const news = allNews.filter((item) => item.timestamp <= replay.at);
+		return news.length > 0 ? buildCorrelationResults(news, locale, replay) : null;
+	}
+
 	if (!allNews || allNews.length === 0) {
 		lastCorrelationInput = allNews;
 		lastCorrelationLocale = locale;
@@ -406,7 +403,21 @@ export function analyzeCorrelations(
 		return lastCorrelationResult;
 	}
 
-	const now = Date.now();
+	const results = buildCorrelationResults(allNews, locale);
+
+	lastCorrelationInput = allNews;
+	lastCorrelationLocale = locale;
+	lastCorrelationResult = results;
+
+	return results;
+}
+
+function buildCorrelationResults(
+	allNews: NewsItem[],
+	locale: Locale,
+	replay?: CorrelationReplayContext
+): CorrelationResults {
+	const now = replay?.at ?? Date.now();
 	const currentTime = Math.floor(now / 60000); // Current minute
 
 	const results: CorrelationResults = {
@@ -425,11 +436,13 @@ export function analyzeCorrelations(
 	// Analyze each news item
 	for (const item of allNews) {
 		const title = item.title || '';
+		// Translated titles let the English patterns see foreign-language headlines
+		const matchText = `${title} ${item.translatedTitle || ''}`;
 		const source = item.source || 'Unknown';
 		const sourceWeight = getSourceWeight(source);
 
 		for (const topic of CORRELATION_TOPICS) {
-			const matches = topic.patterns.some((p) => p.test(title));
+			const matches = topic.patterns.some((p) => p.test(matchText));
 			if (matches) {
 				if (!topicStats[topic.id]) {
 					topicStats[topic.id] = {
@@ -454,7 +467,9 @@ export function analyzeCorrelations(
 	}
 
 	// Update persisted history and calculate z-scores
-	const persistedHistory = updatePersistedHistory(topicCounts);
+	const persistedHistory: PersistedHistory = replay
+		? { hourlyAverages: replay.hourlyAverages, lastUpdate: replay.at }
+		: updatePersistedHistory(topicCounts);
 
 	// Calculate z-scores for each topic
 	for (const topicId of Object.keys(topicStats)) {
@@ -462,8 +477,8 @@ export function analyzeCorrelations(
 		topicStats[topicId].zScore = calculateZScore(topicStats[topicId].count, historyValues);
 	}
 
-	// Update topic history for momentum tracking
-	if (!topicHistory[currentTime]) {
+	// Update topic history for momentum tracking (a replay has no minute-by-minute history)
+	if (!replay && !topicHistory[currentTime]) {
 		topicHistory[currentTime] = { ...topicCounts };
 
 		// Clean old history entries
@@ -475,7 +490,8 @@ export function analyzeCorrelations(
 	}
 
 	// Calculate velocity and acceleration for each topic
-	for (const topicId of Object.keys(topicStats)) {
+	const trackedTopicIds = replay ? [] : Object.keys(topicStats);
+	for (const topicId of trackedTopicIds) {
 		const velocity = calculateVelocity(topicId, topicHistory);
 		topicStats[topicId].velocity = velocity;
 
@@ -493,7 +509,9 @@ export function analyzeCorrelations(
 
 	// Get old counts for momentum comparison
 	const oldTime = currentTime - MOMENTUM_WINDOW_MINUTES;
-	const oldCounts = topicHistory[oldTime] || {};
+	const oldCounts = replay
+		? countTopicsUntil(allNews, oldTime * 60000)
+		: topicHistory[oldTime] || {};
 
 	// Process each topic
 	for (const topic of CORRELATION_TOPICS) {
@@ -621,10 +639,6 @@ export function analyzeCorrelations(
 	results.crossSourceCorrelations.sort((a, b) => b.sourceCount - a.sourceCount);
 	results.predictiveSignals.sort((a, b) => b.score - a.score);
 
-	lastCorrelationInput = allNews;
-	lastCorrelationLocale = locale;
-	lastCorrelationResult = results;
-
 	return results;
 }
 
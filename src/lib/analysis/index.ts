@@ -11,7 +11,8 @@ export {
 	type MomentumSignal,
 	type CrossSourceCorrelation,
 	type PredictiveSignal,
-	type CorrelationResults
+	type CorrelationResults,
+	type CorrelationReplayContext
 } from './correlation';
 
 // Narrative tracker
@@ -33,3 +34,6 @@ export {
 	type MainCharacterEntry,
 	type MainCharacterResults
 } from './main-character';
+
+// Prediction market links
+export { getPredictionLinks, linkPredictions, getLinkedMarkets } from './prediction-links';
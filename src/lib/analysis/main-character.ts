@@ -4,16 +4,26 @@
 
 import type { NewsItem } from '$lib/types';
 import { PERSON_PATTERNS } from '$lib/config/analysis';
+import {
+	detectSentimentShifts,
+	summarizeSentiment,
+	type SentimentShift,
+	type SentimentSummary
+} from '$lib/shared/sentiment';
 
 export interface MainCharacterEntry {
 	name: string;
 	count: number;
 	rank: number;
+	/** Mean sentiment of the headlines mentioning this person */
+	sentiment: SentimentSummary;
 }
 
 export interface MainCharacterResults {
 	characters: MainCharacterEntry[];
 	topCharacter: MainCharacterEntry | null;
+	/** People whose coverage just turned sharply negative */
+	turningNegative: SentimentShift[];
 }
 
 /**
@@ -21,14 +31,15 @@ export interface MainCharacterResults {
  */
 export function calculateMainCharacter(allNews: NewsItem[]): MainCharacterResults {
 	if (!allNews || allNews.length === 0) {
-		return { characters: [], topCharacter: null };
+		return { characters: [], topCharacter: null, turningNegative: [] };
 	}
 
 	const counts: Record<string, number> = {};
+	const headlines: Record<string, NewsItem[]> = {};
 
 	// Count mentions for each person
 	for (const item of allNews) {
-		const text = (item.title || '').toLowerCase();
+		const text = `${item.title || ''} ${item.translatedTitle || ''}`.toLowerCase();
 
 		for (const { pattern, name } of PERSON_PATTERNS) {
 			// Reset lastIndex for global regex
@@ -37,6 +48,7 @@ export function calculateMainCharacter(allNews: NewsItem[]): MainCharacterResult
 
 			if (matches) {
 				counts[name] = (counts[name] || 0) + matches.length;
+				(headlines[name] ??= []).push(item);
 			}
 		}
 	}
@@ -48,12 +60,14 @@ export function calculateMainCharacter(allNews: NewsItem[]): MainCharacterResult
 		.map(([name, count], index) => ({
 			name,
 			count,
-			rank: index + 1
+			rank: index + 1,
+			sentiment: summarizeSentiment(headlines[name])
 		}));
 
 	return {
 		characters: sorted,
-		topCharacter: sorted[0] || null
+		topCharacter: sorted[0] || null,
+		turningNegative: detectSentimentShifts(allNews)
 	};
 }
 
@@ -7,8 +7,10 @@ import {
 	NARRATIVE_PATTERNS,
 	SOURCE_TYPES,
 	MAINSTREAM_NARRATIVE_PATTERNS,
+	type MainstreamNarrativePattern,
 	type NarrativePattern
 } from '$lib/config/analysis';
+import { sentimentLabel, summarizeSentiment } from '$lib/shared/sentiment';
 
 // Types for narrative results
 export interface NarrativeData {
@@ -135,26 +137,23 @@ function calculateMomentum(
 }
 
 /**
- * Estimate sentiment from headlines (simple heuristic)
+ * Overall sentiment of a narrative's headlines (mean lexicon score)
  */
 function estimateSentiment(headlines: NewsItem[]): 'positive' | 'neutral' | 'negative' {
-	const positivePatterns = [/surge|gain|rise|boost|rally|success|breakthrough|win|grow/i];
-	const negativePatterns = [
-		/crash|fall|drop|crisis|fear|risk|warn|threat|fail|lose|plunge|slump|loom|weak/i
-	];
-
-	let positive = 0;
-	let negative = 0;
-
-	for (const item of headlines) {
-		const text = `${item.title || ''} ${item.description || ''}`;
-		if (positivePatterns.some((p) => p.test(text))) positive++;
-		if (negativePatterns.some((p) => p.test(text))) negative++;
-	}
+	return sentimentLabel(summarizeSentiment(headlines).score);
+}
 
-	if (positive > negative) return 'positive';
-	if (negative > positive) return 'negative';
-	return 'neutral';
+/**
+ * Whether a headline belongs to a mainstream narrative - title, translation and description
+ * are matched, within the narrative's source categories when it has any
+ */
+export function matchesMainstreamNarrative(
+	item: NewsItem,
+	pattern: MainstreamNarrativePattern
+): boolean {
+	if (pattern.sourceCategories && !pattern.sourceCategories.includes(item.category)) return false;
+	const text = `${item.title || ''} ${item.translatedTitle || ''} ${item.description || ''}`;
+	return matchesPatterns(text, pattern.patterns);
 }
 
 /**
@@ -170,21 +169,10 @@ function analyzeMainstreamNarratives(
 	for (const pattern of MAINSTREAM_NARRATIVE_PATTERNS) {
 		const matches: NewsItem[] = [];
 		const sources = new Set<string>();
-		const allowedCategories = pattern.sourceCategories
-			? new Set(pattern.sourceCategories)
-			: null;
 
 		// Find matching news items - check both title AND description
 		for (const item of allNews) {
-			if (allowedCategories && !allowedCategories.has(item.category)) {
-				continue;
-			}
-
-			const title = item.title || '';
-			const description = item.description || '';
-			const combinedText = `${title} ${description}`;
-
-			if (matchesPatterns(combinedText, pattern.patterns)) {
+			if (matchesMainstreamNarrative(item, pattern)) {
 				matches.push(item);
 				sources.add(item.source);
 			}
@@ -266,7 +254,7 @@ function analyzeFringeNarratives(
 
 		// Find matching news items - now check both title AND description
 		for (const item of allNews) {
-			const title = (item.title || '').toLowerCase();
+			const title = `${item.title || ''} ${item.translatedTitle || ''}`.toLowerCase();
 			const description = (item.description || '').toLowerCase();
 			const combinedText = `${title} ${description}`;
 			const source = (item.source || '').toLowerCase();
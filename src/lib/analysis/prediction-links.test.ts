@@ -0,0 +1,56 @@
+/**
+ * Tests for prediction market topic/narrative links
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getLinkedMarkets, getPredictionLinks, linkPredictions } from './prediction-links';
+import type { Prediction } from '$lib/types';
+
+function prediction(id: string, question: string, volume: number): Prediction {
+	return {
+		id,
+		question,
+		yes: 50,
+		volume,
+		url: `https://polymarket.com/event/${id}`,
+		category: 'geopolitics'
+	};
+}
+
+describe('Prediction Links', () => {
+	it('matches market phrasing as well as the headline patterns', () => {
+		expect(getPredictionLinks('US military action against Iran by June 30?').topics).toContain(
+			'iran'
+		);
+		expect(getPredictionLinks('Will China invade Taiwan in 2026?')).toEqual({
+			topics: ['china-tensions'],
+			narratives: ['taiwan-contingency']
+		});
+		expect(
+			getPredictionLinks('Fed decreases interest rates by 50 bps after December meeting?')
+		).toMatchObject({ topics: ['fed-rates'] });
+		expect(getPredictionLinks('US recession in 2026?').narratives).toEqual(['recession-fears']);
+	});
+
+	it('leaves unrelated markets untagged', () => {
+		expect(getPredictionLinks('Will OpenAI release GPT-6 this year?')).toEqual({
+			topics: [],
+			narratives: []
+		});
+	});
+
+	it('returns the highest-volume markets linked to any requested id', () => {
+		const markets = linkPredictions([
+			prediction('a', 'US strikes Iran by March 31?', 200_000),
+			prediction('b', 'Israel x Hezbollah ceasefire by March?', 900_000),
+			prediction('c', 'Iran nuclear deal in 2026?', 5_000_000),
+			prediction('d', 'Will Bitcoin reach $150k?', 8_000_000)
+		]);
+
+		expect(getLinkedMarkets(markets, { topics: ['iran'] }).map((m) => m.id)).toEqual(['c', 'a']);
+		expect(
+			getLinkedMarkets(markets, { topics: ['iran', 'israel-gaza'] }, 2).map((m) => m.id)
+		).toEqual(['c', 'b']);
+		expect(getLinkedMarkets(markets, {})).toEqual([]);
+	});
+});
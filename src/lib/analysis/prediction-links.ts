@@ -0,0 +1,71 @@
+/**
+ * Prediction market links - tags markets with the correlation topics and mainstream
+ * narratives their question is about, so signals can show the related odds
+ */
+
+import { CORRELATION_TOPICS, MAINSTREAM_NARRATIVE_PATTERNS } from '$lib/config/analysis';
+import {
+	MAX_LINKED_MARKETS,
+	PREDICTION_NARRATIVE_PATTERNS,
+	PREDICTION_TOPIC_PATTERNS
+} from '$lib/config/predictions';
+import type { Prediction } from '$lib/types';
+
+interface LinkPattern {
+	id: string;
+	patterns: RegExp[];
+}
+
+const TOPIC_LINKS: LinkPattern[] = CORRELATION_TOPICS.map((topic) => ({
+	id: topic.id,
+	patterns: [...topic.patterns, ...(PREDICTION_TOPIC_PATTERNS[topic.id] ?? [])]
+}));
+
+const NARRATIVE_LINKS: LinkPattern[] = MAINSTREAM_NARRATIVE_PATTERNS.map((narrative) => ({
+	id: narrative.id,
+	patterns: [...narrative.patterns, ...(PREDICTION_NARRATIVE_PATTERNS[narrative.id] ?? [])]
+}));
+
+function matchLinks(question: string, links: LinkPattern[]): string[] {
+	return links
+		.filter((link) => link.patterns.some((pattern) => pattern.test(question)))
+		.map((link) => link.id);
+}
+
+/**
+ * Topic and narrative ids a market question matches
+ */
+export function getPredictionLinks(question: string): { topics: string[]; narratives: string[] } {
+	return {
+		topics: matchLinks(question, TOPIC_LINKS),
+		narratives: matchLinks(question, NARRATIVE_LINKS)
+	};
+}
+
+export function linkPredictions(predictions: Prediction[]): Prediction[] {
+	return predictions.map((prediction) => ({
+		...prediction,
+		...getPredictionLinks(prediction.question)
+	}));
+}
+
+/**
+ * Highest-volume markets tagged with any of the given topic or narrative ids
+ */
+export function getLinkedMarkets(
+	predictions: Prediction[],
+	ids: { topics?: string[]; narratives?: string[] },
+	limit = MAX_LINKED_MARKETS
+): Prediction[] {
+	const topics = new Set(ids.topics ?? []);
+	const narratives = new Set(ids.narratives ?? []);
+	if (topics.size === 0 && narratives.size === 0) return [];
+	return predictions
+		.filter(
+			(prediction) =>
+				prediction.topics?.some((id) => topics.has(id)) ||
+				prediction.narratives?.some((id) => narratives.has(id))
+		)
+		.sort((a, b) => b.volume - a.volume)
+		.slice(0, limit);
+}
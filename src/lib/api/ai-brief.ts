@@ -1,17 +1,19 @@
-const WORKER_URL = 'https://situation-monitor-proxy.projetip.workers.dev';
+import type { Locale } from '$lib/i18n/types';
+import type { AIBrief } from '$lib/types';
 
-export interface AIBrief {
-	text: string;
-	generatedAt: number;
-	headlineCount: number;
-}
+export type { AIBrief } from '$lib/types';
 
-export async function fetchAIBrief(headlines: string[] = []): Promise<AIBrief> {
-	const res = await fetch(`${WORKER_URL}/ai/brief`, {
-		method: 'POST',
-		headers: { 'Content-Type': 'application/json' },
-		body: JSON.stringify({ headlines })
-	});
+/**
+ * Situation brief from the server (/api/ai/brief), built from the headlines it has stored;
+ * `refresh` regenerates it instead of serving the cached one
+ */
+export async function fetchAIBrief(
+	options: { language?: Locale; refresh?: boolean } = {}
+): Promise<AIBrief> {
+	const params = new URLSearchParams();
+	if (options.language) params.set('lang', options.language);
+	if (options.refresh) params.set('refresh', 'true');
+	const res = await fetch(`/api/ai/brief?${params}`);
 	if (!res.ok) throw new Error(`AI brief fetch failed: ${res.status}`);
 	return res.json();
 }
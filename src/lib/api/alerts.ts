@@ -0,0 +1,32 @@
+import type { AlertRecord } from '$lib/types';
+
+export interface AlertInbox {
+	alerts: AlertRecord[];
+	unacknowledged: number;
+}
+
+/**
+ * Latest alerts from the shared server inbox
+ */
+export async function fetchAlerts(
+	options: { limit?: number; unacknowledgedOnly?: boolean } = {}
+): Promise<AlertInbox> {
+	const params = new URLSearchParams();
+	if (options.limit !== undefined) params.set('limit', String(options.limit));
+	if (options.unacknowledgedOnly) params.set('unacknowledged', 'true');
+
+	const res = await fetch(`/api/alerts?${params}`);
+	if (!res.ok) throw new Error(`Failed to load alerts (${res.status})`);
+	const data = (await res.json()) as Partial<AlertInbox>;
+	return {
+		alerts: Array.isArray(data.alerts) ? data.alerts : [],
+		unacknowledged: data.unacknowledged ?? 0
+	};
+}
+
+export async function acknowledgeAlert(id: string): Promise<AlertRecord | null> {
+	const res = await fetch(`/api/alerts/${encodeURIComponent(id)}/ack`, { method: 'POST' });
+	if (!res.ok) return null;
+	const data = (await res.json()) as { record?: AlertRecord };
+	return data.record ?? null;
+}
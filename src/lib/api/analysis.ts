@@ -1,4 +1,5 @@
 import type { Locale } from '$lib/i18n/types';
+import type { EventStudySummary } from '$lib/types';
 import type {
 	CompoundPatternAdditionCategory,
 	CompoundPatternManualAdditions
@@ -55,3 +56,10 @@ export async function persistCorrelationHistory(
 		body: JSON.stringify({ points, keepHours })
 	});
 }
+
+export async function fetchEventStudy(days = 90): Promise<EventStudySummary> {
+	const res = await fetch(`/api/analysis/event-study?days=${days}`);
+	if (!res.ok) throw new Error(`Failed to load event study (${res.status})`);
+	const data = (await res.json()) as Partial<EventStudySummary>;
+	return { patterns: data.patterns ?? [], topics: data.topics ?? [] };
+}
@@ -0,0 +1,26 @@
+import type { EarthquakeData } from '$lib/types';
+
+// USGS real-time feed: magnitude 2.5+ over the past day
+const USGS_FEED_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_day.geojson';
+
+interface UsgsFeature {
+	id: string;
+	properties: { mag: number | null; place: string | null; time: number; url: string };
+	geometry: { coordinates: [number, number, number] };
+}
+
+export async function fetchEarthquakes(): Promise<EarthquakeData[]> {
+	const res = await fetch(USGS_FEED_URL);
+	if (!res.ok) throw new Error(`Earthquakes fetch failed: ${res.status}`);
+	const data = (await res.json()) as { features?: UsgsFeature[] };
+	return (data.features ?? []).map((feature) => ({
+		id: feature.id,
+		magnitude: feature.properties.mag ?? 0,
+		place: feature.properties.place ?? '',
+		time: feature.properties.time,
+		lon: feature.geometry.coordinates[0],
+		lat: feature.geometry.coordinates[1],
+		depth: feature.geometry.coordinates[2],
+		url: feature.properties.url
+	}));
+}
@@ -4,15 +4,40 @@
 
 export { fetchCategoryNews, fetchAllNews, refreshAllNewsProgressive } from './news';
 export type { RefreshAllNewsProgressiveOptions } from './news';
+export { searchNews } from './search';
+export type { SearchNewsOptions } from './search';
+export {
+	fetchMonitors,
+	createMonitor,
+	updateMonitor,
+	deleteMonitor,
+	fetchMonitorMatches
+} from './monitors';
+export type { MonitorPayload, MonitorMutationResult } from './monitors';
+export { fetchMapLayers, importMapLayer, updateMapLayer, deleteMapLayer } from './map-layers';
+export type { MapLayerImport, MapLayerMutationResult } from './map-layers';
+export { fetchAlerts, acknowledgeAlert } from './alerts';
+export type { AlertInbox } from './alerts';
 export {
 	fetchCryptoPrices,
 	fetchIndices,
 	fetchSectorPerformance,
 	fetchCommodities,
-	fetchAllMarkets
+	fetchAllMarkets,
+	fetchMarketHistory
 } from './markets';
-export { fetchPolymarket, fetchWhaleTransactions, fetchGovContracts, fetchLayoffs } from './misc';
-export type { Prediction, WhaleTransaction, Contract, Layoff } from './misc';
+export {
+	fetchPolymarket,
+	fetchPredictionHistory,
+	fetchWhaleTransactions,
+	fetchGovContracts,
+	fetchLayoffs,
+	fetchEntities,
+	fetchSentimentTrends,
+	fetchHotspotLevels,
+	fetchReplaySnapshot
+} from './misc';
+export type { Prediction, WhaleTransaction, GovContractQuery } from './misc';
 export { fetchWorldLeaders } from './leaders';
 export { fetchFedIndicators, fetchFedNews, isFredConfigured } from './fred';
 export type { FedIndicators, EconomicIndicator, FedNewsItem, FedNewsType } from './fred';
@@ -24,10 +49,12 @@ export { fetchFearGreed } from './fear-greed';
 export type { FearGreedData } from './fear-greed';
 export { fetchOutagesSnapshot } from './outages';
 export type { OutagesSnapshot, InternetOutage } from './outages';
+export { fetchEarthquakes } from './earthquakes';
 export {
 	fetchManualAdditions,
 	createManualInsight,
 	fetchCorrelationHistory,
-	persistCorrelationHistory
+	persistCorrelationHistory,
+	fetchEventStudy
 } from './analysis';
 export type { CorrelationHistoryPoint } from './analysis';
@@ -0,0 +1,58 @@
+import type { MapLayerFormat, MapLayerMutationError, UserMapLayer } from '$lib/types';
+
+export interface MapLayerImport {
+	name: string;
+	color?: string;
+	format: MapLayerFormat;
+	/** Text of the imported file */
+	content: string;
+}
+
+export type MapLayerMutationResult =
+	| { ok: true; record: UserMapLayer }
+	| { ok: false; error: MapLayerMutationError };
+
+async function parseMutationResponse(res: Response): Promise<MapLayerMutationResult> {
+	const data = (await res.json().catch(() => ({}))) as {
+		record?: UserMapLayer;
+		error?: MapLayerMutationError;
+	};
+	if (!res.ok || !data.record) {
+		// A body over the server's limit is refused before it reaches the route
+		return { ok: false, error: data.error ?? (res.status === 413 ? 'too-large' : 'invalid-file') };
+	}
+	return { ok: true, record: data.record };
+}
+
+export async function fetchMapLayers(): Promise<UserMapLayer[]> {
+	const res = await fetch('/api/layers');
+	if (!res.ok) throw new Error(`Failed to load map layers (${res.status})`);
+	const data = (await res.json()) as { records?: UserMapLayer[] };
+	return Array.isArray(data.records) ? data.records : [];
+}
+
+export async function importMapLayer(layer: MapLayerImport): Promise<MapLayerMutationResult> {
+	const res = await fetch('/api/layers', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(layer)
+	});
+	return parseMutationResponse(res);
+}
+
+export async function updateMapLayer(
+	id: string,
+	updates: { name?: string; color?: string }
+): Promise<MapLayerMutationResult> {
+	const res = await fetch(`/api/layers/${encodeURIComponent(id)}`, {
+		method: 'PATCH',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(updates)
+	});
+	return parseMutationResponse(res);
+}
+
+export async function deleteMapLayer(id: string): Promise<boolean> {
+	const res = await fetch(`/api/layers/${encodeURIComponent(id)}`, { method: 'DELETE' });
+	return res.ok;
+}
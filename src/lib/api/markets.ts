@@ -10,7 +10,9 @@ import type {
 	SectorPerformance,
 	CryptoItem,
 	MarketHealthMap,
-	MarketCategoryKey
+	MarketCategoryKey,
+	MarketHistoryRange,
+	MarketTick
 } from '$lib/types';
 import { INDICES, SECTORS, COMMODITIES, CRYPTO } from '$lib/config/markets';
 
@@ -117,3 +119,18 @@ export async function fetchCommodities(): Promise<MarketItem[]> {
 	const data = await fetchAllMarkets();
 	return data.commodities;
 }
+
+/**
+ * Fetch stored price history for sparklines, keyed by symbol
+ */
+export async function fetchMarketHistory(
+	symbols: string[],
+	range: MarketHistoryRange
+): Promise<Record<string, MarketTick[]>> {
+	if (symbols.length === 0) return {};
+	const params = new URLSearchParams({ symbol: symbols.join(','), range });
+	const res = await fetch(`/api/markets/history?${params}`);
+	if (!res.ok) throw new Error(`Failed to load market history (${res.status})`);
+	const data = (await res.json()) as { series?: Record<string, MarketTick[]> };
+	return data.series ?? {};
+}
@@ -0,0 +1,77 @@
+import type {
+	CustomMonitor,
+	MonitorGeofence,
+	MonitorMatchHistory,
+	MonitorMutationError
+} from '$lib/types';
+
+export type MonitorPayload = Partial<
+	Omit<CustomMonitor, 'matchCount' | 'updatedAt' | 'location' | 'geofence'>
+> & {
+	/** null removes the location */
+	location?: CustomMonitor['location'] | null;
+	/** null removes the geofence */
+	geofence?: MonitorGeofence | null;
+};
+
+export type MonitorMutationResult =
+	| { ok: true; record: CustomMonitor }
+	| { ok: false; error: MonitorMutationError };
+
+async function parseMutationResponse(res: Response): Promise<MonitorMutationResult> {
+	const data = (await res.json().catch(() => ({}))) as {
+		record?: CustomMonitor;
+		error?: MonitorMutationError;
+	};
+	if (!res.ok || !data.record) return { ok: false, error: data.error ?? 'required' };
+	return { ok: true, record: data.record };
+}
+
+export async function fetchMonitors(): Promise<CustomMonitor[]> {
+	const res = await fetch('/api/monitors');
+	if (!res.ok) throw new Error(`Failed to load monitors (${res.status})`);
+	const data = (await res.json()) as { records?: CustomMonitor[] };
+	return Array.isArray(data.records) ? data.records : [];
+}
+
+export async function createMonitor(monitor: MonitorPayload): Promise<MonitorMutationResult> {
+	const res = await fetch('/api/monitors', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(monitor)
+	});
+	return parseMutationResponse(res);
+}
+
+export async function updateMonitor(
+	id: string,
+	updates: MonitorPayload
+): Promise<MonitorMutationResult> {
+	const res = await fetch(`/api/monitors/${encodeURIComponent(id)}`, {
+		method: 'PATCH',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(updates)
+	});
+	return parseMutationResponse(res);
+}
+
+export async function deleteMonitor(id: string): Promise<boolean> {
+	const res = await fetch(`/api/monitors/${encodeURIComponent(id)}`, { method: 'DELETE' });
+	return res.ok;
+}
+
+/**
+ * Recorded matches of a monitor: recent cached items plus a per-day timeline
+ */
+export async function fetchMonitorMatches(
+	id: string,
+	options: { limit?: number; days?: number } = {}
+): Promise<MonitorMatchHistory> {
+	const params = new URLSearchParams();
+	if (options.limit !== undefined) params.set('limit', String(options.limit));
+	if (options.days !== undefined) params.set('days', String(options.days));
+
+	const res = await fetch(`/api/monitors/${encodeURIComponent(id)}/matches?${params}`);
+	if (!res.ok) throw new Error(`Failed to load monitor matches (${res.status})`);
+	return res.json();
+}
@@ -0,0 +1,36 @@
+import type { NewsCategory, NewsSearchResponse } from '$lib/types';
+
+export interface SearchNewsOptions {
+	categories?: NewsCategory[];
+	region?: string;
+	topic?: string;
+	from?: number;
+	to?: number;
+	limit?: number;
+	offset?: number;
+	signal?: AbortSignal;
+}
+
+/**
+ * Search the server's cached news (last 7 days) with ranked, highlighted results
+ */
+export async function searchNews(
+	query: string,
+	options: SearchNewsOptions = {}
+): Promise<NewsSearchResponse> {
+	const params = new URLSearchParams({ q: query });
+	if (options.categories?.length) params.set('categories', options.categories.join(','));
+	if (options.region) params.set('region', options.region);
+	if (options.topic) params.set('topic', options.topic);
+	if (options.from !== undefined) params.set('from', String(options.from));
+	if (options.to !== undefined) params.set('to', String(options.to));
+	if (options.limit !== undefined) params.set('limit', String(options.limit));
+	if (options.offset !== undefined) params.set('offset', String(options.offset));
+
+	const res = await fetch(`/api/search?${params}`, { signal: options.signal });
+	if (!res.ok) {
+		const data = (await res.json().catch(() => null)) as { error?: string } | null;
+		throw new Error(data?.error ?? `Search failed (${res.status})`);
+	}
+	return res.json();
+}
@@ -5,6 +5,9 @@
 export { default as Panel } from './Panel.svelte';
 export { default as NewsItem } from './NewsItem.svelte';
 export { default as MarketItem } from './MarketItem.svelte';
+export { default as Sparkline } from './Sparkline.svelte';
+export { default as SparklineRangeToggle } from './SparklineRangeToggle.svelte';
+export { default as SentimentSparkline } from './SentimentSparkline.svelte';
 export { default as HeatmapCell } from './HeatmapCell.svelte';
 export { default as LoadingSpinner } from './LoadingSpinner.svelte';
 export { default as ErrorMessage } from './ErrorMessage.svelte';
@@ -12,3 +15,4 @@ export { default as Badge } from './Badge.svelte';
 export { default as InfoTooltip } from './InfoTooltip.svelte';
 export { default as AlertStack } from './AlertStack.svelte';
 export { default as PanelSkeleton } from './PanelSkeleton.svelte';
+export { default as ReplayControls } from './ReplayControls.svelte';
@@ -24,3 +24,12 @@ describe('NewsPanel expansion rendering', () => {
 		expect(panelSource).not.toContain('const items = $derived(filteredItems())');
 	});
 });
+
+describe('NewsPanel story clusters', () => {
+	it('paginates by story and collapses related headlines behind a source count', () => {
+		expect(panelSource).toContain('groupByCluster(items)');
+		expect(panelSource).toContain('class="cluster-toggle"');
+		expect(panelSource).toContain("t($language, 'news.clusterSources'");
+		expect(panelSource).toContain('aria-expanded={isOpen}');
+	});
+});
@@ -0,0 +1,57 @@
+/**
+ * AI brief configuration - provider defaults, prompt template and headline selection
+ */
+
+import type { AIBriefProviderId } from '$lib/types';
+
+export const AI_BRIEF_PROVIDERS: AIBriefProviderId[] = ['openai', 'anthropic', 'extractive'];
+
+/** Endpoints used when AI_BRIEF_BASE_URL is unset; the OpenAI-compatible default is a local Ollama */
+export const DEFAULT_AI_BRIEF_BASE_URLS: Record<
+	Exclude<AIBriefProviderId, 'extractive'>,
+	string
+> = {
+	openai: 'http://127.0.0.1:11434/v1',
+	anthropic: 'https://api.anthropic.com'
+};
+
+export const DEFAULT_AI_BRIEF_MODELS: Record<Exclude<AIBriefProviderId, 'extractive'>, string> = {
+	openai: 'llama3.2',
+	anthropic: 'claude-3-5-haiku-latest'
+};
+
+/** Language names substituted for {language} in the prompt */
+export const AI_BRIEF_LANGUAGE_NAMES: Record<string, string> = {
+	en: 'English',
+	'pt-BR': 'Brazilian Portuguese'
+};
+
+/**
+ * Prompt sent to LLM providers. {language}, {count} and {headlines} (one "- [source] title" line
+ * per headline) are substituted; AI_BRIEF_PROMPT replaces the whole template.
+ */
+export const DEFAULT_AI_BRIEF_PROMPT = `You are an intelligence analyst writing a situation brief for a monitoring dashboard.
+From the {count} headlines below, write 3-5 short paragraphs in {language} covering the most significant developments and how they connect.
+Use plain text without headings or bullet points, and do not add facts that are not in the headlines.
+
+{headlines}`;
+
+/** Headlines sent to LLM providers, newest first */
+export const AI_BRIEF_HEADLINE_LIMIT = 50;
+/** Only headlines of the last N hours are considered (AI_BRIEF_WINDOW_HOURS overrides) */
+export const DEFAULT_AI_BRIEF_WINDOW_HOURS = 24;
+/** ?refresh=true regenerates a cached brief only once it is this old (the endpoint is public) */
+export const AI_BRIEF_MIN_REFRESH_MS = 5 * 60000;
+/** After an LLM failure, briefs fall back to the extractive one without asking it for this long */
+export const AI_BRIEF_FAILURE_BACKOFF_MS = 5 * 60000;
+
+// Extractive brief: headlines are clustered into stories without any model
+
+/** Newest headlines the extractive brief clusters; bounds the pairwise comparisons on a Pi */
+export const AI_BRIEF_EXTRACTIVE_MAX_HEADLINES = 600;
+/** Stories listed in the extractive brief */
+export const AI_BRIEF_EXTRACTIVE_ITEMS = 6;
+/** Compound signals listed in the extractive brief */
+export const AI_BRIEF_EXTRACTIVE_SIGNALS = 3;
+/** A story's recency bonus halves every this many hours */
+export const STORY_RECENCY_HALF_LIFE_HOURS = 6;
@@ -0,0 +1,34 @@
+/**
+ * Article fetcher configuration - which linked pages are downloaded for full-text analysis
+ */
+
+/** Sent with every article and robots.txt request; robots.txt groups are matched on "SituationMonitor" */
+export const ARTICLE_FETCH_USER_AGENT = 'SituationMonitor/1.0 (article fetcher)';
+/** Minimum pause between two article requests (ARTICLE_FETCH_INTERVAL_MS overrides) */
+export const DEFAULT_ARTICLE_FETCH_INTERVAL_MS = 5000;
+/** Articles downloaded per refresh cycle, alerts first (ARTICLE_FETCH_MAX overrides) */
+export const DEFAULT_ARTICLE_FETCH_MAX = 10;
+/** Only headlines this recent are considered */
+export const ARTICLE_FETCH_WINDOW_MS = 24 * 3600000;
+/** Stored body text is cut at this many characters */
+export const ARTICLE_MAX_LENGTH = 20000;
+/** robots.txt files are re-read after this long */
+export const ROBOTS_CACHE_MS = 24 * 3600000;
+
+/**
+ * Sources never fetched: paywalled sites return a teaser, not the article. ARTICLE_FETCH_OPT_OUT
+ * adds source names or hostnames.
+ */
+export const DEFAULT_ARTICLE_OPT_OUT = [
+	'Bloomberg',
+	'Financial Times',
+	'The Economist',
+	'Wall Street Journal',
+	'WSJ Politics',
+	'WSJ Tech',
+	// Hostnames catch links that redirect to these sites from aggregators
+	'bloomberg.com',
+	'ft.com',
+	'economist.com',
+	'wsj.com'
+];
@@ -0,0 +1,83 @@
+/**
+ * Federal contract award configuration - USAspending search filters and vendor aliases
+ */
+
+/** Smallest award (USD) ingested unless CONTRACTS_MIN_AMOUNT overrides it */
+export const DEFAULT_CONTRACT_MIN_AMOUNT = 10_000_000;
+
+/** Awarding toptier agencies searched unless CONTRACTS_AGENCIES overrides them */
+export const DEFAULT_CONTRACT_AGENCIES = [
+	'Department of Defense',
+	'Department of Homeland Security',
+	'National Aeronautics and Space Administration',
+	'Department of Energy',
+	'Department of State'
+];
+
+/**
+ * NAICS codes searched unless CONTRACTS_NAICS overrides them; empty means every industry
+ */
+export const DEFAULT_CONTRACT_NAICS: string[] = [];
+
+/** Short agency names for the Contracts panel */
+export const AGENCY_ABBREVIATIONS: Record<string, string> = {
+	'Department of Defense': 'DOD',
+	'Department of Homeland Security': 'DHS',
+	'National Aeronautics and Space Administration': 'NASA',
+	'Department of Energy': 'DOE',
+	'Department of State': 'State',
+	'Department of Veterans Affairs': 'VA',
+	'Department of Health and Human Services': 'HHS',
+	'Department of Justice': 'DOJ',
+	'Department of Transportation': 'DOT',
+	'General Services Administration': 'GSA'
+};
+
+export function getAgencyAbbreviation(agency: string): string {
+	return AGENCY_ABBREVIATIONS[agency] ?? agency;
+}
+
+/**
+ * Names headlines use for recipients whose legal name differs, keyed by the normalized
+ * legal-name prefix (see normalizeVendorName)
+ */
+export const VENDOR_HEADLINE_ALIASES: Record<string, string[]> = {
+	'space exploration technologies': ['SpaceX'],
+	raytheon: ['Raytheon', 'RTX'],
+	'general dynamics': ['General Dynamics'],
+	'lockheed martin': ['Lockheed Martin', 'Lockheed'],
+	'northrop grumman': ['Northrop Grumman', 'Northrop'],
+	boeing: ['Boeing'],
+	'bae systems': ['BAE Systems', 'BAE'],
+	l3harris: ['L3Harris'],
+	'huntington ingalls': ['Huntington Ingalls', 'HII'],
+	palantir: ['Palantir'],
+	anduril: ['Anduril']
+};
+
+const LEGAL_SUFFIXES =
+	/\b(the|inc|incorporated|corp|corporation|co|company|llc|l l c|ltd|limited|lp|plc|holdings)\b/g;
+
+/**
+ * Lower-cased recipient name without punctuation and legal-form words
+ */
+export function normalizeVendorName(vendor: string): string {
+	return vendor
+		.toLowerCase()
+		.replace(/[.,&'()/-]/g, ' ')
+		.replace(LEGAL_SUFFIXES, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Terms a headline must contain to mention this vendor: its normalized name plus aliases
+ */
+export function getVendorSearchTerms(vendor: string): string[] {
+	const normalized = normalizeVendorName(vendor);
+	const terms = normalized.length >= 4 ? [normalized] : [];
+	for (const [prefix, aliases] of Object.entries(VENDOR_HEADLINE_ALIASES)) {
+		if (normalized.startsWith(prefix)) terms.push(...aliases.map((alias) => alias.toLowerCase()));
+	}
+	return [...new Set(terms)];
+}
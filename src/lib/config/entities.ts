@@ -0,0 +1,337 @@
+/**
+ * Entity extraction configuration - gazetteer of known people, organizations and places, the
+ * alias table that folds their spellings together and the word lists behind the capitalization
+ * heuristic that picks up names nobody listed
+ */
+
+import type { EntityType } from '$lib/types';
+
+export interface GazetteerEntry {
+	name: string;
+	type: EntityType;
+	/** Other spellings; the canonical name always matches */
+	aliases?: string[];
+}
+
+export const ENTITY_GAZETTEER: GazetteerEntry[] = [
+	// People
+	{ name: 'Donald Trump', type: 'person', aliases: ['Trump'] },
+	{ name: 'JD Vance', type: 'person', aliases: ['Vance'] },
+	{ name: 'Joe Biden', type: 'person', aliases: ['Biden'] },
+	{ name: 'Kamala Harris', type: 'person' },
+	{ name: 'Marco Rubio', type: 'person', aliases: ['Rubio'] },
+	{ name: 'Pete Hegseth', type: 'person', aliases: ['Hegseth'] },
+	{ name: 'Xi Jinping', type: 'person', aliases: ['Xi'] },
+	{ name: 'Vladimir Putin', type: 'person', aliases: ['Putin'] },
+	{ name: 'Volodymyr Zelensky', type: 'person', aliases: ['Zelensky', 'Zelenskyy', 'Zelenskiy'] },
+	{ name: 'Benjamin Netanyahu', type: 'person', aliases: ['Netanyahu', 'Bibi'] },
+	{ name: 'Ali Khamenei', type: 'person', aliases: ['Khamenei'] },
+	{ name: 'Mohammed bin Salman', type: 'person', aliases: ['MBS', 'bin Salman'] },
+	{ name: 'Keir Starmer', type: 'person', aliases: ['Starmer'] },
+	{ name: 'Emmanuel Macron', type: 'person', aliases: ['Macron'] },
+	{ name: 'Friedrich Merz', type: 'person', aliases: ['Merz'] },
+	{ name: 'Olaf Scholz', type: 'person', aliases: ['Scholz'] },
+	{ name: 'Giorgia Meloni', type: 'person', aliases: ['Meloni'] },
+	{ name: 'Narendra Modi', type: 'person', aliases: ['Modi'] },
+	{ name: 'Kim Jong Un', type: 'person', aliases: ['Kim Jong-un'] },
+	{ name: 'Shigeru Ishiba', type: 'person', aliases: ['Ishiba'] },
+	{ name: 'Lai Ching-te', type: 'person' },
+	{ name: 'Javier Milei', type: 'person', aliases: ['Milei'] },
+	{ name: 'Luiz Inácio Lula da Silva', type: 'person', aliases: ['Lula', 'Lula da Silva'] },
+	{ name: 'Jair Bolsonaro', type: 'person', aliases: ['Bolsonaro'] },
+	{ name: 'Nicolás Maduro', type: 'person', aliases: ['Maduro', 'Nicolas Maduro'] },
+	{ name: 'Mark Carney', type: 'person', aliases: ['Carney'] },
+	{ name: 'Recep Tayyip Erdogan', type: 'person', aliases: ['Erdogan', 'Erdoğan'] },
+	{ name: 'Ursula von der Leyen', type: 'person', aliases: ['von der Leyen'] },
+	{ name: 'Elon Musk', type: 'person', aliases: ['Musk'] },
+	{ name: 'Sam Altman', type: 'person', aliases: ['Altman'] },
+	{ name: 'Mark Zuckerberg', type: 'person', aliases: ['Zuckerberg'] },
+	{ name: 'Jeff Bezos', type: 'person', aliases: ['Bezos'] },
+	{ name: 'Tim Cook', type: 'person' },
+	{ name: 'Satya Nadella', type: 'person', aliases: ['Nadella'] },
+	{ name: 'Sundar Pichai', type: 'person', aliases: ['Pichai'] },
+	{ name: 'Jensen Huang', type: 'person' },
+	{ name: 'Dario Amodei', type: 'person', aliases: ['Amodei'] },
+	{ name: 'Warren Buffett', type: 'person', aliases: ['Buffett'] },
+	{ name: 'Jerome Powell', type: 'person', aliases: ['Powell'] },
+	{ name: 'Janet Yellen', type: 'person', aliases: ['Yellen'] },
+	{ name: 'Scott Bessent', type: 'person', aliases: ['Bessent'] },
+	{ name: 'Christine Lagarde', type: 'person', aliases: ['Lagarde'] },
+
+	// Organizations
+	{ name: 'NATO', type: 'organization', aliases: ['OTAN'] },
+	{ name: 'United Nations', type: 'organization', aliases: ['UN', 'ONU'] },
+	{ name: 'UN Security Council', type: 'organization', aliases: ['Security Council'] },
+	{ name: 'European Union', type: 'organization', aliases: ['EU'] },
+	{ name: 'European Commission', type: 'organization' },
+	{ name: 'OPEC', type: 'organization', aliases: ['OPEC+'] },
+	{ name: 'IMF', type: 'organization', aliases: ['International Monetary Fund'] },
+	{ name: 'World Bank', type: 'organization' },
+	{ name: 'WTO', type: 'organization', aliases: ['World Trade Organization'] },
+	{ name: 'WHO', type: 'organization', aliases: ['World Health Organization'] },
+	{ name: 'IAEA', type: 'organization', aliases: ['International Atomic Energy Agency'] },
+	{ name: 'BRICS', type: 'organization' },
+	{ name: 'G7', type: 'organization' },
+	{ name: 'G20', type: 'organization' },
+	{ name: 'Federal Reserve', type: 'organization', aliases: ['Fed'] },
+	{ name: 'European Central Bank', type: 'organization', aliases: ['ECB'] },
+	{ name: 'Pentagon', type: 'organization' },
+	{ name: 'White House', type: 'organization' },
+	{ name: 'Kremlin', type: 'organization' },
+	{ name: 'Congress', type: 'organization' },
+	{ name: 'Senate', type: 'organization' },
+	{ name: 'Supreme Court', type: 'organization' },
+	{ name: 'CIA', type: 'organization' },
+	{ name: 'FBI', type: 'organization' },
+	{ name: 'Mossad', type: 'organization' },
+	{ name: 'Hamas', type: 'organization' },
+	{ name: 'Hezbollah', type: 'organization' },
+	{ name: 'Houthis', type: 'organization', aliases: ['Houthi'] },
+	{ name: 'IRGC', type: 'organization', aliases: ['Revolutionary Guard', 'Revolutionary Guards'] },
+	{ name: 'Taliban', type: 'organization' },
+	{ name: 'Wagner Group', type: 'organization', aliases: ['Wagner'] },
+	{ name: 'OpenAI', type: 'organization' },
+	{ name: 'Anthropic', type: 'organization' },
+	{ name: 'Google', type: 'organization', aliases: ['Alphabet'] },
+	{ name: 'Microsoft', type: 'organization' },
+	{ name: 'Apple', type: 'organization' },
+	{ name: 'Amazon', type: 'organization' },
+	{ name: 'Meta', type: 'organization' },
+	{ name: 'Nvidia', type: 'organization' },
+	{ name: 'Tesla', type: 'organization' },
+	{ name: 'TSMC', type: 'organization' },
+	{ name: 'Huawei', type: 'organization' },
+	{ name: 'Petrobras', type: 'organization' },
+	{ name: 'Saudi Aramco', type: 'organization', aliases: ['Aramco'] },
+	{ name: 'BlackRock', type: 'organization' },
+
+	// Places
+	{ name: 'United States', type: 'location', aliases: ['US', 'U.S.', 'USA', 'America'] },
+	{ name: 'China', type: 'location', aliases: ['Beijing'] },
+	{ name: 'Russia', type: 'location', aliases: ['Moscow'] },
+	{ name: 'Ukraine', type: 'location', aliases: ['Kyiv', 'Kiev'] },
+	{ name: 'Israel', type: 'location', aliases: ['Jerusalem', 'Tel Aviv'] },
+	{ name: 'Gaza', type: 'location', aliases: ['Gaza Strip'] },
+	{ name: 'West Bank', type: 'location' },
+	{ name: 'Iran', type: 'location', aliases: ['Tehran'] },
+	{ name: 'Iraq', type: 'location', aliases: ['Baghdad'] },
+	{ name: 'Syria', type: 'location', aliases: ['Damascus'] },
+	{ name: 'Lebanon', type: 'location', aliases: ['Beirut'] },
+	{ name: 'Yemen', type: 'location' },
+	{ name: 'Saudi Arabia', type: 'location', aliases: ['Riyadh'] },
+	{ name: 'Qatar', type: 'location', aliases: ['Doha'] },
+	{ name: 'Turkey', type: 'location', aliases: ['Türkiye', 'Ankara'] },
+	{ name: 'Egypt', type: 'location', aliases: ['Cairo'] },
+	{ name: 'Taiwan', type: 'location', aliases: ['Taipei'] },
+	{ name: 'Japan', type: 'location', aliases: ['Tokyo'] },
+	{ name: 'South Korea', type: 'location', aliases: ['Seoul'] },
+	{ name: 'North Korea', type: 'location', aliases: ['Pyongyang'] },
+	{ name: 'India', type: 'location', aliases: ['New Delhi'] },
+	{ name: 'Pakistan', type: 'location', aliases: ['Islamabad'] },
+	{ name: 'Afghanistan', type: 'location', aliases: ['Kabul'] },
+	{ name: 'Philippines', type: 'location', aliases: ['Manila'] },
+	{ name: 'United Kingdom', type: 'location', aliases: ['UK', 'Britain', 'London'] },
+	{ name: 'France', type: 'location', aliases: ['Paris'] },
+	{ name: 'Germany', type: 'location', aliases: ['Berlin'] },
+	{ name: 'Italy', type: 'location', aliases: ['Rome'] },
+	{ name: 'Poland', type: 'location', aliases: ['Warsaw'] },
+	{ name: 'Belarus', type: 'location', aliases: ['Minsk'] },
+	{ name: 'Greenland', type: 'location', aliases: ['Nuuk'] },
+	{ name: 'Canada', type: 'location', aliases: ['Ottawa'] },
+	{ name: 'Mexico', type: 'location', aliases: ['Mexico City'] },
+	{ name: 'Brazil', type: 'location', aliases: ['Brasil', 'Brasília', 'Brasilia'] },
+	{ name: 'Argentina', type: 'location', aliases: ['Buenos Aires'] },
+	{ name: 'Venezuela', type: 'location', aliases: ['Caracas'] },
+	{ name: 'Colombia', type: 'location', aliases: ['Bogotá', 'Bogota'] },
+	{ name: 'Cuba', type: 'location', aliases: ['Havana'] },
+	{ name: 'Panama', type: 'location', aliases: ['Panama Canal'] },
+	{ name: 'Sudan', type: 'location', aliases: ['Khartoum'] },
+	{ name: 'Ethiopia', type: 'location', aliases: ['Addis Ababa'] },
+	{ name: 'Somalia', type: 'location', aliases: ['Mogadishu'] },
+	{ name: 'Niger', type: 'location', aliases: ['Niamey'] },
+	{ name: 'Nigeria', type: 'location', aliases: ['Abuja', 'Lagos'] },
+	{ name: 'South Africa', type: 'location', aliases: ['Pretoria', 'Johannesburg'] },
+	{ name: 'Washington', type: 'location', aliases: ['Washington DC', 'Washington, D.C.'] },
+	{ name: 'Brussels', type: 'location' },
+	{ name: 'Strait of Hormuz', type: 'location', aliases: ['Hormuz'] },
+	{ name: 'Red Sea', type: 'location' },
+	{ name: 'South China Sea', type: 'location' },
+	{ name: 'Black Sea', type: 'location' },
+	{ name: 'Crimea', type: 'location' },
+	{ name: 'Donbas', type: 'location', aliases: ['Donbass'] }
+];
+
+/**
+ * Capitalized words that are not names: headline kickers, sentence starters, calendar words and
+ * titles. A run of capitalized words loses these at its edges before it is considered a name.
+ */
+export const ENTITY_STOPWORDS = new Set([
+	'A',
+	'An',
+	'The',
+	'And',
+	'Or',
+	'But',
+	'In',
+	'On',
+	'At',
+	'Of',
+	'For',
+	'To',
+	'From',
+	'With',
+	'As',
+	'By',
+	'After',
+	'Before',
+	'Amid',
+	'Over',
+	'How',
+	'Why',
+	'What',
+	'When',
+	'Where',
+	'Who',
+	'Will',
+	'Is',
+	'Are',
+	'New',
+	'Breaking',
+	'Exclusive',
+	'Update',
+	'Live',
+	'Watch',
+	'Analysis',
+	'Opinion',
+	'Explainer',
+	'Report',
+	'Reports',
+	'Video',
+	'Photos',
+	'Monday',
+	'Tuesday',
+	'Wednesday',
+	'Thursday',
+	'Friday',
+	'Saturday',
+	'Sunday',
+	'January',
+	'February',
+	'March',
+	'April',
+	'May',
+	'June',
+	'July',
+	'August',
+	'September',
+	'October',
+	'November',
+	'December',
+	'President',
+	'Prime',
+	'Minister',
+	'Chancellor',
+	'King',
+	'Queen',
+	'Prince',
+	'Pope',
+	'General',
+	'Gen',
+	'Sen',
+	'Rep',
+	'Gov',
+	'Mr',
+	'Mrs',
+	'Ms',
+	'Dr',
+	'CEO',
+	'Secretary',
+	'Former',
+	'Ex'
+]);
+
+/** Titles that mark the capitalized word after them as a person ("President Noboa") */
+export const ENTITY_PERSON_TITLES = new Set([
+	'President',
+	'Minister',
+	'Chancellor',
+	'King',
+	'Queen',
+	'Prince',
+	'Pope',
+	'General',
+	'Gen',
+	'Sen',
+	'Rep',
+	'Gov',
+	'Mr',
+	'Mrs',
+	'Ms',
+	'Dr',
+	'CEO',
+	'Secretary'
+]);
+
+/** Lower-case particles allowed inside a name ("Mohammed bin Salman", "Lula da Silva") */
+export const ENTITY_NAME_PARTICLES = new Set([
+	'bin',
+	'al',
+	'da',
+	'de',
+	'do',
+	'dos',
+	'del',
+	'van',
+	'von',
+	'der',
+	'la',
+	'le'
+]);
+
+/** Last words that make an unknown capitalized run an organization instead of a person */
+export const ENTITY_ORG_SUFFIXES = new Set([
+	'Inc',
+	'Corp',
+	'Corporation',
+	'Co',
+	'Ltd',
+	'LLC',
+	'Group',
+	'Bank',
+	'Holdings',
+	'Capital',
+	'Partners',
+	'Party',
+	'Ministry',
+	'Agency',
+	'Council',
+	'Commission',
+	'Committee',
+	'Institute',
+	'University',
+	'Foundation',
+	'Association',
+	'Union',
+	'Army',
+	'Forces',
+	'Front',
+	'Movement',
+	'Brigade',
+	'Airlines',
+	'Motors',
+	'Energy',
+	'Technologies',
+	'Systems',
+	'Labs'
+]);
+
+/** Headlines with at least this share of capitalized words are Title Case: only the gazetteer applies */
+export const ENTITY_TITLE_CASE_RATIO = 0.6;
+/** Trending window (hours) used when /api/entities gets no `hours` */
+export const DEFAULT_ENTITY_WINDOW_HOURS = 24;
+/** Entities listed per type */
+export const DEFAULT_ENTITY_LIMIT = 10;
+/** Untracked people need this many mentions in the window to count as emerging */
+export const ENTITY_EMERGING_MIN_MENTIONS = 2;
+/** Strongest co-mention edges returned with the graph */
+export const ENTITY_GRAPH_MAX_EDGES = 40;
@@ -0,0 +1,90 @@
+/**
+ * Event study configuration - market instruments expected to react to correlation signals
+ */
+
+import { COMPOUND_PATTERNS } from './analysis';
+
+export type EventStudyDirection = 'up' | 'down';
+
+export interface EventStudyInstrument {
+	/** Symbol as stored in market_ticks (INDICES / COMMODITIES / upper-case CRYPTO) */
+	symbol: string;
+	/** Expected move when the signal is predictive */
+	direction: EventStudyDirection;
+}
+
+/** Horizons measured after a signal fires */
+export const EVENT_STUDY_HORIZONS = [
+	{ id: '1h', offsetMs: 3600000 },
+	{ id: '4h', offsetMs: 4 * 3600000 },
+	{ id: '24h', offsetMs: 24 * 3600000 }
+] as const;
+
+export type EventStudyHorizon = (typeof EVENT_STUDY_HORIZONS)[number]['id'];
+
+const up = (symbol: string): EventStudyInstrument => ({ symbol, direction: 'up' });
+const down = (symbol: string): EventStudyInstrument => ({ symbol, direction: 'down' });
+
+/**
+ * Linked instruments per CorrelationTopic id. Topics without an entry are not studied.
+ */
+export const TOPIC_INSTRUMENTS: Record<string, EventStudyInstrument[]> = {
+	tariffs: [down('^GSPC'), down('HG=F')],
+	'fed-rates': [up('^VIX'), up('GC=F')],
+	inflation: [up('GC=F'), down('^GSPC')],
+	'ai-regulation': [down('^IXIC')],
+	'china-tensions': [down('^IXIC'), down('HG=F'), up('^VIX')],
+	'russia-ukraine': [up('NG=F'), up('CL=F'), up('GC=F')],
+	'israel-gaza': [up('CL=F'), up('GC=F')],
+	iran: [up('CL=F'), up('GC=F')],
+	crypto: [down('BTC'), down('ETH')],
+	housing: [down('^GSPC')],
+	layoffs: [down('^GSPC'), down('^RUT')],
+	'bank-crisis': [down('^GSPC'), up('GC=F'), up('^VIX')],
+	pandemic: [down('^GSPC'), down('CL=F')],
+	nuclear: [up('GC=F'), up('^VIX')],
+	'supply-chain': [up('HG=F'), up('CL=F')],
+	'big-tech': [down('^IXIC')],
+	cyberattack: [up('^VIX')],
+	'state-hacking': [up('^VIX')],
+	'rare-earths': [up('HG=F')],
+	'oil-opec': [up('CL=F')],
+	sanctions: [up('CL=F'), up('NG=F')],
+	'sovereign-debt': [up('GC=F'), up('^VIX')],
+	'credit-stress': [up('^VIX'), down('^GSPC')],
+	'arms-race': [up('GC=F')],
+	'nato-defense': [up('GC=F')],
+	'extreme-weather': [up('NG=F')]
+};
+
+/**
+ * Patterns whose market channel is narrower than the union of their topics
+ */
+const PATTERN_INSTRUMENT_OVERRIDES: Record<string, EventStudyInstrument[]> = {
+	'energy-supply-shock': [up('CL=F'), up('NG=F'), up('^VIX')],
+	'energy-weaponization': [up('NG=F'), up('CL=F')],
+	'dollar-stress': [up('GC=F'), up('BTC')]
+};
+
+/**
+ * Linked instruments for a CompoundPattern: its override, else the union of its topics'
+ * instruments (the first topic listing a symbol decides the direction)
+ */
+export function getPatternInstruments(patternId: string): EventStudyInstrument[] {
+	const override = PATTERN_INSTRUMENT_OVERRIDES[patternId];
+	if (override) return override;
+	const pattern = COMPOUND_PATTERNS.find((candidate) => candidate.id === patternId);
+	if (!pattern) return [];
+
+	const bySymbol = new Map<string, EventStudyInstrument>();
+	for (const topicId of pattern.topics) {
+		for (const instrument of TOPIC_INSTRUMENTS[topicId] ?? []) {
+			if (!bySymbol.has(instrument.symbol)) bySymbol.set(instrument.symbol, instrument);
+		}
+	}
+	return [...bySymbol.values()];
+}
+
+export function getTopicInstruments(topicId: string): EventStudyInstrument[] {
+	return TOPIC_INSTRUMENTS[topicId] ?? [];
+}
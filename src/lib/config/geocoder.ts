@@ -0,0 +1,1207 @@
+/**
+ * Geocoder configuration - the bundled gazetteer of countries and cities headlines are matched
+ * against, plus the named places the map already draws (hotspots, chokepoints, conflict zones,
+ * nuclear sites) so a story about Hormuz lands on the Hormuz marker
+ */
+
+import { CHOKEPOINTS, CONFLICT_ZONES, HOTSPOTS, NUCLEAR_SITES } from './map';
+
+export type GeoPlaceKind = 'city' | 'landmark' | 'country';
+
+export interface GeoPlace {
+	name: string;
+	kind: GeoPlaceKind;
+	lat: number;
+	lon: number;
+	/** ISO 3166-1 alpha-2; absent for places at sea or spanning several countries */
+	countryCode?: string;
+	/** Other spellings (Portuguese and Spanish names, demonyms); matched case-sensitively */
+	aliases?: string[];
+}
+
+/**
+ * More specific places win when a headline names several ("Russia strikes Kyiv" is Kyiv)
+ */
+export const GEO_KIND_PRIORITY: Record<GeoPlaceKind, number> = {
+	city: 3,
+	landmark: 2,
+	country: 1
+};
+
+export const GEO_COUNTRIES: GeoPlace[] = [
+	// Americas
+	{
+		name: 'United States',
+		kind: 'country',
+		lat: 39.8,
+		lon: -98.6,
+		countryCode: 'US',
+		aliases: ['US', 'U.S.', 'USA', 'Estados Unidos', 'EUA', 'EE.UU.']
+	},
+	{
+		name: 'Canada',
+		kind: 'country',
+		lat: 56.1,
+		lon: -106.3,
+		countryCode: 'CA',
+		aliases: ['Canadian', 'Canadá']
+	},
+	{
+		name: 'Mexico',
+		kind: 'country',
+		lat: 23.6,
+		lon: -102.5,
+		countryCode: 'MX',
+		aliases: ['Mexican', 'México']
+	},
+	{ name: 'Cuba', kind: 'country', lat: 21.5, lon: -79.5, countryCode: 'CU', aliases: ['Cuban'] },
+	{
+		name: 'Haiti',
+		kind: 'country',
+		lat: 19.0,
+		lon: -72.3,
+		countryCode: 'HT',
+		aliases: ['Haitian', 'Haití']
+	},
+	{ name: 'Guatemala', kind: 'country', lat: 15.8, lon: -90.2, countryCode: 'GT' },
+	{ name: 'Honduras', kind: 'country', lat: 15.2, lon: -86.2, countryCode: 'HN' },
+	{
+		name: 'El Salvador',
+		kind: 'country',
+		lat: 13.8,
+		lon: -88.9,
+		countryCode: 'SV',
+		aliases: ['Salvadoran']
+	},
+	{ name: 'Nicaragua', kind: 'country', lat: 12.9, lon: -85.2, countryCode: 'NI' },
+	{
+		name: 'Panama',
+		kind: 'country',
+		lat: 8.5,
+		lon: -80.8,
+		countryCode: 'PA',
+		aliases: ['Panamá', 'Panamanian']
+	},
+	{
+		name: 'Colombia',
+		kind: 'country',
+		lat: 4.6,
+		lon: -74.3,
+		countryCode: 'CO',
+		aliases: ['Colombian', 'Colômbia']
+	},
+	{
+		name: 'Venezuela',
+		kind: 'country',
+		lat: 6.4,
+		lon: -66.6,
+		countryCode: 'VE',
+		aliases: ['Venezuelan', 'venezuelano']
+	},
+	{
+		name: 'Ecuador',
+		kind: 'country',
+		lat: -1.8,
+		lon: -78.2,
+		countryCode: 'EC',
+		aliases: ['Equador', 'Ecuadorian']
+	},
+	{
+		name: 'Peru',
+		kind: 'country',
+		lat: -9.2,
+		lon: -75.0,
+		countryCode: 'PE',
+		aliases: ['Perú', 'Peruvian']
+	},
+	{
+		name: 'Bolivia',
+		kind: 'country',
+		lat: -16.3,
+		lon: -63.6,
+		countryCode: 'BO',
+		aliases: ['Bolívia', 'Bolivian']
+	},
+	{
+		name: 'Brazil',
+		kind: 'country',
+		lat: -14.2,
+		lon: -51.9,
+		countryCode: 'BR',
+		aliases: ['Brasil', 'Brazilian', 'brasileiro', 'brasileira']
+	},
+	{
+		name: 'Paraguay',
+		kind: 'country',
+		lat: -23.4,
+		lon: -58.4,
+		countryCode: 'PY',
+		aliases: ['Paraguai']
+	},
+	{
+		name: 'Uruguay',
+		kind: 'country',
+		lat: -32.5,
+		lon: -55.8,
+		countryCode: 'UY',
+		aliases: ['Uruguai']
+	},
+	{
+		name: 'Argentina',
+		kind: 'country',
+		lat: -38.4,
+		lon: -63.6,
+		countryCode: 'AR',
+		aliases: ['Argentine', 'Argentinian', 'argentino']
+	},
+	{
+		name: 'Chile',
+		kind: 'country',
+		lat: -35.7,
+		lon: -71.5,
+		countryCode: 'CL',
+		aliases: ['Chilean']
+	},
+	{
+		name: 'Greenland',
+		kind: 'country',
+		lat: 71.7,
+		lon: -42.6,
+		countryCode: 'GL',
+		aliases: ['Groenlândia', 'Groenlandia']
+	},
+
+	// Europe
+	{
+		name: 'United Kingdom',
+		kind: 'country',
+		lat: 54.0,
+		lon: -2.0,
+		countryCode: 'GB',
+		aliases: ['UK', 'U.K.', 'Britain', 'British', 'Reino Unido']
+	},
+	{ name: 'Ireland', kind: 'country', lat: 53.4, lon: -8.2, countryCode: 'IE', aliases: ['Irish'] },
+	{
+		name: 'France',
+		kind: 'country',
+		lat: 46.6,
+		lon: 2.2,
+		countryCode: 'FR',
+		aliases: ['French', 'França', 'Francia']
+	},
+	{
+		name: 'Germany',
+		kind: 'country',
+		lat: 51.2,
+		lon: 10.4,
+		countryCode: 'DE',
+		aliases: ['German', 'Alemanha', 'Alemania']
+	},
+	{
+		name: 'Spain',
+		kind: 'country',
+		lat: 40.5,
+		lon: -3.7,
+		countryCode: 'ES',
+		aliases: ['Spanish', 'Espanha', 'España']
+	},
+	{
+		name: 'Portugal',
+		kind: 'country',
+		lat: 39.4,
+		lon: -8.2,
+		countryCode: 'PT',
+		aliases: ['Portuguese']
+	},
+	{
+		name: 'Italy',
+		kind: 'country',
+		lat: 41.9,
+		lon: 12.6,
+		countryCode: 'IT',
+		aliases: ['Italian', 'Itália', 'Italia']
+	},
+	{
+		name: 'Netherlands',
+		kind: 'country',
+		lat: 52.1,
+		lon: 5.3,
+		countryCode: 'NL',
+		aliases: ['Dutch', 'Holanda', 'Países Baixos']
+	},
+	{
+		name: 'Belgium',
+		kind: 'country',
+		lat: 50.5,
+		lon: 4.5,
+		countryCode: 'BE',
+		aliases: ['Belgian', 'Bélgica']
+	},
+	{
+		name: 'Switzerland',
+		kind: 'country',
+		lat: 46.8,
+		lon: 8.2,
+		countryCode: 'CH',
+		aliases: ['Swiss', 'Suíça', 'Suiza']
+	},
+	{
+		name: 'Austria',
+		kind: 'country',
+		lat: 47.5,
+		lon: 14.6,
+		countryCode: 'AT',
+		aliases: ['Austrian', 'Áustria']
+	},
+	{
+		name: 'Poland',
+		kind: 'country',
+		lat: 51.9,
+		lon: 19.1,
+		countryCode: 'PL',
+		aliases: ['Polish', 'Polônia', 'Polonia']
+	},
+	{
+		name: 'Czech Republic',
+		kind: 'country',
+		lat: 49.8,
+		lon: 15.5,
+		countryCode: 'CZ',
+		aliases: ['Czechia', 'Czech']
+	},
+	{
+		name: 'Hungary',
+		kind: 'country',
+		lat: 47.2,
+		lon: 19.5,
+		countryCode: 'HU',
+		aliases: ['Hungarian', 'Hungria']
+	},
+	{
+		name: 'Romania',
+		kind: 'country',
+		lat: 45.9,
+		lon: 24.97,
+		countryCode: 'RO',
+		aliases: ['Romanian', 'Romênia']
+	},
+	{
+		name: 'Moldova',
+		kind: 'country',
+		lat: 47.4,
+		lon: 28.4,
+		countryCode: 'MD',
+		aliases: ['Moldávia']
+	},
+	{
+		name: 'Serbia',
+		kind: 'country',
+		lat: 44.0,
+		lon: 21.0,
+		countryCode: 'RS',
+		aliases: ['Serbian', 'Sérvia']
+	},
+	{ name: 'Kosovo', kind: 'country', lat: 42.6, lon: 20.9, countryCode: 'XK' },
+	{
+		name: 'Greece',
+		kind: 'country',
+		lat: 39.1,
+		lon: 21.8,
+		countryCode: 'GR',
+		aliases: ['Greek', 'Grécia', 'Grecia']
+	},
+	{
+		name: 'Sweden',
+		kind: 'country',
+		lat: 60.1,
+		lon: 18.6,
+		countryCode: 'SE',
+		aliases: ['Swedish', 'Suécia']
+	},
+	{
+		name: 'Norway',
+		kind: 'country',
+		lat: 60.5,
+		lon: 8.5,
+		countryCode: 'NO',
+		aliases: ['Norwegian', 'Noruega']
+	},
+	{
+		name: 'Finland',
+		kind: 'country',
+		lat: 61.9,
+		lon: 25.7,
+		countryCode: 'FI',
+		aliases: ['Finnish', 'Finlândia']
+	},
+	{
+		name: 'Denmark',
+		kind: 'country',
+		lat: 56.3,
+		lon: 9.5,
+		countryCode: 'DK',
+		aliases: ['Danish', 'Dinamarca']
+	},
+	{
+		name: 'Estonia',
+		kind: 'country',
+		lat: 58.6,
+		lon: 25.0,
+		countryCode: 'EE',
+		aliases: ['Estônia']
+	},
+	{
+		name: 'Latvia',
+		kind: 'country',
+		lat: 56.9,
+		lon: 24.6,
+		countryCode: 'LV',
+		aliases: ['Letônia']
+	},
+	{
+		name: 'Lithuania',
+		kind: 'country',
+		lat: 55.2,
+		lon: 23.9,
+		countryCode: 'LT',
+		aliases: ['Lituânia']
+	},
+	{
+		name: 'Belarus',
+		kind: 'country',
+		lat: 53.7,
+		lon: 27.95,
+		countryCode: 'BY',
+		aliases: ['Belarusian', 'Bielorrússia']
+	},
+	{
+		name: 'Ukraine',
+		kind: 'country',
+		lat: 48.4,
+		lon: 31.2,
+		countryCode: 'UA',
+		aliases: ['Ukrainian', 'Ucrânia', 'Ucrania', 'ucraniano', 'ucraniana']
+	},
+	{
+		name: 'Russia',
+		kind: 'country',
+		lat: 61.5,
+		lon: 105.3,
+		countryCode: 'RU',
+		aliases: ['Russian', 'Rússia', 'Rusia', 'russo', 'russa']
+	},
+	{
+		name: 'Turkey',
+		kind: 'country',
+		lat: 39.0,
+		lon: 35.2,
+		countryCode: 'TR',
+		aliases: ['Türkiye', 'Turkish', 'Turquia', 'Turquía']
+	},
+	{
+		name: 'Armenia',
+		kind: 'country',
+		lat: 40.1,
+		lon: 45.0,
+		countryCode: 'AM',
+		aliases: ['Armênia']
+	},
+	{
+		name: 'Azerbaijan',
+		kind: 'country',
+		lat: 40.1,
+		lon: 47.6,
+		countryCode: 'AZ',
+		aliases: ['Azerbaijão']
+	},
+
+	// Middle East
+	{
+		name: 'Israel',
+		kind: 'country',
+		lat: 31.0,
+		lon: 34.9,
+		countryCode: 'IL',
+		aliases: ['Israeli', 'israelense']
+	},
+	{
+		name: 'Palestine',
+		kind: 'country',
+		lat: 31.9,
+		lon: 35.2,
+		countryCode: 'PS',
+		aliases: ['Palestinian', 'West Bank', 'Palestina', 'Cisjordânia']
+	},
+	{
+		name: 'Lebanon',
+		kind: 'country',
+		lat: 33.9,
+		lon: 35.9,
+		countryCode: 'LB',
+		aliases: ['Lebanese', 'Líbano', 'Hezbollah']
+	},
+	{
+		name: 'Syria',
+		kind: 'country',
+		lat: 34.8,
+		lon: 38.99,
+		countryCode: 'SY',
+		aliases: ['Syrian', 'Síria', 'Siria']
+	},
+	{
+		name: 'Jordan',
+		kind: 'country',
+		lat: 30.6,
+		lon: 36.2,
+		countryCode: 'JO',
+		aliases: ['Jordanian', 'Jordânia']
+	},
+	{
+		name: 'Iraq',
+		kind: 'country',
+		lat: 33.2,
+		lon: 43.7,
+		countryCode: 'IQ',
+		aliases: ['Iraqi', 'Iraque', 'Irak']
+	},
+	{
+		name: 'Iran',
+		kind: 'country',
+		lat: 32.4,
+		lon: 53.7,
+		countryCode: 'IR',
+		aliases: ['Iranian', 'Irã', 'Irán', 'iraniano']
+	},
+	{
+		name: 'Saudi Arabia',
+		kind: 'country',
+		lat: 23.9,
+		lon: 45.1,
+		countryCode: 'SA',
+		aliases: ['Saudi', 'Arábia Saudita', 'Arabia Saudita']
+	},
+	{
+		name: 'Yemen',
+		kind: 'country',
+		lat: 15.6,
+		lon: 48.5,
+		countryCode: 'YE',
+		aliases: ['Yemeni', 'Iêmen', 'Houthi', 'Houthis']
+	},
+	{ name: 'Oman', kind: 'country', lat: 21.5, lon: 55.9, countryCode: 'OM', aliases: ['Omã'] },
+	{
+		name: 'United Arab Emirates',
+		kind: 'country',
+		lat: 23.4,
+		lon: 53.8,
+		countryCode: 'AE',
+		aliases: ['UAE', 'Emirati', 'Emirados Árabes Unidos']
+	},
+	{
+		name: 'Qatar',
+		kind: 'country',
+		lat: 25.4,
+		lon: 51.2,
+		countryCode: 'QA',
+		aliases: ['Qatari', 'Catar']
+	},
+	{ name: 'Kuwait', kind: 'country', lat: 29.3, lon: 47.5, countryCode: 'KW' },
+	{
+		name: 'Bahrain',
+		kind: 'country',
+		lat: 26.0,
+		lon: 50.6,
+		countryCode: 'BH',
+		aliases: ['Bahrein']
+	},
+
+	// Africa
+	{
+		name: 'Egypt',
+		kind: 'country',
+		lat: 26.8,
+		lon: 30.8,
+		countryCode: 'EG',
+		aliases: ['Egyptian', 'Egito', 'Egipto']
+	},
+	{
+		name: 'Libya',
+		kind: 'country',
+		lat: 26.3,
+		lon: 17.2,
+		countryCode: 'LY',
+		aliases: ['Libyan', 'Líbia']
+	},
+	{
+		name: 'Tunisia',
+		kind: 'country',
+		lat: 33.9,
+		lon: 9.5,
+		countryCode: 'TN',
+		aliases: ['Tunísia', 'Tunisian']
+	},
+	{
+		name: 'Algeria',
+		kind: 'country',
+		lat: 28.0,
+		lon: 1.7,
+		countryCode: 'DZ',
+		aliases: ['Algerian', 'Argélia']
+	},
+	{
+		name: 'Morocco',
+		kind: 'country',
+		lat: 31.8,
+		lon: -7.1,
+		countryCode: 'MA',
+		aliases: ['Moroccan', 'Marrocos', 'Marruecos']
+	},
+	{
+		name: 'Sudan',
+		kind: 'country',
+		lat: 12.9,
+		lon: 30.2,
+		countryCode: 'SD',
+		aliases: ['Sudanese', 'Sudão', 'Darfur']
+	},
+	{
+		name: 'South Sudan',
+		kind: 'country',
+		lat: 6.9,
+		lon: 31.3,
+		countryCode: 'SS',
+		aliases: ['Sudão do Sul']
+	},
+	{
+		name: 'Ethiopia',
+		kind: 'country',
+		lat: 9.1,
+		lon: 40.5,
+		countryCode: 'ET',
+		aliases: ['Ethiopian', 'Etiópia', 'Tigray']
+	},
+	{
+		name: 'Eritrea',
+		kind: 'country',
+		lat: 15.2,
+		lon: 39.8,
+		countryCode: 'ER',
+		aliases: ['Eritreia']
+	},
+	{
+		name: 'Somalia',
+		kind: 'country',
+		lat: 5.2,
+		lon: 46.2,
+		countryCode: 'SO',
+		aliases: ['Somali', 'Somaliland', 'Somália', 'Al-Shabaab']
+	},
+	{
+		name: 'Kenya',
+		kind: 'country',
+		lat: -0.02,
+		lon: 37.9,
+		countryCode: 'KE',
+		aliases: ['Kenyan', 'Quênia']
+	},
+	{ name: 'Uganda', kind: 'country', lat: 1.4, lon: 32.3, countryCode: 'UG' },
+	{ name: 'Rwanda', kind: 'country', lat: -1.9, lon: 29.9, countryCode: 'RW', aliases: ['Ruanda'] },
+	{
+		name: 'Democratic Republic of the Congo',
+		kind: 'country',
+		lat: -4.0,
+		lon: 21.8,
+		countryCode: 'CD',
+		aliases: ['DR Congo', 'DRC', 'Congo']
+	},
+	{
+		name: 'Nigeria',
+		kind: 'country',
+		lat: 9.1,
+		lon: 8.7,
+		countryCode: 'NG',
+		aliases: ['Nigerian', 'Nigéria']
+	},
+	{ name: 'Niger', kind: 'country', lat: 17.6, lon: 8.1, countryCode: 'NE', aliases: ['Níger'] },
+	{ name: 'Mali', kind: 'country', lat: 17.6, lon: -4.0, countryCode: 'ML', aliases: ['Malian'] },
+	{ name: 'Burkina Faso', kind: 'country', lat: 12.2, lon: -1.6, countryCode: 'BF' },
+	{ name: 'Chad', kind: 'country', lat: 15.5, lon: 18.7, countryCode: 'TD', aliases: ['Chade'] },
+	{ name: 'Senegal', kind: 'country', lat: 14.5, lon: -14.5, countryCode: 'SN' },
+	{ name: 'Ghana', kind: 'country', lat: 7.9, lon: -1.0, countryCode: 'GH', aliases: ['Gana'] },
+	{
+		name: 'South Africa',
+		kind: 'country',
+		lat: -30.6,
+		lon: 22.9,
+		countryCode: 'ZA',
+		aliases: ['South African', 'África do Sul', 'Sudáfrica']
+	},
+	{
+		name: 'Mozambique',
+		kind: 'country',
+		lat: -18.7,
+		lon: 35.5,
+		countryCode: 'MZ',
+		aliases: ['Moçambique']
+	},
+	{ name: 'Angola', kind: 'country', lat: -11.2, lon: 17.9, countryCode: 'AO' },
+	{ name: 'Zimbabwe', kind: 'country', lat: -19.0, lon: 29.2, countryCode: 'ZW' },
+
+	// Asia and Oceania
+	{
+		name: 'Afghanistan',
+		kind: 'country',
+		lat: 33.9,
+		lon: 67.7,
+		countryCode: 'AF',
+		aliases: ['Afghan', 'Afeganistão', 'Taliban']
+	},
+	{
+		name: 'Pakistan',
+		kind: 'country',
+		lat: 30.4,
+		lon: 69.3,
+		countryCode: 'PK',
+		aliases: ['Pakistani', 'Paquistão']
+	},
+	{
+		name: 'India',
+		kind: 'country',
+		lat: 20.6,
+		lon: 78.96,
+		countryCode: 'IN',
+		aliases: ['Indian', 'Índia']
+	},
+	{ name: 'Bangladesh', kind: 'country', lat: 23.7, lon: 90.4, countryCode: 'BD' },
+	{ name: 'Sri Lanka', kind: 'country', lat: 7.9, lon: 80.8, countryCode: 'LK' },
+	{ name: 'Nepal', kind: 'country', lat: 28.4, lon: 84.1, countryCode: 'NP' },
+	{
+		name: 'China',
+		kind: 'country',
+		lat: 35.9,
+		lon: 104.2,
+		countryCode: 'CN',
+		aliases: ['Chinese', 'chinês', 'chinesa']
+	},
+	{
+		name: 'Taiwan',
+		kind: 'country',
+		lat: 23.7,
+		lon: 121.0,
+		countryCode: 'TW',
+		aliases: ['Taiwanese', 'Taiwã']
+	},
+	{
+		name: 'Japan',
+		kind: 'country',
+		lat: 36.2,
+		lon: 138.3,
+		countryCode: 'JP',
+		aliases: ['Japanese', 'Japão', 'Japón']
+	},
+	{
+		name: 'South Korea',
+		kind: 'country',
+		lat: 35.9,
+		lon: 127.8,
+		countryCode: 'KR',
+		aliases: ['South Korean', 'Coreia do Sul', 'Corea del Sur']
+	},
+	{
+		name: 'North Korea',
+		kind: 'country',
+		lat: 40.3,
+		lon: 127.5,
+		countryCode: 'KP',
+		aliases: ['North Korean', 'DPRK', 'Coreia do Norte', 'Corea del Norte']
+	},
+	{
+		name: 'Mongolia',
+		kind: 'country',
+		lat: 46.9,
+		lon: 103.8,
+		countryCode: 'MN',
+		aliases: ['Mongólia']
+	},
+	{
+		name: 'Myanmar',
+		kind: 'country',
+		lat: 21.9,
+		lon: 95.96,
+		countryCode: 'MM',
+		aliases: ['Burma', 'Mianmar']
+	},
+	{
+		name: 'Thailand',
+		kind: 'country',
+		lat: 15.9,
+		lon: 100.99,
+		countryCode: 'TH',
+		aliases: ['Thai', 'Tailândia']
+	},
+	{
+		name: 'Vietnam',
+		kind: 'country',
+		lat: 14.1,
+		lon: 108.3,
+		countryCode: 'VN',
+		aliases: ['Vietnamese', 'Vietnã']
+	},
+	{
+		name: 'Cambodia',
+		kind: 'country',
+		lat: 12.6,
+		lon: 104.99,
+		countryCode: 'KH',
+		aliases: ['Camboja']
+	},
+	{
+		name: 'Malaysia',
+		kind: 'country',
+		lat: 4.2,
+		lon: 101.98,
+		countryCode: 'MY',
+		aliases: ['Malásia']
+	},
+	{
+		name: 'Indonesia',
+		kind: 'country',
+		lat: -0.8,
+		lon: 113.9,
+		countryCode: 'ID',
+		aliases: ['Indonesian', 'Indonésia']
+	},
+	{
+		name: 'Philippines',
+		kind: 'country',
+		lat: 12.9,
+		lon: 121.8,
+		countryCode: 'PH',
+		aliases: ['Philippine', 'Filipino', 'Filipinas']
+	},
+	{
+		name: 'Australia',
+		kind: 'country',
+		lat: -25.3,
+		lon: 133.8,
+		countryCode: 'AU',
+		aliases: ['Australian', 'Austrália']
+	},
+	{
+		name: 'New Zealand',
+		kind: 'country',
+		lat: -40.9,
+		lon: 174.9,
+		countryCode: 'NZ',
+		aliases: ['Nova Zelândia']
+	},
+	{
+		name: 'Kazakhstan',
+		kind: 'country',
+		lat: 48.0,
+		lon: 66.9,
+		countryCode: 'KZ',
+		aliases: ['Cazaquistão']
+	}
+];
+
+export const GEO_CITIES: GeoPlace[] = [
+	// Americas
+	{
+		name: 'New York',
+		kind: 'city',
+		lat: 40.71,
+		lon: -74.0,
+		countryCode: 'US',
+		aliases: ['NYC', 'Nova York', 'Nueva York']
+	},
+	{ name: 'Los Angeles', kind: 'city', lat: 34.05, lon: -118.24, countryCode: 'US' },
+	{ name: 'Chicago', kind: 'city', lat: 41.88, lon: -87.63, countryCode: 'US' },
+	{ name: 'San Francisco', kind: 'city', lat: 37.77, lon: -122.42, countryCode: 'US' },
+	{ name: 'Miami', kind: 'city', lat: 25.76, lon: -80.19, countryCode: 'US' },
+	{ name: 'Seattle', kind: 'city', lat: 47.61, lon: -122.33, countryCode: 'US' },
+	{ name: 'Ottawa', kind: 'city', lat: 45.42, lon: -75.7, countryCode: 'CA' },
+	{ name: 'Toronto', kind: 'city', lat: 43.65, lon: -79.38, countryCode: 'CA' },
+	{
+		name: 'Havana',
+		kind: 'city',
+		lat: 23.11,
+		lon: -82.37,
+		countryCode: 'CU',
+		aliases: ['La Habana']
+	},
+	{ name: 'Bogotá', kind: 'city', lat: 4.71, lon: -74.07, countryCode: 'CO', aliases: ['Bogota'] },
+	{ name: 'Lima', kind: 'city', lat: -12.05, lon: -77.04, countryCode: 'PE' },
+	{ name: 'Quito', kind: 'city', lat: -0.18, lon: -78.47, countryCode: 'EC' },
+	{ name: 'La Paz', kind: 'city', lat: -16.5, lon: -68.15, countryCode: 'BO' },
+	{ name: 'Santiago', kind: 'city', lat: -33.45, lon: -70.67, countryCode: 'CL' },
+	{ name: 'Buenos Aires', kind: 'city', lat: -34.6, lon: -58.38, countryCode: 'AR' },
+	{
+		name: 'Montevideo',
+		kind: 'city',
+		lat: -34.9,
+		lon: -56.16,
+		countryCode: 'UY',
+		aliases: ['Montevidéu']
+	},
+	{
+		name: 'Asunción',
+		kind: 'city',
+		lat: -25.26,
+		lon: -57.58,
+		countryCode: 'PY',
+		aliases: ['Assunção']
+	},
+	{
+		name: 'Brasília',
+		kind: 'city',
+		lat: -15.79,
+		lon: -47.88,
+		countryCode: 'BR',
+		aliases: ['Brasilia', 'Planalto']
+	},
+	{
+		name: 'São Paulo',
+		kind: 'city',
+		lat: -23.55,
+		lon: -46.63,
+		countryCode: 'BR',
+		aliases: ['Sao Paulo']
+	},
+	{ name: 'Rio de Janeiro', kind: 'city', lat: -22.91, lon: -43.17, countryCode: 'BR' },
+	{ name: 'Belo Horizonte', kind: 'city', lat: -19.92, lon: -43.94, countryCode: 'BR' },
+	{ name: 'Salvador', kind: 'city', lat: -12.97, lon: -38.5, countryCode: 'BR' },
+	{ name: 'Porto Alegre', kind: 'city', lat: -30.03, lon: -51.23, countryCode: 'BR' },
+	{ name: 'Manaus', kind: 'city', lat: -3.12, lon: -60.02, countryCode: 'BR' },
+	{ name: 'Recife', kind: 'city', lat: -8.05, lon: -34.88, countryCode: 'BR' },
+
+	// Europe
+	{ name: 'Paris', kind: 'city', lat: 48.86, lon: 2.35, countryCode: 'FR' },
+	{ name: 'Berlin', kind: 'city', lat: 52.52, lon: 13.4, countryCode: 'DE', aliases: ['Berlim'] },
+	{ name: 'Madrid', kind: 'city', lat: 40.42, lon: -3.7, countryCode: 'ES' },
+	{ name: 'Lisbon', kind: 'city', lat: 38.72, lon: -9.14, countryCode: 'PT', aliases: ['Lisboa'] },
+	{ name: 'Rome', kind: 'city', lat: 41.9, lon: 12.5, countryCode: 'IT', aliases: ['Roma'] },
+	{
+		name: 'Vatican',
+		kind: 'city',
+		lat: 41.9,
+		lon: 12.45,
+		countryCode: 'VA',
+		aliases: ['Vaticano']
+	},
+	{ name: 'The Hague', kind: 'city', lat: 52.08, lon: 4.3, countryCode: 'NL', aliases: ['Haia'] },
+	{
+		name: 'Amsterdam',
+		kind: 'city',
+		lat: 52.37,
+		lon: 4.9,
+		countryCode: 'NL',
+		aliases: ['Amsterdã']
+	},
+	{
+		name: 'Geneva',
+		kind: 'city',
+		lat: 46.2,
+		lon: 6.14,
+		countryCode: 'CH',
+		aliases: ['Genebra', 'Ginebra']
+	},
+	{ name: 'Davos', kind: 'city', lat: 46.8, lon: 9.84, countryCode: 'CH' },
+	{ name: 'Vienna', kind: 'city', lat: 48.21, lon: 16.37, countryCode: 'AT', aliases: ['Viena'] },
+	{
+		name: 'Warsaw',
+		kind: 'city',
+		lat: 52.23,
+		lon: 21.01,
+		countryCode: 'PL',
+		aliases: ['Varsóvia']
+	},
+	{
+		name: 'Budapest',
+		kind: 'city',
+		lat: 47.5,
+		lon: 19.04,
+		countryCode: 'HU',
+		aliases: ['Budapeste']
+	},
+	{ name: 'Athens', kind: 'city', lat: 37.98, lon: 23.73, countryCode: 'GR', aliases: ['Atenas'] },
+	{
+		name: 'Stockholm',
+		kind: 'city',
+		lat: 59.33,
+		lon: 18.07,
+		countryCode: 'SE',
+		aliases: ['Estocolmo']
+	},
+	{ name: 'Helsinki', kind: 'city', lat: 60.17, lon: 24.94, countryCode: 'FI' },
+	{ name: 'Minsk', kind: 'city', lat: 53.9, lon: 27.56, countryCode: 'BY' },
+	{
+		name: 'Kharkiv',
+		kind: 'city',
+		lat: 49.99,
+		lon: 36.23,
+		countryCode: 'UA',
+		aliases: ['Kharkov']
+	},
+	{ name: 'Odesa', kind: 'city', lat: 46.48, lon: 30.72, countryCode: 'UA', aliases: ['Odessa'] },
+	{ name: 'Lviv', kind: 'city', lat: 49.84, lon: 24.03, countryCode: 'UA' },
+	{ name: 'Dnipro', kind: 'city', lat: 48.46, lon: 35.05, countryCode: 'UA' },
+	{ name: 'Kherson', kind: 'city', lat: 46.64, lon: 32.62, countryCode: 'UA' },
+	{
+		name: 'Donetsk',
+		kind: 'city',
+		lat: 48.0,
+		lon: 37.8,
+		countryCode: 'UA',
+		aliases: ['Donbas', 'Donbass']
+	},
+	{ name: 'Bakhmut', kind: 'city', lat: 48.6, lon: 38.0, countryCode: 'UA' },
+	{ name: 'Pokrovsk', kind: 'city', lat: 48.28, lon: 37.18, countryCode: 'UA' },
+	{
+		name: 'Crimea',
+		kind: 'city',
+		lat: 45.3,
+		lon: 34.4,
+		countryCode: 'UA',
+		aliases: ['Crimeia', 'Sevastopol']
+	},
+	{ name: 'Kursk', kind: 'city', lat: 51.73, lon: 36.19, countryCode: 'RU' },
+	{ name: 'Belgorod', kind: 'city', lat: 50.6, lon: 36.59, countryCode: 'RU' },
+	{
+		name: 'St Petersburg',
+		kind: 'city',
+		lat: 59.93,
+		lon: 30.36,
+		countryCode: 'RU',
+		aliases: ['St. Petersburg', 'Saint Petersburg', 'São Petersburgo']
+	},
+	{
+		name: 'Istanbul',
+		kind: 'city',
+		lat: 41.01,
+		lon: 28.98,
+		countryCode: 'TR',
+		aliases: ['Istambul']
+	},
+	{ name: 'Tbilisi', kind: 'city', lat: 41.72, lon: 44.79, countryCode: 'GE' },
+
+	// Middle East
+	{
+		name: 'Jerusalem',
+		kind: 'city',
+		lat: 31.77,
+		lon: 35.21,
+		countryCode: 'IL',
+		aliases: ['Jerusalém']
+	},
+	{ name: 'Haifa', kind: 'city', lat: 32.79, lon: 34.99, countryCode: 'IL' },
+	{ name: 'Rafah', kind: 'city', lat: 31.3, lon: 34.25, countryCode: 'PS' },
+	{ name: 'Khan Younis', kind: 'city', lat: 31.35, lon: 34.3, countryCode: 'PS' },
+	{ name: 'Ramallah', kind: 'city', lat: 31.9, lon: 35.2, countryCode: 'PS' },
+	{ name: 'Amman', kind: 'city', lat: 31.95, lon: 35.93, countryCode: 'JO' },
+	{ name: 'Aleppo', kind: 'city', lat: 36.2, lon: 37.13, countryCode: 'SY', aliases: ['Alepo'] },
+	{ name: 'Idlib', kind: 'city', lat: 35.93, lon: 36.63, countryCode: 'SY' },
+	{ name: 'Mosul', kind: 'city', lat: 36.34, lon: 43.13, countryCode: 'IQ' },
+	{ name: 'Erbil', kind: 'city', lat: 36.19, lon: 44.01, countryCode: 'IQ' },
+	{ name: 'Isfahan', kind: 'city', lat: 32.65, lon: 51.67, countryCode: 'IR' },
+	{ name: 'Dubai', kind: 'city', lat: 25.2, lon: 55.27, countryCode: 'AE' },
+	{ name: 'Muscat', kind: 'city', lat: 23.59, lon: 58.38, countryCode: 'OM', aliases: ['Mascate'] },
+	{ name: 'Aden', kind: 'city', lat: 12.79, lon: 45.02, countryCode: 'YE' },
+	{ name: 'Hodeidah', kind: 'city', lat: 14.8, lon: 42.95, countryCode: 'YE' },
+
+	// Africa
+	{ name: 'Khartoum', kind: 'city', lat: 15.5, lon: 32.56, countryCode: 'SD', aliases: ['Cartum'] },
+	{ name: 'El Fasher', kind: 'city', lat: 13.63, lon: 25.35, countryCode: 'SD' },
+	{ name: 'Addis Ababa', kind: 'city', lat: 9.03, lon: 38.74, countryCode: 'ET' },
+	{ name: 'Mogadishu', kind: 'city', lat: 2.05, lon: 45.32, countryCode: 'SO' },
+	{ name: 'Nairobi', kind: 'city', lat: -1.29, lon: 36.82, countryCode: 'KE' },
+	{
+		name: 'Tripoli',
+		kind: 'city',
+		lat: 32.89,
+		lon: 13.19,
+		countryCode: 'LY',
+		aliases: ['Trípoli']
+	},
+	{ name: 'Lagos', kind: 'city', lat: 6.52, lon: 3.38, countryCode: 'NG' },
+	{ name: 'Abuja', kind: 'city', lat: 9.08, lon: 7.4, countryCode: 'NG' },
+	{ name: 'Bamako', kind: 'city', lat: 12.64, lon: -8.0, countryCode: 'ML' },
+	{ name: 'Niamey', kind: 'city', lat: 13.51, lon: 2.11, countryCode: 'NE' },
+	{
+		name: 'Johannesburg',
+		kind: 'city',
+		lat: -26.2,
+		lon: 28.05,
+		countryCode: 'ZA',
+		aliases: ['Joanesburgo']
+	},
+	{
+		name: 'Cape Town',
+		kind: 'city',
+		lat: -33.92,
+		lon: 18.42,
+		countryCode: 'ZA',
+		aliases: ['Cidade do Cabo']
+	},
+	{ name: 'Luanda', kind: 'city', lat: -8.84, lon: 13.23, countryCode: 'AO' },
+	{ name: 'Kinshasa', kind: 'city', lat: -4.44, lon: 15.27, countryCode: 'CD' },
+	{ name: 'Goma', kind: 'city', lat: -1.68, lon: 29.22, countryCode: 'CD' },
+
+	// Asia and Oceania
+	{ name: 'Kabul', kind: 'city', lat: 34.56, lon: 69.21, countryCode: 'AF', aliases: ['Cabul'] },
+	{ name: 'Islamabad', kind: 'city', lat: 33.68, lon: 73.05, countryCode: 'PK' },
+	{ name: 'Karachi', kind: 'city', lat: 24.86, lon: 67.0, countryCode: 'PK' },
+	{
+		name: 'Kashmir',
+		kind: 'city',
+		lat: 34.08,
+		lon: 74.8,
+		countryCode: 'IN',
+		aliases: ['Caxemira']
+	},
+	{
+		name: 'New Delhi',
+		kind: 'city',
+		lat: 28.61,
+		lon: 77.21,
+		countryCode: 'IN',
+		aliases: ['Delhi', 'Nova Délhi']
+	},
+	{ name: 'Mumbai', kind: 'city', lat: 19.08, lon: 72.88, countryCode: 'IN' },
+	{ name: 'Dhaka', kind: 'city', lat: 23.81, lon: 90.41, countryCode: 'BD' },
+	{
+		name: 'Shanghai',
+		kind: 'city',
+		lat: 31.23,
+		lon: 121.47,
+		countryCode: 'CN',
+		aliases: ['Xangai']
+	},
+	{ name: 'Hong Kong', kind: 'city', lat: 22.32, lon: 114.17, countryCode: 'HK' },
+	{ name: 'Shenzhen', kind: 'city', lat: 22.54, lon: 114.06, countryCode: 'CN' },
+	{ name: 'Xinjiang', kind: 'city', lat: 41.1, lon: 85.2, countryCode: 'CN' },
+	{ name: 'Tibet', kind: 'city', lat: 29.65, lon: 91.1, countryCode: 'CN', aliases: ['Tibete'] },
+	{ name: 'Tokyo', kind: 'city', lat: 35.68, lon: 139.69, countryCode: 'JP', aliases: ['Tóquio'] },
+	{ name: 'Seoul', kind: 'city', lat: 37.57, lon: 126.98, countryCode: 'KR', aliases: ['Seul'] },
+	{ name: 'Okinawa', kind: 'city', lat: 26.21, lon: 127.68, countryCode: 'JP' },
+	{ name: 'Manila', kind: 'city', lat: 14.6, lon: 120.98, countryCode: 'PH' },
+	{
+		name: 'Bangkok',
+		kind: 'city',
+		lat: 13.76,
+		lon: 100.5,
+		countryCode: 'TH',
+		aliases: ['Bangcoc']
+	},
+	{ name: 'Hanoi', kind: 'city', lat: 21.03, lon: 105.85, countryCode: 'VN' },
+	{
+		name: 'Singapore',
+		kind: 'city',
+		lat: 1.35,
+		lon: 103.82,
+		countryCode: 'SG',
+		aliases: ['Singapura']
+	},
+	{
+		name: 'Jakarta',
+		kind: 'city',
+		lat: -6.2,
+		lon: 106.85,
+		countryCode: 'ID',
+		aliases: ['Jacarta']
+	},
+	{ name: 'Canberra', kind: 'city', lat: -35.28, lon: 149.13, countryCode: 'AU' },
+	{ name: 'Sydney', kind: 'city', lat: -33.87, lon: 151.21, countryCode: 'AU' }
+];
+
+/**
+ * Country codes and extra spellings for the places the map draws; names not listed here keep
+ * their map name and coordinates only
+ */
+const MAP_PLACE_DETAILS: Record<string, { countryCode?: string; aliases?: string[] }> = {
+	// Hotspots
+	'Port-au-Prince': { countryCode: 'HT' },
+	'Horn of Africa': { aliases: ['Chifre da África'] },
+	DC: {
+		countryCode: 'US',
+		aliases: ['Washington', 'White House', 'Pentagon', 'Capitol Hill', 'Casa Branca', 'Pentágono']
+	},
+	'Silicon Valley': { countryCode: 'US', aliases: ['Vale do Silício'] },
+	'Wall Street': { countryCode: 'US' },
+	Houston: { countryCode: 'US' },
+	Moscow: { countryCode: 'RU', aliases: ['Kremlin', 'Moscou', 'Moscú'] },
+	Beijing: { countryCode: 'CN', aliases: ['Pequim', 'Pekín'] },
+	Kyiv: { countryCode: 'UA', aliases: ['Kiev', 'Kiiv'] },
+	Taipei: { countryCode: 'TW', aliases: ['Taipé'] },
+	Tehran: { countryCode: 'IR', aliases: ['Teerã', 'Teherán'] },
+	'Tel Aviv': { countryCode: 'IL' },
+	Pyongyang: { countryCode: 'KP', aliases: ['Pionguiangue'] },
+	London: { countryCode: 'GB', aliases: ['Downing Street', 'Londres'] },
+	Brussels: { countryCode: 'BE', aliases: ['Bruxelas', 'Bruselas'] },
+	Caracas: { countryCode: 'VE' },
+	'Mexico City': { countryCode: 'MX', aliases: ['Cidade do México'] },
+	Nuuk: { countryCode: 'GL' },
+	Riyadh: { countryCode: 'SA', aliases: ['Riad'] },
+	Cairo: { countryCode: 'EG', aliases: ['El Cairo'] },
+	Baghdad: { countryCode: 'IQ', aliases: ['Bagdá', 'Bagdad'] },
+	Damascus: { countryCode: 'SY', aliases: ['Damasco'] },
+	Doha: { countryCode: 'QA' },
+	Ankara: { countryCode: 'TR', aliases: ['Ancara'] },
+	Beirut: { countryCode: 'LB', aliases: ['Beirute'] },
+	"Sana'a": { countryCode: 'YE', aliases: ['Sanaa', 'Sana’a'] },
+	'Abu Dhabi': { countryCode: 'AE' },
+
+	// Chokepoints
+	Suez: { countryCode: 'EG', aliases: ['Suez Canal', 'Canal de Suez'] },
+	Panama: { countryCode: 'PA', aliases: ['Panama Canal', 'Canal do Panamá', 'Canal de Panamá'] },
+	Hormuz: { aliases: ['Strait of Hormuz', 'Estreito de Ormuz', 'Ormuz'] },
+	Malacca: { aliases: ['Strait of Malacca', 'Estreito de Malaca'] },
+	'Bab el-M': { aliases: ['Bab el-Mandeb', 'Red Sea', 'Mar Vermelho', 'Mar Rojo'] },
+	Gibraltar: { countryCode: 'GI', aliases: ['Strait of Gibraltar'] },
+	Bosporus: { countryCode: 'TR', aliases: ['Bosphorus', 'Black Sea', 'Bósforo', 'Mar Negro'] },
+
+	// Conflict zones that are not countries
+	Gaza: { countryCode: 'PS', aliases: ['Faixa de Gaza', 'Franja de Gaza'] },
+	'Taiwan Strait': { aliases: ['Estreito de Taiwan'] },
+
+	// Nuclear sites
+	Natanz: { countryCode: 'IR' },
+	Yongbyon: { countryCode: 'KP' },
+	Dimona: { countryCode: 'IL' },
+	Bushehr: { countryCode: 'IR' },
+	Zaporizhzhia: { countryCode: 'UA', aliases: ['Zaporizhia', 'Zaporíjia'] },
+	Chernobyl: { countryCode: 'UA', aliases: ['Chornobyl'] },
+	Fukushima: { countryCode: 'JP' }
+};
+
+const GEO_COUNTRY_NAMES = new Set(GEO_COUNTRIES.map((country) => country.name));
+
+function zoneCentroid(coords: [number, number][]): { lat: number; lon: number } {
+	// Polygons are closed rings, so the last vertex repeats the first
+	const ring = coords.slice(0, -1);
+	return {
+		lon: ring.reduce((sum, [lon]) => sum + lon, 0) / ring.length,
+		lat: ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length
+	};
+}
+
+export const GEO_MAP_PLACES: GeoPlace[] = [
+	...HOTSPOTS,
+	...CHOKEPOINTS,
+	...CONFLICT_ZONES.filter((zone) => !GEO_COUNTRY_NAMES.has(zone.name)).map((zone) => ({
+		name: zone.name,
+		...zoneCentroid(zone.coords)
+	})),
+	...NUCLEAR_SITES
+].map(({ name, lat, lon }) => ({
+	name,
+	kind: 'landmark' as const,
+	lat,
+	lon,
+	...MAP_PLACE_DETAILS[name]
+}));
+
+/**
+ * Every place the geocoder knows, most specific first
+ */
+export const GEO_GAZETTEER: GeoPlace[] = [...GEO_CITIES, ...GEO_MAP_PLACES, ...GEO_COUNTRIES];
@@ -0,0 +1,71 @@
+/**
+ * Hotspot scoring configuration - the keywords that tie headlines to each map hotspot and the
+ * robust z-score thresholds that turn coverage above its rolling baseline into a threat level
+ */
+
+/**
+ * Extra keywords per hotspot (by HOTSPOTS name), matched case-insensitively on whole words
+ * against title and description; headlines geocoded to the hotspot always count
+ */
+export const HOTSPOT_KEYWORDS: Record<string, string[]> = {
+	Sahel: ['sahel', 'mali', 'burkina faso', 'niger', 'bamako', 'niamey', 'wagner'],
+	'Port-au-Prince': ['haiti', 'port-au-prince', 'haitian'],
+	'Horn of Africa': ['somalia', 'somaliland', 'al-shabaab', 'ethiopia', 'eritrea', 'djibouti'],
+	DC: ['white house', 'pentagon', 'capitol hill', 'washington', 'congress'],
+	'Silicon Valley': ['silicon valley', 'big tech', 'openai', 'nvidia'],
+	'Wall Street': ['wall street', 'stock market', 'nyse', 'federal reserve'],
+	Houston: ['houston', 'texas oil', 'gulf coast'],
+	Moscow: ['moscow', 'kremlin', 'putin', 'russia'],
+	Beijing: ['beijing', 'xi jinping', 'china', 'chinese'],
+	Kyiv: ['kyiv', 'kiev', 'ukraine', 'zelensky', 'donbas', 'kharkiv', 'odesa'],
+	Taipei: ['taipei', 'taiwan', 'taiwan strait'],
+	Tehran: ['tehran', 'iran', 'iranian', 'khamenei', 'irgc'],
+	'Tel Aviv': ['tel aviv', 'israel', 'israeli', 'netanyahu', 'idf', 'gaza'],
+	Pyongyang: ['pyongyang', 'north korea', 'kim jong'],
+	London: ['london', 'downing street', 'starmer'],
+	Brussels: ['brussels', 'european commission', 'nato', 'eu summit'],
+	Caracas: ['caracas', 'venezuela', 'maduro'],
+	'Mexico City': ['mexico', 'sheinbaum', 'cartel'],
+	Nuuk: ['nuuk', 'greenland'],
+	Riyadh: ['riyadh', 'saudi', 'bin salman', 'opec'],
+	Cairo: ['cairo', 'egypt', 'sisi'],
+	Baghdad: ['baghdad', 'iraq', 'iraqi'],
+	Damascus: ['damascus', 'syria', 'syrian'],
+	Doha: ['doha', 'qatar'],
+	Ankara: ['ankara', 'turkey', 'türkiye', 'erdogan'],
+	Beirut: ['beirut', 'lebanon', 'hezbollah'],
+	"Sana'a": ["sana'a", 'sanaa', 'yemen', 'houthi'],
+	'Abu Dhabi': ['abu dhabi', 'uae', 'emirates']
+};
+
+/** Coverage counted for the current level */
+export const HOTSPOT_WINDOW_HOURS = 24;
+
+/** Hourly samples of the windowed count kept as the rolling baseline */
+export const HOTSPOT_BASELINE_DAYS = 14;
+
+/** Below this many baseline samples (one day) only the static level applies */
+export const HOTSPOT_MIN_BASELINE_POINTS = 24;
+
+/** Fewer headlines than this never raise a hotspot above its static level */
+export const HOTSPOT_MIN_COUNT = 3;
+
+/** Floor under the baseline's MAD, in headlines, so a burst on an all-quiet baseline still scores */
+export const HOTSPOT_MIN_SPREAD = 1;
+
+/** Robust z-score needed for each computed level */
+export const HOTSPOT_Z_THRESHOLDS = {
+	critical: 3.5,
+	high: 2.5,
+	elevated: 1.5
+} as const;
+
+export const HOTSPOT_RETENTION_DAYS = 30;
+
+/** Order of threat levels, used to keep the static level as a floor and to compare days */
+export const HOTSPOT_LEVEL_RANK = {
+	low: 0,
+	elevated: 1,
+	high: 2,
+	critical: 3
+} as const;
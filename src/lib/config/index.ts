@@ -24,8 +24,27 @@ export {
 	containsAlertKeyword,
 	detectRegion,
 	detectTopics,
+	glossAlertTerms,
 	type AlertKeyword
 } from './keywords';
+export { KEYWORD_PACKS, type KeywordPack } from './keyword-packs';
+
+// Language detection and translation configuration
+export {
+	NEWS_LANGUAGES,
+	NEWS_LANGUAGE_NAMES,
+	LANGUAGE_STOPWORDS,
+	LANGUAGE_MARKER_LETTERS,
+	LANGUAGE_MIN_STOPWORD_HITS
+} from './languages';
+export {
+	TRANSLATION_PROVIDERS,
+	DEFAULT_LIBRETRANSLATE_URL,
+	DEFAULT_TRANSLATION_MAX,
+	TRANSLATION_BATCH_SIZE,
+	TRANSLATION_WINDOW_MS,
+	type TranslationProviderId
+} from './translation';
 
 // Market configuration
 export {
@@ -49,6 +68,128 @@ export {
 	type PersonPattern
 } from './analysis';
 
+// Event study configuration
+export {
+	EVENT_STUDY_HORIZONS,
+	TOPIC_INSTRUMENTS,
+	getPatternInstruments,
+	getTopicInstruments,
+	type EventStudyDirection,
+	type EventStudyHorizon,
+	type EventStudyInstrument
+} from './event-study';
+
+// Whale transaction configuration
+export {
+	WHALE_USD_THRESHOLDS,
+	DEFAULT_WHALE_USD_THRESHOLD,
+	EXCHANGE_WALLETS,
+	WHALE_EXPLORER_TX_URLS,
+	getWhaleThreshold,
+	getExchangeLabel
+} from './whales';
+
+// Prediction market configuration
+export {
+	PREDICTION_DELTA_WINDOWS,
+	PREDICTION_BASELINE_TOLERANCE_MS,
+	DEFAULT_PREDICTION_SWING_THRESHOLDS,
+	PREDICTION_SWING_MIN_VOLUME,
+	PREDICTION_TOPIC_PATTERNS,
+	PREDICTION_NARRATIVE_PATTERNS,
+	MAX_LINKED_MARKETS
+} from './predictions';
+
+// AI brief configuration
+export {
+	AI_BRIEF_PROVIDERS,
+	DEFAULT_AI_BRIEF_BASE_URLS,
+	DEFAULT_AI_BRIEF_MODELS,
+	AI_BRIEF_LANGUAGE_NAMES,
+	DEFAULT_AI_BRIEF_PROMPT,
+	AI_BRIEF_HEADLINE_LIMIT,
+	DEFAULT_AI_BRIEF_WINDOW_HOURS,
+	AI_BRIEF_MIN_REFRESH_MS,
+	AI_BRIEF_FAILURE_BACKOFF_MS,
+	AI_BRIEF_EXTRACTIVE_MAX_HEADLINES,
+	AI_BRIEF_EXTRACTIVE_ITEMS,
+	AI_BRIEF_EXTRACTIVE_SIGNALS,
+	STORY_RECENCY_HALF_LIFE_HOURS
+} from './ai-brief';
+
+// Story clustering configuration
+export {
+	STORY_CLUSTER_SIMILARITY,
+	STORY_CLUSTER_TOPIC_SIMILARITY,
+	STORY_CLUSTER_DESCRIPTION_WEIGHT,
+	STORY_CLUSTER_MAX_GAP_MS,
+	STORY_CLUSTER_COMPARE_LIMIT,
+	STORY_CLUSTER_WINDOW_MS
+} from './story-clusters';
+
+// Article fetcher configuration
+export {
+	ARTICLE_FETCH_USER_AGENT,
+	DEFAULT_ARTICLE_FETCH_INTERVAL_MS,
+	DEFAULT_ARTICLE_FETCH_MAX,
+	ARTICLE_FETCH_WINDOW_MS,
+	ARTICLE_MAX_LENGTH,
+	ROBOTS_CACHE_MS,
+	DEFAULT_ARTICLE_OPT_OUT
+} from './articles';
+
+// Entity extraction configuration
+export {
+	ENTITY_GAZETTEER,
+	ENTITY_STOPWORDS,
+	ENTITY_PERSON_TITLES,
+	ENTITY_NAME_PARTICLES,
+	ENTITY_ORG_SUFFIXES,
+	ENTITY_TITLE_CASE_RATIO,
+	DEFAULT_ENTITY_WINDOW_HOURS,
+	DEFAULT_ENTITY_LIMIT,
+	ENTITY_EMERGING_MIN_MENTIONS,
+	ENTITY_GRAPH_MAX_EDGES,
+	type GazetteerEntry
+} from './entities';
+
+// Sentiment configuration
+export {
+	SENTIMENT_LEXICONS,
+	SENTIMENT_NEGATORS,
+	SENTIMENT_INTENSIFIERS,
+	SENTIMENT_LABEL_THRESHOLD,
+	DEFAULT_SENTIMENT_WINDOW_HOURS,
+	SENTIMENT_BUCKET_HOURS,
+	type SentimentLexicon
+} from './sentiment';
+
+// Federal contract award configuration
+export {
+	DEFAULT_CONTRACT_MIN_AMOUNT,
+	DEFAULT_CONTRACT_AGENCIES,
+	DEFAULT_CONTRACT_NAICS,
+	AGENCY_ABBREVIATIONS,
+	VENDOR_HEADLINE_ALIASES,
+	getAgencyAbbreviation,
+	getVendorSearchTerms,
+	normalizeVendorName
+} from './contracts';
+
+// Layoff tracker configuration
+export {
+	DEFAULT_WARN_SOURCES,
+	WARN_COLUMN_ALIASES,
+	LAYOFF_NEWS_CATEGORIES,
+	LAYOFF_MERGE_WINDOW_DAYS,
+	NAICS_SECTORS,
+	SECTOR_KEYWORDS,
+	getNaicsSector,
+	getKeywordSector,
+	type WarnSource,
+	type WarnColumn
+} from './layoffs';
+
 // Map configuration
 export {
 	HOTSPOTS,
@@ -61,6 +202,10 @@ export {
 	SANCTIONED_COUNTRY_IDS,
 	THREAT_COLORS,
 	WEATHER_CODES,
+	LIVE_EVENT_WINDOW_HOURS,
+	LIVE_EVENT_FRESH_HOURS,
+	LIVE_EVENT_MAX_ITEMS,
+	LIVE_EVENT_COLORS,
 	type Hotspot,
 	type ConflictZone,
 	type Chokepoint,
@@ -70,6 +215,49 @@ export {
 	type Ocean
 } from './map';
 
+// Imported map layer configuration
+export {
+	MAX_MAP_LAYERS,
+	MAX_MAP_LAYER_FEATURES,
+	MAX_MAP_LAYER_BYTES,
+	MAP_LAYER_DEFAULT_COLOR,
+	MAP_LAYER_FILE_EXTENSIONS
+} from './map-layers';
+
+// Hotspot scoring configuration
+export {
+	HOTSPOT_KEYWORDS,
+	HOTSPOT_WINDOW_HOURS,
+	HOTSPOT_BASELINE_DAYS,
+	HOTSPOT_MIN_BASELINE_POINTS,
+	HOTSPOT_MIN_COUNT,
+	HOTSPOT_MIN_SPREAD,
+	HOTSPOT_Z_THRESHOLDS,
+	HOTSPOT_LEVEL_RANK
+} from './hotspots';
+
+// Geocoder configuration
+export {
+	GEO_COUNTRIES,
+	GEO_CITIES,
+	GEO_MAP_PLACES,
+	GEO_GAZETTEER,
+	GEO_KIND_PRIORITY,
+	type GeoPlace,
+	type GeoPlaceKind
+} from './geocoder';
+
+// Replay configuration
+export {
+	REPLAY_LOOKBACK_HOURS,
+	REPLAY_DEFAULT_WINDOW_HOURS,
+	REPLAY_MAX_WINDOW_HOURS,
+	REPLAY_MARKET_STALE_HOURS,
+	REPLAY_SPEEDS,
+	REPLAY_DEFAULT_SPEED,
+	REPLAY_TICK_MS
+} from './replay';
+
 // Preset configuration
 export {
 	PRESETS,
@@ -0,0 +1,313 @@
+/**
+ * Locale keyword packs - alert, region and topic keywords for headlines that are not in English.
+ * A headline detected as one of these languages is matched against its pack instead of the
+ * English lists in keywords.ts; languages without a pack keep the English lists.
+ */
+
+import type { AlertKeyword } from './keywords';
+import type { NewsLanguage } from '$lib/types';
+
+export interface KeywordPack {
+	/** Local alert term -> the English alert keyword it stands for */
+	alerts: Record<string, AlertKeyword>;
+	/** Same region ids as REGION_KEYWORDS */
+	regions: Record<string, string[]>;
+	/** Same topic ids as TOPIC_KEYWORDS */
+	topics: Record<string, string[]>;
+}
+
+const ES_PACK: KeywordPack = {
+	alerts: {
+		guerra: 'war',
+		invasión: 'invasion',
+		militar: 'military',
+		militares: 'military',
+		nuclear: 'nuclear',
+		sanciones: 'sanctions',
+		misil: 'missile',
+		misiles: 'missile',
+		ataque: 'attack',
+		tropas: 'troops',
+		conflicto: 'conflict',
+		bombardeo: 'bomb',
+		bomba: 'bomb',
+		víctimas: 'casualties',
+		'alto el fuego': 'ceasefire',
+		tratado: 'treaty',
+		otan: 'nato',
+		'golpe de estado': 'coup',
+		'ley marcial': 'martial law',
+		emergencia: 'emergency',
+		asesinato: 'assassination',
+		terrorista: 'terrorist',
+		rehén: 'hostage',
+		rehenes: 'hostage',
+		evacuación: 'evacuation'
+	},
+	regions: {
+		EUROPE: [
+			'otan',
+			'ue',
+			'unión europea',
+			'europa',
+			'europeo',
+			'ucrania',
+			'rusia',
+			'alemania',
+			'francia',
+			'reino unido',
+			'polonia'
+		],
+		MENA: [
+			'irán',
+			'israel',
+			'arabia saudita',
+			'siria',
+			'irak',
+			'gaza',
+			'líbano',
+			'yemen',
+			'hutíes',
+			'oriente medio',
+			'medio oriente'
+		],
+		APAC: ['china', 'taiwán', 'japón', 'corea', 'indo-pacífico', 'mar de china', 'filipinas'],
+		AMERICAS: [
+			'eeuu',
+			'ee.uu.',
+			'estados unidos',
+			'canadá',
+			'méxico',
+			'brasil',
+			'venezuela',
+			'argentina',
+			'colombia',
+			'chile',
+			'cuba',
+			'latinoamérica',
+			'américa latina'
+		],
+		AFRICA: ['áfrica', 'sahel', 'níger', 'sudán', 'etiopía', 'somalia']
+	},
+	topics: {
+		CYBER: ['ciberataque', 'hackeo', 'hackers', 'ransomware', 'malware', 'filtración'],
+		NUCLEAR: ['nuclear', 'ojiva', 'uranio', 'plutonio', 'no proliferación'],
+		CONFLICT: ['guerra', 'militar', 'tropas', 'invasión', 'ataque', 'misil', 'combate', 'ofensiva'],
+		INTEL: ['inteligencia', 'espionaje', 'espía', 'cia', 'mossad'],
+		DEFENSE: ['pentágono', 'defensa', 'ejército', 'armada', 'fuerza aérea'],
+		DIPLO: ['diplomático', 'embajada', 'tratado', 'sanciones', 'negociaciones', 'cumbre'],
+		ECON: [
+			'economía',
+			'económico',
+			'inflación',
+			'recesión',
+			'pib',
+			'tasa de interés',
+			'fiscal',
+			'banco central',
+			'fmi',
+			'desempleo'
+		],
+		ELECTIONS: ['elecciones', 'elección', 'votación', 'candidato', 'campaña', 'segunda vuelta'],
+		UNREST: ['protesta', 'protestas', 'disturbios', 'levantamiento', 'represión', 'manifestación'],
+		TRADE: ['arancel', 'aranceles', 'guerra comercial', 'embargo', 'mercosur', 'brics'],
+		ENERGY: [
+			'petróleo',
+			'oleoducto',
+			'opep',
+			'minería',
+			'litio',
+			'gas natural',
+			'crisis energética'
+		]
+	}
+};
+
+const PT_PACK: KeywordPack = {
+	alerts: {
+		guerra: 'war',
+		invasão: 'invasion',
+		militar: 'military',
+		militares: 'military',
+		nuclear: 'nuclear',
+		sanções: 'sanctions',
+		míssil: 'missile',
+		mísseis: 'missile',
+		ataque: 'attack',
+		tropas: 'troops',
+		conflito: 'conflict',
+		bombardeio: 'bomb',
+		bomba: 'bomb',
+		vítimas: 'casualties',
+		'cessar-fogo': 'ceasefire',
+		tratado: 'treaty',
+		otan: 'nato',
+		'golpe de estado': 'coup',
+		'lei marcial': 'martial law',
+		emergência: 'emergency',
+		assassinato: 'assassination',
+		terrorista: 'terrorist',
+		refém: 'hostage',
+		reféns: 'hostage',
+		evacuação: 'evacuation'
+	},
+	regions: {
+		EUROPE: [
+			'otan',
+			'ue',
+			'união europeia',
+			'europa',
+			'europeu',
+			'ucrânia',
+			'rússia',
+			'alemanha',
+			'frança',
+			'reino unido',
+			'polônia'
+		],
+		MENA: [
+			'irã',
+			'israel',
+			'arábia saudita',
+			'síria',
+			'iraque',
+			'gaza',
+			'líbano',
+			'iêmen',
+			'houthis',
+			'oriente médio'
+		],
+		APAC: [
+			'china',
+			'taiwan',
+			'japão',
+			'coreia',
+			'indo-pacífico',
+			'mar do sul da china',
+			'filipinas'
+		],
+		AMERICAS: [
+			'eua',
+			'estados unidos',
+			'canadá',
+			'méxico',
+			'brasil',
+			'venezuela',
+			'argentina',
+			'colômbia',
+			'chile',
+			'cuba',
+			'américa latina'
+		],
+		AFRICA: ['áfrica', 'sahel', 'níger', 'sudão', 'etiópia', 'somália']
+	},
+	topics: {
+		CYBER: ['ciberataque', 'ataque hacker', 'hackers', 'ransomware', 'malware', 'vazamento'],
+		NUCLEAR: ['nuclear', 'ogiva', 'urânio', 'plutônio', 'não proliferação'],
+		CONFLICT: ['guerra', 'militar', 'tropas', 'invasão', 'ataque', 'míssil', 'combate', 'ofensiva'],
+		INTEL: ['inteligência', 'espionagem', 'espião', 'abin', 'cia', 'mossad'],
+		DEFENSE: ['pentágono', 'defesa', 'exército', 'marinha', 'força aérea'],
+		DIPLO: ['diplomata', 'embaixada', 'tratado', 'sanções', 'negociações', 'cúpula'],
+		ECON: [
+			'economia',
+			'econômico',
+			'inflação',
+			'recessão',
+			'pib',
+			'juros',
+			'selic',
+			'fiscal',
+			'banco central',
+			'fmi',
+			'desemprego'
+		],
+		ELECTIONS: [
+			'eleição',
+			'eleições',
+			'votação',
+			'candidato',
+			'campanha',
+			'segundo turno',
+			'urnas'
+		],
+		UNREST: ['protesto', 'protestos', 'tumulto', 'revolta', 'repressão', 'manifestação'],
+		TRADE: ['tarifa', 'tarifas', 'guerra comercial', 'embargo', 'mercosul', 'brics'],
+		ENERGY: [
+			'petróleo',
+			'oleoduto',
+			'gasoduto',
+			'opep',
+			'mineração',
+			'lítio',
+			'gás natural',
+			'crise energética'
+		]
+	}
+};
+
+const FA_PACK: KeywordPack = {
+	alerts: {
+		جنگ: 'war',
+		تهاجم: 'invasion',
+		نظامی: 'military',
+		هسته‌ای: 'nuclear',
+		تحریم: 'sanctions',
+		تحریم‌ها: 'sanctions',
+		موشک: 'missile',
+		موشکی: 'missile',
+		حمله: 'attack',
+		نیروها: 'troops',
+		درگیری: 'conflict',
+		بمب: 'bomb',
+		بمباران: 'bomb',
+		تلفات: 'casualties',
+		آتش‌بس: 'ceasefire',
+		معاهده: 'treaty',
+		ناتو: 'nato',
+		کودتا: 'coup',
+		'حکومت نظامی': 'martial law',
+		اضطراری: 'emergency',
+		ترور: 'assassination',
+		تروریست: 'terrorist',
+		تروریستی: 'terrorist',
+		گروگان: 'hostage',
+		تخلیه: 'evacuation'
+	},
+	regions: {
+		EUROPE: ['ناتو', 'اروپا', 'اتحادیه اروپا', 'اوکراین', 'روسیه', 'آلمان', 'فرانسه', 'بریتانیا'],
+		MENA: [
+			'ایران',
+			'اسرائیل',
+			'عربستان',
+			'سوریه',
+			'عراق',
+			'غزه',
+			'لبنان',
+			'یمن',
+			'حوثی',
+			'خاورمیانه'
+		],
+		APAC: ['چین', 'تایوان', 'ژاپن', 'کره', 'فیلیپین'],
+		AMERICAS: ['آمریکا', 'ایالات متحده', 'کانادا', 'مکزیک', 'برزیل', 'ونزوئلا'],
+		AFRICA: ['آفریقا', 'ساحل', 'نیجر', 'سودان', 'اتیوپی', 'سومالی']
+	},
+	topics: {
+		CYBER: ['سایبری', 'هک', 'هکر', 'بدافزار', 'باج‌افزار'],
+		NUCLEAR: ['هسته‌ای', 'اورانیوم', 'غنی‌سازی', 'کلاهک', 'پلوتونیوم'],
+		CONFLICT: ['جنگ', 'نظامی', 'حمله', 'موشک', 'تهاجم', 'درگیری'],
+		INTEL: ['اطلاعاتی', 'جاسوسی', 'جاسوس', 'موساد'],
+		DEFENSE: ['پنتاگون', 'دفاع', 'ارتش', 'سپاه', 'نیروی دریایی', 'نیروی هوایی'],
+		DIPLO: ['دیپلمات', 'سفارت', 'معاهده', 'تحریم', 'مذاکرات', 'نشست'],
+		ECON: ['اقتصاد', 'اقتصادی', 'تورم', 'رکود', 'نرخ بهره', 'بانک مرکزی', 'ریال', 'بیکاری'],
+		ELECTIONS: ['انتخابات', 'رأی', 'نامزد', 'کاندیدا'],
+		UNREST: ['اعتراض', 'اعتراضات', 'ناآرامی', 'شورش', 'سرکوب', 'تظاهرات'],
+		TRADE: ['تعرفه', 'جنگ تجاری', 'تحریم', 'بریکس'],
+		ENERGY: ['نفت', 'خط لوله', 'اوپک', 'گاز', 'بنزین']
+	}
+};
+
+export const KEYWORD_PACKS: Partial<Record<NewsLanguage, KeywordPack>> = {
+	es: ES_PACK,
+	pt: PT_PACK,
+	fa: FA_PACK
+};
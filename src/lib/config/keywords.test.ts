@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { detectRegion, detectTopics } from './keywords';
+import { containsAlertKeyword, detectRegion, detectTopics, glossAlertTerms } from './keywords';
 
 describe('keyword detection', () => {
 	it('avoids substring false positives for conflict keywords', () => {
@@ -19,4 +19,29 @@ describe('keyword detection', () => {
 		expect(detectRegion('Russia and EU discuss sanctions')).toBe('EUROPE');
 		expect(detectTopics('US election campaign heats up')).toContain('ELECTIONS');
 	});
+
+	it('matches Spanish, Portuguese and Farsi headlines with their keyword packs', () => {
+		expect(containsAlertKeyword('Ataque con misiles contra Kiev', 'es')).toEqual({
+			isAlert: true,
+			keyword: 'missile'
+		});
+		expect(detectRegion('Irã ameaça fechar o estreito', 'pt')).toBe('MENA');
+		expect(detectTopics('Eleições: segundo turno será disputado', 'pt')).toContain('ELECTIONS');
+		expect(detectTopics('مذاکرات هسته‌ای ایران', 'fa')).toEqual(
+			expect.arrayContaining(['NUCLEAR', 'DIPLO'])
+		);
+	});
+
+	it('keeps English words out of foreign-language headlines', () => {
+		// Portuguese "eu" is "I", not the European Union
+		expect(detectRegion('Eu não sei', 'pt')).toBeNull();
+		expect(detectRegion('EU leaders meet')).toBe('EUROPE');
+	});
+
+	it('glosses pack alert terms into their English keyword', () => {
+		expect(glossAlertTerms('Golpe de estado e lei marcial no país', 'pt')).toBe(
+			'coup e martial law no país'
+		);
+		expect(glossAlertTerms('Ataque', 'de')).toBe('Ataque');
+	});
 });
@@ -2,6 +2,10 @@
  * Keyword configuration for alerts and categorization
  */
 
+import { KEYWORD_PACKS } from './keyword-packs';
+import type { NewsLanguage } from '$lib/types';
+import { escapeRegExp } from '$lib/utils/format';
+
 export const ALERT_KEYWORDS = [
 	'war',
 	'invasion',
@@ -139,13 +143,9 @@ interface CompiledKeyword {
 	pattern: RegExp;
 }
 
-function escapeRegex(value: string): string {
-	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
 function buildKeywordPattern(keyword: string): RegExp {
 	const normalized = keyword.trim();
-	const escaped = escapeRegex(normalized).replace(/\s+/g, '\\s+');
+	const escaped = escapeRegExp(normalized).replace(/\s+/g, '\\s+');
 	const boundary = '[\\p{L}\\p{N}_]';
 	return new RegExp(`(?<!${boundary})${escaped}(?!${boundary})`, 'iu');
 }
@@ -157,19 +157,51 @@ function compileKeywords(keywords: readonly string[]): CompiledKeyword[] {
 	}));
 }
 
-const COMPILED_ALERT_KEYWORDS = compileKeywords(ALERT_KEYWORDS);
-const COMPILED_REGION_KEYWORDS = Object.fromEntries(
-	Object.entries(REGION_KEYWORDS).map(([region, keywords]) => [region, compileKeywords(keywords)])
-) as Record<string, CompiledKeyword[]>;
-const COMPILED_TOPIC_KEYWORDS = Object.fromEntries(
-	Object.entries(TOPIC_KEYWORDS).map(([topic, keywords]) => [topic, compileKeywords(keywords)])
-) as Record<string, CompiledKeyword[]>;
+interface CompiledKeywordSet {
+	alerts: CompiledKeyword[];
+	regions: Record<string, CompiledKeyword[]>;
+	topics: Record<string, CompiledKeyword[]>;
+}
+
+function compileKeywordGroups(groups: Record<string, string[]>): Record<string, CompiledKeyword[]> {
+	return Object.fromEntries(
+		Object.entries(groups).map(([id, keywords]) => [id, compileKeywords(keywords)])
+	);
+}
+
+const COMPILED_ENGLISH: CompiledKeywordSet = {
+	alerts: compileKeywords(ALERT_KEYWORDS),
+	regions: compileKeywordGroups(REGION_KEYWORDS),
+	topics: compileKeywordGroups(TOPIC_KEYWORDS)
+};
+
+// Pack alerts report the English keyword, so alert keywords stay comparable across languages
+const COMPILED_PACKS = Object.fromEntries(
+	Object.entries(KEYWORD_PACKS).map(([lang, pack]) => [
+		lang,
+		{
+			alerts: Object.entries(pack.alerts).map(([term, keyword]) => ({
+				keyword,
+				pattern: buildKeywordPattern(term)
+			})),
+			regions: compileKeywordGroups(pack.regions),
+			topics: compileKeywordGroups(pack.topics)
+		}
+	])
+) as Partial<Record<NewsLanguage, CompiledKeywordSet>>;
+
+function getCompiledKeywords(lang?: NewsLanguage | null): CompiledKeywordSet {
+	return (lang && COMPILED_PACKS[lang]) || COMPILED_ENGLISH;
+}
 
 /**
- * Check if a headline contains alert keywords
+ * Check if a headline contains alert keywords; `lang` selects a locale keyword pack
  */
-export function containsAlertKeyword(text: string): { isAlert: boolean; keyword?: string } {
-	for (const { keyword, pattern } of COMPILED_ALERT_KEYWORDS) {
+export function containsAlertKeyword(
+	text: string,
+	lang?: NewsLanguage | null
+): { isAlert: boolean; keyword?: string } {
+	for (const { keyword, pattern } of getCompiledKeywords(lang).alerts) {
 		if (pattern.test(text)) {
 			return { isAlert: true, keyword };
 		}
@@ -180,8 +212,8 @@ export function containsAlertKeyword(text: string): { isAlert: boolean; keyword?
 /**
  * Detect region from text
  */
-export function detectRegion(text: string): string | null {
-	for (const [region, keywords] of Object.entries(COMPILED_REGION_KEYWORDS)) {
+export function detectRegion(text: string, lang?: NewsLanguage | null): string | null {
+	for (const [region, keywords] of Object.entries(getCompiledKeywords(lang).regions)) {
 		if (keywords.some(({ pattern }) => pattern.test(text))) {
 			return region;
 		}
@@ -192,12 +224,26 @@ export function detectRegion(text: string): string | null {
 /**
  * Detect topics from text
  */
-export function detectTopics(text: string): string[] {
+export function detectTopics(text: string, lang?: NewsLanguage | null): string[] {
 	const detected: string[] = [];
-	for (const [topic, keywords] of Object.entries(COMPILED_TOPIC_KEYWORDS)) {
+	for (const [topic, keywords] of Object.entries(getCompiledKeywords(lang).topics)) {
 		if (keywords.some(({ pattern }) => pattern.test(text))) {
 			detected.push(topic);
 		}
 	}
 	return detected;
 }
+
+/**
+ * English word-for-word gloss of the alert terms in a headline, for the offline translator
+ */
+export function glossAlertTerms(text: string, lang: NewsLanguage): string {
+	const pack = KEYWORD_PACKS[lang];
+	if (!pack) return text;
+	// Longest terms first so "golpe de estado" wins over "golpe"
+	const terms = Object.keys(pack.alerts).sort((a, b) => b.length - a.length);
+	return terms.reduce((gloss, term) => {
+		const pattern = new RegExp(buildKeywordPattern(term).source, 'giu');
+		return gloss.replace(pattern, pack.alerts[term]);
+	}, text);
+}
@@ -0,0 +1,216 @@
+/**
+ * Language detection configuration - languages recognised on ingest and the function words that
+ * tell Latin-script languages apart
+ */
+
+import type { NewsLanguage } from '$lib/types';
+
+/** ISO 639-1 codes stored in news.lang */
+export const NEWS_LANGUAGES: readonly NewsLanguage[] = [
+	'en',
+	'es',
+	'pt',
+	'fr',
+	'de',
+	'it',
+	'fa',
+	'ar',
+	'ru',
+	'uk',
+	'he',
+	'zh',
+	'ja',
+	'ko'
+];
+
+/** Language names shown next to translated titles */
+export const NEWS_LANGUAGE_NAMES: Record<NewsLanguage, string> = {
+	en: 'English',
+	es: 'Español',
+	pt: 'Português',
+	fr: 'Français',
+	de: 'Deutsch',
+	it: 'Italiano',
+	fa: 'فارسی',
+	ar: 'العربية',
+	ru: 'Русский',
+	uk: 'Українська',
+	he: 'עברית',
+	zh: '中文',
+	ja: '日本語',
+	ko: '한국어'
+};
+
+/**
+ * Frequent function words per Latin-script language. A headline is scored by how many of its
+ * words appear in each list; words shared by several languages count for all of them.
+ */
+export const LANGUAGE_STOPWORDS: Partial<Record<NewsLanguage, readonly string[]>> = {
+	en: [
+		'the',
+		'of',
+		'and',
+		'to',
+		'in',
+		'on',
+		'for',
+		'with',
+		'after',
+		'over',
+		'is',
+		'are',
+		'was',
+		'as',
+		'at',
+		'by',
+		'from',
+		'its',
+		'says',
+		'amid',
+		'new',
+		'will',
+		'has',
+		'have',
+		'be'
+	],
+	es: [
+		'el',
+		'la',
+		'los',
+		'las',
+		'de',
+		'del',
+		'y',
+		'en',
+		'un',
+		'una',
+		'por',
+		'con',
+		'para',
+		'que',
+		'se',
+		'su',
+		'al',
+		'es',
+		'más',
+		'tras',
+		'sobre',
+		'contra',
+		'entre',
+		'dice',
+		'según',
+		'ante',
+		'hay'
+	],
+	pt: [
+		'o',
+		'os',
+		'a',
+		'as',
+		'de',
+		'do',
+		'da',
+		'dos',
+		'das',
+		'e',
+		'em',
+		'no',
+		'na',
+		'nos',
+		'nas',
+		'um',
+		'uma',
+		'por',
+		'com',
+		'para',
+		'que',
+		'se',
+		'ao',
+		'é',
+		'mais',
+		'após',
+		'sobre',
+		'contra',
+		'entre',
+		'não',
+		'diz',
+		'segundo'
+	],
+	fr: [
+		'le',
+		'la',
+		'les',
+		'de',
+		'des',
+		'du',
+		'et',
+		'en',
+		'un',
+		'une',
+		'pour',
+		'avec',
+		'dans',
+		'sur',
+		'que',
+		'qui',
+		'est',
+		'au',
+		'aux',
+		'après',
+		'selon',
+		'pas'
+	],
+	de: [
+		'der',
+		'die',
+		'das',
+		'und',
+		'in',
+		'den',
+		'von',
+		'mit',
+		'für',
+		'auf',
+		'ist',
+		'im',
+		'nach',
+		'zu',
+		'ein',
+		'eine',
+		'nicht',
+		'gegen',
+		'bei'
+	],
+	it: [
+		'il',
+		'lo',
+		'la',
+		'gli',
+		'le',
+		'di',
+		'del',
+		'della',
+		'e',
+		'in',
+		'un',
+		'una',
+		'per',
+		'con',
+		'che',
+		'non',
+		'dopo',
+		'sulla',
+		'nel',
+		'è'
+	]
+};
+
+/** Letters that only occur in one Latin-script language's spelling */
+export const LANGUAGE_MARKER_LETTERS: Partial<Record<NewsLanguage, RegExp>> = {
+	es: /[ñ¿¡]/,
+	pt: /[ãõ]/,
+	de: /[ß]/
+};
+
+/** Stopword hits needed before a Latin-script headline gets a language */
+export const LANGUAGE_MIN_STOPWORD_HITS = 1;
@@ -0,0 +1,165 @@
+/**
+ * Layoff tracker configuration - state WARN-notice publications and sector classification
+ */
+
+import type { LayoffSector, NewsCategory } from '$lib/types';
+
+export interface WarnSource {
+	id: string;
+	/** Two-letter state code shown on notices from this source */
+	state: string;
+	/** CSV downloads are parsed as-is; HTML pages are scanned for notice tables */
+	format: 'csv' | 'html';
+	url: string;
+}
+
+/**
+ * WARN Act notice publications polled unless WARN_SOURCES overrides them
+ */
+export const DEFAULT_WARN_SOURCES: WarnSource[] = [
+	{
+		id: 'md',
+		state: 'MD',
+		format: 'html',
+		url: 'https://labor.maryland.gov/employment/warn.shtml'
+	},
+	{
+		id: 'ct',
+		state: 'CT',
+		format: 'html',
+		url: 'https://www.ctdol.state.ct.us/progsupt/bussrvce/warnreports/warnreports.htm'
+	}
+];
+
+/**
+ * Column header spellings used by state WARN publications, matched after lower-casing and
+ * collapsing punctuation; earlier aliases win when several columns match
+ */
+export const WARN_COLUMN_ALIASES = {
+	company: [
+		'company',
+		'company name',
+		'employer',
+		'employer name',
+		'business name',
+		'company employer'
+	],
+	count: [
+		'total employees',
+		'employees affected',
+		'number of employees affected',
+		'number of workers',
+		'no of employees',
+		'workers affected',
+		'number affected',
+		'affected',
+		'employees',
+		'jobs'
+	],
+	date: [
+		'notice date',
+		'date of notice',
+		'warn date',
+		'date received',
+		'received date',
+		'notice received',
+		'date'
+	],
+	location: ['location', 'city', 'address', 'local area', 'county', 'region'],
+	naics: ['naics', 'naics code', 'industry']
+} as const;
+
+export type WarnColumn = keyof typeof WARN_COLUMN_ALIASES;
+
+/** News categories scanned for layoff headlines, and the sector assumed when nothing else fits */
+export const LAYOFF_NEWS_CATEGORIES: Partial<Record<NewsCategory, LayoffSector>> = {
+	tech: 'technology',
+	finance: 'finance'
+};
+
+/** Reports of the same company this many days apart are merged into one event */
+export const LAYOFF_MERGE_WINDOW_DAYS = 14;
+
+/**
+ * NAICS code prefixes to sectors; the longest matching prefix wins
+ */
+export const NAICS_SECTORS: Record<string, LayoffSector> = {
+	'21': 'energy',
+	'22': 'energy',
+	'23': 'services',
+	'31': 'manufacturing',
+	'32': 'manufacturing',
+	'33': 'manufacturing',
+	'3361': 'automotive',
+	'3362': 'automotive',
+	'3363': 'automotive',
+	'42': 'logistics',
+	'44': 'retail',
+	'45': 'retail',
+	'441': 'automotive',
+	'48': 'logistics',
+	'49': 'logistics',
+	'51': 'media',
+	'5112': 'technology',
+	'5132': 'technology',
+	'517': 'technology',
+	'518': 'technology',
+	'519': 'technology',
+	'52': 'finance',
+	'53': 'services',
+	'54': 'services',
+	'5415': 'technology',
+	'55': 'services',
+	'56': 'services',
+	'61': 'services',
+	'62': 'healthcare',
+	'71': 'hospitality',
+	'72': 'hospitality',
+	'81': 'services',
+	'92': 'government'
+};
+
+/**
+ * Sector keywords checked against the company name and headline, in order
+ */
+export const SECTOR_KEYWORDS: Array<[LayoffSector, RegExp]> = [
+	[
+		'automotive',
+		/\b(auto ?makers?|automotive|car ?makers?|electric vehicles?|ford|general motors|gm|stellantis|tesla|rivian)\b/i
+	],
+	[
+		'technology',
+		/\b(software|tech|cloud|ai|semiconductors?|chips?|chipmakers?|startups?|saas|cybersecurity|google|alphabet|meta|microsoft|aws|apple|intel|salesforce|oracle|ibm|cisco|nvidia|dell|qualcomm)\b/i
+	],
+	[
+		'finance',
+		/\b(banks?|banking|financial|fintech|insurers?|insurance|investment|asset manager|hedge funds?|brokerage|lenders?|mortgage|goldman sachs|morgan stanley|jpmorgan|citigroup|citi|wells fargo|blackrock|paypal)\b/i
+	],
+	['retail', /\b(retail(ers?)?|stores|walmart|target|macy'?s|kohl'?s|nordstrom|e-?commerce)\b/i],
+	['healthcare', /\b(health ?care|hospitals?|pharma\w*|biotech|medical|clinics?|drugmakers?)\b/i],
+	[
+		'media',
+		/\b(media|newspapers?|publishers?|broadcast\w*|studios?|streaming|entertainment|video ?games?|gaming)\b/i
+	],
+	[
+		'logistics',
+		/\b(logistics|shipping|freight|trucking|warehouses?|delivery|airlines?|ups|fedex)\b/i
+	],
+	['energy', /\b(oil|natural gas|energy|utility|utilities|solar|mining|coal)\b/i],
+	['hospitality', /\b(hotels?|restaurants?|casinos?|resorts?|hospitality|cruise)\b/i],
+	['manufacturing', /\b(manufactur\w*|factory|factories|plants?|industrial|steel|boeing)\b/i],
+	['government', /\b(federal|government|agency|county of|city of|state of)\b/i]
+];
+
+export function getNaicsSector(naicsCode: string | null | undefined): LayoffSector | null {
+	const code = naicsCode?.replace(/\D/g, '') ?? '';
+	for (let length = Math.min(code.length, 6); length >= 2; length--) {
+		const sector = NAICS_SECTORS[code.slice(0, length)];
+		if (sector) return sector;
+	}
+	return null;
+}
+
+export function getKeywordSector(text: string): LayoffSector | null {
+	return SECTOR_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
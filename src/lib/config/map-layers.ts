@@ -0,0 +1,20 @@
+/**
+ * Imported map layer limits shared by the map panel and the /api/layers routes
+ */
+
+export const MAX_MAP_LAYERS = 25;
+
+/** Features kept per imported layer; larger files are rejected rather than truncated */
+export const MAX_MAP_LAYER_FEATURES = 5000;
+
+/** Largest file accepted, matching adapter-node's default BODY_SIZE_LIMIT */
+export const MAX_MAP_LAYER_BYTES = 512 * 1024;
+
+/** Color of imported features without their own styling */
+export const MAP_LAYER_DEFAULT_COLOR = '#c084fc';
+
+/** File extensions offered by the import picker, by format */
+export const MAP_LAYER_FILE_EXTENSIONS = {
+	geojson: ['.geojson', '.json'],
+	kml: ['.kml']
+} as const;
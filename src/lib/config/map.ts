@@ -11,12 +11,13 @@ import {
 	type PipelineRoute
 } from './pipelines-data';
 import { WORLDMONITOR_MILITARY_BASES } from './military-bases-data';
+import type { HotspotLevel } from '$lib/types';
 
 export interface Hotspot {
 	name: string;
 	lat: number;
 	lon: number;
-	level: 'critical' | 'high' | 'elevated' | 'low';
+	level: HotspotLevel;
 	desc: string;
 }
 
@@ -617,3 +618,14 @@ export const WEATHER_CODES: Record<number, string> = {
 	96: '⛈️ Thunderstorm',
 	99: '⛈️ Thunderstorm'
 };
+
+// Live events layer - geolocated headlines of the last LIVE_EVENT_WINDOW_HOURS, alerts in red,
+// the rest fading from fresh to older as they age
+export const LIVE_EVENT_WINDOW_HOURS = 24;
+export const LIVE_EVENT_FRESH_HOURS = 3;
+export const LIVE_EVENT_MAX_ITEMS = 400;
+export const LIVE_EVENT_COLORS = {
+	alert: '#ff3b3b',
+	fresh: '#ffb347',
+	older: '#4bd3ff'
+};
@@ -0,0 +1,17 @@
+/**
+ * Custom monitor limits shared by the monitors store and the /api/monitors routes
+ */
+
+export const MAX_MONITORS = 100;
+
+/** Days of per-monitor match history kept after the news items themselves expire */
+export const MONITOR_MATCH_RETENTION_DAYS = 90;
+
+/** Radius a new geofence starts with, in km */
+export const DEFAULT_GEOFENCE_RADIUS_KM = 200;
+
+/** Largest radius a geofenced monitor may watch, in km */
+export const MAX_GEOFENCE_RADIUS_KM = 5000;
+
+/** Most vertices a geofence polygon drawn on the map may have */
+export const MAX_GEOFENCE_VERTICES = 200;
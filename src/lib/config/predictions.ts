@@ -0,0 +1,70 @@
+/**
+ * Prediction market configuration - probability delta windows and swing alert thresholds
+ */
+
+import type { PredictionDeltaWindow } from '$lib/types';
+
+export const PREDICTION_DELTA_WINDOWS: Record<PredictionDeltaWindow, number> = {
+	'1h': 3600000,
+	'24h': 24 * 3600000,
+	'7d': 7 * 24 * 3600000
+};
+
+/**
+ * How far before the window start a snapshot may be and still serve as its baseline; older
+ * history is downsampled to hourly points, so the longer windows allow more slack
+ */
+export const PREDICTION_BASELINE_TOLERANCE_MS: Record<PredictionDeltaWindow, number> = {
+	'1h': 30 * 60000,
+	'24h': 3 * 3600000,
+	'7d': 12 * 3600000
+};
+
+/** Probability change, in percentage points, that raises a swing alert per window */
+export const DEFAULT_PREDICTION_SWING_THRESHOLDS: Record<PredictionDeltaWindow, number> = {
+	'1h': 10,
+	'24h': 15,
+	'7d': 25
+};
+
+/** Thin markets swing on single trades, so only markets with this much volume alert */
+export const PREDICTION_SWING_MIN_VOLUME = 100_000;
+
+/**
+ * Market-question phrasings for correlation topics, checked alongside the topic's headline
+ * patterns; markets ask "US strikes Iran by June 30?" where headlines say "Iranian strike"
+ */
+export const PREDICTION_TOPIC_PATTERNS: Record<string, RegExp[]> = {
+	iran: [/\biran(ian)?\b/i, /\bkhamenei\b/i, /\bstrait of hormuz\b/i],
+	'israel-gaza': [/\bisrael\b/i, /\bhezbollah\b/i, /\bhamas\b/i],
+	'russia-ukraine': [/\brussia\b.{0,40}\b(ceasefire|peace|truce)\b/i, /\bputin\b/i, /\bkyiv\b/i],
+	'china-tensions': [/\btaiwan\b/i, /\bchina\b.{0,40}\b(invade|blockade|military|clash)\b/i],
+	'fed-rates': [/\bfed\b.{0,40}\b(cut|hike|raise|rates?|bps)\b/i, /\bfed chair\b/i],
+	inflation: [/\binflation\b/i],
+	tariffs: [/\btariffs?\b/i],
+	crypto: [/\bbitcoin\b/i, /\bbtc\b/i, /\bethereum\b/i, /\bcrypto\b/i],
+	nuclear: [/\bnuclear (weapon|test|strike|deal)\b/i],
+	'nato-defense': [/\bnato\b/i],
+	election: [/\b(win|wins|elected)\b.{0,40}\b(election|presidency|primary|nomination)\b/i]
+};
+
+/**
+ * Market-question phrasings for mainstream narratives, checked alongside the narrative's
+ * headline patterns
+ */
+export const PREDICTION_NARRATIVE_PATTERNS: Record<string, RegExp[]> = {
+	'recession-fears': [/\brecession\b/i],
+	'rate-pivot': [/\bfed\b.{0,40}\b(cut|pause|hold)\b/i],
+	'taiwan-contingency': [
+		/\b(china|prc)\b.{0,40}\btaiwan\b/i,
+		/\btaiwan\b.{0,40}\b(invade|invasion|blockade)\b/i
+	],
+	'venezuela-crisis': [/\bvenezuela\b/i],
+	'lula-government': [/\blula\b/i],
+	'bolsonaro-factor': [/\bbolsonaro\b/i],
+	'brazil-election-coverage': [/\bbrazil(ian)?\b.{0,40}\b(election|president)\b/i],
+	'crypto-regulation': [/\b(sec|etf|stablecoin)\b.{0,40}\b(bitcoin|crypto|ethereum|approve)\b/i]
+};
+
+/** Related markets shown beside a correlation signal or narrative */
+export const MAX_LINKED_MARKETS = 3;
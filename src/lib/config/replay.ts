@@ -0,0 +1,21 @@
+/**
+ * Replay configuration - how far back the time slider reaches, how much news surrounds
+ * the replayed moment and how fast playback runs
+ */
+
+/** Oldest moment the slider offers; the correlation baseline is kept for seven days */
+export const REPLAY_LOOKBACK_HOURS = 7 * 24;
+
+/** Headlines within ±this many hours of the replayed moment are loaded */
+export const REPLAY_DEFAULT_WINDOW_HOURS = 6;
+export const REPLAY_MAX_WINDOW_HOURS = 24;
+
+/** Market ticks older than this before the replayed moment are not shown as its prices */
+export const REPLAY_MARKET_STALE_HOURS = 72;
+
+/** Playback speeds as replayed seconds per real second */
+export const REPLAY_SPEEDS = [60, 600, 3600, 6 * 3600] as const;
+export const REPLAY_DEFAULT_SPEED = 600;
+
+/** Real time between playback steps */
+export const REPLAY_TICK_MS = 1000;
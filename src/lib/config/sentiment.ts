@@ -0,0 +1,402 @@
+/**
+ * Headline sentiment configuration - news-oriented lexicons for English and Portuguese,
+ * the modifiers that flip or strengthen a term, and the thresholds behind labels, trends and
+ * the sharp-negative-turn alert
+ */
+
+import type { NewsLanguage } from '$lib/types';
+
+/** Word -> valence from -3 (very negative) to +3 (very positive) */
+export type SentimentLexicon = Record<string, number>;
+
+const EN_LEXICON: SentimentLexicon = {
+	// Negative
+	war: -3,
+	wars: -3,
+	killed: -3,
+	kills: -3,
+	kill: -3,
+	dead: -3,
+	deaths: -3,
+	death: -3,
+	massacre: -3,
+	genocide: -3,
+	terror: -3,
+	terrorist: -3,
+	catastrophe: -3,
+	catastrophic: -3,
+	disaster: -3,
+	collapse: -3,
+	collapses: -3,
+	attack: -2,
+	attacks: -2,
+	strike: -2,
+	strikes: -2,
+	bombing: -3,
+	invasion: -3,
+	crisis: -2,
+	crash: -2,
+	crashes: -2,
+	plunge: -2,
+	plunges: -2,
+	slump: -2,
+	slumps: -2,
+	tumble: -2,
+	tumbles: -2,
+	recession: -2,
+	default: -2,
+	bankrupt: -3,
+	bankruptcy: -3,
+	layoffs: -2,
+	scandal: -2,
+	corruption: -3,
+	fraud: -3,
+	indicted: -2,
+	indictment: -2,
+	charged: -1,
+	arrested: -2,
+	convicted: -2,
+	impeachment: -2,
+	resigns: -1,
+	ousted: -2,
+	fired: -2,
+	condemn: -2,
+	condemns: -2,
+	condemned: -2,
+	criticism: -2,
+	criticized: -2,
+	slams: -2,
+	blasts: -2,
+	backlash: -2,
+	outrage: -2,
+	protest: -1,
+	protests: -1,
+	riot: -2,
+	riots: -2,
+	unrest: -2,
+	threat: -2,
+	threatens: -2,
+	threats: -2,
+	warns: -1,
+	warning: -1,
+	fear: -2,
+	fears: -2,
+	risk: -1,
+	risks: -1,
+	concern: -1,
+	concerns: -1,
+	worries: -1,
+	fail: -2,
+	fails: -2,
+	failed: -2,
+	failure: -2,
+	loss: -2,
+	losses: -2,
+	lose: -2,
+	loses: -2,
+	defeat: -2,
+	decline: -1,
+	declines: -1,
+	falls: -1,
+	fall: -1,
+	drop: -1,
+	drops: -1,
+	cuts: -1,
+	weak: -1,
+	weaker: -1,
+	worst: -3,
+	worse: -2,
+	chaos: -2,
+	turmoil: -2,
+	sanctions: -1,
+	tariffs: -1,
+	violence: -3,
+	violent: -2,
+	hostage: -2,
+	injured: -2,
+	victims: -2,
+	deadly: -3,
+	lawsuit: -1,
+	sued: -1,
+	probe: -1,
+	blame: -2,
+	blames: -2,
+	deny: -1,
+	denies: -1,
+	reject: -1,
+	rejects: -1,
+	rejected: -1,
+	halt: -1,
+	halts: -1,
+	shutdown: -2,
+	outage: -2,
+	breach: -2,
+	hack: -2,
+	hacked: -2,
+	// Positive
+	peace: 3,
+	ceasefire: 2,
+	truce: 2,
+	agreement: 2,
+	deal: 2,
+	accord: 2,
+	treaty: 1,
+	breakthrough: 3,
+	success: 2,
+	successful: 2,
+	win: 2,
+	wins: 2,
+	won: 2,
+	victory: 2,
+	triumph: 3,
+	praise: 2,
+	praised: 2,
+	praises: 2,
+	hails: 2,
+	celebrates: 2,
+	welcome: 2,
+	welcomes: 2,
+	support: 1,
+	supports: 1,
+	backs: 1,
+	boost: 2,
+	boosts: 2,
+	surge: 1,
+	surges: 1,
+	soar: 2,
+	soars: 2,
+	rally: 2,
+	rallies: 2,
+	gain: 1,
+	gains: 1,
+	rise: 1,
+	rises: 1,
+	growth: 2,
+	grows: 1,
+	recovery: 2,
+	recovers: 2,
+	rebound: 2,
+	rebounds: 2,
+	record: 1,
+	strong: 1,
+	stronger: 1,
+	improve: 2,
+	improves: 2,
+	improved: 2,
+	approve: 1,
+	approves: 1,
+	approved: 1,
+	release: 1,
+	released: 1,
+	freed: 2,
+	rescue: 2,
+	rescued: 2,
+	aid: 1,
+	help: 1,
+	helps: 1,
+	hope: 2,
+	hopes: 1,
+	optimism: 2,
+	optimistic: 2,
+	stable: 1,
+	stability: 1,
+	reform: 1,
+	cooperation: 2,
+	partnership: 2,
+	alliance: 1,
+	invest: 1,
+	investment: 1,
+	innovation: 2,
+	launch: 1,
+	launches: 1,
+	acquitted: 2,
+	cleared: 1
+};
+
+const PT_LEXICON: SentimentLexicon = {
+	// Negativo
+	guerra: -3,
+	morto: -3,
+	mortos: -3,
+	morte: -3,
+	mortes: -3,
+	mata: -3,
+	massacre: -3,
+	genocídio: -3,
+	terror: -3,
+	terrorista: -3,
+	catástrofe: -3,
+	tragédia: -3,
+	desastre: -3,
+	colapso: -3,
+	ataque: -2,
+	ataques: -2,
+	bombardeio: -3,
+	invasão: -3,
+	crise: -2,
+	queda: -1,
+	despenca: -2,
+	desaba: -2,
+	recessão: -2,
+	calote: -2,
+	falência: -3,
+	demissões: -2,
+	escândalo: -2,
+	corrupção: -3,
+	fraude: -3,
+	propina: -3,
+	denunciado: -2,
+	indiciado: -2,
+	preso: -2,
+	presa: -2,
+	condenado: -2,
+	condenada: -2,
+	impeachment: -2,
+	renuncia: -1,
+	demitido: -2,
+	critica: -2,
+	críticas: -2,
+	criticado: -2,
+	ataca: -2,
+	rebate: -1,
+	polêmica: -2,
+	revolta: -2,
+	protesto: -1,
+	protestos: -1,
+	tumulto: -2,
+	ameaça: -2,
+	ameaças: -2,
+	alerta: -1,
+	medo: -2,
+	temor: -2,
+	risco: -1,
+	riscos: -1,
+	preocupação: -1,
+	fracasso: -2,
+	fracassa: -2,
+	falha: -2,
+	perda: -2,
+	perdas: -2,
+	perde: -2,
+	derrota: -2,
+	recua: -1,
+	cai: -1,
+	caem: -1,
+	cortes: -1,
+	pior: -2,
+	caos: -2,
+	sanções: -1,
+	tarifas: -1,
+	violência: -3,
+	violento: -2,
+	refém: -2,
+	reféns: -2,
+	feridos: -2,
+	vítimas: -2,
+	mortal: -3,
+	investigação: -1,
+	acusa: -2,
+	acusado: -2,
+	culpa: -2,
+	nega: -1,
+	rejeita: -1,
+	rejeitado: -1,
+	paralisação: -2,
+	greve: -1,
+	apagão: -2,
+	vazamento: -2,
+	// Positivo
+	paz: 3,
+	'cessar-fogo': 2,
+	trégua: 2,
+	acordo: 2,
+	tratado: 1,
+	avanço: 2,
+	sucesso: 2,
+	vence: 2,
+	vitória: 2,
+	conquista: 2,
+	elogia: 2,
+	elogiado: 2,
+	comemora: 2,
+	celebra: 2,
+	aprova: 1,
+	aprovado: 1,
+	aprovada: 1,
+	apoio: 1,
+	apoia: 1,
+	impulso: 2,
+	impulsiona: 2,
+	dispara: 1,
+	sobe: 1,
+	sobem: 1,
+	alta: 1,
+	ganho: 1,
+	ganhos: 1,
+	crescimento: 2,
+	cresce: 1,
+	recuperação: 2,
+	recorde: 1,
+	forte: 1,
+	melhora: 2,
+	melhor: 2,
+	libertado: 2,
+	libertados: 2,
+	resgate: 2,
+	resgatado: 2,
+	ajuda: 1,
+	esperança: 2,
+	otimismo: 2,
+	estabilidade: 1,
+	estável: 1,
+	reforma: 1,
+	cooperação: 2,
+	parceria: 2,
+	investimento: 1,
+	inovação: 2,
+	lança: 1,
+	absolvido: 2
+};
+
+export const SENTIMENT_LEXICONS: Partial<Record<NewsLanguage, SentimentLexicon>> = {
+	en: EN_LEXICON,
+	pt: PT_LEXICON
+};
+
+/** Words that flip the valence of a term within the next SENTIMENT_NEGATION_SCOPE words */
+export const SENTIMENT_NEGATORS: Partial<Record<NewsLanguage, string[]>> = {
+	en: ['not', 'no', 'never', 'without', "isn't", "won't", "don't", "doesn't", "didn't", 'nor'],
+	pt: ['não', 'nem', 'nunca', 'sem', 'jamais']
+};
+
+/** Words that strengthen the term right after them */
+export const SENTIMENT_INTENSIFIERS: Partial<Record<NewsLanguage, string[]>> = {
+	en: ['very', 'sharply', 'deeply', 'highly', 'extremely', 'massive', 'major', 'huge', 'biggest'],
+	pt: ['muito', 'fortemente', 'extremamente', 'grande', 'enorme', 'maior']
+};
+
+export const SENTIMENT_NEGATION_SCOPE = 3;
+/** A negated term keeps this share of its valence with the sign flipped ("not a deal") */
+export const SENTIMENT_NEGATION_FACTOR = -0.75;
+export const SENTIMENT_INTENSIFIER_FACTOR = 1.5;
+/** Squashes the summed valence into (-1, 1): sum / sqrt(sum² + alpha) */
+export const SENTIMENT_NORMALIZATION_ALPHA = 15;
+
+/** Scores at or beyond ±this are labelled positive / negative */
+export const SENTIMENT_LABEL_THRESHOLD = 0.05;
+/** A group is "mixed" when both positive and negative headlines make up at least this share */
+export const SENTIMENT_MIXED_SHARE = 0.3;
+
+/** Trend window and bucket size used when /api/sentiment gets no `hours` */
+export const DEFAULT_SENTIMENT_WINDOW_HOURS = 72;
+export const SENTIMENT_BUCKET_HOURS = 6;
+
+/** Sharp negative turn: recent coverage of a person against the hours before it */
+export const SENTIMENT_SHIFT_RECENT_HOURS = 6;
+export const SENTIMENT_SHIFT_BASELINE_HOURS = 48;
+/** Headlines needed on each side before a turn counts */
+export const SENTIMENT_SHIFT_MIN_MENTIONS = 3;
+/** Drop in mean score (on the -1..1 scale) that counts as sharp */
+export const SENTIMENT_SHIFT_MIN_DROP = 0.3;
+/** The recent mean must also be at or below this */
+export const SENTIMENT_SHIFT_MAX_SCORE = -0.2;
@@ -0,0 +1,16 @@
+/**
+ * Story clustering configuration - when headlines from different sources count as one event
+ */
+
+/** Similarity at which two headlines are the same story */
+export const STORY_CLUSTER_SIMILARITY = 0.35;
+/** Lower bar for headlines that also share a detectTopics topic */
+export const STORY_CLUSTER_TOPIC_SIMILARITY = 0.2;
+/** Share of the similarity taken from descriptions when both headlines have one */
+export const STORY_CLUSTER_DESCRIPTION_WEIGHT = 0.4;
+/** Headlines further than this from every member of a story never join it */
+export const STORY_CLUSTER_MAX_GAP_MS = 12 * 3600000;
+/** Newer members a headline is compared with; bounds the work per story on a Pi */
+export const STORY_CLUSTER_COMPARE_LIMIT = 5;
+/** Headlines older than this are left unclustered by the server */
+export const STORY_CLUSTER_WINDOW_MS = 48 * 3600000;
@@ -37,13 +37,23 @@ export const TABS: TabConfig[] = [
 		id: 'economy',
 		nameKey: 'tabs.economy',
 		layout: 'columns',
-		panels: ['crypto', 'markets', 'heatmap', 'commodities', 'finance', 'market_radar']
+		panels: [
+			'crypto',
+			'whales',
+			'markets',
+			'heatmap',
+			'commodities',
+			'finance',
+			'market_radar',
+			'contracts',
+			'layoffs'
+		]
 	},
 	{
 		id: 'social',
 		nameKey: 'tabs.social',
 		layout: 'columns',
-		panels: ['correlation', 'narrative', 'polymarket']
+		panels: ['correlation', 'narrative', 'mainchar', 'polymarket']
 	},
 	{
 		id: 'technology',
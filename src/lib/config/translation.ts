@@ -0,0 +1,16 @@
+/**
+ * Headline translation configuration - providers and how much is translated per refresh
+ */
+
+export type TranslationProviderId = 'off' | 'glossary' | 'libretranslate';
+
+export const TRANSLATION_PROVIDERS: TranslationProviderId[] = ['off', 'glossary', 'libretranslate'];
+
+/** Endpoint used when TRANSLATION_BASE_URL is unset: a LibreTranslate instance on the same host */
+export const DEFAULT_LIBRETRANSLATE_URL = 'http://127.0.0.1:5000';
+/** Headlines translated per refresh cycle, alerts first (TRANSLATION_MAX overrides) */
+export const DEFAULT_TRANSLATION_MAX = 50;
+/** Titles sent to the provider in one request */
+export const TRANSLATION_BATCH_SIZE = 10;
+/** Only headlines this recent are translated */
+export const TRANSLATION_WINDOW_MS = 24 * 3600000;
@@ -0,0 +1,56 @@
+/**
+ * Whale transaction configuration - reporting thresholds and known exchange wallets
+ */
+
+/** Minimum USD value reported per token; tokens without an entry use the default */
+export const WHALE_USD_THRESHOLDS: Record<string, number> = {
+	BTC: 5_000_000,
+	ETH: 2_500_000,
+	USDT: 10_000_000,
+	USDC: 10_000_000,
+	DAI: 10_000_000
+};
+
+export const DEFAULT_WHALE_USD_THRESHOLD = 1_000_000;
+
+export function getWhaleThreshold(token: string): number {
+	return WHALE_USD_THRESHOLDS[token.toUpperCase()] ?? DEFAULT_WHALE_USD_THRESHOLD;
+}
+
+/**
+ * Publicly attributed exchange wallets, keyed by lower-cased address
+ */
+export const EXCHANGE_WALLETS: Record<string, string> = {
+	// Bitcoin
+	'34xp4vrocgjym3xr7ycvpfhocnxv4twseo': 'Binance',
+	'3m219kr5venenb47ewrpfwyb5jq2djxrp6': 'Binance',
+	bc1qm34lsc65zpw79lxes69zkqmk6ee3ewf0j77s3h: 'Binance',
+	bc1qgdjqv0av3q56jvd82tkdjpy7gdp9ut8tlqmgrpmv24sq90ecnvqqjwvw97: 'Bitfinex',
+	bc1ql49ydapnjafl5t2cp9zqpjwe6pdgmxy98859v2: 'Robinhood',
+	// Ethereum
+	'0x28c6c06298d514db089934071355e5743bf21d60': 'Binance',
+	'0x21a31ee1afc51d94c2efccaa2092ad1028285549': 'Binance',
+	'0xdfd5293d8e347dfe59e90efd55b2956a1343963d': 'Binance',
+	'0xbe0eb53f46cd790cd13851d5eff43d12404d33e8': 'Binance',
+	'0xf977814e90da44bfa03b6295a0616a897441acec': 'Binance',
+	'0x71660c4005ba85c37ccec55d0c4493e66fe775d3': 'Coinbase',
+	'0x503828976d22510aad0201ac7ec88293211d23da': 'Coinbase',
+	'0xa9d1e08c7793af67e9d92fe308d5697fb81d3e43': 'Coinbase',
+	'0x2910543af39aba0cd09dbb2d50200b3e800a63d2': 'Kraken',
+	'0xda9dfa130df4de4673b89022ee50ff26f6ea73cf': 'Kraken',
+	'0x742d35cc6634c0532925a3b844bc454e4438f44e': 'Bitfinex',
+	'0x6cc5f688a315f3dc28a7781717a9a798a59fda7b': 'OKX'
+};
+
+export function getExchangeLabel(address: string): string | null {
+	return EXCHANGE_WALLETS[address.toLowerCase()] ?? null;
+}
+
+/** Block explorer transaction URL prefixes per chain */
+export const WHALE_EXPLORER_TX_URLS: Record<string, string> = {
+	bitcoin: 'https://mempool.space/tx/',
+	ethereum: 'https://etherscan.io/tx/',
+	tron: 'https://tronscan.org/#/transaction/',
+	solana: 'https://solscan.io/tx/',
+	ripple: 'https://xrpscan.com/tx/'
+};
@@ -5,6 +5,8 @@ export const EN_MESSAGES = {
 	'header.refreshing': 'Refreshing...',
 	'header.backgroundSyncing': 'Background sync...',
 	'header.lastUpdated': 'Last updated: {time}',
+	'header.live': 'Live',
+	'header.liveTitle': 'Receiving updates as the server stores them',
 	'header.neverRefreshed': 'Never refreshed',
 	'header.addData': 'Add Data',
 	'header.addDataTitle': 'Add Map Data',
@@ -12,6 +14,21 @@ export const EN_MESSAGES = {
 	'header.alerts': 'Alerts',
 	'header.language': 'Language',
 	'header.languageToggle': 'Switch language',
+	'replay.start': 'Replay',
+	'replay.startTitle': 'Play the dashboard back from a past moment',
+	'replay.badge': 'REPLAY',
+	'replay.exit': 'Live',
+	'replay.exitTitle': 'Leave replay and return to live data',
+	'replay.play': 'Play',
+	'replay.pause': 'Pause',
+	'replay.slider': 'Replayed moment',
+	'replay.speed': 'Playback speed',
+	'replay.speedOption': '{span}/s',
+	'replay.window': 'News window around the replayed moment',
+	'replay.windowOption': '±{hours}h',
+	'replay.loading': 'Loading…',
+	'replay.error': 'Replay unavailable: {error}',
+	'replay.alertsAt': 'Alerts as of {time}',
 	'tabs.global': 'Global',
 	'tabs.regional': 'Regional',
 	'tabs.economy': 'Economy',
@@ -71,7 +88,7 @@ export const EN_MESSAGES = {
 	'alerts.example': 'Example: {value}',
 	'alerts.recent': 'Recent alerts',
 	'alerts.none': 'No alerts yet',
-	'alerts.clear': 'Clear',
+	'alerts.acknowledgeAll': 'Mark all read',
 	'alerts.title.newsAlert': 'Alert-tagged news',
 	'alerts.title.econSwing': 'Abnormal market swing',
 	'alerts.title.compound': 'New compound signal',
@@ -80,6 +97,8 @@ export const EN_MESSAGES = {
 	'alerts.title.predictive': 'New predictive signal',
 	'alerts.title.narrativeTracker': 'New narrative (tracker)',
 	'alerts.title.narrativeWatch': 'New narrative (watch)',
+	'alerts.title.predictionSwing': 'Prediction market swing',
+	'alerts.title.sentimentShift': 'Coverage turned negative',
 	'common.region': 'Region:',
 	'common.topic': 'Topic:',
 	'common.clearFilters': 'Clear all filters',
@@ -143,17 +162,30 @@ export const EN_MESSAGES = {
 	'monitor.create': 'Create Monitor',
 	'monitor.name': 'Name',
 	'monitor.keywords': 'Query',
-	'monitor.hint': 'Use AND, OR, NOT, parentheses, and quoted phrases. Commas still work as OR.',
+	'monitor.hint':
+		'Use AND, OR, NOT, parentheses, quoted phrases, prefix*, NEAR/5 and source:, category:, region: or topic:. Commas still work as OR.',
 	'monitor.enabled': 'Enabled',
 	'monitor.delete': 'Delete',
 	'monitor.cancel': 'Cancel',
 	'monitor.saveChanges': 'Save Changes',
 	'monitor.createBtn': 'Create Monitor',
 	'monitor.nameRequired': 'Name is required',
-	'monitor.keywordRequired': 'A query is required',
-	'monitor.maxReached': 'Maximum number of monitors reached (20)',
+	'monitor.keywordRequired': 'A query or an area is required',
+	'monitor.maxReached': 'Maximum number of monitors reached (100)',
 	'monitor.placeholderName': 'e.g., Ukraine Crisis',
 	'monitor.placeholderKeywords': 'e.g., ukraine AND (kyiv OR zelensky) NOT sports',
+	'monitor.area': 'Area',
+	'monitor.area.none': 'Anywhere',
+	'monitor.area.radius': 'Radius around a point',
+	'monitor.area.polygon': 'Polygon drawn on the map',
+	'monitor.area.lat': 'Latitude',
+	'monitor.area.lon': 'Longitude',
+	'monitor.area.radiusKm': 'Radius (km)',
+	'monitor.area.polygonPoints': 'Polygon with {count} corners',
+	'monitor.area.hint':
+		'Only geolocated headlines, internet outages and earthquakes inside the area match. With a query, both must match. Draw areas with the ◎ and ⬡ tools on the map.',
+	'monitor.area.invalid':
+		'Enter a latitude (-90 to 90), a longitude (-180 to 180) and a radius up to {max} km',
 	'addData.title': 'Add Map Data',
 	'addData.name': 'Name',
 	'addData.type': 'Type',
@@ -166,7 +198,7 @@ export const EN_MESSAGES = {
 	'addData.nameRequired': 'Name is required',
 	'addData.latError': 'Latitude must be between -90 and 90',
 	'addData.lonError': 'Longitude must be between -180 and 180',
-	'addData.maxReached': 'Maximum number of markers reached (20)',
+	'addData.maxReached': 'Maximum number of markers reached (100)',
 	'addData.placeholderName': 'e.g., Strategic Location',
 	'addData.placeholderLat': '-90 to 90',
 	'addData.placeholderLon': '-180 to 180',
@@ -182,6 +214,12 @@ export const EN_MESSAGES = {
 	'threat.low': 'Low',
 	'news.empty': 'No news available',
 	'news.noMatches': 'No items match filters',
+	'news.clusterSources': '+{count} sources',
+	'news.clusterShow': 'Show {count} related headlines',
+	'news.clusterHide': 'Hide related headlines',
+	'news.original': 'Original ({language})',
+	'news.translated': 'Translation',
+	'news.insideArea': 'Inside imported area: {area}',
 	'newsTitle.politics': 'Politics',
 	'newsTitle.brazil': 'Brazil',
 	'newsTitle.latam': 'Latin America',
@@ -206,6 +244,12 @@ export const EN_MESSAGES = {
 	'monitors.enable': 'Enable',
 	'monitors.edit': 'Edit',
 	'monitors.delete': 'Delete',
+	'monitors.timeline': 'Recorded matches per day (last {days} days)',
+	'monitors.area.radius': '◎ Within {radius} km of {lat}, {lon}',
+	'monitors.area.polygon': '⬡ Inside a drawn area ({count} corners)',
+	'monitors.insideArea': 'inside area',
+	'monitors.event.outage': 'Internet outage',
+	'monitors.event.earthquake': 'Earthquake',
 	'map.title': 'Global Situation',
 	'map.toggleLayers': 'Toggle Layers',
 	'map.layers': 'Layers',
@@ -214,6 +258,12 @@ export const EN_MESSAGES = {
 	'map.zoomIn': 'Zoom in',
 	'map.zoomOut': 'Zoom out',
 	'map.reset': 'Reset',
+	'map.fence.radius': 'Draw a radius monitor',
+	'map.fence.polygon': 'Draw a polygon monitor',
+	'map.fence.radiusHint': 'Click the center, then a point on the edge',
+	'map.fence.polygonHint': 'Click to add corners ({count} so far)',
+	'map.fence.finish': 'Finish',
+	'map.fence.cancel': 'Cancel',
 	'map.layer.hotspots': 'Hotspots',
 	'map.layer.conflictZones': 'Conflict Zones',
 	'map.layer.chokepoints': 'Chokepoints',
@@ -226,6 +276,23 @@ export const EN_MESSAGES = {
 	'map.layer.monitors': 'Monitors',
 	'map.layer.outages': 'Internet Outages',
 	'map.layer.customMarkers': 'Custom Markers',
+	'map.layer.liveEvents': 'Live Events',
+	'map.layer.userLayers': 'Imported Layers',
+	'map.userLayers.title': 'Imported Layers',
+	'map.userLayers.empty': 'No imported layers yet. Import GeoJSON or KML areas and sites.',
+	'map.userLayers.import': 'Import',
+	'map.userLayers.importTitle': 'Import a GeoJSON or KML file as a map layer',
+	'map.userLayers.importing': 'Importing…',
+	'map.userLayers.features': '{count} features',
+	'map.userLayers.export': 'Export GeoJSON',
+	'map.userLayers.exportTitle': 'Download {layer} as GeoJSON',
+	'map.userLayers.delete': 'Delete {layer}',
+	'map.userLayers.error.required': 'Choose a .geojson, .json or .kml file',
+	'map.userLayers.error.invalid-file': 'The file could not be read as GeoJSON or KML',
+	'map.userLayers.error.empty-layer': 'The file has no points, lines or polygons',
+	'map.userLayers.error.too-large': 'The file is too large to import',
+	'map.userLayers.error.limit-reached': 'Imported layer limit reached; delete one first',
+	'map.userLayers.error.not-found': 'That layer no longer exists',
 	'legend.high': 'High',
 	'legend.elevated': 'Elevated',
 	'legend.low': 'Low',
@@ -260,6 +327,13 @@ export const EN_MESSAGES = {
 	'correlation.confidence': 'Confidence: {value}%',
 	'correlation.noPatterns': 'No significant patterns detected',
 	'correlation.noHeadlines': 'No headlines available for this pattern.',
+	'correlation.eventStudy': 'Event Study',
+	'correlation.eventStudyPatterns': 'Compound patterns',
+	'correlation.eventStudyTopics': 'Topics',
+	'correlation.eventStudyEvents': '{count} events',
+	'correlation.eventStudyPending': 'Awaiting price follow-up',
+	'correlation.eventStudyHorizon':
+		'{horizon}: {hits}/{samples} moves in the expected direction, average {move}',
 	'topic.tariffs': 'Tariffs',
 	'topic.fed-rates': 'Fed Rates',
 	'topic.inflation': 'Inflation',
@@ -474,6 +548,14 @@ export const EN_MESSAGES = {
 	'narrative.mentions': '{count} mentions',
 	'narrative.momentumTitle': 'Momentum: {value}',
 	'narrative.sentimentTitle': 'Sentiment: {value}',
+	'sentiment.label.positive': 'Positive',
+	'sentiment.label.neutral': 'Neutral',
+	'sentiment.label.negative': 'Negative',
+	'sentiment.label.mixed': 'Mixed',
+	'sentiment.trendTitle': 'Sentiment trend from {from} to {to}',
+	'sentiment.headlines': '{count} headlines',
+	'sentiment.turningNegative': '{name}: coverage turning negative ({from} → {to})',
+	'sentiment.shiftTitle': '{recent} recent headlines vs {baseline} before',
 	'narrative.fringe': 'Fringe ({count})',
 	'narrative.mainstream': 'Mainstream ({count})',
 	'narrative.crossoverLevel': 'Crossover level: {value}%',
@@ -484,9 +566,22 @@ export const EN_MESSAGES = {
 	'panel.crypto': 'Crypto',
 	'panel.cryptoEmpty': 'No crypto data available',
 	'panel.marketsEmpty': 'No market data available',
+	'market.range1d': '1D',
+	'market.range7d': '7D',
+	'market.sparklineRange': 'Sparkline range',
+	'market.sparklineTitle': '{change} from {from} to {to}',
 	'panel.heatmapEmpty': 'No sector data available',
 	'panel.commoditiesEmpty': 'No commodity data available',
 	'panel.contractsEmpty': 'No contracts available',
+	'panel.contractsSortDate': 'Newest',
+	'panel.contractsSortValue': 'Largest',
+	'panel.contractsSort': 'Sort awards',
+	'panel.contractsAllAgencies': 'All agencies',
+	'panel.contractsAgencyFilter': 'Filter by awarding agency',
+	'panel.contractsLoadMore': 'Load more ({remaining} left)',
+	'panel.contractsNew': 'New',
+	'panel.contractsNewTitle': 'First seen {time} ago',
+	'panel.contractsInNews': 'In the news ({count})',
 	'panel.intelEmpty': 'No intel available',
 	'panel.printerEmpty': 'No Fed data available',
 	'panel.printerLabel': 'Federal Reserve Balance Sheet',
@@ -495,8 +590,17 @@ export const EN_MESSAGES = {
 	'panel.wow': 'WoW',
 	'panel.mainCharLabel': "Today's Main Character",
 	'panel.mainCharEmpty': 'No data yet',
+	'panel.mainCharEmerging': 'Emerging names',
+	'panel.mainCharGrowth': '+{count}',
+	'panel.mainCharSeenWith': 'Often with {names}',
 	'panel.whaleTitle': 'Whale Watch',
 	'panel.whaleEmpty': 'No whale transactions detected',
+	'panel.whaleError': 'Failed to load whale transactions',
+	'panel.whaleInflow': 'Exchange inflow',
+	'panel.whaleOutflow': 'Exchange outflow',
+	'panel.whaleInternal': 'Between exchanges',
+	'panel.whaleUnknownWallet': 'Unknown wallet',
+	'panel.whaleViewTx': 'View transaction in block explorer',
 	'panel.worldLeadersEmpty': 'No leaders data available',
 	'panel.fedNoApi': 'Add VITE_FRED_API_KEY for economic indicators',
 	'panel.fedSpeechVideo': 'Speeches & Video',
@@ -504,6 +608,28 @@ export const EN_MESSAGES = {
 	'panel.fedEmpty': 'No Fed news available',
 	'panel.layoffsEmpty': 'No recent layoffs data',
 	'panel.layoffsJobs': 'jobs',
+	'panel.layoffsError': 'Failed to load layoffs',
+	'panel.layoffsPercent': '{percent}% of staff',
+	'panel.layoffsWindow': 'Sector window',
+	'panel.layoffsDays': '{days}d',
+	'panel.layoffsSectorStats': '{events} events · {workers} workers',
+	'panel.layoffsWarn': 'WARN {state}',
+	'panel.layoffsWarnTitle': 'WARN notice filed in {state}',
+	'panel.layoffsReports': '+{count}',
+	'panel.layoffsReportsTitle': 'Merged from {count} reports',
+	'layoffs.sector.technology': 'Technology',
+	'layoffs.sector.finance': 'Finance',
+	'layoffs.sector.retail': 'Retail',
+	'layoffs.sector.manufacturing': 'Manufacturing',
+	'layoffs.sector.automotive': 'Automotive',
+	'layoffs.sector.healthcare': 'Healthcare',
+	'layoffs.sector.media': 'Media',
+	'layoffs.sector.logistics': 'Logistics',
+	'layoffs.sector.energy': 'Energy',
+	'layoffs.sector.hospitality': 'Hospitality',
+	'layoffs.sector.government': 'Government',
+	'layoffs.sector.services': 'Services',
+	'layoffs.sector.other': 'Other',
 	'panel.polymarketEmpty': 'No predictions available',
 	'panel.vixHighFear': 'HIGH FEAR',
 	'polymarket.topGeopolitical': 'Top Geopolitical Markets',
@@ -521,6 +647,22 @@ export const EN_MESSAGES = {
 	'polymarket.volume': 'Vol',
 	'polymarket.volume24h': '24h',
 	'polymarket.yes': 'YES',
+	'polymarket.delta': '{change} pts in {window}',
+	'polymarket.deltaTitle': 'Yes probability change: {changes}',
+	'polymarket.showHistory': 'Show probability history',
+	'polymarket.hideHistory': 'Hide probability history',
+	'polymarket.historyTitle': 'Yes probability from {from} to {to}',
+	'polymarket.historyChange': '{change} pts in range',
+	'polymarket.historyEmpty': 'Not enough history yet',
+	'polymarket.historyError': 'Failed to load history',
+	'polymarket.relatedMarkets': 'Related prediction markets',
+	'aiBrief.extractive': 'Extractive summary',
+	'aiBrief.topStories': 'Top stories',
+	'aiBrief.regions': 'Regions affected',
+	'aiBrief.signals': 'Related compound signals',
+	'aiBrief.moreSources': '+{count} sources',
+	'aiBrief.headlines': '{count} headlines',
+	'aiBrief.noHeadlines': 'No recent headlines to summarize yet.',
 	'tooltip.correlation.compoundSignals':
 		'Cross-topic correlations where multiple topics activate simultaneously, indicating systemic or cascading risks',
 	'tooltip.correlation.emergingPatterns':
@@ -529,6 +671,8 @@ export const EN_MESSAGES = {
 		'Topics with rising velocity and acceleration in mention frequency, showing real-time traction changes',
 	'tooltip.correlation.crossSourceLinks':
 		'Topics receiving independent coverage from 3+ news sources, indicating broad awareness and credibility',
+	'tooltip.correlation.eventStudy':
+		'How often the linked markets (oil, gold, VIX, indices, crypto) moved in the expected direction 1h, 4h and 24h after a signal fired. Around 50% is noise.',
 	'tooltip.correlation.predictiveSignals':
 		'AI-generated outcome predictions based on weighted scoring of source credibility, multi-source confirmation, and statistical significance',
 	'tooltip.narrative.trending':
@@ -7,6 +7,8 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'header.refreshing': 'Atualizando...',
 	'header.backgroundSyncing': 'Sincronização em segundo plano...',
 	'header.lastUpdated': 'Última atualização: {time}',
+	'header.live': 'Ao vivo',
+	'header.liveTitle': 'Recebendo atualizações assim que o servidor as armazena',
 	'header.neverRefreshed': 'Nunca atualizado',
 	'header.addData': 'Adicionar dados',
 	'header.addDataTitle': 'Adicionar dados ao mapa',
@@ -14,6 +16,21 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'header.alerts': 'Alertas',
 	'header.language': 'Idioma',
 	'header.languageToggle': 'Alternar idioma',
+	'replay.start': 'Replay',
+	'replay.startTitle': 'Reproduzir o painel a partir de um momento passado',
+	'replay.badge': 'REPLAY',
+	'replay.exit': 'Ao vivo',
+	'replay.exitTitle': 'Sair do replay e voltar aos dados ao vivo',
+	'replay.play': 'Reproduzir',
+	'replay.pause': 'Pausar',
+	'replay.slider': 'Momento reproduzido',
+	'replay.speed': 'Velocidade de reprodução',
+	'replay.speedOption': '{span}/s',
+	'replay.window': 'Janela de notícias em torno do momento reproduzido',
+	'replay.windowOption': '±{hours}h',
+	'replay.loading': 'Carregando…',
+	'replay.error': 'Replay indisponível: {error}',
+	'replay.alertsAt': 'Alertas em {time}',
 	'tabs.global': 'Global',
 	'tabs.regional': 'Regional',
 	'tabs.economy': 'Economia',
@@ -74,7 +91,7 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'alerts.example': 'Exemplo: {value}',
 	'alerts.recent': 'Alertas recentes',
 	'alerts.none': 'Nenhum alerta ainda',
-	'alerts.clear': 'Limpar',
+	'alerts.acknowledgeAll': 'Marcar como lidos',
 	'alerts.title.newsAlert': 'Notícia com alerta',
 	'alerts.title.econSwing': 'Oscilação anormal de mercado',
 	'alerts.title.compound': 'Novo sinal composto',
@@ -83,6 +100,8 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'alerts.title.predictive': 'Novo sinal preditivo',
 	'alerts.title.narrativeTracker': 'Nova narrativa (rastreador)',
 	'alerts.title.narrativeWatch': 'Nova narrativa (monitor)',
+	'alerts.title.predictionSwing': 'Oscilação em mercado de previsão',
+	'alerts.title.sentimentShift': 'Cobertura ficou negativa',
 	'common.region': 'Região:',
 	'common.topic': 'Tópico:',
 	'common.clearFilters': 'Limpar filtros',
@@ -147,17 +166,29 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'monitor.name': 'Nome',
 	'monitor.keywords': 'Consulta',
 	'monitor.hint':
-		'Use AND, OR, NOT, parênteses e frases entre aspas. Vírgulas ainda funcionam como OR.',
+		'Use AND, OR, NOT, parênteses, frases entre aspas, prefixo*, NEAR/5 e source:, category:, region: ou topic:. Vírgulas ainda funcionam como OR.',
 	'monitor.enabled': 'Ativado',
 	'monitor.delete': 'Excluir',
 	'monitor.cancel': 'Cancelar',
 	'monitor.saveChanges': 'Salvar alterações',
 	'monitor.createBtn': 'Criar monitor',
 	'monitor.nameRequired': 'Nome é obrigatório',
-	'monitor.keywordRequired': 'Uma consulta é obrigatória',
-	'monitor.maxReached': 'Número máximo de monitores atingido (20)',
+	'monitor.keywordRequired': 'Uma consulta ou uma área é obrigatória',
+	'monitor.maxReached': 'Número máximo de monitores atingido (100)',
 	'monitor.placeholderName': 'ex.: Crise na Ucrânia',
 	'monitor.placeholderKeywords': 'ex.: ucrânia AND (kyiv OR zelensky) NOT esportes',
+	'monitor.area': 'Área',
+	'monitor.area.none': 'Qualquer lugar',
+	'monitor.area.radius': 'Raio em torno de um ponto',
+	'monitor.area.polygon': 'Polígono desenhado no mapa',
+	'monitor.area.lat': 'Latitude',
+	'monitor.area.lon': 'Longitude',
+	'monitor.area.radiusKm': 'Raio (km)',
+	'monitor.area.polygonPoints': 'Polígono com {count} vértices',
+	'monitor.area.hint':
+		'Só manchetes geolocalizadas, quedas de internet e terremotos dentro da área correspondem. Com uma consulta, as duas condições precisam valer. Desenhe áreas com as ferramentas ◎ e ⬡ do mapa.',
+	'monitor.area.invalid':
+		'Informe uma latitude (-90 a 90), uma longitude (-180 a 180) e um raio de até {max} km',
 	'addData.title': 'Adicionar dados ao mapa',
 	'addData.name': 'Nome',
 	'addData.type': 'Tipo',
@@ -170,7 +201,7 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'addData.nameRequired': 'Nome é obrigatório',
 	'addData.latError': 'Latitude deve estar entre -90 e 90',
 	'addData.lonError': 'Longitude deve estar entre -180 e 180',
-	'addData.maxReached': 'Número máximo de marcadores atingido (20)',
+	'addData.maxReached': 'Número máximo de marcadores atingido (100)',
 	'addData.placeholderName': 'ex.: Local estratégico',
 	'addData.placeholderLat': '-90 a 90',
 	'addData.placeholderLon': '-180 a 180',
@@ -186,6 +217,12 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'threat.low': 'Baixo',
 	'news.empty': 'Nenhuma notícia disponível',
 	'news.noMatches': 'Nenhum item corresponde aos filtros',
+	'news.clusterSources': '+{count} fontes',
+	'news.clusterShow': 'Mostrar {count} manchetes relacionadas',
+	'news.clusterHide': 'Ocultar manchetes relacionadas',
+	'news.original': 'Original ({language})',
+	'news.translated': 'Tradução',
+	'news.insideArea': 'Dentro da área importada: {area}',
 	'newsTitle.politics': 'Política',
 	'newsTitle.brazil': 'Brasil',
 	'newsTitle.latam': 'América Latina',
@@ -211,6 +248,12 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'monitors.enable': 'Ativar',
 	'monitors.edit': 'Editar',
 	'monitors.delete': 'Excluir',
+	'monitors.timeline': 'Correspondências registradas por dia (últimos {days} dias)',
+	'monitors.area.radius': '◎ Até {radius} km de {lat}, {lon}',
+	'monitors.area.polygon': '⬡ Dentro de uma área desenhada ({count} vértices)',
+	'monitors.insideArea': 'dentro da área',
+	'monitors.event.outage': 'Queda de internet',
+	'monitors.event.earthquake': 'Terremoto',
 	'map.title': 'Situação global',
 	'map.toggleLayers': 'Alternar camadas',
 	'map.layers': 'Camadas',
@@ -219,6 +262,12 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'map.zoomIn': 'Aumentar zoom',
 	'map.zoomOut': 'Diminuir zoom',
 	'map.reset': 'Redefinir',
+	'map.fence.radius': 'Desenhar um monitor de raio',
+	'map.fence.polygon': 'Desenhar um monitor de polígono',
+	'map.fence.radiusHint': 'Clique no centro e depois em um ponto da borda',
+	'map.fence.polygonHint': 'Clique para adicionar vértices ({count} até agora)',
+	'map.fence.finish': 'Concluir',
+	'map.fence.cancel': 'Cancelar',
 	'map.layer.hotspots': 'Pontos críticos',
 	'map.layer.conflictZones': 'Zonas de conflito',
 	'map.layer.chokepoints': 'Gargalos',
@@ -231,6 +280,23 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'map.layer.monitors': 'Monitores',
 	'map.layer.outages': 'Quedas de internet',
 	'map.layer.customMarkers': 'Marcadores personalizados',
+	'map.layer.liveEvents': 'Eventos ao vivo',
+	'map.layer.userLayers': 'Camadas importadas',
+	'map.userLayers.title': 'Camadas importadas',
+	'map.userLayers.empty': 'Nenhuma camada importada. Importe áreas e locais em GeoJSON ou KML.',
+	'map.userLayers.import': 'Importar',
+	'map.userLayers.importTitle': 'Importar um arquivo GeoJSON ou KML como camada do mapa',
+	'map.userLayers.importing': 'Importando…',
+	'map.userLayers.features': '{count} feições',
+	'map.userLayers.export': 'Exportar GeoJSON',
+	'map.userLayers.exportTitle': 'Baixar {layer} como GeoJSON',
+	'map.userLayers.delete': 'Excluir {layer}',
+	'map.userLayers.error.required': 'Escolha um arquivo .geojson, .json ou .kml',
+	'map.userLayers.error.invalid-file': 'Não foi possível ler o arquivo como GeoJSON ou KML',
+	'map.userLayers.error.empty-layer': 'O arquivo não tem pontos, linhas nem polígonos',
+	'map.userLayers.error.too-large': 'O arquivo é grande demais para importar',
+	'map.userLayers.error.limit-reached': 'Limite de camadas importadas atingido; exclua uma antes',
+	'map.userLayers.error.not-found': 'Essa camada não existe mais',
 	'legend.high': 'Alto',
 	'legend.elevated': 'Elevado',
 	'legend.low': 'Baixo',
@@ -265,6 +331,13 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'correlation.confidence': 'Confiança: {value}%',
 	'correlation.noPatterns': 'Nenhum padrão significativo detectado',
 	'correlation.noHeadlines': 'Nenhuma manchete disponível para este padrão.',
+	'correlation.eventStudy': 'Estudo de Eventos',
+	'correlation.eventStudyPatterns': 'Padrões compostos',
+	'correlation.eventStudyTopics': 'Tópicos',
+	'correlation.eventStudyEvents': '{count} eventos',
+	'correlation.eventStudyPending': 'Aguardando acompanhamento de preços',
+	'correlation.eventStudyHorizon':
+		'{horizon}: {hits}/{samples} movimentos na direção esperada, média {move}',
 	'topic.tariffs': 'Tarifas',
 	'topic.fed-rates': 'Taxas do Fed',
 	'topic.inflation': 'Inflação',
@@ -479,6 +552,14 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'narrative.mentions': '{count} menções',
 	'narrative.momentumTitle': 'Momentum: {value}',
 	'narrative.sentimentTitle': 'Sentimento: {value}',
+	'sentiment.label.positive': 'Positivo',
+	'sentiment.label.neutral': 'Neutro',
+	'sentiment.label.negative': 'Negativo',
+	'sentiment.label.mixed': 'Misto',
+	'sentiment.trendTitle': 'Tendência de sentimento de {from} para {to}',
+	'sentiment.headlines': '{count} manchetes',
+	'sentiment.turningNegative': '{name}: cobertura ficando negativa ({from} → {to})',
+	'sentiment.shiftTitle': '{recent} manchetes recentes vs {baseline} antes',
 	'narrative.fringe': 'Fringe ({count})',
 	'narrative.mainstream': 'Mainstream ({count})',
 	'narrative.crossoverLevel': 'Nível de crossover: {value}%',
@@ -489,9 +570,22 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'panel.crypto': 'Cripto',
 	'panel.cryptoEmpty': 'Nenhum dado de cripto disponível',
 	'panel.marketsEmpty': 'Nenhum dado de mercado disponível',
+	'market.range1d': '1D',
+	'market.range7d': '7D',
+	'market.sparklineRange': 'Período do minigráfico',
+	'market.sparklineTitle': '{change} de {from} a {to}',
 	'panel.heatmapEmpty': 'Nenhum dado de setor disponível',
 	'panel.commoditiesEmpty': 'Nenhum dado de commodities disponível',
 	'panel.contractsEmpty': 'Nenhum contrato disponível',
+	'panel.contractsSortDate': 'Mais recentes',
+	'panel.contractsSortValue': 'Maiores',
+	'panel.contractsSort': 'Ordenar contratos',
+	'panel.contractsAllAgencies': 'Todos os órgãos',
+	'panel.contractsAgencyFilter': 'Filtrar por órgão contratante',
+	'panel.contractsLoadMore': 'Carregar mais ({remaining} restantes)',
+	'panel.contractsNew': 'Novo',
+	'panel.contractsNewTitle': 'Visto pela primeira vez há {time}',
+	'panel.contractsInNews': 'Nas notícias ({count})',
 	'panel.intelEmpty': 'Nenhuma inteligência disponível',
 	'panel.printerEmpty': 'Nenhum dado do Fed disponível',
 	'panel.printerLabel': 'Balanço do Federal Reserve',
@@ -500,8 +594,17 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'panel.wow': 'sem/sem',
 	'panel.mainCharLabel': 'Personagem principal de hoje',
 	'panel.mainCharEmpty': 'Sem dados ainda',
+	'panel.mainCharEmerging': 'Nomes em ascensão',
+	'panel.mainCharGrowth': '+{count}',
+	'panel.mainCharSeenWith': 'Frequentemente com {names}',
 	'panel.whaleTitle': 'Rastreador de baleias',
 	'panel.whaleEmpty': 'Nenhuma transação de baleia detectada',
+	'panel.whaleError': 'Falha ao carregar transações de baleias',
+	'panel.whaleInflow': 'Entrada em exchange',
+	'panel.whaleOutflow': 'Saída de exchange',
+	'panel.whaleInternal': 'Entre exchanges',
+	'panel.whaleUnknownWallet': 'Carteira desconhecida',
+	'panel.whaleViewTx': 'Ver transação no explorador de blocos',
 	'panel.worldLeadersEmpty': 'Nenhum dado de líderes disponível',
 	'panel.fedNoApi': 'Adicione VITE_FRED_API_KEY para indicadores econômicos',
 	'panel.fedSpeechVideo': 'Discursos e vídeo',
@@ -509,6 +612,28 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'panel.fedEmpty': 'Nenhuma notícia do Fed disponível',
 	'panel.layoffsEmpty': 'Sem dados recentes de demissões',
 	'panel.layoffsJobs': 'vagas',
+	'panel.layoffsError': 'Falha ao carregar demissões',
+	'panel.layoffsPercent': '{percent}% do quadro',
+	'panel.layoffsWindow': 'Janela por setor',
+	'panel.layoffsDays': '{days}d',
+	'panel.layoffsSectorStats': '{events} eventos · {workers} trabalhadores',
+	'panel.layoffsWarn': 'WARN {state}',
+	'panel.layoffsWarnTitle': 'Aviso WARN registrado em {state}',
+	'panel.layoffsReports': '+{count}',
+	'panel.layoffsReportsTitle': 'Consolidado de {count} relatos',
+	'layoffs.sector.technology': 'Tecnologia',
+	'layoffs.sector.finance': 'Finanças',
+	'layoffs.sector.retail': 'Varejo',
+	'layoffs.sector.manufacturing': 'Indústria',
+	'layoffs.sector.automotive': 'Automotivo',
+	'layoffs.sector.healthcare': 'Saúde',
+	'layoffs.sector.media': 'Mídia',
+	'layoffs.sector.logistics': 'Logística',
+	'layoffs.sector.energy': 'Energia',
+	'layoffs.sector.hospitality': 'Hotelaria',
+	'layoffs.sector.government': 'Governo',
+	'layoffs.sector.services': 'Serviços',
+	'layoffs.sector.other': 'Outros',
 	'panel.polymarketEmpty': 'Nenhuma previsão disponível',
 	'panel.vixHighFear': 'MEDO ALTO',
 	'polymarket.topGeopolitical': 'Principais mercados geopolíticos',
@@ -526,6 +651,22 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 	'polymarket.volume': 'Vol',
 	'polymarket.volume24h': '24h',
 	'polymarket.yes': 'SIM',
+	'polymarket.delta': '{change} pts em {window}',
+	'polymarket.deltaTitle': 'Variação da probabilidade de sim: {changes}',
+	'polymarket.showHistory': 'Mostrar histórico de probabilidade',
+	'polymarket.hideHistory': 'Ocultar histórico de probabilidade',
+	'polymarket.historyTitle': 'Probabilidade de sim de {from} a {to}',
+	'polymarket.historyChange': '{change} pts no período',
+	'polymarket.historyEmpty': 'Histórico ainda insuficiente',
+	'polymarket.historyError': 'Falha ao carregar histórico',
+	'polymarket.relatedMarkets': 'Mercados de previsão relacionados',
+	'aiBrief.extractive': 'Resumo extrativo',
+	'aiBrief.topStories': 'Principais notícias',
+	'aiBrief.regions': 'Regiões afetadas',
+	'aiBrief.signals': 'Sinais compostos relacionados',
+	'aiBrief.moreSources': '+{count} fontes',
+	'aiBrief.headlines': '{count} manchetes',
+	'aiBrief.noHeadlines': 'Ainda não há manchetes recentes para resumir.',
 	'tooltip.correlation.compoundSignals':
 		'Correlações entre tópicos quando vários temas ativam ao mesmo tempo, indicando riscos sistêmicos ou em cascata',
 	'tooltip.correlation.emergingPatterns':
@@ -534,6 +675,8 @@ export const PT_BR_MESSAGES: Partial<Record<MessageKey, string>> = {
 		'Tópicos com aumento de velocidade e aceleração na frequência de menções, mostrando mudanças de tração em tempo real',
 	'tooltip.correlation.crossSourceLinks':
 		'Tópicos com cobertura independente de 3+ fontes, indicando ampla consciência e credibilidade',
+	'tooltip.correlation.eventStudy':
+		'Com que frequência os mercados vinculados (petróleo, ouro, VIX, índices, cripto) se moveram na direção esperada 1h, 4h e 24h após o disparo de um sinal. Cerca de 50% é ruído.',
 	'tooltip.correlation.predictiveSignals':
 		'Previsões de resultados geradas por IA com base em credibilidade da fonte, confirmação entre fontes e significância estatística',
 	'tooltip.narrative.trending':
@@ -0,0 +1,139 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AI_BRIEF_FAILURE_BACKOFF_MS, AI_BRIEF_MIN_REFRESH_MS } from '$lib/config/ai-brief';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+const NOW = Date.now();
+
+function newsItem(id: string, title: string, source: string, minutesAgo: number): NewsItem {
+	return createNewsItem({ id, title, source, timestamp: NOW - minutesAgo * 60000 });
+}
+
+describe('AI brief settings', () => {
+	it('defaults to the extractive brief and fills in provider defaults', async () => {
+		const { getAIBriefSettings } = await import('./ai-brief');
+		expect(getAIBriefSettings({})).toMatchObject({
+			provider: 'extractive',
+			baseUrl: null,
+			model: null,
+			language: 'en'
+		});
+		expect(
+			getAIBriefSettings({ AI_BRIEF_PROVIDER: 'openai', AI_BRIEF_LANGUAGE: 'pt-BR' })
+		).toMatchObject({
+			provider: 'openai',
+			baseUrl: 'http://127.0.0.1:11434/v1',
+			model: 'llama3.2',
+			apiKey: null,
+			language: 'pt-BR'
+		});
+	});
+
+	it('substitutes the headlines, count and language into the prompt', async () => {
+		const { buildBriefPrompt } = await import('./ai-brief');
+		const prompt = buildBriefPrompt(
+			'{count} headlines in {language}:\n{headlines}',
+			[newsItem('a', 'Ceasefire talks resume', 'Reuters', 5)],
+			'pt-BR'
+		);
+		expect(prompt).toBe('1 headlines in Brazilian Portuguese:\n- [Reuters] Ceasefire talks resume');
+	});
+});
+
+describe('AI brief generation', () => {
+	useTestDb();
+
+	beforeAll(async () => {
+		const { upsertNewsItems } = await import('./db');
+		upsertNewsItems([
+			newsItem('n1', 'Ceasefire talks resume in Doha', 'Reuters', 10),
+			newsItem('n2', 'Oil jumps as shipping routes close', 'ZeroHedge', 5),
+			newsItem('n3', 'Central bank holds rates', 'BBC News', 30),
+			newsItem('old', 'Last week in review', 'Reuters', 3 * 24 * 60)
+		]);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('asks an OpenAI-compatible endpoint once per headline set and caches the brief', async () => {
+		const { getAIBrief, getAIBriefSettings } = await import('./ai-brief');
+		const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>(async () =>
+			Response.json({ choices: [{ message: { content: ' Talks resume.\nOil rises. ' } }] })
+		);
+		vi.stubGlobal('fetch', fetchMock);
+		const settings = getAIBriefSettings({
+			AI_BRIEF_PROVIDER: 'openai',
+			AI_BRIEF_BASE_URL: 'http://llm.local/v1/',
+			AI_BRIEF_MODEL: 'qwen2.5',
+			AI_BRIEF_API_KEY: 'secret'
+		});
+
+		const brief = await getAIBrief({ now: NOW }, settings);
+		expect(brief).toMatchObject({
+			text: 'Talks resume.\nOil rises.',
+			provider: 'openai',
+			model: 'qwen2.5',
+			headlineIds: ['n2', 'n1', 'n3'],
+			cached: false
+		});
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('http://llm.local/v1/chat/completions');
+		expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+		const body = JSON.parse(init.body as string);
+		expect(body.model).toBe('qwen2.5');
+		expect(body.messages[0].content).toContain('- [Reuters] Ceasefire talks resume in Doha');
+
+		expect(await getAIBrief({ now: NOW }, settings)).toMatchObject({
+			text: 'Talks resume.\nOil rises.',
+			cached: true
+		});
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		// Forced refreshes of a fresh brief are served from the cache
+		await getAIBrief({ now: NOW, refresh: true }, settings);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		await getAIBrief({ now: NOW + AI_BRIEF_MIN_REFRESH_MS, refresh: true }, settings);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('falls back to the extractive brief when the LLM fails and backs off before retrying', async () => {
+		const { getAIBrief, getAIBriefSettings } = await import('./ai-brief');
+		const fetchMock = vi.fn(async () => new Response('overloaded', { status: 529 }));
+		vi.stubGlobal('fetch', fetchMock);
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const settings = getAIBriefSettings({ AI_BRIEF_PROVIDER: 'anthropic', AI_BRIEF_API_KEY: 'k' });
+
+		const brief = await getAIBrief({ now: NOW, language: 'en' }, settings);
+		expect(brief.provider).toBe('extractive');
+		expect(brief.model).toBeNull();
+		expect(brief.summary?.stories.map((story) => story.source)).toEqual([
+			'Reuters',
+			'BBC News',
+			'ZeroHedge'
+		]);
+		expect(brief.text.split('\n').slice(0, 4)).toEqual([
+			'Top stories',
+			'- Ceasefire talks resume in Doha (Reuters)',
+			'- Central bank holds rates (BBC News)',
+			'- Oil jumps as shipping routes close (ZeroHedge)'
+		]);
+		expect(fetchMock.mock.calls[0]).toEqual([
+			'https://api.anthropic.com/v1/messages',
+			expect.objectContaining({
+				headers: expect.objectContaining({ 'x-api-key': 'k', 'anthropic-version': '2023-06-01' })
+			})
+		]);
+
+		expect(await getAIBrief({ now: NOW, language: 'en' }, settings)).toMatchObject({
+			provider: 'extractive',
+			cached: true
+		});
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		await getAIBrief({ now: NOW + AI_BRIEF_FAILURE_BACKOFF_MS, language: 'en' }, settings);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+});
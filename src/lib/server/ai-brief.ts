@@ -0,0 +1,263 @@
+/**
+ * AI brief: picks recent headlines from SQLite, writes the brief with the configured provider
+ * and caches it keyed by the headline set, so unchanged news never reaches the model twice
+ */
+
+import { createHash } from 'node:crypto';
+import { env as privateEnv } from '$env/dynamic/private';
+import {
+	AI_BRIEF_EXTRACTIVE_MAX_HEADLINES,
+	AI_BRIEF_FAILURE_BACKOFF_MS,
+	AI_BRIEF_HEADLINE_LIMIT,
+	AI_BRIEF_LANGUAGE_NAMES,
+	AI_BRIEF_MIN_REFRESH_MS,
+	AI_BRIEF_PROVIDERS,
+	DEFAULT_AI_BRIEF_BASE_URLS,
+	DEFAULT_AI_BRIEF_MODELS,
+	DEFAULT_AI_BRIEF_PROMPT,
+	DEFAULT_AI_BRIEF_WINDOW_HOURS
+} from '$lib/config/ai-brief';
+import type { Locale } from '$lib/i18n/types';
+import { NEWS_CATEGORIES } from '$lib/shared/news-parser';
+import type { AIBrief, AIBriefProviderId, NewsItem } from '$lib/types';
+import {
+	createAnthropicProvider,
+	createOpenAIProvider,
+	extractiveProvider,
+	type AIBriefContent,
+	type AIBriefProvider
+} from './ai-providers';
+import { getCachedAIBrief, getNewsByCategoryBatch, insertAIBrief } from './db';
+
+export const AI_BRIEF_RETENTION_DAYS = 7;
+const DEFAULT_MAX_TOKENS = 800;
+
+export interface AIBriefSettings {
+	provider: AIBriefProviderId;
+	baseUrl: string | null;
+	model: string | null;
+	apiKey: string | null;
+	maxTokens: number;
+	promptTemplate: string;
+	language: Locale;
+	/** Headlines of the last this many hours are summarized */
+	windowHours: number;
+}
+
+export function isAIBriefLanguage(value: string): value is Locale {
+	return value === 'en' || value === 'pt-BR';
+}
+
+/**
+ * Brief settings from the environment. AI_BRIEF_PROVIDER picks openai (any OpenAI-compatible
+ * endpoint), anthropic or extractive (the default, which needs no model at all).
+ */
+export function getAIBriefSettings(
+	env: Record<string, string | undefined> = privateEnv
+): AIBriefSettings {
+	let provider: AIBriefProviderId = 'extractive';
+	const requested = env.AI_BRIEF_PROVIDER?.trim();
+	if (requested && AI_BRIEF_PROVIDERS.includes(requested as AIBriefProviderId)) {
+		provider = requested as AIBriefProviderId;
+	} else if (requested) {
+		console.warn(`[AI Brief] Unknown provider "${requested}", using the extractive brief`);
+	}
+
+	const language = env.AI_BRIEF_LANGUAGE?.trim() ?? '';
+	const maxTokens = Number(env.AI_BRIEF_MAX_TOKENS);
+	const windowHours = Number(env.AI_BRIEF_WINDOW_HOURS);
+	return {
+		provider,
+		baseUrl:
+			provider === 'extractive'
+				? null
+				: env.AI_BRIEF_BASE_URL || DEFAULT_AI_BRIEF_BASE_URLS[provider],
+		model:
+			provider === 'extractive' ? null : env.AI_BRIEF_MODEL || DEFAULT_AI_BRIEF_MODELS[provider],
+		apiKey: env.AI_BRIEF_API_KEY || null,
+		maxTokens: Number.isInteger(maxTokens) && maxTokens > 0 ? maxTokens : DEFAULT_MAX_TOKENS,
+		promptTemplate: env.AI_BRIEF_PROMPT?.replace(/\\n/g, '\n') || DEFAULT_AI_BRIEF_PROMPT,
+		language: isAIBriefLanguage(language) ? language : 'en',
+		windowHours: windowHours > 0 ? windowHours : DEFAULT_AI_BRIEF_WINDOW_HOURS
+	};
+}
+
+export function createAIBriefProvider(settings: AIBriefSettings): AIBriefProvider {
+	if (settings.provider === 'extractive' || !settings.baseUrl || !settings.model) {
+		return extractiveProvider;
+	}
+	const llmSettings = {
+		baseUrl: settings.baseUrl,
+		model: settings.model,
+		apiKey: settings.apiKey,
+		maxTokens: settings.maxTokens
+	};
+	return settings.provider === 'anthropic'
+		? createAnthropicProvider(llmSettings)
+		: createOpenAIProvider(llmSettings);
+}
+
+/**
+ * Headlines of the last `windowHours` across every category, newest first
+ */
+export function selectBriefHeadlines(
+	news: NewsItem[],
+	windowHours: number,
+	now = Date.now()
+): NewsItem[] {
+	return news
+		.filter((item) => item.timestamp >= now - windowHours * 3600000 && item.title)
+		.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * LLMs get the newest distinct titles; the extractive brief clusters near-duplicates itself
+ */
+function getProviderHeadlines(provider: AIBriefProvider, headlines: NewsItem[]): NewsItem[] {
+	if (provider.id === 'extractive') return headlines.slice(0, AI_BRIEF_EXTRACTIVE_MAX_HEADLINES);
+	const seen = new Set<string>();
+	return headlines
+		.filter((item) => {
+			const key = item.title.toLowerCase().trim();
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		})
+		.slice(0, AI_BRIEF_HEADLINE_LIMIT);
+}
+
+export function buildBriefPrompt(
+	template: string,
+	headlines: NewsItem[],
+	language: Locale
+): string {
+	const values: Record<string, string> = {
+		language: AI_BRIEF_LANGUAGE_NAMES[language] ?? language,
+		count: String(headlines.length),
+		headlines: headlines.map((item) => `- [${item.source}] ${item.title}`).join('\n')
+	};
+	return template.replace(/\{(language|count|headlines)\}/g, (_, name: string) => values[name]);
+}
+
+/**
+ * Cache key: the same headlines, provider, model, language and prompt give the same brief
+ */
+function getBriefCacheKey(
+	provider: AIBriefProvider,
+	language: Locale,
+	template: string,
+	headlineIds: string[]
+): string {
+	return createHash('sha256')
+		.update(
+			JSON.stringify([
+				provider.id,
+				provider.model,
+				language,
+				provider.id === 'extractive' ? null : template,
+				[...headlineIds].sort()
+			])
+		)
+		.digest('hex');
+}
+
+const briefsInFlight = new Map<string, Promise<AIBrief>>();
+/** Last failure time per provider and model */
+const providerFailures = new Map<string, number>();
+
+function getProviderKey(provider: AIBriefProvider): string {
+	return `${provider.id}:${provider.model}`;
+}
+
+/**
+ * Brief for the current headlines, from the cache unless `refresh` is set and the cached brief
+ * is at least AI_BRIEF_MIN_REFRESH_MS old. When the configured LLM fails the extractive brief
+ * is returned, and the LLM is not asked again for AI_BRIEF_FAILURE_BACKOFF_MS.
+ */
+export function getAIBrief(
+	options: { language?: Locale; refresh?: boolean; now?: number } = {},
+	settings = getAIBriefSettings()
+): Promise<AIBrief> {
+	const now = options.now ?? Date.now();
+	const language = options.language ?? settings.language;
+	const recent = selectBriefHeadlines(
+		Object.values(getNewsByCategoryBatch(NEWS_CATEGORIES)).flat(),
+		settings.windowHours,
+		now
+	);
+	let provider = recent.length > 0 ? createAIBriefProvider(settings) : extractiveProvider;
+	const failedAt = providerFailures.get(getProviderKey(provider));
+	if (failedAt !== undefined && now - failedAt < AI_BRIEF_FAILURE_BACKOFF_MS) {
+		provider = extractiveProvider;
+	}
+	const headlines = getProviderHeadlines(provider, recent);
+	const cacheKey = getBriefCacheKey(
+		provider,
+		language,
+		settings.promptTemplate,
+		headlines.map((item) => item.id)
+	);
+
+	const cached = getCachedAIBrief(cacheKey);
+	if (cached && (!options.refresh || now - cached.generatedAt < AI_BRIEF_MIN_REFRESH_MS)) {
+		return Promise.resolve(cached);
+	}
+
+	let pending = briefsInFlight.get(cacheKey);
+	if (!pending) {
+		pending = generateBrief(provider, cacheKey, {
+			recent,
+			language,
+			template: settings.promptTemplate,
+			now
+		}).finally(() => briefsInFlight.delete(cacheKey));
+		briefsInFlight.set(cacheKey, pending);
+	}
+	return pending;
+}
+
+async function generateBrief(
+	provider: AIBriefProvider,
+	cacheKey: string,
+	context: { recent: NewsItem[]; language: Locale; template: string; now: number }
+): Promise<AIBrief> {
+	const { recent, language, template, now } = context;
+	let headlines = getProviderHeadlines(provider, recent);
+
+	let content: AIBriefContent;
+	try {
+		content = await provider.generate({
+			headlines,
+			language,
+			prompt: buildBriefPrompt(template, headlines, language),
+			now
+		});
+	} catch (error) {
+		if (provider.id === 'extractive') throw error;
+		const message = error instanceof Error ? error.message : String(error);
+		console.warn(`[AI Brief] ${provider.id} provider failed, using the extractive brief:`, message);
+		providerFailures.set(getProviderKey(provider), now);
+		provider = extractiveProvider;
+		headlines = getProviderHeadlines(provider, recent);
+		cacheKey = getBriefCacheKey(
+			provider,
+			language,
+			template,
+			headlines.map((item) => item.id)
+		);
+		content = await provider.generate({ headlines, language, prompt: '', now });
+	}
+
+	const brief: AIBrief = {
+		...content,
+		generatedAt: now,
+		headlineCount: headlines.length,
+		headlineIds: headlines.map((item) => item.id),
+		provider: provider.id,
+		model: provider.model,
+		language,
+		cached: false
+	};
+	insertAIBrief(cacheKey, brief);
+	return brief;
+}
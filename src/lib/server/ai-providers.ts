@@ -0,0 +1,136 @@
+/**
+ * AI brief backends: any OpenAI-compatible chat completions endpoint (OpenAI, llama.cpp, Ollama,
+ * vLLM...), an Anthropic-style messages API, and the offline extractive brief
+ */
+
+import type { Locale } from '$lib/i18n/types';
+import type { AIBriefProviderId, ExtractiveSummary, NewsItem } from '$lib/types';
+import { buildExtractiveSummary, formatExtractiveSummary } from './extractive-brief';
+
+export interface AIBriefRequest {
+	headlines: NewsItem[];
+	language: Locale;
+	/** Prompt with the headlines already substituted */
+	prompt: string;
+	now: number;
+}
+
+export interface AIBriefContent {
+	text: string;
+	summary?: ExtractiveSummary;
+}
+
+export interface AIBriefProvider {
+	id: AIBriefProviderId;
+	/** Model name; null for providers that are not LLMs */
+	model: string | null;
+	generate(request: AIBriefRequest): Promise<AIBriefContent>;
+}
+
+export interface LLMProviderSettings {
+	baseUrl: string;
+	model: string;
+	apiKey: string | null;
+	maxTokens: number;
+}
+
+/** Local models on a Pi can take minutes for a full brief */
+const HTTP_TIMEOUT_MS = 180000;
+
+async function postJson<T>(
+	url: string,
+	body: unknown,
+	headers: Record<string, string>
+): Promise<T> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+	try {
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...headers },
+			body: JSON.stringify(body),
+			signal: controller.signal
+		});
+		if (!response.ok) throw new Error(`HTTP ${response.status}`);
+		return (await response.json()) as T;
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+function requireText(text: string | undefined, provider: string): AIBriefContent {
+	const trimmed = text?.trim();
+	if (!trimmed) throw new Error(`${provider} returned an empty brief`);
+	return { text: trimmed };
+}
+
+// --- OpenAI-compatible ---
+
+interface ChatCompletionResponse {
+	choices?: Array<{ message?: { content?: string } }>;
+}
+
+export function createOpenAIProvider(settings: LLMProviderSettings): AIBriefProvider {
+	return {
+		id: 'openai',
+		model: settings.model,
+		async generate({ prompt }) {
+			const response = await postJson<ChatCompletionResponse>(
+				`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+				{
+					model: settings.model,
+					messages: [{ role: 'user', content: prompt }],
+					max_tokens: settings.maxTokens,
+					temperature: 0.3
+				},
+				settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}
+			);
+			return requireText(response.choices?.[0]?.message?.content, 'OpenAI-compatible API');
+		}
+	};
+}
+
+// --- Anthropic-style ---
+
+interface MessagesResponse {
+	content?: Array<{ type: string; text?: string }>;
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export function createAnthropicProvider(settings: LLMProviderSettings): AIBriefProvider {
+	return {
+		id: 'anthropic',
+		model: settings.model,
+		async generate({ prompt }) {
+			const response = await postJson<MessagesResponse>(
+				`${settings.baseUrl.replace(/\/+$/, '')}/v1/messages`,
+				{
+					model: settings.model,
+					max_tokens: settings.maxTokens,
+					messages: [{ role: 'user', content: prompt }]
+				},
+				{
+					'anthropic-version': ANTHROPIC_VERSION,
+					...(settings.apiKey ? { 'x-api-key': settings.apiKey } : {})
+				}
+			);
+			const text = response.content
+				?.filter((block) => block.type === 'text')
+				.map((block) => block.text ?? '')
+				.join('');
+			return requireText(text, 'Anthropic API');
+		}
+	};
+}
+
+// --- Extractive ---
+
+export const extractiveProvider: AIBriefProvider = {
+	id: 'extractive',
+	model: null,
+	async generate({ headlines, language, now }) {
+		const summary = buildExtractiveSummary(headlines, language, now);
+		return { text: formatExtractiveSummary(summary, language), summary };
+	}
+};
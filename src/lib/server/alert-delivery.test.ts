@@ -0,0 +1,206 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { AlertNotification } from './alert-transports';
+import { useTestDb } from './test-db';
+
+interface StubRequest {
+	path: string;
+	headers: IncomingHttpHeaders;
+	body: string;
+}
+
+function createNotification(overrides: Partial<AlertNotification> = {}): AlertNotification {
+	return {
+		id: 'compound-1',
+		type: 'compound',
+		severity: 'danger',
+		title: 'New compound signal',
+		detail: 'Gulf shipping disruption',
+		count: 2,
+		timestamp: Date.UTC(2026, 0, 1),
+		url: 'https://example.com/story',
+		...overrides
+	};
+}
+
+describe('alert delivery', () => {
+	let server: Server;
+	let baseUrl: string;
+	const requests: StubRequest[] = [];
+	// Paths listed here answer with the next status code in their queue (default 200)
+	const statusQueue: Record<string, number[]> = {};
+
+	useTestDb();
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let body = '';
+			req.on('data', (chunk) => (body += chunk));
+			req.on('end', () => {
+				requests.push({ path: req.url ?? '', headers: req.headers, body });
+				res.statusCode = statusQueue[req.url ?? '']?.shift() ?? 200;
+				res.end(res.statusCode === 200 ? 'ok' : 'nope');
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	it('validates channel definitions and never returns tokens', async () => {
+		const { addAlertChannel, getAlertChannels, removeAlertChannel, updateAlertChannel } =
+			await import('./alert-delivery');
+
+		expect(addAlertChannel({ name: 'x', type: 'webhook', target: 'ftp://nope' })).toEqual({
+			ok: false,
+			error: 'invalid-target'
+		});
+		expect(addAlertChannel({ name: 'x', type: 'email', target: 'not-an-address' })).toEqual({
+			ok: false,
+			error: 'invalid-target'
+		});
+		expect(
+			addAlertChannel({
+				name: 'x',
+				type: 'slack',
+				target: `${baseUrl}/slack`,
+				severities: ['critical' as never]
+			})
+		).toEqual({ ok: false, error: 'invalid-filter' });
+
+		const created = addAlertChannel({
+			name: 'Temp',
+			type: 'gotify',
+			target: baseUrl,
+			token: 'app-token'
+		});
+		if (!created.ok) throw new Error(created.error);
+		expect(created.record.hasToken).toBe(true);
+		expect(JSON.stringify(getAlertChannels())).not.toContain('app-token');
+
+		const renamed = updateAlertChannel(created.record.id, { name: 'Renamed' });
+		expect(renamed.ok && renamed.record.hasToken).toBe(true);
+		const cleared = updateAlertChannel(created.record.id, { token: '' });
+		expect(cleared.ok && cleared.record.hasToken).toBe(false);
+
+		expect(removeAlertChannel(created.record.id)).toEqual({ ok: true });
+		expect(removeAlertChannel(created.record.id)).toEqual({ ok: false, error: 'not-found' });
+	});
+
+	it('filters by severity and type, retries with backoff and logs every delivery', async () => {
+		const { addAlertChannel, deliverAlerts, getAlertDeliveryLog } =
+			await import('./alert-delivery');
+
+		addAlertChannel({ name: 'Hook', type: 'webhook', target: `${baseUrl}/hook`, token: 'secret' });
+		addAlertChannel({
+			name: 'Slack',
+			type: 'slack',
+			target: `${baseUrl}/slack`,
+			severities: ['danger']
+		});
+		addAlertChannel({
+			name: 'Discord',
+			type: 'discord',
+			target: `${baseUrl}/discord`,
+			alertTypes: ['econSwing']
+		});
+		addAlertChannel({ name: 'Phone', type: 'ntfy', target: `${baseUrl}/ntfy-topic` });
+		addAlertChannel({ name: 'Broken', type: 'webhook', target: `${baseUrl}/gone` });
+		addAlertChannel({ name: 'Mail', type: 'email', target: 'ops@example.com' });
+		addAlertChannel({ name: 'Off', type: 'webhook', target: `${baseUrl}/off`, enabled: false });
+
+		statusQueue['/hook'] = [503];
+		statusQueue['/gone'] = [404, 404];
+
+		const summary = await deliverAlerts(
+			[
+				createNotification(),
+				createNotification({ id: 'watch-1', type: 'narrativeWatch', severity: 'info' })
+			],
+			{ smtp: null, retryBaseDelayMs: 1 }
+		);
+
+		// Hook 2, Slack 1, Phone 2 sent; Broken 2 and Mail 2 failed; Discord filtered out
+		expect(summary).toEqual({ sent: 5, failed: 4 });
+		expect(requests.filter((request) => request.path === '/discord')).toHaveLength(0);
+		expect(requests.filter((request) => request.path === '/off')).toHaveLength(0);
+
+		const hook = requests.filter((request) => request.path === '/hook');
+		expect(hook).toHaveLength(3);
+		expect(hook[0].headers.authorization).toBe('Bearer secret');
+		expect(JSON.parse(hook[1].body)).toMatchObject({
+			event: 'alert',
+			alert: { id: 'compound-1', type: 'compound', severity: 'danger', count: 2 }
+		});
+
+		const slack = requests.filter((request) => request.path === '/slack');
+		expect(slack).toHaveLength(1);
+		expect(JSON.parse(slack[0].body).text).toBe(
+			'*New compound signal (2)*\nGulf shipping disruption\nhttps://example.com/story'
+		);
+
+		const ntfy = requests.find((request) => request.path === '/ntfy-topic');
+		expect(ntfy?.headers.title).toBe('New compound signal (2)');
+		expect(ntfy?.headers.priority).toBe('urgent');
+		expect(ntfy?.headers.click).toBe('https://example.com/story');
+
+		const log = getAlertDeliveryLog();
+		expect(log).toHaveLength(9);
+		const hookDelivery = log.find(
+			(entry) => entry.alertId === 'compound-1' && entry.attempts === 2
+		);
+		expect(hookDelivery?.status).toBe('sent');
+		// 4xx is permanent, so no retry
+		expect(log.filter((entry) => entry.error?.startsWith('HTTP 404'))).toHaveLength(2);
+		expect(
+			log.filter((entry) => entry.error?.startsWith('HTTP 404')).map((e) => e.attempts)
+		).toEqual([1, 1]);
+		expect(log.filter((entry) => entry.error === 'SMTP is not configured')).toHaveLength(2);
+	});
+
+	it('delivers to channels in parallel so a retrying channel holds up no other', async () => {
+		const { addAlertChannel, deliverAlerts } = await import('./alert-delivery');
+
+		addAlertChannel({ name: 'Dead hook', type: 'webhook', target: `${baseUrl}/dead` });
+		addAlertChannel({ name: 'Live hook', type: 'webhook', target: `${baseUrl}/live` });
+		statusQueue['/dead'] = [503, 503];
+		requests.length = 0;
+
+		await deliverAlerts([createNotification({ id: 'swing-1', type: 'econSwing' })], {
+			smtp: null,
+			retryBaseDelayMs: 50
+		});
+
+		const paths = requests.map((request) => request.path);
+		// The dead hook is listed first, yet the live one is reached before its first retry
+		expect(paths.filter((path) => path === '/dead')).toHaveLength(3);
+		expect(paths.indexOf('/live')).toBeLessThan(paths.indexOf('/dead', paths.indexOf('/dead') + 1));
+	});
+
+	it('builds Discord and Gotify payloads', async () => {
+		const { buildHttpRequest } = await import('./alert-transports');
+
+		const discord = buildHttpRequest(
+			{ type: 'discord', target: `${baseUrl}/discord`, token: null },
+			createNotification({ severity: 'warning' })
+		);
+		expect(JSON.parse(discord.init.body as string).embeds[0]).toMatchObject({
+			title: 'New compound signal (2)',
+			description: 'Gulf shipping disruption',
+			color: 0xf59e0b,
+			timestamp: '2026-01-01T00:00:00.000Z'
+		});
+
+		const gotify = buildHttpRequest(
+			{ type: 'gotify', target: `${baseUrl}/`, token: 'app-token' },
+			createNotification()
+		);
+		expect(gotify.url).toBe(`${baseUrl}/message`);
+		expect((gotify.init.headers as Record<string, string>)['X-Gotify-Key']).toBe('app-token');
+		expect(JSON.parse(gotify.init.body as string)).toMatchObject({ priority: 8 });
+	});
+});
@@ -0,0 +1,331 @@
+/**
+ * Outbound alert channels: configuration, filtering, retry and the delivery log
+ */
+
+import { env } from '$env/dynamic/private';
+import type { AlertSeverity, AlertType } from '$lib/alerts/engine';
+import type {
+	AlertChannel,
+	AlertChannelMutationError,
+	AlertChannelType,
+	AlertDelivery
+} from '$lib/types';
+import {
+	AlertDeliveryError,
+	sendAlertNotification,
+	type AlertNotification
+} from './alert-transports';
+import {
+	deleteAlertChannelRow,
+	getAlertChannelRow,
+	getAlertChannelRows,
+	getAlertDeliveries,
+	insertAlertDelivery,
+	upsertAlertChannelRow,
+	type AlertChannelRow
+} from './db';
+import type { SmtpConfig } from './smtp';
+
+type AlertChannelMutationResult =
+	| { ok: true; record: AlertChannel }
+	| { ok: false; error: AlertChannelMutationError };
+
+export interface AlertChannelInput {
+	name?: string;
+	type?: AlertChannelType;
+	target?: string;
+	/** Omit to keep the stored token, empty string to clear it */
+	token?: string | null;
+	severities?: AlertSeverity[];
+	alertTypes?: AlertType[];
+	enabled?: boolean;
+}
+
+export interface AlertDeliveryOptions {
+	/** Defaults to the SMTP_* environment variables */
+	smtp?: SmtpConfig | null;
+	maxAttempts?: number;
+	/** First retry delay; doubles on every further attempt */
+	retryBaseDelayMs?: number;
+}
+
+const CHANNEL_TYPES = new Set<AlertChannelType>([
+	'webhook',
+	'slack',
+	'discord',
+	'email',
+	'ntfy',
+	'gotify'
+]);
+const SEVERITIES = new Set<AlertSeverity>(['danger', 'warning', 'info']);
+const ALERT_TYPES = new Set<AlertType>([
+	'newsAlert',
+	'econSwing',
+	'compound',
+	'emerging',
+	'momentum',
+	'predictive',
+	'narrativeTracker',
+	'narrativeWatch',
+	'predictionSwing',
+	'sentimentShift'
+]);
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 2000;
+const MAX_DELIVERY_LOG_LIMIT = 500;
+
+function generateId(): string {
+	return `ch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function isValidHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'http:' || url.protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+function isValidRecipientList(value: string): boolean {
+	const addresses = value
+		.split(/[,;]/)
+		.map((address) => address.trim())
+		.filter(Boolean);
+	return (
+		addresses.length > 0 &&
+		addresses.every((address) => /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(address))
+	);
+}
+
+function rowToChannel(row: AlertChannelRow): AlertChannel {
+	return {
+		id: row.id,
+		name: row.name,
+		type: row.type as AlertChannelType,
+		target: row.target,
+		hasToken: !!row.token,
+		severities: row.severities as AlertSeverity[],
+		alertTypes: row.alertTypes as AlertType[],
+		enabled: row.enabled,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt
+	};
+}
+
+function saveChannel(
+	id: string,
+	input: AlertChannelInput,
+	current: AlertChannelRow | null
+): AlertChannelMutationResult {
+	const name = (input.name ?? current?.name ?? '').trim();
+	const type = input.type ?? (current?.type as AlertChannelType | undefined);
+	const target = (input.target ?? current?.target ?? '').trim();
+	const severities = input.severities ?? (current?.severities as AlertSeverity[]) ?? [];
+	const alertTypes = input.alertTypes ?? (current?.alertTypes as AlertType[]) ?? [];
+	const token = input.token === undefined ? (current?.token ?? null) : input.token?.trim() || null;
+
+	if (!name || !type || !target) return { ok: false, error: 'required' };
+	if (!CHANNEL_TYPES.has(type)) return { ok: false, error: 'invalid-type' };
+	if (type === 'email' ? !isValidRecipientList(target) : !isValidHttpUrl(target)) {
+		return { ok: false, error: 'invalid-target' };
+	}
+	if (
+		!Array.isArray(severities) ||
+		!Array.isArray(alertTypes) ||
+		severities.some((severity) => !SEVERITIES.has(severity)) ||
+		alertTypes.some((alertType) => !ALERT_TYPES.has(alertType))
+	) {
+		return { ok: false, error: 'invalid-filter' };
+	}
+
+	upsertAlertChannelRow({
+		id,
+		name,
+		type,
+		target,
+		token,
+		severities: [...new Set(severities)],
+		alertTypes: [...new Set(alertTypes)],
+		enabled: input.enabled ?? current?.enabled ?? true
+	});
+	return { ok: true, record: rowToChannel(getAlertChannelRow(id)!) };
+}
+
+export function getAlertChannels(): AlertChannel[] {
+	return getAlertChannelRows().map(rowToChannel);
+}
+
+export function addAlertChannel(input: AlertChannelInput): AlertChannelMutationResult {
+	return saveChannel(generateId(), input, null);
+}
+
+export function updateAlertChannel(
+	id: string,
+	input: AlertChannelInput
+): AlertChannelMutationResult {
+	const current = getAlertChannelRow(id);
+	if (!current) return { ok: false, error: 'not-found' };
+	return saveChannel(id, input, current);
+}
+
+export function removeAlertChannel(
+	id: string
+): { ok: true } | { ok: false; error: AlertChannelMutationError } {
+	return deleteAlertChannelRow(id) ? { ok: true } : { ok: false, error: 'not-found' };
+}
+
+export function getAlertDeliveryLog(limit = 100, channelId?: string): AlertDelivery[] {
+	const capped = Math.min(Math.max(limit, 1), MAX_DELIVERY_LOG_LIMIT);
+	return getAlertDeliveries(capped, channelId).map((row) => ({
+		...row,
+		error: row.error ?? undefined
+	}));
+}
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS and SMTP_FROM.
+ * Null when SMTP_HOST is not set.
+ */
+export function getSmtpConfigFromEnv(): SmtpConfig | null {
+	if (!env.SMTP_HOST) return null;
+	const secure = env.SMTP_SECURE === 'true';
+	const port = Number.parseInt(env.SMTP_PORT ?? '', 10);
+	return {
+		host: env.SMTP_HOST,
+		port: Number.isFinite(port) ? port : secure ? 465 : 587,
+		secure,
+		user: env.SMTP_USER || undefined,
+		pass: env.SMTP_PASS || undefined,
+		from: env.SMTP_FROM || `situation-monitor@${env.SMTP_HOST}`
+	};
+}
+
+function channelAccepts(channel: AlertChannelRow, notification: AlertNotification): boolean {
+	return (
+		(channel.severities.length === 0 || channel.severities.includes(notification.severity)) &&
+		(channel.alertTypes.length === 0 || channel.alertTypes.includes(notification.type))
+	);
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function deliverWithRetry(
+	channel: AlertChannelRow,
+	notification: AlertNotification,
+	smtp: SmtpConfig | null,
+	maxAttempts: number,
+	retryBaseDelayMs: number
+): Promise<AlertDelivery['status']> {
+	const createdAt = Date.now();
+	let attempts = 0;
+	let error: string | null = null;
+
+	while (attempts < maxAttempts) {
+		attempts += 1;
+		try {
+			await sendAlertNotification(
+				{ type: channel.type as AlertChannelType, target: channel.target, token: channel.token },
+				notification,
+				smtp
+			);
+			error = null;
+			break;
+		} catch (err) {
+			error = err instanceof Error ? err.message : String(err);
+			const retryable = !(err instanceof AlertDeliveryError) || err.retryable;
+			if (!retryable || attempts >= maxAttempts) break;
+			await sleep(retryBaseDelayMs * 2 ** (attempts - 1));
+		}
+	}
+
+	const status = error === null ? 'sent' : 'failed';
+	insertAlertDelivery({
+		channelId: channel.id,
+		alertId: notification.id,
+		alertType: notification.type,
+		severity: notification.severity,
+		title: notification.title,
+		status,
+		attempts,
+		error,
+		createdAt,
+		completedAt: Date.now()
+	});
+	return status;
+}
+
+/**
+ * Send notifications to every enabled channel whose filters accept them, channels in parallel,
+ * retrying failures with exponential backoff. Every outcome goes to the delivery log.
+ */
+export async function deliverAlerts(
+	notifications: AlertNotification[],
+	options: AlertDeliveryOptions = {}
+): Promise<{ sent: number; failed: number }> {
+	const summary = { sent: 0, failed: 0 };
+	if (notifications.length === 0) return summary;
+
+	const channels = getAlertChannelRows().filter((channel) => channel.enabled);
+	if (channels.length === 0) return summary;
+
+	const smtp = options.smtp === undefined ? getSmtpConfigFromEnv() : options.smtp;
+	const maxAttempts = Math.max(options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, 1);
+	const retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+
+	// Channels deliver side by side, so one unreachable target's backoff holds up only itself
+	const results = await Promise.allSettled(
+		channels.map(async (channel) => {
+			const statuses: AlertDelivery['status'][] = [];
+			for (const notification of notifications) {
+				if (!channelAccepts(channel, notification)) continue;
+				statuses.push(
+					await deliverWithRetry(channel, notification, smtp, maxAttempts, retryBaseDelayMs)
+				);
+			}
+			return statuses;
+		})
+	);
+	for (const result of results) {
+		if (result.status === 'rejected') {
+			console.error('[Alerts] Channel delivery failed:', result.reason);
+			continue;
+		}
+		for (const status of result.value) summary[status] += 1;
+	}
+
+	return summary;
+}
+
+/**
+ * Send a sample alert to one channel, ignoring its filters (single attempt)
+ */
+export async function sendTestAlert(
+	id: string,
+	options: AlertDeliveryOptions = {}
+): Promise<{ ok: true } | { ok: false; error: string }> {
+	const channel = getAlertChannelRow(id);
+	if (!channel) return { ok: false, error: 'not-found' };
+
+	const smtp = options.smtp === undefined ? getSmtpConfigFromEnv() : options.smtp;
+	const status = await deliverWithRetry(
+		channel,
+		{
+			id: `test-${Date.now()}`,
+			type: 'newsAlert',
+			severity: 'info',
+			title: 'Test alert',
+			detail: `Delivery test for channel "${channel.name}"`,
+			count: 1,
+			timestamp: Date.now()
+		},
+		smtp,
+		1,
+		0
+	);
+	if (status === 'sent') return { ok: true };
+	return { ok: false, error: getAlertDeliveries(1, id)[0]?.error ?? 'failed' };
+}
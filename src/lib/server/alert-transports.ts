@@ -0,0 +1,219 @@
+/**
+ * Payload formats for outbound alert channels
+ */
+
+import type { AlertSeverity, AlertType } from '$lib/alerts/engine';
+import type { AlertChannelType } from '$lib/types';
+import { sendMail, type SmtpConfig } from './smtp';
+
+/**
+ * Server-side alert, rendered for delivery
+ */
+export interface AlertNotification {
+	id: string;
+	type: AlertType;
+	severity: AlertSeverity;
+	title: string;
+	detail?: string;
+	count: number;
+	timestamp: number;
+	/** Link to the triggering item, when there is one */
+	url?: string;
+}
+
+export interface AlertTransportTarget {
+	type: AlertChannelType;
+	target: string;
+	token: string | null;
+}
+
+/**
+ * Failed delivery; `retryable` is false for errors a retry cannot fix (bad URL, auth, 4xx)
+ */
+export class AlertDeliveryError extends Error {
+	constructor(
+		message: string,
+		public readonly retryable: boolean
+	) {
+		super(message);
+		this.name = 'AlertDeliveryError';
+	}
+}
+
+const HTTP_TIMEOUT_MS = 10000;
+const APP_NAME = 'Situation Monitor';
+
+const SEVERITY_COLORS: Record<AlertSeverity, number> = {
+	danger: 0xdc2626,
+	warning: 0xf59e0b,
+	info: 0x3b82f6
+};
+
+const NTFY_PRIORITIES: Record<AlertSeverity, string> = {
+	danger: 'urgent',
+	warning: 'high',
+	info: 'default'
+};
+
+const GOTIFY_PRIORITIES: Record<AlertSeverity, number> = {
+	danger: 8,
+	warning: 5,
+	info: 2
+};
+
+function formatHeadline(notification: AlertNotification): string {
+	return notification.count > 1
+		? `${notification.title} (${notification.count})`
+		: notification.title;
+}
+
+function formatText(notification: AlertNotification): string {
+	return [notification.detail, notification.url].filter(Boolean).join('\n');
+}
+
+// HTTP header values must be Latin-1; ntfy accepts RFC 2047 encoded words
+function encodeHeaderValue(value: string): string {
+	return /^[\x20-\x7e]*$/.test(value)
+		? value
+		: `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export function buildHttpRequest(
+	channel: AlertTransportTarget,
+	notification: AlertNotification
+): { url: string; init: RequestInit } {
+	const headline = formatHeadline(notification);
+	const json = (body: unknown, headers: Record<string, string> = {}) => ({
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: JSON.stringify(body)
+	});
+	const bearer: Record<string, string> = channel.token
+		? { Authorization: `Bearer ${channel.token}` }
+		: {};
+
+	switch (channel.type) {
+		case 'slack': {
+			const lines = [`*${headline}*`, notification.detail, notification.url].filter(Boolean);
+			return { url: channel.target, init: json({ text: lines.join('\n') }) };
+		}
+		case 'discord':
+			return {
+				url: channel.target,
+				init: json({
+					username: APP_NAME,
+					embeds: [
+						{
+							title: headline.slice(0, 256),
+							description: notification.detail?.slice(0, 4096),
+							url: notification.url,
+							color: SEVERITY_COLORS[notification.severity],
+							timestamp: new Date(notification.timestamp).toISOString()
+						}
+					]
+				})
+			};
+		case 'ntfy':
+			return {
+				url: channel.target,
+				init: {
+					method: 'POST',
+					headers: {
+						Title: encodeHeaderValue(headline),
+						Priority: NTFY_PRIORITIES[notification.severity],
+						Tags: `${notification.severity},${notification.type}`,
+						...(notification.url ? { Click: notification.url } : {}),
+						...bearer
+					},
+					body: formatText(notification) || headline
+				}
+			};
+		case 'gotify':
+			return {
+				url: `${channel.target.replace(/\/+$/, '')}/message`,
+				init: json(
+					{
+						title: headline,
+						message: formatText(notification) || headline,
+						priority: GOTIFY_PRIORITIES[notification.severity],
+						...(notification.url
+							? { extras: { 'client::notification': { click: { url: notification.url } } } }
+							: {})
+					},
+					channel.token ? { 'X-Gotify-Key': channel.token } : {}
+				)
+			};
+		default:
+			return {
+				url: channel.target,
+				init: json({ event: 'alert', source: APP_NAME, alert: notification }, bearer)
+			};
+	}
+}
+
+async function sendHttp(
+	channel: AlertTransportTarget,
+	notification: AlertNotification
+): Promise<void> {
+	const { url, init } = buildHttpRequest(channel, notification);
+
+	let response: Response;
+	try {
+		response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+	} catch (error) {
+		throw new AlertDeliveryError(error instanceof Error ? error.message : String(error), true);
+	}
+
+	if (!response.ok) {
+		const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+		const body = (await response.text().catch(() => '')).slice(0, 200);
+		throw new AlertDeliveryError(`HTTP ${response.status}${body ? `: ${body}` : ''}`, retryable);
+	}
+}
+
+async function sendEmail(
+	channel: AlertTransportTarget,
+	notification: AlertNotification,
+	smtp: SmtpConfig | null
+): Promise<void> {
+	if (!smtp) throw new AlertDeliveryError('SMTP is not configured', false);
+
+	const to = channel.target
+		.split(/[,;]/)
+		.map((address) => address.trim())
+		.filter(Boolean);
+	const text = [
+		formatHeadline(notification),
+		'',
+		formatText(notification),
+		'',
+		`${notification.severity.toUpperCase()} · ${new Date(notification.timestamp).toISOString()}`
+	].join('\n');
+
+	try {
+		await sendMail(smtp, {
+			to,
+			subject: `[${APP_NAME}] ${formatHeadline(notification)}`,
+			text
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		// 5xx replies are permanent (bad recipient, auth); connection problems are not
+		throw new AlertDeliveryError(message, !/ failed: 5\d\d /.test(message));
+	}
+}
+
+/**
+ * Deliver one notification to one channel. Throws AlertDeliveryError on failure.
+ */
+export async function sendAlertNotification(
+	channel: AlertTransportTarget,
+	notification: AlertNotification,
+	smtp: SmtpConfig | null
+): Promise<void> {
+	if (channel.type === 'email') {
+		await sendEmail(channel, notification, smtp);
+		return;
+	}
+	await sendHttp(channel, notification);
+}
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AlertSeverity } from '$lib/alerts/engine';
+import type { AlertRecord, MarketItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+vi.mock('$lib/analysis/correlation', () => ({
+	analyzeCorrelations: vi.fn(() => null)
+}));
+
+vi.mock('$lib/analysis/narrative', () => ({
+	analyzeNarratives: vi.fn(() => null)
+}));
+
+function createIndex(changePercent: number): MarketItem {
+	return {
+		symbol: '^GSPC',
+		name: 'S&P 500',
+		price: 5000,
+		change: changePercent * 50,
+		changePercent
+	};
+}
+
+describe('server alert engine', () => {
+	let clock = Date.UTC(2026, 0, 1, 12);
+
+	// Each detection run gets its own timestamp
+	function tick() {
+		clock += 60_000;
+		vi.setSystemTime(clock);
+	}
+
+	useTestDb();
+
+	beforeAll(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(clock);
+	});
+
+	afterAll(() => {
+		vi.useRealTimers();
+	});
+
+	it('records a baseline first, then fires each alert once across runs', async () => {
+		const { upsertNewsItems, setMarketData } = await import('./db');
+		const { detectServerAlerts, getAlerts } = await import('./alerts');
+
+		upsertNewsItems([createNewsItem({ id: 'a', title: 'Missile strike reported', isAlert: true })]);
+		setMarketData('indices', [createIndex(0.4)]);
+
+		expect(detectServerAlerts('en')).toEqual([]);
+		expect(getAlerts()).toMatchObject({
+			alerts: [{ id: 'newsAlert:a', ackedAt: null, fireCount: 1 }],
+			unacknowledged: 1
+		});
+
+		tick();
+		upsertNewsItems([
+			createNewsItem({ id: 'b', title: 'Troops cross the border', isAlert: true }),
+			createNewsItem({ id: 'c', title: 'Embassy evacuated', isAlert: true, category: 'intel' })
+		]);
+		const notifications = detectServerAlerts('en');
+		expect(notifications).toHaveLength(1);
+		expect(notifications[0]).toMatchObject({
+			type: 'newsAlert',
+			severity: 'danger',
+			title: 'Alert-tagged news',
+			count: 2
+		});
+		expect(notifications[0].url).toMatch(/^https:\/\/example\.com\/[bc]$/);
+
+		tick();
+		expect(detectServerAlerts('en')).toEqual([]);
+
+		const inbox = getAlerts();
+		expect(inbox.unacknowledged).toBe(3);
+		expect(inbox.alerts.find((alert) => alert.id === 'newsAlert:c')).toMatchObject({
+			titleKey: 'alerts.title.newsAlert',
+			panelId: 'intel',
+			tabId: 'global',
+			sourceId: 'c',
+			firstFiredAt: clock - 60_000,
+			lastSeenAt: clock
+		});
+	});
+
+	it('acknowledges alerts and re-fires when a condition returns after a gap', async () => {
+		const { setMarketData } = await import('./db');
+		const { acknowledgeAlert, detectServerAlerts, getAlerts } = await import('./alerts');
+
+		tick();
+		setMarketData('indices', [createIndex(-2.1)]);
+		expect(detectServerAlerts('pt-BR')).toMatchObject([
+			{ id: 'econSwing:^GSPC', title: 'Oscilação anormal de mercado', count: 1 }
+		]);
+
+		const acked = acknowledgeAlert('econSwing:^GSPC');
+		expect(acked.ok && acked.record.ackedAt).toBe(clock);
+		expect(acknowledgeAlert('econSwing:unknown')).toEqual({ ok: false, error: 'not-found' });
+		expect(getAlerts({ unacknowledgedOnly: true }).alerts.map((alert) => alert.type)).not.toContain(
+			'econSwing'
+		);
+
+		tick();
+		setMarketData('indices', [createIndex(0.2)]);
+		expect(detectServerAlerts('en')).toEqual([]);
+
+		tick();
+		setMarketData('indices', [createIndex(2.4)]);
+		expect(detectServerAlerts('en')).toHaveLength(1);
+
+		const swing = getAlerts().alerts.find((alert) => alert.id === 'econSwing:^GSPC');
+		expect(swing).toMatchObject({ fireCount: 2, ackedAt: null, lastFiredAt: clock });
+		expect(swing!.firstFiredAt).toBeLessThan(swing!.lastFiredAt);
+	});
+
+	it('sends a mixed-severity group at its highest severity', async () => {
+		const { toAlertNotifications } = await import('./alerts');
+		const record = (key: string, severity: AlertSeverity, detail: string): AlertRecord => ({
+			id: `predictionSwing:${key}`,
+			type: 'predictionSwing',
+			severity,
+			titleKey: 'alerts.title.predictionSwing',
+			detail,
+			firstFiredAt: clock,
+			lastFiredAt: clock,
+			lastSeenAt: clock,
+			ackedAt: null,
+			fireCount: 1
+		});
+
+		expect(
+			toAlertNotifications(
+				[record('m1', 'warning', 'Ceasefire by March?'), record('m2', 'danger', 'Rate cut?')],
+				'en'
+			)
+		).toMatchObject([
+			{ id: 'predictionSwing:m2', severity: 'danger', detail: 'Rate cut?', count: 2 }
+		]);
+	});
+});
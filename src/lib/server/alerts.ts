@@ -0,0 +1,258 @@
+/**
+ * Server-side alert engine: detection over the cached news and market tables and the
+ * shared alert inbox, so alerts fire once no matter how many dashboards are open
+ */
+
+import { env } from '$env/dynamic/private';
+import {
+	detectAlertCandidates,
+	pickGroupExample,
+	type AlertCandidate,
+	type AlertDedupState,
+	type AlertSeverity,
+	type AlertType
+} from '$lib/alerts/engine';
+import type { PanelId } from '$lib/config';
+import { t, type MessageKey } from '$lib/i18n';
+import type { Locale } from '$lib/i18n/types';
+import { NEWS_CATEGORIES } from '$lib/shared/news-parser';
+import type { MarketsState } from '$lib/stores/markets';
+import type { AlertRecord, CryptoItem, MarketItem, NewsItem, SectorPerformance } from '$lib/types';
+import type { AlertNotification } from './alert-transports';
+import { publishServerEvent } from './events';
+import { recordSignalEvents } from './event-study';
+import { getPredictions, getPredictionSwingThresholds } from './predictions';
+import {
+	acknowledgeAlertRow,
+	getAlertRow,
+	getAlertRows,
+	getAlertRowsActiveBetween,
+	getAlertSightings,
+	getMarketData,
+	getMeta,
+	getNewsByCategoryBatch,
+	getUnacknowledgedAlertCount,
+	markAlertRowsSeen,
+	setMeta,
+	upsertFiredAlertRow,
+	type AlertRow
+} from './db';
+
+/** Meta key holding the time of the last detection run per alert type */
+const LAST_RUNS_META_KEY = 'alertLastRunByType';
+const DEFAULT_ALERT_LIMIT = 30;
+const MAX_ALERT_LIMIT = 200;
+
+function marketSection<T>(key: string) {
+	const cached = getMarketData<T[]>(key);
+	return {
+		items: cached?.data ?? [],
+		loading: false,
+		error: null,
+		lastUpdated: cached?.updatedAt ?? null,
+		isStale: false,
+		staleReason: null,
+		lastSuccess: cached?.updatedAt ?? null
+	};
+}
+
+function loadMarketsState(): MarketsState {
+	return {
+		indices: marketSection<MarketItem>('indices'),
+		sectors: marketSection<SectorPerformance>('sectors'),
+		commodities: marketSection<MarketItem>('commodities'),
+		crypto: marketSection<CryptoItem>('crypto'),
+		initialized: true
+	};
+}
+
+function loadNewsItems(): NewsItem[] {
+	return Object.values(getNewsByCategoryBatch(NEWS_CATEGORIES)).flat();
+}
+
+/**
+ * Locale for alert titles in outbound notifications (ALERT_LOCALE, default English)
+ */
+export function getAlertLocaleFromEnv(): Locale {
+	return env.ALERT_LOCALE === 'pt-BR' ? 'pt-BR' : 'en';
+}
+
+function rowToAlert(row: AlertRow): AlertRecord {
+	return {
+		id: row.id,
+		type: row.type as AlertType,
+		severity: row.severity as AlertSeverity,
+		titleKey: `alerts.title.${row.type}`,
+		detail: row.detail ?? undefined,
+		panelId: (row.panelId as PanelId | null) ?? undefined,
+		tabId: (row.tabId as AlertRecord['tabId'] | null) ?? undefined,
+		sourceId: row.sourceId ?? undefined,
+		url: row.url ?? undefined,
+		firstFiredAt: row.firstFiredAt,
+		lastFiredAt: row.lastFiredAt,
+		lastSeenAt: row.lastSeenAt,
+		ackedAt: row.ackedAt,
+		fireCount: row.fireCount
+	};
+}
+
+/**
+ * Dedup state backed by the alerts table. A candidate fires when it has no row yet,
+ * or when it was missing from the previous run of its type. `lastRuns` is updated in place.
+ */
+function createDbAlertState(
+	now: number,
+	newsById: Map<string, NewsItem>,
+	lastRuns: Partial<Record<AlertType, number>>
+): AlertDedupState {
+	return {
+		filterNew(type: AlertType, candidates: AlertCandidate[]): AlertCandidate[] {
+			const sightings = getAlertSightings(type);
+			const previousRunAt = lastRuns[type] ?? 0;
+			lastRuns[type] = now;
+			const fired: AlertCandidate[] = [];
+			const seen: string[] = [];
+
+			for (const candidate of candidates) {
+				const id = `${type}:${candidate.key}`;
+				const lastSeenAt = sightings.get(candidate.key);
+				if (lastSeenAt !== undefined && lastSeenAt >= previousRunAt) {
+					seen.push(id);
+					continue;
+				}
+				fired.push(candidate);
+				upsertFiredAlertRow({
+					id,
+					type,
+					key: candidate.key,
+					severity: candidate.severity,
+					detail: candidate.detail ?? null,
+					panelId: candidate.panelId ?? null,
+					tabId: candidate.tabId ?? null,
+					sourceId: candidate.sourceId ?? null,
+					url:
+						candidate.url ??
+						((candidate.sourceId && newsById.get(candidate.sourceId)?.link) || null),
+					lastFiredAt: now
+				});
+			}
+
+			markAlertRowsSeen(seen, now);
+			return fired;
+		}
+	};
+}
+
+/**
+ * Group fired alerts into one notification per alert type, using the most severe as the example
+ */
+export function toAlertNotifications(alerts: AlertRecord[], locale: Locale): AlertNotification[] {
+	const byType = new Map<AlertType, AlertRecord[]>();
+	for (const alert of alerts) {
+		const group = byType.get(alert.type);
+		if (group) group.push(alert);
+		else byType.set(alert.type, [alert]);
+	}
+
+	return [...byType.values()].map((group) => {
+		const example = pickGroupExample(group);
+		return {
+			id: example.id,
+			type: example.type,
+			severity: example.severity,
+			title: t(locale, example.titleKey as MessageKey),
+			detail: example.detail,
+			count: group.length,
+			timestamp: example.lastFiredAt,
+			url: example.url
+		};
+	});
+}
+
+/**
+ * Run the alert engine over the server cache and record fired alerts in the inbox.
+ * Returns notifications for outbound delivery; the very first run only records what is
+ * already there, so a fresh install does not send a burst.
+ */
+export function detectServerAlerts(locale: Locale = getAlertLocaleFromEnv()): AlertNotification[] {
+	const now = Date.now();
+	const lastRuns = getMeta<Partial<Record<AlertType, number>>>(LAST_RUNS_META_KEY)?.value;
+	const baseline = !lastRuns;
+	const runs = { ...lastRuns };
+	const newsItems = loadNewsItems();
+	const newsById = new Map(newsItems.map((item) => [item.id, item]));
+
+	const fired = detectAlertCandidates({
+		newsItems,
+		marketsState: loadMarketsState(),
+		locale,
+		predictions: getPredictions(now).predictions,
+		predictionSwingThresholds: getPredictionSwingThresholds(),
+		state: createDbAlertState(now, newsById, runs)
+	});
+	setMeta(LAST_RUNS_META_KEY, runs);
+	if (baseline || fired.length === 0) return [];
+
+	try {
+		recordSignalEvents(fired, now);
+	} catch (error) {
+		console.warn('[Alerts] Failed to record event study observations:', error);
+	}
+
+	const records = fired
+		.map((candidate) => getAlertRow(`${candidate.type}:${candidate.key}`))
+		.filter((row): row is AlertRow => row !== null)
+		.map(rowToAlert);
+	publishServerEvent({
+		type: 'alert',
+		data: { alerts: records, unacknowledged: getUnacknowledgedAlertCount() }
+	});
+	return toAlertNotifications(records, locale);
+}
+
+/**
+ * Latest alerts by last-fired time, plus the total unacknowledged count
+ */
+export function getAlerts(options: { limit?: number; unacknowledgedOnly?: boolean } = {}): {
+	alerts: AlertRecord[];
+	unacknowledged: number;
+} {
+	const limit = Math.min(Math.max(options.limit ?? DEFAULT_ALERT_LIMIT, 1), MAX_ALERT_LIMIT);
+	return {
+		alerts: getAlertRows(limit, options.unacknowledgedOnly).map(rowToAlert),
+		unacknowledged: getUnacknowledgedAlertCount()
+	};
+}
+
+/**
+ * The alert log as it stood at `at`: alerts already fired and seen since `since`. Rows only keep
+ * their first and latest firing, so an alert re-fired after `at` shows its first firing, and an
+ * acknowledgement made after `at` is dropped.
+ */
+export function getAlertLogAt(at: number, since: number): AlertRecord[] {
+	const records = getAlertRowsActiveBetween(since, at, MAX_ALERT_LIMIT).map((row) => {
+		const record = rowToAlert(row);
+		const refiredLater = record.lastFiredAt > at;
+		return {
+			...record,
+			lastFiredAt: refiredLater ? record.firstFiredAt : record.lastFiredAt,
+			lastSeenAt: Math.min(record.lastSeenAt, at),
+			ackedAt: record.ackedAt !== null && record.ackedAt <= at ? record.ackedAt : null,
+			fireCount: refiredLater ? 1 : record.fireCount
+		};
+	});
+	return records.sort((a, b) => b.lastFiredAt - a.lastFiredAt);
+}
+
+export function acknowledgeAlert(
+	id: string
+): { ok: true; record: AlertRecord } | { ok: false; error: 'not-found' } {
+	if (!acknowledgeAlertRow(id, Date.now())) return { ok: false, error: 'not-found' };
+	const record = rowToAlert(getAlertRow(id)!);
+	// Lets other open dashboards drop the alert too
+	publishServerEvent({
+		type: 'alert',
+		data: { alerts: [record], unacknowledged: getUnacknowledgedAlertCount() }
+	});
+	return { ok: true, record };
+}
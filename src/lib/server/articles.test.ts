@@ -0,0 +1,132 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+const NOW = Date.now();
+
+function newsItem(
+	id: string,
+	title: string,
+	link: string,
+	extra: Partial<NewsItem> = {}
+): NewsItem {
+	return createNewsItem({ id, title, link, timestamp: NOW - 10 * 60000, topics: [], ...extra });
+}
+
+const ARTICLE_HTML = `<html><body><article>
+	<p>The central bank said the sanctions on crude exports would push oil prices higher this winter.</p>
+	<p>Diplomats in Iran described the new measures as an escalation of economic pressure.</p>
+</article></body></html>`;
+
+describe('article fetch settings', () => {
+	it('is off by default and merges opt-outs with the paywalled defaults', async () => {
+		const { getArticleFetchSettings } = await import('./articles');
+		const defaults = getArticleFetchSettings({});
+		expect(defaults.enabled).toBe(false);
+		expect(defaults.optOut.has('bloomberg')).toBe(true);
+
+		const settings = getArticleFetchSettings({
+			ARTICLE_FETCH: 'true',
+			ARTICLE_FETCH_MAX: '3',
+			ARTICLE_FETCH_OPT_OUT: 'Reuters, apnews.com'
+		});
+		expect(settings).toMatchObject({ enabled: true, maxPerRun: 3 });
+		expect(settings.optOut.has('reuters')).toBe(true);
+		expect(settings.optOut.has('apnews.com')).toBe(true);
+	});
+});
+
+describe('refreshArticles', () => {
+	useTestDb();
+
+	afterAll(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('fetches alert pages allowed by robots.txt and re-detects topics from the body', async () => {
+		const { getNewsArticle, getNewsByCategory, upsertNewsItems } = await import('./db');
+		const { getArticleFetchSettings, refreshArticles } = await import('./articles');
+
+		upsertNewsItems([
+			newsItem('alert', 'Breaking: new measures announced', 'https://news.example/world/1', {
+				isAlert: true
+			}),
+			newsItem('private', 'Breaking: closed-door talks', 'https://news.example/private/2', {
+				isAlert: true
+			}),
+			newsItem('quiet', 'City council approves bike lanes', 'https://news.example/local/3'),
+			newsItem('opted', 'Breaking: markets slide', 'https://paywall.example/4', {
+				isAlert: true,
+				source: 'Bloomberg'
+			})
+		]);
+
+		const fetchMock = vi.fn<(url: string) => Promise<Response>>(async (url) =>
+			url.endsWith('/robots.txt')
+				? new Response('User-agent: *\nDisallow: /private/')
+				: new Response(ARTICLE_HTML, { headers: { 'Content-Type': 'text/html' } })
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const settings = { ...getArticleFetchSettings({ ARTICLE_FETCH: 'true' }), intervalMs: 0 };
+		const result = await refreshArticles(settings, NOW);
+
+		expect(result).toEqual({ fetched: 1, blocked: 1, failed: 0 });
+		expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+			'https://news.example/robots.txt',
+			'https://news.example/world/1'
+		]);
+		expect(getNewsArticle('alert')?.content).toContain('sanctions on crude exports');
+		expect(getNewsArticle('private')?.status).toBe('blocked');
+		expect(getNewsArticle('quiet')).toBeNull();
+		expect(getNewsArticle('opted')).toBeNull();
+
+		const alert = getNewsByCategory('politics').find((item) => item.id === 'alert');
+		expect(alert?.topics).toEqual(expect.arrayContaining(['DIPLO', 'ECON']));
+		expect(alert?.region).toBe('MENA');
+
+		// A feed refresh keeps what the body added; pages are not requested twice
+		upsertNewsItems([
+			newsItem('alert', 'Breaking: new measures announced', 'https://news.example/world/1', {
+				isAlert: true
+			})
+		]);
+		const refreshed = getNewsByCategory('politics').find((item) => item.id === 'alert');
+		expect(refreshed?.topics).toEqual(alert?.topics);
+		expect(await refreshArticles(settings, NOW)).toEqual({ fetched: 0, blocked: 0, failed: 0 });
+	});
+
+	it('checks the opt-out list and robots.txt of every site a link redirects to', async () => {
+		const { getNewsArticle, upsertNewsItems } = await import('./db');
+		const { getArticleFetchSettings, refreshArticles } = await import('./articles');
+
+		upsertNewsItems([
+			newsItem('wrapped', 'Breaking: port closed', 'https://aggregator.example/r/1', {
+				isAlert: true
+			}),
+			newsItem('paywalled', 'Breaking: rates cut', 'https://aggregator.example/r/2', {
+				isAlert: true
+			})
+		]);
+
+		const fetchMock = vi.fn<(url: string) => Promise<Response>>(async (url) => {
+			if (url === 'https://publisher.example/robots.txt') {
+				return new Response('User-agent: SituationMonitor\nDisallow: /world/');
+			}
+			if (url.endsWith('/robots.txt')) return new Response('', { status: 404 });
+			const target = url.endsWith('/r/1')
+				? 'https://publisher.example/world/port'
+				: 'https://www.wsj.com/markets/rates';
+			return new Response(null, { status: 302, headers: { Location: target } });
+		});
+		vi.stubGlobal('fetch', fetchMock);
+
+		const settings = { ...getArticleFetchSettings({ ARTICLE_FETCH: 'true' }), intervalMs: 0 };
+		expect(await refreshArticles(settings, NOW)).toEqual({ fetched: 0, blocked: 2, failed: 0 });
+		expect(getNewsArticle('wrapped')?.status).toBe('blocked');
+		expect(getNewsArticle('paywalled')?.status).toBe('blocked');
+		expect(fetchMock.mock.calls.map(([url]) => url)).not.toContain(
+			'https://publisher.example/world/port'
+		);
+	});
+});
@@ -0,0 +1,238 @@
+/**
+ * Article fetcher (opt-in): downloads the linked page of high-signal headlines, stores the
+ * readable body and re-runs region and topic detection on the full text. Requests are spaced
+ * out, honour robots.txt per site and skip opted-out sources.
+ */
+
+import { env as privateEnv } from '$env/dynamic/private';
+import {
+	ARTICLE_FETCH_USER_AGENT,
+	ARTICLE_FETCH_WINDOW_MS,
+	ARTICLE_MAX_LENGTH,
+	DEFAULT_ARTICLE_FETCH_INTERVAL_MS,
+	DEFAULT_ARTICLE_FETCH_MAX,
+	DEFAULT_ARTICLE_OPT_OUT,
+	ROBOTS_CACHE_MS
+} from '$lib/config/articles';
+import { COMPOUND_PATTERNS, CORRELATION_TOPICS } from '$lib/config/analysis';
+import { detectRegion, detectTopics } from '$lib/config/keywords';
+import type { NewsItem } from '$lib/types';
+import {
+	getArticleCandidates,
+	insertNewsArticle,
+	updateNewsDetection,
+	type NewsArticleStatus
+} from './db';
+import { extractArticleBody } from './html-parser';
+import { ALLOW_ALL, DISALLOW_ALL, parseRobotsTxt, type RobotsPolicy } from './robots';
+
+const HTTP_TIMEOUT_MS = 15000;
+/** Stored bodies follow the news retention */
+export const ARTICLE_RETENTION_DAYS = 7;
+/** Recent headlines screened for high-signal ones each run */
+const CANDIDATE_SCAN_LIMIT = 500;
+const MAX_REDIRECTS = 5;
+
+export interface ArticleFetchSettings {
+	enabled: boolean;
+	intervalMs: number;
+	maxPerRun: number;
+	/** Lower-cased source names and hostnames never fetched */
+	optOut: Set<string>;
+	/** Lower-cased source names and hostnames fetched without consulting robots.txt */
+	ignoreRobots: Set<string>;
+}
+
+export interface ArticleFetchResult {
+	fetched: number;
+	blocked: number;
+	failed: number;
+}
+
+function parseNames(value: string | undefined): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((name) => name.trim().toLowerCase())
+		.filter(Boolean);
+}
+
+/**
+ * ARTICLE_FETCH=true turns the fetcher on. ARTICLE_FETCH_OPT_OUT adds sources (names or
+ * hostnames, comma-separated) to the built-in opt-out list; ARTICLE_FETCH_IGNORE_ROBOTS lists
+ * sources whose robots.txt is not consulted, for sites you run or have permission to fetch.
+ */
+export function getArticleFetchSettings(
+	env: Record<string, string | undefined> = privateEnv
+): ArticleFetchSettings {
+	const intervalMs = Number(env.ARTICLE_FETCH_INTERVAL_MS);
+	const maxPerRun = Number(env.ARTICLE_FETCH_MAX);
+	return {
+		enabled: env.ARTICLE_FETCH === 'true',
+		intervalMs:
+			Number.isFinite(intervalMs) && intervalMs >= 0
+				? intervalMs
+				: DEFAULT_ARTICLE_FETCH_INTERVAL_MS,
+		maxPerRun: Number.isInteger(maxPerRun) && maxPerRun > 0 ? maxPerRun : DEFAULT_ARTICLE_FETCH_MAX,
+		optOut: new Set([
+			...DEFAULT_ARTICLE_OPT_OUT.map((name) => name.toLowerCase()),
+			...parseNames(env.ARTICLE_FETCH_OPT_OUT)
+		]),
+		ignoreRobots: new Set(parseNames(env.ARTICLE_FETCH_IGNORE_ROBOTS))
+	};
+}
+
+function matchesHost(url: URL, names: Set<string>): boolean {
+	const host = url.hostname.toLowerCase();
+	return names.has(host) || names.has(host.replace(/^www\./, ''));
+}
+
+function matchesSource(item: NewsItem, names: Set<string>): boolean {
+	if (names.has(item.source.toLowerCase())) return true;
+	try {
+		return matchesHost(new URL(item.link), names);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Headline touching at least two correlation topics of one compound pattern
+ */
+export function isCompoundSignalHeadline(title: string): boolean {
+	const topics = new Set(
+		CORRELATION_TOPICS.filter((topic) => topic.patterns.some((pattern) => pattern.test(title))).map(
+			(topic) => topic.id
+		)
+	);
+	return COMPOUND_PATTERNS.some(
+		(pattern) => pattern.topics.filter((topic) => topics.has(topic)).length >= 2
+	);
+}
+
+/**
+ * Fetchable high-signal headlines, alerts first, then newest first
+ */
+export function selectArticleCandidates(
+	items: NewsItem[],
+	settings: ArticleFetchSettings
+): NewsItem[] {
+	return items
+		.filter((item) => /^https?:\/\//.test(item.link) && !matchesSource(item, settings.optOut))
+		.filter((item) => item.isAlert || isCompoundSignalHeadline(item.title))
+		.sort((a, b) => Number(!!b.isAlert) - Number(!!a.isAlert) || b.timestamp - a.timestamp)
+		.slice(0, settings.maxPerRun);
+}
+
+const robotsCache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+
+async function request(
+	url: string,
+	accept: string,
+	redirect: RequestRedirect = 'follow'
+): Promise<Response> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+	try {
+		return await fetch(url, {
+			headers: { Accept: accept, 'User-Agent': ARTICLE_FETCH_USER_AGENT },
+			redirect,
+			signal: controller.signal
+		});
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+/**
+ * A missing robots.txt (4xx) allows everything; a server error or timeout disallows the site
+ * until the next check
+ */
+async function getRobotsPolicy(origin: string, now: number): Promise<RobotsPolicy> {
+	const cached = robotsCache.get(origin);
+	if (cached && cached.expiresAt > now) return cached.policy;
+
+	let policy: RobotsPolicy;
+	try {
+		const response = await request(`${origin}/robots.txt`, 'text/plain');
+		if (response.ok) policy = parseRobotsTxt(await response.text(), ARTICLE_FETCH_USER_AGENT);
+		else policy = response.status >= 500 ? DISALLOW_ALL : ALLOW_ALL;
+	} catch {
+		policy = DISALLOW_ALL;
+	}
+	robotsCache.set(origin, { policy, expiresAt: now + ROBOTS_CACHE_MS });
+	return policy;
+}
+
+async function fetchArticle(
+	item: NewsItem,
+	settings: ArticleFetchSettings,
+	now: number
+): Promise<{ status: NewsArticleStatus; content: string | null }> {
+	let url = new URL(item.link);
+	// Redirects (Google News, feed proxies) are followed by hand so the publisher they lead to
+	// is checked against the opt-out list and its own robots.txt
+	for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+		if (hop > 0 && matchesHost(url, settings.optOut)) return { status: 'blocked', content: null };
+		const ignoreRobots =
+			hop === 0
+				? matchesSource(item, settings.ignoreRobots)
+				: matchesHost(url, settings.ignoreRobots);
+		if (!ignoreRobots) {
+			const policy = await getRobotsPolicy(url.origin, now);
+			if (!policy.isAllowed(url.pathname + url.search)) return { status: 'blocked', content: null };
+		}
+
+		try {
+			const response = await request(url.href, 'text/html', 'manual');
+			const location = response.headers.get('location');
+			if (response.status >= 300 && response.status < 400 && location) {
+				url = new URL(location, url);
+				if (!/^https?:$/.test(url.protocol)) break;
+				continue;
+			}
+			if (!response.ok) break;
+			const content = extractArticleBody(await response.text(), ARTICLE_MAX_LENGTH);
+			return content ? { status: 'ok', content } : { status: 'empty', content: null };
+		} catch {
+			break;
+		}
+	}
+	return { status: 'failed', content: null };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetch the pages of up to `maxPerRun` high-signal headlines not requested before. Every
+ * outcome is stored, so blocked and failed pages are not retried.
+ */
+export async function refreshArticles(
+	settings: ArticleFetchSettings = getArticleFetchSettings(),
+	now = Date.now()
+): Promise<ArticleFetchResult> {
+	const result: ArticleFetchResult = { fetched: 0, blocked: 0, failed: 0 };
+	if (!settings.enabled) return result;
+
+	const candidates = selectArticleCandidates(
+		getArticleCandidates(now - ARTICLE_FETCH_WINDOW_MS, CANDIDATE_SCAN_LIMIT),
+		settings
+	);
+	for (const [index, item] of candidates.entries()) {
+		if (index > 0 && settings.intervalMs > 0) await sleep(settings.intervalMs);
+
+		const { status, content } = await fetchArticle(item, settings, now);
+		insertNewsArticle({ newsId: item.id, url: item.link, status, content, fetchedAt: now });
+		if (status === 'ok' && content) {
+			// The headline's own region wins; the body fills it in and adds topics
+			const text = `${item.title} ${item.description ?? ''} ${content}`;
+			const topics = [...new Set([...(item.topics ?? []), ...detectTopics(text, item.lang)])];
+			updateNewsDetection(item.id, item.region ?? detectRegion(text, item.lang), topics);
+			result.fetched += 1;
+		} else if (status === 'blocked') {
+			result.blocked += 1;
+		} else {
+			result.failed += 1;
+		}
+	}
+	return result;
+}
@@ -0,0 +1,125 @@
+/**
+ * Compile monitor/search boolean queries into SQLite WHERE clauses over the news table
+ */
+
+import {
+	parseBooleanQuery,
+	type BooleanQueryNode,
+	type BooleanQueryTextNode
+} from '$lib/utils/boolean-query';
+
+export interface CompiledBooleanQuery {
+	/** SQL boolean expression over `news` columns */
+	sql: string;
+	params: unknown[];
+	/**
+	 * FTS5 MATCH expression over the query's positive text terms, used for ranking and
+	 * snippets only. Null when the query has no positive text terms.
+	 */
+	rankMatch: string | null;
+}
+
+/** Restrict FTS expressions to article text; the source column is only for free-text search */
+const FTS_TEXT_COLUMNS = '{title description}';
+
+/**
+ * Title and description as one lower-cased text, as `evaluateBooleanQuery` sees a news item,
+ * so a phrase may span both fields. unicode_lower is registered by getDb.
+ */
+const NEWS_TEXT_SQL = "unicode_lower(news.title || ' ' || coalesce(news.description, ''))";
+
+function hasSearchableText(value: string): boolean {
+	return /[\p{L}\p{N}]/u.test(value);
+}
+
+function toFtsPhrase(node: BooleanQueryTextNode): string {
+	const phrase = `"${node.value.replaceAll('"', '""')}"`;
+	return node.type === 'prefix' ? `${phrase}*` : phrase;
+}
+
+function ftsSubquery(expression: string, params: unknown[]): string {
+	params.push(`${FTS_TEXT_COLUMNS} : ${expression}`);
+	return 'news.rowid IN (SELECT rowid FROM news_fts WHERE news_fts MATCH ?)';
+}
+
+function compileNode(node: BooleanQueryNode, params: unknown[]): string {
+	switch (node.type) {
+		case 'term':
+			params.push(node.value.toLowerCase());
+			return `instr(${NEWS_TEXT_SQL}, ?) > 0`;
+		case 'prefix':
+			if (!hasSearchableText(node.value)) return '0';
+			return ftsSubquery(toFtsPhrase(node), params);
+		case 'near':
+			if (!hasSearchableText(node.left.value) || !hasSearchableText(node.right.value)) return '0';
+			return ftsSubquery(
+				`NEAR(${toFtsPhrase(node.left)} ${toFtsPhrase(node.right)}, ${node.distance})`,
+				params
+			);
+		case 'field': {
+			const value = node.value.toLowerCase();
+			switch (node.field) {
+				case 'source':
+					params.push(value);
+					return 'instr(unicode_lower(news.source), ?) > 0';
+				case 'category':
+					params.push(value);
+					return 'lower(news.category) = ?';
+				case 'region':
+					params.push(value);
+					return "lower(coalesce(news.region, '')) = ?";
+				case 'topic':
+					params.push(value);
+					return 'EXISTS (SELECT 1 FROM json_each(news.topics) WHERE lower(json_each.value) = ?)';
+			}
+			break;
+		}
+		case 'not':
+			return `NOT (${compileNode(node.child, params)})`;
+		case 'and':
+		case 'or':
+			return `(${compileNode(node.left, params)} ${node.type.toUpperCase()} ${compileNode(node.right, params)})`;
+	}
+	return '0';
+}
+
+function collectRankTerms(node: BooleanQueryNode, negated: boolean, terms: string[]): void {
+	switch (node.type) {
+		case 'term':
+			// Terms match as substrings, so rank on the word prefix to credit "iran" in "Iranian"
+			if (!negated && hasSearchableText(node.value)) terms.push(`${toFtsPhrase(node)}*`);
+			return;
+		case 'prefix':
+			if (!negated && hasSearchableText(node.value)) terms.push(toFtsPhrase(node));
+			return;
+		case 'near':
+			collectRankTerms(node.left, negated, terms);
+			collectRankTerms(node.right, negated, terms);
+			return;
+		case 'field':
+			return;
+		case 'not':
+			collectRankTerms(node.child, !negated, terms);
+			return;
+		default:
+			collectRankTerms(node.left, negated, terms);
+			collectRankTerms(node.right, negated, terms);
+	}
+}
+
+/**
+ * Compile a boolean query with the same semantics as `evaluateBooleanQuery`, so a
+ * monitor can run against the whole news table. Throws on invalid queries.
+ */
+export function compileBooleanQueryToSql(query: string): CompiledBooleanQuery {
+	const ast = parseBooleanQuery(query);
+	const params: unknown[] = [];
+	const sql = compileNode(ast, params);
+
+	const rankTerms: string[] = [];
+	collectRankTerms(ast, false, rankTerms);
+	const rankMatch =
+		rankTerms.length > 0 ? `${FTS_TEXT_COLUMNS} : (${[...new Set(rankTerms)].join(' OR ')})` : null;
+
+	return { sql, params, rankMatch };
+}
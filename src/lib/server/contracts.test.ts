@@ -0,0 +1,298 @@
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+const NOW = Date.UTC(2026, 9, 12, 14, 0, 0);
+
+// Trimmed from a USAspending /api/v2/search/spending_by_award/ response
+const AWARD_PAGE_1 = {
+	results: [
+		{
+			internal_id: 1,
+			'Award ID': 'N0001926C0001',
+			'Recipient Name': 'LOCKHEED MARTIN CORPORATION',
+			'Award Amount': 1250000000,
+			Description: 'F-35 LIGHTNING II LOT 19 PRODUCTION',
+			'Awarding Agency': 'Department of Defense',
+			'Awarding Sub Agency': 'Department of the Navy',
+			'Base Obligation Date': '2026-10-09',
+			'Start Date': '2026-10-10',
+			NAICS: { code: '336411', description: 'AIRCRAFT MANUFACTURING' },
+			generated_internal_id: 'CONT_AWD_N0001926C0001_9700_-NONE-_-NONE-'
+		},
+		{
+			internal_id: 2,
+			'Award ID': '80MSFC26C0002',
+			'Recipient Name': 'SPACE EXPLORATION TECHNOLOGIES CORP.',
+			'Award Amount': 480000000,
+			Description: null,
+			'Awarding Agency': 'National Aeronautics and Space Administration',
+			'Awarding Sub Agency': 'National Aeronautics and Space Administration',
+			'Base Obligation Date': null,
+			'Start Date': '2026-10-05',
+			NAICS: '336414 GUIDED MISSILE AND SPACE VEHICLE MANUFACTURING',
+			generated_internal_id: 'CONT_AWD_80MSFC26C0002_8000_-NONE-_-NONE-'
+		},
+		{ internal_id: 3, 'Award ID': 'BROKEN', 'Award Amount': null, generated_internal_id: 'x' }
+	],
+	page_metadata: { page: 1, hasNext: true }
+};
+
+const AWARD_PAGE_2 = {
+	results: [
+		{
+			internal_id: 4,
+			'Award ID': '70B01C26C0003',
+			'Recipient Name': 'ACME BORDER SYSTEMS LLC',
+			'Award Amount': 15000000,
+			Description: 'Border surveillance towers',
+			'Awarding Agency': 'Department of Homeland Security',
+			'Awarding Sub Agency': 'U.S. Customs and Border Protection',
+			'Base Obligation Date': '2026-10-11',
+			NAICS: null,
+			generated_internal_id: 'CONT_AWD_70B01C26C0003_7014_-NONE-_-NONE-'
+		}
+	],
+	page_metadata: { page: 2, hasNext: false }
+};
+
+function newsItem(id: string, title: string, timestamp: number): NewsItem {
+	return createNewsItem({ id, title, timestamp, category: 'gov' });
+}
+
+describe('contract awards', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('builds the award search from the size, agency and NAICS filters', async () => {
+		const { buildAwardSearchBody, getContractSearchConfig } = await import('./contracts');
+
+		const config = getContractSearchConfig({
+			CONTRACTS_MIN_AMOUNT: '50000000',
+			CONTRACTS_AGENCIES: 'Department of Defense',
+			CONTRACTS_NAICS: '336411, 336414'
+		});
+		const body = buildAwardSearchBody(
+			{ ...config, startDate: '2026-10-01', endDate: '2026-10-12' },
+			2
+		);
+
+		expect(body.filters).toEqual({
+			award_type_codes: ['A', 'B', 'C', 'D'],
+			time_period: [{ start_date: '2026-10-01', end_date: '2026-10-12', date_type: 'action_date' }],
+			award_amounts: [{ lower_bound: 50000000 }],
+			agencies: [{ type: 'awarding', tier: 'toptier', name: 'Department of Defense' }],
+			naics_codes: { require: ['336411', '336414'] }
+		});
+		expect(body).toMatchObject({ page: 2, sort: 'Last Modified Date', order: 'desc' });
+		expect(body.fields).toContain('Last Modified Date');
+
+		// Empty lists drop the filter instead of matching nothing
+		const unfiltered = buildAwardSearchBody(
+			{
+				...getContractSearchConfig({ CONTRACTS_AGENCIES: '', CONTRACTS_MIN_AMOUNT: 'lots' }),
+				startDate: '2026-10-01',
+				endDate: '2026-10-12'
+			},
+			1
+		);
+		expect(unfiltered.filters).not.toHaveProperty('agencies');
+		expect(unfiltered.filters).not.toHaveProperty('naics_codes');
+		expect(unfiltered.filters.award_amounts).toEqual([{ lower_bound: 10000000 }]);
+	});
+
+	it('pages through the search and normalizes awards', async () => {
+		const { fetchContractAwards, USASPENDING_SEARCH_URL } = await import('./contracts');
+		const pages: number[] = [];
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async (url: string, init?: RequestInit) => {
+				expect(url).toBe(USASPENDING_SEARCH_URL);
+				const { page } = JSON.parse(String(init?.body));
+				pages.push(page);
+				return new Response(JSON.stringify(page === 1 ? AWARD_PAGE_1 : AWARD_PAGE_2));
+			})
+		);
+
+		const awards = await fetchContractAwards({
+			startDate: '2026-10-01',
+			endDate: '2026-10-12',
+			minAmount: 10000000,
+			agencies: [],
+			naicsCodes: []
+		});
+
+		expect(pages).toEqual([1, 2]);
+		expect(awards).toHaveLength(3);
+		expect(awards[0]).toEqual({
+			id: 'CONT_AWD_N0001926C0001_9700_-NONE-_-NONE-',
+			awardId: 'N0001926C0001',
+			title: 'F-35 LIGHTNING II LOT 19 PRODUCTION',
+			agency: 'Department of Defense',
+			subAgency: 'Department of the Navy',
+			vendor: 'LOCKHEED MARTIN CORPORATION',
+			value: 1250000000,
+			naicsCode: '336411',
+			date: '2026-10-09',
+			url: 'https://www.usaspending.gov/award/CONT_AWD_N0001926C0001_9700_-NONE-_-NONE-'
+		});
+		// Missing description and obligation date fall back to the award id and start date
+		expect(awards[1]).toMatchObject({
+			title: '80MSFC26C0002',
+			date: '2026-10-05',
+			naicsCode: '336414'
+		});
+	});
+
+	it('surfaces API errors', async () => {
+		const { fetchContractAwards } = await import('./contracts');
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response(JSON.stringify({ detail: 'Invalid filter' }), { status: 422 }))
+		);
+
+		await expect(
+			fetchContractAwards({
+				startDate: '2026-10-01',
+				endDate: '2026-10-12',
+				minAmount: 1,
+				agencies: [],
+				naicsCodes: []
+			})
+		).rejects.toThrow('Invalid filter');
+	});
+
+	it('tags vendors named in headlines by legal name or alias', async () => {
+		const { tagContractVendors } = await import('./contracts');
+		const { getVendorSearchTerms } = await import('$lib/config/contracts');
+
+		expect(getVendorSearchTerms('THE BOEING COMPANY')).toEqual(['boeing']);
+		expect(getVendorSearchTerms('SPACE EXPLORATION TECHNOLOGIES CORP.')).toEqual([
+			'space exploration technologies',
+			'spacex'
+		]);
+
+		const base = {
+			awardId: 'a',
+			title: 't',
+			agency: 'Department of Defense',
+			subAgency: null,
+			value: 1,
+			naicsCode: null,
+			date: '2026-10-10',
+			url: 'u',
+			firstSeenAt: NOW,
+			headlineMentions: 0,
+			headlineTitle: null,
+			headlineUrl: null
+		};
+		const tags = tagContractVendors(
+			[
+				{ ...base, id: 'lm', vendor: 'LOCKHEED MARTIN CORPORATION' },
+				{ ...base, id: 'sx', vendor: 'SPACE EXPLORATION TECHNOLOGIES CORP.' },
+				{ ...base, id: 'acme', vendor: 'ACME BORDER SYSTEMS LLC' }
+			],
+			[
+				newsItem('1', 'Lockheed Martin wins F-35 lot', NOW - 3600000),
+				newsItem('2', 'SpaceX launches Starship again', NOW - 7200000),
+				newsItem('3', 'Pentagon weighs Lockheed Martin penalties', NOW - 60000),
+				newsItem('4', 'Acmeco shares fall', NOW)
+			]
+		);
+
+		expect(tags).toEqual([
+			{
+				id: 'lm',
+				headlineMentions: 2,
+				headlineTitle: 'Pentagon weighs Lockheed Martin penalties',
+				headlineUrl: 'https://example.com/3'
+			},
+			{
+				id: 'sx',
+				headlineMentions: 1,
+				headlineTitle: 'SpaceX launches Starship again',
+				headlineUrl: 'https://example.com/2'
+			},
+			{ id: 'acme', headlineMentions: 0, headlineTitle: null, headlineUrl: null }
+		]);
+	});
+});
+
+describe('contract storage', () => {
+	useTestDb();
+
+	afterAll(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('stores new awards, pages and filters them, and waits between searches', async () => {
+		const { getGovContractAgencyCounts, getGovContractsPage } = await import('./db');
+		const { refreshContracts, getContractRefreshStatus } = await import('./contracts');
+		const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+			const { page } = JSON.parse(String(init?.body));
+			return new Response(JSON.stringify(page === 1 ? AWARD_PAGE_1 : AWARD_PAGE_2));
+		});
+		vi.stubGlobal('fetch', fetchMock);
+
+		expect(await refreshContracts({ now: NOW })).toEqual({
+			inserted: 3,
+			skipped: false,
+			error: null
+		});
+		expect(getContractRefreshStatus()).toEqual({ updatedAt: NOW, error: null });
+		expect(
+			JSON.parse(String(fetchMock.mock.calls[0][1]?.body)).filters.time_period[0]
+		).toMatchObject({
+			start_date: '2026-09-12',
+			end_date: '2026-10-12'
+		});
+
+		const byDate = getGovContractsPage({ page: 1, limit: 2, sort: 'date' });
+		expect(byDate.total).toBe(3);
+		expect(byDate.contracts.map((contract) => contract.awardId)).toEqual([
+			'70B01C26C0003',
+			'N0001926C0001'
+		]);
+		expect(byDate.contracts[0].firstSeenAt).toBe(NOW);
+		expect(
+			getGovContractsPage({ page: 2, limit: 2, sort: 'date' }).contracts.map((c) => c.awardId)
+		).toEqual(['80MSFC26C0002']);
+		expect(
+			getGovContractsPage({ page: 1, limit: 5, sort: 'value', agency: 'Department of Defense' })
+				.contracts
+		).toHaveLength(1);
+		expect(getGovContractAgencyCounts()).toHaveLength(3);
+
+		// Within the fetch interval only the headline tagging runs
+		fetchMock.mockClear();
+		expect((await refreshContracts({ now: NOW + 3600000 })).skipped).toBe(true);
+		expect(fetchMock).not.toHaveBeenCalled();
+
+		// A later search overlaps the last one; modified awards update in place
+		const modified = structuredClone(AWARD_PAGE_2);
+		modified.results[0]['Award Amount'] = 18000000;
+		fetchMock.mockImplementation(async (_url: string, init?: RequestInit) => {
+			const { page } = JSON.parse(String(init?.body));
+			return new Response(JSON.stringify(page === 1 ? AWARD_PAGE_1 : modified));
+		});
+		const later = NOW + 7 * 3600000;
+		expect((await refreshContracts({ now: later })).inserted).toBe(0);
+		expect(
+			JSON.parse(String(fetchMock.mock.calls[0][1]?.body)).filters.time_period[0]
+		).toMatchObject({
+			start_date: '2026-10-05'
+		});
+		const updated = getGovContractsPage({ page: 1, limit: 1, sort: 'date' }).contracts[0];
+		expect(updated).toMatchObject({ value: 18000000, firstSeenAt: NOW });
+
+		// A failed search is recorded and retried on the next refresh
+		fetchMock.mockImplementation(async () => new Response('{}', { status: 500 }));
+		const failedAt = later + 7 * 3600000;
+		expect((await refreshContracts({ now: failedAt })).error).toBe('USAspending HTTP 500');
+		expect(getContractRefreshStatus()).toEqual({ updatedAt: later, error: 'USAspending HTTP 500' });
+		fetchMock.mockClear();
+		expect((await refreshContracts({ now: failedAt + 900000 })).skipped).toBe(false);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
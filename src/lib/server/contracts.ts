@@ -0,0 +1,308 @@
+/**
+ * Federal contract awards from the USAspending.gov award search API, cached in SQLite and
+ * tagged with the headlines that name their vendors
+ */
+
+import { env as privateEnv } from '$env/dynamic/private';
+import {
+	DEFAULT_CONTRACT_AGENCIES,
+	DEFAULT_CONTRACT_MIN_AMOUNT,
+	DEFAULT_CONTRACT_NAICS,
+	getVendorSearchTerms
+} from '$lib/config/contracts';
+import { NEWS_CATEGORIES } from '$lib/shared/news-parser';
+import type { GovContract, NewsItem } from '$lib/types';
+import { escapeRegExp } from '$lib/utils/format';
+import {
+	getGovContractsSince,
+	getMeta,
+	getNewsByCategoryBatch,
+	setGovContractHeadlines,
+	setMeta,
+	upsertGovContracts,
+	type GovContractInput
+} from './db';
+
+export const USASPENDING_SEARCH_URL =
+	'https://api.usaspending.gov/api/v2/search/spending_by_award/';
+const AWARD_URL_PREFIX = 'https://www.usaspending.gov/award/';
+/** Definitive contracts, purchase orders, delivery orders and BPA calls */
+const CONTRACT_AWARD_TYPES = ['A', 'B', 'C', 'D'];
+const AWARD_FIELDS = [
+	'Award ID',
+	'Recipient Name',
+	'Award Amount',
+	'Description',
+	'Awarding Agency',
+	'Awarding Sub Agency',
+	'Base Obligation Date',
+	'Start Date',
+	'Last Modified Date',
+	'NAICS',
+	'generated_internal_id'
+];
+const PAGE_SIZE = 100;
+const MAX_PAGES = 5;
+const HTTP_TIMEOUT_MS = 30000;
+const DAY_MS = 86400000;
+
+/** USAspending loads award data daily; polling more often only repeats the same search */
+export const CONTRACT_FETCH_INTERVAL_MS = 6 * 3600000;
+/** Awards are reported days after they are signed, so each search re-covers this window */
+const SEARCH_OVERLAP_DAYS = 7;
+const INITIAL_LOOKBACK_DAYS = 30;
+/** Headlines this recent count as vendor mentions */
+const HEADLINE_WINDOW_MS = 7 * DAY_MS;
+/** Awards this recent are re-tagged as headlines arrive */
+const TAGGING_WINDOW_DAYS = 90;
+export const CONTRACT_RETENTION_DAYS = 365;
+const FETCH_META_KEY = 'contractsLastFetch';
+
+interface ContractFetchMeta {
+	/** Last successful search; failed searches are retried on the next refresh */
+	at: number | null;
+	error: string | null;
+}
+
+export interface ContractSearchOptions {
+	/** Inclusive YYYY-MM-DD bounds on the award action date */
+	startDate: string;
+	endDate: string;
+	minAmount: number;
+	agencies: string[];
+	naicsCodes: string[];
+}
+
+interface AwardSearchResult {
+	'Award ID'?: string | null;
+	'Recipient Name'?: string | null;
+	'Award Amount'?: number | null;
+	Description?: string | null;
+	'Awarding Agency'?: string | null;
+	'Awarding Sub Agency'?: string | null;
+	'Base Obligation Date'?: string | null;
+	'Start Date'?: string | null;
+	NAICS?: string | { code?: string | null } | null;
+	generated_internal_id?: string | null;
+}
+
+interface AwardSearchResponse {
+	results?: AwardSearchResult[];
+	page_metadata?: { page: number; hasNext: boolean };
+	messages?: string[];
+	detail?: string;
+}
+
+function parseList(value: string | undefined, fallback: string[]): string[] {
+	if (value === undefined) return fallback;
+	return value
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Search filters from CONTRACTS_MIN_AMOUNT, CONTRACTS_AGENCIES and CONTRACTS_NAICS
+ * (comma-separated), falling back to the defaults in config/contracts
+ */
+export function getContractSearchConfig(
+	env: Record<string, string | undefined> = privateEnv
+): Pick<ContractSearchOptions, 'minAmount' | 'agencies' | 'naicsCodes'> {
+	const minAmount = Number(env.CONTRACTS_MIN_AMOUNT);
+	return {
+		minAmount:
+			Number.isFinite(minAmount) && minAmount > 0 ? minAmount : DEFAULT_CONTRACT_MIN_AMOUNT,
+		agencies: parseList(env.CONTRACTS_AGENCIES, DEFAULT_CONTRACT_AGENCIES),
+		naicsCodes: parseList(env.CONTRACTS_NAICS, DEFAULT_CONTRACT_NAICS)
+	};
+}
+
+export function buildAwardSearchBody(options: ContractSearchOptions, page: number) {
+	return {
+		filters: {
+			award_type_codes: CONTRACT_AWARD_TYPES,
+			time_period: [
+				{ start_date: options.startDate, end_date: options.endDate, date_type: 'action_date' }
+			],
+			award_amounts: [{ lower_bound: options.minAmount }],
+			...(options.agencies.length > 0 && {
+				agencies: options.agencies.map((name) => ({
+					type: 'awarding',
+					tier: 'toptier',
+					name
+				}))
+			}),
+			...(options.naicsCodes.length > 0 && { naics_codes: { require: options.naicsCodes } })
+		},
+		fields: AWARD_FIELDS,
+		page,
+		limit: PAGE_SIZE,
+		// Newest activity first, so the page cap drops old awards rather than new ones; the
+		// amount floor is a filter
+		sort: 'Last Modified Date',
+		order: 'desc'
+	};
+}
+
+function parseNaics(naics: AwardSearchResult['NAICS']): string | null {
+	if (!naics) return null;
+	if (typeof naics === 'string') return naics.split(/\s/)[0] || null;
+	return naics.code ?? null;
+}
+
+export function parseAwardResult(result: AwardSearchResult): GovContractInput | null {
+	const id = result.generated_internal_id;
+	const value = result['Award Amount'];
+	const date = result['Base Obligation Date'] || result['Start Date'];
+	if (!id || typeof value !== 'number' || !Number.isFinite(value) || !date) return null;
+
+	return {
+		id,
+		awardId: result['Award ID'] || id,
+		title: result.Description?.trim() || result['Award ID'] || id,
+		agency: result['Awarding Agency'] || 'Unknown agency',
+		subAgency: result['Awarding Sub Agency'] || null,
+		vendor: result['Recipient Name'] || 'Unknown recipient',
+		value,
+		naicsCode: parseNaics(result.NAICS),
+		date: date.slice(0, 10),
+		url: AWARD_URL_PREFIX + encodeURIComponent(id)
+	};
+}
+
+export async function fetchContractAwards(
+	options: ContractSearchOptions
+): Promise<GovContractInput[]> {
+	const awards: GovContractInput[] = [];
+
+	for (let page = 1; page <= MAX_PAGES; page++) {
+		const controller = new AbortController();
+		const timeoutId = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+		let data: AwardSearchResponse;
+		try {
+			const response = await fetch(USASPENDING_SEARCH_URL, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+				body: JSON.stringify(buildAwardSearchBody(options, page)),
+				signal: controller.signal
+			});
+			data = (await response.json().catch(() => ({}))) as AwardSearchResponse;
+			if (!response.ok) {
+				throw new Error(data.detail || `USAspending HTTP ${response.status}`);
+			}
+		} finally {
+			clearTimeout(timeoutId);
+		}
+
+		for (const result of data.results ?? []) {
+			const award = parseAwardResult(result);
+			if (award) awards.push(award);
+		}
+		if (!data.page_metadata?.hasNext) break;
+	}
+
+	return awards;
+}
+
+function toDateString(timestamp: number): string {
+	return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Count the headlines naming each award's vendor; the newest one is kept for display
+ */
+export function tagContractVendors(contracts: GovContract[], news: NewsItem[]) {
+	const sortedNews = [...news].sort((a, b) => b.timestamp - a.timestamp);
+	const matchersByVendor = new Map<string, RegExp | null>();
+
+	return contracts.map((contract) => {
+		if (!matchersByVendor.has(contract.vendor)) {
+			const terms = getVendorSearchTerms(contract.vendor);
+			matchersByVendor.set(
+				contract.vendor,
+				terms.length > 0 ? new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\b`, 'i') : null
+			);
+		}
+		const matcher = matchersByVendor.get(contract.vendor);
+		const matches = matcher ? sortedNews.filter((item) => matcher.test(item.title)) : [];
+		return {
+			id: contract.id,
+			headlineMentions: matches.length,
+			headlineTitle: matches[0]?.title ?? null,
+			headlineUrl: matches[0]?.link ?? null
+		};
+	});
+}
+
+/**
+ * Re-tag recent awards against the cached headlines, writing only the awards that changed
+ */
+export function updateContractHeadlines(now = Date.now()): number {
+	const contracts = getGovContractsSince(toDateString(now - TAGGING_WINDOW_DAYS * DAY_MS));
+	if (contracts.length === 0) return 0;
+
+	const news = Object.values(
+		getNewsByCategoryBatch(
+			NEWS_CATEGORIES,
+			Object.fromEntries(NEWS_CATEGORIES.map((category) => [category, now - HEADLINE_WINDOW_MS]))
+		)
+	).flat();
+	const byId = new Map(contracts.map((contract) => [contract.id, contract]));
+	const changed = tagContractVendors(contracts, news).filter((tag) => {
+		const current = byId.get(tag.id);
+		return (
+			current?.headlineMentions !== tag.headlineMentions ||
+			current.headlineTitle !== tag.headlineTitle
+		);
+	});
+	if (changed.length > 0) setGovContractHeadlines(changed);
+	return changed.length;
+}
+
+export interface ContractRefreshResult {
+	inserted: number;
+	skipped: boolean;
+	error: string | null;
+}
+
+/**
+ * Search USAspending for new awards (at most every CONTRACT_FETCH_INTERVAL_MS unless forced)
+ * and tag vendors against the current headlines
+ */
+export async function refreshContracts(
+	options: { force?: boolean; now?: number } = {}
+): Promise<ContractRefreshResult> {
+	const now = options.now ?? Date.now();
+	const lastSuccess = getMeta<ContractFetchMeta>(FETCH_META_KEY)?.value.at ?? null;
+	const result: ContractRefreshResult = { inserted: 0, skipped: false, error: null };
+
+	if (!options.force && lastSuccess !== null && now - lastSuccess < CONTRACT_FETCH_INTERVAL_MS) {
+		result.skipped = true;
+	} else {
+		const startMs = lastSuccess
+			? lastSuccess - SEARCH_OVERLAP_DAYS * DAY_MS
+			: now - INITIAL_LOOKBACK_DAYS * DAY_MS;
+		try {
+			const awards = await fetchContractAwards({
+				...getContractSearchConfig(),
+				startDate: toDateString(startMs),
+				endDate: toDateString(now)
+			});
+			result.inserted = upsertGovContracts(awards, now);
+		} catch (error) {
+			result.error = error instanceof Error ? error.message : String(error);
+		}
+		setMeta(FETCH_META_KEY, {
+			at: result.error ? lastSuccess : now,
+			error: result.error
+		} satisfies ContractFetchMeta);
+	}
+
+	updateContractHeadlines(now);
+	return result;
+}
+
+export function getContractRefreshStatus(): { updatedAt: number | null; error: string | null } {
+	const meta = getMeta<ContractFetchMeta>(FETCH_META_KEY)?.value;
+	return { updatedAt: meta?.at ?? null, error: meta?.error ?? null };
+}
@@ -21,6 +21,10 @@ export function getDb(): Database.Database {
 	_db = new Database(DB_PATH);
 	_db.pragma('journal_mode = WAL');
 	_db.pragma('synchronous = NORMAL');
+	// SQLite's lower() only folds ASCII; query matching must fold "AÇÃO" like the browser does
+	_db.function('unicode_lower', { deterministic: true }, (value: unknown) =>
+		typeof value === 'string' ? value.toLowerCase() : value
+	);
 
 	initSchema(_db);
 	return _db;
@@ -53,6 +57,15 @@ function initSchema(db: Database.Database): void {
 			updated_at INTEGER NOT NULL
 		);
 
+		CREATE TABLE IF NOT EXISTS market_ticks (
+			symbol TEXT NOT NULL,
+			category TEXT NOT NULL,
+			timestamp INTEGER NOT NULL,
+			price REAL NOT NULL,
+			change_percent REAL,
+			PRIMARY KEY (symbol, timestamp)
+		);
+
 		CREATE TABLE IF NOT EXISTS meta (
 			key TEXT PRIMARY KEY,
 			value TEXT NOT NULL,
@@ -97,9 +110,262 @@ function initSchema(db: Database.Database): void {
 		);
 		CREATE INDEX IF NOT EXISTS idx_analysis_correlation_history_topic_hour
 			ON analysis_correlation_history(topic_id, hour_bucket DESC);
+
+		CREATE TABLE IF NOT EXISTS monitors (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL,
+			keywords TEXT NOT NULL,
+			query TEXT,
+			enabled INTEGER NOT NULL DEFAULT 1,
+			color TEXT,
+			location TEXT,
+			marker_type TEXT,
+			description TEXT,
+			threat_level TEXT,
+			geofence TEXT,
+			created_at INTEGER NOT NULL,
+			updated_at INTEGER NOT NULL
+		);
+
+		CREATE TABLE IF NOT EXISTS monitor_matches (
+			monitor_id TEXT NOT NULL,
+			news_id TEXT NOT NULL,
+			item_timestamp INTEGER NOT NULL,
+			matched_at INTEGER NOT NULL,
+			PRIMARY KEY (monitor_id, news_id)
+		);
+		CREATE INDEX IF NOT EXISTS idx_monitor_matches_monitor_timestamp
+			ON monitor_matches(monitor_id, item_timestamp DESC);
+
+		CREATE TABLE IF NOT EXISTS alert_channels (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL,
+			type TEXT NOT NULL,
+			target TEXT NOT NULL,
+			token TEXT,
+			severities TEXT NOT NULL,
+			alert_types TEXT NOT NULL,
+			enabled INTEGER NOT NULL DEFAULT 1,
+			created_at INTEGER NOT NULL,
+			updated_at INTEGER NOT NULL
+		);
+
+		CREATE TABLE IF NOT EXISTS alert_deliveries (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			channel_id TEXT NOT NULL,
+			alert_id TEXT NOT NULL,
+			alert_type TEXT NOT NULL,
+			severity TEXT NOT NULL,
+			title TEXT NOT NULL,
+			status TEXT NOT NULL,
+			attempts INTEGER NOT NULL,
+			error TEXT,
+			created_at INTEGER NOT NULL,
+			completed_at INTEGER NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_alert_deliveries_created
+			ON alert_deliveries(created_at DESC);
+
+		CREATE TABLE IF NOT EXISTS alerts (
+			id TEXT PRIMARY KEY,
+			type TEXT NOT NULL,
+			alert_key TEXT NOT NULL,
+			severity TEXT NOT NULL,
+			detail TEXT,
+			panel_id TEXT,
+			tab_id TEXT,
+			source_id TEXT,
+			url TEXT,
+			first_fired_at INTEGER NOT NULL,
+			last_fired_at INTEGER NOT NULL,
+			last_seen_at INTEGER NOT NULL,
+			acked_at INTEGER,
+			fire_count INTEGER NOT NULL DEFAULT 1
+		);
+		CREATE INDEX IF NOT EXISTS idx_alerts_last_fired ON alerts(last_fired_at DESC);
+		CREATE INDEX IF NOT EXISTS idx_alerts_type_seen ON alerts(type, last_seen_at DESC);
+
+		CREATE TABLE IF NOT EXISTS event_study_observations (
+			kind TEXT NOT NULL,
+			signal_id TEXT NOT NULL,
+			name TEXT,
+			fired_at INTEGER NOT NULL,
+			symbol TEXT NOT NULL,
+			direction TEXT NOT NULL,
+			price_t0 REAL NOT NULL,
+			price_1h REAL,
+			price_4h REAL,
+			price_24h REAL,
+			PRIMARY KEY (kind, signal_id, fired_at, symbol)
+		);
+		CREATE INDEX IF NOT EXISTS idx_event_study_fired ON event_study_observations(fired_at DESC);
+
+		CREATE TABLE IF NOT EXISTS whale_transactions (
+			id TEXT PRIMARY KEY,
+			hash TEXT NOT NULL,
+			chain TEXT NOT NULL,
+			token TEXT NOT NULL,
+			from_address TEXT NOT NULL,
+			to_address TEXT NOT NULL,
+			from_label TEXT,
+			to_label TEXT,
+			amount REAL NOT NULL,
+			amount_usd REAL NOT NULL,
+			type TEXT NOT NULL,
+			flow TEXT NOT NULL,
+			source TEXT NOT NULL,
+			timestamp INTEGER NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_whale_transactions_timestamp ON whale_transactions(timestamp DESC);
+
+		CREATE TABLE IF NOT EXISTS gov_contracts (
+			id TEXT PRIMARY KEY,
+			award_id TEXT NOT NULL,
+			title TEXT NOT NULL,
+			agency TEXT NOT NULL,
+			sub_agency TEXT,
+			vendor TEXT NOT NULL,
+			value REAL NOT NULL,
+			naics_code TEXT,
+			date TEXT NOT NULL,
+			url TEXT NOT NULL,
+			first_seen_at INTEGER NOT NULL,
+			headline_mentions INTEGER NOT NULL DEFAULT 0,
+			headline_title TEXT,
+			headline_url TEXT
+		);
+		CREATE INDEX IF NOT EXISTS idx_gov_contracts_date ON gov_contracts(date DESC);
+		CREATE INDEX IF NOT EXISTS idx_gov_contracts_agency ON gov_contracts(agency);
+
+		CREATE TABLE IF NOT EXISTS layoff_events (
+			id TEXT PRIMARY KEY,
+			company TEXT NOT NULL,
+			company_key TEXT NOT NULL,
+			first_date TEXT NOT NULL,
+			last_date TEXT NOT NULL,
+			sector TEXT NOT NULL,
+			count INTEGER,
+			percentage REAL,
+			title TEXT NOT NULL,
+			source TEXT NOT NULL,
+			url TEXT NOT NULL,
+			kind TEXT NOT NULL,
+			state TEXT,
+			reports INTEGER NOT NULL,
+			updated_at INTEGER NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_layoff_events_date ON layoff_events(first_date DESC);
+		CREATE INDEX IF NOT EXISTS idx_layoff_events_company ON layoff_events(company_key, first_date);
+
+		CREATE TABLE IF NOT EXISTS layoff_reports (
+			id TEXT PRIMARY KEY,
+			event_id TEXT NOT NULL,
+			kind TEXT NOT NULL,
+			company TEXT NOT NULL,
+			date TEXT NOT NULL,
+			count INTEGER,
+			percentage REAL,
+			sector TEXT,
+			title TEXT NOT NULL,
+			source TEXT NOT NULL,
+			url TEXT NOT NULL,
+			state TEXT,
+			location TEXT,
+			seen_at INTEGER NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_layoff_reports_event ON layoff_reports(event_id);
+
+		CREATE TABLE IF NOT EXISTS prediction_markets (
+			id TEXT PRIMARY KEY,
+			question TEXT NOT NULL,
+			url TEXT NOT NULL,
+			category TEXT NOT NULL,
+			end_date TEXT,
+			yes REAL NOT NULL,
+			volume REAL NOT NULL,
+			volume_24hr REAL NOT NULL,
+			updated_at INTEGER NOT NULL
+		);
+
+		CREATE TABLE IF NOT EXISTS prediction_snapshots (
+			market_id TEXT NOT NULL,
+			timestamp INTEGER NOT NULL,
+			yes REAL NOT NULL,
+			PRIMARY KEY (market_id, timestamp)
+		);
+		CREATE INDEX IF NOT EXISTS idx_prediction_snapshots_time ON prediction_snapshots(timestamp);
+
+		CREATE TABLE IF NOT EXISTS ai_briefs (
+			cache_key TEXT PRIMARY KEY,
+			provider TEXT NOT NULL,
+			model TEXT,
+			language TEXT NOT NULL,
+			text TEXT NOT NULL,
+			headline_ids TEXT NOT NULL,
+			generated_at INTEGER NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_ai_briefs_generated ON ai_briefs(generated_at DESC);
+
+		CREATE TABLE IF NOT EXISTS news_articles (
+			news_id TEXT PRIMARY KEY,
+			url TEXT NOT NULL,
+			status TEXT NOT NULL,
+			content TEXT,
+			fetched_at INTEGER NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_news_articles_fetched ON news_articles(fetched_at);
+
+		CREATE TABLE IF NOT EXISTS news_entities (
+			news_id TEXT NOT NULL,
+			entity_id TEXT NOT NULL,
+			name TEXT NOT NULL,
+			type TEXT NOT NULL,
+			source TEXT NOT NULL,
+			timestamp INTEGER NOT NULL,
+			PRIMARY KEY (news_id, entity_id)
+		);
+		CREATE INDEX IF NOT EXISTS idx_news_entities_timestamp ON news_entities(timestamp);
+		CREATE INDEX IF NOT EXISTS idx_news_entities_entity ON news_entities(entity_id, timestamp);
+
+		CREATE TABLE IF NOT EXISTS hotspot_levels (
+			hour_bucket INTEGER NOT NULL,
+			hotspot TEXT NOT NULL,
+			count INTEGER NOT NULL,
+			robust_z REAL NOT NULL,
+			level TEXT NOT NULL,
+			updated_at INTEGER NOT NULL,
+			PRIMARY KEY (hour_bucket, hotspot)
+		);
+
+		CREATE TABLE IF NOT EXISTS map_layers (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL,
+			color TEXT,
+			format TEXT NOT NULL,
+			data TEXT NOT NULL,
+			created_at INTEGER NOT NULL,
+			updated_at INTEGER NOT NULL
+		);
 	`);
 
-	// Migration: add source_type and selectors columns to news_custom_sources
+	// Full-text index over news, keyed by news.rowid (kept in sync by upsertNewsItems/deleteOldNews)
+	const hasSearchIndex = !!db
+		.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'news_fts'")
+		.get();
+	if (!hasSearchIndex) {
+		db.exec(`
+			CREATE VIRTUAL TABLE news_fts USING fts5(
+				title,
+				description,
+				source,
+				tokenize = 'unicode61 remove_diacritics 2'
+			);
+			INSERT INTO news_fts (rowid, title, description, source)
+				SELECT rowid, title, coalesce(description, ''), source FROM news;
+		`);
+	}
+
+	// Migration: add columns introduced after their table (news_custom_sources, ai_briefs, news)
 	runMigrations(db);
 }
 
@@ -115,11 +381,59 @@ function runMigrations(db: Database.Database): void {
 	if (!hasColumn('news_custom_sources', 'selectors')) {
 		db.exec(`ALTER TABLE news_custom_sources ADD COLUMN selectors TEXT`);
 	}
+	if (!hasColumn('ai_briefs', 'summary')) {
+		db.exec(`ALTER TABLE ai_briefs ADD COLUMN summary TEXT`);
+	}
+	if (!hasColumn('news', 'cluster_id')) {
+		db.exec(`ALTER TABLE news ADD COLUMN cluster_id TEXT`);
+	}
+	db.exec(`CREATE INDEX IF NOT EXISTS idx_news_cluster ON news(cluster_id)`);
+	if (!hasColumn('news', 'lang')) {
+		db.exec(`ALTER TABLE news ADD COLUMN lang TEXT`);
+	}
+	if (!hasColumn('news', 'translated_title')) {
+		db.exec(`ALTER TABLE news ADD COLUMN translated_title TEXT`);
+	}
+	if (!hasColumn('news', 'sentiment')) {
+		db.exec(`ALTER TABLE news ADD COLUMN sentiment REAL`);
+	}
+	if (!hasColumn('news', 'lat')) {
+		db.exec(`ALTER TABLE news ADD COLUMN lat REAL`);
+		db.exec(`ALTER TABLE news ADD COLUMN lon REAL`);
+		db.exec(`ALTER TABLE news ADD COLUMN country_code TEXT`);
+		db.exec(`ALTER TABLE news ADD COLUMN place TEXT`);
+	}
+	if (!hasColumn('news', 'areas')) {
+		db.exec(`ALTER TABLE news ADD COLUMN areas TEXT`);
+	}
+	if (!hasColumn('monitors', 'geofence')) {
+		db.exec(`ALTER TABLE monitors ADD COLUMN geofence TEXT`);
+	}
 }
 
 // --- News operations ---
 
-import type { NewsItem, NewsCategory } from '$lib/types';
+import type {
+	AIBrief,
+	AIBriefProviderId,
+	EntityEdge,
+	EntityType,
+	GovContract,
+	GovContractSort,
+	HotspotLevel,
+	LayoffData,
+	LayoffReportKind,
+	LayoffSector,
+	LayoffSectorStats,
+	MapLayerFormat,
+	NewsItem,
+	NewsCategory,
+	NewsLanguage,
+	Prediction,
+	PredictionCategory,
+	PredictionSnapshot,
+	WhaleTransaction
+} from '$lib/types';
 import { filterByAge, limitNewsByCategorySources } from '$lib/shared/news-parser';
 
 const NEWS_READ_LIMIT = 1000;
@@ -127,16 +441,57 @@ const NEWS_RESPONSE_LIMIT = 200;
 const NEWS_CACHE_MAX_AGE_MS = 15 * 60 * 1000;
 
 const INSERT_NEWS = `
-	INSERT OR REPLACE INTO news (id, title, link, pub_date, timestamp, description, source, category, is_alert, alert_keyword, region, topics, created_at)
-	VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+	INSERT OR REPLACE INTO news (id, title, link, pub_date, timestamp, description, source, category, is_alert, alert_keyword, region, topics, cluster_id, lang, translated_title, sentiment, lat, lon, country_code, place, areas, created_at)
+	VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 `;
 
-export function upsertNewsItems(items: NewsItem[]): void {
+/**
+ * Insert or update news items; returns the ones that were not stored before
+ */
+export function upsertNewsItems(items: NewsItem[]): NewsItem[] {
 	const db = getDb();
 	const stmt = db.prepare(INSERT_NEWS);
+	const selectExisting = db.prepare(
+		'SELECT rowid, cluster_id, region, topics, title, translated_title, sentiment, lat, lon, country_code, place, areas FROM news WHERE id = ?'
+	);
+	const deleteSearchRow = db.prepare('DELETE FROM news_fts WHERE rowid = ?');
+	const insertSearchRow = db.prepare(
+		'INSERT INTO news_fts (rowid, title, description, source) VALUES (?, ?, ?, ?)'
+	);
+	const inserted: NewsItem[] = [];
 	const insertMany = db.transaction((rows: NewsItem[]) => {
 		for (const item of rows) {
-			stmt.run(
+			// INSERT OR REPLACE assigns a new rowid, so drop the stale index row first; the story
+			// cluster is kept so ids stay stable across refreshes, detections made from the article
+			// body (see updateNewsDetection) are merged back in and the translation is kept while
+			// the title is unchanged (as are the sentiment and location derived from it, and the
+			// imported map areas flagged for that location)
+			const existing = selectExisting.get(item.id) as
+				| {
+						rowid: number;
+						cluster_id: string | null;
+						region: string | null;
+						topics: string | null;
+						title: string;
+						translated_title: string | null;
+						sentiment: number | null;
+						lat: number | null;
+						lon: number | null;
+						country_code: string | null;
+						place: string | null;
+						areas: string | null;
+				  }
+				| undefined;
+			if (existing) deleteSearchRow.run(existing.rowid);
+			else inserted.push(item);
+			const keepLocation = item.lat === undefined && existing?.title === item.title;
+			const sameLocation =
+				keepLocation || (existing?.lat === item.lat && existing?.lon === item.lon);
+			const topics = existing?.topics
+				? [...new Set([...(item.topics ?? []), ...(JSON.parse(existing.topics) as string[])])]
+				: item.topics;
+
+			const result = stmt.run(
 				item.id,
 				item.title,
 				item.link,
@@ -147,13 +502,29 @@ export function upsertNewsItems(items: NewsItem[]): void {
 				item.category,
 				item.isAlert ? 1 : 0,
 				item.alertKeyword ?? null,
-				item.region ?? null,
-				item.topics ? JSON.stringify(item.topics) : null,
+				item.region ?? existing?.region ?? null,
+				topics ? JSON.stringify(topics) : null,
+				existing?.cluster_id ?? item.clusterId ?? null,
+				item.lang ?? null,
+				existing?.title === item.title ? existing.translated_title : (item.translatedTitle ?? null),
+				item.sentiment ?? (existing?.title === item.title ? existing.sentiment : null),
+				keepLocation ? existing.lat : (item.lat ?? null),
+				keepLocation ? existing.lon : (item.lon ?? null),
+				keepLocation ? existing.country_code : (item.countryCode ?? null),
+				keepLocation ? existing.place : (item.place ?? null),
+				item.areas ? JSON.stringify(item.areas) : sameLocation ? (existing?.areas ?? null) : null,
 				Date.now()
 			);
+			insertSearchRow.run(
+				result.lastInsertRowid,
+				item.title,
+				item.description ?? '',
+				item.source
+			);
 		}
 	});
 	insertMany(items);
+	return inserted;
 }
 
 function rowToNewsItem(row: Record<string, unknown>): NewsItem {
@@ -169,7 +540,16 @@ function rowToNewsItem(row: Record<string, unknown>): NewsItem {
 		isAlert: row.is_alert === 1,
 		alertKeyword: (row.alert_keyword as string) ?? undefined,
 		region: (row.region as string) ?? undefined,
-		topics: row.topics ? JSON.parse(row.topics as string) : undefined
+		topics: row.topics ? JSON.parse(row.topics as string) : undefined,
+		clusterId: (row.cluster_id as string) ?? undefined,
+		lang: (row.lang as NewsLanguage) ?? undefined,
+		translatedTitle: (row.translated_title as string) ?? undefined,
+		sentiment: (row.sentiment as number) ?? undefined,
+		lat: (row.lat as number) ?? undefined,
+		lon: (row.lon as number) ?? undefined,
+		countryCode: (row.country_code as string) ?? undefined,
+		place: (row.place as string) ?? undefined,
+		areas: row.areas ? JSON.parse(row.areas as string) : undefined
 	};
 }
 
@@ -216,28 +596,1945 @@ export function getNewsCount(): number {
 export function deleteOldNews(maxAgeDays: number): number {
 	const db = getDb();
 	const cutoff = Date.now() - maxAgeDays * 86400000;
-	const result = db.prepare('DELETE FROM news WHERE timestamp < ?').run(cutoff);
-	return result.changes;
+	const deleteAll = db.transaction(() => {
+		db.prepare(
+			'DELETE FROM news_fts WHERE rowid IN (SELECT rowid FROM news WHERE timestamp < ?)'
+		).run(cutoff);
+		return db.prepare('DELETE FROM news WHERE timestamp < ?').run(cutoff).changes;
+	});
+	return deleteAll();
 }
 
-// --- Markets operations ---
+// --- News search operations ---
 
-export function setMarketData(key: string, data: unknown): void {
+export interface NewsSearchFilters {
+	/** SQL boolean expression over `news` columns (see compileBooleanQueryToSql) */
+	where: { sql: string; params: unknown[] };
+	/** FTS5 MATCH expression used for ranking and snippets; null to skip ranking */
+	rankMatch: string | null;
+	categories?: NewsCategory[];
+	region?: string;
+	topic?: string;
+	from: number;
+	to: number;
+	limit: number;
+	offset: number;
+}
+
+export interface NewsSearchRow {
+	item: NewsItem;
+	titleSnippet: string | null;
+	descriptionSnippet: string | null;
+	rank: number | null;
+}
+
+/** Snippet delimiters; callers escape the text and swap these for markup */
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+function buildNewsSearchWhere(filters: NewsSearchFilters): { sql: string; params: unknown[] } {
+	const clauses = ['news.timestamp >= ?', 'news.timestamp <= ?', `(${filters.where.sql})`];
+	const params: unknown[] = [filters.from, filters.to, ...filters.where.params];
+
+	if (filters.categories?.length) {
+		clauses.push(`news.category IN (${filters.categories.map(() => '?').join(', ')})`);
+		params.push(...filters.categories);
+	}
+	if (filters.region) {
+		clauses.push('news.region = ?');
+		params.push(filters.region);
+	}
+	if (filters.topic) {
+		clauses.push('EXISTS (SELECT 1 FROM json_each(news.topics) WHERE json_each.value = ?)');
+		params.push(filters.topic);
+	}
+
+	return { sql: clauses.join(' AND '), params };
+}
+
+export function searchNews(filters: NewsSearchFilters): { rows: NewsSearchRow[]; total: number } {
 	const db = getDb();
-	db.prepare('INSERT OR REPLACE INTO markets (key, data, updated_at) VALUES (?, ?, ?)').run(
-		key,
-		JSON.stringify(data),
-		Date.now()
+	const where = buildNewsSearchWhere(filters);
+
+	// Title matches weigh more than description matches; unranked matches sort by recency
+	const hits = filters.rankMatch
+		? `LEFT JOIN (
+				SELECT rowid,
+					snippet(news_fts, 0, ?, ?, '…', 16) AS title_snippet,
+					snippet(news_fts, 1, ?, ?, '…', 24) AS description_snippet,
+					bm25(news_fts, 10.0, 4.0, 1.0) AS rank
+				FROM news_fts WHERE news_fts MATCH ?
+			) AS hits ON hits.rowid = news.rowid`
+		: '';
+	const hitParams = filters.rankMatch
+		? [
+				SEARCH_HIGHLIGHT_START,
+				SEARCH_HIGHLIGHT_END,
+				SEARCH_HIGHLIGHT_START,
+				SEARCH_HIGHLIGHT_END,
+				filters.rankMatch
+			]
+		: [];
+	const hitColumns = filters.rankMatch
+		? 'hits.title_snippet, hits.description_snippet, hits.rank'
+		: 'NULL AS title_snippet, NULL AS description_snippet, NULL AS rank';
+
+	const rows = db
+		.prepare(
+			`SELECT news.*, ${hitColumns}
+			FROM news ${hits}
+			WHERE ${where.sql}
+			ORDER BY rank IS NULL, rank ASC, news.timestamp DESC
+			LIMIT ? OFFSET ?`
+		)
+		.all(...hitParams, ...where.params, filters.limit, filters.offset) as Record<
+		string,
+		unknown
+	>[];
+
+	const totalRow = db
+		.prepare(`SELECT COUNT(*) AS count FROM news WHERE ${where.sql}`)
+		.get(...where.params) as { count: number };
+
+	return {
+		rows: rows.map((row) => ({
+			item: rowToNewsItem(row),
+			titleSnippet: (row.title_snippet as string | null) ?? null,
+			descriptionSnippet: (row.description_snippet as string | null) ?? null,
+			rank: (row.rank as number | null) ?? null
+		})),
+		total: totalRow.count
+	};
+}
+
+// --- Monitor operations ---
+
+export interface MonitorRow {
+	id: string;
+	name: string;
+	keywords: string[];
+	query: string | null;
+	enabled: boolean;
+	color: string | null;
+	location: string | null; // JSON string of { name, lat, lon }
+	markerType: string | null;
+	description: string | null;
+	threatLevel: string | null;
+	geofence: string | null; // JSON string of a MonitorGeofence
+	createdAt: number;
+	updatedAt: number;
+	matchCount: number;
+}
+
+export type MonitorRowInput = Omit<MonitorRow, 'createdAt' | 'updatedAt' | 'matchCount'>;
+
+const SELECT_MONITORS = `
+	SELECT monitors.*, coalesce(counts.match_count, 0) AS match_count
+	FROM monitors
+	LEFT JOIN (
+		SELECT monitor_id, COUNT(*) AS match_count FROM monitor_matches GROUP BY monitor_id
+	) AS counts ON counts.monitor_id = monitors.id
+`;
+
+function rowToMonitor(row: Record<string, unknown>): MonitorRow {
+	return {
+		id: row.id as string,
+		name: row.name as string,
+		keywords: JSON.parse(row.keywords as string) as string[],
+		query: (row.query as string | null) ?? null,
+		enabled: row.enabled === 1,
+		color: (row.color as string | null) ?? null,
+		location: (row.location as string | null) ?? null,
+		markerType: (row.marker_type as string | null) ?? null,
+		description: (row.description as string | null) ?? null,
+		threatLevel: (row.threat_level as string | null) ?? null,
+		geofence: (row.geofence as string | null) ?? null,
+		createdAt: row.created_at as number,
+		updatedAt: row.updated_at as number,
+		matchCount: row.match_count as number
+	};
+}
+
+export function getMonitorRows(): MonitorRow[] {
+	const db = getDb();
+	const rows = db.prepare(`${SELECT_MONITORS} ORDER BY monitors.created_at ASC`).all() as Record<
+		string,
+		unknown
+	>[];
+	return rows.map(rowToMonitor);
+}
+
+export function getMonitorRow(id: string): MonitorRow | null {
+	const db = getDb();
+	const row = db.prepare(`${SELECT_MONITORS} WHERE monitors.id = ?`).get(id) as
+		| Record<string, unknown>
+		| undefined;
+	return row ? rowToMonitor(row) : null;
+}
+
+export function getMonitorCount(): number {
+	const db = getDb();
+	const row = db.prepare('SELECT COUNT(*) AS count FROM monitors').get() as { count: number };
+	return row.count;
+}
+
+export function insertMonitorRow(row: MonitorRowInput & { createdAt?: number }): void {
+	const db = getDb();
+	const now = Date.now();
+	db.prepare(
+		'INSERT INTO monitors (id, name, keywords, query, enabled, color, location, marker_type, description, threat_level, geofence, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+	).run(
+		row.id,
+		row.name,
+		JSON.stringify(row.keywords),
+		row.query,
+		row.enabled ? 1 : 0,
+		row.color,
+		row.location,
+		row.markerType,
+		row.description,
+		row.threatLevel,
+		row.geofence,
+		row.createdAt ?? now,
+		now
 	);
 }
 
-export function getMarketData<T>(key: string): { data: T; updatedAt: number } | null {
+/**
+ * Replace a monitor's definition. Recorded matches are dropped when its query or geofence
+ * changes, since they no longer describe what the monitor looks for.
+ */
+export function updateMonitorRow(row: MonitorRowInput, conditionsChanged: boolean): boolean {
 	const db = getDb();
-	const row = db.prepare('SELECT data, updated_at FROM markets WHERE key = ?').get(key) as
-		| { data: string; updated_at: number }
+	const update = db.transaction(() => {
+		const result = db
+			.prepare(
+				'UPDATE monitors SET name = ?, keywords = ?, query = ?, enabled = ?, color = ?, location = ?, marker_type = ?, description = ?, threat_level = ?, geofence = ?, updated_at = ? WHERE id = ?'
+			)
+			.run(
+				row.name,
+				JSON.stringify(row.keywords),
+				row.query,
+				row.enabled ? 1 : 0,
+				row.color,
+				row.location,
+				row.markerType,
+				row.description,
+				row.threatLevel,
+				row.geofence,
+				Date.now(),
+				row.id
+			);
+		if (result.changes > 0 && conditionsChanged) {
+			db.prepare('DELETE FROM monitor_matches WHERE monitor_id = ?').run(row.id);
+		}
+		return result.changes > 0;
+	});
+	return update();
+}
+
+export function deleteMonitorRow(id: string): boolean {
+	const db = getDb();
+	const remove = db.transaction(() => {
+		db.prepare('DELETE FROM monitor_matches WHERE monitor_id = ?').run(id);
+		return db.prepare('DELETE FROM monitors WHERE id = ?').run(id).changes > 0;
+	});
+	return remove();
+}
+
+/**
+ * Record every cached news item matching `where` (see compileBooleanQueryToSql) as a
+ * match of the monitor. With `contains`, only geolocated items it accepts are recorded.
+ * Returns the number of newly recorded matches.
+ */
+export function recordMonitorMatches(
+	monitorId: string,
+	where: { sql: string; params: unknown[] },
+	contains?: (lat: number, lon: number) => boolean
+): number {
+	const db = getDb();
+	const matchedAt = Date.now();
+	if (!contains) {
+		const result = db
+			.prepare(
+				`INSERT OR IGNORE INTO monitor_matches (monitor_id, news_id, item_timestamp, matched_at)
+				SELECT ?, news.id, news.timestamp, ? FROM news WHERE ${where.sql}`
+			)
+			.run(monitorId, matchedAt, ...where.params);
+		return result.changes;
+	}
+
+	const rows = db
+		.prepare(
+			`SELECT news.id, news.timestamp, news.lat, news.lon FROM news
+			WHERE news.lat IS NOT NULL AND news.lon IS NOT NULL AND (${where.sql})`
+		)
+		.all(...where.params) as Array<{ id: string; timestamp: number; lat: number; lon: number }>;
+	const insert = db.prepare(
+		'INSERT OR IGNORE INTO monitor_matches (monitor_id, news_id, item_timestamp, matched_at) VALUES (?, ?, ?, ?)'
+	);
+	const record = db.transaction(() => {
+		let changes = 0;
+		for (const row of rows) {
+			if (!contains(row.lat, row.lon)) continue;
+			changes += insert.run(monitorId, row.id, row.timestamp, matchedAt).changes;
+		}
+		return changes;
+	});
+	return record();
+}
+
+export function getMonitorMatchedNews(
+	monitorId: string,
+	limit: number
+): Array<{ item: NewsItem; matchedAt: number }> {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT news.*, monitor_matches.matched_at
+			FROM monitor_matches
+			JOIN news ON news.id = monitor_matches.news_id
+			WHERE monitor_matches.monitor_id = ?
+			ORDER BY monitor_matches.item_timestamp DESC
+			LIMIT ?`
+		)
+		.all(monitorId, limit) as Record<string, unknown>[];
+	return rows.map((row) => ({ item: rowToNewsItem(row), matchedAt: row.matched_at as number }));
+}
+
+export function getMonitorMatchTimeline(
+	monitorId: string,
+	since: number
+): Array<{ day: number; count: number }> {
+	const db = getDb();
+	return db
+		.prepare(
+			`SELECT (item_timestamp / 86400000) * 86400000 AS day, COUNT(*) AS count
+			FROM monitor_matches
+			WHERE monitor_id = ? AND item_timestamp >= ?
+			GROUP BY day
+			ORDER BY day ASC`
+		)
+		.all(monitorId, since) as Array<{ day: number; count: number }>;
+}
+
+export function pruneMonitorMatches(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM monitor_matches WHERE item_timestamp < ?').run(cutoff).changes;
+}
+
+// --- Alert delivery operations ---
+
+export interface AlertChannelRow {
+	id: string;
+	name: string;
+	type: string;
+	target: string;
+	token: string | null;
+	severities: string[];
+	alertTypes: string[];
+	enabled: boolean;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export interface AlertDeliveryRow {
+	id: number;
+	channelId: string;
+	alertId: string;
+	alertType: string;
+	severity: string;
+	title: string;
+	status: 'sent' | 'failed';
+	attempts: number;
+	error: string | null;
+	createdAt: number;
+	completedAt: number;
+}
+
+function rowToAlertChannel(row: Record<string, unknown>): AlertChannelRow {
+	return {
+		id: row.id as string,
+		name: row.name as string,
+		type: row.type as string,
+		target: row.target as string,
+		token: (row.token as string | null) ?? null,
+		severities: JSON.parse(row.severities as string) as string[],
+		alertTypes: JSON.parse(row.alert_types as string) as string[],
+		enabled: row.enabled === 1,
+		createdAt: row.created_at as number,
+		updatedAt: row.updated_at as number
+	};
+}
+
+export function getAlertChannelRows(): AlertChannelRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare('SELECT * FROM alert_channels ORDER BY name COLLATE NOCASE ASC')
+		.all() as Record<string, unknown>[];
+	return rows.map(rowToAlertChannel);
+}
+
+export function getAlertChannelRow(id: string): AlertChannelRow | null {
+	const db = getDb();
+	const row = db.prepare('SELECT * FROM alert_channels WHERE id = ?').get(id) as
+		| Record<string, unknown>
 		| undefined;
-	if (!row) return null;
-	return { data: JSON.parse(row.data) as T, updatedAt: row.updated_at };
+	return row ? rowToAlertChannel(row) : null;
+}
+
+export function upsertAlertChannelRow(
+	row: Omit<AlertChannelRow, 'createdAt' | 'updatedAt'>
+): void {
+	const db = getDb();
+	const now = Date.now();
+	db.prepare(
+		`INSERT INTO alert_channels (id, name, type, target, token, severities, alert_types, enabled, created_at, updated_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT(id) DO UPDATE SET
+			name = excluded.name,
+			type = excluded.type,
+			target = excluded.target,
+			token = excluded.token,
+			severities = excluded.severities,
+			alert_types = excluded.alert_types,
+			enabled = excluded.enabled,
+			updated_at = excluded.updated_at`
+	).run(
+		row.id,
+		row.name,
+		row.type,
+		row.target,
+		row.token,
+		JSON.stringify(row.severities),
+		JSON.stringify(row.alertTypes),
+		row.enabled ? 1 : 0,
+		now,
+		now
+	);
+}
+
+export function deleteAlertChannelRow(id: string): boolean {
+	const db = getDb();
+	return db.prepare('DELETE FROM alert_channels WHERE id = ?').run(id).changes > 0;
+}
+
+export function insertAlertDelivery(row: Omit<AlertDeliveryRow, 'id'>): void {
+	const db = getDb();
+	db.prepare(
+		'INSERT INTO alert_deliveries (channel_id, alert_id, alert_type, severity, title, status, attempts, error, created_at, completed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+	).run(
+		row.channelId,
+		row.alertId,
+		row.alertType,
+		row.severity,
+		row.title,
+		row.status,
+		row.attempts,
+		row.error,
+		row.createdAt,
+		row.completedAt
+	);
+}
+
+export function getAlertDeliveries(limit: number, channelId?: string): AlertDeliveryRow[] {
+	const db = getDb();
+	const rows = (
+		channelId
+			? db
+					.prepare(
+						'SELECT * FROM alert_deliveries WHERE channel_id = ? ORDER BY id DESC LIMIT ?'
+					)
+					.all(channelId, limit)
+			: db.prepare('SELECT * FROM alert_deliveries ORDER BY id DESC LIMIT ?').all(limit)
+	) as Record<string, unknown>[];
+	return rows.map((row) => ({
+		id: row.id as number,
+		channelId: row.channel_id as string,
+		alertId: row.alert_id as string,
+		alertType: row.alert_type as string,
+		severity: row.severity as string,
+		title: row.title as string,
+		status: row.status as 'sent' | 'failed',
+		attempts: row.attempts as number,
+		error: (row.error as string | null) ?? null,
+		createdAt: row.created_at as number,
+		completedAt: row.completed_at as number
+	}));
+}
+
+export function pruneAlertDeliveries(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM alert_deliveries WHERE created_at < ?').run(cutoff).changes;
+}
+
+// --- Alert inbox operations ---
+
+export interface AlertRow {
+	id: string;
+	type: string;
+	key: string;
+	severity: string;
+	detail: string | null;
+	panelId: string | null;
+	tabId: string | null;
+	sourceId: string | null;
+	url: string | null;
+	firstFiredAt: number;
+	lastFiredAt: number;
+	lastSeenAt: number;
+	ackedAt: number | null;
+	fireCount: number;
+}
+
+function rowToAlert(row: Record<string, unknown>): AlertRow {
+	return {
+		id: row.id as string,
+		type: row.type as string,
+		key: row.alert_key as string,
+		severity: row.severity as string,
+		detail: (row.detail as string | null) ?? null,
+		panelId: (row.panel_id as string | null) ?? null,
+		tabId: (row.tab_id as string | null) ?? null,
+		sourceId: (row.source_id as string | null) ?? null,
+		url: (row.url as string | null) ?? null,
+		firstFiredAt: row.first_fired_at as number,
+		lastFiredAt: row.last_fired_at as number,
+		lastSeenAt: row.last_seen_at as number,
+		ackedAt: (row.acked_at as number | null) ?? null,
+		fireCount: row.fire_count as number
+	};
+}
+
+export function getUnacknowledgedAlertCount(): number {
+	const db = getDb();
+	return (
+		db.prepare('SELECT COUNT(*) as count FROM alerts WHERE acked_at IS NULL').get() as {
+			count: number;
+		}
+	).count;
+}
+
+/**
+ * Last-seen time of every stored alert of a type, keyed by alert key
+ */
+export function getAlertSightings(type: string): Map<string, number> {
+	const db = getDb();
+	const rows = db
+		.prepare('SELECT alert_key, last_seen_at FROM alerts WHERE type = ?')
+		.all(type) as { alert_key: string; last_seen_at: number }[];
+	return new Map(rows.map((row) => [row.alert_key, row.last_seen_at]));
+}
+
+export function getAlertRow(id: string): AlertRow | null {
+	const db = getDb();
+	const row = db.prepare('SELECT * FROM alerts WHERE id = ?').get(id) as
+		| Record<string, unknown>
+		| undefined;
+	return row ? rowToAlert(row) : null;
+}
+
+export function getAlertRows(limit: number, unacknowledgedOnly = false): AlertRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT * FROM alerts ${unacknowledgedOnly ? 'WHERE acked_at IS NULL' : ''}
+			ORDER BY last_fired_at DESC, id ASC LIMIT ?`
+		)
+		.all(limit) as Record<string, unknown>[];
+	return rows.map(rowToAlert);
+}
+
+/**
+ * Alerts that had fired by `until` and were still seen after `since`, latest first
+ */
+export function getAlertRowsActiveBetween(since: number, until: number, limit: number): AlertRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT * FROM alerts WHERE first_fired_at <= ? AND last_seen_at >= ?
+			ORDER BY last_fired_at DESC, id ASC LIMIT ?`
+		)
+		.all(until, since, limit) as Record<string, unknown>[];
+	return rows.map(rowToAlert);
+}
+
+/**
+ * Insert a newly fired alert, or re-fire a stored one: bumps last-fired and the
+ * fire count and clears the acknowledgement
+ */
+export function upsertFiredAlertRow(
+	row: Omit<AlertRow, 'firstFiredAt' | 'lastSeenAt' | 'ackedAt' | 'fireCount'>
+): void {
+	const db = getDb();
+	db.prepare(
+		`INSERT INTO alerts (id, type, alert_key, severity, detail, panel_id, tab_id, source_id, url, first_fired_at, last_fired_at, last_seen_at, acked_at, fire_count)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, 1)
+		ON CONFLICT(id) DO UPDATE SET
+			severity = excluded.severity,
+			detail = excluded.detail,
+			panel_id = excluded.panel_id,
+			tab_id = excluded.tab_id,
+			source_id = excluded.source_id,
+			url = excluded.url,
+			last_fired_at = excluded.last_fired_at,
+			last_seen_at = excluded.last_seen_at,
+			acked_at = NULL,
+			fire_count = alerts.fire_count + 1`
+	).run(
+		row.id,
+		row.type,
+		row.key,
+		row.severity,
+		row.detail,
+		row.panelId,
+		row.tabId,
+		row.sourceId,
+		row.url,
+		row.lastFiredAt,
+		row.lastFiredAt,
+		row.lastFiredAt
+	);
+}
+
+export function markAlertRowsSeen(ids: string[], seenAt: number): void {
+	if (ids.length === 0) return;
+	const db = getDb();
+	const stmt = db.prepare('UPDATE alerts SET last_seen_at = ? WHERE id = ?');
+	db.transaction(() => {
+		for (const id of ids) stmt.run(seenAt, id);
+	})();
+}
+
+/**
+ * Set the acknowledgement time unless already acknowledged. False when the alert does not exist.
+ */
+export function acknowledgeAlertRow(id: string, ackedAt: number): boolean {
+	const db = getDb();
+	return (
+		db.prepare('UPDATE alerts SET acked_at = COALESCE(acked_at, ?) WHERE id = ?').run(ackedAt, id)
+			.changes > 0
+	);
+}
+
+export function pruneAlerts(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM alerts WHERE last_seen_at < ?').run(cutoff).changes;
+}
+
+// --- Markets operations ---
+
+export function setMarketData(key: string, data: unknown): void {
+	const db = getDb();
+	db.prepare('INSERT OR REPLACE INTO markets (key, data, updated_at) VALUES (?, ?, ?)').run(
+		key,
+		JSON.stringify(data),
+		Date.now()
+	);
+}
+
+export function getMarketData<T>(key: string): { data: T; updatedAt: number } | null {
+	const db = getDb();
+	const row = db.prepare('SELECT data, updated_at FROM markets WHERE key = ?').get(key) as
+		| { data: string; updated_at: number }
+		| undefined;
+	if (!row) return null;
+	return { data: JSON.parse(row.data) as T, updatedAt: row.updated_at };
+}
+
+export interface MarketTickRow {
+	symbol: string;
+	category: string;
+	timestamp: number;
+	price: number;
+	changePercent: number | null;
+}
+
+export function insertMarketTicks(ticks: MarketTickRow[]): number {
+	const db = getDb();
+	const insert = db.prepare(
+		'INSERT OR IGNORE INTO market_ticks (symbol, category, timestamp, price, change_percent) VALUES (?, ?, ?, ?, ?)'
+	);
+	const insertMany = db.transaction((rows: MarketTickRow[]) => {
+		let inserted = 0;
+		for (const row of rows) {
+			inserted += insert.run(row.symbol, row.category, row.timestamp, row.price, row.changePercent)
+				.changes;
+		}
+		return inserted;
+	});
+	return insertMany(ticks);
+}
+
+/**
+ * Most recent tick per symbol
+ */
+export function getLatestMarketTicks(): Map<string, MarketTickRow> {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT t.symbol, t.category, t.timestamp, t.price, t.change_percent
+			FROM market_ticks t
+			JOIN (SELECT symbol, MAX(timestamp) AS timestamp FROM market_ticks GROUP BY symbol) latest
+				ON latest.symbol = t.symbol AND latest.timestamp = t.timestamp`
+		)
+		.all() as Array<{
+		symbol: string;
+		category: string;
+		timestamp: number;
+		price: number;
+		change_percent: number | null;
+	}>;
+	return new Map(
+		rows.map((row) => [
+			row.symbol,
+			{
+				symbol: row.symbol,
+				category: row.category,
+				timestamp: row.timestamp,
+				price: row.price,
+				changePercent: row.change_percent
+			}
+		])
+	);
+}
+
+export function getMarketTicksSince(symbols: string[], since: number): MarketTickRow[] {
+	if (symbols.length === 0) return [];
+	const db = getDb();
+	const placeholders = symbols.map(() => '?').join(', ');
+	const rows = db
+		.prepare(
+			`SELECT symbol, category, timestamp, price, change_percent FROM market_ticks
+			WHERE symbol IN (${placeholders}) AND timestamp >= ?
+			ORDER BY symbol, timestamp ASC`
+		)
+		.all(...symbols, since) as Array<{
+		symbol: string;
+		category: string;
+		timestamp: number;
+		price: number;
+		change_percent: number | null;
+	}>;
+	return rows.map((row) => ({
+		symbol: row.symbol,
+		category: row.category,
+		timestamp: row.timestamp,
+		price: row.price,
+		changePercent: row.change_percent
+	}));
+}
+
+/**
+ * Last tick per symbol in [notBefore, at] - the market board as it stood at `at`
+ */
+export function getMarketTicksAt(at: number, notBefore: number): MarketTickRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT t.symbol, t.category, t.timestamp, t.price, t.change_percent
+			FROM market_ticks t
+			JOIN (
+				SELECT symbol, MAX(timestamp) AS timestamp FROM market_ticks
+				WHERE timestamp <= @at AND timestamp >= @notBefore GROUP BY symbol
+			) latest ON latest.symbol = t.symbol AND latest.timestamp = t.timestamp
+			ORDER BY t.symbol`
+		)
+		.all({ at, notBefore }) as Array<{
+		symbol: string;
+		category: string;
+		timestamp: number;
+		price: number;
+		change_percent: number | null;
+	}>;
+	return rows.map((row) => ({
+		symbol: row.symbol,
+		category: row.category,
+		timestamp: row.timestamp,
+		price: row.price,
+		changePercent: row.change_percent
+	}));
+}
+
+/**
+ * Keep only the last tick per symbol and bucket for ticks older than `before`
+ */
+export function downsampleMarketTicks(before: number, bucketMs: number): number {
+	const db = getDb();
+	return db
+		.prepare(
+			`DELETE FROM market_ticks WHERE timestamp < @before AND EXISTS (
+				SELECT 1 FROM market_ticks later
+				WHERE later.symbol = market_ticks.symbol
+					AND later.timestamp > market_ticks.timestamp
+					AND later.timestamp < @before
+					AND CAST(later.timestamp / @bucketMs AS INTEGER) =
+						CAST(market_ticks.timestamp / @bucketMs AS INTEGER)
+			)`
+		)
+		.run({ before, bucketMs }).changes;
+}
+
+export function pruneMarketTicks(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM market_ticks WHERE timestamp < ?').run(cutoff).changes;
+}
+
+/**
+ * Earliest or latest tick for a symbol in [from, to]
+ */
+export function getMarketTickInRange(
+	symbol: string,
+	from: number,
+	to: number,
+	pick: 'earliest' | 'latest'
+): MarketTickRow | null {
+	const db = getDb();
+	const row = db
+		.prepare(
+			`SELECT symbol, category, timestamp, price, change_percent FROM market_ticks
+			WHERE symbol = ? AND timestamp >= ? AND timestamp <= ?
+			ORDER BY timestamp ${pick === 'earliest' ? 'ASC' : 'DESC'} LIMIT 1`
+		)
+		.get(symbol, from, to) as
+		| {
+				symbol: string;
+				category: string;
+				timestamp: number;
+				price: number;
+				change_percent: number | null;
+		  }
+		| undefined;
+	if (!row) return null;
+	return {
+		symbol: row.symbol,
+		category: row.category,
+		timestamp: row.timestamp,
+		price: row.price,
+		changePercent: row.change_percent
+	};
+}
+
+// --- Event study operations ---
+
+export interface EventStudyObservationRow {
+	kind: string;
+	signalId: string;
+	name: string | null;
+	firedAt: number;
+	symbol: string;
+	direction: string;
+	priceT0: number;
+	price1h: number | null;
+	price4h: number | null;
+	price24h: number | null;
+}
+
+type EventStudyPriceColumn = 'price_1h' | 'price_4h' | 'price_24h';
+
+const EVENT_STUDY_PRICE_COLUMNS: Record<string, EventStudyPriceColumn> = {
+	'1h': 'price_1h',
+	'4h': 'price_4h',
+	'24h': 'price_24h'
+};
+
+function mapEventStudyRow(row: {
+	kind: string;
+	signal_id: string;
+	name: string | null;
+	fired_at: number;
+	symbol: string;
+	direction: string;
+	price_t0: number;
+	price_1h: number | null;
+	price_4h: number | null;
+	price_24h: number | null;
+}): EventStudyObservationRow {
+	return {
+		kind: row.kind,
+		signalId: row.signal_id,
+		name: row.name,
+		firedAt: row.fired_at,
+		symbol: row.symbol,
+		direction: row.direction,
+		priceT0: row.price_t0,
+		price1h: row.price_1h,
+		price4h: row.price_4h,
+		price24h: row.price_24h
+	};
+}
+
+export function insertEventStudyObservations(
+	rows: Array<Omit<EventStudyObservationRow, 'price1h' | 'price4h' | 'price24h'>>
+): number {
+	const db = getDb();
+	const insert = db.prepare(
+		`INSERT OR IGNORE INTO event_study_observations
+			(kind, signal_id, name, fired_at, symbol, direction, price_t0)
+		VALUES (?, ?, ?, ?, ?, ?, ?)`
+	);
+	const insertMany = db.transaction((items: typeof rows) => {
+		let inserted = 0;
+		for (const row of items) {
+			inserted += insert.run(
+				row.kind,
+				row.signalId,
+				row.name,
+				row.firedAt,
+				row.symbol,
+				row.direction,
+				row.priceT0
+			).changes;
+		}
+		return inserted;
+	});
+	return insertMany(rows);
+}
+
+export function getEventStudyObservations(since = 0): EventStudyObservationRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT kind, signal_id, name, fired_at, symbol, direction, price_t0, price_1h, price_4h, price_24h
+			FROM event_study_observations WHERE fired_at >= ? ORDER BY fired_at ASC`
+		)
+		.all(since) as Parameters<typeof mapEventStudyRow>[0][];
+	return rows.map(mapEventStudyRow);
+}
+
+/**
+ * Observations fired since `since` that still miss at least one horizon price
+ */
+export function getPendingEventStudyObservations(since: number): EventStudyObservationRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT kind, signal_id, name, fired_at, symbol, direction, price_t0, price_1h, price_4h, price_24h
+			FROM event_study_observations
+			WHERE fired_at >= ? AND (price_1h IS NULL OR price_4h IS NULL OR price_24h IS NULL)
+			ORDER BY fired_at ASC`
+		)
+		.all(since) as Parameters<typeof mapEventStudyRow>[0][];
+	return rows.map(mapEventStudyRow);
+}
+
+export function setEventStudyPrice(
+	key: Pick<EventStudyObservationRow, 'kind' | 'signalId' | 'firedAt' | 'symbol'>,
+	horizon: string,
+	price: number
+): void {
+	const column = EVENT_STUDY_PRICE_COLUMNS[horizon];
+	if (!column) throw new Error(`Unknown event study horizon: ${horizon}`);
+	const db = getDb();
+	db.prepare(
+		`UPDATE event_study_observations SET ${column} = ?
+		WHERE kind = ? AND signal_id = ? AND fired_at = ? AND symbol = ?`
+	).run(price, key.kind, key.signalId, key.firedAt, key.symbol);
+}
+
+export function pruneEventStudyObservations(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM event_study_observations WHERE fired_at < ?').run(cutoff).changes;
+}
+
+// --- Whale transaction operations ---
+
+function rowToWhaleTransaction(row: Record<string, unknown>): WhaleTransaction {
+	return {
+		id: row.id as string,
+		hash: row.hash as string,
+		chain: row.chain as string,
+		token: row.token as string,
+		from: row.from_address as string,
+		to: row.to_address as string,
+		fromLabel: (row.from_label as string) ?? null,
+		toLabel: (row.to_label as string) ?? null,
+		value: row.amount as number,
+		valueUsd: row.amount_usd as number,
+		type: row.type as WhaleTransaction['type'],
+		flow: row.flow as WhaleTransaction['flow'],
+		source: row.source as string,
+		timestamp: row.timestamp as number
+	};
+}
+
+/**
+ * Insert new whale transactions; ones already reported by another provider are kept as-is
+ */
+export function insertWhaleTransactions(transactions: WhaleTransaction[]): number {
+	const db = getDb();
+	const insert = db.prepare(
+		`INSERT OR IGNORE INTO whale_transactions
+			(id, hash, chain, token, from_address, to_address, from_label, to_label, amount, amount_usd,
+			type, flow, source, timestamp)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+	);
+	const insertMany = db.transaction((items: WhaleTransaction[]) => {
+		let inserted = 0;
+		for (const tx of items) {
+			inserted += insert.run(
+				tx.id,
+				tx.hash,
+				tx.chain,
+				tx.token,
+				tx.from,
+				tx.to,
+				tx.fromLabel,
+				tx.toLabel,
+				tx.value,
+				tx.valueUsd,
+				tx.type,
+				tx.flow,
+				tx.source,
+				tx.timestamp
+			).changes;
+		}
+		return inserted;
+	});
+	return insertMany(transactions);
+}
+
+export function getWhaleTransactions(limit: number, token?: string): WhaleTransaction[] {
+	const db = getDb();
+	const rows = token
+		? db
+				.prepare(
+					'SELECT * FROM whale_transactions WHERE token = ? ORDER BY timestamp DESC LIMIT ?'
+				)
+				.all(token.toUpperCase(), limit)
+		: db.prepare('SELECT * FROM whale_transactions ORDER BY timestamp DESC LIMIT ?').all(limit);
+	return (rows as Record<string, unknown>[]).map(rowToWhaleTransaction);
+}
+
+export function pruneWhaleTransactions(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM whale_transactions WHERE timestamp < ?').run(cutoff).changes;
+}
+
+// --- Government contract operations ---
+
+function rowToGovContract(row: Record<string, unknown>): GovContract {
+	return {
+		id: row.id as string,
+		awardId: row.award_id as string,
+		title: row.title as string,
+		agency: row.agency as string,
+		subAgency: (row.sub_agency as string) ?? null,
+		vendor: row.vendor as string,
+		value: row.value as number,
+		naicsCode: (row.naics_code as string) ?? null,
+		date: row.date as string,
+		url: row.url as string,
+		firstSeenAt: row.first_seen_at as number,
+		headlineMentions: row.headline_mentions as number,
+		headlineTitle: (row.headline_title as string) ?? null,
+		headlineUrl: (row.headline_url as string) ?? null
+	};
+}
+
+export type GovContractInput = Omit<
+	GovContract,
+	'firstSeenAt' | 'headlineMentions' | 'headlineTitle' | 'headlineUrl'
+>;
+
+/**
+ * Insert new awards and refresh the amounts of known ones (modifications change the total);
+ * returns the number of awards not seen before
+ */
+export function upsertGovContracts(contracts: GovContractInput[], seenAt = Date.now()): number {
+	const db = getDb();
+	const exists = db.prepare('SELECT 1 FROM gov_contracts WHERE id = ?');
+	const upsert = db.prepare(
+		`INSERT INTO gov_contracts
+			(id, award_id, title, agency, sub_agency, vendor, value, naics_code, date, url, first_seen_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT(id) DO UPDATE SET
+			title = excluded.title,
+			value = excluded.value,
+			naics_code = excluded.naics_code`
+	);
+	const upsertMany = db.transaction((items: GovContractInput[]) => {
+		let inserted = 0;
+		for (const contract of items) {
+			if (!exists.get(contract.id)) inserted += 1;
+			upsert.run(
+				contract.id,
+				contract.awardId,
+				contract.title,
+				contract.agency,
+				contract.subAgency,
+				contract.vendor,
+				contract.value,
+				contract.naicsCode,
+				contract.date,
+				contract.url,
+				seenAt
+			);
+		}
+		return inserted;
+	});
+	return upsertMany(contracts);
+}
+
+export interface GovContractQuery {
+	page: number;
+	limit: number;
+	agency?: string;
+	sort: GovContractSort;
+}
+
+export function getGovContractsPage(query: GovContractQuery): {
+	contracts: GovContract[];
+	total: number;
+} {
+	const db = getDb();
+	const where = query.agency ? 'WHERE agency = ?' : '';
+	const params: unknown[] = query.agency ? [query.agency] : [];
+	const orderBy = query.sort === 'value' ? 'value DESC, date DESC' : 'date DESC, value DESC';
+
+	const { total } = db
+		.prepare(`SELECT COUNT(*) as total FROM gov_contracts ${where}`)
+		.get(...params) as { total: number };
+	const rows = db
+		.prepare(`SELECT * FROM gov_contracts ${where} ORDER BY ${orderBy}, id LIMIT ? OFFSET ?`)
+		.all(...params, query.limit, (query.page - 1) * query.limit) as Record<string, unknown>[];
+	return { contracts: rows.map(rowToGovContract), total };
+}
+
+export function getGovContractAgencyCounts(): Array<{ agency: string; count: number }> {
+	const db = getDb();
+	return db
+		.prepare(
+			'SELECT agency, COUNT(*) as count FROM gov_contracts GROUP BY agency ORDER BY count DESC, agency'
+		)
+		.all() as Array<{ agency: string; count: number }>;
+}
+
+/**
+ * Awards dated on or after `sinceDate` (YYYY-MM-DD)
+ */
+export function getGovContractsSince(sinceDate: string): GovContract[] {
+	const db = getDb();
+	const rows = db
+		.prepare('SELECT * FROM gov_contracts WHERE date >= ? ORDER BY date DESC')
+		.all(sinceDate) as Record<string, unknown>[];
+	return rows.map(rowToGovContract);
+}
+
+export function setGovContractHeadlines(
+	updates: Array<Pick<GovContract, 'id' | 'headlineMentions' | 'headlineTitle' | 'headlineUrl'>>
+): void {
+	const db = getDb();
+	const update = db.prepare(
+		'UPDATE gov_contracts SET headline_mentions = ?, headline_title = ?, headline_url = ? WHERE id = ?'
+	);
+	const updateMany = db.transaction((items: typeof updates) => {
+		for (const item of items) {
+			update.run(item.headlineMentions, item.headlineTitle, item.headlineUrl, item.id);
+		}
+	});
+	updateMany(updates);
+}
+
+export function pruneGovContracts(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = new Date(Date.now() - maxAgeDays * 86400000).toISOString().slice(0, 10);
+	return db.prepare('DELETE FROM gov_contracts WHERE date < ?').run(cutoff).changes;
+}
+
+// --- Layoff operations ---
+
+/**
+ * One WARN notice or headline; reports of the same company close together share an event
+ */
+export interface LayoffReportRow {
+	id: string;
+	eventId: string;
+	kind: LayoffReportKind;
+	company: string;
+	/** YYYY-MM-DD notice or publication date */
+	date: string;
+	count: number | null;
+	percentage: number | null;
+	/** Sector from the NAICS code or keywords; null when neither matched */
+	sector: LayoffSector | null;
+	title: string;
+	source: string;
+	url: string;
+	state: string | null;
+	location: string | null;
+}
+
+export interface LayoffEventRow extends LayoffData {
+	companyKey: string;
+	lastDate: string;
+}
+
+function rowToLayoffReport(row: Record<string, unknown>): LayoffReportRow {
+	return {
+		id: row.id as string,
+		eventId: row.event_id as string,
+		kind: row.kind as LayoffReportKind,
+		company: row.company as string,
+		date: row.date as string,
+		count: (row.count as number) ?? null,
+		percentage: (row.percentage as number) ?? null,
+		sector: (row.sector as LayoffSector) ?? null,
+		title: row.title as string,
+		source: row.source as string,
+		url: row.url as string,
+		state: (row.state as string) ?? null,
+		location: (row.location as string) ?? null
+	};
+}
+
+function rowToLayoffData(row: Record<string, unknown>): LayoffData {
+	return {
+		id: row.id as string,
+		company: row.company as string,
+		count: (row.count as number) ?? null,
+		percentage: (row.percentage as number) ?? null,
+		date: row.first_date as string,
+		sector: row.sector as LayoffSector,
+		title: row.title as string,
+		source: row.source as string,
+		url: row.url as string,
+		kind: row.kind as LayoffReportKind,
+		state: (row.state as string) ?? null,
+		reports: row.reports as number
+	};
+}
+
+export function hasLayoffReport(id: string): boolean {
+	const db = getDb();
+	return !!db.prepare('SELECT 1 FROM layoff_reports WHERE id = ?').get(id);
+}
+
+/**
+ * Event for this company whose reports span a date within `windowDays` of `date`. Keys match
+ * when equal or when one extends the other by whole words ("meta" and "meta platforms").
+ */
+export function findLayoffEventId(
+	companyKey: string,
+	date: string,
+	windowDays: number
+): string | null {
+	const db = getDb();
+	const day = Date.parse(date);
+	const toDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+	const row = db
+		.prepare(
+			`SELECT id FROM layoff_events
+			WHERE (company_key = ? OR company_key LIKE ? OR ? LIKE company_key || ' %')
+				AND first_date <= ? AND last_date >= ?
+			ORDER BY first_date DESC LIMIT 1`
+		)
+		.get(
+			companyKey,
+			`${companyKey} %`,
+			companyKey,
+			toDate(day + windowDays * 86400000),
+			toDate(day - windowDays * 86400000)
+		) as { id: string } | undefined;
+	return row?.id ?? null;
+}
+
+export function insertLayoffReport(report: LayoffReportRow, seenAt = Date.now()): boolean {
+	const db = getDb();
+	return (
+		db
+			.prepare(
+				`INSERT OR IGNORE INTO layoff_reports
+					(id, event_id, kind, company, date, count, percentage, sector, title, source, url, state,
+					location, seen_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+			)
+			.run(
+				report.id,
+				report.eventId,
+				report.kind,
+				report.company,
+				report.date,
+				report.count,
+				report.percentage,
+				report.sector,
+				report.title,
+				report.source,
+				report.url,
+				report.state,
+				report.location,
+				seenAt
+			).changes > 0
+	);
+}
+
+export function getLayoffReports(eventId: string): LayoffReportRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare('SELECT * FROM layoff_reports WHERE event_id = ? ORDER BY date, id')
+		.all(eventId) as Record<string, unknown>[];
+	return rows.map(rowToLayoffReport);
+}
+
+export function upsertLayoffEvent(event: LayoffEventRow, updatedAt = Date.now()): void {
+	const db = getDb();
+	db.prepare(
+		`INSERT INTO layoff_events
+			(id, company, company_key, first_date, last_date, sector, count, percentage, title, source,
+			url, kind, state, reports, updated_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT(id) DO UPDATE SET
+			company = excluded.company,
+			first_date = excluded.first_date,
+			last_date = excluded.last_date,
+			sector = excluded.sector,
+			count = excluded.count,
+			percentage = excluded.percentage,
+			title = excluded.title,
+			source = excluded.source,
+			url = excluded.url,
+			kind = excluded.kind,
+			state = excluded.state,
+			reports = excluded.reports,
+			updated_at = excluded.updated_at`
+	).run(
+		event.id,
+		event.company,
+		event.companyKey,
+		event.date,
+		event.lastDate,
+		event.sector,
+		event.count,
+		event.percentage,
+		event.title,
+		event.source,
+		event.url,
+		event.kind,
+		event.state,
+		event.reports,
+		updatedAt
+	);
+}
+
+/**
+ * Events first reported on or after `sinceDate` (YYYY-MM-DD), newest first
+ */
+export function getLayoffEvents(sinceDate: string, limit: number): LayoffData[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			'SELECT * FROM layoff_events WHERE first_date >= ? ORDER BY first_date DESC, count DESC LIMIT ?'
+		)
+		.all(sinceDate, limit) as Record<string, unknown>[];
+	return rows.map(rowToLayoffData);
+}
+
+/**
+ * Events and affected workers per sector since `sinceDate`; events without a headcount add none
+ */
+export function getLayoffSectorStats(sinceDate: string): LayoffSectorStats[] {
+	const db = getDb();
+	return db
+		.prepare(
+			`SELECT sector, COUNT(*) as events, COALESCE(SUM(count), 0) as workers
+			FROM layoff_events WHERE first_date >= ?
+			GROUP BY sector ORDER BY workers DESC, events DESC, sector`
+		)
+		.all(sinceDate) as LayoffSectorStats[];
+}
+
+export function pruneLayoffs(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = new Date(Date.now() - maxAgeDays * 86400000).toISOString().slice(0, 10);
+	const prune = db.transaction(() => {
+		db.prepare(
+			'DELETE FROM layoff_reports WHERE event_id IN (SELECT id FROM layoff_events WHERE last_date < ?)'
+		).run(cutoff);
+		return db.prepare('DELETE FROM layoff_events WHERE last_date < ?').run(cutoff).changes;
+	});
+	return prune();
+}
+
+// --- Prediction market operations ---
+
+function rowToPrediction(row: Record<string, unknown>): Prediction {
+	return {
+		id: row.id as string,
+		question: row.question as string,
+		yes: row.yes as number,
+		volume: row.volume as number,
+		volume24hr: row.volume_24hr as number,
+		url: row.url as string,
+		endDate: (row.end_date as string) ?? undefined,
+		category: row.category as PredictionCategory
+	};
+}
+
+/**
+ * Store the latest state of each market and record its yes price as a snapshot at `timestamp`
+ */
+export function upsertPredictionMarkets(predictions: Prediction[], timestamp: number): void {
+	const db = getDb();
+	const upsert = db.prepare(
+		`INSERT OR REPLACE INTO prediction_markets (id, question, url, category, end_date, yes, volume, volume_24hr, updated_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+	);
+	const snapshot = db.prepare(
+		'INSERT OR REPLACE INTO prediction_snapshots (market_id, timestamp, yes) VALUES (?, ?, ?)'
+	);
+	const upsertMany = db.transaction((rows: Prediction[]) => {
+		for (const row of rows) {
+			upsert.run(
+				row.id,
+				row.question,
+				row.url,
+				row.category,
+				row.endDate ?? null,
+				row.yes,
+				row.volume,
+				row.volume24hr,
+				timestamp
+			);
+			snapshot.run(row.id, timestamp, row.yes);
+		}
+	});
+	upsertMany(predictions);
+}
+
+/**
+ * Markets seen by a poll at or after `updatedSince`, highest volume first
+ */
+export function getPredictionMarkets(updatedSince: number, limit: number): Prediction[] {
+	const db = getDb();
+	const rows = db
+		.prepare('SELECT * FROM prediction_markets WHERE updated_at >= ? ORDER BY volume DESC LIMIT ?')
+		.all(updatedSince, limit) as Record<string, unknown>[];
+	return rows.map(rowToPrediction);
+}
+
+/**
+ * Latest yes price per market recorded in [notBefore, at]
+ */
+export function getPredictionSnapshotsBefore(at: number, notBefore: number): Map<string, number> {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT s.market_id, s.yes FROM prediction_snapshots s
+			JOIN (
+				SELECT market_id, MAX(timestamp) AS timestamp FROM prediction_snapshots
+				WHERE timestamp <= ? AND timestamp >= ? GROUP BY market_id
+			) baseline ON baseline.market_id = s.market_id AND baseline.timestamp = s.timestamp`
+		)
+		.all(at, notBefore) as Array<{ market_id: string; yes: number }>;
+	return new Map(rows.map((row) => [row.market_id, row.yes]));
+}
+
+export function getPredictionSnapshots(marketId: string, since: number): PredictionSnapshot[] {
+	const db = getDb();
+	return db
+		.prepare(
+			`SELECT timestamp, yes FROM prediction_snapshots
+			WHERE market_id = ? AND timestamp >= ? ORDER BY timestamp ASC`
+		)
+		.all(marketId, since) as PredictionSnapshot[];
+}
+
+/**
+ * Keep only the last snapshot per market and bucket for snapshots older than `before`
+ */
+export function downsamplePredictionSnapshots(before: number, bucketMs: number): number {
+	const db = getDb();
+	return db
+		.prepare(
+			`DELETE FROM prediction_snapshots WHERE timestamp < @before AND EXISTS (
+				SELECT 1 FROM prediction_snapshots later
+				WHERE later.market_id = prediction_snapshots.market_id
+					AND later.timestamp > prediction_snapshots.timestamp
+					AND later.timestamp < @before
+					AND CAST(later.timestamp / @bucketMs AS INTEGER) =
+						CAST(prediction_snapshots.timestamp / @bucketMs AS INTEGER)
+			)`
+		)
+		.run({ before, bucketMs }).changes;
+}
+
+/**
+ * Drop snapshots older than `maxAgeDays`, and markets no poll has returned in that time
+ */
+export function prunePredictionHistory(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	const prune = db.transaction(() => {
+		db.prepare('DELETE FROM prediction_markets WHERE updated_at < ?').run(cutoff);
+		return db.prepare('DELETE FROM prediction_snapshots WHERE timestamp < ?').run(cutoff).changes;
+	});
+	return prune();
+}
+
+// --- Story cluster operations ---
+
+/**
+ * Headlines published after `since`, split by whether they already belong to a story
+ */
+export function getNewsForClustering(since: number): {
+	clustered: NewsItem[];
+	unclustered: NewsItem[];
+} {
+	const db = getDb();
+	const rows = db
+		.prepare('SELECT * FROM news WHERE timestamp > ? ORDER BY timestamp DESC')
+		.all(since) as Record<string, unknown>[];
+	const items = rows.map(rowToNewsItem);
+	return {
+		clustered: items.filter((item) => item.clusterId),
+		unclustered: items.filter((item) => !item.clusterId)
+	};
+}
+
+export function setNewsClusterIds(assignments: Map<string, string>): void {
+	const db = getDb();
+	const stmt = db.prepare('UPDATE news SET cluster_id = ? WHERE id = ?');
+	const updateAll = db.transaction(() => {
+		for (const [id, clusterId] of assignments) stmt.run(clusterId, id);
+	});
+	updateAll();
+}
+
+// --- Article body operations ---
+
+/** ok: body stored; blocked: robots.txt disallows it; failed: HTTP or network error; empty: no article text */
+export type NewsArticleStatus = 'ok' | 'blocked' | 'failed' | 'empty';
+
+export interface NewsArticleRow {
+	newsId: string;
+	url: string;
+	status: NewsArticleStatus;
+	content: string | null;
+	fetchedAt: number;
+}
+
+/**
+ * Headlines published after `since` whose page was never requested, newest first
+ */
+export function getArticleCandidates(since: number, limit: number): NewsItem[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT news.* FROM news
+			LEFT JOIN news_articles ON news_articles.news_id = news.id
+			WHERE news_articles.news_id IS NULL AND news.timestamp > ?
+			ORDER BY news.timestamp DESC LIMIT ?`
+		)
+		.all(since, limit) as Record<string, unknown>[];
+	return rows.map(rowToNewsItem);
+}
+
+export function insertNewsArticle(article: NewsArticleRow): void {
+	const db = getDb();
+	db.prepare(
+		`INSERT OR REPLACE INTO news_articles (news_id, url, status, content, fetched_at)
+		VALUES (?, ?, ?, ?, ?)`
+	).run(article.newsId, article.url, article.status, article.content, article.fetchedAt);
+}
+
+export function getNewsArticle(newsId: string): NewsArticleRow | null {
+	const db = getDb();
+	const row = db.prepare('SELECT * FROM news_articles WHERE news_id = ?').get(newsId) as
+		| Record<string, unknown>
+		| undefined;
+	if (!row) return null;
+	return {
+		newsId: row.news_id as string,
+		url: row.url as string,
+		status: row.status as NewsArticleStatus,
+		content: (row.content as string) ?? null,
+		fetchedAt: row.fetched_at as number
+	};
+}
+
+/**
+ * Store the region and topics detected from a headline's full text
+ */
+export function updateNewsDetection(id: string, region: string | null, topics: string[]): void {
+	const db = getDb();
+	db.prepare('UPDATE news SET region = ?, topics = ? WHERE id = ?').run(
+		region,
+		JSON.stringify(topics),
+		id
+	);
+}
+
+export function pruneNewsArticles(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM news_articles WHERE fetched_at < ?').run(cutoff).changes;
+}
+
+// --- Translation operations ---
+
+/**
+ * Headlines in another language than `targetLang` still waiting for a translated title
+ */
+export function getTranslationCandidates(
+	targetLang: NewsLanguage,
+	since: number,
+	limit: number
+): NewsItem[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT * FROM news
+			WHERE translated_title IS NULL AND lang IS NOT NULL AND lang != ? AND timestamp > ?
+			ORDER BY is_alert DESC, timestamp DESC LIMIT ?`
+		)
+		.all(targetLang, since, limit) as Record<string, unknown>[];
+	return rows.map(rowToNewsItem);
+}
+
+export function updateNewsTranslation(id: string, translatedTitle: string): void {
+	const db = getDb();
+	db.prepare('UPDATE news SET translated_title = ? WHERE id = ?').run(translatedTitle, id);
+}
+
+// --- Sentiment operations ---
+
+export function updateNewsSentiment(id: string, sentiment: number): void {
+	const db = getDb();
+	db.prepare('UPDATE news SET sentiment = ? WHERE id = ?').run(sentiment, id);
+}
+
+/**
+ * Every stored headline in (since, until], oldest first
+ */
+export function getNewsBetween(since: number, until: number): NewsItem[] {
+	const db = getDb();
+	const rows = db
+		.prepare('SELECT * FROM news WHERE timestamp > ? AND timestamp <= ? ORDER BY timestamp')
+		.all(since, until) as Record<string, unknown>[];
+	return rows.map(rowToNewsItem);
+}
+
+// --- Geocoding operations ---
+
+export function updateNewsLocation(
+	id: string,
+	location: { lat: number; lon: number; countryCode?: string; place: string }
+): void {
+	const db = getDb();
+	// Areas flagged for the old location are redone by the next refreshNewsAreas (map-layers.ts)
+	db.prepare(
+		'UPDATE news SET lat = ?, lon = ?, country_code = ?, place = ?, areas = NULL WHERE id = ?'
+	).run(location.lat, location.lon, location.countryCode ?? null, location.place, id);
+}
+
+// --- Entity operations ---
+
+export interface EntityMentionRow {
+	newsId: string;
+	entityId: string;
+	name: string;
+	type: EntityType;
+	source: string;
+	timestamp: number;
+}
+
+export interface EntityMentionStats {
+	entityId: string;
+	name: string;
+	type: EntityType;
+	mentions: number;
+	sources: number;
+}
+
+/**
+ * Store entity mentions; a headline mentions each entity at most once
+ */
+export function insertEntityMentions(rows: EntityMentionRow[]): number {
+	const db = getDb();
+	const insert = db.prepare(
+		`INSERT OR IGNORE INTO news_entities (news_id, entity_id, name, type, source, timestamp)
+		VALUES (?, ?, ?, ?, ?, ?)`
+	);
+	const insertMany = db.transaction((mentions: EntityMentionRow[]) => {
+		let inserted = 0;
+		for (const row of mentions) {
+			inserted += insert.run(
+				row.newsId,
+				row.entityId,
+				row.name,
+				row.type,
+				row.source,
+				row.timestamp
+			).changes;
+		}
+		return inserted;
+	});
+	return insertMany(rows);
+}
+
+/**
+ * Mention and distinct-source counts per entity for headlines in (since, until]
+ */
+export function getEntityMentionStats(since: number, until: number): EntityMentionStats[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			`SELECT entity_id, MAX(name) AS name, type, COUNT(*) AS mentions,
+				COUNT(DISTINCT source) AS sources
+			FROM news_entities WHERE timestamp > ? AND timestamp <= ?
+			GROUP BY entity_id ORDER BY mentions DESC, entity_id`
+		)
+		.all(since, until) as Array<Record<string, unknown>>;
+	return rows.map((row) => ({
+		entityId: row.entity_id as string,
+		name: row.name as string,
+		type: row.type as EntityType,
+		mentions: row.mentions as number,
+		sources: row.sources as number
+	}));
+}
+
+/**
+ * Headlines in (since, until] that mention both entities, for every pair among `entityIds`
+ */
+export function getEntityCoMentions(
+	entityIds: string[],
+	since: number,
+	until: number,
+	limit: number
+): EntityEdge[] {
+	if (entityIds.length < 2) return [];
+	const db = getDb();
+	const placeholders = entityIds.map(() => '?').join(', ');
+	const rows = db
+		.prepare(
+			`SELECT a.entity_id AS source, b.entity_id AS target, COUNT(*) AS weight
+			FROM news_entities a
+			JOIN news_entities b ON b.news_id = a.news_id AND b.entity_id > a.entity_id
+			WHERE a.timestamp > ? AND a.timestamp <= ?
+				AND a.entity_id IN (${placeholders}) AND b.entity_id IN (${placeholders})
+			GROUP BY a.entity_id, b.entity_id
+			ORDER BY weight DESC, source, target LIMIT ?`
+		)
+		.all(since, until, ...entityIds, ...entityIds, limit) as EntityEdge[];
+	return rows;
+}
+
+export function pruneNewsEntities(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM news_entities WHERE timestamp < ?').run(cutoff).changes;
+}
+
+// --- Hotspot level operations ---
+
+export interface HotspotLevelRow {
+	hourBucket: number;
+	hotspot: string;
+	count: number;
+	robustZ: number;
+	level: HotspotLevel;
+}
+
+/**
+ * Record each hotspot's level for its hour; later refreshes in the same hour overwrite it
+ */
+export function upsertHotspotLevels(rows: HotspotLevelRow[]): void {
+	const db = getDb();
+	const stmt = db.prepare(
+		'INSERT OR REPLACE INTO hotspot_levels (hour_bucket, hotspot, count, robust_z, level, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+	);
+	const now = Date.now();
+	const insertMany = db.transaction((items: HotspotLevelRow[]) => {
+		for (const row of items) {
+			stmt.run(row.hourBucket, row.hotspot, row.count, row.robustZ, row.level, now);
+		}
+	});
+	insertMany(rows);
+}
+
+export function getHotspotLevelsSince(minHourBucket: number): HotspotLevelRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare(
+			'SELECT hour_bucket, hotspot, count, robust_z, level FROM hotspot_levels WHERE hour_bucket >= ? ORDER BY hour_bucket ASC'
+		)
+		.all(minHourBucket) as Array<{
+		hour_bucket: number;
+		hotspot: string;
+		count: number;
+		robust_z: number;
+		level: HotspotLevel;
+	}>;
+	return rows.map((row) => ({
+		hourBucket: row.hour_bucket,
+		hotspot: row.hotspot,
+		count: row.count,
+		robustZ: row.robust_z,
+		level: row.level
+	}));
+}
+
+export function pruneHotspotLevels(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Math.floor((Date.now() - maxAgeDays * 86400000) / 3600000);
+	return db.prepare('DELETE FROM hotspot_levels WHERE hour_bucket < ?').run(cutoff).changes;
+}
+
+// --- Map layer operations ---
+
+export interface MapLayerRow {
+	id: string;
+	name: string;
+	color: string | null;
+	format: MapLayerFormat;
+	data: string; // JSON FeatureCollection
+	createdAt: number;
+	updatedAt: number;
+}
+
+function rowToMapLayer(row: Record<string, unknown>): MapLayerRow {
+	return {
+		id: row.id as string,
+		name: row.name as string,
+		color: (row.color as string | null) ?? null,
+		format: row.format as MapLayerFormat,
+		data: row.data as string,
+		createdAt: row.created_at as number,
+		updatedAt: row.updated_at as number
+	};
+}
+
+export function getMapLayerRows(): MapLayerRow[] {
+	const db = getDb();
+	const rows = db.prepare('SELECT * FROM map_layers ORDER BY created_at ASC').all() as Record<
+		string,
+		unknown
+	>[];
+	return rows.map(rowToMapLayer);
+}
+
+export function getMapLayerRow(id: string): MapLayerRow | null {
+	const db = getDb();
+	const row = db.prepare('SELECT * FROM map_layers WHERE id = ?').get(id) as
+		| Record<string, unknown>
+		| undefined;
+	return row ? rowToMapLayer(row) : null;
+}
+
+export function getMapLayerCount(): number {
+	const db = getDb();
+	const row = db.prepare('SELECT COUNT(*) AS count FROM map_layers').get() as { count: number };
+	return row.count;
+}
+
+export function insertMapLayerRow(row: Omit<MapLayerRow, 'createdAt' | 'updatedAt'>): void {
+	const db = getDb();
+	const now = Date.now();
+	db.prepare(
+		'INSERT INTO map_layers (id, name, color, format, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+	).run(row.id, row.name, row.color, row.format, row.data, now, now);
+}
+
+export function updateMapLayerRow(id: string, name: string, color: string | null): boolean {
+	const db = getDb();
+	const result = db
+		.prepare('UPDATE map_layers SET name = ?, color = ?, updated_at = ? WHERE id = ?')
+		.run(name, color, Date.now(), id);
+	return result.changes > 0;
+}
+
+export function deleteMapLayerRow(id: string): boolean {
+	const db = getDb();
+	return db.prepare('DELETE FROM map_layers WHERE id = ?').run(id).changes > 0;
+}
+
+export interface GeolocatedNewsRow {
+	id: string;
+	lat: number;
+	lon: number;
+	areas: string[] | null;
+}
+
+export function getGeolocatedNewsRows(): GeolocatedNewsRow[] {
+	const db = getDb();
+	const rows = db
+		.prepare('SELECT id, lat, lon, areas FROM news WHERE lat IS NOT NULL AND lon IS NOT NULL')
+		.all() as Array<{ id: string; lat: number; lon: number; areas: string | null }>;
+	return rows.map((row) => ({
+		id: row.id,
+		lat: row.lat,
+		lon: row.lon,
+		areas: row.areas ? (JSON.parse(row.areas) as string[]) : null
+	}));
+}
+
+/**
+ * Store the imported map areas each news item lies in; null clears them
+ */
+export function setNewsAreas(assignments: Map<string, string[] | null>): void {
+	const db = getDb();
+	const stmt = db.prepare('UPDATE news SET areas = ? WHERE id = ?');
+	const updateAll = db.transaction(() => {
+		for (const [id, areas] of assignments) {
+			stmt.run(areas && areas.length > 0 ? JSON.stringify(areas) : null, id);
+		}
+	});
+	updateAll();
+}
+
+// --- AI brief operations ---
+
+function rowToAIBrief(row: Record<string, unknown>): AIBrief {
+	const headlineIds = JSON.parse(row.headline_ids as string) as string[];
+	return {
+		text: row.text as string,
+		generatedAt: row.generated_at as number,
+		headlineCount: headlineIds.length,
+		headlineIds,
+		provider: row.provider as AIBriefProviderId,
+		model: (row.model as string) ?? null,
+		language: row.language as string,
+		summary: row.summary ? JSON.parse(row.summary as string) : undefined,
+		cached: true
+	};
+}
+
+export function getCachedAIBrief(cacheKey: string): AIBrief | null {
+	const db = getDb();
+	const row = db.prepare('SELECT * FROM ai_briefs WHERE cache_key = ?').get(cacheKey) as
+		| Record<string, unknown>
+		| undefined;
+	return row ? rowToAIBrief(row) : null;
+}
+
+export function insertAIBrief(cacheKey: string, brief: AIBrief): void {
+	const db = getDb();
+	db.prepare(
+		`INSERT OR REPLACE INTO ai_briefs (cache_key, provider, model, language, text, summary, headline_ids, generated_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+	).run(
+		cacheKey,
+		brief.provider,
+		brief.model,
+		brief.language,
+		brief.text,
+		brief.summary ? JSON.stringify(brief.summary) : null,
+		JSON.stringify(brief.headlineIds),
+		brief.generatedAt
+	);
+}
+
+export function pruneAIBriefs(maxAgeDays: number): number {
+	const db = getDb();
+	const cutoff = Date.now() - maxAgeDays * 86400000;
+	return db.prepare('DELETE FROM ai_briefs WHERE generated_at < ?').run(cutoff).changes;
 }
 
 // --- Sources operations ---
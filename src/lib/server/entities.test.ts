@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+const NOW = Date.now();
+const HOUR = 3600000;
+
+function newsItem(id: string, title: string, extra: Partial<NewsItem> = {}): NewsItem {
+	return createNewsItem({ id, title, timestamp: NOW - HOUR, ...extra });
+}
+
+describe('extractEntities', () => {
+	it('folds gazetteer aliases into one entity and prefers the longest match', async () => {
+		const { extractEntities } = await import('./entities');
+		const entities = extractEntities('Zelenskyy meets UN Security Council as Kyiv braces');
+		expect(entities.map((entity) => entity.id)).toEqual([
+			'organization:un-security-council',
+			'person:volodymyr-zelensky',
+			'location:ukraine'
+		]);
+		expect(entities.find((entity) => entity.type === 'person')?.name).toBe('Volodymyr Zelensky');
+	});
+
+	it('matches aliases case-sensitively', async () => {
+		const { extractEntities } = await import('./entities');
+		expect(extractEntities('Farmers fear turkey prices and apple harvest')).toEqual([]);
+	});
+
+	it('picks up unknown names from capitalized runs', async () => {
+		const { extractEntities } = await import('./entities');
+		expect(extractEntities('Little-known governor Ana Paula Torres wins runoff in Peru')).toEqual(
+			expect.arrayContaining([
+				{ id: 'person:ana-paula-torres', name: 'Ana Paula Torres', type: 'person' }
+			])
+		);
+		expect(extractEntities("President Noboa's cabinet resigns after scandal")).toEqual([
+			{ id: 'person:noboa', name: 'Noboa', type: 'person' }
+		]);
+		expect(extractEntities('Shares of Acme Holdings slump after audit')).toEqual([
+			{ id: 'organization:acme-holdings', name: 'Acme Holdings', type: 'organization' }
+		]);
+	});
+
+	it('keeps particles inside names and drops sentence starters', async () => {
+		const { extractEntities } = await import('./entities');
+		expect(extractEntities('Breaking: Maria da Costa named central bank chief')).toEqual([
+			{ id: 'person:maria-da-costa', name: 'Maria da Costa', type: 'person' }
+		]);
+		expect(extractEntities('Protesters clash with police overnight')).toEqual([]);
+	});
+
+	it('keeps names in every script apart and folds accents', async () => {
+		const { entityId } = await import('./entities');
+		expect(entityId('person', 'Сергей Лавров')).toBe('person:сергеи-лавров');
+		expect(entityId('person', 'Βλαντιμίρ Πούτιν')).toBe('person:βλαντιμιρ-πουτιν');
+		expect(entityId('person', 'Си Цзиньпин')).not.toBe(entityId('person', 'Сергей Лавров'));
+		expect(entityId('person', 'José Raúl Mulino')).toBe(entityId('person', 'Jose Raul Mulino'));
+	});
+
+	it('only uses the gazetteer on Title Case headlines', async () => {
+		const { extractEntities } = await import('./entities');
+		expect(extractEntities('Stocks Slide As Trump Tariff Fears Return').map((e) => e.id)).toEqual([
+			'person:donald-trump'
+		]);
+	});
+});
+
+describe('getEntitySummary', () => {
+	useTestDb();
+
+	it('ranks trending entities, surfaces untracked people and links co-mentions', async () => {
+		const { recordEntityMentions, getEntitySummary } = await import('./entities');
+		const recorded = recordEntityMentions([
+			newsItem('a', 'Trump calls rival Ana Torres a threat to Peru', { source: 'Wire A' }),
+			newsItem('b', 'Ana Torres rejects remarks made by Trump', { source: 'Wire B' }),
+			newsItem('c', 'Putin hosts talks in Moscow'),
+			newsItem('d', 'Ana Torres leads early count', { timestamp: NOW - 30 * HOUR })
+		]);
+		expect(recorded).toBe(7);
+		// Stored mentions are not counted twice when a headline is recorded again
+		expect(recordEntityMentions([newsItem('c', 'Putin hosts talks in Moscow')])).toBe(0);
+
+		const summary = getEntitySummary({ windowHours: 24, limit: 5, now: NOW });
+		expect(summary.people.map((person) => [person.name, person.mentions, person.tracked])).toEqual([
+			['Ana Torres', 2, false],
+			['Donald Trump', 2, true],
+			['Vladimir Putin', 1, true]
+		]);
+		expect(summary.people[0]).toMatchObject({ previousMentions: 1, sources: 2 });
+		expect(summary.locations.map((location) => location.name)).toEqual(['Russia']);
+		expect(summary.emerging.map((person) => person.name)).toEqual(['Ana Torres']);
+		expect(summary.edges).toContainEqual({
+			source: 'person:ana-torres',
+			target: 'person:donald-trump',
+			weight: 2
+		});
+	});
+});
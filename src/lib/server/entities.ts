@@ -0,0 +1,257 @@
+/**
+ * Entity extraction - people, organizations and places named in headlines. Known names come from
+ * the gazetteer (aliases fold into one entity); unknown names are picked up from runs of
+ * capitalized words, so new faces surface before anyone adds them to PERSON_PATTERNS.
+ */
+
+import {
+	DEFAULT_ENTITY_LIMIT,
+	DEFAULT_ENTITY_WINDOW_HOURS,
+	ENTITY_EMERGING_MIN_MENTIONS,
+	ENTITY_GAZETTEER,
+	ENTITY_GRAPH_MAX_EDGES,
+	ENTITY_NAME_PARTICLES,
+	ENTITY_ORG_SUFFIXES,
+	ENTITY_PERSON_TITLES,
+	ENTITY_STOPWORDS,
+	ENTITY_TITLE_CASE_RATIO
+} from '$lib/config/entities';
+import { PERSON_PATTERNS } from '$lib/config/analysis';
+import type { EntitySummary, EntityType, NewsItem, TrendingEntity } from '$lib/types';
+import { escapeRegExp } from '$lib/utils/format';
+import {
+	getEntityCoMentions,
+	getEntityMentionStats,
+	insertEntityMentions,
+	type EntityMentionRow
+} from './db';
+
+export interface ExtractedEntity {
+	id: string;
+	name: string;
+	type: EntityType;
+}
+
+interface Span {
+	start: number;
+	end: number;
+}
+
+interface Token extends Span {
+	word: string;
+	/** Followed by a possessive ("Noboa's"), which ends the name */
+	possessive: boolean;
+}
+
+export const ENTITY_RETENTION_DAYS = 30;
+
+const MAX_NAME_TOKENS = 4;
+
+/**
+ * Stable id for an entity: type plus the name without accents or punctuation
+ */
+export function entityId(type: EntityType, name: string): string {
+	const slug = name
+		.normalize('NFD')
+		.replace(/\p{M}/gu, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, '-')
+		.replace(/^-|-$/g, '');
+	return `${type}:${slug}`;
+}
+
+// Aliases are matched case-sensitively (proper nouns keep their capitals; "apple" and "turkey"
+// must not), longest first so "UN Security Council" wins over "UN"
+const GAZETTEER_MATCHERS = ENTITY_GAZETTEER.flatMap((entry) =>
+	[entry.name, ...(entry.aliases ?? [])].map((alias) => ({
+		alias,
+		entity: { id: entityId(entry.type, entry.name), name: entry.name, type: entry.type },
+		pattern: new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(alias)}(?![\\p{L}\\p{N}_])`, 'gu')
+	}))
+).sort((a, b) => b.alias.length - a.alias.length);
+
+const overlaps = (span: Span, spans: Span[]) =>
+	spans.some((other) => span.start < other.end && other.start < span.end);
+
+const isCapitalized = (word: string) => /^\p{Lu}/u.test(word);
+
+function tokenize(text: string): Token[] {
+	return [...text.matchAll(/\p{L}[\p{L}\p{M}\p{N}.'’-]*/gu)].map((match) => {
+		const start = match.index ?? 0;
+		let word = match[0].replace(/[.'’-]+$/, '');
+		const possessive = /['’]s$/.test(word);
+		if (possessive) word = word.slice(0, -2);
+		return { word, start, end: start + match[0].length, possessive };
+	});
+}
+
+/**
+ * Runs of capitalized words outside the gazetteer spans, joined by single spaces and at most
+ * MAX_NAME_TOKENS long. Lower-case particles may sit inside a run but not at its edges.
+ */
+function capitalizedRuns(text: string, tokens: Token[], masked: Span[]): Token[][] {
+	const runs: Token[][] = [];
+	let run: Token[] = [];
+	const flush = () => {
+		while (run.length > 0 && !isCapitalized(run[run.length - 1].word)) run.pop();
+		if (run.length > 0) runs.push(run);
+		run = [];
+	};
+
+	for (const token of tokens) {
+		const previous = run[run.length - 1];
+		const adjacent = previous && /^\s+$/.test(text.slice(previous.end, token.start));
+		if (!adjacent) flush();
+
+		const fits =
+			!overlaps(token, masked) &&
+			(isCapitalized(token.word) || (run.length > 0 && ENTITY_NAME_PARTICLES.has(token.word)));
+		if (!fits || run.length === MAX_NAME_TOKENS) {
+			flush();
+			if (!fits) continue;
+		}
+		run.push(token);
+		if (token.possessive) flush();
+	}
+	flush();
+	return runs;
+}
+
+function runToEntity(run: Token[]): ExtractedEntity | null {
+	const words = run.map((token) => token.word);
+	let titled = false;
+	while (words.length > 0 && ENTITY_STOPWORDS.has(words[0])) {
+		titled ||= ENTITY_PERSON_TITLES.has(words[0]);
+		words.shift();
+	}
+	while (words.length > 0 && ENTITY_STOPWORDS.has(words[words.length - 1])) words.pop();
+	while (words.length > 0 && !isCapitalized(words[0])) words.shift();
+
+	// One bare capitalized word is usually a sentence start, unless a title vouches for it
+	if (words.length === 0 || (words.length === 1 && !titled)) return null;
+
+	const name = words.join(' ');
+	const type: EntityType = ENTITY_ORG_SUFFIXES.has(words[words.length - 1])
+		? 'organization'
+		: 'person';
+	return { id: entityId(type, name), name, type };
+}
+
+/**
+ * Entities named in a headline, each once. Title Case headlines ("Markets Rally As Fed Holds")
+ * only go through the gazetteer: every word is capitalized there, so capitals say nothing.
+ */
+export function extractEntities(text: string): ExtractedEntity[] {
+	const found = new Map<string, ExtractedEntity>();
+	const masked: Span[] = [];
+
+	for (const matcher of GAZETTEER_MATCHERS) {
+		matcher.pattern.lastIndex = 0;
+		for (const match of text.matchAll(matcher.pattern)) {
+			const span = { start: match.index ?? 0, end: (match.index ?? 0) + match[0].length };
+			if (overlaps(span, masked)) continue;
+			masked.push(span);
+			found.set(matcher.entity.id, matcher.entity);
+		}
+	}
+
+	const tokens = tokenize(text);
+	const titleCase =
+		tokens.length > 0 &&
+		tokens.filter((token) => isCapitalized(token.word)).length / tokens.length >=
+			ENTITY_TITLE_CASE_RATIO;
+	if (!titleCase) {
+		for (const run of capitalizedRuns(text, tokens, masked)) {
+			const entity = runToEntity(run);
+			if (entity && !found.has(entity.id)) found.set(entity.id, entity);
+		}
+	}
+
+	return [...found.values()];
+}
+
+/**
+ * Extract and store the entities of freshly stored headlines. Returns the mentions recorded.
+ */
+export function recordEntityMentions(items: NewsItem[]): number {
+	const rows: EntityMentionRow[] = items.flatMap((item) =>
+		extractEntities(item.title).map((entity) => ({
+			newsId: item.id,
+			entityId: entity.id,
+			name: entity.name,
+			type: entity.type,
+			source: item.source,
+			timestamp: item.timestamp
+		}))
+	);
+	return rows.length > 0 ? insertEntityMentions(rows) : 0;
+}
+
+function isTrackedPerson(name: string): boolean {
+	return PERSON_PATTERNS.some(({ pattern }) => {
+		pattern.lastIndex = 0;
+		return pattern.test(name.toLowerCase());
+	});
+}
+
+export interface EntitySummaryOptions {
+	windowHours?: number;
+	limit?: number;
+	now?: number;
+}
+
+/**
+ * Trending entities of the last `windowHours`, compared with the window before, plus the
+ * co-mention graph between the entities listed
+ */
+export function getEntitySummary({
+	windowHours = DEFAULT_ENTITY_WINDOW_HOURS,
+	limit = DEFAULT_ENTITY_LIMIT,
+	now = Date.now()
+}: EntitySummaryOptions = {}): EntitySummary {
+	const windowMs = windowHours * 3600000;
+	const previous = new Map(
+		getEntityMentionStats(now - 2 * windowMs, now - windowMs).map((row) => [
+			row.entityId,
+			row.mentions
+		])
+	);
+	const entities: TrendingEntity[] = getEntityMentionStats(now - windowMs, now).map((row) => ({
+		id: row.entityId,
+		name: row.name,
+		type: row.type,
+		mentions: row.mentions,
+		previousMentions: previous.get(row.entityId) ?? 0,
+		sources: row.sources,
+		tracked: row.type === 'person' && isTrackedPerson(row.name)
+	}));
+
+	const ofType = (type: EntityType) =>
+		entities.filter((entity) => entity.type === type).slice(0, limit);
+	const people = ofType('person');
+	const organizations = ofType('organization');
+	const locations = ofType('location');
+	const emerging = entities
+		.filter(
+			(entity) =>
+				entity.type === 'person' &&
+				!entity.tracked &&
+				entity.mentions >= ENTITY_EMERGING_MIN_MENTIONS &&
+				entity.mentions > entity.previousMentions
+		)
+		.sort((a, b) => b.mentions - b.previousMentions - (a.mentions - a.previousMentions))
+		.slice(0, limit);
+
+	const listed = [
+		...new Set([...people, ...organizations, ...locations, ...emerging].map((e) => e.id))
+	];
+	return {
+		people,
+		organizations,
+		locations,
+		emerging,
+		edges: getEntityCoMentions(listed, now - windowMs, now, ENTITY_GRAPH_MAX_EDGES),
+		windowHours,
+		updatedAt: now
+	};
+}
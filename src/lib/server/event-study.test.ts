@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { AlertCandidate } from '$lib/alerts/engine';
+import { useTestDb } from './test-db';
+
+const HOUR = 3600000;
+const T0 = Date.UTC(2026, 9, 12, 14, 0, 0);
+
+function tick(symbol: string, timestamp: number, price: number) {
+	return { symbol, category: 'commodities', timestamp, price, changePercent: null };
+}
+
+function candidate(type: AlertCandidate['type'], key: string, detail: string): AlertCandidate {
+	return { type, key, severity: 'danger', detail };
+}
+
+describe('event study', () => {
+	useTestDb();
+
+	it('links patterns to the union of their topic instruments unless overridden', async () => {
+		const { getPatternInstruments, getTopicInstruments } = await import('$lib/config/event-study');
+
+		expect(getTopicInstruments('iran')).toEqual([
+			{ symbol: 'CL=F', direction: 'up' },
+			{ symbol: 'GC=F', direction: 'up' }
+		]);
+		expect(getTopicInstruments('election')).toEqual([]);
+		// nuclear-escalation: russia-ukraine + iran + nuclear
+		expect(getPatternInstruments('nuclear-escalation').map((i) => i.symbol)).toEqual([
+			'NG=F',
+			'CL=F',
+			'GC=F',
+			'^VIX'
+		]);
+		expect(getPatternInstruments('energy-supply-shock').map((i) => i.symbol)).toEqual([
+			'CL=F',
+			'NG=F',
+			'^VIX'
+		]);
+	});
+
+	it('records T0 prices, resolves horizons from later ticks and scores hit rates', async () => {
+		const { insertMarketTicks } = await import('./db');
+		const { recordSignalEvents, resolveEventStudy, getEventStudySummary } =
+			await import('./event-study');
+
+		insertMarketTicks([
+			tick('CL=F', T0 - 10 * 60000, 80),
+			tick('GC=F', T0 - 3 * HOUR, 2000), // too old to serve as a T0 price
+			tick('CL=F', T0 + HOUR + 5 * 60000, 81),
+			tick('CL=F', T0 + 4 * HOUR + 30 * 60000, 79.2)
+		]);
+
+		expect(
+			recordSignalEvents(
+				[
+					candidate('emerging', 'iran', 'Iran'),
+					candidate('newsAlert', 'news-1', 'Headline'),
+					candidate('emerging', 'election', 'Election')
+				],
+				T0
+			)
+		).toBe(1);
+
+		// Only the +1h price is observable two hours later
+		expect(resolveEventStudy(T0 + 2 * HOUR)).toBe(1);
+		let summary = getEventStudySummary();
+		expect(summary.patterns).toEqual([]);
+		expect(summary.topics).toHaveLength(1);
+		expect(summary.topics[0]).toMatchObject({
+			kind: 'topic',
+			signalId: 'iran',
+			name: 'Iran',
+			events: 1,
+			lastFiredAt: T0,
+			instruments: ['CL=F']
+		});
+		expect(summary.topics[0].horizons['1h']).toEqual({
+			samples: 1,
+			hits: 1,
+			hitRate: 1,
+			avgMove: 1.25
+		});
+		expect(summary.topics[0].horizons['4h'].hitRate).toBeNull();
+
+		// +4h resolves; +24h has no tick inside its tolerance and stays empty
+		expect(resolveEventStudy(T0 + 25 * HOUR)).toBe(1);
+		summary = getEventStudySummary();
+		expect(summary.topics[0].horizons['4h']).toMatchObject({ samples: 1, hits: 0, hitRate: 0 });
+		expect(summary.topics[0].horizons['4h'].avgMove).toBeCloseTo(-1);
+		expect(summary.topics[0].horizons['24h'].samples).toBe(0);
+
+		// A second firing of the same topic adds an event
+		insertMarketTicks([
+			tick('CL=F', T0 + 3 * 24 * HOUR, 70),
+			tick('CL=F', T0 + 3 * 24 * HOUR + HOUR + 5 * 60000, 70)
+		]);
+		recordSignalEvents([candidate('emerging', 'iran', 'Iran')], T0 + 3 * 24 * HOUR + 1000);
+		resolveEventStudy(T0 + 3 * 24 * HOUR + 2 * HOUR);
+		summary = getEventStudySummary();
+		expect(summary.topics[0].events).toBe(2);
+		// The flat follow-up counts as neither hit nor miss
+		expect(summary.topics[0].horizons['1h'].samples).toBe(1);
+	});
+});
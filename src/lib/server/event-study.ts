@@ -0,0 +1,198 @@
+/**
+ * Event study: records linked instrument prices when a compound pattern or correlation topic
+ * fires, fills in the +1h/+4h/+24h prices from market_ticks and scores each signal's hit rate
+ */
+
+import type { AlertCandidate } from '$lib/alerts/engine';
+import {
+	EVENT_STUDY_HORIZONS,
+	getPatternInstruments,
+	getTopicInstruments,
+	type EventStudyHorizon,
+	type EventStudyInstrument
+} from '$lib/config/event-study';
+import type {
+	EventStudyHorizonStats,
+	EventStudySignalKind,
+	EventStudySignalStats,
+	EventStudySummary
+} from '$lib/types';
+import {
+	getEventStudyObservations,
+	getMarketTickInRange,
+	getPendingEventStudyObservations,
+	insertEventStudyObservations,
+	setEventStudyPrice,
+	type EventStudyObservationRow
+} from './db';
+
+const HOUR_MS = 3600000;
+/** The T0 price must be at most this old (ticks repeat at least hourly while quotes arrive) */
+const T0_MAX_AGE_MS = 2 * HOUR_MS;
+/** Moves smaller than this (closed markets, cached quotes) count as neither hit nor miss */
+const FLAT_MOVE_PERCENT = 0.01;
+const LONGEST_HORIZON_MS = Math.max(...EVENT_STUDY_HORIZONS.map((horizon) => horizon.offsetMs));
+
+/**
+ * How late a horizon price may be observed, e.g. the first tick within an hour after T0+1h
+ */
+function getHorizonToleranceMs(offsetMs: number): number {
+	return Math.max(HOUR_MS, offsetMs / 4);
+}
+
+const HORIZON_PRICE_KEYS: Record<
+	EventStudyHorizon,
+	keyof Pick<EventStudyObservationRow, 'price1h' | 'price4h' | 'price24h'>
+> = {
+	'1h': 'price1h',
+	'4h': 'price4h',
+	'24h': 'price24h'
+};
+
+function getSignal(
+	candidate: AlertCandidate
+): { kind: EventStudySignalKind; instruments: EventStudyInstrument[] } | null {
+	if (candidate.type === 'compound') {
+		return { kind: 'pattern', instruments: getPatternInstruments(candidate.key) };
+	}
+	if (candidate.type === 'emerging') {
+		return { kind: 'topic', instruments: getTopicInstruments(candidate.key) };
+	}
+	return null;
+}
+
+/**
+ * Record T0 prices for the compound and emerging-topic alerts that just fired
+ */
+export function recordSignalEvents(fired: AlertCandidate[], firedAt = Date.now()): number {
+	const rows: Parameters<typeof insertEventStudyObservations>[0] = [];
+	for (const candidate of fired) {
+		const signal = getSignal(candidate);
+		if (!signal) continue;
+		for (const instrument of signal.instruments) {
+			const tick = getMarketTickInRange(
+				instrument.symbol,
+				firedAt - T0_MAX_AGE_MS,
+				firedAt,
+				'latest'
+			);
+			if (!tick) continue;
+			rows.push({
+				kind: signal.kind,
+				signalId: candidate.key,
+				name: candidate.detail ?? null,
+				firedAt,
+				symbol: instrument.symbol,
+				direction: instrument.direction,
+				priceT0: tick.price
+			});
+		}
+	}
+	return rows.length > 0 ? insertEventStudyObservations(rows) : 0;
+}
+
+/**
+ * Fill in horizon prices that have become observable. Horizons without a tick inside
+ * their tolerance stay empty and are left out of the statistics.
+ */
+export function resolveEventStudy(now = Date.now()): number {
+	const since = now - LONGEST_HORIZON_MS - getHorizonToleranceMs(LONGEST_HORIZON_MS) - HOUR_MS;
+	let resolved = 0;
+
+	for (const row of getPendingEventStudyObservations(since)) {
+		for (const horizon of EVENT_STUDY_HORIZONS) {
+			if (row[HORIZON_PRICE_KEYS[horizon.id]] !== null) continue;
+			const target = row.firedAt + horizon.offsetMs;
+			if (target > now) continue;
+			const tick = getMarketTickInRange(
+				row.symbol,
+				target,
+				target + getHorizonToleranceMs(horizon.offsetMs),
+				'earliest'
+			);
+			if (!tick) continue;
+			setEventStudyPrice(row, horizon.id, tick.price);
+			resolved += 1;
+		}
+	}
+
+	return resolved;
+}
+
+function emptyHorizonStats(): EventStudyHorizonStats {
+	return { samples: 0, hits: 0, hitRate: null, avgMove: null };
+}
+
+/**
+ * Hit rates per CompoundPattern and CorrelationTopic, most observed signals first
+ */
+export function getEventStudySummary(since = 0): EventStudySummary {
+	const groups = new Map<
+		string,
+		{
+			stats: EventStudySignalStats;
+			firedAt: Set<number>;
+			instruments: Set<string>;
+			moveSums: Record<EventStudyHorizon, number>;
+		}
+	>();
+
+	for (const row of getEventStudyObservations(since)) {
+		const key = `${row.kind}:${row.signalId}`;
+		let group = groups.get(key);
+		if (!group) {
+			group = {
+				stats: {
+					kind: row.kind as EventStudySignalKind,
+					signalId: row.signalId,
+					name: row.name ?? row.signalId,
+					events: 0,
+					lastFiredAt: row.firedAt,
+					instruments: [],
+					horizons: {
+						'1h': emptyHorizonStats(),
+						'4h': emptyHorizonStats(),
+						'24h': emptyHorizonStats()
+					}
+				},
+				firedAt: new Set(),
+				instruments: new Set(),
+				moveSums: { '1h': 0, '4h': 0, '24h': 0 }
+			};
+			groups.set(key, group);
+		}
+
+		group.firedAt.add(row.firedAt);
+		group.instruments.add(row.symbol);
+		group.stats.lastFiredAt = Math.max(group.stats.lastFiredAt, row.firedAt);
+
+		const sign = row.direction === 'down' ? -1 : 1;
+		for (const horizon of EVENT_STUDY_HORIZONS) {
+			const price = row[HORIZON_PRICE_KEYS[horizon.id]];
+			if (price === null || row.priceT0 <= 0) continue;
+			const move = ((price - row.priceT0) / row.priceT0) * 100 * sign;
+			if (Math.abs(move) < FLAT_MOVE_PERCENT) continue;
+			const stats = group.stats.horizons[horizon.id];
+			stats.samples += 1;
+			if (move > 0) stats.hits += 1;
+			group.moveSums[horizon.id] += move;
+		}
+	}
+
+	const signals = [...groups.values()].map(({ stats, firedAt, instruments, moveSums }) => {
+		for (const horizon of EVENT_STUDY_HORIZONS) {
+			const horizonStats = stats.horizons[horizon.id];
+			if (horizonStats.samples > 0) {
+				horizonStats.hitRate = horizonStats.hits / horizonStats.samples;
+				horizonStats.avgMove = moveSums[horizon.id] / horizonStats.samples;
+			}
+		}
+		return { ...stats, events: firedAt.size, instruments: [...instruments].sort() };
+	});
+	signals.sort((a, b) => b.events - a.events || b.lastFiredAt - a.lastFiredAt);
+
+	return {
+		patterns: signals.filter((signal) => signal.kind === 'pattern'),
+		topics: signals.filter((signal) => signal.kind === 'topic')
+	};
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+function createItem(id: string): NewsItem {
+	return createNewsItem({ id, title: `Headline ${id}`, timestamp: Date.now() - 60 * 1000 });
+}
+
+describe('server events', () => {
+	useTestDb();
+
+	it('delivers events to subscribers until they unsubscribe, isolating failing listeners', async () => {
+		const { getServerEventSubscriberCount, publishServerEvent, subscribeServerEvents } =
+			await import('./events');
+		const received: string[] = [];
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const unsubscribeBroken = subscribeServerEvents(() => {
+			throw new Error('closed');
+		});
+		const unsubscribe = subscribeServerEvents((event) => received.push(event.type));
+		expect(getServerEventSubscriberCount()).toBe(2);
+
+		publishServerEvent({ type: 'alert', data: { alerts: [], unacknowledged: 0 } });
+		unsubscribe();
+		unsubscribeBroken();
+		publishServerEvent({ type: 'alert', data: { alerts: [], unacknowledged: 0 } });
+
+		expect(received).toEqual(['alert']);
+		expect(getServerEventSubscriberCount()).toBe(0);
+		expect(warn).toHaveBeenCalledOnce();
+		warn.mockRestore();
+	});
+
+	it('reports only newly stored news items and formats SSE frames', async () => {
+		const { upsertNewsItems, setMeta } = await import('./db');
+		const { formatServerSentEvent, getStreamHealth } = await import('./events');
+
+		expect(upsertNewsItems([createItem('a'), createItem('b')]).map((item) => item.id)).toEqual([
+			'a',
+			'b'
+		]);
+		expect(upsertNewsItems([createItem('b'), createItem('c')]).map((item) => item.id)).toEqual([
+			'c'
+		]);
+
+		setMeta('lastRefreshTime', 1234);
+		setMeta('lastRefreshErrors', ['iran: timeout']);
+		const health = getStreamHealth();
+		expect(health).toEqual({
+			lastRefreshTime: 1234,
+			newsCount: 3,
+			errors: ['iran: timeout'],
+			clients: 0
+		});
+		expect(formatServerSentEvent({ type: 'health', data: health })).toBe(
+			`event: health\ndata: ${JSON.stringify(health)}\n\n`
+		);
+	});
+});
@@ -0,0 +1,52 @@
+/**
+ * In-process publish/subscribe for live updates, relayed to browsers by /api/stream
+ */
+
+import type { StreamEventMap, StreamEventType } from '$lib/types';
+import { getMeta, getNewsCount } from './db';
+
+export type ServerEvent = {
+	[K in StreamEventType]: { type: K; data: StreamEventMap[K] };
+}[StreamEventType];
+
+type ServerEventListener = (event: ServerEvent) => void;
+
+const listeners = new Set<ServerEventListener>();
+
+export function subscribeServerEvents(listener: ServerEventListener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+export function publishServerEvent(event: ServerEvent): void {
+	for (const listener of listeners) {
+		try {
+			listener(event);
+		} catch (error) {
+			// A broken subscriber must not stop the worker that published the event
+			console.warn(`[Events] Listener failed for ${event.type}:`, error);
+		}
+	}
+}
+
+export function getServerEventSubscriberCount(): number {
+	return listeners.size;
+}
+
+export function getStreamHealth(): StreamEventMap['health'] {
+	return {
+		lastRefreshTime: getMeta<number>('lastRefreshTime')?.value ?? null,
+		newsCount: getNewsCount(),
+		errors: getMeta<string[]>('lastRefreshErrors')?.value ?? [],
+		clients: listeners.size
+	};
+}
+
+/**
+ * Encode an event in the text/event-stream wire format
+ */
+export function formatServerSentEvent(event: ServerEvent): string {
+	return `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import {
+	buildExtractiveSummary,
+	clusterHeadlines,
+	formatExtractiveSummary
+} from './extractive-brief';
+
+const NOW = Date.UTC(2026, 9, 12, 14, 0, 0);
+
+function newsItem(id: string, title: string, source: string, hoursAgo: number): NewsItem {
+	return {
+		id,
+		title,
+		link: `https://example.com/${id}`,
+		timestamp: NOW - hoursAgo * 3600000,
+		source,
+		category: 'politics'
+	};
+}
+
+const HEADLINES = [
+	newsItem('a1', 'Netanyahu vows response after Iranian strike hits air base', 'BBC News', 1),
+	newsItem('a2', 'Iranian strike hits Israeli air base as Netanyahu vows response', 'Reuters', 2),
+	newsItem(
+		'a3',
+		'Israel says Iranian strike hit air base, Netanyahu vows response',
+		'Al Jazeera',
+		3
+	),
+	newsItem('b1', 'Federal Reserve holds interest rates steady', 'Bloomberg', 2),
+	newsItem('b2', 'Federal Reserve holds interest rates steady as inflation cools', 'CNBC', 4),
+	newsItem('c1', 'City council approves new bike lanes downtown', 'Local Gazette', 20)
+];
+
+describe('clusterHeadlines', () => {
+	it('groups coverage of the same story across sources', () => {
+		const clusters = clusterHeadlines(HEADLINES).map((items) => items.map((item) => item.id));
+		expect(clusters).toEqual([['a1', 'a2', 'a3'], ['b1', 'b2'], ['c1']]);
+	});
+
+	it('keeps identical titles apart when they are far apart in time', () => {
+		const clusters = clusterHeadlines([
+			newsItem('new', 'Federal Reserve holds interest rates steady', 'Reuters', 1),
+			newsItem('old', 'Federal Reserve holds interest rates steady', 'Reuters', 40)
+		]);
+		expect(clusters).toHaveLength(2);
+	});
+});
+
+describe('buildExtractiveSummary', () => {
+	it('ranks stories by source diversity and credibility with the best source as headline', () => {
+		const summary = buildExtractiveSummary(HEADLINES, 'en', NOW);
+
+		expect(summary.stories.map((story) => story.title)).toEqual([
+			'Iranian strike hits Israeli air base as Netanyahu vows response',
+			'Federal Reserve holds interest rates steady',
+			'City council approves new bike lanes downtown'
+		]);
+		expect(summary.stories[0]).toMatchObject({
+			link: 'https://example.com/a2',
+			source: 'Reuters',
+			sources: ['Reuters', 'BBC News', 'Al Jazeera'],
+			headlineCount: 3,
+			timestamp: NOW - 3600000,
+			region: 'MENA'
+		});
+		expect(summary.regions).toContainEqual({ region: 'MENA', count: 1 });
+		expect(summary.signals.map((signal) => signal.id)).toContain('middle-east-escalation');
+		expect(
+			summary.signals.find((signal) => signal.id === 'middle-east-escalation')?.topics
+		).toEqual(['israel-gaza', 'iran']);
+	});
+
+	it('renders a plain-text brief in the requested language', () => {
+		const text = formatExtractiveSummary(buildExtractiveSummary(HEADLINES, 'pt-BR', NOW), 'pt-BR');
+		const lines = text.split('\n');
+
+		expect(lines[0]).toBe('Principais notícias');
+		expect(lines[1]).toBe(
+			'- Iranian strike hits Israeli air base as Netanyahu vows response (Reuters, +2 fontes)'
+		);
+		expect(lines.some((line) => line.startsWith('Regiões afetadas: MENA (1)'))).toBe(true);
+		expect(formatExtractiveSummary(buildExtractiveSummary([], 'en', NOW), 'en')).toBe(
+			'No recent headlines to summarize yet.'
+		);
+	});
+});
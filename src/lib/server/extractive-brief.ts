@@ -0,0 +1,149 @@
+/**
+ * Extractive brief: clusters recent headlines into stories, ranks them by source diversity,
+ * source credibility and recency, and relates them to regions and compound signals. Runs
+ * entirely in-process, so it works on air-gapped installs.
+ */
+
+import {
+	AI_BRIEF_EXTRACTIVE_ITEMS,
+	AI_BRIEF_EXTRACTIVE_SIGNALS,
+	STORY_RECENCY_HALF_LIFE_HOURS
+} from '$lib/config/ai-brief';
+import { CORRELATION_TOPICS, getCompoundPatterns, getSourceWeight } from '$lib/config/analysis';
+import { detectRegion, detectTopics } from '$lib/config/keywords';
+import { t } from '$lib/i18n';
+import type { Locale } from '$lib/i18n/types';
+import { assignStoryClusters, groupByCluster } from '$lib/shared/story-clusters';
+import type { BriefSignal, BriefStory, ExtractiveSummary, NewsItem } from '$lib/types';
+
+/**
+ * Stories among the headlines, newest first with members newest first. Headlines the server
+ * already clustered keep their story; the rest are clustered here.
+ */
+export function clusterHeadlines(headlines: NewsItem[]): NewsItem[][] {
+	const assigned = assignStoryClusters(
+		headlines.filter((item) => !item.clusterId),
+		headlines.filter((item) => item.clusterId)
+	);
+	const sorted = headlines
+		.map((item) => (item.clusterId ? item : { ...item, clusterId: assigned.get(item.id) }))
+		.sort((a, b) => b.timestamp - a.timestamp || a.id.localeCompare(b.id));
+	return groupByCluster(sorted).map((group) => group.items);
+}
+
+function byCredibility(a: NewsItem, b: NewsItem): number {
+	return getSourceWeight(b.source) - getSourceWeight(a.source) || b.timestamp - a.timestamp;
+}
+
+function mostCommon(values: string[]): string | null {
+	const counts = new Map<string, number>();
+	for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+	let best: string | null = null;
+	for (const [value, count] of counts) {
+		if (best === null || count > (counts.get(best) ?? 0)) best = value;
+	}
+	return best;
+}
+
+function toStory(items: NewsItem[]): BriefStory {
+	const ranked = [...items].sort(byCredibility);
+	const representative = ranked[0];
+	return {
+		title: representative.title,
+		link: representative.link,
+		source: representative.source,
+		sources: [...new Set(ranked.map((item) => item.source))],
+		headlineCount: items.length,
+		timestamp: Math.max(...items.map((item) => item.timestamp)),
+		region: mostCommon(
+			ranked
+				.map((item) => item.region ?? detectRegion(item.title, item.lang))
+				.filter((region): region is string => region !== null)
+		),
+		topics: [...new Set(items.flatMap((item) => detectTopics(item.title, item.lang)))].sort()
+	};
+}
+
+/**
+ * Every distinct source adds its credibility weight; newer stories get up to twice the score
+ */
+export function scoreStory(story: BriefStory, now = Date.now()): number {
+	const weight = story.sources.reduce((sum, source) => sum + getSourceWeight(source), 0);
+	const ageHours = Math.max(0, now - story.timestamp) / 3600000;
+	return weight * (1 + 0.5 ** (ageHours / STORY_RECENCY_HALF_LIFE_HOURS));
+}
+
+/**
+ * Compound patterns with at least `minTopics` of their correlation topics in the stories' headlines
+ */
+function findSignals(clusters: NewsItem[][], locale: Locale): BriefSignal[] {
+	const titles = clusters.flat().map((item) => item.title);
+	const found = new Set(
+		CORRELATION_TOPICS.filter((topic) =>
+			topic.patterns.some((pattern) => titles.some((title) => pattern.test(title)))
+		).map((topic) => topic.id)
+	);
+
+	return getCompoundPatterns(locale)
+		.map((pattern) => ({
+			pattern,
+			topics: pattern.topics.filter((topic) => found.has(topic))
+		}))
+		.filter(({ pattern, topics }) => topics.length >= pattern.minTopics)
+		.sort(
+			(a, b) => b.topics.length - a.topics.length || b.pattern.boostFactor - a.pattern.boostFactor
+		)
+		.slice(0, AI_BRIEF_EXTRACTIVE_SIGNALS)
+		.map(({ pattern, topics }) => ({ id: pattern.id, name: pattern.name, topics }));
+}
+
+export function buildExtractiveSummary(
+	headlines: NewsItem[],
+	locale: Locale,
+	now = Date.now()
+): ExtractiveSummary {
+	const top = clusterHeadlines(headlines)
+		.map((items) => ({ items, story: toStory(items) }))
+		.map((entry) => ({ ...entry, score: scoreStory(entry.story, now) }))
+		.sort((a, b) => b.score - a.score || b.story.timestamp - a.story.timestamp)
+		.slice(0, AI_BRIEF_EXTRACTIVE_ITEMS);
+
+	const topClusters = top.map((entry) => entry.items);
+	const regionCounts = new Map<string, number>();
+	for (const { story } of top) {
+		if (story.region) regionCounts.set(story.region, (regionCounts.get(story.region) ?? 0) + 1);
+	}
+
+	return {
+		stories: top.map((entry) => entry.story),
+		regions: [...regionCounts]
+			.map(([region, count]) => ({ region, count }))
+			.sort((a, b) => b.count - a.count || a.region.localeCompare(b.region)),
+		signals: findSignals(topClusters, locale)
+	};
+}
+
+/**
+ * Plain-text rendering of the summary, for clients and channels without the structured view
+ */
+export function formatExtractiveSummary(summary: ExtractiveSummary, locale: Locale): string {
+	if (summary.stories.length === 0) return t(locale, 'aiBrief.noHeadlines');
+
+	const lines = [t(locale, 'aiBrief.topStories')];
+	for (const story of summary.stories) {
+		const sources =
+			story.sources.length > 1
+				? `${story.source}, ${t(locale, 'aiBrief.moreSources', { count: story.sources.length - 1 })}`
+				: story.source;
+		lines.push(`- ${story.title} (${sources})`);
+	}
+	if (summary.regions.length > 0) {
+		const regions = summary.regions.map((entry) => `${entry.region} (${entry.count})`);
+		lines.push(`${t(locale, 'aiBrief.regions')}: ${regions.join(', ')}`);
+	}
+	if (summary.signals.length > 0) {
+		const signals = summary.signals.map((signal) => signal.name);
+		lines.push(`${t(locale, 'aiBrief.signals')}: ${signals.join(', ')}`);
+	}
+	return lines.join('\n');
+}
@@ -16,6 +16,9 @@ import type {
 import { FEEDS, type FeedSource, type HtmlSelectors } from '$lib/config/feeds';
 import { parseHtmlPage, isHtmlContent } from './html-parser';
 import { containsAlertKeyword, detectRegion, detectTopics } from '$lib/config/keywords';
+import { detectLanguage, normalizeLanguageTag } from '$lib/shared/language';
+import { scoreSentiment } from '$lib/shared/sentiment';
+import { geocodeNewsItem } from '$lib/shared/geocoder';
 import { classifyRegionalItem } from '$lib/utils/regional-filter';
 import { sortNewsNewestFirst } from '$lib/utils/news-filter';
 import {
@@ -32,6 +35,11 @@ import {
 import { INDICES, SECTORS, COMMODITIES, CRYPTO } from '$lib/config/markets';
 import { CircuitBreaker, CircuitBreakerRegistry } from '$lib/services/circuit-breaker';
 import { upsertNewsItems, setMarketData, getMarketData, getMeta, setMeta } from './db';
+import { publishServerEvent } from './events';
+import { recordMarketTicks } from './market-history';
+import { clusterNews, withClusterIds } from './story-clusters';
+import { recordEntityMentions } from './entities';
+import { withMapLayerAreas } from './map-layers';
 import { env } from '$env/dynamic/private';
 import { getEnabledFeedsByCategory } from './sources';
 
@@ -212,6 +220,12 @@ function parseRssFeedXml(xml: string, sourceName: string, category: NewsCategory
 	const itemRegex = /<item[\s>]([\s\S]*?)<\/item>|<entry[\s>]([\s\S]*?)<\/entry>/gi;
 	let match;
 
+	// RSS <language> or Atom xml:lang settles headlines too short to detect on their own
+	const feedLanguage = normalizeLanguageTag(
+		extractTag(xml.split(/<item[\s>]|<entry[\s>]/i)[0], 'language') ??
+			xml.match(/<feed[^>]*xml:lang=["']([^"']+)["']/i)?.[1]
+	);
+
 	while ((match = itemRegex.exec(xml)) !== null) {
 		const content = match[1] || match[2];
 		if (!content) continue;
@@ -236,9 +250,10 @@ function parseRssFeedXml(xml: string, sourceName: string, category: NewsCategory
 		const urlHash = hashCode(link);
 		const id = `rss-${category}-${sourceName.toLowerCase().replace(/\s+/g, '-')}-${urlHash}`;
 
-		const alert = containsAlertKeyword(title);
 		const cleanDesc = description ? stripHtml(description).slice(0, 200) : undefined;
 		const detectText = `${title} ${cleanDesc ?? ''}`;
+		const lang = detectLanguage(stripHtml(detectText), feedLanguage);
+		const alert = containsAlertKeyword(title, lang);
 
 		const regionalDecision = classifyRegionalItem({ title, description: cleanDesc, category });
 		if (!regionalDecision.accepted) continue;
@@ -254,8 +269,11 @@ function parseRssFeedXml(xml: string, sourceName: string, category: NewsCategory
 			category,
 			isAlert: !!alert,
 			alertKeyword: alert?.keyword || undefined,
-			region: detectRegion(detectText) ?? undefined,
-			topics: detectTopics(detectText)
+			region: detectRegion(detectText, lang) ?? undefined,
+			topics: detectTopics(detectText, lang),
+			lang: lang ?? undefined,
+			sentiment: scoreSentiment(stripHtml(title), lang) ?? undefined,
+			...geocodeNewsItem({ title: stripHtml(title), description: cleanDesc })
 		});
 	}
 
@@ -436,10 +454,18 @@ async function fetchGdeltNewsServer(
 
 // --- Category fetching ---
 
-export async function fetchCategoryNewsServer(
+/** A category's fetched headlines, stored but not yet clustered or published */
+interface StoredCategoryNews {
+	category: NewsCategory;
+	items: NewsItem[];
+	/** Headlines new to the database */
+	inserted: NewsItem[];
+}
+
+async function fetchAndStoreCategoryNews(
 	category: NewsCategory,
 	feeds?: FeedSource[]
-): Promise<NewsItem[]> {
+): Promise<StoredCategoryNews> {
 	const categoryFeeds = feeds ?? FEEDS[category] ?? [];
 
 	// Build RSS fetch tasks with concurrency pool
@@ -480,20 +506,76 @@ export async function fetchCategoryNewsServer(
 		allItems = [...rssItems, ...gdeltItems];
 	}
 
-	const filtered = limitNewsByCategorySources(
+	const items = limitNewsByCategorySources(
 		sortNewsNewestFirst(filterByAge(allItems, NEWS_MAX_AGE_DAYS)),
 		category
 	);
 
 	// Store in SQLite
-	if (filtered.length > 0) {
-		upsertNewsItems(filtered);
-		setMeta(`checkpoint:${category}`, filtered[0].timestamp);
+	if (items.length === 0) return { category, items, inserted: [] };
+	const inserted = upsertNewsItems(items);
+	setMeta(`checkpoint:${category}`, items[0].timestamp);
+	return { category, items, inserted };
+}
+
+/**
+ * Cluster stored headlines into stories. Each pass reloads the whole clustering window, so a
+ * refresh runs it once after storing every category.
+ */
+function clusterStoredNews(): Map<string, string> {
+	try {
+		return clusterNews();
+	} catch (error) {
+		console.warn('[Clusters] Failed to cluster news:', error);
+		return new Map();
+	}
+}
+
+/**
+ * Tag stored headlines with their story and map areas, record entity mentions and push the
+ * new ones to connected clients
+ */
+function publishCategoryNews(
+	{ category, items, inserted }: StoredCategoryNews,
+	clusterIds: Map<string, string>
+): NewsItem[] {
+	if (items.length === 0) return items;
+
+	// Group the new headlines into stories before anyone sees them
+	let filtered = withClusterIds(items, clusterIds);
+	let published = withClusterIds(inserted, clusterIds);
+
+	try {
+		filtered = withMapLayerAreas(filtered);
+		const flagged = new Map(filtered.map((item) => [item.id, item]));
+		published = published.map((item) => flagged.get(item.id) ?? item);
+	} catch (error) {
+		console.warn('[Map layers] Failed to flag news in imported areas:', error);
+	}
+
+	try {
+		recordEntityMentions(published);
+	} catch (error) {
+		console.warn('[Entities] Failed to record entity mentions:', error);
 	}
 
+	if (published.length > 0) {
+		publishServerEvent({ type: 'news', data: { category, items: published } });
+	}
 	return filtered;
 }
 
+export async function fetchCategoryNewsServer(
+	category: NewsCategory,
+	feeds?: FeedSource[]
+): Promise<NewsItem[]> {
+	const stored = await fetchAndStoreCategoryNews(category, feeds);
+	return publishCategoryNews(
+		stored,
+		stored.items.length > 0 ? clusterStoredNews() : new Map<string, string>()
+	);
+}
+
 // --- Market data fetching ---
 
 interface FinnhubQuote {
@@ -893,6 +975,12 @@ export async function fetchAllMarketsServer(): Promise<AllMarketsServerData> {
 	setMarketData('sectors', data.sectors);
 	setMarketData('commodities', data.commodities);
 	setMarketData('crypto', data.crypto);
+	try {
+		recordMarketTicks(data, data.updatedAt);
+	} catch (error) {
+		console.warn('[Fetcher] Failed to record market ticks:', error);
+	}
+	publishServerEvent({ type: 'markets', data });
 
 	return data;
 }
@@ -901,24 +989,40 @@ export async function fetchAllMarketsServer(): Promise<AllMarketsServerData> {
 
 const CATEGORY_CONCURRENCY = 4;
 
-export async function refreshAllNews(
-	categories?: NewsCategory[]
-): Promise<{ duration: number; errors: string[] }> {
-	const start = Date.now();
+/**
+ * Fetch and store several categories, then cluster once and publish each. Categories that
+ * fail are reported in `errors` and left out of `items`.
+ */
+export async function fetchNewsCategoriesServer(
+	categories: NewsCategory[]
+): Promise<{ items: Partial<Record<NewsCategory, NewsItem[]>>; errors: string[] }> {
+	const stored: StoredCategoryNews[] = [];
 	const errors: string[] = [];
-	const targetCategories = categories ?? (Object.keys(FEEDS) as NewsCategory[]);
 
-	const tasks = targetCategories.map((category) => async () => {
+	const tasks = categories.map((category) => async () => {
 		try {
-			await fetchCategoryNewsServer(category, getEnabledFeedsByCategory(category));
+			stored.push(await fetchAndStoreCategoryNews(category, getEnabledFeedsByCategory(category)));
 		} catch (error) {
 			const msg = `${category}: ${error instanceof Error ? error.message : String(error)}`;
 			errors.push(msg);
 		}
 	});
-
 	await promisePool(tasks, CATEGORY_CONCURRENCY);
 
+	const clusterIds = stored.some((entry) => entry.items.length > 0)
+		? clusterStoredNews()
+		: new Map<string, string>();
+	const items: Partial<Record<NewsCategory, NewsItem[]>> = {};
+	for (const entry of stored) items[entry.category] = publishCategoryNews(entry, clusterIds);
+	return { items, errors };
+}
+
+export async function refreshAllNews(
+	categories?: NewsCategory[]
+): Promise<{ duration: number; errors: string[] }> {
+	const start = Date.now();
+	const targetCategories = categories ?? (Object.keys(FEEDS) as NewsCategory[]);
+	const { errors } = await fetchNewsCategoriesServer(targetCategories);
 	return { duration: Date.now() - start, errors };
 }
 
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+const HOUR = 3600000;
+const NOW = Math.floor(Date.now() / HOUR) * HOUR + HOUR / 2;
+const CURRENT_HOUR = Math.floor(NOW / HOUR);
+
+function newsItem(id: string, title: string, hoursAgo: number, extra: Partial<NewsItem> = {}) {
+	return createNewsItem({ id, title, timestamp: NOW - hoursAgo * HOUR, ...extra });
+}
+
+describe('countHotspotNews', () => {
+	it('matches hotspot keywords on whole words and geocoded places', async () => {
+		const { countHotspotNews } = await import('./hotspots');
+		const counts = countHotspotNews([
+			newsItem('a', 'Houthi missiles strike tanker off Yemen', 1),
+			newsItem('b', 'Ataque em Caracas', 1, { translatedTitle: 'Attack in Caracas' }),
+			newsItem('c', 'Port blockade tightens', 1, { place: 'Nuuk' }),
+			newsItem('d', 'Irate investors sell off', 1)
+		]);
+		expect(counts.get("Sana'a")).toBe(1);
+		expect(counts.get('Caracas')).toBe(1);
+		expect(counts.get('Nuuk')).toBe(1);
+		expect(counts.has('Tehran')).toBe(false);
+	});
+});
+
+describe('scoreHotspots', () => {
+	useTestDb();
+
+	it('keeps the static level until a baseline exists', async () => {
+		const { scoreHotspots } = await import('./hotspots');
+		const nuuk = scoreHotspots({ now: NOW }).find((status) => status.name === 'Nuuk');
+		expect(nuuk).toMatchObject({
+			staticLevel: 'low',
+			computedLevel: 'low',
+			level: 'low',
+			baselinePoints: 0,
+			previousLevel: null
+		});
+	});
+
+	it('raises a hotspot whose coverage surges above its baseline', async () => {
+		const { upsertHotspotLevels, upsertNewsItems } = await import('./db');
+		const { recordHotspotLevels, scoreHotspots } = await import('./hotspots');
+		// Three days of quiet hourly samples for Nuuk, one for Tehran
+		upsertHotspotLevels([
+			...Array.from({ length: 72 }, (_, i) => ({
+				hourBucket: CURRENT_HOUR - 24 - i,
+				hotspot: 'Nuuk',
+				count: i % 2,
+				robustZ: 0,
+				level: 'low' as const
+			})),
+			...Array.from({ length: 72 }, (_, i) => ({
+				hourBucket: CURRENT_HOUR - 24 - i,
+				hotspot: 'Tehran',
+				count: 40 + (i % 3),
+				robustZ: 0,
+				level: 'high' as const
+			}))
+		]);
+		upsertNewsItems([
+			...Array.from({ length: 8 }, (_, i) => newsItem(`g${i}`, `Greenland standoff day ${i}`, i)),
+			newsItem('old', 'Greenland story from last week', 100)
+		]);
+
+		const statuses = scoreHotspots({ historyHours: 48, now: NOW });
+		const nuuk = statuses.find((status) => status.name === 'Nuuk');
+		expect(nuuk).toMatchObject({
+			count: 8,
+			baselineMedian: 0.5,
+			baselinePoints: 72,
+			computedLevel: 'critical',
+			level: 'critical',
+			previousLevel: 'low'
+		});
+		expect(nuuk?.history).toHaveLength(24);
+
+		// Quiet coverage never drops a hotspot below its static level
+		const tehran = statuses.find((status) => status.name === 'Tehran');
+		expect(tehran).toMatchObject({ count: 0, computedLevel: 'low', level: 'high' });
+
+		recordHotspotLevels(NOW);
+		const recorded = scoreHotspots({ historyHours: 1, now: NOW }).find(
+			(status) => status.name === 'Nuuk'
+		);
+		expect(recorded?.history).toEqual([
+			{ timestamp: CURRENT_HOUR * HOUR, count: 8, level: 'critical' }
+		]);
+	});
+
+	it('scores a burst on a baseline of all zeros as a spike', async () => {
+		const { upsertHotspotLevels, upsertNewsItems } = await import('./db');
+		const { scoreHotspots } = await import('./hotspots');
+		upsertHotspotLevels(
+			Array.from({ length: 72 }, (_, i) => ({
+				hourBucket: CURRENT_HOUR - 24 - i,
+				hotspot: 'Doha',
+				count: 0,
+				robustZ: 0,
+				level: 'low' as const
+			}))
+		);
+		upsertNewsItems(
+			Array.from({ length: 6 }, (_, i) => newsItem(`q${i}`, `Qatar talks collapse, day ${i}`, i))
+		);
+
+		const doha = scoreHotspots({ now: NOW }).find((status) => status.name === 'Doha');
+		expect(doha).toMatchObject({
+			count: 6,
+			baselineMedian: 0,
+			robustZScore: 4.05,
+			computedLevel: 'critical',
+			level: 'critical'
+		});
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * Hotspot scoring - each map hotspot's threat level from keyword-matched news volume against
+ * its own rolling baseline, recorded hourly so the map can show what changed since yesterday.
+ * The hand-set level in HOTSPOTS stays the floor; until a day of history exists it is the level.
+ */
+
+import {
+	HOTSPOT_BASELINE_DAYS,
+	HOTSPOT_KEYWORDS,
+	HOTSPOT_LEVEL_RANK,
+	HOTSPOT_MIN_BASELINE_POINTS,
+	HOTSPOT_MIN_COUNT,
+	HOTSPOT_MIN_SPREAD,
+	HOTSPOT_WINDOW_HOURS,
+	HOTSPOT_Z_THRESHOLDS
+} from '$lib/config/hotspots';
+import { HOTSPOTS } from '$lib/config/map';
+import { calculateMad, calculateMedian } from '$lib/shared/statistics';
+import type { HotspotLevel, HotspotLevels, HotspotStatus, NewsItem } from '$lib/types';
+import { escapeRegExp } from '$lib/utils/format';
+import { getHotspotLevelsSince, getNewsBetween, upsertHotspotLevels } from './db';
+
+export const DEFAULT_HOTSPOT_HISTORY_HOURS = 48;
+
+export interface HotspotScoreOptions {
+	historyHours?: number;
+	now?: number;
+}
+
+const HOUR_MS = 3600000;
+
+const HOTSPOT_MATCHERS = HOTSPOTS.map((hotspot) => ({
+	name: hotspot.name,
+	patterns: [hotspot.name, ...(HOTSPOT_KEYWORDS[hotspot.name] ?? [])].map(
+		(keyword) => new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}_])`, 'iu')
+	)
+}));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Headlines per hotspot: keyword matches on title, translation and description, plus headlines
+ * geocoded to the hotspot itself
+ */
+export function countHotspotNews(items: NewsItem[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const item of items) {
+		const text = [item.title, item.translatedTitle, item.description].filter(Boolean).join(' ');
+		for (const { name, patterns } of HOTSPOT_MATCHERS) {
+			if (item.place === name || patterns.some((pattern) => pattern.test(text))) {
+				counts.set(name, (counts.get(name) ?? 0) + 1);
+			}
+		}
+	}
+	return counts;
+}
+
+/**
+ * Median/MAD z-score of a count against its baseline, with the spread floored so a hotspot whose
+ * baseline is all zeros still scores a sudden burst as a spike
+ */
+function scoreAgainstBaseline(count: number, baseline: number[]): number {
+	const median = calculateMedian(baseline);
+	const mad = Math.max(calculateMad(baseline, median), HOTSPOT_MIN_SPREAD);
+	return (0.6745 * (count - median)) / mad;
+}
+
+function levelFromScore(robustZScore: number, count: number): HotspotLevel {
+	if (count < HOTSPOT_MIN_COUNT) return 'low';
+	if (robustZScore >= HOTSPOT_Z_THRESHOLDS.critical) return 'critical';
+	if (robustZScore >= HOTSPOT_Z_THRESHOLDS.high) return 'high';
+	if (robustZScore >= HOTSPOT_Z_THRESHOLDS.elevated) return 'elevated';
+	return 'low';
+}
+
+function maxLevel(a: HotspotLevel, b: HotspotLevel): HotspotLevel {
+	return HOTSPOT_LEVEL_RANK[b] > HOTSPOT_LEVEL_RANK[a] ? b : a;
+}
+
+/**
+ * Current level of every hotspot, scored from the last HOTSPOT_WINDOW_HOURS of news against the
+ * windowed counts recorded each hour of the previous HOTSPOT_BASELINE_DAYS
+ */
+export function scoreHotspots({
+	historyHours = DEFAULT_HOTSPOT_HISTORY_HOURS,
+	now = Date.now()
+}: HotspotScoreOptions = {}): HotspotStatus[] {
+	const currentHour = Math.floor(now / HOUR_MS);
+	const counts = countHotspotNews(getNewsBetween(now - HOTSPOT_WINDOW_HOURS * HOUR_MS, now));
+
+	const rowsByHotspot = new Map<string, ReturnType<typeof getHotspotLevelsSince>>();
+	for (const row of getHotspotLevelsSince(currentHour - HOTSPOT_BASELINE_DAYS * 24)) {
+		rowsByHotspot.set(row.hotspot, [...(rowsByHotspot.get(row.hotspot) ?? []), row]);
+	}
+
+	return HOTSPOTS.map((hotspot) => {
+		const rows = rowsByHotspot.get(hotspot.name) ?? [];
+		// Samples overlapping the current window would count today's surge in its own baseline
+		const baseline = rows
+			.filter((row) => row.hourBucket <= currentHour - HOTSPOT_WINDOW_HOURS)
+			.map((row) => row.count);
+		const count = counts.get(hotspot.name) ?? 0;
+		const hasBaseline = baseline.length >= HOTSPOT_MIN_BASELINE_POINTS;
+		const robustZScore = hasBaseline ? round(scoreAgainstBaseline(count, baseline)) : 0;
+		const computedLevel = hasBaseline ? levelFromScore(robustZScore, count) : 'low';
+		// Latest level recorded at least a day ago, but no more than two
+		const previous = rows
+			.filter((row) => row.hourBucket <= currentHour - 24 && row.hourBucket > currentHour - 48)
+			.at(-1);
+
+		return {
+			name: hotspot.name,
+			staticLevel: hotspot.level,
+			computedLevel,
+			level: maxLevel(hotspot.level, computedLevel),
+			count,
+			baselineMedian: calculateMedian(baseline),
+			baselinePoints: baseline.length,
+			robustZScore,
+			previousLevel: previous?.level ?? null,
+			history: rows
+				.filter((row) => row.hourBucket > currentHour - historyHours)
+				.map((row) => ({ timestamp: row.hourBucket * HOUR_MS, count: row.count, level: row.level }))
+		};
+	});
+}
+
+/**
+ * Score every hotspot and store the result for the current hour (run after each refresh)
+ */
+export function recordHotspotLevels(now = Date.now()): HotspotStatus[] {
+	const statuses = scoreHotspots({ historyHours: 0, now });
+	const hourBucket = Math.floor(now / HOUR_MS);
+	upsertHotspotLevels(
+		statuses.map((status) => ({
+			hourBucket,
+			hotspot: status.name,
+			count: status.count,
+			robustZ: status.robustZScore,
+			level: status.level
+		}))
+	);
+	return statuses;
+}
+
+/**
+ * Current levels with the last `historyHours` of recorded history, as served by /api/hotspots
+ */
+export function getHotspotLevels(options: HotspotScoreOptions = {}): HotspotLevels {
+	const now = options.now ?? Date.now();
+	return {
+		hotspots: scoreHotspots({ ...options, now }),
+		windowHours: HOTSPOT_WINDOW_HOURS,
+		updatedAt: now
+	};
+}
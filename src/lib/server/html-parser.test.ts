@@ -14,7 +14,7 @@ vi.mock('$lib/utils/regional-filter', () => ({
 	classifyRegionalItem: () => ({ accepted: true })
 }));
 
-import { parseHtmlPage, isHtmlContent } from './html-parser';
+import { parseHtmlPage, isHtmlContent, extractArticleBody } from './html-parser';
 
 describe('isHtmlContent', () => {
 	it('returns true for HTML doctype', () => {
@@ -336,3 +336,39 @@ describe('parseHtmlPage', () => {
 		});
 	});
 });
+
+describe('extractArticleBody', () => {
+	const paragraph = 'Officials confirmed the ceasefire would take effect at midnight local time.';
+
+	it('prefers the JSON-LD articleBody', () => {
+		const html = `
+			<html><head>
+				<script type="application/ld+json">
+				{"@type": "NewsArticle", "headline": "Ceasefire", "articleBody": "${paragraph}"}
+				</script>
+			</head><body><p>Unrelated paragraph text that should not be used for the body.</p></body></html>
+		`;
+
+		expect(extractArticleBody(html, 5000)).toBe(paragraph);
+	});
+
+	it('keeps article paragraphs and drops page furniture and short lines', () => {
+		const html = `
+			<html><body>
+				<nav><p>Home, World, Business, Technology, Science and more sections</p></nav>
+				<article>
+					<p>By Staff</p>
+					<p>${paragraph}</p>
+					<aside><p>Read more: the full timeline of the conflict and its aftermath</p></aside>
+					<p>Aid convoys are expected to cross the border on Tuesday morning.</p>
+				</article>
+			</body></html>
+		`;
+
+		expect(extractArticleBody(html, 5000)).toBe(
+			`${paragraph}\n\nAid convoys are expected to cross the border on Tuesday morning.`
+		);
+		expect(extractArticleBody(html, 20)).toBe(paragraph.slice(0, 20));
+		expect(extractArticleBody('<html><body><p>Short</p></body></html>', 5000)).toBeNull();
+	});
+});
@@ -9,11 +9,14 @@
  */
 
 import * as cheerio from 'cheerio';
-import type { NewsItem, NewsCategory } from '$lib/types';
+import type { NewsItem, NewsCategory, NewsLanguage } from '$lib/types';
 import type { HtmlSelectors } from '$lib/config/feeds';
 import { containsAlertKeyword, detectRegion, detectTopics } from '$lib/config/keywords';
 import { classifyRegionalItem } from '$lib/utils/regional-filter';
 import { hashCode, parseNewsTimestamp } from '$lib/shared/news-parser';
+import { detectLanguage, normalizeLanguageTag } from '$lib/shared/language';
+import { scoreSentiment } from '$lib/shared/sentiment';
+import { geocodeNewsItem } from '$lib/shared/geocoder';
 
 /**
  * Check if a text response looks like HTML rather than RSS/Atom XML
@@ -66,7 +69,8 @@ interface RawArticle {
 function enrichAndFilter(
 	articles: RawArticle[],
 	sourceName: string,
-	category: NewsCategory
+	category: NewsCategory,
+	pageLanguage: NewsLanguage | null = null
 ): NewsItem[] {
 	const items: NewsItem[] = [];
 	const seen = new Set<string>();
@@ -87,7 +91,8 @@ function enrichAndFilter(
 		const regionalDecision = classifyRegionalItem({ title, description: cleanDesc, category });
 		if (!regionalDecision.accepted) continue;
 
-		const alert = containsAlertKeyword(title);
+		const lang = detectLanguage(detectText, pageLanguage);
+		const alert = containsAlertKeyword(title, lang);
 
 		items.push({
 			id: makeId(category, sourceName, article.link),
@@ -100,8 +105,11 @@ function enrichAndFilter(
 			category,
 			isAlert: !!alert,
 			alertKeyword: alert?.keyword || undefined,
-			region: detectRegion(detectText) ?? undefined,
-			topics: detectTopics(detectText)
+			region: detectRegion(detectText, lang) ?? undefined,
+			topics: detectTopics(detectText, lang),
+			lang: lang ?? undefined,
+			sentiment: scoreSentiment(title, lang) ?? undefined,
+			...geocodeNewsItem({ title, description: cleanDesc })
 		});
 	}
 
@@ -299,6 +307,7 @@ export function parseHtmlPage(
 	selectors?: HtmlSelectors
 ): NewsItem[] {
 	const $ = cheerio.load(html);
+	const pageLanguage = normalizeLanguageTag($('html').attr('lang'));
 
 	let articles: RawArticle[] = [];
 
@@ -306,29 +315,81 @@ export function parseHtmlPage(
 	if (selectors) {
 		articles = extractWithSelectors($, sourceUrl, selectors);
 		if (articles.length > 0) {
-			return enrichAndFilter(articles, sourceName, category);
+			return enrichAndFilter(articles, sourceName, category, pageLanguage);
 		}
 	}
 
 	// Strategy 2: JSON-LD structured data
 	articles = extractFromJsonLd($, sourceUrl);
 	if (articles.length > 0) {
-		return enrichAndFilter(articles, sourceName, category);
+		return enrichAndFilter(articles, sourceName, category, pageLanguage);
 	}
 
 	// Strategy 3: Semantic <article> tags
 	articles = extractFromArticleTags($, sourceUrl);
 	if (articles.length > 0) {
-		return enrichAndFilter(articles, sourceName, category);
+		return enrichAndFilter(articles, sourceName, category, pageLanguage);
 	}
 
 	// Strategy 4: Common CSS class patterns
 	articles = extractFromCommonPatterns($, sourceUrl);
 	if (articles.length > 0) {
-		return enrichAndFilter(articles, sourceName, category);
+		return enrichAndFilter(articles, sourceName, category, pageLanguage);
 	}
 
 	// Strategy 5: Open Graph meta fallback
 	articles = extractFromOpenGraph($);
-	return enrichAndFilter(articles, sourceName, category);
+	return enrichAndFilter(articles, sourceName, category, pageLanguage);
+}
+
+// --- Article body extraction ---
+
+/** Page furniture dropped before looking for the article text */
+const NON_CONTENT_SELECTORS =
+	'script, style, noscript, nav, header, footer, aside, form, figure, iframe, [role="navigation"], [aria-hidden="true"]';
+const BODY_CONTAINER_SELECTORS = ['[itemprop="articleBody"]', 'article', 'main', 'body'];
+/** Paragraphs shorter than this are usually bylines, captions or share prompts */
+const MIN_PARAGRAPH_LENGTH = 40;
+
+function findJsonLdArticleBody($: cheerio.CheerioAPI): string | null {
+	let body: string | null = null;
+	$('script[type="application/ld+json"]').each((_, el) => {
+		if (body) return;
+		try {
+			const data = JSON.parse($(el).html() ?? '');
+			const items: unknown[] = Array.isArray(data) ? data : (data?.['@graph'] ?? [data]);
+			for (const item of items) {
+				const articleBody = (item as Record<string, unknown> | null)?.articleBody;
+				if (typeof articleBody === 'string' && articleBody.trim()) {
+					body = stripHtml(articleBody);
+					return;
+				}
+			}
+		} catch {
+			// Invalid JSON-LD, skip
+		}
+	});
+	return body;
+}
+
+/**
+ * Readable body text of an article page: JSON-LD articleBody when published, otherwise the
+ * paragraphs of the first content container that has any. Null when nothing article-like is found.
+ */
+export function extractArticleBody(html: string, maxLength: number): string | null {
+	const $ = cheerio.load(html);
+	const fromJsonLd = findJsonLdArticleBody($);
+	if (fromJsonLd) return fromJsonLd.slice(0, maxLength);
+
+	$(NON_CONTENT_SELECTORS).remove();
+	for (const selector of BODY_CONTAINER_SELECTORS) {
+		const paragraphs = $(selector)
+			.first()
+			.find('p')
+			.toArray()
+			.map((el) => $(el).text().replace(/\s+/g, ' ').trim())
+			.filter((text) => text.length >= MIN_PARAGRAPH_LENGTH);
+		if (paragraphs.length > 0) return paragraphs.join('\n\n').slice(0, maxLength);
+	}
+	return null;
 }
@@ -0,0 +1,324 @@
+/**
+ * Layoff report extraction - state WARN-notice publications (CSV downloads or HTML tables)
+ * and layoff headlines from the news feeds
+ */
+
+import * as cheerio from 'cheerio';
+import {
+	WARN_COLUMN_ALIASES,
+	getKeywordSector,
+	getNaicsSector,
+	type WarnColumn,
+	type WarnSource
+} from '$lib/config/layoffs';
+import { normalizeVendorName } from '$lib/config/contracts';
+import { hashCode } from '$lib/shared/news-parser';
+import type { LayoffSector, NewsItem } from '$lib/types';
+import type { LayoffReportRow } from './db';
+
+/** A report before it is assigned to an event */
+export type LayoffReport = Omit<LayoffReportRow, 'eventId'>;
+
+const HEADER_SCAN_ROWS = 10;
+const HTTP_TIMEOUT_MS = 30000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Key used to recognise the same company across sources ("ACME Corp., Inc." and "Acme")
+ */
+export function getCompanyKey(company: string): string {
+	return normalizeVendorName(company);
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	if (field !== '' || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Notice dates as YYYY-MM-DD from "3/14/2025", "2025-03-14", "14-Mar-25" or "March 14, 2025"
+ */
+export function parseNoticeDate(value: string): string | null {
+	const text = value.trim();
+	const pad = (n: number) => String(n).padStart(2, '0');
+	const toIso = (year: number, month: number, day: number) => {
+		const fullYear = year < 100 ? 2000 + year : year;
+		if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+		return `${fullYear}-${pad(month)}-${pad(day)}`;
+	};
+
+	let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+	if (match) return toIso(Number(match[1]), Number(match[2]), Number(match[3]));
+	match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/);
+	if (match) return toIso(Number(match[3]), Number(match[1]), Number(match[2]));
+	match = text.match(/^(\d{1,2})[- ]([a-z]{3})[a-z]*[- ,]+(\d{2}|\d{4})\b/i);
+	if (match) {
+		return toIso(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]));
+	}
+	match = text.match(/^([a-z]{3})[a-z]*\.? (\d{1,2}),? (\d{4})\b/i);
+	if (match) {
+		return toIso(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]));
+	}
+	return null;
+}
+
+function parseHeadcount(value: string): number | null {
+	const digits = value.replace(/[,\s]/g, '').match(/\d+/);
+	if (!digits) return null;
+	const count = Number(digits[0]);
+	return count > 0 ? count : null;
+}
+
+function normalizeHeader(header: string): string {
+	return header
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim();
+}
+
+/**
+ * Column index for each known WARN field; exact alias matches beat partial ones
+ */
+function mapWarnColumns(headers: string[]): Partial<Record<WarnColumn, number>> {
+	const normalized = headers.map(normalizeHeader);
+	const columns: Partial<Record<WarnColumn, number>> = {};
+	const used = new Set<number>();
+
+	for (const column of Object.keys(WARN_COLUMN_ALIASES) as WarnColumn[]) {
+		const aliases: readonly string[] = WARN_COLUMN_ALIASES[column];
+		const find = (matches: (header: string, alias: string) => boolean) => {
+			for (const alias of aliases) {
+				const index = normalized.findIndex(
+					(header, i) => !used.has(i) && header !== '' && matches(header, alias)
+				);
+				if (index !== -1) return index;
+			}
+			return -1;
+		};
+		let index = find((header, alias) => header === alias);
+		if (index === -1) index = find((header, alias) => header.split(' ').includes(alias));
+		if (index === -1) index = find((header, alias) => header.includes(alias));
+		if (index !== -1) {
+			columns[column] = index;
+			used.add(index);
+		}
+	}
+	return columns;
+}
+
+/**
+ * Turn a WARN table (header row somewhere near the top, one notice per row) into reports
+ */
+export function parseWarnRows(rows: string[][], source: WarnSource): LayoffReport[] {
+	const headerIndex = rows.slice(0, HEADER_SCAN_ROWS).findIndex((row) => {
+		const columns = mapWarnColumns(row);
+		return columns.company !== undefined && columns.date !== undefined;
+	});
+	if (headerIndex === -1) return [];
+
+	const columns = mapWarnColumns(rows[headerIndex]);
+	const cell = (row: string[], column: WarnColumn) => {
+		const index = columns[column];
+		return index === undefined ? '' : (row[index] ?? '').replace(/\s+/g, ' ').trim();
+	};
+
+	const reports: LayoffReport[] = [];
+	for (const row of rows.slice(headerIndex + 1)) {
+		const company = cell(row, 'company');
+		const date = parseNoticeDate(cell(row, 'date'));
+		if (!company || !date || !getCompanyKey(company)) continue;
+
+		const count = parseHeadcount(cell(row, 'count'));
+		const location = cell(row, 'location') || null;
+		reports.push({
+			id: `warn:${source.id}:${hashCode([company, date, location, count].join('|'))}`,
+			kind: 'warn',
+			company,
+			date,
+			count,
+			percentage: null,
+			sector: getNaicsSector(cell(row, 'naics')) ?? getKeywordSector(company),
+			title: location ? `${location}, ${source.state}` : source.state,
+			source: `WARN ${source.state}`,
+			url: source.url,
+			state: source.state,
+			location
+		});
+	}
+	return reports;
+}
+
+export function parseWarnCsv(text: string, source: WarnSource): LayoffReport[] {
+	return parseWarnRows(parseCsv(text), source);
+}
+
+/**
+ * Every table on the page is tried, since publications often split notices by year
+ */
+export function parseWarnHtml(html: string, source: WarnSource): LayoffReport[] {
+	const $ = cheerio.load(html);
+	const reports: LayoffReport[] = [];
+	$('table').each((_, table) => {
+		const rows = $(table)
+			.find('tr')
+			.toArray()
+			.map((tr) =>
+				$(tr)
+					.find('th, td')
+					.toArray()
+					.map((cell) => $(cell).text())
+			);
+		reports.push(...parseWarnRows(rows, source));
+	});
+	return reports;
+}
+
+export async function fetchWarnNotices(source: WarnSource): Promise<LayoffReport[]> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+	try {
+		const response = await fetch(source.url, {
+			headers: { Accept: source.format === 'csv' ? 'text/csv' : 'text/html' },
+			signal: controller.signal
+		});
+		if (!response.ok) throw new Error(`WARN ${source.state} HTTP ${response.status}`);
+		const text = await response.text();
+		return source.format === 'csv' ? parseWarnCsv(text, source) : parseWarnHtml(text, source);
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+const LAYOFF_TERMS =
+	/\b(layoffs?|lay(?:s|ing)? off|laid off|job cuts|redundanc(?:y|ies)|workforce reduction)\b/i;
+const CUT_VERBS =
+	/\b(cut(?:s|ting)?|slash(?:es|ing)?|eliminat(?:es?|ing)|shed(?:s|ding)?|axe[sd]?)\b/i;
+const HEADCOUNT =
+	/\b(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k|thousand)?\s+(?:more\s+)?(jobs|employees|workers|staff(?:ers)?|roles|positions|people)\b/i;
+const PERCENTAGE =
+	/\b(\d{1,2}(?:\.\d+)?)\s*(?:%|percent)\s+(?:of\s+)?(?:its\s+|their\s+|the\s+)?(?:global\s+|total\s+)?(workforce|staff|employees|jobs|workers|headcount)\b/i;
+const AT_COMPANY =
+	/\b(?:[Ll]ayoffs?|[Jj]ob cuts|[Cc]uts)\s+at\s+([A-Z0-9][\w&.'-]*(?:\s+[A-Z0-9][\w&.'-]*){0,3})/;
+const LEADING_PHRASES = /^(?:(?:breaking|report|exclusive|update)\s*[:-]\s*)+/i;
+const TRAILING_VERBS =
+	/\s+(?:to|will|plans?|planning|set|is|are|says?|said|announces?|announced|confirms?|reportedly|could|may|reveals?|begins?|starts?|unveils?|more|new|another|further|job|jobs)$/i;
+const NOT_COMPANIES = new Set([
+	'a',
+	'an',
+	'the',
+	'us',
+	'u s',
+	'uk',
+	'eu',
+	'tech',
+	'big tech',
+	'startups',
+	'companies',
+	'employers',
+	'workers',
+	'why',
+	'how',
+	'more',
+	'layoffs'
+]);
+
+function parseNewsHeadcount(match: RegExpMatchArray): number {
+	const value = Number(match[1].replace(/,/g, ''));
+	return Math.round(match[2] ? value * 1000 : value);
+}
+
+/**
+ * Company named before the layoff phrase ("Acme to cut 500 jobs", "Acme's cloud unit lays
+ * off...") or after "layoffs at"
+ */
+function extractCompany(title: string, phraseIndex: number): string | null {
+	const atMatch = title.match(AT_COMPANY);
+	let candidate = atMatch?.[1] ?? '';
+
+	if (!candidate) {
+		let prefix = title.slice(0, phraseIndex);
+		prefix = prefix.split(/[:|—–]\s/).pop() ?? '';
+		prefix = prefix.replace(LEADING_PHRASES, '').trim();
+		const possessive = prefix.match(/^(.*?)['’]s\b/);
+		if (possessive) prefix = possessive[1];
+		while (TRAILING_VERBS.test(prefix)) prefix = prefix.replace(TRAILING_VERBS, '');
+		// The trailing run of capitalised words, so "Tech giant Meta" yields "Meta"
+		candidate = prefix.match(/(?:[A-Z0-9][\w&.'-]*\s+)*[A-Z0-9][\w&.'-]*$/)?.[0] ?? '';
+	}
+
+	candidate = candidate.replace(/[.,]+$/, '').trim();
+	if (!candidate || NOT_COMPANIES.has(normalizeHeader(candidate))) return null;
+	return candidate;
+}
+
+/**
+ * A layoff report from a headline, or null when it does not announce a company's job cuts
+ */
+export function extractLayoffFromNews(
+	item: NewsItem,
+	fallbackSector: LayoffSector
+): LayoffReport | null {
+	const title = item.title.replace(/\s+/g, ' ').trim();
+	const headcount = title.match(HEADCOUNT);
+	const percentage = title.match(PERCENTAGE);
+	const term = title.match(LAYOFF_TERMS);
+	const cut = headcount || percentage ? title.match(CUT_VERBS) : null;
+	const phrase = term ?? cut;
+	if (!phrase || phrase.index === undefined) return null;
+
+	const company = extractCompany(title, phrase.index);
+	if (!company || !getCompanyKey(company)) return null;
+
+	return {
+		id: `news:${item.id}`,
+		kind: 'news',
+		company,
+		date: new Date(item.timestamp).toISOString().slice(0, 10),
+		count: headcount ? parseNewsHeadcount(headcount) : null,
+		percentage: percentage ? Number(percentage[1]) : null,
+		sector: getKeywordSector(`${company} ${title}`) ?? fallbackSector,
+		title,
+		source: item.source,
+		url: item.link,
+		state: null,
+		location: null
+	};
+}
@@ -0,0 +1,312 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { WarnSource } from '$lib/config/layoffs';
+import type { NewsCategory, NewsItem } from '$lib/types';
+// Saved copies of a state WARN page and CSV download, standing in for the live publications
+import WARN_HTML from './__fixtures__/warn-md.html?raw';
+import WARN_CSV from './__fixtures__/warn-ca.csv?raw';
+import { createNewsItem, useTestDb } from './test-db';
+
+const NOW = Date.UTC(2026, 9, 12, 14, 0, 0);
+const DAY_MS = 86400000;
+
+const MD_SOURCE: WarnSource = {
+	id: 'md',
+	state: 'MD',
+	format: 'html',
+	url: 'https://warn.test/md.html'
+};
+const CA_SOURCE: WarnSource = {
+	id: 'ca',
+	state: 'CA',
+	format: 'csv',
+	url: 'https://warn.test/ca.csv'
+};
+
+function newsItem(
+	id: string,
+	title: string,
+	timestamp = NOW,
+	category: NewsCategory = 'tech'
+): NewsItem {
+	return createNewsItem({ id, title, timestamp, category });
+}
+
+describe('WARN notice parsing', () => {
+	it('splits CSV rows with quoted commas, escaped quotes and line breaks', async () => {
+		const { parseCsv } = await import('./layoff-sources');
+		expect(parseCsv('a,"b, c","say ""hi"""\r\n"multi\nline",2,\n\n')).toEqual([
+			['a', 'b, c', 'say "hi"'],
+			['multi\nline', '2', '']
+		]);
+	});
+
+	it('reads the notice date formats states publish', async () => {
+		const { parseNoticeDate } = await import('./layoff-sources');
+		expect(parseNoticeDate('10/3/2026')).toBe('2026-10-03');
+		expect(parseNoticeDate('10/03/26')).toBe('2026-10-03');
+		expect(parseNoticeDate('2026-10-03T00:00:00')).toBe('2026-10-03');
+		expect(parseNoticeDate('3-Oct-26')).toBe('2026-10-03');
+		expect(parseNoticeDate('October 3, 2026')).toBe('2026-10-03');
+		expect(parseNoticeDate('TBD')).toBeNull();
+		expect(parseNoticeDate('13/45/2026')).toBeNull();
+	});
+
+	it('finds the notice tables on an HTML page and maps their columns', async () => {
+		const { parseWarnHtml } = await import('./layoff-sources');
+		const reports = parseWarnHtml(WARN_HTML, MD_SOURCE);
+
+		expect(reports.map((report) => report.company)).toEqual([
+			'Meta Platforms, Inc.',
+			'ACME MOTORS CORP',
+			'Old Retail Co'
+		]);
+		expect(reports[0]).toMatchObject({
+			kind: 'warn',
+			date: '2026-10-01',
+			count: 120,
+			percentage: null,
+			sector: 'technology',
+			title: 'Baltimore, MD',
+			source: 'WARN MD',
+			url: MD_SOURCE.url,
+			state: 'MD',
+			location: 'Baltimore'
+		});
+		expect(reports[0].id).toMatch(/^warn:md:/);
+		expect(reports[1].sector).toBe('automotive');
+		expect(reports[2]).toMatchObject({ date: '2025-03-02', sector: 'retail' });
+	});
+
+	it('skips title rows above the CSV header and rows without a date', async () => {
+		const { parseWarnCsv } = await import('./layoff-sources');
+		const reports = parseWarnCsv(WARN_CSV, CA_SOURCE);
+
+		expect(reports.map((report) => [report.company, report.date, report.count])).toEqual([
+			['Meta Platforms, Inc.', '2026-10-03', 300],
+			['Harbor Freight Logistics LLC', '2026-09-20', 1050],
+			['The "Corner" Bakery Co', '2026-10-07', 45]
+		]);
+		expect(reports.map((report) => report.sector)).toEqual([
+			'technology',
+			'logistics',
+			'manufacturing'
+		]);
+	});
+
+	it('keeps the same notice id across fetches', async () => {
+		const { parseWarnCsv } = await import('./layoff-sources');
+		const first = parseWarnCsv(WARN_CSV, CA_SOURCE).map((report) => report.id);
+		expect(parseWarnCsv(WARN_CSV, CA_SOURCE).map((report) => report.id)).toEqual(first);
+		expect(new Set(first).size).toBe(first.length);
+	});
+});
+
+describe('layoff headline extraction', () => {
+	it('pulls the company, headcount and share of staff out of a headline', async () => {
+		const { extractLayoffFromNews } = await import('./layoff-sources');
+
+		expect(
+			extractLayoffFromNews(
+				newsItem('n1', 'Meta to lay off 600 workers in Reality Labs'),
+				'technology'
+			)
+		).toMatchObject({
+			id: 'news:n1',
+			kind: 'news',
+			company: 'Meta',
+			date: '2026-10-12',
+			count: 600,
+			percentage: null,
+			sector: 'technology',
+			source: 'Reuters',
+			url: 'https://example.com/n1'
+		});
+		expect(
+			extractLayoffFromNews(
+				newsItem('n2', 'Goldman Sachs cuts 3% of staff in annual review', NOW, 'finance'),
+				'finance'
+			)
+		).toMatchObject({ company: 'Goldman Sachs', count: null, percentage: 3, sector: 'finance' });
+		expect(
+			extractLayoffFromNews(
+				newsItem('n3', "Intel's foundry unit lays off 1.5k employees"),
+				'technology'
+			)
+		).toMatchObject({ company: 'Intel', count: 1500 });
+		expect(
+			extractLayoffFromNews(newsItem('n4', 'Report: Tech giant Oracle plans layoffs'), 'technology')
+		).toMatchObject({ company: 'Oracle', count: null });
+		expect(
+			extractLayoffFromNews(newsItem('n5', 'Layoffs at Rivian hit sales staff'), 'technology')
+		).toMatchObject({ company: 'Rivian', sector: 'automotive' });
+		expect(
+			extractLayoffFromNews(newsItem('n6', 'Acme Robotics slashes 12,000 jobs'), 'technology')
+		).toMatchObject({ company: 'Acme Robotics', count: 12000 });
+	});
+
+	it('ignores headlines that are not a company cutting jobs', async () => {
+		const { extractLayoffFromNews } = await import('./layoff-sources');
+		const titles = [
+			'Fed cuts rates by 25 basis points',
+			'Tech layoffs hit 100,000 workers this year',
+			'Layoffs are rising across the economy',
+			'Nvidia unveils new chips for 5,000 developers'
+		];
+		for (const title of titles) {
+			expect(extractLayoffFromNews(newsItem('x', title), 'technology')).toBeNull();
+		}
+	});
+});
+
+describe('layoff events', () => {
+	it('sums WARN sites, keeps the larger headline figure and prefers headline details', async () => {
+		const { summarizeLayoffEvent } = await import('./layoffs');
+		const base = {
+			eventId: 'meta:2026-10-01',
+			percentage: null,
+			sector: null,
+			state: null,
+			location: null
+		};
+		const event = summarizeLayoffEvent('meta:2026-10-01', [
+			{
+				...base,
+				id: 'news:1',
+				kind: 'news',
+				company: 'Meta',
+				date: '2026-10-08',
+				count: 350,
+				percentage: 5,
+				title: 'Meta to cut 5% of staff',
+				source: 'Wire',
+				url: 'https://example.com/1'
+			},
+			{
+				...base,
+				id: 'warn:md:1',
+				kind: 'warn',
+				company: 'Meta Platforms, Inc.',
+				date: '2026-10-01',
+				count: 120,
+				sector: 'technology',
+				title: 'Baltimore, MD',
+				source: 'WARN MD',
+				url: 'https://warn.test/md',
+				state: 'MD'
+			},
+			{
+				...base,
+				id: 'warn:ca:1',
+				kind: 'warn',
+				company: 'Meta Platforms, Inc.',
+				date: '2026-10-03',
+				count: 300,
+				title: 'Sunnyvale, CA',
+				source: 'WARN CA',
+				url: 'https://warn.test/ca',
+				state: 'CA'
+			}
+		]);
+
+		expect(event).toMatchObject({
+			company: 'Meta',
+			date: '2026-10-01',
+			lastDate: '2026-10-08',
+			count: 420,
+			percentage: 5,
+			sector: 'technology',
+			title: 'Meta to cut 5% of staff',
+			kind: 'news',
+			state: 'MD',
+			reports: 3
+		});
+	});
+});
+
+describe('layoff storage', () => {
+	useTestDb();
+
+	beforeAll(() => {
+		// News reads are bounded by the wall clock, so pin it to the fixtures' dates
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(NOW);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	afterAll(() => {
+		vi.useRealTimers();
+	});
+
+	it('merges WARN notices and headlines into events with sector aggregates', async () => {
+		const { upsertNewsItems } = await import('./db');
+		const { getLayoffSummary, refreshLayoffs } = await import('./layoffs');
+		upsertNewsItems([
+			newsItem('meta', 'Meta to lay off 600 workers in Reality Labs', NOW - DAY_MS * 4),
+			newsItem('gs', 'Goldman Sachs cuts 3% of staff', NOW - DAY_MS, 'finance'),
+			newsItem('fed', 'Fed cuts rates by 25 basis points', NOW - DAY_MS, 'finance')
+		]);
+		const fetchMock = vi.fn(
+			async (url: string) => new Response(url === MD_SOURCE.url ? WARN_HTML : WARN_CSV)
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const result = await refreshLayoffs({ now: NOW, sources: [MD_SOURCE, CA_SOURCE] });
+		// The 2025 Maryland notice is past retention; two headlines name companies
+		expect(result).toEqual({ inserted: 7, errors: [] });
+
+		const summary = getLayoffSummary(NOW);
+		expect(summary.updatedAt).toBe(NOW);
+		expect(summary.layoffs.map((layoff) => [layoff.company, layoff.count, layoff.reports])).toEqual(
+			[
+				['Goldman Sachs', null, 1],
+				['The "Corner" Bakery Co', 45, 1],
+				['ACME MOTORS CORP', 85, 1],
+				['Meta', 600, 3],
+				['Harbor Freight Logistics LLC', 1050, 1]
+			]
+		);
+		expect(summary.layoffs[3]).toMatchObject({ date: '2026-10-01', state: 'MD', kind: 'news' });
+		expect(summary.sectors['30d']).toEqual([
+			{ sector: 'logistics', events: 1, workers: 1050 },
+			{ sector: 'technology', events: 1, workers: 600 },
+			{ sector: 'automotive', events: 1, workers: 85 },
+			{ sector: 'manufacturing', events: 1, workers: 45 },
+			{ sector: 'finance', events: 1, workers: 0 }
+		]);
+
+		// Reports already stored are skipped, and WARN pages are not refetched until due
+		fetchMock.mockClear();
+		expect(await refreshLayoffs({ now: NOW + 3600000, sources: [MD_SOURCE, CA_SOURCE] })).toEqual({
+			inserted: 0,
+			errors: []
+		});
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it('retries a failed WARN source on the next refresh', async () => {
+		const { refreshLayoffs, WARN_FETCH_INTERVAL_MS } = await import('./layoffs');
+		const later = NOW + WARN_FETCH_INTERVAL_MS;
+		const fetchMock = vi.fn(async () => new Response('', { status: 503 }));
+		vi.stubGlobal('fetch', fetchMock);
+
+		expect((await refreshLayoffs({ now: later, sources: [MD_SOURCE] })).errors).toEqual([
+			'md: WARN MD HTTP 503'
+		]);
+		fetchMock.mockClear();
+		await refreshLayoffs({ now: later + 60000, sources: [MD_SOURCE] });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('reads WARN_SOURCES from the environment', async () => {
+		const { getWarnSources } = await import('./layoffs');
+		const { DEFAULT_WARN_SOURCES } = await import('$lib/config/layoffs');
+		expect(getWarnSources({})).toBe(DEFAULT_WARN_SOURCES);
+		expect(getWarnSources({ WARN_SOURCES: JSON.stringify([CA_SOURCE, { id: 'bad' }]) })).toEqual([
+			CA_SOURCE
+		]);
+		expect(getWarnSources({ WARN_SOURCES: '[]' })).toEqual([]);
+	});
+});
@@ -0,0 +1,231 @@
+/**
+ * Layoff tracker: merges WARN notices and layoff headlines into per-company events in SQLite
+ * and aggregates them by sector
+ */
+
+import { env as privateEnv } from '$env/dynamic/private';
+import {
+	DEFAULT_WARN_SOURCES,
+	LAYOFF_MERGE_WINDOW_DAYS,
+	LAYOFF_NEWS_CATEGORIES,
+	type WarnSource
+} from '$lib/config/layoffs';
+import type { LayoffSector, LayoffSummary, NewsCategory } from '$lib/types';
+import {
+	findLayoffEventId,
+	getLayoffEvents,
+	getLayoffReports,
+	getLayoffSectorStats,
+	getMeta,
+	getNewsByCategoryBatch,
+	hasLayoffReport,
+	insertLayoffReport,
+	setMeta,
+	upsertLayoffEvent,
+	type LayoffEventRow,
+	type LayoffReportRow
+} from './db';
+import {
+	extractLayoffFromNews,
+	fetchWarnNotices,
+	getCompanyKey,
+	type LayoffReport
+} from './layoff-sources';
+
+const DAY_MS = 86400000;
+/** States publish WARN notices a few times a week; polling more often refetches the same page */
+export const WARN_FETCH_INTERVAL_MS = 12 * 3600000;
+/** Headlines this recent are scanned each refresh (reports already stored are skipped) */
+const NEWS_WINDOW_MS = 7 * DAY_MS;
+export const LAYOFF_RETENTION_DAYS = 180;
+const SUMMARY_LIMIT = 50;
+const WARN_META_KEY = 'layoffsWarnLastFetch';
+
+interface WarnFetchMeta {
+	/** Last successful fetch per source id; failed sources are retried on the next refresh */
+	at: Record<string, number>;
+	errors: Record<string, string>;
+}
+
+export interface LayoffRefreshResult {
+	inserted: number;
+	errors: string[];
+}
+
+function isWarnSource(value: unknown): value is WarnSource {
+	const source = value as Partial<WarnSource> | null;
+	return (
+		typeof source?.id === 'string' &&
+		typeof source.state === 'string' &&
+		typeof source.url === 'string' &&
+		(source.format === 'csv' || source.format === 'html')
+	);
+}
+
+/**
+ * WARN publications to poll. WARN_SOURCES, a JSON array of {id, state, format, url}, replaces
+ * the defaults in config/layoffs ("[]" turns WARN polling off).
+ */
+export function getWarnSources(env: Record<string, string | undefined> = privateEnv): WarnSource[] {
+	if (!env.WARN_SOURCES) return DEFAULT_WARN_SOURCES;
+	try {
+		const parsed: unknown = JSON.parse(env.WARN_SOURCES);
+		if (Array.isArray(parsed)) return parsed.filter(isWarnSource);
+	} catch {
+		// Fall through to the defaults
+	}
+	console.warn('[Layoffs] Ignoring invalid WARN_SOURCES; expected a JSON array');
+	return DEFAULT_WARN_SOURCES;
+}
+
+function toDateString(timestamp: number): string {
+	return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Combine an event's reports. Separate WARN notices cover separate sites, so their headcounts
+ * add up; headlines usually give the company-wide figure, so the larger of the two is kept.
+ * Headlines supply the displayed title and name, WARN notices the sector and state.
+ */
+export function summarizeLayoffEvent(id: string, reports: LayoffReportRow[]): LayoffEventRow {
+	const sorted = [...reports].sort((a, b) => a.date.localeCompare(b.date));
+	const warn = sorted.filter((report) => report.kind === 'warn');
+	const news = sorted.filter((report) => report.kind === 'news');
+	const primary = news[0] ?? warn[0];
+
+	const warnCounts = warn.flatMap((report) => (report.count === null ? [] : [report.count]));
+	const newsCounts = news.flatMap((report) => (report.count === null ? [] : [report.count]));
+	const counts = [
+		...(warnCounts.length > 0 ? [warnCounts.reduce((sum, count) => sum + count, 0)] : []),
+		...newsCounts
+	];
+	const percentages = news.flatMap((report) =>
+		report.percentage === null ? [] : [report.percentage]
+	);
+
+	return {
+		id,
+		company: primary.company,
+		companyKey: getCompanyKey(primary.company),
+		date: sorted[0].date,
+		lastDate: sorted[sorted.length - 1].date,
+		sector: [...warn, ...news].find((report) => report.sector)?.sector ?? 'other',
+		count: counts.length > 0 ? Math.max(...counts) : null,
+		percentage: percentages.length > 0 ? Math.max(...percentages) : null,
+		title: primary.title,
+		source: primary.source,
+		url: primary.url,
+		kind: primary.kind,
+		state: warn[0]?.state ?? null,
+		reports: sorted.length
+	};
+}
+
+/**
+ * Store reports not seen before, attaching each to the company's event within the merge window
+ * (or starting a new one), then recompute the touched events; returns the new report count
+ */
+export function ingestLayoffReports(reports: LayoffReport[], now = Date.now()): number {
+	const touched = new Set<string>();
+	let inserted = 0;
+
+	for (const report of reports) {
+		if (hasLayoffReport(report.id)) continue;
+		const companyKey = getCompanyKey(report.company);
+		const eventId =
+			findLayoffEventId(companyKey, report.date, LAYOFF_MERGE_WINDOW_DAYS) ??
+			`${companyKey}:${report.date}`;
+		if (insertLayoffReport({ ...report, eventId }, now)) {
+			inserted += 1;
+			touched.add(eventId);
+		}
+	}
+
+	for (const eventId of touched) {
+		upsertLayoffEvent(summarizeLayoffEvent(eventId, getLayoffReports(eventId)), now);
+	}
+	return inserted;
+}
+
+/**
+ * Layoff reports in the cached tech/finance headlines
+ */
+export function extractNewsLayoffs(now = Date.now()): LayoffReport[] {
+	const categories = Object.keys(LAYOFF_NEWS_CATEGORIES) as NewsCategory[];
+	const news = getNewsByCategoryBatch(
+		categories,
+		Object.fromEntries(categories.map((category) => [category, now - NEWS_WINDOW_MS]))
+	);
+	return categories.flatMap((category) =>
+		(news[category] ?? []).flatMap((item) => {
+			const report = extractLayoffFromNews(item, LAYOFF_NEWS_CATEGORIES[category] as LayoffSector);
+			return report ? [report] : [];
+		})
+	);
+}
+
+let refreshInFlight: Promise<LayoffRefreshResult> | null = null;
+
+/**
+ * Poll WARN sources that are due (every WARN_FETCH_INTERVAL_MS unless forced) and scan the
+ * recent headlines; concurrent calls share one run
+ */
+export function refreshLayoffs(
+	options: { force?: boolean; now?: number; sources?: WarnSource[] } = {}
+): Promise<LayoffRefreshResult> {
+	refreshInFlight ??= runRefresh(options).finally(() => {
+		refreshInFlight = null;
+	});
+	return refreshInFlight;
+}
+
+async function runRefresh(options: {
+	force?: boolean;
+	now?: number;
+	sources?: WarnSource[];
+}): Promise<LayoffRefreshResult> {
+	const now = options.now ?? Date.now();
+	const meta = getMeta<WarnFetchMeta>(WARN_META_KEY)?.value ?? { at: {}, errors: {} };
+	const result: LayoffRefreshResult = { inserted: 0, errors: [] };
+	const oldestNotice = toDateString(now - LAYOFF_RETENTION_DAYS * DAY_MS);
+
+	const due = (options.sources ?? getWarnSources()).filter(
+		(source) =>
+			options.force || !meta.at[source.id] || now - meta.at[source.id] >= WARN_FETCH_INTERVAL_MS
+	);
+	for (const source of due) {
+		try {
+			// Publications list the whole year, so older notices are dropped rather than stored
+			const notices = (await fetchWarnNotices(source)).filter(
+				(notice) => notice.date >= oldestNotice
+			);
+			result.inserted += ingestLayoffReports(notices, now);
+			meta.at[source.id] = now;
+			delete meta.errors[source.id];
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			meta.errors[source.id] = message;
+			result.errors.push(`${source.id}: ${message}`);
+		}
+	}
+	if (due.length > 0) setMeta(WARN_META_KEY, meta);
+
+	result.inserted += ingestLayoffReports(extractNewsLayoffs(now), now);
+	return result;
+}
+
+/**
+ * Recent events plus 30- and 90-day sector aggregates for the Layoffs panel
+ */
+export function getLayoffSummary(now = Date.now()): LayoffSummary {
+	const since90 = toDateString(now - 90 * DAY_MS);
+	const warnFetches = Object.values(getMeta<WarnFetchMeta>(WARN_META_KEY)?.value.at ?? {});
+	return {
+		layoffs: getLayoffEvents(since90, SUMMARY_LIMIT),
+		sectors: {
+			'30d': getLayoffSectorStats(toDateString(now - 30 * DAY_MS)),
+			'90d': getLayoffSectorStats(since90)
+		},
+		updatedAt: warnFetches.length > 0 ? Math.max(...warnFetches) : null
+	};
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createNewsItem, useTestDb } from './test-db';
+
+function newsItem(id: string, lat?: number, lon?: number) {
+	return createNewsItem({ id, title: `Headline ${id}`, lat, lon });
+}
+
+const AREAS = JSON.stringify({
+	type: 'FeatureCollection',
+	features: [
+		{
+			type: 'Feature',
+			properties: { name: 'Harbor AOI' },
+			geometry: {
+				type: 'Polygon',
+				coordinates: [
+					[
+						[10, 10],
+						[20, 10],
+						[20, 20],
+						[10, 20],
+						[10, 10]
+					]
+				]
+			}
+		},
+		{ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [15, 15] } }
+	]
+});
+
+describe('server map layers', () => {
+	useTestDb();
+
+	it('validates imported files', async () => {
+		const { addMapLayer } = await import('./map-layers');
+		expect(addMapLayer({ name: 'x', format: 'geojson' })).toEqual({
+			ok: false,
+			error: 'required'
+		});
+		expect(addMapLayer({ name: 'x', format: 'kml', content: AREAS })).toEqual({
+			ok: false,
+			error: 'invalid-file'
+		});
+		expect(
+			addMapLayer({
+				name: 'x',
+				format: 'geojson',
+				content: '{"type":"FeatureCollection","features":[]}'
+			})
+		).toEqual({ ok: false, error: 'empty-layer' });
+	});
+
+	it('flags stored and incoming news inside imported polygons until the layer is removed', async () => {
+		const db = await import('./db');
+		const { addMapLayer, getMapLayers, removeMapLayer, updateMapLayer, withMapLayerAreas } =
+			await import('./map-layers');
+
+		db.upsertNewsItems([newsItem('inside', 12, 12), newsItem('outside', 30, 30), newsItem('none')]);
+
+		const created = addMapLayer({
+			name: 'Sites',
+			color: '#00ff00',
+			format: 'geojson',
+			content: AREAS
+		});
+		expect(created.ok).toBe(true);
+		if (!created.ok) return;
+		expect(created.record).toMatchObject({ name: 'Sites', color: '#00ff00', format: 'geojson' });
+		expect(created.record.data.features).toHaveLength(2);
+		expect(getMapLayers()).toHaveLength(1);
+
+		const stored = () =>
+			Object.fromEntries(db.getNewsBetween(0, Date.now()).map((item) => [item.id, item.areas]));
+		expect(stored()).toEqual({ inside: ['Harbor AOI'], outside: undefined, none: undefined });
+
+		// Re-ingesting the same headline keeps its flag; new ones are flagged on the way in
+		db.upsertNewsItems([newsItem('inside', 12, 12), newsItem('fresh', 19, 11)]);
+		const [fresh] = withMapLayerAreas([newsItem('fresh', 19, 11)]);
+		expect(fresh.areas).toEqual(['Harbor AOI']);
+		expect(stored()).toMatchObject({ inside: ['Harbor AOI'], fresh: ['Harbor AOI'] });
+
+		expect(updateMapLayer(created.record.id, { name: '' })).toEqual({
+			ok: false,
+			error: 'required'
+		});
+		expect(removeMapLayer(created.record.id)).toEqual({ ok: true });
+		expect(stored()).toEqual({
+			inside: undefined,
+			outside: undefined,
+			none: undefined,
+			fresh: undefined
+		});
+		expect(removeMapLayer(created.record.id)).toEqual({ ok: false, error: 'not-found' });
+	});
+});
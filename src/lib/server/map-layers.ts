@@ -0,0 +1,215 @@
+/**
+ * Server-persisted map layers imported from GeoJSON and KML files, and the flags their
+ * polygons put on news geocoded inside them
+ */
+
+import {
+	MAX_MAP_LAYERS,
+	MAX_MAP_LAYER_BYTES,
+	MAX_MAP_LAYER_FEATURES
+} from '$lib/config/map-layers';
+import {
+	boundsContain,
+	geometryContains,
+	getFeatureName,
+	getGeometryBounds,
+	isAreaGeometry,
+	parseMapLayerFile,
+	type MapLayerBounds
+} from '$lib/shared/map-layers';
+import type {
+	MapLayerFormat,
+	MapLayerGeometry,
+	MapLayerMutationError,
+	NewsItem,
+	UserMapLayer
+} from '$lib/types';
+import {
+	deleteMapLayerRow,
+	getGeolocatedNewsRows,
+	getMapLayerCount,
+	getMapLayerRow,
+	getMapLayerRows,
+	insertMapLayerRow,
+	setNewsAreas,
+	updateMapLayerRow,
+	type MapLayerRow
+} from './db';
+
+type MapLayerMutationResult =
+	| { ok: true; record: UserMapLayer }
+	| { ok: false; error: MapLayerMutationError };
+
+export interface MapLayerInput {
+	name?: string;
+	color?: string;
+	format?: MapLayerFormat;
+	/** Text of the imported file */
+	content?: string;
+}
+
+interface AreaEntry {
+	label: string;
+	bounds: MapLayerBounds;
+	geometry: MapLayerGeometry;
+}
+
+const FORMATS = new Set<MapLayerFormat>(['geojson', 'kml']);
+const MAX_NAME_LENGTH = 80;
+
+// Polygons of every imported layer, rebuilt after any layer changes
+let areaIndex: AreaEntry[] | null = null;
+
+function generateId(): string {
+	return `layer_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function rowToMapLayer(row: MapLayerRow): UserMapLayer {
+	return {
+		id: row.id,
+		name: row.name,
+		color: row.color ?? undefined,
+		format: row.format,
+		data: JSON.parse(row.data),
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt
+	};
+}
+
+function normalizeName(name: unknown): string {
+	return typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+}
+
+function normalizeColor(color: unknown): string | null {
+	return typeof color === 'string' && /^#[0-9a-f]{3,8}$/i.test(color.trim()) ? color.trim() : null;
+}
+
+export function getMapLayers(): UserMapLayer[] {
+	return getMapLayerRows().map(rowToMapLayer);
+}
+
+export function getMapLayer(id: string): UserMapLayer | null {
+	const row = getMapLayerRow(id);
+	return row ? rowToMapLayer(row) : null;
+}
+
+/**
+ * Import a GeoJSON or KML file as a new layer and flag the stored news inside its polygons
+ */
+export function addMapLayer(input: MapLayerInput): MapLayerMutationResult {
+	const name = normalizeName(input.name);
+	if (!name || typeof input.content !== 'string' || !input.format || !FORMATS.has(input.format)) {
+		return { ok: false, error: 'required' };
+	}
+	if (Buffer.byteLength(input.content) > MAX_MAP_LAYER_BYTES) {
+		return { ok: false, error: 'too-large' };
+	}
+	if (getMapLayerCount() >= MAX_MAP_LAYERS) return { ok: false, error: 'limit-reached' };
+
+	const data = parseMapLayerFile(input.content, input.format);
+	if (!data) return { ok: false, error: 'invalid-file' };
+	if (data.features.length === 0) return { ok: false, error: 'empty-layer' };
+	if (data.features.length > MAX_MAP_LAYER_FEATURES) return { ok: false, error: 'too-large' };
+
+	const id = generateId();
+	insertMapLayerRow({
+		id,
+		name,
+		color: normalizeColor(input.color),
+		format: input.format,
+		data: JSON.stringify(data)
+	});
+	refreshNewsAreas();
+	return { ok: true, record: getMapLayer(id)! };
+}
+
+/**
+ * Rename or recolor a layer; its features are fixed once imported
+ */
+export function updateMapLayer(
+	id: string,
+	updates: Pick<MapLayerInput, 'name' | 'color'>
+): MapLayerMutationResult {
+	const current = getMapLayer(id);
+	if (!current) return { ok: false, error: 'not-found' };
+
+	const name = updates.name !== undefined ? normalizeName(updates.name) : current.name;
+	if (!name) return { ok: false, error: 'required' };
+	const color = updates.color !== undefined ? normalizeColor(updates.color) : current.color;
+	if (!updateMapLayerRow(id, name, color ?? null)) return { ok: false, error: 'not-found' };
+
+	refreshNewsAreas();
+	return { ok: true, record: getMapLayer(id)! };
+}
+
+export function removeMapLayer(
+	id: string
+): { ok: true } | { ok: false; error: MapLayerMutationError } {
+	if (!deleteMapLayerRow(id)) return { ok: false, error: 'not-found' };
+	refreshNewsAreas();
+	return { ok: true };
+}
+
+// --- News flags ---
+
+function getAreaIndex(): AreaEntry[] {
+	if (areaIndex) return areaIndex;
+	areaIndex = getMapLayers().flatMap((layer) =>
+		layer.data.features
+			.filter((feature) => isAreaGeometry(feature.geometry))
+			.map((feature) => ({
+				// A named polygon is flagged by its own name, an unnamed one by its layer's
+				label: getFeatureName(feature) ?? layer.name,
+				bounds: getGeometryBounds(feature.geometry),
+				geometry: feature.geometry
+			}))
+	);
+	return areaIndex;
+}
+
+/**
+ * Names of the imported areas containing a point, in layer order
+ */
+export function findMapLayerAreas(lat: number, lon: number): string[] {
+	const areas = new Set<string>();
+	for (const entry of getAreaIndex()) {
+		if (boundsContain(entry.bounds, lon, lat) && geometryContains(entry.geometry, lon, lat)) {
+			areas.add(entry.label);
+		}
+	}
+	return [...areas];
+}
+
+/**
+ * Flag freshly ingested items that lie inside an imported area, so the news event already
+ * carries the flag; returns the items with `areas` set
+ */
+export function withMapLayerAreas(items: NewsItem[]): NewsItem[] {
+	if (getAreaIndex().length === 0) return items;
+	const assignments = new Map<string, string[] | null>();
+	const flagged = items.map((item) => {
+		if (item.lat === undefined || item.lon === undefined) return item;
+		const areas = findMapLayerAreas(item.lat, item.lon);
+		if (areas.length === 0) return item;
+		assignments.set(item.id, areas);
+		return { ...item, areas };
+	});
+	if (assignments.size > 0) setNewsAreas(assignments);
+	return flagged;
+}
+
+/**
+ * Re-flag every stored geolocated item against the current layers; returns how many changed
+ */
+export function refreshNewsAreas(): number {
+	areaIndex = null;
+	const assignments = new Map<string, string[] | null>();
+	for (const row of getGeolocatedNewsRows()) {
+		const areas = findMapLayerAreas(row.lat, row.lon);
+		if (areas.join('\n') !== (row.areas ?? []).join('\n')) {
+			assignments.set(row.id, areas.length > 0 ? areas : null);
+		}
+	}
+	if (assignments.size > 0) setNewsAreas(assignments);
+	return assignments.size;
+}
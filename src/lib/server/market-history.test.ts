@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AllMarketsServerData } from './fetcher';
+import { useTestDb } from './test-db';
+
+const HOUR = 3600000;
+const NOW = Date.UTC(2026, 9, 18, 12, 0, 0);
+
+function snapshot(oil: number, bitcoin = 60000): AllMarketsServerData {
+	return {
+		indices: [{ symbol: '^GSPC', name: 'S&P 500', price: NaN, change: NaN, changePercent: NaN }],
+		sectors: [],
+		commodities: [{ symbol: 'CL=F', name: 'Crude Oil', price: oil, change: 0, changePercent: 1.5 }],
+		crypto: [
+			{
+				id: 'bitcoin',
+				symbol: 'btc',
+				name: 'Bitcoin',
+				current_price: bitcoin,
+				price_change_24h: 0,
+				price_change_percentage_24h: -0.4
+			}
+		],
+		marketHealth: {} as AllMarketsServerData['marketHealth'],
+		updatedAt: NOW
+	};
+}
+
+describe('market history', () => {
+	useTestDb();
+
+	beforeAll(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(NOW);
+	});
+
+	afterAll(() => {
+		vi.useRealTimers();
+	});
+
+	it('appends changed prices and skips unavailable or repeated quotes', async () => {
+		const { recordMarketTicks, getMarketHistory } = await import('./market-history');
+
+		expect(recordMarketTicks(snapshot(80), NOW - 30 * 60000)).toBe(2);
+		// Oil unchanged (cached fallback) within the hour, bitcoin moved
+		expect(recordMarketTicks(snapshot(80, 60500), NOW - 20 * 60000)).toBe(1);
+		expect(recordMarketTicks(snapshot(81.6, 60500), NOW - 10 * 60000)).toBe(1);
+		// An unchanged price is stored again once the last tick is an hour old
+		expect(recordMarketTicks(snapshot(81.6, 60500), NOW + 50 * 60000)).toBe(2);
+
+		const { series } = getMarketHistory(['CL=F', 'BTC', '^GSPC'], '1d', NOW + HOUR);
+		expect(series['CL=F'].map((tick) => tick.price)).toEqual([80, 81.6, 81.6]);
+		expect(series['CL=F'][1]).toEqual({
+			timestamp: NOW - 10 * 60000,
+			price: 81.6,
+			changePercent: 1.5
+		});
+		expect(series.BTC.map((tick) => tick.price)).toEqual([60000, 60500, 60500]);
+		expect(series['^GSPC']).toEqual([]);
+	});
+
+	it('compacts old ticks to hourly closes and reduces the 7-day range to hours', async () => {
+		const { insertMarketTicks, getMarketTicksSince } = await import('./db');
+		const { compactMarketHistory, getMarketHistory } = await import('./market-history');
+
+		const base = NOW - 5 * 24 * HOUR;
+		insertMarketTicks(
+			[0, 15, 45, 70, 31 * 24 * 60].map((minutes, index) => ({
+				symbol: 'GC=F',
+				category: 'commodities',
+				timestamp: minutes === 31 * 24 * 60 ? NOW - minutes * 60000 : base + minutes * 60000,
+				price: 2000 + index,
+				changePercent: null
+			}))
+		);
+		// Recent ticks stay at full resolution
+		insertMarketTicks(
+			[5, 10].map((minutes) => ({
+				symbol: 'GC=F',
+				category: 'commodities',
+				timestamp: NOW - minutes * 60000,
+				price: 2100 + minutes,
+				changePercent: null
+			}))
+		);
+
+		const result = compactMarketHistory(NOW);
+		expect(result).toEqual({ downsampled: 2, pruned: 1 });
+		expect(getMarketTicksSince(['GC=F'], 0).map((row) => row.price)).toEqual([
+			2002, 2003, 2110, 2105
+		]);
+
+		const week = getMarketHistory(['GC=F'], '7d', NOW);
+		expect(week.since).toBe(NOW - 7 * 24 * HOUR);
+		// The two recent ticks share an hour bucket; the later one is its close
+		expect(week.series['GC=F'].map((tick) => tick.price)).toEqual([2002, 2003, 2105]);
+	});
+});
@@ -0,0 +1,109 @@
+import {
+	downsampleMarketTicks,
+	getLatestMarketTicks,
+	getMarketTicksSince,
+	insertMarketTicks,
+	pruneMarketTicks,
+	type MarketTickRow
+} from './db';
+import type { AllMarketsServerData } from './fetcher';
+import type { MarketHistoryRange, MarketTick } from '$lib/types';
+
+const HOUR_MS = 3600000;
+/** An unchanged price is stored again only after this long, so sparklines reach the present */
+const UNCHANGED_TICK_INTERVAL_MS = HOUR_MS;
+/** Full-resolution ticks are kept this long, then compacted to hourly closes */
+const RAW_TICK_RETENTION_MS = 48 * HOUR_MS;
+export const MARKET_TICK_RETENTION_DAYS = 30;
+export const MAX_HISTORY_SYMBOLS = 40;
+
+const RANGE_WINDOWS: Record<MarketHistoryRange, { durationMs: number; bucketMs: number | null }> = {
+	'1d': { durationMs: 24 * HOUR_MS, bucketMs: null },
+	'7d': { durationMs: 7 * 24 * HOUR_MS, bucketMs: HOUR_MS }
+};
+
+export function isMarketHistoryRange(value: string): value is MarketHistoryRange {
+	return Object.hasOwn(RANGE_WINDOWS, value);
+}
+
+function toTickRows(data: AllMarketsServerData, timestamp: number): MarketTickRow[] {
+	const rows: MarketTickRow[] = [
+		...data.indices.map((item) => ({ ...item, category: 'indices' })),
+		...data.sectors.map((item) => ({ ...item, category: 'sectors' })),
+		...data.commodities.map((item) => ({ ...item, category: 'commodities' })),
+		...data.crypto.map((coin) => ({
+			symbol: coin.symbol.toUpperCase(),
+			price: coin.current_price,
+			changePercent: coin.price_change_percentage_24h,
+			category: 'crypto'
+		}))
+	].map((item) => ({
+		symbol: item.symbol,
+		category: item.category,
+		timestamp,
+		price: item.price,
+		changePercent: Number.isFinite(item.changePercent) ? item.changePercent : null
+	}));
+	return rows.filter((row) => Number.isFinite(row.price) && row.price > 0);
+}
+
+/**
+ * Append a market snapshot to the tick history. Prices repeated from the previous tick
+ * (cached fallbacks, closed markets) are skipped unless the last tick is an hour old.
+ */
+export function recordMarketTicks(data: AllMarketsServerData, now = Date.now()): number {
+	const latest = getLatestMarketTicks();
+	const rows = toTickRows(data, now).filter((row) => {
+		const previous = latest.get(row.symbol);
+		if (!previous) return true;
+		if (now <= previous.timestamp) return false;
+		return previous.price !== row.price || now - previous.timestamp >= UNCHANGED_TICK_INTERVAL_MS;
+	});
+	return rows.length > 0 ? insertMarketTicks(rows) : 0;
+}
+
+/**
+ * Retention policy: full resolution for 48 hours, hourly closes up to 30 days
+ */
+export function compactMarketHistory(now = Date.now()): { downsampled: number; pruned: number } {
+	return {
+		downsampled: downsampleMarketTicks(now - RAW_TICK_RETENTION_MS, HOUR_MS),
+		pruned: pruneMarketTicks(MARKET_TICK_RETENTION_DAYS)
+	};
+}
+
+/**
+ * Price series per symbol for a sparkline range; the 7-day range is reduced to hourly closes
+ */
+export function getMarketHistory(
+	symbols: string[],
+	range: MarketHistoryRange,
+	now = Date.now()
+): { since: number; series: Record<string, MarketTick[]> } {
+	const { durationMs, bucketMs } = RANGE_WINDOWS[range];
+	const since = now - durationMs;
+	const series: Record<string, MarketTick[]> = Object.fromEntries(
+		symbols.map((symbol) => [symbol, []])
+	);
+
+	for (const row of getMarketTicksSince(symbols, since)) {
+		const points = series[row.symbol];
+		const tick: MarketTick = {
+			timestamp: row.timestamp,
+			price: row.price,
+			changePercent: row.changePercent
+		};
+		const last = points[points.length - 1];
+		if (
+			bucketMs !== null &&
+			last &&
+			Math.floor(last.timestamp / bucketMs) === Math.floor(tick.timestamp / bucketMs)
+		) {
+			points[points.length - 1] = tick;
+		} else {
+			points.push(tick);
+		}
+	}
+
+	return { since, series };
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { createNewsItem, useTestDb } from './test-db';
+
+describe('server monitors', () => {
+	useTestDb();
+
+	it('validates monitor definitions', async () => {
+		const { addMonitor, removeMonitor } = await import('./monitors');
+
+		expect(addMonitor({ name: '', keywords: ['iran'] })).toEqual({ ok: false, error: 'required' });
+		expect(addMonitor({ name: 'Empty', keywords: [] })).toEqual({ ok: false, error: 'required' });
+		expect(addMonitor({ name: 'Broken', query: 'iran AND (' })).toEqual({
+			ok: false,
+			error: 'invalid-query'
+		});
+		expect(
+			addMonitor({
+				name: 'Far away',
+				markerType: 'hotspot',
+				location: { name: 'Nowhere', lat: 120, lon: 0 }
+			})
+		).toEqual({ ok: false, error: 'invalid-location' });
+		// Request JSON is untrusted: wrong types are validation errors, not crashes
+		expect(addMonitor({ name: 42, keywords: ['iran'] } as never)).toEqual({
+			ok: false,
+			error: 'required'
+		});
+		const typed = addMonitor({
+			name: 'Typed',
+			keywords: ['iran'],
+			color: { hex: '#fff' },
+			description: 7
+		} as never);
+		expect(typed.ok && [typed.record.color, typed.record.description]).toEqual([
+			undefined,
+			undefined
+		]);
+		if (typed.ok) removeMonitor(typed.record.id);
+	});
+
+	it('records matches on create and on each evaluation, and keeps them after news expires', async () => {
+		const { upsertNewsItems, deleteOldNews } = await import('./db');
+		const { addMonitor, evaluateMonitors, getAllMonitors, getMonitorMatchHistory, removeMonitor } =
+			await import('./monitors');
+
+		upsertNewsItems([
+			createNewsItem({ id: 'a', title: 'Tanker seized near Strait of Hormuz' }),
+			createNewsItem({ id: 'b', title: 'Election results in Chile', category: 'latam' }),
+			createNewsItem({
+				id: 'old',
+				title: 'Hormuz patrol from last month',
+				timestamp: Date.now() - 10 * 24 * 60 * 60 * 1000
+			})
+		]);
+
+		const created = addMonitor({ id: 'mon_hormuz', name: 'Hormuz', keywords: ['hormuz'] });
+		expect(created.ok && created.record.id).toBe('mon_hormuz');
+		expect(created.ok && created.record.matchCount).toBe(2);
+		expect(addMonitor({ id: 'mon_hormuz', name: 'Again', keywords: ['x'] })).toEqual({
+			ok: false,
+			error: 'duplicate'
+		});
+
+		upsertNewsItems([createNewsItem({ id: 'c', title: 'Navy escorts ships through Hormuz' })]);
+		expect(evaluateMonitors()).toEqual({ mon_hormuz: 1 });
+		expect(evaluateMonitors()).toEqual({ mon_hormuz: 0 });
+
+		deleteOldNews(7);
+		const history = getMonitorMatchHistory('mon_hormuz');
+		expect(history?.total).toBe(3);
+		expect(history?.matches.map((item) => item.id).sort()).toEqual(['a', 'c']);
+		expect(history?.timeline.reduce((sum, point) => sum + point.count, 0)).toBe(3);
+
+		expect(getAllMonitors().map((monitor) => monitor.matchCount)).toEqual([3]);
+		expect(removeMonitor('mon_hormuz')).toEqual({ ok: true });
+		expect(getMonitorMatchHistory('mon_hormuz')).toBeNull();
+	});
+
+	it('drops recorded matches when the query changes and skips disabled monitors', async () => {
+		const { upsertNewsItems } = await import('./db');
+		const { addMonitor, evaluateMonitors, getMonitor, updateMonitor } = await import('./monitors');
+
+		upsertNewsItems([createNewsItem({ id: 'd', title: 'Chile copper exports rise' })]);
+		const created = addMonitor({ name: 'Chile', query: 'chile NOT election' });
+		if (!created.ok) throw new Error(created.error);
+		expect(created.record.matchCount).toBe(1);
+
+		const renamed = updateMonitor(created.record.id, { name: 'Chile watch' });
+		expect(renamed.ok && renamed.record.matchCount).toBe(1);
+
+		const requeried = updateMonitor(created.record.id, { query: 'election' });
+		expect(requeried.ok && requeried.record.matchCount).toBe(1);
+		expect(getMonitor(created.record.id)?.query).toBe('election');
+
+		updateMonitor(created.record.id, { enabled: false });
+		expect(evaluateMonitors()).toEqual({});
+		expect(updateMonitor('mon_missing', { name: 'x' })).toEqual({ ok: false, error: 'not-found' });
+	});
+
+	it('matches geolocated news inside a geofence, combined with the query', async () => {
+		const { upsertNewsItems } = await import('./db');
+		const { addMonitor, getMonitorMatchHistory, updateMonitor } = await import('./monitors');
+
+		upsertNewsItems([
+			createNewsItem({ id: 'e', title: 'Tanker seized in the Gulf', lat: 26.5, lon: 56.4 }),
+			createNewsItem({ id: 'f', title: 'Port traffic slows', lat: 25.8, lon: 56 }),
+			createNewsItem({ id: 'g', title: 'Tanker drivers protest in Paris', lat: 48.86, lon: 2.35 })
+		]);
+		const hormuz = { type: 'radius', lat: 26.57, lon: 56.25, radiusKm: 200 } as const;
+		const matchedIds = (id: string) =>
+			getMonitorMatchHistory(id)
+				?.matches.map((item) => item.id)
+				.sort();
+
+		expect(addMonitor({ name: 'Nowhere', geofence: { ...hormuz, radiusKm: -1 } })).toEqual({
+			ok: false,
+			error: 'invalid-geofence'
+		});
+
+		const area = addMonitor({ name: 'Near Hormuz', geofence: hormuz });
+		if (!area.ok) throw new Error(area.error);
+		expect(area.record.geofence).toEqual(hormuz);
+		expect(matchedIds(area.record.id)).toEqual(['e', 'f']);
+
+		const tankers = addMonitor({ name: 'Hormuz tankers', keywords: ['tanker'], geofence: hormuz });
+		if (!tankers.ok) throw new Error(tankers.error);
+		expect(matchedIds(tankers.record.id)).toEqual(['e']);
+
+		// Moving the fence drops what the old one matched
+		const paris = updateMonitor(tankers.record.id, {
+			geofence: {
+				type: 'polygon',
+				coordinates: [
+					[2, 48.5],
+					[2.7, 48.5],
+					[2.7, 49.1],
+					[2, 49.1]
+				]
+			}
+		});
+		expect(paris.ok && paris.record.matchCount).toBe(1);
+		expect(matchedIds(tankers.record.id)).toEqual(['g']);
+
+		const anywhere = updateMonitor(tankers.record.id, { geofence: null });
+		expect(anywhere.ok && anywhere.record.geofence).toBeUndefined();
+		expect(matchedIds(tankers.record.id)).toEqual(['a', 'e', 'g']);
+	});
+
+	it('removes a location when updated with null', async () => {
+		const { addMonitor, updateMonitor } = await import('./monitors');
+		const created = addMonitor({
+			name: 'Port',
+			markerType: 'chokepoint',
+			location: { name: 'Hormuz', lat: 26.6, lon: 56.3 }
+		});
+		if (!created.ok) throw new Error(created.error);
+
+		const cleared = updateMonitor(created.record.id, { location: null });
+		expect(cleared.ok && cleared.record.location).toBeUndefined();
+	});
+});
@@ -0,0 +1,287 @@
+/**
+ * Server-persisted custom monitors and their match history
+ */
+
+import { MAX_MONITORS } from '$lib/config/monitors';
+import type {
+	CustomMonitor,
+	MarkerType,
+	MonitorGeofence,
+	MonitorMatchHistory,
+	MonitorMutationError,
+	ThreatLevel
+} from '$lib/types';
+import { geofenceContains, getGeofenceBounds, normalizeGeofence } from '$lib/shared/geofence';
+import { getMonitorQuery, validateBooleanQuery } from '$lib/utils/boolean-query';
+import { compileBooleanQueryToSql } from './boolean-query-sql';
+import {
+	deleteMonitorRow,
+	getMonitorCount,
+	getMonitorMatchedNews,
+	getMonitorMatchTimeline,
+	getMonitorRow,
+	getMonitorRows,
+	insertMonitorRow,
+	recordMonitorMatches,
+	updateMonitorRow,
+	type MonitorRow,
+	type MonitorRowInput
+} from './db';
+
+type MonitorMutationResult =
+	| { ok: true; record: CustomMonitor }
+	| { ok: false; error: MonitorMutationError };
+
+export type MonitorInput = Partial<
+	Pick<
+		CustomMonitor,
+		| 'id'
+		| 'name'
+		| 'keywords'
+		| 'query'
+		| 'enabled'
+		| 'color'
+		| 'markerType'
+		| 'description'
+		| 'threatLevel'
+		| 'createdAt'
+	>
+> & {
+	/** null removes the location on update */
+	location?: CustomMonitor['location'] | null;
+	/** null removes the geofence on update */
+	geofence?: MonitorGeofence | null;
+};
+
+const DEFAULT_MATCH_LIMIT = 50;
+const MAX_MATCH_LIMIT = 200;
+const DEFAULT_TIMELINE_DAYS = 30;
+
+const MONITOR_ID_PATTERN = /^mon_[a-z0-9_]{1,64}$/i;
+const MARKER_TYPES = new Set<MarkerType>([
+	'monitor',
+	'hotspot',
+	'chokepoint',
+	'cable',
+	'nuclear',
+	'military'
+]);
+const THREAT_LEVELS = new Set<ThreatLevel>(['critical', 'high', 'elevated', 'low']);
+
+function generateId(): string {
+	return `mon_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function rowToMonitor(row: MonitorRow): CustomMonitor {
+	return {
+		id: row.id,
+		name: row.name,
+		keywords: row.keywords,
+		query: row.query ?? undefined,
+		enabled: row.enabled,
+		color: row.color ?? undefined,
+		location: row.location ? JSON.parse(row.location) : undefined,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+		matchCount: row.matchCount,
+		markerType: (row.markerType as MarkerType | null) ?? undefined,
+		description: row.description ?? undefined,
+		threatLevel: (row.threatLevel as ThreatLevel | null) ?? undefined,
+		geofence: row.geofence ? JSON.parse(row.geofence) : undefined
+	};
+}
+
+function isValidLocation(location: MonitorInput['location']): boolean {
+	return (
+		!!location &&
+		typeof location.name === 'string' &&
+		Number.isFinite(location.lat) &&
+		Number.isFinite(location.lon) &&
+		Math.abs(location.lat) <= 90 &&
+		Math.abs(location.lon) <= 180
+	);
+}
+
+/**
+ * Validate and normalize a full monitor definition into a database row
+ */
+function toMonitorRow(
+	id: string,
+	monitor: MonitorInput
+): { ok: true; row: MonitorRowInput } | { ok: false; error: MonitorMutationError } {
+	const name = typeof monitor.name === 'string' ? monitor.name.trim() : '';
+	const keywords = Array.isArray(monitor.keywords)
+		? monitor.keywords
+				.filter((keyword): keyword is string => typeof keyword === 'string')
+				.map((keyword) => keyword.trim())
+				.filter(Boolean)
+		: [];
+	const query = typeof monitor.query === 'string' ? monitor.query.trim() : '';
+	const markerType = monitor.markerType ?? 'monitor';
+	const geofence = monitor.geofence ? normalizeGeofence(monitor.geofence) : null;
+
+	if (!name || !MARKER_TYPES.has(markerType)) return { ok: false, error: 'required' };
+	if (markerType === 'monitor' && !query && keywords.length === 0 && !monitor.geofence) {
+		return { ok: false, error: 'required' };
+	}
+	if (query && validateBooleanQuery(query)) return { ok: false, error: 'invalid-query' };
+	const hasLocation = monitor.location !== undefined && monitor.location !== null;
+	if (hasLocation && !isValidLocation(monitor.location)) {
+		return { ok: false, error: 'invalid-location' };
+	}
+	if (monitor.geofence && !geofence) return { ok: false, error: 'invalid-geofence' };
+
+	return {
+		ok: true,
+		row: {
+			id,
+			name,
+			keywords,
+			query: query || null,
+			enabled: monitor.enabled !== false,
+			color: typeof monitor.color === 'string' ? monitor.color.trim() || null : null,
+			location: hasLocation ? JSON.stringify(monitor.location) : null,
+			markerType: monitor.markerType ?? null,
+			description:
+				typeof monitor.description === 'string' ? monitor.description.trim() || null : null,
+			threatLevel:
+				monitor.threatLevel && THREAT_LEVELS.has(monitor.threatLevel) ? monitor.threatLevel : null,
+			geofence: geofence ? JSON.stringify(geofence) : null
+		}
+	};
+}
+
+export function getAllMonitors(): CustomMonitor[] {
+	return getMonitorRows().map(rowToMonitor);
+}
+
+export function getMonitor(id: string): CustomMonitor | null {
+	const row = getMonitorRow(id);
+	return row ? rowToMonitor(row) : null;
+}
+
+/**
+ * Create a monitor. Clients may supply their own `mon_` ID so optimistic local
+ * state and the server agree.
+ */
+export function addMonitor(input: MonitorInput): MonitorMutationResult {
+	const id = input.id && MONITOR_ID_PATTERN.test(input.id) ? input.id : generateId();
+	if (getMonitorRow(id)) return { ok: false, error: 'duplicate' };
+	if (getMonitorCount() >= MAX_MONITORS) return { ok: false, error: 'limit-reached' };
+
+	const normalized = toMonitorRow(id, input);
+	if (!normalized.ok) return normalized;
+
+	const createdAt =
+		typeof input.createdAt === 'number' && Number.isFinite(input.createdAt)
+			? input.createdAt
+			: undefined;
+	try {
+		insertMonitorRow({ ...normalized.row, createdAt });
+	} catch {
+		return { ok: false, error: 'duplicate' };
+	}
+
+	evaluateMonitors([id]);
+	return { ok: true, record: getMonitor(id)! };
+}
+
+export function updateMonitor(id: string, updates: MonitorInput): MonitorMutationResult {
+	const current = getMonitor(id);
+	if (!current) return { ok: false, error: 'not-found' };
+
+	const normalized = toMonitorRow(id, { ...current, ...updates });
+	if (!normalized.ok) return normalized;
+
+	const storedGeofence = current.geofence ? JSON.stringify(current.geofence) : null;
+	const conditionsChanged =
+		storedGeofence !== normalized.row.geofence ||
+		getMonitorQuery(current) !==
+			getMonitorQuery({
+				query: normalized.row.query ?? undefined,
+				keywords: normalized.row.keywords
+			});
+	if (!updateMonitorRow(normalized.row, conditionsChanged)) {
+		return { ok: false, error: 'not-found' };
+	}
+
+	evaluateMonitors([id]);
+	return { ok: true, record: getMonitor(id)! };
+}
+
+export function removeMonitor(
+	id: string
+): { ok: true } | { ok: false; error: MonitorMutationError } {
+	return deleteMonitorRow(id) ? { ok: true } : { ok: false, error: 'not-found' };
+}
+
+/**
+ * Prefilter for news inside a geofence's bounding box; geofenceContains has the last word
+ */
+function geofenceToSql(fence: MonitorGeofence): { sql: string; params: unknown[] } {
+	const [west, south, east, north] = getGeofenceBounds(fence);
+	return {
+		sql: 'news.lat BETWEEN ? AND ? AND news.lon BETWEEN ? AND ?',
+		params: [south, north, west, east]
+	};
+}
+
+/**
+ * Run enabled monitors (all, or the given IDs) against the cached news table and
+ * record new matches. Keyword and geofence conditions must both hold when a monitor has
+ * both. Returns the number of newly recorded matches per monitor.
+ */
+export function evaluateMonitors(ids?: string[]): Record<string, number> {
+	const wanted = ids ? new Set(ids) : null;
+	const recorded: Record<string, number> = {};
+
+	for (const monitor of getAllMonitors()) {
+		if (!monitor.enabled || (wanted && !wanted.has(monitor.id))) continue;
+		const query = getMonitorQuery(monitor);
+		const fence = monitor.geofence;
+		if (!query && !fence) continue;
+
+		try {
+			if (!fence) {
+				recorded[monitor.id] = recordMonitorMatches(monitor.id, compileBooleanQueryToSql(query));
+				continue;
+			}
+			let where = geofenceToSql(fence);
+			if (query) {
+				const compiled = compileBooleanQueryToSql(query);
+				where = {
+					sql: `(${compiled.sql}) AND ${where.sql}`,
+					params: [...compiled.params, ...where.params]
+				};
+			}
+			recorded[monitor.id] = recordMonitorMatches(monitor.id, where, (lat, lon) =>
+				geofenceContains(fence, lat, lon)
+			);
+		} catch (error) {
+			console.warn(`[Monitors] Skipping "${monitor.name}":`, error);
+		}
+	}
+
+	return recorded;
+}
+
+export function getMonitorMatchHistory(
+	id: string,
+	options: { limit?: number; days?: number } = {}
+): MonitorMatchHistory | null {
+	const monitor = getMonitor(id);
+	if (!monitor) return null;
+
+	const limit = Math.min(Math.max(options.limit ?? DEFAULT_MATCH_LIMIT, 1), MAX_MATCH_LIMIT);
+	const days = Math.max(options.days ?? DEFAULT_TIMELINE_DAYS, 1);
+
+	return {
+		monitorId: id,
+		total: monitor.matchCount,
+		matches: getMonitorMatchedNews(id, limit).map(({ item, matchedAt }) => ({
+			...item,
+			matchedAt
+		})),
+		timeline: getMonitorMatchTimeline(id, Date.now() - days * 86400000)
+	};
+}
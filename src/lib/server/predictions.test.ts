@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { PolymarketMarket } from '$lib/shared/polymarket';
+import { useTestDb } from './test-db';
+
+const NOW = Date.UTC(2026, 9, 12, 14, 0, 0);
+const HOUR_MS = 3600000;
+
+function market(id: string, question: string, yes: number, volume = 1_000_000): PolymarketMarket {
+	return {
+		id,
+		question,
+		slug: `market-${id}`,
+		volumeNum: volume,
+		volume24hr: volume / 10,
+		outcomePrices: JSON.stringify([String(yes / 100), String(1 - yes / 100)]),
+		outcomes: '["Yes","No"]',
+		endDate: '2026-12-31T00:00:00Z'
+	};
+}
+
+/** Every Gamma tag request answers with the same markets, as overlapping tags do */
+function stubGamma(markets: PolymarketMarket[]) {
+	const fetchMock = vi.fn(async () => Response.json(markets));
+	vi.stubGlobal('fetch', fetchMock);
+	return fetchMock;
+}
+
+describe('Polymarket parsing', () => {
+	it('deduplicates tags, drops excluded markets and ranks by volume', async () => {
+		const { toPredictions } = await import('$lib/shared/polymarket');
+		const predictions = toPredictions([
+			market('1', 'Will Russia and Ukraine agree a ceasefire?', 41, 500_000),
+			market('2', 'Will the Fed cut interest rates in December?', 73, 900_000),
+			market('1', 'Will Russia and Ukraine agree a ceasefire?', 41, 500_000),
+			market('3', 'Who will win the Super Bowl?', 20, 5_000_000)
+		]);
+
+		expect(predictions.map((p) => [p.id, p.yes, p.category])).toEqual([
+			['2', 73, 'finance'],
+			['1', 41, 'geopolitics']
+		]);
+		expect(predictions[0].url).toBe('https://polymarket.com/event/market-2');
+	});
+});
+
+describe('swing thresholds', () => {
+	it('reads PREDICTION_SWING_THRESHOLDS over the defaults', async () => {
+		const { getPredictionSwingThresholds } = await import('./predictions');
+		expect(getPredictionSwingThresholds({})).toEqual({ '1h': 10, '24h': 15, '7d': 25 });
+		expect(
+			getPredictionSwingThresholds({ PREDICTION_SWING_THRESHOLDS: '1h: 5, 7d:off, 30d:4, 24h:x' })
+		).toEqual({ '1h': 5, '24h': 15, '7d': null });
+	});
+});
+
+describe('prediction history', () => {
+	useTestDb();
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('snapshots each poll and measures deltas against the window start', async () => {
+		const { getPredictionHistory, getPredictions, refreshPredictions } =
+			await import('./predictions');
+		const ceasefire = 'Will Russia and Ukraine agree a ceasefire?';
+		const polls: Array<[number, number]> = [
+			[NOW - 7 * 24 * HOUR_MS, 30],
+			[NOW - 25 * HOUR_MS, 35],
+			[NOW - 24 * HOUR_MS, 40],
+			[NOW - HOUR_MS, 55],
+			[NOW - 20 * 60000, 58]
+		];
+		for (const [at, yes] of polls) {
+			stubGamma([market('1', ceasefire, yes)]);
+			expect(await refreshPredictions({ now: at })).toEqual({ inserted: 1, error: null });
+		}
+		// A market first seen in the latest poll has no baseline yet
+		stubGamma([market('1', ceasefire, 61), market('2', 'Will Taiwan hold elections?', 80)]);
+		await refreshPredictions({ now: NOW });
+
+		const { predictions, updatedAt } = getPredictions(NOW);
+		expect(updatedAt).toBe(NOW);
+		expect(predictions.map((p) => [p.id, p.yes, p.deltas])).toEqual([
+			['1', 61, { '1h': 6, '24h': 21, '7d': 31 }],
+			['2', 80, { '1h': null, '24h': null, '7d': null }]
+		]);
+
+		expect(getPredictionHistory('1', '24h', NOW).map((point) => point.yes)).toEqual([
+			40, 55, 58, 61
+		]);
+		// Hourly points beyond a day: the 13:00 hour keeps its last snapshot
+		expect(getPredictionHistory('1', '7d', NOW).map((point) => point.yes)).toEqual([
+			30, 35, 40, 58, 61
+		]);
+	});
+
+	it('polls at most every five minutes and keeps serving the last good poll on failure', async () => {
+		const { getPredictions, PREDICTION_POLL_INTERVAL_MS, refreshPredictions } =
+			await import('./predictions');
+		const fetchMock = stubGamma([]);
+		expect(await refreshPredictions({ now: NOW + 60000 })).toEqual({ inserted: 0, error: null });
+		expect(fetchMock).not.toHaveBeenCalled();
+
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('', { status: 502 }))
+		);
+		expect(await refreshPredictions({ now: NOW + PREDICTION_POLL_INTERVAL_MS })).toEqual({
+			inserted: 0,
+			error: 'Polymarket HTTP 502'
+		});
+		expect(getPredictions(NOW + PREDICTION_POLL_INTERVAL_MS).updatedAt).toBe(NOW);
+	});
+
+	it('compacts snapshots older than two days to hourly points', async () => {
+		const { upsertPredictionMarkets, getPredictionSnapshots } = await import('./db');
+		const { compactPredictionHistory } = await import('./predictions');
+		const { toPredictions } = await import('$lib/shared/polymarket');
+		const old = NOW - 3 * 24 * HOUR_MS;
+		const hourStart = old - (old % HOUR_MS);
+		for (const [offset, yes] of [
+			[0, 10],
+			[10 * 60000, 11],
+			[20 * 60000, 12]
+		]) {
+			upsertPredictionMarkets(
+				toPredictions([market('9', 'Will NATO expand?', yes)]),
+				hourStart + offset
+			);
+		}
+
+		expect(compactPredictionHistory(NOW).downsampled).toBe(2);
+		expect(getPredictionSnapshots('9', 0)).toEqual([
+			{ timestamp: hourStart + 20 * 60000, yes: 12 }
+		]);
+	});
+});
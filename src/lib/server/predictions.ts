@@ -0,0 +1,242 @@
+/**
+ * Prediction market history: polls Polymarket's Gamma API, keeps yes-price snapshots in SQLite
+ * and derives 1h/24h/7d probability deltas from them
+ */
+
+import { env as privateEnv } from '$env/dynamic/private';
+import { linkPredictions } from '$lib/analysis/prediction-links';
+import {
+	DEFAULT_PREDICTION_SWING_THRESHOLDS,
+	PREDICTION_BASELINE_TOLERANCE_MS,
+	PREDICTION_DELTA_WINDOWS
+} from '$lib/config/predictions';
+import {
+	buildPolymarketMarketsUrl,
+	POLYMARKET_FETCH_TAGS,
+	POLYMARKET_MARKET_LIMIT,
+	toPredictions,
+	type PolymarketMarket
+} from '$lib/shared/polymarket';
+import type {
+	Prediction,
+	PredictionDeltaWindow,
+	PredictionHistoryRange,
+	PredictionSnapshot
+} from '$lib/types';
+import {
+	downsamplePredictionSnapshots,
+	getMeta,
+	getPredictionMarkets,
+	getPredictionSnapshots,
+	getPredictionSnapshotsBefore,
+	prunePredictionHistory,
+	setMeta,
+	upsertPredictionMarkets
+} from './db';
+
+const HOUR_MS = 3600000;
+/** Gamma prices move continuously; a poll per five minutes keeps the 1h delta meaningful */
+export const PREDICTION_POLL_INTERVAL_MS = 5 * 60000;
+/** Full-resolution snapshots are kept this long, then compacted to hourly points */
+const RAW_SNAPSHOT_RETENTION_MS = 48 * HOUR_MS;
+export const PREDICTION_RETENTION_DAYS = 30;
+const MARKETS_PER_TAG = 50;
+const HTTP_TIMEOUT_MS = 30000;
+const POLL_META_KEY = 'predictionsLastPoll';
+
+const RANGE_WINDOWS: Record<PredictionHistoryRange, number> = {
+	'24h': 24 * HOUR_MS,
+	'7d': 7 * 24 * HOUR_MS,
+	'30d': 30 * 24 * HOUR_MS
+};
+
+interface PredictionPollMeta {
+	/** Last successful poll; markets it returned are the current set */
+	at: number | null;
+	error: string | null;
+}
+
+export interface PredictionRefreshResult {
+	inserted: number;
+	error: string | null;
+}
+
+export function isPredictionHistoryRange(value: string): value is PredictionHistoryRange {
+	return Object.hasOwn(RANGE_WINDOWS, value);
+}
+
+/**
+ * Swing alert thresholds in percentage points. PREDICTION_SWING_THRESHOLDS ("1h:10,24h:15,7d:25")
+ * overrides individual windows; "off" or 0 disables a window.
+ */
+export function getPredictionSwingThresholds(
+	env: Record<string, string | undefined> = privateEnv
+): Record<PredictionDeltaWindow, number | null> {
+	const thresholds: Record<PredictionDeltaWindow, number | null> = {
+		...DEFAULT_PREDICTION_SWING_THRESHOLDS
+	};
+	for (const entry of (env.PREDICTION_SWING_THRESHOLDS ?? '').split(',')) {
+		const [window, value] = entry.split(':').map((part) => part.trim());
+		if (!window || !Object.hasOwn(PREDICTION_DELTA_WINDOWS, window)) continue;
+		const points = Number(value);
+		if (value === 'off' || points === 0) {
+			thresholds[window as PredictionDeltaWindow] = null;
+		} else if (Number.isFinite(points) && points > 0) {
+			thresholds[window as PredictionDeltaWindow] = points;
+		} else {
+			console.warn(`[Predictions] Ignoring invalid swing threshold "${entry.trim()}"`);
+		}
+	}
+	return thresholds;
+}
+
+async function fetchMarketsForTag(tagId: number): Promise<PolymarketMarket[]> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+	try {
+		const response = await fetch(buildPolymarketMarketsUrl(tagId, MARKETS_PER_TAG), {
+			headers: { Accept: 'application/json' },
+			signal: controller.signal
+		});
+		if (!response.ok) throw new Error(`Polymarket HTTP ${response.status}`);
+		return (await response.json()) as PolymarketMarket[];
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+/**
+ * Current markets across the fetch tags; fails only when every tag does
+ */
+export async function fetchPolymarketMarkets(): Promise<Prediction[]> {
+	const results = await Promise.allSettled(POLYMARKET_FETCH_TAGS.map(fetchMarketsForTag));
+	const markets = results.flatMap((result) => (result.status === 'fulfilled' ? result.value : []));
+	if (markets.length === 0) {
+		const failure = results.find((result) => result.status === 'rejected');
+		if (failure) throw failure.reason;
+	}
+	return toPredictions(markets);
+}
+
+let refreshInFlight: Promise<PredictionRefreshResult> | null = null;
+
+/**
+ * Poll Polymarket when the last poll is older than PREDICTION_POLL_INTERVAL_MS (or when forced)
+ * and snapshot every market; concurrent calls share one run
+ */
+export function refreshPredictions(
+	options: { force?: boolean; now?: number } = {}
+): Promise<PredictionRefreshResult> {
+	refreshInFlight ??= runRefresh(options).finally(() => {
+		refreshInFlight = null;
+	});
+	return refreshInFlight;
+}
+
+async function runRefresh(options: {
+	force?: boolean;
+	now?: number;
+}): Promise<PredictionRefreshResult> {
+	const now = options.now ?? Date.now();
+	const meta = getMeta<PredictionPollMeta>(POLL_META_KEY)?.value ?? { at: null, error: null };
+	if (!options.force && meta.at !== null && now - meta.at < PREDICTION_POLL_INTERVAL_MS) {
+		return { inserted: 0, error: null };
+	}
+
+	try {
+		const predictions = await fetchPolymarketMarkets();
+		upsertPredictionMarkets(predictions, now);
+		setMeta(POLL_META_KEY, { at: now, error: null });
+		return { inserted: predictions.length, error: null };
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		setMeta(POLL_META_KEY, { at: meta.at, error: message });
+		return { inserted: 0, error: message };
+	}
+}
+
+/**
+ * Yes-probability change per window, in percentage points; null when no snapshot falls close
+ * enough to the window start (markets first seen recently, or gaps in polling)
+ */
+export function getPredictionDeltas(
+	predictions: Prediction[],
+	now = Date.now()
+): Map<string, Record<PredictionDeltaWindow, number | null>> {
+	const windows = Object.keys(PREDICTION_DELTA_WINDOWS) as PredictionDeltaWindow[];
+	const baselines = windows.map((window) => {
+		const start = now - PREDICTION_DELTA_WINDOWS[window];
+		return getPredictionSnapshotsBefore(start, start - PREDICTION_BASELINE_TOLERANCE_MS[window]);
+	});
+
+	return new Map(
+		predictions.map((prediction) => [
+			prediction.id,
+			Object.fromEntries(
+				windows.map((window, i) => {
+					const baseline = baselines[i].get(prediction.id);
+					return [window, baseline === undefined ? null : prediction.yes - baseline];
+				})
+			) as Record<PredictionDeltaWindow, number | null>
+		])
+	);
+}
+
+/**
+ * Markets from the last successful poll with their probability deltas and the correlation
+ * topics and narratives they relate to
+ */
+export function getPredictions(now = Date.now()): {
+	predictions: Prediction[];
+	updatedAt: number | null;
+} {
+	const lastPoll = getMeta<PredictionPollMeta>(POLL_META_KEY)?.value.at ?? null;
+	if (lastPoll === null) return { predictions: [], updatedAt: null };
+
+	const predictions = linkPredictions(getPredictionMarkets(lastPoll, POLYMARKET_MARKET_LIMIT));
+	const deltas = getPredictionDeltas(predictions, now);
+	return {
+		predictions: predictions.map((prediction) => ({
+			...prediction,
+			deltas: deltas.get(prediction.id)
+		})),
+		updatedAt: lastPoll
+	};
+}
+
+/**
+ * Yes-probability series for one market; ranges beyond 24 hours are reduced to hourly points
+ */
+export function getPredictionHistory(
+	marketId: string,
+	range: PredictionHistoryRange,
+	now = Date.now()
+): PredictionSnapshot[] {
+	const points: PredictionSnapshot[] = [];
+	for (const snapshot of getPredictionSnapshots(marketId, now - RANGE_WINDOWS[range])) {
+		const last = points[points.length - 1];
+		if (
+			range !== '24h' &&
+			last &&
+			Math.floor(last.timestamp / HOUR_MS) === Math.floor(snapshot.timestamp / HOUR_MS)
+		) {
+			points[points.length - 1] = snapshot;
+		} else {
+			points.push(snapshot);
+		}
+	}
+	return points;
+}
+
+/**
+ * Retention policy: full resolution for 48 hours, hourly points up to 30 days
+ */
+export function compactPredictionHistory(now = Date.now()): {
+	downsampled: number;
+	pruned: number;
+} {
+	return {
+		downsampled: downsamplePredictionSnapshots(now - RAW_SNAPSHOT_RETENTION_MS, HOUR_MS),
+		pruned: prunePredictionHistory(PREDICTION_RETENTION_DAYS)
+	};
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createNewsItem, useTestDb } from './test-db';
+
+const HOUR = 3600000;
+const NOW = Date.now();
+const AT = NOW - 48 * HOUR;
+
+function newsItem(id: string, title: string, timestamp: number) {
+	return createNewsItem({ id, title, timestamp });
+}
+
+describe('getReplaySnapshot', () => {
+	useTestDb();
+
+	it('rebuilds news, market prices, correlation baseline and alerts as of a past moment', async () => {
+		const db = await import('./db');
+		const { getReplaySnapshot } = await import('./replay');
+
+		db.upsertNewsItems([
+			newsItem('before', 'Talks stall in Geneva', AT - 2 * HOUR),
+			newsItem('after', 'Talks resume in Geneva', AT + 2 * HOUR),
+			newsItem('outside', 'Old story', AT - 10 * HOUR),
+			newsItem('today', 'Fresh story', NOW - HOUR)
+		]);
+		db.insertMarketTicks([
+			{ symbol: '^GSPC', category: 'indices', timestamp: AT - HOUR, price: 5000, changePercent: 1 },
+			{ symbol: '^GSPC', category: 'indices', timestamp: AT + HOUR, price: 5100, changePercent: 3 },
+			{
+				symbol: 'BTC',
+				category: 'crypto',
+				timestamp: AT - 2 * HOUR,
+				price: 60000,
+				changePercent: -2
+			}
+		]);
+		const atHour = Math.floor(AT / HOUR);
+		db.upsertCorrelationHistoryPoint(atHour - 2, 'tariffs', 4);
+		db.upsertCorrelationHistoryPoint(atHour - 1, 'tariffs', 6);
+		db.upsertCorrelationHistoryPoint(atHour + 1, 'tariffs', 40);
+		db.upsertFiredAlertRow({
+			id: 'newsAlert:a',
+			type: 'newsAlert',
+			key: 'a',
+			severity: 'high',
+			detail: 'Talks stall',
+			panelId: null,
+			tabId: null,
+			sourceId: null,
+			url: null,
+			lastFiredAt: AT - HOUR
+		});
+		db.upsertFiredAlertRow({
+			id: 'newsAlert:b',
+			type: 'newsAlert',
+			key: 'b',
+			severity: 'high',
+			detail: 'Later alert',
+			panelId: null,
+			tabId: null,
+			sourceId: null,
+			url: null,
+			lastFiredAt: AT + HOUR
+		});
+		db.acknowledgeAlertRow('newsAlert:a', AT + HOUR);
+
+		const snapshot = getReplaySnapshot({ at: AT, windowHours: 6 }, NOW);
+		expect(snapshot.windowHours).toBe(6);
+		expect(snapshot.news.map((item) => item.id)).toEqual(['before', 'after']);
+		expect(snapshot.markets.indices).toEqual([
+			{ symbol: '^GSPC', name: 'S&P 500', price: 5000, change: 49.5, changePercent: 1 }
+		]);
+		expect(snapshot.markets.crypto[0]).toMatchObject({
+			id: 'bitcoin',
+			symbol: 'btc',
+			current_price: 60000,
+			price_change_percentage_24h: -2
+		});
+		expect(snapshot.correlationBaseline).toEqual({ tariffs: [4, 6] });
+		expect(snapshot.alerts.map((alert) => [alert.id, alert.ackedAt])).toEqual([
+			['newsAlert:a', null]
+		]);
+	});
+
+	it('never replays past the present and bounds the news window', async () => {
+		const { getReplaySnapshot } = await import('./replay');
+		const snapshot = getReplaySnapshot({ at: NOW + 10 * HOUR, windowHours: 500 }, NOW);
+		expect(snapshot.at).toBe(NOW);
+		expect(snapshot.windowHours).toBe(24);
+		expect(snapshot.news.map((item) => item.id)).toEqual(['today']);
+	});
+});
@@ -0,0 +1,112 @@
+/**
+ * Replay snapshots - the dashboard as it stood at a past moment, rebuilt from the stored
+ * headlines, market ticks, correlation history and alert log
+ */
+
+import { COMMODITIES, CRYPTO, INDICES, SECTORS } from '$lib/config/markets';
+import {
+	REPLAY_DEFAULT_WINDOW_HOURS,
+	REPLAY_LOOKBACK_HOURS,
+	REPLAY_MARKET_STALE_HOURS,
+	REPLAY_MAX_WINDOW_HOURS
+} from '$lib/config/replay';
+import type { CryptoItem, MarketItem, ReplaySnapshot, SectorPerformance } from '$lib/types';
+import { getAlertLogAt } from './alerts';
+import {
+	getCorrelationHistorySince,
+	getMarketTicksAt,
+	getNewsBetween,
+	type MarketTickRow
+} from './db';
+
+export interface ReplaySnapshotOptions {
+	at: number;
+	windowHours?: number;
+}
+
+const HOUR_MS = 3600000;
+
+const MARKET_NAMES = new Map<string, string>(
+	[...INDICES, ...SECTORS, ...COMMODITIES].map((market) => [market.symbol, market.name])
+);
+
+function tickChange(tick: MarketTickRow): { change: number; changePercent: number } {
+	const changePercent = tick.changePercent ?? 0;
+	// Ticks keep the percentage only; the absolute change follows from the price
+	const change = tick.price - tick.price / (1 + changePercent / 100);
+	return { change: Math.round(change * 100) / 100, changePercent };
+}
+
+function toMarketItem(tick: MarketTickRow): MarketItem {
+	return {
+		symbol: tick.symbol,
+		name: MARKET_NAMES.get(tick.symbol) ?? tick.symbol,
+		price: tick.price,
+		...tickChange(tick)
+	};
+}
+
+function toCryptoItem(tick: MarketTickRow): CryptoItem {
+	const config = CRYPTO.find((coin) => coin.symbol === tick.symbol);
+	const { change, changePercent } = tickChange(tick);
+	return {
+		id: config?.id ?? tick.symbol.toLowerCase(),
+		symbol: tick.symbol.toLowerCase(),
+		name: config?.name ?? tick.symbol,
+		current_price: tick.price,
+		price_change_24h: change,
+		price_change_percentage_24h: changePercent
+	};
+}
+
+function buildMarkets(at: number): ReplaySnapshot['markets'] {
+	const ticks = getMarketTicksAt(at, at - REPLAY_MARKET_STALE_HOURS * HOUR_MS);
+	const inCategory = (category: string) => ticks.filter((tick) => tick.category === category);
+	return {
+		indices: inCategory('indices').map(toMarketItem),
+		sectors: inCategory('sectors').map((tick): SectorPerformance => toMarketItem(tick)),
+		commodities: inCategory('commodities').map(toMarketItem),
+		crypto: inCategory('crypto').map(toCryptoItem)
+	};
+}
+
+/**
+ * Hourly counts per topic in the hours before `at`, the baseline live analysis had then
+ */
+function buildCorrelationBaseline(at: number): Record<string, number[]> {
+	const atHour = Math.floor(at / HOUR_MS);
+	const baseline: Record<string, number[]> = {};
+	for (const row of getCorrelationHistorySince(atHour - REPLAY_LOOKBACK_HOURS)) {
+		if (row.hourBucket >= atHour) continue;
+		(baseline[row.topicId] ??= []).push(row.count);
+	}
+	return baseline;
+}
+
+export function clampReplayWindow(windowHours: number | undefined): number {
+	if (windowHours === undefined || !Number.isFinite(windowHours) || windowHours <= 0) {
+		return REPLAY_DEFAULT_WINDOW_HOURS;
+	}
+	return Math.min(windowHours, REPLAY_MAX_WINDOW_HOURS);
+}
+
+/**
+ * Dashboard state at `at`; never reaches past the present
+ */
+export function getReplaySnapshot(
+	options: ReplaySnapshotOptions,
+	now = Date.now()
+): ReplaySnapshot {
+	const at = Math.min(options.at, now);
+	const windowHours = clampReplayWindow(options.windowHours);
+	const windowMs = windowHours * HOUR_MS;
+
+	return {
+		at,
+		windowHours,
+		news: getNewsBetween(at - windowMs, Math.min(at + windowMs, now)),
+		markets: buildMarkets(at),
+		correlationBaseline: buildCorrelationBaseline(at),
+		alerts: getAlertLogAt(at, at - windowMs)
+	};
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseRobotsTxt } from './robots';
+
+const ROBOTS = `
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/press$
+
+User-agent: GPTBot
+User-agent: SituationMonitor
+Disallow: /news/*/live
+Allow: /news/
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+describe('parseRobotsTxt', () => {
+	it('applies the group naming the agent instead of the wildcard group', () => {
+		const policy = parseRobotsTxt(ROBOTS, 'SituationMonitor/1.0');
+		expect(policy.isAllowed('/news/world/story')).toBe(true);
+		expect(policy.isAllowed('/news/world/live')).toBe(false);
+		expect(policy.isAllowed('/private/memo')).toBe(true);
+	});
+
+	it('matches groups on the product token of the full user agent, case-insensitively', () => {
+		const userAgent = 'SituationMonitor/1.0 (article fetcher)';
+		expect(
+			parseRobotsTxt('User-agent: situationmonitor\nDisallow: /', userAgent).isAllowed('/a')
+		).toBe(false);
+		expect(parseRobotsTxt('User-agent: fetcher\nDisallow: /', userAgent).isAllowed('/a')).toBe(
+			true
+		);
+		expect(parseRobotsTxt('User-agent: Situation\nDisallow: /', userAgent).isAllowed('/a')).toBe(
+			true
+		);
+	});
+
+	it('lets the longest matching rule win for other agents', () => {
+		const policy = parseRobotsTxt(ROBOTS, 'OtherBot');
+		expect(policy.isAllowed('/private/memo')).toBe(false);
+		expect(policy.isAllowed('/private/press')).toBe(true);
+		expect(policy.isAllowed('/private/press/archive')).toBe(false);
+		expect(policy.isAllowed('/news/world/live')).toBe(true);
+	});
+
+	it('allows everything when no group applies', () => {
+		expect(
+			parseRobotsTxt('User-agent: Googlebot\nDisallow: /', 'SituationMonitor').isAllowed('/a')
+		).toBe(true);
+		expect(parseRobotsTxt('', 'SituationMonitor').isAllowed('/')).toBe(true);
+	});
+});
@@ -0,0 +1,78 @@
+/**
+ * robots.txt parsing for the article fetcher (RFC 9309: the most specific user-agent group
+ * applies, the longest matching rule wins and Allow wins ties)
+ */
+
+interface RobotsRule {
+	allow: boolean;
+	pattern: RegExp;
+	length: number;
+}
+
+export interface RobotsPolicy {
+	isAllowed(path: string): boolean;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true };
+export const DISALLOW_ALL: RobotsPolicy = { isAllowed: () => false };
+
+function toPattern(path: string): RegExp {
+	const anchored = path.endsWith('$');
+	const source = (anchored ? path.slice(0, -1) : path)
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Rules for `userAgent`, whose groups are matched case-insensitively on its product token
+ * (e.g. "SituationMonitor" in "SituationMonitor/1.0"); the "*" group applies when no group
+ * names it
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsPolicy {
+	const token = userAgent.split(/[/\s]/)[0].toLowerCase();
+	const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+	let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*$/, '').trim();
+		const separator = line.indexOf(':');
+		if (separator === -1) continue;
+		const field = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim();
+
+		if (field === 'user-agent') {
+			// Consecutive user-agent lines share one group
+			if (!current || current.rules.length > 0) {
+				current = { agents: [], rules: [] };
+				groups.push(current);
+			}
+			current.agents.push(value.toLowerCase());
+		} else if ((field === 'allow' || field === 'disallow') && current && value) {
+			current.rules.push({
+				allow: field === 'allow',
+				pattern: toPattern(value),
+				length: value.length
+			});
+		}
+	}
+
+	const named = groups.filter((group) => group.agents.includes(token));
+	const applicable =
+		named.length > 0 ? named : groups.filter((group) => group.agents.includes('*'));
+	const rules = applicable.flatMap((group) => group.rules);
+
+	return {
+		isAllowed(path: string): boolean {
+			let best: RobotsRule | null = null;
+			for (const rule of rules) {
+				if (!rule.pattern.test(path)) continue;
+				if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+					best = rule;
+				}
+			}
+			return best?.allow ?? true;
+		}
+	};
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { createNewsItem, useTestDb } from './test-db';
+
+describe('highlightSnippet', () => {
+	it('escapes HTML and marks matched terms', async () => {
+		const { highlightSnippet } = await import('./search');
+		const { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } = await import('./db');
+
+		expect(highlightSnippet(`<b>${SEARCH_HIGHLIGHT_START}Hormuz${SEARCH_HIGHLIGHT_END}</b>`)).toBe(
+			'&lt;b&gt;<mark>Hormuz</mark>&lt;/b&gt;'
+		);
+	});
+});
+
+describe('isSearchQueryError', () => {
+	it("only treats FTS5 query rejections as the client's fault", async () => {
+		const { isSearchQueryError } = await import('./search');
+		expect(isSearchQueryError(new Error('fts5: syntax error near "*"'))).toBe(true);
+		expect(isSearchQueryError(new Error('database disk image is malformed'))).toBe(false);
+		expect(isSearchQueryError('fts5: syntax error')).toBe(false);
+	});
+});
+
+describe('searchCachedNews', () => {
+	useTestDb();
+
+	it('ranks matches, applies filters and follows upserts and deletes', async () => {
+		const { upsertNewsItems, deleteOldNews } = await import('./db');
+		const { searchCachedNews } = await import('./search');
+
+		upsertNewsItems([
+			createNewsItem({
+				id: 'a',
+				title: 'Tanker seized near Strait of Hormuz',
+				region: 'MENA',
+				topics: ['CONFLICT']
+			}),
+			createNewsItem({
+				id: 'b',
+				title: 'Oil prices climb',
+				description: 'Traders watch Hormuz shipping lanes',
+				category: 'finance'
+			}),
+			createNewsItem({ id: 'c', title: 'Election results in Chile', category: 'latam' }),
+			createNewsItem({
+				id: 'old',
+				title: 'Hormuz patrol from last month',
+				timestamp: Date.now() - 30 * 24 * 60 * 60 * 1000
+			})
+		]);
+
+		const all = searchCachedNews({ query: 'hormuz' });
+		expect(all.results.map((item) => item.id)).toEqual(['a', 'b']);
+		expect(all.total).toBe(2);
+		expect(all.results[0].highlightedTitle).toContain('<mark>Hormuz</mark>');
+		expect(all.results[1].snippet).toContain('<mark>Hormuz</mark>');
+
+		expect(
+			searchCachedNews({ query: 'hormuz', categories: ['finance'] }).results.map((item) => item.id)
+		).toEqual(['b']);
+		expect(searchCachedNews({ query: 'hormuz', region: 'MENA' }).results).toHaveLength(1);
+		expect(searchCachedNews({ query: 'hormuz', topic: 'CONFLICT' }).results[0].id).toBe('a');
+
+		// Re-upserting an item replaces its index entry instead of duplicating it
+		upsertNewsItems([createNewsItem({ id: 'a', title: 'Tanker released in the Gulf' })]);
+		expect(searchCachedNews({ query: 'hormuz' }).results.map((item) => item.id)).toEqual(['b']);
+		expect(searchCachedNews({ query: 'tanker' }).total).toBe(1);
+
+		// Boolean grammar: fields, prefixes, proximity and negation run in SQL
+		upsertNewsItems([
+			createNewsItem({
+				id: 'd',
+				title: 'Navy escorts tankers through the strait',
+				source: 'Al Jazeera English',
+				category: 'intel'
+			}),
+			createNewsItem({ id: 'e', title: 'Sanctions on Iranian oil exports', category: 'finance' })
+		]);
+		const ids = (query: string) =>
+			searchCachedNews({ query })
+				.results.map((item) => item.id)
+				.sort();
+
+		expect(ids('source:"al jazeera"')).toEqual(['d']);
+		expect(ids('tanker* AND category:intel')).toEqual(['d']);
+		expect(ids('navy NEAR/4 strait')).toEqual(['d']);
+		expect(ids('navy NEAR/3 strait')).toEqual([]);
+		expect(ids('iran NOT category:finance')).toEqual([]);
+		expect(ids('iran OR hormuz')).toEqual(['b', 'e']);
+		expect(ids('sanction*')).toEqual(['e']);
+
+		expect(deleteOldNews(7)).toBe(1);
+		expect(searchCachedNews({ query: 'patrol', from: 0 }).results.map((item) => item.id)).toEqual(
+			[]
+		);
+	});
+
+	it('folds non-ASCII case and matches across title and description like the client', async () => {
+		const { upsertNewsItems } = await import('./db');
+		const { searchCachedNews } = await import('./search');
+		const { evaluateBooleanQuery } = await import('$lib/utils/boolean-query');
+
+		const item = createNewsItem({
+			id: 'pt',
+			title: 'GOVERNO ANUNCIA AÇÃO',
+			description: 'Militar na fronteira',
+			source: 'Folha ÁGORA',
+			category: 'latam'
+		});
+		upsertNewsItems([item]);
+		const ids = (query: string) => searchCachedNews({ query }).results.map((result) => result.id);
+
+		for (const query of ['ação', '"ação militar"', 'source:ágora']) {
+			expect(ids(query)).toEqual(['pt']);
+			expect(
+				evaluateBooleanQuery(
+					{ text: `${item.title} ${item.description}`, source: item.source },
+					query
+				).matches
+			).toBe(true);
+		}
+	});
+});
@@ -0,0 +1,151 @@
+/**
+ * Full-text search over the cached news table (SQLite FTS5)
+ */
+
+import { FEEDS } from '$lib/config/feeds';
+import type { NewsCategory, NewsSearchResponse, NewsSearchResult } from '$lib/types';
+import { validateBooleanQuery } from '$lib/utils/boolean-query';
+import { compileBooleanQueryToSql } from './boolean-query-sql';
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START, searchNews } from './db';
+
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const MAX_QUERY_LENGTH = 256;
+
+const VALID_CATEGORIES = new Set<NewsCategory>(Object.keys(FEEDS) as NewsCategory[]);
+
+export interface NewsSearchParams {
+	query: string;
+	categories?: NewsCategory[];
+	region?: string;
+	topic?: string;
+	from?: number;
+	to?: number;
+	limit?: number;
+	offset?: number;
+}
+
+export type NewsSearchParamsResult =
+	| { ok: true; params: NewsSearchParams }
+	| { ok: false; error: 'required' | 'invalid-category' | 'invalid-range' }
+	| { ok: false; error: 'invalid-query'; detail: string };
+
+function parseTime(value: string | null): number | undefined | null {
+	if (value === null || value.trim() === '') return undefined;
+	const trimmed = value.trim();
+	const timestamp = /^\d+$/.test(trimmed) ? Number.parseInt(trimmed, 10) : Date.parse(trimmed);
+	return Number.isFinite(timestamp) ? timestamp : null;
+}
+
+function parseInteger(value: string | null): number | undefined {
+	if (value === null) return undefined;
+	const parsed = Number.parseInt(value, 10);
+	return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Read search parameters from a request URL (`q`, `categories`, `region`, `topic`, `from`, `to`,
+ * `limit`, `offset`). Times accept epoch milliseconds or ISO-8601 strings.
+ */
+export function parseNewsSearchParams(searchParams: URLSearchParams): NewsSearchParamsResult {
+	const query = (searchParams.get('q') ?? '').trim().slice(0, MAX_QUERY_LENGTH);
+	if (!query) return { ok: false, error: 'required' };
+
+	const queryError = validateBooleanQuery(query);
+	if (queryError) return { ok: false, error: 'invalid-query', detail: queryError };
+
+	const categoriesParam = searchParams.get('categories') ?? searchParams.get('category');
+	let categories: NewsCategory[] | undefined;
+	if (categoriesParam) {
+		const requested = categoriesParam
+			.split(',')
+			.map((value) => value.trim())
+			.filter(Boolean);
+		if (requested.some((value) => !VALID_CATEGORIES.has(value as NewsCategory))) {
+			return { ok: false, error: 'invalid-category' };
+		}
+		categories = requested as NewsCategory[];
+	}
+
+	const from = parseTime(searchParams.get('from'));
+	const to = parseTime(searchParams.get('to'));
+	if (from === null || to === null || (from !== undefined && to !== undefined && from > to)) {
+		return { ok: false, error: 'invalid-range' };
+	}
+
+	return {
+		ok: true,
+		params: {
+			query,
+			categories,
+			region: searchParams.get('region')?.trim().toUpperCase() || undefined,
+			topic: searchParams.get('topic')?.trim().toUpperCase() || undefined,
+			from,
+			to,
+			limit: parseInteger(searchParams.get('limit')),
+			offset: parseInteger(searchParams.get('offset'))
+		}
+	};
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replaceAll('&', '&amp;')
+		.replaceAll('<', '&lt;')
+		.replaceAll('>', '&gt;')
+		.replaceAll('"', '&quot;')
+		.replaceAll("'", '&#39;');
+}
+
+/**
+ * Turn an FTS5 snippet into safe HTML with `<mark>` around the matched terms
+ */
+export function highlightSnippet(snippet: string): string {
+	return escapeHtml(snippet)
+		.replaceAll(SEARCH_HIGHLIGHT_START, '<mark>')
+		.replaceAll(SEARCH_HIGHLIGHT_END, '</mark>');
+}
+
+/**
+ * Whether a search failed on the query itself: FTS5 rejects some expressions (e.g. a prefix of
+ * stop characters) only at query time. Other errors are server faults.
+ */
+export function isSearchQueryError(error: unknown): error is Error {
+	return error instanceof Error && error.message.startsWith('fts5:');
+}
+
+/**
+ * Search cached news with the monitor query language (AND/OR/NOT, phrases, `prefix*`,
+ * `NEAR/n` and field qualifiers). Results containing query terms rank by relevance,
+ * the rest (e.g. field-only matches) by recency.
+ */
+export function searchCachedNews(params: NewsSearchParams): NewsSearchResponse {
+	const now = Date.now();
+	const to = params.to ?? now;
+	const from = params.from ?? to - DEFAULT_RANGE_MS;
+	const limit = Math.min(Math.max(params.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+	const offset = Math.max(params.offset ?? 0, 0);
+
+	const compiled = compileBooleanQueryToSql(params.query);
+	const { rows, total } = searchNews({
+		where: { sql: compiled.sql, params: compiled.params },
+		rankMatch: compiled.rankMatch,
+		categories: params.categories,
+		region: params.region,
+		topic: params.topic,
+		from,
+		to,
+		limit,
+		offset
+	});
+
+	const results: NewsSearchResult[] = rows.map((row) => ({
+		...row.item,
+		highlightedTitle: highlightSnippet(row.titleSnippet ?? row.item.title),
+		snippet: row.descriptionSnippet ? highlightSnippet(row.descriptionSnippet) : undefined,
+		score: row.rank === null ? 0 : -row.rank
+	}));
+
+	return { query: params.query, results, total, from, to, limit, offset };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+const NOW = Date.now();
+const HOUR = 3600000;
+
+function newsItem(id: string, title: string, hoursAgo: number, extra: Partial<NewsItem> = {}) {
+	return createNewsItem({ id, title, timestamp: NOW - hoursAgo * HOUR, ...extra });
+}
+
+describe('getSentimentTrends', () => {
+	useTestDb();
+
+	it('aggregates stored scores per person and topic in time buckets', async () => {
+		const { upsertNewsItems, getNewsBetween } = await import('./db');
+		const { getSentimentTrends } = await import('./sentiment');
+		upsertNewsItems([
+			newsItem('a', 'Zelensky welcomes aid', 20, { sentiment: 0.5, topics: ['DIPLO'] }),
+			newsItem('b', 'Zelensky warns of attack', 2, { sentiment: -0.5, topics: ['CONFLICT'] }),
+			newsItem('c', 'Zelensky condemns strike', 1, { sentiment: -0.7, topics: ['CONFLICT'] }),
+			newsItem('d', 'Old story about Zelensky', 100, { sentiment: 0.9 })
+		]);
+		expect(getNewsBetween(NOW - 24 * HOUR, NOW).map((item) => item.sentiment)).toEqual([
+			0.5, -0.5, -0.7
+		]);
+
+		const trends = getSentimentTrends({ windowHours: 24, bucketHours: 12, now: NOW });
+		const zelensky = trends.people.find((series) => series.key === 'Zelensky');
+		expect(zelensky).toMatchObject({ count: 3, score: -0.233 });
+		expect(zelensky?.points).toEqual([
+			{ timestamp: NOW - 24 * HOUR, score: 0.5, count: 1 },
+			{ timestamp: NOW - 12 * HOUR, score: -0.6, count: 2 }
+		]);
+		expect(trends.topics.map((series) => [series.key, series.score])).toEqual([
+			['CONFLICT', -0.6],
+			['DIPLO', 0.5]
+		]);
+	});
+});
@@ -0,0 +1,65 @@
+/**
+ * Sentiment trends - the per-headline scores stored at ingest, averaged per narrative, topic
+ * and tracked person in fixed time buckets
+ */
+
+import { MAINSTREAM_NARRATIVE_PATTERNS } from '$lib/config/analysis';
+import { DEFAULT_SENTIMENT_WINDOW_HOURS, SENTIMENT_BUCKET_HOURS } from '$lib/config/sentiment';
+import { matchesMainstreamNarrative } from '$lib/analysis/narrative';
+import { bucketSentiment, groupNewsByPerson, summarizeSentiment } from '$lib/shared/sentiment';
+import type { NewsItem, SentimentSeries, SentimentTrends } from '$lib/types';
+import { getNewsBetween } from './db';
+
+export interface SentimentTrendOptions {
+	windowHours?: number;
+	bucketHours?: number;
+	now?: number;
+}
+
+function toSeries(
+	groups: Map<string, NewsItem[]>,
+	since: number,
+	until: number,
+	bucketMs: number
+): SentimentSeries[] {
+	return [...groups]
+		.map(([key, items]) => {
+			const { score, count } = summarizeSentiment(items);
+			return { key, score, count, points: bucketSentiment(items, since, until, bucketMs) };
+		})
+		.filter((series) => series.count > 0)
+		.sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Sentiment per narrative, topic and person over the last `windowHours`
+ */
+export function getSentimentTrends({
+	windowHours = DEFAULT_SENTIMENT_WINDOW_HOURS,
+	bucketHours = SENTIMENT_BUCKET_HOURS,
+	now = Date.now()
+}: SentimentTrendOptions = {}): SentimentTrends {
+	const since = now - windowHours * 3600000;
+	const bucketMs = bucketHours * 3600000;
+	const items = getNewsBetween(since, now);
+
+	const narratives = new Map<string, NewsItem[]>();
+	for (const pattern of MAINSTREAM_NARRATIVE_PATTERNS) {
+		const matches = items.filter((item) => matchesMainstreamNarrative(item, pattern));
+		if (matches.length > 0) narratives.set(pattern.id, matches);
+	}
+
+	const topics = new Map<string, NewsItem[]>();
+	for (const item of items) {
+		for (const topic of item.topics ?? []) topics.set(topic, [...(topics.get(topic) ?? []), item]);
+	}
+
+	return {
+		narratives: toSeries(narratives, since, now, bucketMs),
+		topics: toSeries(topics, since, now, bucketMs),
+		people: toSeries(groupNewsByPerson(items), since, now, bucketMs),
+		windowHours,
+		bucketHours,
+		updatedAt: now
+	};
+}
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createServer, type AddressInfo, type Server } from 'net';
+import { sendMail, type SmtpConfig } from './smtp';
+
+interface StubSession {
+	commands: string[];
+	data: string;
+}
+
+/** Plain-text SMTP stub: accepts everything except recipients on the rejected list */
+function startSmtpStub(
+	rejected: string[] = []
+): Promise<{ server: Server; sessions: StubSession[] }> {
+	const sessions: StubSession[] = [];
+	const server = createServer((socket) => {
+		const session: StubSession = { commands: [], data: '' };
+		sessions.push(session);
+		let buffer = '';
+		let inData = false;
+
+		socket.write('220 stub ESMTP\r\n');
+		socket.on('data', (chunk) => {
+			buffer += chunk.toString('utf8');
+			let index: number;
+			while ((index = buffer.indexOf('\r\n')) !== -1) {
+				const line = buffer.slice(0, index);
+				buffer = buffer.slice(index + 2);
+
+				if (inData) {
+					if (line === '.') {
+						inData = false;
+						socket.write('250 queued\r\n');
+					} else {
+						session.data += `${line}\r\n`;
+					}
+					continue;
+				}
+
+				session.commands.push(line);
+				const verb = line.split(/[ :]/)[0].toUpperCase();
+				if (verb === 'EHLO') socket.write('250-stub\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+				else if (verb === 'AUTH') socket.write('235 ok\r\n');
+				else if (verb === 'RCPT' && rejected.some((address) => line.includes(address))) {
+					socket.write('550 no such user\r\n');
+				} else if (verb === 'DATA') {
+					inData = true;
+					socket.write('354 go ahead\r\n');
+				} else if (verb === 'QUIT') {
+					socket.end('221 bye\r\n');
+				} else socket.write('250 ok\r\n');
+			}
+		});
+	});
+
+	return new Promise((resolve) =>
+		server.listen(0, '127.0.0.1', () => resolve({ server, sessions }))
+	);
+}
+
+describe('sendMail', () => {
+	let server: Server | null = null;
+
+	afterEach(async () => {
+		await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+		server = null;
+	});
+
+	function configFor(stub: Server): SmtpConfig {
+		return {
+			host: '127.0.0.1',
+			port: (stub.address() as AddressInfo).port,
+			secure: false,
+			user: 'alerts',
+			pass: 'secret',
+			from: 'Situation Monitor <alerts@example.com>',
+			timeoutMs: 2000
+		};
+	}
+
+	it('authenticates and sends a base64 plain-text message', async () => {
+		const stub = await startSmtpStub();
+		server = stub.server;
+
+		await sendMail(configFor(stub.server), {
+			to: ['ops@example.com', 'Analyst <analyst@example.com>'],
+			subject: 'Alerta: tensão no Estreito de Ormuz',
+			text: 'Line one\n.Line two'
+		});
+
+		const [session] = stub.sessions;
+		expect(session.commands).toContain(
+			`AUTH PLAIN ${Buffer.from('\0alerts\0secret').toString('base64')}`
+		);
+		expect(session.commands).toContain('MAIL FROM:<alerts@example.com>');
+		expect(session.commands).toContain('RCPT TO:<analyst@example.com>');
+		expect(session.commands.at(-1)).toBe('QUIT');
+
+		const [headers, body] = session.data.split('\r\n\r\n');
+		expect(headers).toContain('To: ops@example.com, Analyst <analyst@example.com>');
+		expect(headers).toContain(
+			`Subject: =?UTF-8?B?${Buffer.from('Alerta: tensão no Estreito de Ormuz').toString('base64')}?=`
+		);
+		expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')).toBe(
+			'Line one\r\n.Line two'
+		);
+	});
+
+	it('rejects with the server reply when a recipient is refused', async () => {
+		const stub = await startSmtpStub(['nobody@example.com']);
+		server = stub.server;
+
+		await expect(
+			sendMail(configFor(stub.server), {
+				to: ['nobody@example.com'],
+				subject: 'Test',
+				text: 'Body'
+			})
+		).rejects.toThrow('SMTP RCPT failed: 550 no such user');
+	});
+});
@@ -0,0 +1,201 @@
+/**
+ * Minimal SMTP client for alert emails (plain text, STARTTLS or implicit TLS, AUTH PLAIN)
+ */
+
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { hostname } from 'os';
+
+export interface SmtpConfig {
+	host: string;
+	port: number;
+	/** Implicit TLS (usually port 465). Otherwise STARTTLS is used when the server offers it. */
+	secure: boolean;
+	user?: string;
+	pass?: string;
+	from: string;
+	/** Allow self-signed certificates (local relays) */
+	allowInvalidCertificate?: boolean;
+	timeoutMs?: number;
+}
+
+export interface MailMessage {
+	to: string[];
+	subject: string;
+	text: string;
+}
+
+interface SmtpResponse {
+	code: number;
+	lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+class SmtpReader {
+	private buffer = '';
+	private pending: {
+		resolve: (response: SmtpResponse) => void;
+		reject: (error: Error) => void;
+	} | null = null;
+	private failure: Error | null = null;
+
+	constructor(socket: Socket) {
+		socket.on('data', (chunk: Buffer) => {
+			this.buffer += chunk.toString('utf8');
+			this.flush();
+		});
+		socket.on('error', (error) => this.fail(error));
+		socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+	}
+
+	read(): Promise<SmtpResponse> {
+		return new Promise((resolve, reject) => {
+			this.pending = { resolve, reject };
+			if (this.failure) this.fail(this.failure);
+			else this.flush();
+		});
+	}
+
+	private fail(error: Error): void {
+		this.failure ??= error;
+		const pending = this.pending;
+		this.pending = null;
+		pending?.reject(this.failure);
+	}
+
+	// A reply is complete at the first line with a space (or nothing) after the code
+	private flush(): void {
+		if (!this.pending) return;
+		const lines = this.buffer.split('\r\n');
+		for (let i = 0; i < lines.length - 1; i++) {
+			if (!/^\d{3}(?: |$)/.test(lines[i])) continue;
+
+			const reply = lines.slice(0, i + 1);
+			this.buffer = lines.slice(i + 1).join('\r\n');
+			const pending = this.pending;
+			this.pending = null;
+			pending.resolve({
+				code: Number.parseInt(reply[i].slice(0, 3), 10),
+				lines: reply.map((line) => line.slice(4))
+			});
+			return;
+		}
+	}
+}
+
+function openSocket(config: SmtpConfig): Promise<Socket> {
+	return new Promise((resolve, reject) => {
+		const options = { host: config.host, port: config.port };
+		const socket = config.secure
+			? connectTls(
+					{
+						...options,
+						servername: config.host,
+						rejectUnauthorized: !config.allowInvalidCertificate
+					},
+					() => resolve(socket)
+				)
+			: connectTcp(options, () => resolve(socket));
+		socket.once('error', reject);
+	});
+}
+
+function upgradeToTls(socket: Socket, config: SmtpConfig): Promise<Socket> {
+	return new Promise((resolve, reject) => {
+		socket.removeAllListeners('data');
+		socket.removeAllListeners('close');
+		const secured = connectTls(
+			{
+				socket,
+				servername: config.host,
+				rejectUnauthorized: !config.allowInvalidCertificate
+			},
+			() => resolve(secured)
+		);
+		secured.once('error', reject);
+	});
+}
+
+function encodeHeader(value: string): string {
+	return /^[\x20-\x7e]*$/.test(value)
+		? value
+		: `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function extractAddress(value: string): string {
+	return /<([^>]+)>/.exec(value)?.[1] ?? value.trim();
+}
+
+export function buildMailData(config: SmtpConfig, message: MailMessage): string {
+	const domain = extractAddress(config.from).split('@')[1] ?? 'localhost';
+	const body =
+		Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8')
+			.toString('base64')
+			.match(/.{1,76}/g)
+			?.join('\r\n') ?? '';
+
+	return [
+		`From: ${config.from}`,
+		`To: ${message.to.join(', ')}`,
+		`Subject: ${encodeHeader(message.subject)}`,
+		`Date: ${new Date().toUTCString()}`,
+		`Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2, 10)}@${domain}>`,
+		'MIME-Version: 1.0',
+		'Content-Type: text/plain; charset=utf-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		body
+	].join('\r\n');
+}
+
+/**
+ * Send a plain-text email. Rejects with the server's reply on any unexpected response.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+	if (message.to.length === 0) throw new Error('No email recipients');
+
+	let socket = await openSocket(config);
+	socket.setTimeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS, () =>
+		socket.destroy(new Error('SMTP timeout'))
+	);
+	let reader = new SmtpReader(socket);
+
+	async function command(line: string | null, expected: number[]): Promise<SmtpResponse> {
+		if (line !== null) socket.write(`${line}\r\n`);
+		const response = await reader.read();
+		if (!expected.includes(response.code)) {
+			const verb = line === null ? 'greeting' : line.split(' ')[0];
+			throw new Error(`SMTP ${verb} failed: ${response.code} ${response.lines.join(' ')}`);
+		}
+		return response;
+	}
+
+	try {
+		await command(null, [220]);
+		const helo = `EHLO ${hostname() || 'localhost'}`;
+		const capabilities = await command(helo, [250]);
+
+		if (!config.secure && capabilities.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+			await command('STARTTLS', [220]);
+			socket = await upgradeToTls(socket, config);
+			reader = new SmtpReader(socket);
+			await command(helo, [250]);
+		}
+
+		if (config.user) {
+			const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`, 'utf8');
+			await command(`AUTH PLAIN ${credentials.toString('base64')}`, [235]);
+		}
+
+		await command(`MAIL FROM:<${extractAddress(config.from)}>`, [250]);
+		for (const recipient of message.to) {
+			await command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+		}
+		await command('DATA', [354]);
+		await command(`${buildMailData(config, message)}\r\n.`, [250]);
+		await command('QUIT', [221]).catch(() => undefined);
+	} finally {
+		socket.destroy();
+	}
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+const NOW = Date.now();
+
+function newsItem(id: string, title: string, source: string, minutesAgo: number): NewsItem {
+	return createNewsItem({ id, title, source, timestamp: NOW - minutesAgo * 60000 });
+}
+
+describe('clusterNews', () => {
+	useTestDb();
+
+	it('persists cluster ids that survive later refreshes', async () => {
+		const { upsertNewsItems, getNewsByCategory } = await import('./db');
+		const { clusterNews } = await import('./story-clusters');
+
+		const first = newsItem('f1', 'Federal Reserve holds interest rates steady', 'Bloomberg', 30);
+		upsertNewsItems([first, newsItem('c1', 'City council approves bike lanes', 'AP News', 20)]);
+		expect(Object.fromEntries(clusterNews(NOW))).toEqual({ f1: 'f1', c1: 'c1' });
+
+		// Refreshed copies keep their story; related coverage joins it
+		upsertNewsItems([
+			first,
+			newsItem('f2', 'Federal Reserve holds interest rates steady again', 'Reuters', 5)
+		]);
+		const clusterIds = clusterNews(NOW);
+		expect(clusterIds.get('f2')).toBe('f1');
+
+		const stored = getNewsByCategory('politics');
+		expect(stored.map((item) => [item.id, item.clusterId])).toEqual([
+			['f2', 'f1'],
+			['c1', 'c1'],
+			['f1', 'f1']
+		]);
+	});
+});
@@ -0,0 +1,36 @@
+/**
+ * Server-side story clustering - assigns stable cluster ids to freshly stored headlines
+ */
+
+import { STORY_CLUSTER_MAX_GAP_MS, STORY_CLUSTER_WINDOW_MS } from '$lib/config/story-clusters';
+import { assignStoryClusters } from '$lib/shared/story-clusters';
+import type { NewsItem } from '$lib/types';
+import { getNewsForClustering, setNewsClusterIds } from './db';
+
+/**
+ * Cluster the stored headlines of the last STORY_CLUSTER_WINDOW_MS that have no story yet,
+ * across all categories. Returns every cluster id in the window, keyed by headline id.
+ */
+export function clusterNews(now = Date.now()): Map<string, string> {
+	const windowStart = now - STORY_CLUSTER_WINDOW_MS;
+	// Stories that ended just before the window can still take new headlines
+	const { clustered, unclustered } = getNewsForClustering(windowStart - STORY_CLUSTER_MAX_GAP_MS);
+	const pending = unclustered.filter((item) => item.timestamp > windowStart);
+
+	const assigned = assignStoryClusters(pending, clustered);
+	if (assigned.size > 0) setNewsClusterIds(assigned);
+
+	const clusterIds = new Map(clustered.map((item) => [item.id, item.clusterId as string]));
+	for (const [id, clusterId] of assigned) clusterIds.set(id, clusterId);
+	return clusterIds;
+}
+
+/**
+ * Copies of `items` carrying their cluster id, when they have one
+ */
+export function withClusterIds(items: NewsItem[], clusterIds: Map<string, string>): NewsItem[] {
+	return items.map((item) => {
+		const clusterId = clusterIds.get(item.id);
+		return clusterId ? { ...item, clusterId } : item;
+	});
+}
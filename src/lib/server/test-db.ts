@@ -0,0 +1,39 @@
+/**
+ * Test helpers for server modules backed by SQLite - an in-memory database per suite and a
+ * news item factory
+ */
+
+import { afterAll, beforeAll, vi } from 'vitest';
+import type { NewsItem } from '$lib/types';
+
+/**
+ * Point DB_PATH at a fresh in-memory database for the enclosing describe block (or file) and
+ * close it afterwards. Server modules must be imported inside the tests to pick it up.
+ */
+export function useTestDb(): void {
+	beforeAll(() => {
+		vi.stubEnv('DB_PATH', ':memory:');
+		vi.resetModules();
+	});
+
+	afterAll(async () => {
+		const { closeDb } = await import('./db');
+		closeDb();
+		vi.unstubAllEnvs();
+	});
+}
+
+/**
+ * A politics headline from Reuters published an hour ago, with `overrides` applied
+ */
+export function createNewsItem(
+	overrides: Partial<NewsItem> & { id: string; title: string }
+): NewsItem {
+	return {
+		link: `https://example.com/${overrides.id}`,
+		timestamp: Date.now() - 60 * 60 * 1000,
+		source: 'Reuters',
+		category: 'politics',
+		...overrides
+	};
+}
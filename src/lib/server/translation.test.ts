@@ -0,0 +1,117 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import { createNewsItem, useTestDb } from './test-db';
+
+const NOW = Date.now();
+
+function newsItem(id: string, title: string, extra: Partial<NewsItem> = {}): NewsItem {
+	return createNewsItem({
+		id,
+		title,
+		timestamp: NOW - 10 * 60000,
+		category: 'latam',
+		topics: [],
+		...extra
+	});
+}
+
+describe('translation settings', () => {
+	it('is off by default and fills in the LibreTranslate endpoint', async () => {
+		const { getTranslationSettings } = await import('./translation');
+		expect(getTranslationSettings({})).toMatchObject({
+			provider: 'off',
+			baseUrl: null,
+			targetLang: 'en'
+		});
+		expect(
+			getTranslationSettings({
+				TRANSLATION_PROVIDER: 'libretranslate',
+				TRANSLATION_TARGET: 'pt-BR'
+			})
+		).toMatchObject({
+			provider: 'libretranslate',
+			baseUrl: 'http://127.0.0.1:5000',
+			targetLang: 'pt'
+		});
+	});
+});
+
+describe('refreshTranslations', () => {
+	useTestDb();
+
+	afterAll(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('stores translated titles of foreign headlines and re-detects topics from them', async () => {
+		const { getNewsByCategory, upsertNewsItems } = await import('./db');
+		const { getTranslationSettings, refreshTranslations } = await import('./translation');
+
+		upsertNewsItems([
+			newsItem('es', 'Crece la tensión en la frontera', { lang: 'es' }),
+			newsItem('pt', 'Governo anuncia pacote', { lang: 'pt' }),
+			newsItem('en', 'Markets rally on rate hopes', { lang: 'en' }),
+			newsItem('unknown', 'Petrobras')
+		]);
+
+		const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(
+			async (_url, init) => {
+				const body = JSON.parse(String(init?.body)) as { q: string[]; source: string };
+				const translatedText = body.q.map((text) =>
+					body.source === 'es' ? 'Tension grows at the border as troops deploy' : `EN: ${text}`
+				);
+				return new Response(JSON.stringify({ translatedText }));
+			}
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const settings = getTranslationSettings({ TRANSLATION_PROVIDER: 'libretranslate' });
+		expect(await refreshTranslations(settings, undefined, NOW)).toEqual({
+			translated: 2,
+			failed: 0
+		});
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:5000/translate');
+
+		const byId = new Map(getNewsByCategory('latam').map((item) => [item.id, item]));
+		expect(byId.get('es')?.translatedTitle).toBe('Tension grows at the border as troops deploy');
+		expect(byId.get('es')?.topics).toContain('CONFLICT');
+		expect(byId.get('pt')?.translatedTitle).toBe('EN: Governo anuncia pacote');
+		expect(byId.get('en')?.translatedTitle).toBeUndefined();
+		expect(byId.get('unknown')?.translatedTitle).toBeUndefined();
+
+		// A feed refresh keeps the translation; translated headlines are not sent again
+		upsertNewsItems([newsItem('es', 'Crece la tensión en la frontera', { lang: 'es' })]);
+		const refreshed = getNewsByCategory('latam').find((item) => item.id === 'es');
+		expect(refreshed?.translatedTitle).toBe('Tension grows at the border as troops deploy');
+		expect(await refreshTranslations(settings, undefined, NOW)).toEqual({
+			translated: 0,
+			failed: 0
+		});
+	});
+
+	it('leaves a failed batch for the next run', async () => {
+		const { upsertNewsItems } = await import('./db');
+		const { getTranslationSettings, glossaryProvider, refreshTranslations } =
+			await import('./translation');
+
+		upsertNewsItems([newsItem('fa', 'حمله موشکی به پایگاه', { lang: 'fa' })]);
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(
+				async () => new Response(JSON.stringify({ error: 'Too many requests' }), { status: 429 })
+			)
+		);
+
+		const settings = getTranslationSettings({ TRANSLATION_PROVIDER: 'libretranslate' });
+		expect(await refreshTranslations(settings, undefined, NOW)).toEqual({
+			translated: 0,
+			failed: 1
+		});
+
+		expect(await refreshTranslations(settings, glossaryProvider, NOW)).toEqual({
+			translated: 1,
+			failed: 0
+		});
+	});
+});
@@ -0,0 +1,214 @@
+/**
+ * Headline translation: titles not in the target language are sent to a pluggable provider after
+ * each refresh and the result is stored next to the original. Topics and region are re-detected
+ * on the translated title, so the English matchers see foreign-language news too; headlines in
+ * a language without a sentiment lexicon are scored from it as well, and headlines the geocoder
+ * could not place are geocoded from it.
+ */
+
+import { env as privateEnv } from '$env/dynamic/private';
+import {
+	DEFAULT_LIBRETRANSLATE_URL,
+	DEFAULT_TRANSLATION_MAX,
+	TRANSLATION_BATCH_SIZE,
+	TRANSLATION_PROVIDERS,
+	TRANSLATION_WINDOW_MS,
+	type TranslationProviderId
+} from '$lib/config/translation';
+import { detectRegion, detectTopics, glossAlertTerms } from '$lib/config/keywords';
+import { normalizeLanguageTag } from '$lib/shared/language';
+import { scoreSentiment } from '$lib/shared/sentiment';
+import { geocodeText } from '$lib/shared/geocoder';
+import type { NewsItem, NewsLanguage } from '$lib/types';
+import {
+	getTranslationCandidates,
+	updateNewsDetection,
+	updateNewsLocation,
+	updateNewsSentiment,
+	updateNewsTranslation
+} from './db';
+
+const HTTP_TIMEOUT_MS = 30000;
+
+export interface TranslationProvider {
+	id: Exclude<TranslationProviderId, 'off'>;
+	/** One translation per input text, in order */
+	translate(texts: string[], source: NewsLanguage, target: NewsLanguage): Promise<string[]>;
+}
+
+export interface TranslationSettings {
+	provider: TranslationProviderId;
+	baseUrl: string | null;
+	apiKey: string | null;
+	targetLang: NewsLanguage;
+	maxPerRun: number;
+}
+
+export interface TranslationResult {
+	translated: number;
+	failed: number;
+}
+
+/**
+ * Translation settings from the environment. TRANSLATION_PROVIDER picks glossary (offline stub),
+ * libretranslate (any LibreTranslate-compatible /translate endpoint) or off (the default).
+ */
+export function getTranslationSettings(
+	env: Record<string, string | undefined> = privateEnv
+): TranslationSettings {
+	let provider: TranslationProviderId = 'off';
+	const requested = env.TRANSLATION_PROVIDER?.trim();
+	if (requested && TRANSLATION_PROVIDERS.includes(requested as TranslationProviderId)) {
+		provider = requested as TranslationProviderId;
+	} else if (requested) {
+		console.warn(`[Translation] Unknown provider "${requested}", translation is off`);
+	}
+
+	const maxPerRun = Number(env.TRANSLATION_MAX);
+	return {
+		provider,
+		baseUrl:
+			provider === 'libretranslate' ? env.TRANSLATION_BASE_URL || DEFAULT_LIBRETRANSLATE_URL : null,
+		apiKey: env.TRANSLATION_API_KEY || null,
+		targetLang: normalizeLanguageTag(env.TRANSLATION_TARGET) ?? 'en',
+		maxPerRun: Number.isInteger(maxPerRun) && maxPerRun > 0 ? maxPerRun : DEFAULT_TRANSLATION_MAX
+	};
+}
+
+// --- Glossary (offline stub) ---
+
+/**
+ * Swaps the alert terms of the locale keyword packs for their English keyword and leaves the
+ * rest of the title alone. Needs no service, so the pipeline can be exercised anywhere.
+ */
+export const glossaryProvider: TranslationProvider = {
+	id: 'glossary',
+	async translate(texts, source) {
+		return texts.map((text) => glossAlertTerms(text, source));
+	}
+};
+
+// --- LibreTranslate ---
+
+interface LibreTranslateResponse {
+	translatedText?: string | string[];
+	error?: string;
+}
+
+export function createLibreTranslateProvider(
+	baseUrl: string,
+	apiKey: string | null
+): TranslationProvider {
+	return {
+		id: 'libretranslate',
+		async translate(texts, source, target) {
+			const controller = new AbortController();
+			const timeoutId = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+			try {
+				const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/translate`, {
+					method: 'POST',
+					headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+					body: JSON.stringify({
+						q: texts,
+						source,
+						target,
+						format: 'text',
+						...(apiKey ? { api_key: apiKey } : {})
+					}),
+					signal: controller.signal
+				});
+				const data = (await response.json()) as LibreTranslateResponse;
+				if (!response.ok) throw new Error(data.error ?? `HTTP ${response.status}`);
+
+				const translated = Array.isArray(data.translatedText)
+					? data.translatedText
+					: [data.translatedText];
+				if (translated.length !== texts.length || translated.some((text) => !text?.trim())) {
+					throw new Error('LibreTranslate returned an incomplete batch');
+				}
+				return translated.map((text) => (text as string).trim());
+			} finally {
+				clearTimeout(timeoutId);
+			}
+		}
+	};
+}
+
+export function createTranslationProvider(
+	settings: TranslationSettings
+): TranslationProvider | null {
+	if (settings.provider === 'glossary') return glossaryProvider;
+	if (settings.provider === 'libretranslate' && settings.baseUrl) {
+		return createLibreTranslateProvider(settings.baseUrl, settings.apiKey);
+	}
+	return null;
+}
+
+function groupByLanguage(items: NewsItem[]): Map<NewsLanguage, NewsItem[]> {
+	const groups = new Map<NewsLanguage, NewsItem[]>();
+	for (const item of items) {
+		if (!item.lang) continue;
+		groups.set(item.lang, [...(groups.get(item.lang) ?? []), item]);
+	}
+	return groups;
+}
+
+/**
+ * Translate up to `maxPerRun` recent headlines that are not in the target language. A failed
+ * batch is left untranslated and retried on the next run.
+ */
+export async function refreshTranslations(
+	settings: TranslationSettings = getTranslationSettings(),
+	provider: TranslationProvider | null = createTranslationProvider(settings),
+	now = Date.now()
+): Promise<TranslationResult> {
+	const result: TranslationResult = { translated: 0, failed: 0 };
+	if (!provider) return result;
+
+	const candidates = getTranslationCandidates(
+		settings.targetLang,
+		now - TRANSLATION_WINDOW_MS,
+		settings.maxPerRun
+	);
+	for (const [lang, items] of groupByLanguage(candidates)) {
+		for (let start = 0; start < items.length; start += TRANSLATION_BATCH_SIZE) {
+			const batch = items.slice(start, start + TRANSLATION_BATCH_SIZE);
+			let translations: string[];
+			try {
+				translations = await provider.translate(
+					batch.map((item) => item.title),
+					lang,
+					settings.targetLang
+				);
+			} catch (error) {
+				console.warn(`[Translation] ${provider.id} failed for ${lang}:`, error);
+				result.failed += batch.length;
+				continue;
+			}
+
+			batch.forEach((item, index) => {
+				const translatedTitle = translations[index];
+				updateNewsTranslation(item.id, translatedTitle);
+				const topics = detectTopics(translatedTitle, settings.targetLang);
+				if (topics.some((topic) => !item.topics?.includes(topic)) || !item.region) {
+					updateNewsDetection(
+						item.id,
+						item.region ?? detectRegion(translatedTitle, settings.targetLang),
+						[...new Set([...(item.topics ?? []), ...topics])]
+					);
+				}
+				// Languages without a sentiment lexicon are scored from the translation
+				if (item.sentiment === undefined) {
+					const sentiment = scoreSentiment(translatedTitle, settings.targetLang);
+					if (sentiment !== null) updateNewsSentiment(item.id, sentiment);
+				}
+				if (item.lat === undefined) {
+					const place = geocodeText(translatedTitle);
+					if (place) updateNewsLocation(item.id, { ...place, place: place.name });
+				}
+				result.translated += 1;
+			});
+		}
+	}
+	return result;
+}
@@ -0,0 +1,347 @@
+/**
+ * Whale transaction sources: a Whale Alert-style REST API and public BTC/ETH explorer JSON
+ */
+
+import type { WhaleTransaction } from '$lib/types';
+
+export interface WhaleWalletOwner {
+	name: string;
+	exchange: boolean;
+}
+
+/**
+ * Large transfer as reported by a provider, before thresholds and wallet labels are applied
+ */
+export interface WhaleTransfer {
+	hash: string;
+	chain: string;
+	token: string;
+	from: string;
+	to: string;
+	/** Amount in token units */
+	amount: number;
+	/** USD value reported by the provider; priced from market data when null */
+	amountUsd: number | null;
+	timestamp: number;
+	type: WhaleTransaction['type'];
+	/** Wallet owners the provider attributed, when known */
+	fromOwner: WhaleWalletOwner | null;
+	toOwner: WhaleWalletOwner | null;
+}
+
+export interface WhaleFetchContext {
+	/** Only transfers at or after this time are wanted */
+	since: number;
+	now: number;
+	/** Lowest USD value any token is reported at */
+	minUsd: number;
+	/** USD prices by token symbol, for providers that report raw amounts */
+	prices: Record<string, number>;
+}
+
+export interface WhaleProvider {
+	id: string;
+	fetchTransfers(context: WhaleFetchContext): Promise<WhaleTransfer[]>;
+}
+
+const HTTP_TIMEOUT_MS = 15000;
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+	try {
+		const response = await fetch(url, {
+			...init,
+			signal: controller.signal,
+			headers: { Accept: 'application/json', ...init?.headers }
+		});
+		if (!response.ok) throw new Error(`HTTP ${response.status}`);
+		return (await response.json()) as T;
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+// --- Whale Alert ---
+
+interface WhaleAlertAddress {
+	address?: string;
+	owner?: string;
+	owner_type?: string;
+}
+
+interface WhaleAlertTransaction {
+	blockchain: string;
+	symbol: string;
+	transaction_type: string;
+	hash: string;
+	from?: WhaleAlertAddress;
+	to?: WhaleAlertAddress;
+	timestamp: number;
+	amount: number;
+	amount_usd?: number;
+}
+
+interface WhaleAlertResponse {
+	result: string;
+	message?: string;
+	cursor?: string;
+	count?: number;
+	transactions?: WhaleAlertTransaction[];
+}
+
+export const WHALE_ALERT_BASE_URL = 'https://api.whale-alert.io/v1';
+/** The free tier only serves the last hour */
+const WHALE_ALERT_MAX_LOOKBACK_MS = 3600000;
+const WHALE_ALERT_PAGE_SIZE = 100;
+const WHALE_ALERT_MAX_PAGES = 3;
+
+const WHALE_ALERT_TYPES: Record<string, WhaleTransaction['type']> = {
+	transfer: 'transfer',
+	mint: 'mint',
+	burn: 'burn',
+	lock: 'transfer',
+	unlock: 'transfer'
+};
+
+function parseOwner(address?: WhaleAlertAddress): WhaleWalletOwner | null {
+	const owner = address?.owner;
+	if (!owner || owner === 'unknown') return null;
+	return {
+		name: owner
+			.split(/[\s_-]+/)
+			.map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+			.join(' '),
+		exchange: address.owner_type === 'exchange'
+	};
+}
+
+export function parseWhaleAlertTransaction(tx: WhaleAlertTransaction): WhaleTransfer | null {
+	if (!tx.hash || !tx.symbol || !Number.isFinite(tx.amount)) return null;
+	return {
+		hash: tx.hash,
+		chain: tx.blockchain,
+		token: tx.symbol.toUpperCase(),
+		from: tx.from?.address || 'unknown',
+		to: tx.to?.address || 'unknown',
+		amount: tx.amount,
+		amountUsd: Number.isFinite(tx.amount_usd) ? (tx.amount_usd as number) : null,
+		timestamp: tx.timestamp * 1000,
+		type: WHALE_ALERT_TYPES[tx.transaction_type] ?? 'transfer',
+		fromOwner: parseOwner(tx.from),
+		toOwner: parseOwner(tx.to)
+	};
+}
+
+export function createWhaleAlertProvider(
+	apiKey: string,
+	baseUrl = WHALE_ALERT_BASE_URL
+): WhaleProvider {
+	return {
+		id: 'whale-alert',
+		async fetchTransfers(context) {
+			const start = Math.max(context.since, context.now - WHALE_ALERT_MAX_LOOKBACK_MS);
+			const transfers: WhaleTransfer[] = [];
+			let cursor: string | undefined;
+
+			for (let page = 0; page < WHALE_ALERT_MAX_PAGES; page++) {
+				const params = new URLSearchParams({
+					api_key: apiKey,
+					min_value: String(Math.floor(context.minUsd)),
+					start: String(Math.floor(start / 1000)),
+					limit: String(WHALE_ALERT_PAGE_SIZE)
+				});
+				if (cursor) params.set('cursor', cursor);
+
+				const data = await fetchJson<WhaleAlertResponse>(`${baseUrl}/transactions?${params}`);
+				if (data.result !== 'success') {
+					throw new Error(data.message || `Whale Alert returned ${data.result}`);
+				}
+
+				const transactions = data.transactions ?? [];
+				for (const tx of transactions) {
+					const transfer = parseWhaleAlertTransaction(tx);
+					if (transfer) transfers.push(transfer);
+				}
+				if (!data.cursor || transactions.length < WHALE_ALERT_PAGE_SIZE) break;
+				cursor = data.cursor;
+			}
+
+			return transfers;
+		}
+	};
+}
+
+// --- Public explorers ---
+
+interface BlockchainInfoOutput {
+	addr?: string;
+	value: number;
+}
+
+interface BlockchainInfoTransaction {
+	hash: string;
+	time: number;
+	inputs: Array<{ prev_out?: BlockchainInfoOutput }>;
+	out: BlockchainInfoOutput[];
+}
+
+interface EthRpcTransaction {
+	hash: string;
+	from: string;
+	to: string | null;
+	value: string;
+}
+
+interface EthRpcBlock {
+	number: string;
+	timestamp: string;
+	transactions: EthRpcTransaction[];
+}
+
+export const BTC_EXPLORER_URL = 'https://blockchain.info';
+export const ETH_RPC_URL = 'https://ethereum-rpc.publicnode.com';
+/** Recent blocks scanned per refresh; Whale Alert is needed for complete coverage */
+const ETH_BLOCKS_PER_FETCH = 5;
+const SATOSHIS_PER_BTC = 1e8;
+
+/**
+ * Sender is the largest input; recipient the largest output not returning change to an input
+ */
+export function parseBtcTransaction(
+	tx: BlockchainInfoTransaction,
+	btcPrice: number,
+	minUsd: number
+): WhaleTransfer | null {
+	const inputs = tx.inputs
+		.map((input) => input.prev_out)
+		.filter((output): output is BlockchainInfoOutput => !!output?.addr)
+		.sort((a, b) => b.value - a.value);
+	if (inputs.length === 0) return null;
+
+	const inputAddresses = new Set(inputs.map((input) => input.addr));
+	const outputs = tx.out.filter((output) => output.addr).sort((a, b) => b.value - a.value);
+	const recipient = outputs.find((output) => !inputAddresses.has(output.addr)) ?? outputs[0];
+	if (!recipient) return null;
+
+	const amount = recipient.value / SATOSHIS_PER_BTC;
+	if (amount * btcPrice < minUsd) return null;
+
+	return {
+		hash: tx.hash,
+		chain: 'bitcoin',
+		token: 'BTC',
+		from: inputs[0].addr as string,
+		to: recipient.addr as string,
+		amount,
+		amountUsd: null,
+		timestamp: tx.time * 1000,
+		type: 'transfer',
+		fromOwner: null,
+		toOwner: null
+	};
+}
+
+/**
+ * Native ETH transfers in a block; token transfers need Whale Alert
+ */
+export function parseEthBlock(
+	block: EthRpcBlock,
+	ethPrice: number,
+	minUsd: number
+): WhaleTransfer[] {
+	const timestamp = Number.parseInt(block.timestamp, 16) * 1000;
+	const transfers: WhaleTransfer[] = [];
+	for (const tx of block.transactions) {
+		if (!tx.to) continue;
+		// wei -> ETH with six decimals kept, without going through a lossy float
+		const amount = Number(BigInt(tx.value) / 10n ** 12n) / 1e6;
+		if (amount <= 0 || amount * ethPrice < minUsd) continue;
+		transfers.push({
+			hash: tx.hash,
+			chain: 'ethereum',
+			token: 'ETH',
+			from: tx.from,
+			to: tx.to,
+			amount,
+			amountUsd: null,
+			timestamp,
+			type: 'transfer',
+			fromOwner: null,
+			toOwner: null
+		});
+	}
+	return transfers;
+}
+
+async function ethRpc<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+	const data = await fetchJson<{ result?: T; error?: { message: string } }>(rpcUrl, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+	});
+	if (data.error || data.result === undefined) {
+		throw new Error(data.error?.message || `${method} returned no result`);
+	}
+	return data.result;
+}
+
+/**
+ * Large BTC transfers from the unconfirmed-transaction feed and native ETH transfers from the
+ * latest blocks. Chains without a known USD price are skipped.
+ */
+export function createExplorerProvider(
+	btcExplorerUrl = BTC_EXPLORER_URL,
+	ethRpcUrl = ETH_RPC_URL
+): WhaleProvider {
+	return {
+		id: 'explorer',
+		async fetchTransfers(context) {
+			const transfers: WhaleTransfer[] = [];
+			const errors: string[] = [];
+			let chains = 0;
+
+			const btcPrice = context.prices.BTC;
+			if (btcPrice > 0) {
+				chains += 1;
+				try {
+					const data = await fetchJson<{ txs?: BlockchainInfoTransaction[] }>(
+						`${btcExplorerUrl}/unconfirmed-transactions?format=json`
+					);
+					for (const tx of data.txs ?? []) {
+						const transfer = parseBtcTransaction(tx, btcPrice, context.minUsd);
+						if (transfer && transfer.timestamp >= context.since) transfers.push(transfer);
+					}
+				} catch (error) {
+					errors.push(`bitcoin: ${error instanceof Error ? error.message : String(error)}`);
+				}
+			}
+
+			const ethPrice = context.prices.ETH;
+			if (ethPrice > 0) {
+				chains += 1;
+				try {
+					const latest = Number.parseInt(
+						await ethRpc<string>(ethRpcUrl, 'eth_blockNumber', []),
+						16
+					);
+					for (let offset = 0; offset < ETH_BLOCKS_PER_FETCH; offset++) {
+						const block = await ethRpc<EthRpcBlock | null>(ethRpcUrl, 'eth_getBlockByNumber', [
+							`0x${(latest - offset).toString(16)}`,
+							true
+						]);
+						if (!block) continue;
+						if (Number.parseInt(block.timestamp, 16) * 1000 < context.since) break;
+						transfers.push(...parseEthBlock(block, ethPrice, context.minUsd));
+					}
+				} catch (error) {
+					errors.push(`ethereum: ${error instanceof Error ? error.message : String(error)}`);
+				}
+			}
+
+			// Partial results are still useful; only fail when every chain failed
+			if (chains > 0 && errors.length === chains) throw new Error(errors.join('; '));
+			return transfers;
+		}
+	};
+}
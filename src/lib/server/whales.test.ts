@@ -0,0 +1,318 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useTestDb } from './test-db';
+
+const NOW = Date.UTC(2026, 9, 12, 14, 0, 0);
+const NOW_SECONDS = NOW / 1000;
+
+const BINANCE_ETH = '0x28C6c06298d514Db089934071355E5743bf21d60';
+const BINANCE_BTC = '34xp4vRoCGJym3xR7yCVPFHoCNxv4Twseo';
+
+// Trimmed from a Whale Alert /v1/transactions response
+const WHALE_ALERT_FIXTURE = {
+	result: 'success',
+	cursor: '2bc7e46-2bc7e46-5c66c0a7',
+	count: 3,
+	transactions: [
+		{
+			blockchain: 'ethereum',
+			symbol: 'usdt',
+			id: '1',
+			transaction_type: 'transfer',
+			hash: '0xa1',
+			from: {
+				address: '0x5041ed759dd4afc3a72b8192c143f72f4724081a',
+				owner: 'unknown',
+				owner_type: 'unknown'
+			},
+			to: { address: '0x0a1b', owner: 'coinbase', owner_type: 'exchange' },
+			timestamp: NOW_SECONDS - 600,
+			amount: 25000000,
+			amount_usd: 25010000,
+			transaction_count: 1
+		},
+		{
+			blockchain: 'tron',
+			symbol: 'usdt',
+			id: '2',
+			transaction_type: 'mint',
+			hash: 'b2',
+			from: { address: '', owner: 'tether_treasury', owner_type: 'unknown' },
+			to: {
+				address: 'TKHuVq1oKVruCGLvqVexFs6dawKv6fQgFs',
+				owner: 'unknown',
+				owner_type: 'unknown'
+			},
+			timestamp: NOW_SECONDS - 300,
+			amount: 1000000000,
+			amount_usd: 1000000000,
+			transaction_count: 1
+		},
+		{
+			blockchain: 'ethereum',
+			symbol: 'usdc',
+			id: '3',
+			transaction_type: 'transfer',
+			hash: '0xc3',
+			from: { address: '0x0c1', owner: 'unknown', owner_type: 'unknown' },
+			to: { address: '0x0c2', owner: 'unknown', owner_type: 'unknown' },
+			timestamp: NOW_SECONDS - 120,
+			amount: 2000000,
+			amount_usd: 2000000,
+			transaction_count: 1
+		}
+	]
+};
+
+// Trimmed from blockchain.info /unconfirmed-transactions?format=json
+const BLOCKCHAIN_INFO_FIXTURE = {
+	txs: [
+		{
+			hash: 'btc-large',
+			time: NOW_SECONDS - 60,
+			inputs: [
+				{ prev_out: { addr: 'bc1qsender', value: 30000000 } },
+				{ prev_out: { addr: 'bc1qsender2', value: 15100000000 } }
+			],
+			out: [
+				{ addr: BINANCE_BTC, value: 15000000000 },
+				{ addr: 'bc1qsender2', value: 129000000 }
+			]
+		},
+		{
+			hash: 'btc-small',
+			time: NOW_SECONDS - 60,
+			inputs: [{ prev_out: { addr: 'bc1qa', value: 200000000 } }],
+			out: [{ addr: 'bc1qb', value: 199990000 }]
+		}
+	]
+};
+
+// Trimmed eth_getBlockByNumber(…, true) result
+const ETH_BLOCK_FIXTURE = {
+	number: '0x1500000',
+	timestamp: `0x${(NOW_SECONDS - 30).toString(16)}`,
+	transactions: [
+		{
+			hash: '0xeth-large',
+			from: BINANCE_ETH,
+			to: '0x00000000000000000000000000000000000000aa',
+			// 2,000 ETH
+			value: '0x6c6b935b8bbd400000'
+		},
+		{
+			hash: '0xeth-small',
+			from: '0x01',
+			to: '0x02',
+			value: '0xde0b6b3a7640000'
+		},
+		{ hash: '0xeth-deploy', from: '0x03', to: null, value: '0x0' }
+	]
+};
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), {
+		status: 200,
+		headers: { 'Content-Type': 'application/json' }
+	});
+}
+
+const CONTEXT = {
+	since: NOW - 3600000,
+	now: NOW,
+	minUsd: 1000000,
+	prices: { BTC: 60000, ETH: 3000 }
+};
+
+describe('whale providers', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('parses Whale Alert transactions and sends the key, threshold and start time', async () => {
+		const { createWhaleAlertProvider } = await import('./whale-providers');
+		const fetchMock = vi.fn(async () => jsonResponse(WHALE_ALERT_FIXTURE));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const transfers = await createWhaleAlertProvider(
+			'secret',
+			'https://whales.test/v1'
+		).fetchTransfers({
+			...CONTEXT,
+			since: NOW - 3 * 3600000
+		});
+
+		const url = new URL(String((fetchMock.mock.calls[0] as unknown[])[0]));
+		expect(url.origin + url.pathname).toBe('https://whales.test/v1/transactions');
+		expect(url.searchParams.get('api_key')).toBe('secret');
+		expect(url.searchParams.get('min_value')).toBe('1000000');
+		// The lookback is clamped to the hour the API serves
+		expect(url.searchParams.get('start')).toBe(String(NOW_SECONDS - 3600));
+
+		expect(transfers).toHaveLength(3);
+		expect(transfers[0]).toEqual({
+			hash: '0xa1',
+			chain: 'ethereum',
+			token: 'USDT',
+			from: '0x5041ed759dd4afc3a72b8192c143f72f4724081a',
+			to: '0x0a1b',
+			amount: 25000000,
+			amountUsd: 25010000,
+			timestamp: (NOW_SECONDS - 600) * 1000,
+			type: 'transfer',
+			fromOwner: null,
+			toOwner: { name: 'Coinbase', exchange: true }
+		});
+		expect(transfers[1]).toMatchObject({
+			type: 'mint',
+			from: 'unknown',
+			fromOwner: { name: 'Tether Treasury', exchange: false }
+		});
+	});
+
+	it('reports Whale Alert errors', async () => {
+		const { createWhaleAlertProvider } = await import('./whale-providers');
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => jsonResponse({ result: 'error', message: 'invalid api_key' }))
+		);
+
+		await expect(createWhaleAlertProvider('bad').fetchTransfers(CONTEXT)).rejects.toThrow(
+			'invalid api_key'
+		);
+	});
+
+	it('extracts large BTC and ETH transfers from explorer JSON', async () => {
+		const { createExplorerProvider } = await import('./whale-providers');
+		const rpcMethods: string[] = [];
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async (input: string | URL, init?: RequestInit) => {
+				const url = String(input);
+				if (url.startsWith('https://btc.test/')) return jsonResponse(BLOCKCHAIN_INFO_FIXTURE);
+				const { method, params } = JSON.parse(String(init?.body));
+				rpcMethods.push(method);
+				if (method === 'eth_blockNumber') {
+					return jsonResponse({ jsonrpc: '2.0', id: 1, result: '0x1500000' });
+				}
+				// Only the latest block is inside the window
+				const block =
+					params[0] === '0x1500000'
+						? ETH_BLOCK_FIXTURE
+						: { ...ETH_BLOCK_FIXTURE, timestamp: `0x${(NOW_SECONDS - 7200).toString(16)}` };
+				return jsonResponse({ jsonrpc: '2.0', id: 1, result: block });
+			})
+		);
+
+		const transfers = await createExplorerProvider(
+			'https://btc.test',
+			'https://eth.test'
+		).fetchTransfers(CONTEXT);
+
+		expect(transfers.map((transfer) => transfer.hash)).toEqual(['btc-large', '0xeth-large']);
+		// The largest input sends; change back to an input address is not the recipient
+		expect(transfers[0]).toMatchObject({
+			chain: 'bitcoin',
+			token: 'BTC',
+			from: 'bc1qsender2',
+			to: BINANCE_BTC,
+			amount: 150,
+			amountUsd: null
+		});
+		expect(transfers[1]).toMatchObject({ chain: 'ethereum', token: 'ETH', amount: 2000 });
+		expect(rpcMethods).toEqual(['eth_blockNumber', 'eth_getBlockByNumber', 'eth_getBlockByNumber']);
+	});
+});
+
+describe('whale pipeline', () => {
+	useTestDb();
+
+	it('applies per-token thresholds and exchange labels', async () => {
+		const { normalizeWhaleTransfer } = await import('./whales');
+		const base = {
+			hash: '0x1',
+			chain: 'ethereum',
+			token: 'eth',
+			from: BINANCE_ETH.toLowerCase(),
+			to: '0x02',
+			amount: 1000,
+			amountUsd: null,
+			timestamp: NOW,
+			type: 'transfer' as const,
+			fromOwner: null,
+			toOwner: { name: 'Kraken', exchange: true }
+		};
+
+		// 1,000 ETH at $3,000 clears the $2.5M ETH threshold
+		expect(normalizeWhaleTransfer(base, 'explorer', { ETH: 3000 })).toMatchObject({
+			id: 'ethereum:0x1:ETH',
+			token: 'ETH',
+			valueUsd: 3000000,
+			fromLabel: 'Binance',
+			toLabel: 'Kraken',
+			flow: 'exchange-internal',
+			source: 'explorer'
+		});
+		expect(normalizeWhaleTransfer(base, 'explorer', { ETH: 2000 })).toBeNull();
+		// Unpriced tokens are dropped
+		expect(normalizeWhaleTransfer(base, 'explorer', {})).toBeNull();
+		expect(
+			normalizeWhaleTransfer({ ...base, toOwner: null }, 'explorer', { ETH: 3000 })?.flow
+		).toBe('exchange-outflow');
+	});
+
+	it('caches provider results and keeps polling after a provider fails', async () => {
+		const { setMarketData, getWhaleTransactions } = await import('./db');
+		const { refreshWhaleTransactions, getWhaleRefreshStatus } = await import('./whales');
+		const { parseWhaleAlertTransaction } = await import('./whale-providers');
+
+		setMarketData('crypto', [
+			{
+				id: 'bitcoin',
+				symbol: 'BTC',
+				name: 'Bitcoin',
+				current_price: 60000,
+				price_change_24h: 0,
+				price_change_percentage_24h: 0
+			}
+		]);
+
+		const contexts: Array<{ since: number }> = [];
+		const working = {
+			id: 'fixture',
+			fetchTransfers: vi.fn(async (context: { since: number }) => {
+				contexts.push(context);
+				return WHALE_ALERT_FIXTURE.transactions.flatMap(
+					(tx) => parseWhaleAlertTransaction(tx) ?? []
+				);
+			})
+		};
+		const failing = {
+			id: 'broken',
+			fetchTransfers: vi.fn(async () => {
+				throw new Error('HTTP 503');
+			})
+		};
+
+		let result = await refreshWhaleTransactions([failing, working], NOW);
+		// The $2M USDC transfer is under the stablecoin threshold
+		expect(result).toEqual({ inserted: 2, errors: ['broken: HTTP 503'] });
+		expect(getWhaleRefreshStatus().errors).toEqual(['broken: HTTP 503']);
+		expect(contexts[0].since).toBe(NOW - 3600000);
+
+		const cached = getWhaleTransactions(10);
+		expect(cached.map((tx) => tx.id)).toEqual(['tron:b2:USDT', 'ethereum:0xa1:USDT']);
+		expect(cached[1]).toMatchObject({
+			toLabel: 'Coinbase',
+			flow: 'exchange-inflow',
+			source: 'fixture'
+		});
+		// Labeled non-exchange wallets do not count as exchange flows
+		expect(cached[0]).toMatchObject({ fromLabel: 'Tether Treasury', flow: 'wallet', type: 'mint' });
+		expect(getWhaleTransactions(10, 'btc')).toEqual([]);
+
+		// The next poll overlaps the previous one and does not duplicate rows
+		result = await refreshWhaleTransactions([working], NOW + 900000);
+		expect(result.inserted).toBe(0);
+		expect(contexts[1].since).toBe(NOW - 5 * 60000);
+	});
+});
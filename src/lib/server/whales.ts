@@ -0,0 +1,179 @@
+/**
+ * Whale transaction pipeline: polls the configured providers, applies per-token USD thresholds
+ * and exchange-wallet labels, and caches the result in SQLite
+ */
+
+import { env as privateEnv } from '$env/dynamic/private';
+import {
+	DEFAULT_WHALE_USD_THRESHOLD,
+	getExchangeLabel,
+	getWhaleThreshold,
+	WHALE_USD_THRESHOLDS
+} from '$lib/config/whales';
+import type { CryptoItem, WhaleFlow, WhaleTransaction } from '$lib/types';
+import { getMarketData, getMeta, insertWhaleTransactions, setMeta } from './db';
+import {
+	BTC_EXPLORER_URL,
+	createExplorerProvider,
+	createWhaleAlertProvider,
+	ETH_RPC_URL,
+	WHALE_ALERT_BASE_URL,
+	type WhaleProvider,
+	type WhaleTransfer,
+	type WhaleWalletOwner
+} from './whale-providers';
+
+export const WHALE_RETENTION_DAYS = 7;
+/** How far back a provider is asked on its first poll */
+const INITIAL_LOOKBACK_MS = 3600000;
+/** Re-request a little before the last poll so late-indexed transfers are not missed */
+const POLL_OVERLAP_MS = 5 * 60000;
+const REFRESH_META_KEY = 'whalesLastRefresh';
+
+export interface WhaleRefreshResult {
+	inserted: number;
+	errors: string[];
+}
+
+/**
+ * Providers enabled by the environment. WHALE_PROVIDERS (comma-separated ids) narrows the set;
+ * Whale Alert needs WHALE_ALERT_API_KEY.
+ */
+export function getWhaleProviders(
+	env: Record<string, string | undefined> = privateEnv
+): WhaleProvider[] {
+	const enabled = env.WHALE_PROVIDERS
+		? new Set(env.WHALE_PROVIDERS.split(',').map((id) => id.trim()))
+		: null;
+	const providers: WhaleProvider[] = [];
+
+	if (env.WHALE_ALERT_API_KEY && (!enabled || enabled.has('whale-alert'))) {
+		providers.push(
+			createWhaleAlertProvider(
+				env.WHALE_ALERT_API_KEY,
+				env.WHALE_ALERT_BASE_URL || WHALE_ALERT_BASE_URL
+			)
+		);
+	}
+	if (!enabled || enabled.has('explorer')) {
+		providers.push(
+			createExplorerProvider(
+				env.BTC_EXPLORER_URL || BTC_EXPLORER_URL,
+				env.ETH_RPC_URL || ETH_RPC_URL
+			)
+		);
+	}
+
+	return providers;
+}
+
+function getFlow(fromExchange: boolean, toExchange: boolean): WhaleFlow {
+	if (fromExchange && toExchange) return 'exchange-internal';
+	if (toExchange) return 'exchange-inflow';
+	if (fromExchange) return 'exchange-outflow';
+	return 'wallet';
+}
+
+/**
+ * Curated exchange labels win over provider attribution
+ */
+function resolveOwner(address: string, owner: WhaleWalletOwner | null): WhaleWalletOwner | null {
+	const exchange = getExchangeLabel(address);
+	return exchange ? { name: exchange, exchange: true } : owner;
+}
+
+/**
+ * Price, threshold and label a provider transfer; null when it is below its token's threshold
+ * or cannot be priced
+ */
+export function normalizeWhaleTransfer(
+	transfer: WhaleTransfer,
+	source: string,
+	prices: Record<string, number>
+): WhaleTransaction | null {
+	const token = transfer.token.toUpperCase();
+	const price = prices[token];
+	const valueUsd = transfer.amountUsd ?? (price > 0 ? transfer.amount * price : null);
+	if (valueUsd === null || valueUsd < getWhaleThreshold(token)) return null;
+
+	const fromOwner = resolveOwner(transfer.from, transfer.fromOwner);
+	const toOwner = resolveOwner(transfer.to, transfer.toOwner);
+
+	return {
+		id: `${transfer.chain}:${transfer.hash}:${token}`,
+		hash: transfer.hash,
+		chain: transfer.chain,
+		from: transfer.from,
+		to: transfer.to,
+		fromLabel: fromOwner?.name ?? null,
+		toLabel: toOwner?.name ?? null,
+		value: transfer.amount,
+		valueUsd,
+		token,
+		timestamp: transfer.timestamp,
+		type: transfer.type,
+		flow: getFlow(!!fromOwner?.exchange, !!toOwner?.exchange),
+		source
+	};
+}
+
+function getCryptoPrices(): Record<string, number> {
+	const prices: Record<string, number> = { USDT: 1, USDC: 1, DAI: 1 };
+	for (const item of getMarketData<CryptoItem[]>('crypto')?.data ?? []) {
+		if (item.current_price > 0) prices[item.symbol.toUpperCase()] = item.current_price;
+	}
+	return prices;
+}
+
+let inFlight: Promise<WhaleRefreshResult> | null = null;
+
+async function runRefresh(providers: WhaleProvider[], now: number): Promise<WhaleRefreshResult> {
+	const prices = getCryptoPrices();
+	const minUsd = Math.min(DEFAULT_WHALE_USD_THRESHOLD, ...Object.values(WHALE_USD_THRESHOLDS));
+	const result: WhaleRefreshResult = { inserted: 0, errors: [] };
+
+	for (const provider of providers) {
+		const metaKey = `whales:${provider.id}:lastPoll`;
+		const lastPoll = getMeta<number>(metaKey)?.value;
+		const since = lastPoll ? lastPoll - POLL_OVERLAP_MS : now - INITIAL_LOOKBACK_MS;
+
+		try {
+			const transfers = await provider.fetchTransfers({ since, now, minUsd, prices });
+			const transactions = transfers
+				.map((transfer) => normalizeWhaleTransfer(transfer, provider.id, prices))
+				.filter((tx): tx is WhaleTransaction => tx !== null);
+			result.inserted += insertWhaleTransactions(transactions);
+			setMeta(metaKey, now);
+		} catch (error) {
+			result.errors.push(
+				`${provider.id}: ${error instanceof Error ? error.message : String(error)}`
+			);
+		}
+	}
+
+	setMeta(REFRESH_META_KEY, result.errors);
+	return result;
+}
+
+/**
+ * Poll every provider once; concurrent callers share the same run
+ */
+export function refreshWhaleTransactions(
+	providers: WhaleProvider[] = getWhaleProviders(),
+	now = Date.now()
+): Promise<WhaleRefreshResult> {
+	if (!inFlight) {
+		inFlight = runRefresh(providers, now).finally(() => {
+			inFlight = null;
+		});
+	}
+	return inFlight;
+}
+
+/**
+ * Time of the last completed refresh and the provider errors it recorded
+ */
+export function getWhaleRefreshStatus(): { updatedAt: number | null; errors: string[] } {
+	const meta = getMeta<string[]>(REFRESH_META_KEY);
+	return { updatedAt: meta?.updatedAt ?? null, errors: meta?.value ?? [] };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { geocodeNewsItem, geocodeText } from './geocoder';
+
+describe('geocodeText', () => {
+	it('prefers the most specific place a headline names', () => {
+		expect(geocodeText('Russia launches drones at Kharkiv overnight')).toMatchObject({
+			name: 'Kharkiv',
+			countryCode: 'UA'
+		});
+		expect(geocodeText('Iran warns tankers near Strait of Hormuz')?.name).toBe('Hormuz');
+		expect(geocodeText('Brazil and Argentina sign trade pact')).toMatchObject({
+			name: 'Brazil',
+			countryCode: 'BR'
+		});
+	});
+
+	it('matches longer names before the places they contain', () => {
+		expect(geocodeText('Protests spread across Mexico City')?.name).toBe('Mexico City');
+		expect(geocodeText('El Salvador extends state of emergency')?.countryCode).toBe('SV');
+		expect(geocodeText('Panama Canal traffic slows')?.name).toBe('Panama');
+		expect(geocodeText('Panama Canal traffic slows')?.kind).toBe('landmark');
+		expect(geocodeText('Panama holds elections')?.kind).toBe('country');
+	});
+
+	it('knows Portuguese names and map landmarks', () => {
+		expect(geocodeText('Ucrânia e Rússia retomam negociações')?.countryCode).toBe('UA');
+		expect(geocodeText('Casa Branca anuncia novas tarifas')).toMatchObject({
+			name: 'DC',
+			countryCode: 'US'
+		});
+		expect(geocodeText('Ceasefire talks resume for Gaza')?.countryCode).toBe('PS');
+	});
+
+	it('ignores words that merely contain a place name', () => {
+		expect(geocodeText('Chinatown festival draws crowds')).toBeNull();
+		expect(geocodeText('Markets rally on strong earnings')).toBeNull();
+	});
+});
+
+describe('geocodeNewsItem', () => {
+	it('falls back from the title to the translation and the description', () => {
+		expect(geocodeNewsItem({ title: 'Storm hits Tokyo' })).toEqual({
+			lat: 35.68,
+			lon: 139.69,
+			countryCode: 'JP',
+			place: 'Tokyo'
+		});
+		expect(
+			geocodeNewsItem({ title: 'Ataque con misiles', translatedTitle: 'Missile attack on Odesa' })
+				.place
+		).toBe('Odesa');
+		expect(
+			geocodeNewsItem({ title: 'Talks collapse', description: 'Negotiators left Geneva early' })
+				.place
+		).toBe('Geneva');
+		expect(geocodeNewsItem({ title: 'Markets rally' })).toEqual({});
+	});
+});
@@ -0,0 +1,66 @@
+/**
+ * Gazetteer geocoder - pins headlines to the places they name
+ */
+
+import { GEO_GAZETTEER, GEO_KIND_PRIORITY, type GeoPlace } from '$lib/config/geocoder';
+import type { NewsItem } from '$lib/types';
+import { escapeRegExp } from '$lib/utils/format';
+
+export type NewsLocation = Pick<NewsItem, 'lat' | 'lon' | 'countryCode' | 'place'>;
+
+// An alias shared by a country and a map landmark (Panama) belongs to the country; longer
+// aliases come first in the alternation so "Mexico City" is not read as Mexico
+const PLACE_BY_ALIAS = new Map<string, GeoPlace>();
+for (const place of GEO_GAZETTEER) {
+	for (const alias of [place.name, ...(place.aliases ?? [])]) {
+		const existing = PLACE_BY_ALIAS.get(alias);
+		if (!existing || place.kind === 'country') PLACE_BY_ALIAS.set(alias, place);
+	}
+}
+
+const PLACE_PATTERN = new RegExp(
+	`(?<![\\p{L}\\p{N}_])(?:${[...PLACE_BY_ALIAS.keys()]
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegExp)
+		.join('|')})(?![\\p{L}\\p{N}_])`,
+	'gu'
+);
+
+/**
+ * Most specific place named in `text` (city over landmark over country); the earliest mention
+ * breaks ties. Null when no known place is named.
+ */
+export function geocodeText(text: string): GeoPlace | null {
+	let best: GeoPlace | null = null;
+	for (const match of text.matchAll(PLACE_PATTERN)) {
+		const place = PLACE_BY_ALIAS.get(match[0]);
+		if (!place) continue;
+		if (!best || GEO_KIND_PRIORITY[place.kind] > GEO_KIND_PRIORITY[best.kind]) best = place;
+	}
+	return best;
+}
+
+/**
+ * Location fields for a news item, geocoded from the title, then its translation, then the
+ * description; empty when none of them names a known place
+ */
+export function geocodeNewsItem(
+	item: Pick<NewsItem, 'title' | 'description' | 'translatedTitle'>
+): NewsLocation {
+	for (const text of [item.title, item.translatedTitle, item.description]) {
+		const place = text ? geocodeText(text) : null;
+		if (place) {
+			return { lat: place.lat, lon: place.lon, countryCode: place.countryCode, place: place.name };
+		}
+	}
+	return {};
+}
+
+/**
+ * Whether a news item carries a map position
+ */
+export function hasNewsLocation(
+	item: NewsItem
+): item is NewsItem & Required<Pick<NewsItem, 'lat' | 'lon'>> {
+	return typeof item.lat === 'number' && typeof item.lon === 'number';
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+	geofenceContains,
+	getDistanceKm,
+	getGeofenceBounds,
+	isInsideGeofence,
+	normalizeGeofence
+} from './geofence';
+
+// Clockwise, as a user may click the corners
+const TRIANGLE: GeoJSON.Position[] = [
+	[55, 25],
+	[56, 28],
+	[58, 25]
+];
+
+describe('normalizeGeofence', () => {
+	it('validates radius fences', () => {
+		expect(normalizeGeofence({ type: 'radius', lat: 26.6, lon: 56.3, radiusKm: 200 })).toEqual({
+			type: 'radius',
+			lat: 26.6,
+			lon: 56.3,
+			radiusKm: 200
+		});
+		expect(normalizeGeofence({ type: 'radius', lat: 95, lon: 0, radiusKm: 10 })).toBeNull();
+		expect(normalizeGeofence({ type: 'radius', lat: 0, lon: 0, radiusKm: 0 })).toBeNull();
+		expect(normalizeGeofence({ type: 'radius', lat: 0, lon: 0, radiusKm: 1e6 })).toBeNull();
+		expect(normalizeGeofence({ type: 'circle' })).toBeNull();
+	});
+
+	it('closes polygon rings and winds them counterclockwise', () => {
+		expect(normalizeGeofence({ type: 'polygon', coordinates: TRIANGLE })).toEqual({
+			type: 'polygon',
+			coordinates: [
+				[55, 25],
+				[58, 25],
+				[56, 28],
+				[55, 25]
+			]
+		});
+		expect(normalizeGeofence({ type: 'polygon', coordinates: TRIANGLE.slice(0, 2) })).toBeNull();
+		expect(
+			normalizeGeofence({
+				type: 'polygon',
+				coordinates: [
+					[0, 0],
+					[1, 'x'],
+					[2, 2]
+				]
+			})
+		).toBeNull();
+	});
+});
+
+describe('geofenceContains', () => {
+	it('tests points against a radius by great-circle distance', () => {
+		const fence = { type: 'radius', lat: 26.6, lon: 56.3, radiusKm: 200 } as const;
+		expect(getDistanceKm(26.6, 56.3, 26.6, 57.3)).toBeCloseTo(99.4, 0);
+		expect(geofenceContains(fence, 26.6, 57.3)).toBe(true);
+		expect(geofenceContains(fence, 29, 56.3)).toBe(false);
+		expect(isInsideGeofence(fence, { lat: 26.7, lon: 56.2 })).toBe(true);
+		expect(isInsideGeofence(fence, {})).toBe(false);
+	});
+
+	it('tests points against a drawn polygon', () => {
+		const fence = normalizeGeofence({ type: 'polygon', coordinates: TRIANGLE })!;
+		expect(geofenceContains(fence, 26, 56)).toBe(true);
+		expect(geofenceContains(fence, 27.5, 57.5)).toBe(false);
+	});
+});
+
+describe('getGeofenceBounds', () => {
+	it('widens radius bounds to every longitude across the antimeridian or a pole', () => {
+		const [west, south, east, north] = getGeofenceBounds({
+			type: 'radius',
+			lat: 0,
+			lon: 0,
+			radiusKm: 111.19
+		});
+		expect([west, south, east, north].map((value) => Math.round(value))).toEqual([-1, -1, 1, 1]);
+		expect(getGeofenceBounds({ type: 'radius', lat: 0, lon: 179.5, radiusKm: 200 })[0]).toBe(-180);
+		expect(getGeofenceBounds({ type: 'radius', lat: 89, lon: 0, radiusKm: 500 })).toEqual([
+			-180,
+			89 - 500 / 111.19492664455873,
+			180,
+			90
+		]);
+	});
+});
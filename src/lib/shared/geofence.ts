@@ -0,0 +1,131 @@
+/**
+ * Monitor geofences - validates radius and polygon areas and tests located items against them
+ */
+
+import { MAX_GEOFENCE_RADIUS_KM, MAX_GEOFENCE_VERTICES } from '$lib/config/monitors';
+import type { MonitorGeofence } from '$lib/types';
+import {
+	boundsContain,
+	geometryContains,
+	getGeometryBounds,
+	rewindGeometry,
+	type MapLayerBounds
+} from './map-layers';
+
+const EARTH_RADIUS_KM = 6371;
+/** Great-circle km per degree of arc */
+export const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+function isLatitude(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= 90;
+}
+
+function isLongitude(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= 180;
+}
+
+function toRing(value: unknown): GeoJSON.Position[] | null {
+	if (!Array.isArray(value)) return null;
+	const ring: GeoJSON.Position[] = [];
+	for (const position of value) {
+		if (!Array.isArray(position) || !isLongitude(position[0]) || !isLatitude(position[1])) {
+			return null;
+		}
+		ring.push([position[0], position[1]]);
+	}
+
+	const [first, last] = [ring[0], ring[ring.length - 1]];
+	if (first && (first[0] !== last[0] || first[1] !== last[1])) ring.push([...first]);
+	// A triangle is the smallest area: three corners plus the closing position
+	return ring.length >= 4 && ring.length <= MAX_GEOFENCE_VERTICES + 1 ? ring : null;
+}
+
+/**
+ * Validate a geofence from a client; polygons come back closed and wound counterclockwise.
+ * Returns null when the value is not a usable area.
+ */
+export function normalizeGeofence(value: unknown): MonitorGeofence | null {
+	if (!value || typeof value !== 'object') return null;
+	const fence = value as Record<string, unknown>;
+
+	if (fence.type === 'radius') {
+		const radiusKm = fence.radiusKm;
+		if (!isLatitude(fence.lat) || !isLongitude(fence.lon) || typeof radiusKm !== 'number') {
+			return null;
+		}
+		if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_GEOFENCE_RADIUS_KM) {
+			return null;
+		}
+		return { type: 'radius', lat: fence.lat, lon: fence.lon, radiusKm };
+	}
+
+	if (fence.type === 'polygon') {
+		const ring = toRing(fence.coordinates);
+		if (!ring) return null;
+		const polygon = rewindGeometry({ type: 'Polygon', coordinates: [ring] }, false);
+		return { type: 'polygon', coordinates: polygon.coordinates[0] };
+	}
+
+	return null;
+}
+
+/**
+ * Great-circle distance between two points, in km
+ */
+export function getDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+	const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+	const dLat = toRadians(lat2 - lat1);
+	const dLon = toRadians(lon2 - lon1);
+	const a =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+	return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function geofenceToPolygon(
+	fence: Extract<MonitorGeofence, { type: 'polygon' }>
+): GeoJSON.Polygon {
+	return { type: 'Polygon', coordinates: [fence.coordinates] };
+}
+
+/**
+ * Box around a geofence, for a cheap first test (and a SQL prefilter on the server).
+ * A radius reaching a pole or the antimeridian widens to every longitude.
+ */
+export function getGeofenceBounds(fence: MonitorGeofence): MapLayerBounds {
+	if (fence.type === 'polygon') return getGeometryBounds(geofenceToPolygon(fence));
+
+	const dLat = fence.radiusKm / KM_PER_DEGREE;
+	const south = Math.max(-90, fence.lat - dLat);
+	const north = Math.min(90, fence.lat + dLat);
+	if (south === -90 || north === 90) return [-180, south, 180, north];
+
+	const widest = Math.max(Math.abs(south), Math.abs(north));
+	const dLon = dLat / Math.cos((widest * Math.PI) / 180);
+	const west = fence.lon - dLon;
+	const east = fence.lon + dLon;
+	return west < -180 || east > 180 ? [-180, south, 180, north] : [west, south, east, north];
+}
+
+/**
+ * Whether a point lies inside a geofence
+ */
+export function geofenceContains(fence: MonitorGeofence, lat: number, lon: number): boolean {
+	if (!boundsContain(getGeofenceBounds(fence), lon, lat)) return false;
+	if (fence.type === 'radius') {
+		return getDistanceKm(fence.lat, fence.lon, lat, lon) <= fence.radiusKm;
+	}
+	return geometryContains(geofenceToPolygon(fence), lon, lat);
+}
+
+/**
+ * Whether an item is inside a monitor's geofence; items without a location never are
+ */
+export function isInsideGeofence(
+	fence: MonitorGeofence,
+	item: { lat?: number; lon?: number }
+): boolean {
+	return (
+		item.lat !== undefined && item.lon !== undefined && geofenceContains(fence, item.lat, item.lon)
+	);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, normalizeLanguageTag } from './language';
+
+describe('language detection', () => {
+	it('tells English, Spanish and Portuguese headlines apart', () => {
+		expect(detectLanguage('Ukraine war escalates with missile strike on the capital')).toBe('en');
+		expect(detectLanguage('El gobierno de México anuncia nuevas sanciones contra la empresa')).toBe(
+			'es'
+		);
+		expect(detectLanguage('Governo anuncia cortes no orçamento após reunião com os aliados')).toBe(
+			'pt'
+		);
+	});
+
+	it('detects non-Latin scripts and separates Persian from Arabic', () => {
+		expect(detectLanguage('حمله موشکی به پایگاه نظامی در سوریه')).toBe('fa');
+		expect(detectLanguage('هجوم صاروخي على قاعدة عسكرية في سوريا')).toBe('ar');
+		expect(detectLanguage('Россия и Китай подписали соглашение')).toBe('ru');
+	});
+
+	it('falls back to the hint when the text is inconclusive', () => {
+		expect(detectLanguage('Petrobras', 'pt')).toBe('pt');
+		expect(detectLanguage('Lula', null)).toBeNull();
+		// "de" and "para" are shared by Spanish and Portuguese
+		expect(detectLanguage('Reforma de Lula para 2026', 'pt')).toBe('pt');
+	});
+
+	it('normalizes feed language tags and API language names', () => {
+		expect(normalizeLanguageTag('pt-BR')).toBe('pt');
+		expect(normalizeLanguageTag('en-us')).toBe('en');
+		expect(normalizeLanguageTag('Spanish')).toBe('es');
+		expect(normalizeLanguageTag('xx')).toBeNull();
+		expect(normalizeLanguageTag(undefined)).toBeNull();
+	});
+});
@@ -0,0 +1,89 @@
+/**
+ * Headline language detection - script ranges, then function-word counts for Latin scripts
+ */
+
+import {
+	LANGUAGE_MARKER_LETTERS,
+	LANGUAGE_MIN_STOPWORD_HITS,
+	LANGUAGE_STOPWORDS,
+	NEWS_LANGUAGES
+} from '$lib/config/languages';
+import type { NewsLanguage } from '$lib/types';
+
+const STOPWORD_SETS = Object.entries(LANGUAGE_STOPWORDS).map(
+	([lang, words]) => [lang as NewsLanguage, new Set(words)] as const
+);
+
+/** Letters of the Persian alphabet that Arabic does not use (پ چ ژ گ ک ی) */
+const PERSIAN_LETTERS = /[پچژگکی]/;
+/** Cyrillic letters used in Ukrainian but not in Russian (і ї є ґ) */
+const UKRAINIAN_LETTERS = /[іїєґІЇЄҐ]/;
+
+const SCRIPTS: Array<{ pattern: RegExp; detect: (text: string) => NewsLanguage }> = [
+	{ pattern: /[؀-ۿ]/g, detect: (text) => (PERSIAN_LETTERS.test(text) ? 'fa' : 'ar') },
+	{ pattern: /[Ѐ-ӿ]/g, detect: (text) => (UKRAINIAN_LETTERS.test(text) ? 'uk' : 'ru') },
+	{ pattern: /[֐-׿]/g, detect: () => 'he' },
+	{ pattern: /[가-힯]/g, detect: () => 'ko' },
+	{ pattern: /[぀-ヿ]/g, detect: () => 'ja' },
+	{ pattern: /[一-鿿]/g, detect: () => 'zh' }
+];
+
+/**
+ * Map a feed or API language tag ("pt-BR", "en-us", "Spanish") to a supported code
+ */
+export function normalizeLanguageTag(tag: string | null | undefined): NewsLanguage | null {
+	if (!tag) return null;
+	const value = tag.trim().toLowerCase();
+	const code = value.split(/[-_]/)[0];
+	if (NEWS_LANGUAGES.includes(code as NewsLanguage)) return code as NewsLanguage;
+
+	const byName: Record<string, NewsLanguage> = {
+		english: 'en',
+		spanish: 'es',
+		portuguese: 'pt',
+		french: 'fr',
+		german: 'de',
+		italian: 'it',
+		persian: 'fa',
+		farsi: 'fa',
+		arabic: 'ar',
+		russian: 'ru',
+		ukrainian: 'uk',
+		hebrew: 'he',
+		chinese: 'zh',
+		japanese: 'ja',
+		korean: 'ko'
+	};
+	return byName[value] ?? null;
+}
+
+/**
+ * Detect the language of a headline. Non-Latin scripts decide on their own once they make up a
+ * third of the letters; Latin text goes to the language with the most function words. `hint`
+ * (typically the feed's declared language) is returned when the text is inconclusive.
+ */
+export function detectLanguage(
+	text: string,
+	hint: NewsLanguage | null = null
+): NewsLanguage | null {
+	const letters = text.match(/\p{L}/gu)?.length ?? 0;
+	if (letters === 0) return hint;
+
+	for (const script of SCRIPTS) {
+		const count = text.match(script.pattern)?.length ?? 0;
+		if (count / letters >= 1 / 3) return script.detect(text);
+	}
+
+	const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+	const scores = STOPWORD_SETS.map(([lang, stopwords]) => {
+		let score = words.filter((word) => stopwords.has(word)).length;
+		if (LANGUAGE_MARKER_LETTERS[lang]?.test(text.toLowerCase())) score += 2;
+		return { lang, score };
+	}).sort((a, b) => b.score - a.score);
+
+	const [best, runnerUp] = scores;
+	if (!best || best.score < LANGUAGE_MIN_STOPWORD_HITS) return hint;
+	// Shared words ("de", "que", "para") tie Spanish and Portuguese; the hint settles it
+	if (runnerUp && runnerUp.score === best.score) return hint;
+	return best.lang;
+}
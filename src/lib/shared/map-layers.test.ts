@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import { CONFLICT_ZONES, MILITARY_BASES, PIPELINES } from '$lib/config/map';
+import {
+	builtInLayerToGeoJson,
+	detectMapLayerFormat,
+	geometryContains,
+	getFeatureStyle,
+	parseGeoJson,
+	parseKml,
+	rewindGeometry
+} from './map-layers';
+
+const SQUARE: GeoJSON.Position[] = [
+	[10, 10],
+	[20, 10],
+	[20, 20],
+	[10, 20],
+	[10, 10]
+];
+
+describe('parseGeoJson', () => {
+	it('normalizes features, bare geometries and geometry collections', () => {
+		const collection = parseGeoJson(
+			JSON.stringify({
+				type: 'FeatureCollection',
+				features: [
+					{
+						type: 'Feature',
+						id: 'aoi',
+						properties: { name: 'AOI', fill: '#ff0000' },
+						geometry: { type: 'Polygon', coordinates: [SQUARE.slice(0, 4)] }
+					},
+					{
+						type: 'Feature',
+						properties: null,
+						geometry: {
+							type: 'GeometryCollection',
+							geometries: [
+								{ type: 'Point', coordinates: [1, 2, 300] },
+								{ type: 'LineString', coordinates: [[0, 0]] }
+							]
+						}
+					},
+					{ type: 'Feature', properties: {}, geometry: null }
+				]
+			})
+		);
+		expect(collection?.features).toEqual([
+			{
+				type: 'Feature',
+				id: 'aoi',
+				properties: { name: 'AOI', fill: '#ff0000' },
+				// The open ring is closed
+				geometry: { type: 'Polygon', coordinates: [SQUARE] }
+			},
+			{ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [1, 2] } }
+		]);
+		expect(parseGeoJson('{"type":"Point","coordinates":[5,5]}')?.features).toHaveLength(1);
+	});
+
+	it('rejects documents that are not GeoJSON', () => {
+		expect(parseGeoJson('not json')).toBeNull();
+		expect(parseGeoJson('{"hello":"world"}')).toBeNull();
+		expect(parseGeoJson('{"type":"Point","coordinates":[500,5]}')?.features).toEqual([]);
+	});
+});
+
+describe('parseKml', () => {
+	it('reads placemarks with shared and inline styles and extended data', () => {
+		const kml = `<?xml version="1.0" encoding="UTF-8"?>
+			<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+				<Style id="zone"><LineStyle><color>ff0000ff</color><width>2</width></LineStyle>
+					<PolyStyle><color>7f00ff00</color></PolyStyle></Style>
+				<StyleMap id="zoneMap"><Pair><key>normal</key><styleUrl>#zone</styleUrl></Pair></StyleMap>
+				<Placemark>
+					<name>Port &amp; Terminal</name>
+					<styleUrl>#zoneMap</styleUrl>
+					<ExtendedData><Data name="owner"><value>Acme</value></Data></ExtendedData>
+					<Polygon><outerBoundaryIs><LinearRing><coordinates>
+						10,10,0 20,10,0 20,20,0 10,20,0 10,10,0
+					</coordinates></LinearRing></outerBoundaryIs>
+					<innerBoundaryIs><LinearRing><coordinates>
+						14,14 16,14 16,16 14,16 14,14
+					</coordinates></LinearRing></innerBoundaryIs></Polygon>
+				</Placemark>
+				<Placemark>
+					<name><![CDATA[Site <b>A</b>]]></name>
+					<Style><IconStyle><color>ff00ffff</color></IconStyle></Style>
+					<MultiGeometry><Point><coordinates>1,2</coordinates></Point>
+						<LineString><coordinates>0,0 1,1</coordinates></LineString></MultiGeometry>
+				</Placemark>
+			</Document></kml>`;
+
+		const features = parseKml(kml)?.features ?? [];
+		expect(features).toHaveLength(3);
+		expect(features[0].properties).toEqual({
+			name: 'Port & Terminal',
+			owner: 'Acme',
+			stroke: '#ff0000',
+			'stroke-opacity': 1,
+			'stroke-width': 2,
+			fill: '#00ff00',
+			'fill-opacity': 0.5
+		});
+		expect(features[0].geometry.type).toBe('Polygon');
+		expect((features[0].geometry as GeoJSON.Polygon).coordinates).toHaveLength(2);
+		expect(features[1]).toMatchObject({
+			properties: { name: 'Site <b>A</b>', 'marker-color': '#ffff00' },
+			geometry: { type: 'Point', coordinates: [1, 2] }
+		});
+		expect(features[2].geometry.type).toBe('LineString');
+	});
+
+	it('returns null for text that is not KML', () => {
+		expect(parseKml('{"type":"FeatureCollection","features":[]}')).toBeNull();
+	});
+});
+
+describe('geometryContains', () => {
+	it('tests points against polygon rings and their holes', () => {
+		const polygon: GeoJSON.Polygon = {
+			type: 'Polygon',
+			coordinates: [
+				SQUARE,
+				[
+					[14, 14],
+					[16, 14],
+					[16, 16],
+					[14, 16],
+					[14, 14]
+				]
+			]
+		};
+		expect(geometryContains(polygon, 12, 12)).toBe(true);
+		expect(geometryContains(polygon, 15, 15)).toBe(false);
+		expect(geometryContains(polygon, 25, 12)).toBe(false);
+		expect(geometryContains({ type: 'Point', coordinates: [12, 12] }, 12, 12)).toBe(false);
+	});
+});
+
+describe('rewindGeometry', () => {
+	it('winds exterior rings counterclockwise for GeoJSON and clockwise for d3', () => {
+		const polygon: GeoJSON.Polygon = { type: 'Polygon', coordinates: [SQUARE] };
+		expect(rewindGeometry(polygon, false).coordinates[0]).toEqual(SQUARE);
+		expect(rewindGeometry(polygon, true).coordinates[0]).toEqual([...SQUARE].reverse());
+	});
+});
+
+describe('getFeatureStyle', () => {
+	it('reads simplestyle properties and falls back to the layer color', () => {
+		const style = getFeatureStyle(
+			{
+				type: 'Feature',
+				properties: { stroke: '#123456', 'fill-opacity': '0.4', 'marker-size': 'large' },
+				geometry: { type: 'Point', coordinates: [0, 0] }
+			},
+			'#abcdef'
+		);
+		expect(style).toMatchObject({
+			stroke: '#123456',
+			fill: '#123456',
+			fillOpacity: 0.4,
+			markerColor: '#abcdef',
+			markerRadius: 6
+		});
+	});
+});
+
+describe('builtInLayerToGeoJson', () => {
+	it('exports conflict zones, pipelines and military bases', () => {
+		const zones = builtInLayerToGeoJson('conflictZones');
+		expect(zones.features).toHaveLength(CONFLICT_ZONES.length);
+		expect(zones.features[0]).toMatchObject({
+			properties: { name: CONFLICT_ZONES[0].name },
+			geometry: { type: 'Polygon' }
+		});
+
+		const pipelines = builtInLayerToGeoJson('pipelines');
+		expect(pipelines.features).toHaveLength(PIPELINES.length);
+		expect(pipelines.features[0].geometry).toEqual({
+			type: 'LineString',
+			coordinates: PIPELINES[0].points
+		});
+
+		const bases = builtInLayerToGeoJson('militaryBases');
+		expect(bases.features[0]).toMatchObject({
+			properties: { name: MILITARY_BASES[0].name },
+			geometry: { type: 'Point', coordinates: [MILITARY_BASES[0].lon, MILITARY_BASES[0].lat] }
+		});
+	});
+});
+
+describe('detectMapLayerFormat', () => {
+	it('picks the format from the file extension', () => {
+		expect(detectMapLayerFormat('sites.GeoJSON')).toBe('geojson');
+		expect(detectMapLayerFormat('areas.json')).toBe('geojson');
+		expect(detectMapLayerFormat('aoi.kml')).toBe('kml');
+		expect(detectMapLayerFormat('aoi.kmz')).toBeNull();
+	});
+});
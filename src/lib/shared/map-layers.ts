@@ -0,0 +1,689 @@
+/**
+ * Map layer files - GeoJSON and KML import, point-in-polygon tests and GeoJSON export
+ */
+
+import {
+	AI_DATACENTERS,
+	CABLE_LANDINGS,
+	CHOKEPOINTS,
+	CONFLICT_ZONES,
+	HOTSPOTS,
+	MILITARY_BASES,
+	NUCLEAR_SITES,
+	PIPELINES,
+	PIPELINE_COLORS,
+	SUBMARINE_CABLES,
+	THREAT_COLORS
+} from '$lib/config/map';
+import { MAP_LAYER_DEFAULT_COLOR, MAP_LAYER_FILE_EXTENSIONS } from '$lib/config/map-layers';
+import type {
+	MapLayerFeature,
+	MapLayerFeatureCollection,
+	MapLayerFormat,
+	MapLayerGeometry
+} from '$lib/types';
+
+type Position = [number, number];
+
+/** West, south, east, north */
+export type MapLayerBounds = [number, number, number, number];
+
+/**
+ * Rendering style of a feature, from its simplestyle properties (stroke, fill, marker-color...)
+ */
+export interface MapFeatureStyle {
+	stroke: string;
+	strokeWidth: number;
+	strokeOpacity: number;
+	fill: string;
+	fillOpacity: number;
+	markerColor: string;
+	markerRadius: number;
+}
+
+/** Built-in layers that can be exported, keyed like MapLayersState */
+export type BuiltInMapLayer =
+	| 'hotspots'
+	| 'conflictZones'
+	| 'chokepoints'
+	| 'pipelines'
+	| 'submarineCables'
+	| 'cableLandings'
+	| 'nuclearSites'
+	| 'militaryBases'
+	| 'aiDataCenters';
+
+export const BUILT_IN_EXPORT_LAYERS: BuiltInMapLayer[] = [
+	'hotspots',
+	'conflictZones',
+	'chokepoints',
+	'pipelines',
+	'submarineCables',
+	'cableLandings',
+	'nuclearSites',
+	'militaryBases',
+	'aiDataCenters'
+];
+
+const MARKER_RADII: Record<string, number> = { small: 3, medium: 4.5, large: 6 };
+const COLOR_PATTERN = /^(?:#[0-9a-f]{3,8}|[a-z]+|rgba?\([\d\s.,%]+\))$/i;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// --- GeoJSON ---
+
+function toPosition(value: unknown): Position | null {
+	if (!Array.isArray(value) || value.length < 2) return null;
+	const [lon, lat] = value;
+	if (typeof lon !== 'number' || typeof lat !== 'number') return null;
+	if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null;
+	if (Math.abs(lon) > 180 || Math.abs(lat) > 90) return null;
+	// Altitude is dropped; the globe is flat to it
+	return [lon, lat];
+}
+
+function toPositions(value: unknown, minLength: number): Position[] | null {
+	if (!Array.isArray(value) || value.length < minLength) return null;
+	const positions: Position[] = [];
+	for (const entry of value) {
+		const position = toPosition(entry);
+		if (!position) return null;
+		positions.push(position);
+	}
+	return positions;
+}
+
+/** A linear ring, closed if the file left it open */
+function toRing(value: unknown): Position[] | null {
+	const ring = toPositions(value, 3);
+	if (!ring) return null;
+	const [first, last] = [ring[0], ring[ring.length - 1]];
+	if (first[0] !== last[0] || first[1] !== last[1]) ring.push([first[0], first[1]]);
+	return ring.length >= 4 ? ring : null;
+}
+
+function toRings(value: unknown): Position[][] | null {
+	if (!Array.isArray(value) || value.length === 0) return null;
+	const rings: Position[][] = [];
+	for (const entry of value) {
+		const ring = toRing(entry);
+		if (!ring) return null;
+		rings.push(ring);
+	}
+	return rings;
+}
+
+function toList<T>(value: unknown, read: (entry: unknown) => T | null): T[] | null {
+	if (!Array.isArray(value) || value.length === 0) return null;
+	const list: T[] = [];
+	for (const entry of value) {
+		const item = read(entry);
+		if (!item) return null;
+		list.push(item);
+	}
+	return list;
+}
+
+/**
+ * Geometries of a GeoJSON geometry object; a GeometryCollection yields its members. Empty
+ * when the geometry is missing or malformed.
+ */
+function toGeometries(value: unknown): MapLayerGeometry[] {
+	if (!isRecord(value)) return [];
+	const { coordinates } = value;
+	switch (value.type) {
+		case 'Point': {
+			const point = toPosition(coordinates);
+			return point ? [{ type: 'Point', coordinates: point }] : [];
+		}
+		case 'MultiPoint': {
+			const points = toList(coordinates, toPosition);
+			return points ? [{ type: 'MultiPoint', coordinates: points }] : [];
+		}
+		case 'LineString': {
+			const line = toPositions(coordinates, 2);
+			return line ? [{ type: 'LineString', coordinates: line }] : [];
+		}
+		case 'MultiLineString': {
+			const lines = toList(coordinates, (entry) => toPositions(entry, 2));
+			return lines ? [{ type: 'MultiLineString', coordinates: lines }] : [];
+		}
+		case 'Polygon': {
+			const rings = toRings(coordinates);
+			return rings ? [{ type: 'Polygon', coordinates: rings }] : [];
+		}
+		case 'MultiPolygon': {
+			const polygons = toList(coordinates, toRings);
+			return polygons ? [{ type: 'MultiPolygon', coordinates: polygons }] : [];
+		}
+		case 'GeometryCollection':
+			return Array.isArray(value.geometries) ? value.geometries.flatMap(toGeometries) : [];
+		default:
+			return [];
+	}
+}
+
+function toFeatures(value: unknown): MapLayerFeature[] {
+	if (!isRecord(value) || value.type !== 'Feature') return [];
+	const properties = isRecord(value.properties) ? { ...value.properties } : {};
+	const id = typeof value.id === 'string' || typeof value.id === 'number' ? value.id : undefined;
+	return toGeometries(value.geometry).map((geometry) => ({
+		type: 'Feature',
+		...(id !== undefined ? { id } : {}),
+		properties,
+		geometry
+	}));
+}
+
+/**
+ * Normalize a parsed GeoJSON document (FeatureCollection, Feature or bare geometry) into a
+ * FeatureCollection. Features with missing or malformed geometry are dropped; null when the
+ * document is not GeoJSON at all.
+ */
+export function normalizeGeoJson(value: unknown): MapLayerFeatureCollection | null {
+	if (!isRecord(value) || typeof value.type !== 'string') return null;
+	let features: MapLayerFeature[];
+	if (value.type === 'FeatureCollection') {
+		if (!Array.isArray(value.features)) return null;
+		features = value.features.flatMap(toFeatures);
+	} else if (value.type === 'Feature') {
+		features = toFeatures(value);
+	} else {
+		features = toFeatures({ type: 'Feature', properties: {}, geometry: value });
+	}
+	return { type: 'FeatureCollection', features };
+}
+
+export function parseGeoJson(text: string): MapLayerFeatureCollection | null {
+	try {
+		return normalizeGeoJson(JSON.parse(text));
+	} catch {
+		return null;
+	}
+}
+
+// --- KML ---
+
+const XML_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'"
+};
+
+function decodeXml(text: string): string {
+	const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+	if (cdata) return cdata[1].trim();
+	return text
+		.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+			if (code[0] !== '#') return XML_ENTITIES[code.toLowerCase()] ?? entity;
+			const point =
+				code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : +code.slice(1);
+			return point >= 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+		})
+		.trim();
+}
+
+function tagPattern(tag: string, flags: string): RegExp {
+	// Namespace prefixes (kml:Placemark) are accepted; attributes are kept in group 1
+	return new RegExp(
+		`<(?:[\\w-]+:)?${tag}(\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>)`,
+		flags
+	);
+}
+
+function getTags(xml: string, tag: string): { attributes: string; body: string }[] {
+	return [...xml.matchAll(tagPattern(tag, 'g'))].map((match) => ({
+		attributes: match[1] ?? '',
+		body: match[2] ?? ''
+	}));
+}
+
+/** Inner XML of the first `tag` element */
+function getTag(xml: string, tag: string): string | null {
+	return xml.match(tagPattern(tag, ''))?.[2] ?? null;
+}
+
+function getTagText(xml: string, tag: string): string | null {
+	const body = getTag(xml, tag);
+	return body !== null ? decodeXml(body) : null;
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+	const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`));
+	return match ? decodeXml(match[2]) : null;
+}
+
+function parseKmlCoordinates(text: string | null): Position[] {
+	if (!text) return [];
+	const positions: Position[] = [];
+	for (const tuple of text.trim().split(/\s+/)) {
+		const position = toPosition(tuple.split(',').map(Number));
+		if (position) positions.push(position);
+	}
+	return positions;
+}
+
+/** KML colors are aabbggrr */
+function parseKmlColor(text: string | null): { color: string; opacity: number } | null {
+	const match = text?.trim().match(/^([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+	if (!match) return null;
+	const [, alpha, blue, green, red] = match;
+	return {
+		color: `#${red}${green}${blue}`.toLowerCase(),
+		opacity: Math.round((parseInt(alpha, 16) / 255) * 100) / 100
+	};
+}
+
+/**
+ * simplestyle properties for a KML <Style> body
+ */
+function parseKmlStyle(xml: string): Record<string, string | number> {
+	const style: Record<string, string | number> = {};
+	const line = getTag(xml, 'LineStyle');
+	if (line !== null) {
+		const color = parseKmlColor(getTagText(line, 'color'));
+		if (color) {
+			style.stroke = color.color;
+			style['stroke-opacity'] = color.opacity;
+		}
+		const width = Number(getTagText(line, 'width'));
+		if (Number.isFinite(width) && width > 0) style['stroke-width'] = width;
+	}
+	const poly = getTag(xml, 'PolyStyle');
+	if (poly !== null) {
+		const color = parseKmlColor(getTagText(poly, 'color'));
+		if (color) {
+			style.fill = color.color;
+			style['fill-opacity'] = color.opacity;
+		}
+		if (getTagText(poly, 'fill') === '0') style['fill-opacity'] = 0;
+		if (getTagText(poly, 'outline') === '0') style['stroke-opacity'] = 0;
+	}
+	const icon = getTag(xml, 'IconStyle');
+	if (icon !== null) {
+		const color = parseKmlColor(getTagText(icon, 'color'));
+		if (color) style['marker-color'] = color.color;
+	}
+	return style;
+}
+
+/**
+ * Shared styles of a KML document by id; a StyleMap resolves to its normal style
+ */
+function collectKmlStyles(xml: string): Map<string, Record<string, string | number>> {
+	const styles = new Map<string, Record<string, string | number>>();
+	for (const { attributes, body } of getTags(xml, 'Style')) {
+		const id = getAttribute(attributes, 'id');
+		if (id) styles.set(id, parseKmlStyle(body));
+	}
+	for (const { attributes, body } of getTags(xml, 'StyleMap')) {
+		const id = getAttribute(attributes, 'id');
+		const normal = getTags(body, 'Pair').find((pair) => getTagText(pair.body, 'key') === 'normal');
+		const url = normal ? getTagText(normal.body, 'styleUrl') : null;
+		const style = url ? styles.get(url.replace(/^#/, '')) : undefined;
+		if (id && style) styles.set(id, style);
+	}
+	return styles;
+}
+
+function parseKmlGeometries(xml: string): MapLayerGeometry[] {
+	const geometries: MapLayerGeometry[] = [];
+	for (const { body } of getTags(xml, 'Point')) {
+		const [point] = parseKmlCoordinates(getTagText(body, 'coordinates'));
+		if (point) geometries.push({ type: 'Point', coordinates: point });
+	}
+	for (const { body } of getTags(xml, 'LineString')) {
+		const line = parseKmlCoordinates(getTagText(body, 'coordinates'));
+		if (line.length >= 2) geometries.push({ type: 'LineString', coordinates: line });
+	}
+	for (const { body } of getTags(xml, 'Polygon')) {
+		const outer = toRing(
+			parseKmlCoordinates(getTagText(getTag(body, 'outerBoundaryIs') ?? '', 'coordinates'))
+		);
+		if (!outer) continue;
+		const holes = getTags(body, 'innerBoundaryIs')
+			.map((inner) => toRing(parseKmlCoordinates(getTagText(inner.body, 'coordinates'))))
+			.filter((ring): ring is Position[] => ring !== null);
+		geometries.push({ type: 'Polygon', coordinates: [outer, ...holes] });
+	}
+	return geometries;
+}
+
+/**
+ * Read the placemarks of a KML document (points, lines and polygons, including those in a
+ * MultiGeometry) with their name, description, ExtendedData and style as simplestyle
+ * properties. Null when the text is not KML.
+ */
+export function parseKml(text: string): MapLayerFeatureCollection | null {
+	if (!/<(?:[\w-]+:)?kml[\s>]/i.test(text)) return null;
+	const styles = collectKmlStyles(text);
+	const features: MapLayerFeature[] = [];
+
+	for (const { body } of getTags(text, 'Placemark')) {
+		const properties: Record<string, unknown> = {};
+		const name = getTagText(body, 'name');
+		const description = getTagText(body, 'description');
+		if (name) properties.name = name;
+		if (description) properties.description = description;
+		for (const data of getTags(body, 'Data')) {
+			const key = getAttribute(data.attributes, 'name');
+			const value = getTagText(data.body, 'value');
+			if (key && value !== null) properties[key] = value;
+		}
+		for (const data of getTags(body, 'SimpleData')) {
+			const key = getAttribute(data.attributes, 'name');
+			if (key) properties[key] = decodeXml(data.body);
+		}
+		const styleUrl = getTagText(body, 'styleUrl');
+		const shared = styleUrl ? styles.get(styleUrl.replace(/^#/, '')) : undefined;
+		const inline = getTag(body, 'Style');
+		Object.assign(properties, shared, inline !== null ? parseKmlStyle(inline) : {});
+
+		for (const geometry of parseKmlGeometries(body)) {
+			features.push({ type: 'Feature', properties, geometry });
+		}
+	}
+
+	return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Format of an imported file by its extension
+ */
+export function detectMapLayerFormat(fileName: string): MapLayerFormat | null {
+	const name = fileName.toLowerCase();
+	for (const [format, extensions] of Object.entries(MAP_LAYER_FILE_EXTENSIONS)) {
+		if (extensions.some((extension) => name.endsWith(extension))) return format as MapLayerFormat;
+	}
+	return null;
+}
+
+export function parseMapLayerFile(
+	content: string,
+	format: MapLayerFormat
+): MapLayerFeatureCollection | null {
+	return format === 'kml' ? parseKml(content) : parseGeoJson(content);
+}
+
+// --- Styling ---
+
+function readColor(value: unknown): string | null {
+	return typeof value === 'string' && COLOR_PATTERN.test(value.trim()) ? value.trim() : null;
+}
+
+function readNumber(value: unknown, min: number, max: number): number | null {
+	const number = typeof value === 'string' ? Number(value) : value;
+	return typeof number === 'number' && Number.isFinite(number)
+		? Math.min(Math.max(number, min), max)
+		: null;
+}
+
+export function getFeatureStyle(
+	feature: MapLayerFeature,
+	fallbackColor: string = MAP_LAYER_DEFAULT_COLOR
+): MapFeatureStyle {
+	const props = feature.properties ?? {};
+	const color = readColor(props.color) ?? fallbackColor;
+	const stroke = readColor(props.stroke) ?? color;
+	const markerSize = typeof props['marker-size'] === 'string' ? props['marker-size'] : 'medium';
+	return {
+		stroke,
+		strokeWidth: readNumber(props['stroke-width'], 0, 8) ?? 1.2,
+		strokeOpacity: readNumber(props['stroke-opacity'], 0, 1) ?? 0.85,
+		fill: readColor(props.fill) ?? stroke,
+		fillOpacity: readNumber(props['fill-opacity'], 0, 1) ?? 0.15,
+		markerColor: readColor(props['marker-color']) ?? color,
+		markerRadius: MARKER_RADII[markerSize] ?? MARKER_RADII.medium
+	};
+}
+
+/**
+ * Display name of a feature from its name or title property
+ */
+export function getFeatureName(feature: MapLayerFeature): string | null {
+	const props = feature.properties ?? {};
+	for (const key of ['name', 'Name', 'NAME', 'title']) {
+		const value = props[key];
+		if ((typeof value === 'string' && value.trim()) || typeof value === 'number') {
+			return String(value).trim();
+		}
+	}
+	return null;
+}
+
+// --- Geometry ---
+
+export function isAreaGeometry(
+	geometry: MapLayerGeometry
+): geometry is GeoJSON.Polygon | GeoJSON.MultiPolygon {
+	return geometry.type === 'Polygon' || geometry.type === 'MultiPolygon';
+}
+
+function forEachPosition(geometry: MapLayerGeometry, visit: (position: Position) => void): void {
+	switch (geometry.type) {
+		case 'Point':
+			visit(geometry.coordinates as Position);
+			break;
+		case 'MultiPoint':
+		case 'LineString':
+			geometry.coordinates.forEach((position) => visit(position as Position));
+			break;
+		case 'MultiLineString':
+		case 'Polygon':
+			geometry.coordinates.forEach((line) =>
+				line.forEach((position) => visit(position as Position))
+			);
+			break;
+		case 'MultiPolygon':
+			geometry.coordinates.forEach((polygon) =>
+				polygon.forEach((ring) => ring.forEach((position) => visit(position as Position)))
+			);
+			break;
+	}
+}
+
+export function getGeometryBounds(geometry: MapLayerGeometry): MapLayerBounds {
+	const bounds: MapLayerBounds = [Infinity, Infinity, -Infinity, -Infinity];
+	forEachPosition(geometry, ([lon, lat]) => {
+		bounds[0] = Math.min(bounds[0], lon);
+		bounds[1] = Math.min(bounds[1], lat);
+		bounds[2] = Math.max(bounds[2], lon);
+		bounds[3] = Math.max(bounds[3], lat);
+	});
+	return bounds;
+}
+
+export function boundsContain(bounds: MapLayerBounds, lon: number, lat: number): boolean {
+	return lon >= bounds[0] && lon <= bounds[2] && lat >= bounds[1] && lat <= bounds[3];
+}
+
+/** Even-odd ray casting in lon/lat; rings crossing the antimeridian are not supported */
+function ringContains(ring: GeoJSON.Position[], lon: number, lat: number): boolean {
+	let inside = false;
+	for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+		const [xi, yi] = ring[i];
+		const [xj, yj] = ring[j];
+		if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+			inside = !inside;
+		}
+	}
+	return inside;
+}
+
+function polygonContains(rings: GeoJSON.Position[][], lon: number, lat: number): boolean {
+	const [outer, ...holes] = rings;
+	return ringContains(outer, lon, lat) && !holes.some((hole) => ringContains(hole, lon, lat));
+}
+
+/**
+ * Whether a point lies inside a Polygon or MultiPolygon; always false for other geometries
+ */
+export function geometryContains(geometry: MapLayerGeometry, lon: number, lat: number): boolean {
+	if (geometry.type === 'Polygon') return polygonContains(geometry.coordinates, lon, lat);
+	if (geometry.type === 'MultiPolygon') {
+		return geometry.coordinates.some((polygon) => polygonContains(polygon, lon, lat));
+	}
+	return false;
+}
+
+function isClockwise(ring: GeoJSON.Position[]): boolean {
+	let area = 0;
+	for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+		area += (ring[i][0] - ring[j][0]) * (ring[i][1] + ring[j][1]);
+	}
+	return area > 0;
+}
+
+function rewindRings(rings: GeoJSON.Position[][], clockwise: boolean): GeoJSON.Position[][] {
+	return rings.map((ring, index) => {
+		// Holes wind opposite to the exterior ring
+		const wanted = index === 0 ? clockwise : !clockwise;
+		return isClockwise(ring) === wanted ? ring : [...ring].reverse();
+	});
+}
+
+/**
+ * Orient polygon rings: counterclockwise exteriors for GeoJSON (RFC 7946), clockwise ones for
+ * d3-geo, which otherwise reads a polygon as the whole globe outside it
+ */
+export function rewindGeometry<T extends MapLayerGeometry>(geometry: T, clockwise: boolean): T {
+	if (geometry.type === 'Polygon') {
+		return { ...geometry, coordinates: rewindRings(geometry.coordinates, clockwise) };
+	}
+	if (geometry.type === 'MultiPolygon') {
+		return {
+			...geometry,
+			coordinates: geometry.coordinates.map((polygon) => rewindRings(polygon, clockwise))
+		};
+	}
+	return geometry;
+}
+
+// --- Export ---
+
+function pointFeature(
+	lon: number,
+	lat: number,
+	properties: Record<string, unknown>
+): MapLayerFeature {
+	return { type: 'Feature', properties, geometry: { type: 'Point', coordinates: [lon, lat] } };
+}
+
+function lineFeature(points: [number, number][], properties: Record<string, unknown>) {
+	return {
+		type: 'Feature',
+		properties,
+		geometry: { type: 'LineString', coordinates: points }
+	} satisfies MapLayerFeature;
+}
+
+function builtInFeatures(layer: BuiltInMapLayer): MapLayerFeature[] {
+	switch (layer) {
+		case 'hotspots':
+			return HOTSPOTS.map((spot) =>
+				pointFeature(spot.lon, spot.lat, {
+					name: spot.name,
+					description: spot.desc,
+					level: spot.level,
+					'marker-color': THREAT_COLORS[spot.level]
+				})
+			);
+		case 'conflictZones':
+			return CONFLICT_ZONES.map((zone) => ({
+				type: 'Feature',
+				properties: { name: zone.name, stroke: zone.color, fill: zone.color, 'fill-opacity': 0.18 },
+				geometry: rewindGeometry({ type: 'Polygon', coordinates: [zone.coords] }, false)
+			}));
+		case 'chokepoints':
+			return CHOKEPOINTS.map((point) =>
+				pointFeature(point.lon, point.lat, {
+					name: point.name,
+					description: point.desc,
+					'marker-color': '#00aaff'
+				})
+			);
+		case 'pipelines':
+			return PIPELINES.map((pipeline) =>
+				lineFeature(pipeline.points, {
+					name: pipeline.name,
+					id: pipeline.id,
+					type: pipeline.type,
+					status: pipeline.status,
+					capacity: pipeline.capacity,
+					length: pipeline.length,
+					operator: pipeline.operator,
+					countries: pipeline.countries,
+					stroke: PIPELINE_COLORS[pipeline.type]
+				})
+			);
+		case 'submarineCables':
+			return SUBMARINE_CABLES.filter((cable) => cable.points.length >= 2).map((cable) =>
+				lineFeature(cable.points, {
+					name: cable.name,
+					id: cable.id,
+					rfs: cable.rfs,
+					length: cable.length,
+					owners: cable.owners,
+					url: cable.url,
+					stroke: '#4bb6ff'
+				})
+			);
+		case 'cableLandings':
+			return CABLE_LANDINGS.map((landing) =>
+				pointFeature(landing.lon, landing.lat, {
+					name: landing.name,
+					description: landing.desc,
+					'marker-color': '#aa44ff'
+				})
+			);
+		case 'nuclearSites':
+			return NUCLEAR_SITES.map((site) =>
+				pointFeature(site.lon, site.lat, {
+					name: site.name,
+					description: site.desc,
+					'marker-color': '#ffff00'
+				})
+			);
+		case 'militaryBases':
+			return MILITARY_BASES.map((base) =>
+				pointFeature(base.lon, base.lat, {
+					name: base.name,
+					description: base.desc,
+					'marker-color': '#ff00ff'
+				})
+			);
+		case 'aiDataCenters':
+			return AI_DATACENTERS.map(({ lat, lon, ...center }) =>
+				pointFeature(lon, lat, { ...center, 'marker-color': '#944bff' })
+			);
+	}
+}
+
+/**
+ * A built-in map layer as a GeoJSON FeatureCollection
+ */
+export function builtInLayerToGeoJson(layer: BuiltInMapLayer): MapLayerFeatureCollection {
+	return { type: 'FeatureCollection', features: builtInFeatures(layer) };
+}
+
+/**
+ * An imported layer as RFC 7946 GeoJSON, with its name and color kept as foreign members
+ */
+export function mapLayerToGeoJson(
+	collection: MapLayerFeatureCollection,
+	meta: { name: string; color?: string }
+): MapLayerFeatureCollection & { name: string; color?: string } {
+	return {
+		type: 'FeatureCollection',
+		name: meta.name,
+		...(meta.color ? { color: meta.color } : {}),
+		features: collection.features.map((feature) => ({
+			...feature,
+			geometry: rewindGeometry(feature.geometry, false)
+		}))
+	};
+}
@@ -6,6 +6,9 @@
 import type { NewsItem, NewsCategory } from '$lib/types';
 import { containsAlertKeyword, detectRegion, detectTopics } from '$lib/config/keywords';
 import { deduplicateNews, sortNewsNewestFirst } from '$lib/utils/news-filter';
+import { detectLanguage, normalizeLanguageTag } from './language';
+import { scoreSentiment } from './sentiment';
+import { geocodeNewsItem } from './geocoder';
 
 const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
 const CATEGORY_SOURCE_LIMITS: Partial<Record<NewsCategory, Record<string, number>>> = {
@@ -58,6 +61,8 @@ export interface GdeltArticle {
 	url: string;
 	seendate: string;
 	domain: string;
+	/** Source language name, e.g. "English" or "Spanish" */
+	language?: string;
 	socialimage?: string;
 }
 
@@ -75,7 +80,8 @@ export function transformGdeltArticle(
 	index: number
 ): NewsItem {
 	const title = article.title || '';
-	const alert = containsAlertKeyword(title);
+	const lang = detectLanguage(title, normalizeLanguageTag(article.language));
+	const alert = containsAlertKeyword(title, lang);
 	const urlHash = article.url ? hashCode(article.url) : Math.random().toString(36).slice(2);
 	const uniqueId = `gdelt-${category}-${urlHash}-${index}`;
 	const parsedDate = parseGdeltDate(article.seendate);
@@ -90,8 +96,11 @@ export function transformGdeltArticle(
 		category,
 		isAlert: !!alert,
 		alertKeyword: alert?.keyword || undefined,
-		region: detectRegion(title) ?? undefined,
-		topics: detectTopics(title)
+		region: detectRegion(title, lang) ?? undefined,
+		topics: detectTopics(title, lang),
+		lang: lang ?? undefined,
+		sentiment: scoreSentiment(title, lang) ?? undefined,
+		...geocodeNewsItem({ title })
 	};
 }
 
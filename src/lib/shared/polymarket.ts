@@ -0,0 +1,150 @@
+/**
+ * Polymarket Gamma API parsing - used by the server poller and the browser fallback
+ * Pure functions with no browser/server-specific dependencies
+ */
+
+import type { Prediction, PredictionCategory } from '$lib/types';
+
+export const POLYMARKET_MARKETS_URL = 'https://gamma-api.polymarket.com/markets';
+
+// Reliable tag IDs for fetching markets
+export const POLYMARKET_FETCH_TAGS = [2, 100265, 120, 100056, 100001]; // politics, geopolitics, finance, tech, elections
+
+/** Markets kept per poll, by total volume */
+export const POLYMARKET_MARKET_LIMIT = 75;
+
+// Polymarket API types
+export interface PolymarketMarket {
+	id: string;
+	question: string;
+	slug: string;
+	events?: { slug: string }[];
+	volumeNum: number;
+	volume24hr: number;
+	outcomePrices: string; // JSON string like '["0.65","0.35"]'
+	outcomes: string; // JSON string like '["Yes","No"]'
+	endDate: string;
+}
+
+// Keywords for categorizing markets by content
+const CATEGORY_KEYWORDS: Record<PredictionCategory, RegExp> = {
+	elections:
+		/\b(election|vote|ballot|primary|electoral|polling|candidate|democrat|republican|GOP|senate|congress|governor|mayor|presidency|presidential)\b/i,
+	geopolitics:
+		/\b(war|invasion|military|NATO|UN|sanction|treaty|border|conflict|nuclear|missile|troops|ceasefire|territory|occupation|China|Russia|Ukraine|Taiwan|Israel|Gaza|Iran|Korea|Syria)\b/i,
+	tech: /\b(AI|artificial intelligence|GPT|OpenAI|Anthropic|Google|Apple|Microsoft|Meta|Amazon|Tesla|SpaceX|crypto|bitcoin|ethereum|blockchain|chip|semiconductor|quantum|robot)\b/i,
+	finance:
+		/\b(Fed|interest rate|inflation|GDP|recession|stock|S&P|Nasdaq|Dow|bond|treasury|bank|economy|trade|tariff|debt|default|market|dollar|euro|yuan)\b/i,
+	politics:
+		/\b(Trump|Biden|president|White House|Congress|Senate|House|Supreme Court|DOJ|FBI|CIA|policy|legislation|bill|law|government|federal|executive order)\b/i
+};
+
+/**
+ * Categorize a market question based on keyword matching
+ * Returns the first matching category, with politics as fallback
+ */
+export function categorizeMarket(question: string): PredictionCategory {
+	// Check in priority order: elections, geopolitics, tech, finance, politics
+	const categoryOrder: PredictionCategory[] = [
+		'elections',
+		'geopolitics',
+		'tech',
+		'finance',
+		'politics'
+	];
+
+	for (const category of categoryOrder) {
+		if (CATEGORY_KEYWORDS[category].test(question)) {
+			return category;
+		}
+	}
+
+	return 'politics'; // Default fallback
+}
+
+// Patterns to exclude (sports, meme coins, entertainment)
+const EXCLUDED_PATTERNS = [
+	/\b(NFL|NBA|MLB|NHL|soccer|football|tennis|golf|boxing|UFC|MMA|F1|NASCAR|Premier League|Champions League|World Cup|Super Bowl|playoffs|championship)\b/i,
+	/\b(meme ?coin|shib|doge|pepe|bonk|floki)\b/i,
+	/\b(movie|tv show|grammy|oscar|emmy|golden globe|billboard|spotify|netflix|disney|marvel)\b/i,
+	/\b(tiktok|youtube|streamer|influencer|pewdiepie|mrbeast)\b/i,
+	/\b(bachelor|bachelorette|survivor|big brother|american idol|the voice)\b/i
+];
+
+/**
+ * Check if a market question should be excluded based on content patterns
+ */
+export function shouldExcludeMarket(question: string): boolean {
+	return EXCLUDED_PATTERNS.some((pattern) => pattern.test(question));
+}
+
+/**
+ * Parse outcome prices from Polymarket API response
+ * Returns the "Yes" probability as a percentage (0-100)
+ */
+export function parseYesProbability(outcomePrices: string, outcomes: string): number {
+	try {
+		const prices = JSON.parse(outcomePrices) as string[];
+		const outcomeNames = JSON.parse(outcomes) as string[];
+
+		// Find the "Yes" outcome index
+		const yesIndex = outcomeNames.findIndex(
+			(o) => o.toLowerCase() === 'yes' || o.toLowerCase() === 'yes '
+		);
+
+		if (yesIndex !== -1 && prices[yesIndex]) {
+			return Math.round(parseFloat(prices[yesIndex]) * 100);
+		}
+
+		// If no "Yes" outcome, return the first outcome's price
+		if (prices[0]) {
+			return Math.round(parseFloat(prices[0]) * 100);
+		}
+
+		return 0;
+	} catch {
+		return 0;
+	}
+}
+
+/**
+ * Gamma API URL for the open markets of one tag, highest volume first
+ */
+export function buildPolymarketMarketsUrl(tagId: number, limit: number): string {
+	const url = new URL(POLYMARKET_MARKETS_URL);
+	url.searchParams.set('tag_id', tagId.toString());
+	url.searchParams.set('closed', 'false');
+	url.searchParams.set('order', 'volumeNum');
+	url.searchParams.set('ascending', 'false');
+	url.searchParams.set('limit', limit.toString());
+	return url.toString();
+}
+
+/**
+ * Deduplicate markets fetched under several tags, drop excluded content, and keep the
+ * highest-volume predictions, categorized by question keywords
+ */
+export function toPredictions(markets: PolymarketMarket[]): Prediction[] {
+	const seenIds = new Set<string>();
+	return (
+		markets
+			.filter((market) => {
+				if (seenIds.has(market.id)) return false;
+				seenIds.add(market.id);
+				return !shouldExcludeMarket(market.question);
+			})
+			.map((market) => ({
+				id: market.id,
+				question: market.question,
+				yes: parseYesProbability(market.outcomePrices, market.outcomes),
+				volume: market.volumeNum || 0,
+				volume24hr: market.volume24hr || 0,
+				url: `https://polymarket.com/event/${market.events?.[0]?.slug || market.slug}`,
+				endDate: market.endDate,
+				category: categorizeMarket(market.question)
+			}))
+			// Sort by volume (highest first) and take the top markets
+			.sort((a, b) => b.volume - a.volume)
+			.slice(0, POLYMARKET_MARKET_LIMIT)
+	);
+}
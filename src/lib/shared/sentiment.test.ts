@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import {
+	bucketSentiment,
+	detectSentimentShifts,
+	getNewsSentiment,
+	scoreSentiment,
+	summarizeSentiment
+} from './sentiment';
+
+const NOW = Date.UTC(2026, 9, 18, 12);
+const HOUR = 3600000;
+
+function newsItem(id: string, title: string, hoursAgo: number, extra: Partial<NewsItem> = {}) {
+	return {
+		id,
+		title,
+		link: `https://news.example/${id}`,
+		timestamp: NOW - hoursAgo * HOUR,
+		source: 'Example News',
+		category: 'politics',
+		...extra
+	} satisfies NewsItem;
+}
+
+describe('scoreSentiment', () => {
+	it('scores English and Portuguese headlines on a -1..1 scale', () => {
+		expect(scoreSentiment('Ceasefire deal brings hope of peace')).toBeGreaterThan(0.5);
+		expect(scoreSentiment('Deadly attack kills dozens in market')).toBeLessThan(-0.5);
+		expect(scoreSentiment('Parliament meets on Tuesday')).toBe(0);
+		expect(scoreSentiment('Acordo de paz traz esperança', 'pt')).toBeGreaterThan(0.5);
+		expect(scoreSentiment('Escândalo de corrupção derruba ministro', 'pt')).toBeLessThan(-0.5);
+	});
+
+	it('flips negated terms and strengthens intensified ones', () => {
+		expect(scoreSentiment('Talks end without a deal')).toBeLessThan(0);
+		expect(scoreSentiment('Leaders reach no deal')).toBeLessThan(0);
+		expect(scoreSentiment('Governo não aprova reforma', 'pt')).toBeLessThan(0);
+		expect(scoreSentiment('Banks report massive losses')).toBeLessThan(
+			scoreSentiment('Banks report losses')!
+		);
+	});
+
+	it('returns null for languages without a lexicon', () => {
+		expect(scoreSentiment('Ataque con misiles deja víctimas', 'es')).toBeNull();
+	});
+});
+
+describe('getNewsSentiment', () => {
+	it('prefers the stored score and falls back to the translation', () => {
+		expect(getNewsSentiment(newsItem('a', 'Deadly attack', 0, { sentiment: 0.4 }))).toBe(0.4);
+		expect(
+			getNewsSentiment(
+				newsItem('b', 'Ataque mortal', 0, { lang: 'es', translatedTitle: 'Deadly attack' })
+			)
+		).toBeLessThan(0);
+		expect(getNewsSentiment(newsItem('c', 'Ataque mortal', 0, { lang: 'es' }))).toBeNull();
+	});
+});
+
+describe('summarizeSentiment', () => {
+	it('averages scores and calls strongly split coverage mixed', () => {
+		const split = summarizeSentiment([
+			newsItem('a', 'x', 0, { sentiment: 0.6 }),
+			newsItem('b', 'x', 0, { sentiment: -0.6 })
+		]);
+		expect(split).toEqual({ score: 0, count: 2, label: 'mixed' });
+		expect(summarizeSentiment([newsItem('c', 'x', 0, { sentiment: -0.3 })]).label).toBe('negative');
+		expect(summarizeSentiment([])).toEqual({ score: 0, count: 0, label: 'neutral' });
+	});
+});
+
+describe('bucketSentiment', () => {
+	it('averages scores per bucket and skips empty buckets', () => {
+		const points = bucketSentiment(
+			[
+				newsItem('a', 'x', 11, { sentiment: 0.2 }),
+				newsItem('b', 'x', 10, { sentiment: 0.4 }),
+				newsItem('c', 'x', 1, { sentiment: -0.5 })
+			],
+			NOW - 12 * HOUR,
+			NOW,
+			6 * HOUR
+		);
+		expect(points).toEqual([
+			{ timestamp: NOW - 12 * HOUR, score: 0.3, count: 2 },
+			{ timestamp: NOW - 6 * HOUR, score: -0.5, count: 1 }
+		]);
+	});
+});
+
+describe('detectSentimentShifts', () => {
+	it('flags a leader whose coverage turns sharply negative', () => {
+		const items = [
+			newsItem('a', 'Putin welcomes peace talks', 30),
+			newsItem('b', 'Putin praised for aid deal', 20),
+			newsItem('c', 'Putin backs ceasefire', 12),
+			newsItem('d', 'Putin condemned over deadly strike', 3),
+			newsItem('e', 'Putin faces outrage after massacre', 2),
+			newsItem('f', 'Putin blamed for attack', 1),
+			// Steady coverage does not trigger
+			newsItem('g', 'Trump hosts summit', 30),
+			newsItem('h', 'Trump signs deal', 20),
+			newsItem('i', 'Trump meets allies', 12),
+			newsItem('j', 'Trump speaks at rally', 3),
+			newsItem('k', 'Trump visits Ohio', 2),
+			newsItem('l', 'Trump praises deal', 1)
+		];
+		const shifts = detectSentimentShifts(items, NOW);
+		expect(shifts.map((shift) => shift.name)).toEqual(['Putin']);
+		expect(shifts[0]).toMatchObject({ recentCount: 3, baselineCount: 3 });
+		expect(shifts[0].recentScore).toBeLessThan(-0.2);
+	});
+
+	it('needs enough headlines on both sides', () => {
+		const items = [
+			newsItem('a', 'Putin welcomes peace talks', 30),
+			newsItem('b', 'Putin condemned over deadly strike', 3),
+			newsItem('c', 'Putin blamed for attack', 1)
+		];
+		expect(detectSentimentShifts(items, NOW)).toEqual([]);
+	});
+});
@@ -0,0 +1,188 @@
+/**
+ * Lexicon-based headline sentiment scoring
+ */
+
+import { PERSON_PATTERNS } from '$lib/config/analysis';
+import {
+	SENTIMENT_INTENSIFIER_FACTOR,
+	SENTIMENT_INTENSIFIERS,
+	SENTIMENT_LABEL_THRESHOLD,
+	SENTIMENT_LEXICONS,
+	SENTIMENT_MIXED_SHARE,
+	SENTIMENT_NEGATION_FACTOR,
+	SENTIMENT_NEGATION_SCOPE,
+	SENTIMENT_NEGATORS,
+	SENTIMENT_NORMALIZATION_ALPHA,
+	SENTIMENT_SHIFT_BASELINE_HOURS,
+	SENTIMENT_SHIFT_MAX_SCORE,
+	SENTIMENT_SHIFT_MIN_DROP,
+	SENTIMENT_SHIFT_MIN_MENTIONS,
+	SENTIMENT_SHIFT_RECENT_HOURS
+} from '$lib/config/sentiment';
+import type { NewsItem, NewsLanguage, SentimentPoint } from '$lib/types';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface SentimentSummary {
+	/** Mean score of the scored headlines, -1..1 */
+	score: number;
+	count: number;
+	label: SentimentLabel | 'mixed';
+}
+
+export interface SentimentShift {
+	name: string;
+	recentScore: number;
+	baselineScore: number;
+	recentCount: number;
+	baselineCount: number;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Score a headline from -1 (very negative) to 1 (very positive). Negators flip the terms that
+ * follow them, intensifiers strengthen the next term. Null when there is no lexicon for `lang`
+ * (untagged text is treated as English).
+ */
+export function scoreSentiment(text: string, lang: NewsLanguage | null = null): number | null {
+	const code = lang ?? 'en';
+	const lexicon = SENTIMENT_LEXICONS[code];
+	if (!lexicon) return null;
+	const negators = new Set(SENTIMENT_NEGATORS[code] ?? []);
+	const intensifiers = new Set(SENTIMENT_INTENSIFIERS[code] ?? []);
+
+	const words = text.toLowerCase().match(/\p{L}[\p{L}\p{M}'’-]*/gu) ?? [];
+	let sum = 0;
+	let negatedUntil = -1;
+	words.forEach((raw, index) => {
+		const word = raw.replace(/’/g, "'").replace(/['-]+$/, '');
+		if (negators.has(word)) {
+			negatedUntil = index + SENTIMENT_NEGATION_SCOPE;
+			return;
+		}
+		const valence = lexicon[word];
+		if (!valence) return;
+
+		let value = valence;
+		if (index > 0 && intensifiers.has(words[index - 1])) value *= SENTIMENT_INTENSIFIER_FACTOR;
+		if (index <= negatedUntil) value *= SENTIMENT_NEGATION_FACTOR;
+		sum += value;
+	});
+
+	if (sum === 0) return 0;
+	return round(sum / Math.sqrt(sum * sum + SENTIMENT_NORMALIZATION_ALPHA));
+}
+
+/**
+ * Sentiment of a news item: the score stored at ingest, else the title (or its translation when
+ * the original language has no lexicon)
+ */
+export function getNewsSentiment(item: NewsItem): number | null {
+	if (typeof item.sentiment === 'number') return item.sentiment;
+	const score = scoreSentiment(item.title, item.lang ?? null);
+	if (score !== null) return score;
+	return item.translatedTitle ? scoreSentiment(item.translatedTitle, 'en') : null;
+}
+
+export function sentimentLabel(score: number): SentimentLabel {
+	if (score >= SENTIMENT_LABEL_THRESHOLD) return 'positive';
+	if (score <= -SENTIMENT_LABEL_THRESHOLD) return 'negative';
+	return 'neutral';
+}
+
+/**
+ * Mean sentiment of a group of headlines; "mixed" when strong positive and negative coverage
+ * cancel out
+ */
+export function summarizeSentiment(items: NewsItem[]): SentimentSummary {
+	const scores = items.map(getNewsSentiment).filter((score): score is number => score !== null);
+	if (scores.length === 0) return { score: 0, count: 0, label: 'neutral' };
+
+	const score = round(scores.reduce((sum, value) => sum + value, 0) / scores.length);
+	const positive = scores.filter((value) => sentimentLabel(value) === 'positive').length;
+	const negative = scores.filter((value) => sentimentLabel(value) === 'negative').length;
+	const mixed =
+		positive / scores.length >= SENTIMENT_MIXED_SHARE &&
+		negative / scores.length >= SENTIMENT_MIXED_SHARE;
+	return { score, count: scores.length, label: mixed ? 'mixed' : sentimentLabel(score) };
+}
+
+/**
+ * Mean sentiment per `bucketMs` between `since` and `until`; empty buckets are left out
+ */
+export function bucketSentiment(
+	items: NewsItem[],
+	since: number,
+	until: number,
+	bucketMs: number
+): SentimentPoint[] {
+	const buckets = new Map<number, { sum: number; count: number }>();
+	for (const item of items) {
+		if (item.timestamp <= since || item.timestamp > until) continue;
+		const score = getNewsSentiment(item);
+		if (score === null) continue;
+		const start = since + Math.floor((item.timestamp - since) / bucketMs) * bucketMs;
+		const bucket = buckets.get(start) ?? { sum: 0, count: 0 };
+		bucket.sum += score;
+		bucket.count += 1;
+		buckets.set(start, bucket);
+	}
+	return [...buckets]
+		.sort(([a], [b]) => a - b)
+		.map(([timestamp, { sum, count }]) => ({ timestamp, score: round(sum / count), count }));
+}
+
+/**
+ * Headlines mentioning each tracked person (PERSON_PATTERNS), keyed by display name
+ */
+export function groupNewsByPerson(items: NewsItem[]): Map<string, NewsItem[]> {
+	const groups = new Map<string, NewsItem[]>();
+	for (const item of items) {
+		const text = `${item.title || ''} ${item.translatedTitle || ''}`.toLowerCase();
+		for (const { pattern, name } of PERSON_PATTERNS) {
+			pattern.lastIndex = 0;
+			if (!pattern.test(text)) continue;
+			groups.set(name, [...(groups.get(name) ?? []), item]);
+		}
+	}
+	return groups;
+}
+
+/**
+ * Tracked people whose coverage of the last SENTIMENT_SHIFT_RECENT_HOURS turned sharply negative
+ * against the SENTIMENT_SHIFT_BASELINE_HOURS before, sharpest drop first
+ */
+export function detectSentimentShifts(items: NewsItem[], now = Date.now()): SentimentShift[] {
+	const recentStart = now - SENTIMENT_SHIFT_RECENT_HOURS * 3600000;
+	const baselineStart = recentStart - SENTIMENT_SHIFT_BASELINE_HOURS * 3600000;
+	const shifts: SentimentShift[] = [];
+
+	for (const [name, coverage] of groupNewsByPerson(items)) {
+		const recent = summarizeSentiment(
+			coverage.filter((item) => item.timestamp > recentStart && item.timestamp <= now)
+		);
+		const baseline = summarizeSentiment(
+			coverage.filter((item) => item.timestamp > baselineStart && item.timestamp <= recentStart)
+		);
+		if (
+			recent.count < SENTIMENT_SHIFT_MIN_MENTIONS ||
+			baseline.count < SENTIMENT_SHIFT_MIN_MENTIONS
+		) {
+			continue;
+		}
+		if (
+			recent.score <= SENTIMENT_SHIFT_MAX_SCORE &&
+			baseline.score - recent.score >= SENTIMENT_SHIFT_MIN_DROP
+		) {
+			shifts.push({
+				name,
+				recentScore: recent.score,
+				baselineScore: baseline.score,
+				recentCount: recent.count,
+				baselineCount: baseline.count
+			});
+		}
+	}
+	return shifts.sort((a, b) => b.baselineScore - b.recentScore - (a.baselineScore - a.recentScore));
+}
@@ -0,0 +1,45 @@
+/**
+ * Baseline statistics shared by the correlation engine and the hotspot scorer - how far a count
+ * sits from its own history, robust to the spikes that history already contains
+ */
+
+export function calculateZScore(value: number, historyValues: number[]): number {
+	if (historyValues.length < 3) return 0;
+
+	const mean = historyValues.reduce((a, b) => a + b, 0) / historyValues.length;
+	const variance =
+		historyValues.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / historyValues.length;
+	const stdDev = Math.sqrt(variance);
+
+	if (stdDev === 0) return 0;
+	return (value - mean) / stdDev;
+}
+
+export function calculateMedian(values: number[]): number {
+	if (values.length === 0) return 0;
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export function calculateMad(values: number[], median: number): number {
+	if (values.length === 0) return 0;
+	const deviations = values.map((v) => Math.abs(v - median));
+	return calculateMedian(deviations);
+}
+
+/**
+ * Median/MAD z-score of `value` against `historyValues`; 0 with fewer than three points
+ */
+export function calculateRobustZScore(value: number, historyValues: number[]): number {
+	if (historyValues.length < 3) return 0;
+
+	const median = calculateMedian(historyValues);
+	const mad = calculateMad(historyValues, median);
+	if (mad > 0) {
+		return (0.6745 * (value - median)) / mad;
+	}
+
+	// Fallback to classic z-score when MAD collapses but variance remains informative.
+	return calculateZScore(value, historyValues);
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { NewsItem } from '$lib/types';
+import {
+	assignStoryClusters,
+	groupByCluster,
+	pickRepresentative,
+	storySimilarity
+} from './story-clusters';
+
+const NOW = Date.UTC(2026, 9, 12, 14, 0, 0);
+
+function newsItem(
+	id: string,
+	title: string,
+	source: string,
+	hoursAgo: number,
+	extra: Partial<NewsItem> = {}
+): NewsItem {
+	return {
+		id,
+		title,
+		link: `https://example.com/${id}`,
+		timestamp: NOW - hoursAgo * 3600000,
+		source,
+		category: 'politics',
+		...extra
+	};
+}
+
+describe('assignStoryClusters', () => {
+	it('names each story after its first headline and keeps existing ids stable', () => {
+		const first = assignStoryClusters([
+			newsItem('b1', 'Federal Reserve holds interest rates steady', 'Bloomberg', 2),
+			newsItem('b2', 'Federal Reserve holds interest rates steady as inflation cools', 'CNBC', 4),
+			newsItem('c1', 'City council approves new bike lanes downtown', 'Local Gazette', 3)
+		]);
+		expect(Object.fromEntries(first)).toEqual({ b1: 'b2', b2: 'b2', c1: 'c1' });
+
+		const clustered = [
+			newsItem('b1', 'Federal Reserve holds interest rates steady', 'Bloomberg', 2, {
+				clusterId: 'b2'
+			}),
+			newsItem('c1', 'City council approves new bike lanes downtown', 'Local Gazette', 3, {
+				clusterId: 'c1'
+			})
+		];
+		const next = assignStoryClusters(
+			[
+				newsItem(
+					'b3',
+					'Federal Reserve holds interest rates steady for a third meeting',
+					'Reuters',
+					1
+				),
+				newsItem('d1', 'Storm knocks out power across the coast', 'AP News', 1)
+			],
+			clustered
+		);
+		expect(Object.fromEntries(next)).toEqual({ b3: 'b2', d1: 'd1' });
+	});
+
+	it('starts a new story when the headline is too far from every member', () => {
+		const assigned = assignStoryClusters(
+			[newsItem('new', 'Federal Reserve holds interest rates steady', 'Reuters', 1)],
+			[
+				newsItem('old', 'Federal Reserve holds interest rates steady', 'Reuters', 40, {
+					clusterId: 'old'
+				})
+			]
+		);
+		expect(assigned.get('new')).toBe('new');
+	});
+});
+
+describe('storySimilarity', () => {
+	it('lets matching descriptions pull differently worded titles together', () => {
+		const description = 'Rescue teams searched collapsed buildings after a magnitude 7.1 quake';
+		const a = newsItem('a', 'Powerful earthquake shakes southern Turkey', 'Reuters', 1, {
+			description
+		});
+		const b = newsItem('b', 'Deadly tremor strikes Turkish provinces', 'BBC News', 1, {
+			description
+		});
+
+		expect(storySimilarity(a, b)).toBeGreaterThan(
+			storySimilarity({ ...a, description: undefined }, b)
+		);
+	});
+});
+
+describe('groupByCluster', () => {
+	it('leads each story with its most credible source', () => {
+		const groups = groupByCluster([
+			newsItem('a1', 'Iranian strike hits air base', 'ZeroHedge', 1, { clusterId: 'a2' }),
+			newsItem('a2', 'Iranian strike hits Israeli air base', 'Reuters', 2, { clusterId: 'a2' }),
+			newsItem('c1', 'City council approves new bike lanes', 'Local Gazette', 3)
+		]);
+
+		expect(groups.map((group) => group.id)).toEqual(['a2', 'c1']);
+		expect(groups[0].lead.id).toBe('a2');
+		expect(groups[0].sources).toEqual(['Reuters', 'ZeroHedge']);
+		expect(groups[0].items.map((item) => item.id)).toEqual(['a1', 'a2']);
+		expect(pickRepresentative(groups[0].items).source).toBe('Reuters');
+	});
+});
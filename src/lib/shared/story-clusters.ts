@@ -0,0 +1,170 @@
+/**
+ * Story clustering - groups headlines about the same event from different sources
+ */
+
+import type { NewsItem } from '$lib/types';
+import { getSourceWeight } from '$lib/config/analysis';
+import { detectTopics } from '$lib/config/keywords';
+import {
+	STORY_CLUSTER_COMPARE_LIMIT,
+	STORY_CLUSTER_DESCRIPTION_WEIGHT,
+	STORY_CLUSTER_MAX_GAP_MS,
+	STORY_CLUSTER_SIMILARITY,
+	STORY_CLUSTER_TOPIC_SIMILARITY
+} from '$lib/config/story-clusters';
+import { titleSimilarity } from '$lib/utils/news-filter';
+
+/**
+ * Headlines grouped under one cluster id, newest first
+ */
+export interface StoryGroup<T extends NewsItem = NewsItem> {
+	id: string;
+	/** Representative headline (see pickRepresentative) */
+	lead: T;
+	items: T[];
+	/** Distinct sources, most credible first */
+	sources: string[];
+}
+
+interface PendingCluster {
+	id: string;
+	/** Newest first */
+	items: NewsItem[];
+	topics: Set<string>;
+	first: number;
+	last: number;
+}
+
+/**
+ * Title similarity, raised by description similarity when both headlines carry one
+ */
+export function storySimilarity(a: NewsItem, b: NewsItem): number {
+	const title = titleSimilarity(a.title, b.title);
+	if (!a.description || !b.description) return title;
+	const description = titleSimilarity(a.description, b.description);
+	return Math.max(
+		title,
+		title * (1 - STORY_CLUSTER_DESCRIPTION_WEIGHT) + description * STORY_CLUSTER_DESCRIPTION_WEIGHT
+	);
+}
+
+function byCredibility(a: NewsItem, b: NewsItem): number {
+	return (
+		getSourceWeight(b.source) - getSourceWeight(a.source) ||
+		b.timestamp - a.timestamp ||
+		a.id.localeCompare(b.id)
+	);
+}
+
+/**
+ * Most credible source per SOURCE_WEIGHTS, then the newest headline
+ */
+export function pickRepresentative<T extends NewsItem>(items: T[]): T {
+	return [...items].sort(byCredibility)[0];
+}
+
+function timeGap(cluster: PendingCluster, timestamp: number): number {
+	if (timestamp < cluster.first) return cluster.first - timestamp;
+	if (timestamp > cluster.last) return timestamp - cluster.last;
+	return 0;
+}
+
+function addToCluster(cluster: PendingCluster, item: NewsItem, topics: string[]): void {
+	const index = cluster.items.findIndex((member) => member.timestamp < item.timestamp);
+	cluster.items.splice(index === -1 ? cluster.items.length : index, 0, item);
+	for (const topic of topics) cluster.topics.add(topic);
+	cluster.first = Math.min(cluster.first, item.timestamp);
+	cluster.last = Math.max(cluster.last, item.timestamp);
+}
+
+/**
+ * Cluster ids for `items`, given headlines that already carry one. Existing assignments never
+ * change: each new headline, oldest first, joins the most similar story within
+ * STORY_CLUSTER_MAX_GAP_MS (with a lower bar when they share a topic) or starts a new one
+ * named after itself, so ids stay stable across refreshes.
+ */
+export function assignStoryClusters(
+	items: NewsItem[],
+	clustered: NewsItem[] = []
+): Map<string, string> {
+	const clusters = new Map<string, PendingCluster>();
+	const ordered = [...clustered].sort((a, b) => b.timestamp - a.timestamp);
+	for (const item of ordered) {
+		if (!item.clusterId) continue;
+		let cluster = clusters.get(item.clusterId);
+		if (!cluster) {
+			cluster = {
+				id: item.clusterId,
+				items: [],
+				topics: new Set(),
+				first: item.timestamp,
+				last: item.timestamp
+			};
+			clusters.set(item.clusterId, cluster);
+		}
+		addToCluster(cluster, item, detectTopics(item.title, item.lang));
+	}
+
+	const assigned = new Map<string, string>();
+	const pending = [...items].sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id));
+	for (const item of pending) {
+		const topics = detectTopics(item.title, item.lang);
+		let best: PendingCluster | null = null;
+		let bestSimilarity = 0;
+
+		for (const cluster of clusters.values()) {
+			if (timeGap(cluster, item.timestamp) > STORY_CLUSTER_MAX_GAP_MS) continue;
+			const similarity = Math.max(
+				...cluster.items
+					.slice(0, STORY_CLUSTER_COMPARE_LIMIT)
+					.map((member) => storySimilarity(member, item))
+			);
+			const threshold = topics.some((topic) => cluster.topics.has(topic))
+				? STORY_CLUSTER_TOPIC_SIMILARITY
+				: STORY_CLUSTER_SIMILARITY;
+			if (similarity >= threshold && similarity > bestSimilarity) {
+				best = cluster;
+				bestSimilarity = similarity;
+			}
+		}
+
+		if (!best) {
+			best = {
+				id: item.id,
+				items: [],
+				topics: new Set(),
+				first: item.timestamp,
+				last: item.timestamp
+			};
+			clusters.set(best.id, best);
+		}
+		addToCluster(best, item, topics);
+		assigned.set(item.id, best.id);
+	}
+
+	return assigned;
+}
+
+/**
+ * Group headlines by cluster id, keeping the order in which each story first appears; headlines
+ * without an id stand alone
+ */
+export function groupByCluster<T extends NewsItem>(items: T[]): StoryGroup<T>[] {
+	const groups = new Map<string, T[]>();
+	for (const item of items) {
+		const id = item.clusterId ?? item.id;
+		const members = groups.get(id);
+		if (members) members.push(item);
+		else groups.set(id, [item]);
+	}
+
+	return [...groups].map(([id, members]) => {
+		const ranked = [...members].sort(byCredibility);
+		return {
+			id,
+			lead: ranked[0],
+			items: members,
+			sources: [...new Set(ranked.map((item) => item.source))]
+		};
+	});
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for the alert popups store (view of the server alert inbox)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import type { AlertRecord } from '$lib/types';
+
+function createAlert(id: string, lastFiredAt: number, ackedAt: number | null = null): AlertRecord {
+	return {
+		id,
+		type: 'newsAlert',
+		severity: 'danger',
+		titleKey: 'alerts.title.newsAlert',
+		detail: `Headline ${id}`,
+		firstFiredAt: lastFiredAt,
+		lastFiredAt,
+		lastSeenAt: lastFiredAt,
+		ackedAt,
+		fireCount: 1
+	};
+}
+
+function createJsonResponse(status: number, body: unknown): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' }
+	});
+}
+
+describe('Alert Popups Store', () => {
+	let inbox: AlertRecord[];
+
+	beforeEach(() => {
+		vi.resetModules();
+		inbox = [createAlert('newsAlert:a', 1000)];
+		globalThis.fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+			const url = String(input);
+			if (init?.method === 'POST') {
+				const id = decodeURIComponent(url.split('/')[3]);
+				const alert = inbox.find((entry) => entry.id === id);
+				if (!alert) return createJsonResponse(404, { error: 'not-found' });
+				alert.ackedAt = 5000;
+				return createJsonResponse(200, { record: alert });
+			}
+			return createJsonResponse(200, {
+				alerts: inbox,
+				unacknowledged: inbox.filter((entry) => !entry.ackedAt).length
+			});
+		}) as typeof fetch;
+	});
+
+	it('mirrors the inbox without popping up alerts that fired before the first sync', async () => {
+		const { alertPopups } = await import('./alertPopups');
+
+		await alertPopups.sync();
+
+		const state = get(alertPopups);
+		expect(state.history.map((alert) => alert.id)).toEqual(['newsAlert:a']);
+		expect(state.unacknowledged).toBe(1);
+		expect(state.items).toEqual([]);
+	});
+
+	it('pops up alerts that fired after the previous sync', async () => {
+		const { alertPopups } = await import('./alertPopups');
+		await alertPopups.sync();
+
+		inbox = [createAlert('newsAlert:b', 2000), createAlert('newsAlert:c', 1500, 1800), ...inbox];
+		await alertPopups.sync();
+
+		const state = get(alertPopups);
+		expect(state.items.map((alert) => alert.id)).toEqual(['newsAlert:b']);
+		expect(state.unacknowledged).toBe(2);
+
+		// A further sync does not pop up the same alert again
+		alertPopups.dismiss('newsAlert:b');
+		await alertPopups.sync();
+		expect(get(alertPopups).items).toEqual([]);
+	});
+
+	it('acknowledges alerts on the server', async () => {
+		const { alertPopups } = await import('./alertPopups');
+		await alertPopups.sync();
+
+		await alertPopups.acknowledge('newsAlert:a');
+
+		expect(globalThis.fetch).toHaveBeenCalledWith('/api/alerts/newsAlert%3Aa/ack', {
+			method: 'POST'
+		});
+		const state = get(alertPopups);
+		expect(state.unacknowledged).toBe(0);
+		expect(state.history[0].ackedAt).not.toBeNull();
+	});
+
+	it('restores server state when an acknowledgement fails to send', async () => {
+		const { alertPopups } = await import('./alertPopups');
+		await alertPopups.sync();
+		const serverFetch = globalThis.fetch;
+		globalThis.fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+			if (init?.method === 'POST') throw new TypeError('Failed to fetch');
+			return serverFetch(input, init);
+		}) as typeof fetch;
+
+		await alertPopups.acknowledge('newsAlert:a');
+
+		const state = get(alertPopups);
+		expect(state.unacknowledged).toBe(1);
+		expect(state.history[0].ackedAt).toBeNull();
+	});
+});
@@ -1,13 +1,28 @@
-import { writable } from 'svelte/store';
-import type { AlertPopup } from '$lib/alerts/engine';
+/**
+ * Alert popups store - a view of the shared server alert inbox (/api/alerts).
+ * `history` mirrors the inbox; `items` are toasts for alerts that fired since the last sync.
+ */
+
+import { writable, get } from 'svelte/store';
+import type { AlertRecord } from '$lib/types';
+import { acknowledgeAlert, fetchAlerts } from '$lib/api/alerts';
 
 interface AlertPopupsState {
-	items: AlertPopup[];
-	history: AlertPopup[];
+	items: AlertRecord[];
+	history: AlertRecord[];
+	/** Unacknowledged alerts in the whole inbox (may exceed what history holds) */
+	unacknowledged: number;
 }
 
+const HISTORY_LIMIT = 30;
+const MAX_TOASTS = 10;
+const TOAST_DURATION_MS = 10000;
+
 function createAlertPopupsStore() {
-	const { subscribe, update, set } = writable<AlertPopupsState>({ items: [], history: [] });
+	const store = writable<AlertPopupsState>({ items: [], history: [], unacknowledged: 0 });
+	const { subscribe, update, set } = store;
+	/** Latest last-fired time already shown; null until the first sync */
+	let watermark: number | null = null;
 
 	function dismiss(id: string) {
 		update((state) => ({
@@ -16,32 +31,118 @@ function createAlertPopupsStore() {
 		}));
 	}
 
+	function scheduleDismiss(alerts: AlertRecord[]) {
+		alerts.forEach((alert) => {
+			setTimeout(() => dismiss(alert.id), TOAST_DURATION_MS);
+		});
+	}
+
+	function markAcknowledged(ids: string[]) {
+		const now = Date.now();
+		update((state) => {
+			const pending = state.history.filter((alert) => ids.includes(alert.id) && !alert.ackedAt);
+			return {
+				items: state.items.filter((item) => !ids.includes(item.id)),
+				history: state.history.map((alert) =>
+					ids.includes(alert.id) && !alert.ackedAt ? { ...alert, ackedAt: now } : alert
+				),
+				unacknowledged: Math.max(state.unacknowledged - pending.length, 0)
+			};
+		});
+	}
+
+	/**
+	 * Acknowledge one alert on the server; null when the request failed
+	 */
+	async function sendAcknowledgement(id: string): Promise<AlertRecord | null> {
+		try {
+			return await acknowledgeAlert(id);
+		} catch (error) {
+			console.warn('Failed to acknowledge alert:', error);
+			return null;
+		}
+	}
+
+	async function sync(): Promise<void> {
+		let inbox;
+		try {
+			inbox = await fetchAlerts({ limit: HISTORY_LIMIT });
+		} catch (error) {
+			console.warn('Failed to load alerts:', error);
+			return;
+		}
+
+		// Only alerts that fired after the previous sync pop up; a reload shows none
+		const previous = watermark;
+		const fresh =
+			previous === null
+				? []
+				: inbox.alerts.filter((alert) => !alert.ackedAt && alert.lastFiredAt > previous);
+		watermark = Math.max(previous ?? 0, ...inbox.alerts.map((alert) => alert.lastFiredAt));
+
+		update((state) => {
+			const freshIds = new Set(fresh.map((alert) => alert.id));
+			const kept = state.items.filter(
+				(item) =>
+					!freshIds.has(item.id) &&
+					inbox.alerts.some((alert) => alert.id === item.id && !alert.ackedAt)
+			);
+			return {
+				items: [...fresh, ...kept].slice(0, MAX_TOASTS),
+				history: inbox.alerts,
+				unacknowledged: inbox.unacknowledged
+			};
+		});
+
+		scheduleDismiss(fresh);
+	}
+
+	/**
+	 * Merge alerts pushed by the live stream (fired or acknowledged elsewhere)
+	 */
+	function receive(alerts: AlertRecord[], unacknowledged: number) {
+		if (alerts.length === 0) return;
+		const incoming = new Set(alerts.map((alert) => alert.id));
+		const fresh = alerts.filter(
+			(alert) => !alert.ackedAt && (watermark === null || alert.lastFiredAt > watermark)
+		);
+		watermark = Math.max(watermark ?? 0, ...alerts.map((alert) => alert.lastFiredAt));
+
+		update((state) => ({
+			items: [...fresh, ...state.items.filter((item) => !incoming.has(item.id))].slice(
+				0,
+				MAX_TOASTS
+			),
+			history: [...alerts, ...state.history.filter((alert) => !incoming.has(alert.id))]
+				.sort((a, b) => b.lastFiredAt - a.lastFiredAt)
+				.slice(0, HISTORY_LIMIT),
+			unacknowledged
+		}));
+		scheduleDismiss(fresh);
+	}
+
 	return {
 		subscribe,
-		push(popups: AlertPopup[]) {
-			if (!popups.length) return;
-			update((state) => ({
-				...state,
-				items: [...popups, ...state.items].slice(0, 10),
-				history: [...popups, ...state.history].slice(0, 30)
-			}));
-
-			// Auto-dismiss after 10 seconds
-			popups.forEach((popup) => {
-				setTimeout(() => {
-					dismiss(popup.id);
-				}, 10000);
-			});
-		},
+		sync,
+		receive,
+		/** Hide a toast; the alert stays unacknowledged in the inbox */
 		dismiss,
-		clearHistory() {
-			update((state) => ({
-				...state,
-				history: []
-			}));
+		async acknowledge(id: string) {
+			markAcknowledged([id]);
+			if (!(await sendAcknowledgement(id))) await sync();
+		},
+		async acknowledgeAll() {
+			const ids = get(store)
+				.history.filter((alert) => !alert.ackedAt)
+				.map((alert) => alert.id);
+			if (ids.length === 0) return;
+			markAcknowledged(ids);
+			const results = await Promise.all(ids.map((id) => sendAcknowledgement(id)));
+			if (results.some((record) => !record)) await sync();
 		},
 		clear() {
-			set({ items: [], history: [] });
+			watermark = null;
+			set({ items: [], history: [], unacknowledged: 0 });
 		}
 	};
 }
@@ -1,33 +1,48 @@
 /**
  * Debounced analysis store — runs correlation, narrative, and main-character analysis
  * once per batch of news updates rather than reactively on every category load.
+ * During replay the correlations are scored as of the replayed moment.
  */
 
 import { writable } from 'svelte/store';
 import type { NewsItem } from '$lib/types';
 import type { Locale } from '$lib/i18n/types';
-import { analyzeCorrelations, type CorrelationResults } from '$lib/analysis/correlation';
+import {
+	analyzeCorrelations,
+	type CorrelationReplayContext,
+	type CorrelationResults
+} from '$lib/analysis/correlation';
 import { analyzeNarratives, type NarrativeResults } from '$lib/analysis/narrative';
 import { calculateMainCharacter, type MainCharacterResults } from '$lib/analysis/main-character';
 
 export const correlationResults = writable<CorrelationResults | null>(null);
 export const narrativeResults = writable<NarrativeResults | null>(null);
-export const mainCharResults = writable<MainCharacterResults>({ topCharacter: null, characters: [] });
+export const mainCharResults = writable<MainCharacterResults>({
+	topCharacter: null,
+	characters: [],
+	turningNegative: []
+});
 
 let debounceTimer: ReturnType<typeof setTimeout> | null = null;
 let lastNews: NewsItem[] | null = null;
 let lastLocale: Locale | null = null;
+let lastReplay: CorrelationReplayContext | null = null;
 
-export function scheduleAnalysis(news: NewsItem[], locale: Locale): void {
-	if (news === lastNews && locale === lastLocale) return;
+export function scheduleAnalysis(
+	news: NewsItem[],
+	locale: Locale,
+	replay: CorrelationReplayContext | null = null
+): void {
+	if (news === lastNews && locale === lastLocale && replay === lastReplay) return;
 	lastNews = news;
 	lastLocale = locale;
+	lastReplay = replay;
 
 	if (debounceTimer) clearTimeout(debounceTimer);
 	debounceTimer = setTimeout(() => {
 		debounceTimer = null;
 		const run = () => {
-			correlationResults.set(analyzeCorrelations(news, locale));
+			correlationResults.set(analyzeCorrelations(news, locale, replay ?? undefined));
 			narrativeResults.set(analyzeNarratives(news, locale));
 			mainCharResults.set(calculateMainCharacter(news));
 		};
@@ -0,0 +1,97 @@
+/**
+ * Contracts store - paged federal contract awards from /api/contracts for the Contracts panel
+ */
+
+import { writable, get } from 'svelte/store';
+import type { GovContract, GovContractPage, GovContractSort } from '$lib/types';
+import { fetchGovContracts } from '$lib/api/misc';
+
+const PAGE_SIZE = 20;
+
+export interface ContractsState {
+	items: GovContract[];
+	total: number;
+	page: number;
+	sort: GovContractSort;
+	/** Awarding agency filter; null shows every agency */
+	agency: string | null;
+	agencies: GovContractPage['agencies'];
+	loading: boolean;
+	error: string | null;
+	updatedAt: number | null;
+}
+
+function createContractsStore() {
+	const store = writable<ContractsState>({
+		items: [],
+		total: 0,
+		page: 0,
+		sort: 'date',
+		agency: null,
+		agencies: [],
+		loading: false,
+		error: null,
+		updatedAt: null
+	});
+	const { subscribe, update } = store;
+	let requestId = 0;
+
+	/**
+	 * Load a page for the current sort and agency; page 1 replaces the list, later pages append
+	 */
+	async function loadPage(page: number): Promise<void> {
+		const { sort, agency } = get(store);
+		const current = ++requestId;
+		update((state) => ({ ...state, loading: true }));
+		try {
+			const result = await fetchGovContracts({ page, limit: PAGE_SIZE, sort, agency });
+			// A sort or filter change while loading supersedes this response
+			if (current !== requestId) return;
+			update((state) => ({
+				...state,
+				items: page === 1 ? result.contracts : [...state.items, ...result.contracts],
+				total: result.total,
+				page,
+				agencies: result.agencies,
+				loading: false,
+				error: null,
+				updatedAt: result.updatedAt
+			}));
+		} catch (error) {
+			if (current !== requestId) return;
+			update((state) => ({
+				...state,
+				loading: false,
+				error: error instanceof Error ? error.message : String(error)
+			}));
+		}
+	}
+
+	return {
+		subscribe,
+
+		load(): Promise<void> {
+			return loadPage(1);
+		},
+
+		loadMore(): Promise<void> {
+			const state = get(store);
+			if (state.loading || state.items.length >= state.total) return Promise.resolve();
+			return loadPage(state.page + 1);
+		},
+
+		setSort(sort: GovContractSort): Promise<void> {
+			if (get(store).sort === sort) return Promise.resolve();
+			update((state) => ({ ...state, sort }));
+			return loadPage(1);
+		},
+
+		setAgency(agency: string | null): Promise<void> {
+			if (get(store).agency === agency) return Promise.resolve();
+			update((state) => ({ ...state, agency }));
+			return loadPage(1);
+		}
+	};
+}
+
+export const contracts = createContractsStore();
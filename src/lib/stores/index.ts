@@ -60,6 +60,12 @@ export {
 	type MarketsState
 } from './markets';
 
+// Market history (sparklines)
+export { marketHistory, type MarketHistoryState } from './marketHistory';
+
+// Federal contract awards
+export { contracts, type ContractsState } from './contracts';
+
 // Refresh store
 export {
 	refresh,
@@ -107,9 +113,13 @@ export {
 	showMilitaryBases,
 	showMonitors,
 	showCustomMarkers,
+	showLiveEvents,
+	showUserLayers,
 	visibleLayerCount,
 	totalLayerCount,
-	type MapLayersState
+	isUserLayerVisible,
+	type MapLayersState,
+	type MapLayerKey
 } from './mapLayers';
 
 // Language store
@@ -118,6 +128,18 @@ export { language } from './language';
 // Alert navigation store
 export { alertNavigation, type AlertNavigationTarget } from './alertNavigation';
 
+// Live update stream
+export {
+	stream,
+	streamStatus,
+	type StreamState,
+	type StreamStatus,
+	type StreamConnectOptions
+} from './stream';
+
+// Replay (time-slider playback)
+export { replay, replayActive, replayCorrelationContext, type ReplayState } from './replay';
+
 // Sources store
 export { sources, getEnabledSourcesForCategory } from './sources';
 export type { SourceRecord } from '$lib/types';
@@ -20,8 +20,15 @@ export interface MapLayersState {
 	militaryBases: boolean;
 	monitors: boolean;
 	customMarkers: boolean;
+	liveEvents: boolean;
+	/** Layers imported from GeoJSON/KML files, as a whole */
+	userLayers: boolean;
+	/** Imported layers switched off individually, by id */
+	hiddenUserLayers: string[];
 }
 
+export type MapLayerKey = Exclude<keyof MapLayersState, 'hiddenUserLayers'>;
+
 const DEFAULT_STATE: MapLayersState = {
 	hotspots: true,
 	outages: true,
@@ -34,9 +41,16 @@ const DEFAULT_STATE: MapLayersState = {
 	nuclearSites: true,
 	militaryBases: true,
 	monitors: true,
-	customMarkers: true
+	customMarkers: true,
+	liveEvents: true,
+	userLayers: true,
+	hiddenUserLayers: []
 };
 
+const LAYER_KEYS = (Object.keys(DEFAULT_STATE) as (keyof MapLayersState)[]).filter(
+	(key): key is MapLayerKey => key !== 'hiddenUserLayers'
+);
+
 // Load state from localStorage
 function loadState(): MapLayersState {
 	if (!browser) return DEFAULT_STATE;
@@ -46,7 +60,9 @@ function loadState(): MapLayersState {
 		if (data) {
 			const parsed = JSON.parse(data);
 			// Merge with defaults to handle new properties
-			return { ...DEFAULT_STATE, ...parsed };
+			const state = { ...DEFAULT_STATE, ...parsed };
+			if (!Array.isArray(state.hiddenUserLayers)) state.hiddenUserLayers = [];
+			return state;
 		}
 	} catch (e) {
 		console.warn('Failed to load map layers from localStorage:', e);
@@ -75,7 +91,7 @@ function createMapLayersStore() {
 		/**
 		 * Toggle a specific layer
 		 */
-		toggleLayer(layer: keyof MapLayersState): void {
+		toggleLayer(layer: MapLayerKey): void {
 			update((state) => {
 				const newState = { ...state, [layer]: !state[layer] };
 				saveState(newState);
@@ -86,7 +102,7 @@ function createMapLayersStore() {
 		/**
 		 * Set a specific layer visibility
 		 */
-		setLayer(layer: keyof MapLayersState, visible: boolean): void {
+		setLayer(layer: MapLayerKey, visible: boolean): void {
 			update((state) => {
 				const newState = { ...state, [layer]: visible };
 				saveState(newState);
@@ -94,14 +110,41 @@ function createMapLayersStore() {
 			});
 		},
 
+		/**
+		 * Toggle a single imported layer
+		 */
+		toggleUserLayer(id: string): void {
+			update((state) => {
+				const hidden = state.hiddenUserLayers.includes(id)
+					? state.hiddenUserLayers.filter((hiddenId) => hiddenId !== id)
+					: [...state.hiddenUserLayers, id];
+				const newState = { ...state, hiddenUserLayers: hidden };
+				saveState(newState);
+				return newState;
+			});
+		},
+
+		/**
+		 * Forget a deleted imported layer
+		 */
+		removeUserLayer(id: string): void {
+			update((state) => {
+				if (!state.hiddenUserLayers.includes(id)) return state;
+				const newState = {
+					...state,
+					hiddenUserLayers: state.hiddenUserLayers.filter((hiddenId) => hiddenId !== id)
+				};
+				saveState(newState);
+				return newState;
+			});
+		},
+
 		/**
 		 * Show all layers
 		 */
 		showAll(): void {
-			const allVisible = Object.keys(DEFAULT_STATE).reduce(
-				(acc, key) => ({ ...acc, [key]: true }),
-				{} as MapLayersState
-			);
+			const allVisible: MapLayersState = { ...DEFAULT_STATE, hiddenUserLayers: [] };
+			for (const key of LAYER_KEYS) allVisible[key] = true;
 			saveState(allVisible);
 			set(allVisible);
 		},
@@ -110,12 +153,12 @@ function createMapLayersStore() {
 		 * Hide all layers
 		 */
 		hideAll(): void {
-			const allHidden = Object.keys(DEFAULT_STATE).reduce(
-				(acc, key) => ({ ...acc, [key]: false }),
-				{} as MapLayersState
-			);
-			saveState(allHidden);
-			set(allHidden);
+			update((state) => {
+				const allHidden: MapLayersState = { ...state };
+				for (const key of LAYER_KEYS) allHidden[key] = false;
+				saveState(allHidden);
+				return allHidden;
+			});
 		},
 
 		/**
@@ -144,12 +187,21 @@ export const showNuclearSites = derived(mapLayers, ($mapLayers) => $mapLayers.nu
 export const showMilitaryBases = derived(mapLayers, ($mapLayers) => $mapLayers.militaryBases);
 export const showMonitors = derived(mapLayers, ($mapLayers) => $mapLayers.monitors);
 export const showCustomMarkers = derived(mapLayers, ($mapLayers) => $mapLayers.customMarkers);
+export const showLiveEvents = derived(mapLayers, ($mapLayers) => $mapLayers.liveEvents);
+export const showUserLayers = derived(mapLayers, ($mapLayers) => $mapLayers.userLayers);
+
+/**
+ * Whether an imported layer is drawn: the imported layers are on and it is not switched off
+ */
+export function isUserLayerVisible(state: MapLayersState, id: string): boolean {
+	return state.userLayers && !state.hiddenUserLayers.includes(id);
+}
 
 // Count of visible layers
 export const visibleLayerCount = derived(
 	mapLayers,
-	($mapLayers) => Object.values($mapLayers).filter(Boolean).length
+	($mapLayers) => LAYER_KEYS.filter((key) => $mapLayers[key]).length
 );
 
 // Total layer count
-export const totalLayerCount = Object.keys(DEFAULT_STATE).length;
+export const totalLayerCount = LAYER_KEYS.length;
@@ -0,0 +1,81 @@
+/**
+ * Market history store - sparkline series from /api/markets/history for the market panels
+ */
+
+import { writable, get } from 'svelte/store';
+import { browser } from '$app/environment';
+import type { MarketHistoryRange, MarketTick } from '$lib/types';
+import { INDICES, COMMODITIES, CRYPTO } from '$lib/config/markets';
+import { fetchMarketHistory } from '$lib/api/markets';
+
+const STORAGE_KEY = 'marketHistoryRange';
+
+/** Symbols rendered by MarketsPanel, CommoditiesPanel and CryptoPanel */
+const HISTORY_SYMBOLS = [
+	...INDICES.map((index) => index.symbol),
+	...COMMODITIES.map((commodity) => commodity.symbol),
+	...CRYPTO.map((coin) => coin.symbol.toUpperCase())
+];
+
+export interface MarketHistoryState {
+	range: MarketHistoryRange;
+	series: Record<string, MarketTick[]>;
+	loading: boolean;
+	lastUpdated: number | null;
+}
+
+function loadRange(): MarketHistoryRange {
+	if (!browser) return '1d';
+	try {
+		return localStorage.getItem(STORAGE_KEY) === '7d' ? '7d' : '1d';
+	} catch {
+		return '1d';
+	}
+}
+
+function createMarketHistoryStore() {
+	const store = writable<MarketHistoryState>({
+		range: loadRange(),
+		series: {},
+		loading: false,
+		lastUpdated: null
+	});
+	const { subscribe, update } = store;
+	let requestId = 0;
+
+	async function load(): Promise<void> {
+		const range = get(store).range;
+		const current = ++requestId;
+		update((state) => ({ ...state, loading: true }));
+		try {
+			const series = await fetchMarketHistory(HISTORY_SYMBOLS, range);
+			// A range switch while loading supersedes this response
+			if (current !== requestId) return;
+			update((state) => ({ ...state, series, loading: false, lastUpdated: Date.now() }));
+		} catch (error) {
+			if (current !== requestId) return;
+			console.warn('Failed to load market history:', error);
+			update((state) => ({ ...state, loading: false }));
+		}
+	}
+
+	return {
+		subscribe,
+		load,
+
+		async setRange(range: MarketHistoryRange) {
+			if (get(store).range === range) return;
+			update((state) => ({ ...state, range, series: {} }));
+			if (browser) {
+				try {
+					localStorage.setItem(STORAGE_KEY, range);
+				} catch (e) {
+					console.warn('Failed to save market history range:', e);
+				}
+			}
+			await load();
+		}
+	};
+}
+
+export const marketHistory = createMarketHistoryStore();
@@ -31,11 +31,19 @@ Object.defineProperty(globalThis, 'localStorage', {
 	value: localStorageMock
 });
 
+function createJsonResponse(status: number, body: unknown): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' }
+	});
+}
+
 describe('Monitors Store', () => {
 	beforeEach(async () => {
 		localStorageMock.clear();
 		vi.clearAllMocks();
 		vi.resetModules();
+		globalThis.fetch = vi.fn(async () => createJsonResponse(200, { records: [] })) as typeof fetch;
 	});
 
 	it('should start with empty monitors', async () => {
@@ -149,6 +157,114 @@ describe('Monitors Store', () => {
 		expect(matches[0].matchedKeywords).toContain('ukraine');
 	});
 
+	it('should combine keyword and geofence conditions', async () => {
+		const { monitors } = await import('./monitors');
+		const hormuz = { type: 'radius', lat: 26.57, lon: 56.25, radiusKm: 200 } as const;
+		monitors.addMonitor({ name: 'Near Hormuz', keywords: [], enabled: true, geofence: hormuz });
+		monitors.addMonitor({
+			name: 'Hormuz tankers',
+			keywords: ['tanker'],
+			enabled: true,
+			geofence: hormuz
+		});
+
+		const item = (id: string, title: string, lat?: number, lon?: number) => ({
+			id,
+			title,
+			source: 'Wire',
+			link: `https://wire.example/${id}`,
+			timestamp: Date.now(),
+			category: 'politics' as const,
+			lat,
+			lon
+		});
+		const matches = monitors.scanForMatches([
+			item('inside', 'Tanker seized', 26.5, 56.4),
+			item('port', 'Port traffic slows', 25.8, 56),
+			item('far', 'Tanker protest', 48.86, 2.35),
+			item('unplaced', 'Tanker news')
+		]);
+
+		expect(
+			matches.map((match) => [match.monitor.name, match.item.id, match.matchedKeywords]).sort()
+		).toEqual([
+			['Hormuz tankers', 'inside', ['tanker']],
+			['Near Hormuz', 'inside', []],
+			['Near Hormuz', 'port', []]
+		]);
+	});
+
+	it('should match outages and earthquakes inside geofences', async () => {
+		const now = Date.now();
+		globalThis.fetch = vi.fn(async (input: RequestInfo | URL) => {
+			const url = String(input);
+			if (url.includes('/outages/snapshot')) {
+				return createJsonResponse(200, {
+					generatedAt: now,
+					outages: [
+						{
+							id: 'o1',
+							title: 'Oman outage',
+							country: 'Oman',
+							lat: 26.2,
+							lon: 56.2,
+							detectedAt: now
+						},
+						{
+							id: 'o2',
+							title: 'Chile outage',
+							country: 'Chile',
+							lat: -33,
+							lon: -70,
+							detectedAt: now
+						}
+					]
+				});
+			}
+			if (url.includes('earthquake.usgs.gov')) {
+				return createJsonResponse(200, {
+					features: [
+						{
+							id: 'q1',
+							properties: {
+								mag: 4.6,
+								place: 'southern Iran',
+								time: now - 1000,
+								url: 'https://usgs/q1'
+							},
+							geometry: { coordinates: [56.8, 27.1, 10] }
+						}
+					]
+				});
+			}
+			return createJsonResponse(201, { record: {} });
+		}) as typeof fetch;
+
+		const { monitors } = await import('./monitors');
+		await monitors.syncGeoEvents();
+		expect(globalThis.fetch).not.toHaveBeenCalledWith(expect.stringContaining('usgs'));
+
+		monitors.addMonitor({ name: 'Tehran', keywords: ['tehran'], enabled: true });
+		monitors.addMonitor({
+			name: 'Hormuz',
+			keywords: [],
+			enabled: true,
+			geofence: { type: 'radius', lat: 26.57, lon: 56.25, radiusKm: 200 }
+		});
+		await monitors.syncGeoEvents();
+
+		const { eventMatches } = get(monitors);
+		expect(eventMatches.map((match) => [match.monitor.name, match.event.id])).toEqual([
+			['Hormuz', 'outage:o1'],
+			['Hormuz', 'earthquake:q1']
+		]);
+		expect(eventMatches[1].event).toMatchObject({
+			kind: 'earthquake',
+			title: 'M4.6 earthquake - southern Iran',
+			link: 'https://usgs/q1'
+		});
+	});
+
 	it('should scan with boolean monitor queries', async () => {
 		const { monitors } = await import('./monitors');
 
@@ -311,4 +427,100 @@ describe('Monitors Store', () => {
 		expect(get(enabledMonitors).length).toBe(2);
 		expect(get(monitorCount)).toBe(3);
 	});
+
+	it('should persist new monitors to the server', async () => {
+		const { monitors } = await import('./monitors');
+
+		const monitor = monitors.addMonitor({
+			name: 'Server Monitor',
+			keywords: ['iran'],
+			enabled: true
+		});
+		monitors.toggleMonitor(monitor!.id);
+		await monitors.syncHistoryMatches();
+
+		// Earlier tests' queued writes may land on this mock too, so look up this monitor's calls
+		const calls = vi
+			.mocked(globalThis.fetch)
+			.mock.calls.filter(
+				([url, init]) =>
+					String(url).includes(monitor!.id) || String(init?.body).includes(monitor!.id)
+			);
+		expect(calls[0][0]).toBe('/api/monitors');
+		expect(JSON.parse(calls[0][1]?.body as string)).toMatchObject({
+			id: monitor!.id,
+			name: 'Server Monitor',
+			keywords: ['iran']
+		});
+		expect(calls[1][0]).toBe(`/api/monitors/${monitor!.id}`);
+		expect(calls[1][1]?.method).toBe('PATCH');
+		expect(JSON.parse(calls[1][1]?.body as string)).toEqual({ enabled: false });
+	});
+
+	it('should load monitors from the server and upload local-only ones once', async () => {
+		const local = {
+			id: 'mon_local',
+			name: 'Local',
+			keywords: ['local'],
+			enabled: true,
+			createdAt: 1,
+			matchCount: 0
+		};
+		localStorageMock.setItem('customMonitors', JSON.stringify([local]));
+		const server = { ...local, id: 'mon_server', name: 'Server', matchCount: 4 };
+		const records = [server];
+		globalThis.fetch = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+			if (init?.method === 'POST') {
+				const record = { ...JSON.parse(init.body as string), matchCount: 0 };
+				records.push(record);
+				return createJsonResponse(201, { record });
+			}
+			return createJsonResponse(200, { records });
+		}) as typeof fetch;
+
+		const { monitors } = await import('./monitors');
+		await monitors.init();
+
+		expect(get(monitors).initialized).toBe(true);
+		expect(get(monitors).monitors.map((m) => m.id)).toEqual(['mon_server', 'mon_local']);
+		expect(localStorageMock.getItem('customMonitorsSynced')).not.toBeNull();
+
+		// Once synced, the server list wins
+		records.splice(1);
+		await monitors.init();
+		expect(get(monitors).monitors.map((m) => m.id)).toEqual(['mon_server']);
+	});
+
+	it('should use recorded server matches for match counts and timelines', async () => {
+		const item = {
+			id: 'history-1',
+			title: 'Iran talks resume',
+			source: 'Wire',
+			link: 'https://wire.example/1',
+			timestamp: Date.now() - 2 * 24 * 60 * 60 * 1000,
+			category: 'iran' as const,
+			matchedAt: Date.now()
+		};
+		globalThis.fetch = vi.fn(async (input: RequestInfo | URL) => {
+			if (String(input).includes('/matches')) {
+				return createJsonResponse(200, {
+					monitorId: 'x',
+					total: 42,
+					matches: [item],
+					timeline: [{ day: 0, count: 42 }]
+				});
+			}
+			return createJsonResponse(201, { record: {} });
+		}) as typeof fetch;
+
+		const { monitors } = await import('./monitors');
+		const monitor = monitors.addMonitor({ name: 'Iran', keywords: ['iran'], enabled: true });
+		await monitors.syncHistoryMatches();
+		const matches = monitors.scanForMatches([]);
+
+		expect(matches.map((match) => match.item.id)).toEqual(['history-1']);
+		expect(matches[0].matchedKeywords).toEqual(['iran']);
+		expect(monitors.getMonitor(monitor!.id)?.matchCount).toBe(42);
+		expect(get(monitors).timelines[monitor!.id]).toEqual([{ day: 0, count: 42 }]);
+	});
 });
@@ -1,15 +1,45 @@
 /**
- * Monitors store - custom user monitors CRUD
+ * Monitors store - custom user monitors CRUD, persisted on the server (/api/monitors)
+ * with localStorage as an offline cache
  */
 
 import { writable, derived, get } from 'svelte/store';
 import { browser } from '$app/environment';
-import type { CustomMonitor, NewsItem, MarkerType, ThreatLevel } from '$lib/types';
-import { evaluateBooleanQuery, keywordsToBooleanQuery } from '$lib/utils/boolean-query';
+import type {
+	CustomMonitor,
+	EarthquakeData,
+	NewsItem,
+	MarkerType,
+	MonitorGeoEvent,
+	MonitorTimelinePoint,
+	ThreatLevel
+} from '$lib/types';
+import {
+	evaluateBooleanQuery,
+	getMonitorQuery,
+	type BooleanQueryDocument
+} from '$lib/utils/boolean-query';
 import { getNewsSortTimestamp } from '$lib/utils/news-filter';
+import { isInsideGeofence } from '$lib/shared/geofence';
+import { MAX_MONITORS } from '$lib/config/monitors';
+import { fetchEarthquakes } from '$lib/api/earthquakes';
+import { fetchOutagesSnapshot, type InternetOutage } from '$lib/api/outages';
+import {
+	createMonitor,
+	deleteMonitor as deleteServerMonitor,
+	fetchMonitorMatches,
+	fetchMonitors,
+	updateMonitor as updateServerMonitor,
+	type MonitorMutationResult,
+	type MonitorPayload
+} from '$lib/api/monitors';
 
 const STORAGE_KEY = 'customMonitors';
-const MAX_MONITORS = 20;
+/** Set once this browser's localStorage monitors have been uploaded to the server */
+const SYNCED_KEY = 'customMonitorsSynced';
+const HISTORY_MATCH_LIMIT = 100;
+/** How long fetched outages and earthquakes are reused before geofences are matched again */
+const GEO_EVENT_TTL_MS = 5 * 60 * 1000;
 
 export interface MonitorMatch {
 	monitor: CustomMonitor;
@@ -17,9 +47,24 @@ export interface MonitorMatch {
 	matchedKeywords: string[];
 }
 
+/** Outage or earthquake inside a geofenced monitor's area */
+export interface MonitorEventMatch {
+	monitor: CustomMonitor;
+	event: MonitorGeoEvent;
+	matchedKeywords: string[];
+}
+
 export interface MonitorsState {
 	monitors: CustomMonitor[];
 	matches: MonitorMatch[];
+	/** Matches recorded by the server for each monitor (still in the 7-day news cache) */
+	historyMatches: MonitorMatch[];
+	/** Total recorded matches per monitor ID (may exceed the fetched historyMatches) */
+	historyTotals: Record<string, number>;
+	/** Recorded matches per day, per monitor ID */
+	timelines: Record<string, MonitorTimelinePoint[]>;
+	/** Outages and earthquakes inside the geofences of enabled monitors, newest first */
+	eventMatches: MonitorEventMatch[];
 	initialized: boolean;
 }
 
@@ -52,24 +97,182 @@ function generateId(): string {
 	return `mon_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+function toPayload(monitor: CustomMonitor): MonitorPayload {
+	return {
+		id: monitor.id,
+		name: monitor.name,
+		keywords: monitor.keywords,
+		query: monitor.query,
+		enabled: monitor.enabled,
+		color: monitor.color,
+		location: monitor.location,
+		createdAt: monitor.createdAt,
+		markerType: monitor.markerType,
+		description: monitor.description,
+		threatLevel: monitor.threatLevel,
+		geofence: monitor.geofence
+	};
+}
+
+/**
+ * Keyword and geofence conditions of a monitor, both required when both are set.
+ * Returns the matched query terms, or null when the target does not match.
+ */
+function matchConditions(
+	monitor: CustomMonitor,
+	document: BooleanQueryDocument,
+	location: { lat?: number; lon?: number }
+): string[] | null {
+	const query = getMonitorQuery(monitor);
+	if (!query && !monitor.geofence) return null;
+	if (monitor.geofence && !isInsideGeofence(monitor.geofence, location)) return null;
+	if (!query) return [];
+
+	try {
+		const result = evaluateBooleanQuery(document, query);
+		return result.matches ? result.matchedTerms : null;
+	} catch (error) {
+		console.warn(`Invalid monitor query for "${monitor.name}":`, error);
+		return null;
+	}
+}
+
+function matchMonitor(monitor: CustomMonitor, item: NewsItem): MonitorMatch | null {
+	const matchedKeywords = matchConditions(
+		monitor,
+		{
+			text: `${item.title} ${item.description || ''}`,
+			source: item.source,
+			category: item.category,
+			region: item.region,
+			topics: item.topics
+		},
+		item
+	);
+	return matchedKeywords ? { monitor, item, matchedKeywords } : null;
+}
+
+export function outageToGeoEvent(outage: InternetOutage): MonitorGeoEvent {
+	return {
+		id: `outage:${outage.id}`,
+		kind: 'outage',
+		title: outage.title || `${outage.country} internet outage`,
+		description: [outage.country, outage.region, outage.cause, outage.description]
+			.filter(Boolean)
+			.join(' · '),
+		link: outage.link,
+		timestamp: outage.detectedAt,
+		lat: outage.lat,
+		lon: outage.lon
+	};
+}
+
+export function earthquakeToGeoEvent(quake: EarthquakeData): MonitorGeoEvent {
+	return {
+		id: `earthquake:${quake.id}`,
+		kind: 'earthquake',
+		title: `M${quake.magnitude.toFixed(1)} earthquake - ${quake.place}`,
+		description: `${Math.round(quake.depth)} km deep`,
+		link: quake.url,
+		timestamp: quake.time,
+		lat: quake.lat,
+		lon: quake.lon
+	};
+}
+
+// Only geofenced monitors watch outages and earthquakes
+function matchEvent(monitor: CustomMonitor, event: MonitorGeoEvent): MonitorEventMatch | null {
+	if (!monitor.geofence) return null;
+	const matchedKeywords = matchConditions(
+		monitor,
+		{ text: `${event.title} ${event.description ?? ''}` },
+		event
+	);
+	return matchedKeywords ? { monitor, event, matchedKeywords } : null;
+}
+
+// Merge in-memory and history matches, keeping one entry per monitor/item pair
+function mergeMatches(primary: MonitorMatch[], secondary: MonitorMatch[]): MonitorMatch[] {
+	const seen = new Set<string>();
+	const merged: MonitorMatch[] = [];
+	for (const match of [...primary, ...secondary]) {
+		const key = `${match.monitor.id}:${match.item.id}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		merged.push(match);
+	}
+	return merged.sort((a, b) => getNewsSortTimestamp(b.item) - getNewsSortTimestamp(a.item));
+}
+
 // Create the store
 function createMonitorsStore() {
 	const initialState: MonitorsState = {
 		monitors: loadMonitors(),
 		matches: [],
+		historyMatches: [],
+		historyTotals: {},
+		timelines: {},
+		eventMatches: [],
 		initialized: false
 	};
 
 	const { subscribe, set, update } = writable<MonitorsState>(initialState);
 
+	// Server writes run in order so an update never overtakes the create it depends on
+	let pendingWrites: Promise<void> = Promise.resolve();
+	// Outages and earthquakes from the last syncGeoEvents fetch
+	let geoEvents: MonitorGeoEvent[] = [];
+	let geoEventsFetchedAt = 0;
+
+	function persist(label: string, write: () => Promise<MonitorMutationResult | boolean>): void {
+		if (!browser) return;
+
+		pendingWrites = pendingWrites.then(async () => {
+			try {
+				const result = await write();
+				if (result === false || (typeof result === 'object' && !result.ok)) {
+					console.warn(`Failed to ${label} monitor on server:`, result);
+				}
+			} catch (error) {
+				console.warn(`Failed to ${label} monitor on server:`, error);
+			}
+		});
+	}
+
 	return {
 		subscribe,
 
 		/**
-		 * Initialize store (call after hydration)
+		 * Initialize store (call after hydration). Loads monitors from the server; the
+		 * first time a browser syncs, monitors only found in its localStorage are uploaded.
 		 */
-		init() {
-			update((state) => ({ ...state, initialized: true }));
+		async init(): Promise<void> {
+			if (!browser) {
+				update((state) => ({ ...state, initialized: true }));
+				return;
+			}
+
+			try {
+				let records = await fetchMonitors();
+				if (!localStorage.getItem(SYNCED_KEY)) {
+					const serverIds = new Set(records.map((record) => record.id));
+					const localOnly = get({ subscribe }).monitors.filter((m) => !serverIds.has(m.id));
+					for (const monitor of localOnly) {
+						const result = await createMonitor(toPayload(monitor));
+						if (!result.ok) console.warn(`Failed to upload monitor "${monitor.name}":`, result);
+					}
+					if (localOnly.length > 0) records = await fetchMonitors();
+					localStorage.setItem(SYNCED_KEY, String(Date.now()));
+				}
+
+				update((state) => {
+					saveMonitors(records);
+					return { ...state, monitors: records, initialized: true };
+				});
+			} catch (error) {
+				console.warn('Failed to load monitors from server:', error);
+				update((state) => ({ ...state, initialized: true }));
+			}
 		},
 
 		/**
@@ -111,6 +314,7 @@ function createMonitorsStore() {
 				saveMonitors(newMonitors);
 				return { ...s, monitors: newMonitors };
 			});
+			persist('create', () => createMonitor(toPayload(newMonitor)));
 
 			return newMonitor;
 		},
@@ -131,6 +335,13 @@ function createMonitorsStore() {
 				saveMonitors(newMonitors);
 				return { ...state, monitors: newMonitors };
 			});
+			if (found) {
+				// An explicit null tells the server to drop a removed location or geofence
+				const payload: MonitorPayload = { ...updates };
+				if ('location' in updates) payload.location = updates.location ?? null;
+				if ('geofence' in updates) payload.geofence = updates.geofence ?? null;
+				persist('update', () => updateServerMonitor(id, payload));
+			}
 
 			return found;
 		},
@@ -148,9 +359,18 @@ function createMonitorsStore() {
 				found = true;
 				const newMonitors = state.monitors.filter((m) => m.id !== id);
 				const newMatches = state.matches.filter((m) => m.monitor.id !== id);
+				const historyMatches = state.historyMatches.filter((m) => m.monitor.id !== id);
+				const eventMatches = state.eventMatches.filter((m) => m.monitor.id !== id);
 				saveMonitors(newMonitors);
-				return { ...state, monitors: newMonitors, matches: newMatches };
+				return {
+					...state,
+					monitors: newMonitors,
+					matches: newMatches,
+					historyMatches,
+					eventMatches
+				};
 			});
+			if (found) persist('delete', () => deleteServerMonitor(id));
 
 			return found;
 		},
@@ -159,18 +379,23 @@ function createMonitorsStore() {
 		 * Toggle monitor enabled state
 		 */
 		toggleMonitor(id: string): void {
+			let enabled: boolean | null = null;
+
 			update((state) => {
 				const index = state.monitors.findIndex((m) => m.id === id);
 				if (index === -1) return state;
 
 				const newMonitors = [...state.monitors];
-				newMonitors[index] = {
-					...newMonitors[index],
-					enabled: !newMonitors[index].enabled
-				};
+				enabled = !newMonitors[index].enabled;
+				newMonitors[index] = { ...newMonitors[index], enabled };
 				saveMonitors(newMonitors);
 				return { ...state, monitors: newMonitors };
 			});
+
+			if (enabled !== null) {
+				const next = enabled;
+				persist('update', () => updateServerMonitor(id, { enabled: next }));
+			}
 		},
 
 		/**
@@ -178,35 +403,31 @@ function createMonitorsStore() {
 		 */
 		scanForMatches(newsItems: NewsItem[]): MonitorMatch[] {
 			const state = get({ subscribe });
-			const matches: MonitorMatch[] = [];
+			const localMatches: MonitorMatch[] = [];
 
 			for (const monitor of state.monitors) {
 				if (!monitor.enabled) continue;
 
 				for (const item of newsItems) {
-					const textToSearch = `${item.title} ${item.description || ''}`;
-					const query = monitor.query?.trim() || keywordsToBooleanQuery(monitor.keywords);
-
-					if (!query) continue;
-
-					try {
-						const result = evaluateBooleanQuery(textToSearch, query);
-						if (result.matches) {
-							matches.push({ monitor, item, matchedKeywords: result.matchedTerms });
-						}
-					} catch (error) {
-						console.warn(`Invalid monitor query for "${monitor.name}":`, error);
-					}
+					const match = matchMonitor(monitor, item);
+					if (match) localMatches.push(match);
 				}
 			}
 
-			matches.sort((a, b) => getNewsSortTimestamp(b.item) - getNewsSortTimestamp(a.item));
+			const enabledIds = new Set(state.monitors.filter((m) => m.enabled).map((m) => m.id));
+			const matches = mergeMatches(
+				localMatches,
+				state.historyMatches.filter((match) => enabledIds.has(match.monitor.id))
+			);
 
 			// Update match counts and store matches
 			update((s) => {
 				const newMonitors = s.monitors.map((m) => ({
 					...m,
-					matchCount: matches.filter((match) => match.monitor.id === m.id).length
+					matchCount: Math.max(
+						matches.filter((match) => match.monitor.id === m.id).length,
+						m.enabled ? (s.historyTotals[m.id] ?? 0) : 0
+					)
 				}));
 				saveMonitors(newMonitors);
 				return { ...s, monitors: newMonitors, matches };
@@ -215,11 +436,102 @@ function createMonitorsStore() {
 			return matches;
 		},
 
+		/**
+		 * Load the matches the server has recorded for every enabled monitor.
+		 * Results are merged into matches by the next scanForMatches call.
+		 */
+		async syncHistoryMatches(): Promise<void> {
+			await pendingWrites;
+
+			const state = get({ subscribe });
+			const historyMatches: MonitorMatch[] = [];
+			const historyTotals: Record<string, number> = {};
+			const timelines: Record<string, MonitorTimelinePoint[]> = {};
+
+			for (const monitor of state.monitors) {
+				if (!monitor.enabled || (!getMonitorQuery(monitor) && !monitor.geofence)) continue;
+
+				try {
+					const history = await fetchMonitorMatches(monitor.id, { limit: HISTORY_MATCH_LIMIT });
+					historyTotals[monitor.id] = history.total;
+					timelines[monitor.id] = history.timeline;
+					for (const item of history.matches) {
+						historyMatches.push(
+							matchMonitor(monitor, item) ?? { monitor, item, matchedKeywords: [] }
+						);
+					}
+				} catch (error) {
+					console.warn(`Failed to load history matches for "${monitor.name}":`, error);
+				}
+			}
+
+			update((s) => ({ ...s, historyMatches, historyTotals, timelines }));
+		},
+
+		/**
+		 * Match outages and earthquakes against the geofences of enabled monitors
+		 */
+		scanGeoEvents(events: MonitorGeoEvent[]): MonitorEventMatch[] {
+			const eventMatches: MonitorEventMatch[] = [];
+			for (const monitor of get({ subscribe }).monitors) {
+				if (!monitor.enabled || !monitor.geofence) continue;
+				for (const event of events) {
+					const match = matchEvent(monitor, event);
+					if (match) eventMatches.push(match);
+				}
+			}
+			eventMatches.sort((a, b) => b.event.timestamp - a.event.timestamp);
+
+			update((s) => ({ ...s, eventMatches }));
+			return eventMatches;
+		},
+
+		/**
+		 * Fetch current outages and earthquakes (reused for a few minutes) and match them
+		 * against the geofenced monitors. Nothing is fetched while no monitor has a geofence.
+		 */
+		async syncGeoEvents(): Promise<void> {
+			const fenced = get({ subscribe }).monitors.some((m) => m.enabled && m.geofence);
+			if (!fenced) {
+				update((s) => ({ ...s, eventMatches: [] }));
+				return;
+			}
+
+			if (Date.now() - geoEventsFetchedAt > GEO_EVENT_TTL_MS) {
+				const [outages, earthquakes] = await Promise.allSettled([
+					fetchOutagesSnapshot(),
+					fetchEarthquakes()
+				]);
+				if (outages.status === 'rejected') {
+					console.warn('Failed to load outages for geofenced monitors:', outages.reason);
+				}
+				if (earthquakes.status === 'rejected') {
+					console.warn('Failed to load earthquakes for geofenced monitors:', earthquakes.reason);
+				}
+				geoEvents = [
+					...(outages.status === 'fulfilled' && Array.isArray(outages.value?.outages)
+						? outages.value.outages.map(outageToGeoEvent)
+						: []),
+					...(earthquakes.status === 'fulfilled' ? earthquakes.value.map(earthquakeToGeoEvent) : [])
+				];
+				geoEventsFetchedAt = Date.now();
+			}
+
+			this.scanGeoEvents(geoEvents);
+		},
+
 		/**
 		 * Clear all matches
 		 */
 		clearMatches(): void {
-			update((state) => ({ ...state, matches: [] }));
+			update((state) => ({
+				...state,
+				matches: [],
+				historyMatches: [],
+				historyTotals: {},
+				timelines: {},
+				eventMatches: []
+			}));
 		},
 
 		/**
@@ -265,6 +577,7 @@ function createMonitorsStore() {
 				saveMonitors(newMonitors);
 				return { ...s, monitors: newMonitors };
 			});
+			persist('create', () => createMonitor(toPayload(newMarker)));
 
 			return newMarker;
 		},
@@ -273,10 +586,20 @@ function createMonitorsStore() {
 		 * Reset all monitors
 		 */
 		reset(): void {
+			const ids = get({ subscribe }).monitors.map((m) => m.id);
 			if (browser) {
 				localStorage.removeItem(STORAGE_KEY);
 			}
-			set({ monitors: [], matches: [], initialized: true });
+			set({
+				monitors: [],
+				matches: [],
+				historyMatches: [],
+				historyTotals: {},
+				timelines: {},
+				eventMatches: [],
+				initialized: true
+			});
+			for (const id of ids) persist('delete', () => deleteServerMonitor(id));
 		}
 	};
 }
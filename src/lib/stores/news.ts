@@ -8,6 +8,8 @@ import type { NewsItem, NewsCategory } from '$lib/types';
 import { containsAlertKeyword, detectRegion, detectTopics } from '$lib/config';
 import { deduplicateNews } from '$lib/utils';
 import { mergeNewsItems } from '$lib/shared/news-parser';
+import { getNewsSentiment } from '$lib/shared/sentiment';
+import { geocodeNewsItem, hasNewsLocation } from '$lib/shared/geocoder';
 
 export interface CategoryState {
 	items: NewsItem[];
@@ -59,14 +61,16 @@ function createInitialState(): NewsState {
 // Enrich news item with analysis
 function enrichNewsItem(item: NewsItem): NewsItem {
 	const text = `${item.title} ${item.description || ''}`;
-	const alertResult = containsAlertKeyword(text);
+	const alertResult = containsAlertKeyword(text, item.lang);
 
 	return {
 		...item,
 		isAlert: alertResult.isAlert,
 		alertKeyword: alertResult.keyword,
-		region: item.region ?? detectRegion(text) ?? undefined,
-		topics: item.topics?.length ? item.topics : detectTopics(text)
+		region: item.region ?? detectRegion(text, item.lang) ?? undefined,
+		topics: item.topics?.length ? item.topics : detectTopics(text, item.lang),
+		sentiment: getNewsSentiment(item) ?? undefined,
+		...(hasNewsLocation(item) ? {} : geocodeNewsItem(item))
 	};
 }
 
@@ -195,6 +199,27 @@ function createNewsStore() {
 			persistCategory(category, deduplicatedItems, now);
 		},
 
+		/**
+		 * Replace every category at once from a mixed list, without persisting (replay feed)
+		 */
+		replaceAll(items: NewsItem[]) {
+			const now = Date.now();
+			update((state) => {
+				const categories = { ...state.categories };
+				for (const category of NEWS_CATEGORIES) {
+					categories[category] = {
+						items: deduplicateNews(
+							items.filter((item) => item.category === category).map(enrichNewsItem)
+						),
+						loading: false,
+						error: null,
+						lastUpdated: now
+					};
+				}
+				return { categories, initialized: true };
+			});
+		},
+
 		/**
 		 * Merge incoming delta items with existing in-memory items for a category.
 		 * Used on refresh to avoid discarding accumulated items when the server
@@ -0,0 +1,195 @@
+/**
+ * Replay store - plays the dashboard back from a past moment. While active, the news, markets
+ * and correlation results are fed from /api/replay snapshots instead of the live refresh, and
+ * leaving replay restores the cached live news for the next refresh to bring up to date.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type { ReplaySnapshot } from '$lib/types';
+import type { CorrelationReplayContext } from '$lib/analysis/correlation';
+import { fetchReplaySnapshot } from '$lib/api/misc';
+import {
+	REPLAY_DEFAULT_SPEED,
+	REPLAY_DEFAULT_WINDOW_HOURS,
+	REPLAY_LOOKBACK_HOURS,
+	REPLAY_MAX_WINDOW_HOURS,
+	REPLAY_TICK_MS
+} from '$lib/config/replay';
+import { news } from './news';
+import { markets } from './markets';
+
+export interface ReplayState {
+	active: boolean;
+	playing: boolean;
+	/** Replayed moment */
+	at: number;
+	windowHours: number;
+	/** Replayed seconds per real second */
+	speed: number;
+	loading: boolean;
+	error: string | null;
+	snapshot: ReplaySnapshot | null;
+}
+
+const HOUR_MS = 3600000;
+
+function createInitialState(): ReplayState {
+	return {
+		active: false,
+		playing: false,
+		at: Date.now(),
+		windowHours: REPLAY_DEFAULT_WINDOW_HOURS,
+		speed: REPLAY_DEFAULT_SPEED,
+		loading: false,
+		error: null,
+		snapshot: null
+	};
+}
+
+/**
+ * Earliest moment the slider reaches
+ */
+export function getReplayStart(now = Date.now()): number {
+	return now - REPLAY_LOOKBACK_HOURS * HOUR_MS;
+}
+
+function clampAt(at: number): number {
+	const now = Date.now();
+	return Math.min(Math.max(at, getReplayStart(now)), now);
+}
+
+function createReplayStore() {
+	const store = writable<ReplayState>(createInitialState());
+	const { subscribe, update, set } = store;
+	let requestId = 0;
+	let inFlight = false;
+	let playTimer: ReturnType<typeof setInterval> | null = null;
+
+	function applySnapshot(snapshot: ReplaySnapshot) {
+		news.replaceAll(snapshot.news);
+		markets.setAll(snapshot.markets);
+	}
+
+	async function load(): Promise<void> {
+		const { at, windowHours } = get(store);
+		const current = ++requestId;
+		inFlight = true;
+		update((state) => ({ ...state, loading: true, error: null }));
+		try {
+			const snapshot = await fetchReplaySnapshot(at, windowHours);
+			// A seek, or leaving replay, while loading supersedes this response
+			if (current !== requestId || !get(store).active) return;
+			applySnapshot(snapshot);
+			update((state) => ({ ...state, snapshot, loading: false }));
+		} catch (error) {
+			if (current !== requestId) return;
+			update((state) => ({
+				...state,
+				playing: false,
+				loading: false,
+				error: error instanceof Error ? error.message : String(error)
+			}));
+			stopTimer();
+		} finally {
+			if (current === requestId) inFlight = false;
+		}
+	}
+
+	function stopTimer() {
+		if (playTimer) {
+			clearInterval(playTimer);
+			playTimer = null;
+		}
+	}
+
+	function step() {
+		const state = get(store);
+		const now = Date.now();
+		const at = Math.min(state.at + state.speed * REPLAY_TICK_MS, now);
+		update((current) => ({ ...current, at, playing: at < now }));
+		if (at >= now) stopTimer();
+		// Slow responses drop frames rather than queue them
+		if (!inFlight || at >= now) void load();
+	}
+
+	return {
+		subscribe,
+
+		/**
+		 * Enter replay at `at` (default: one window back from now)
+		 */
+		start(at?: number) {
+			const state = get(store);
+			update((current) => ({
+				...current,
+				active: true,
+				at: clampAt(at ?? Date.now() - state.windowHours * HOUR_MS),
+				error: null
+			}));
+			void load();
+		},
+
+		/**
+		 * Leave replay and put the cached live news back
+		 */
+		stop() {
+			if (!get(store).active) return;
+			stopTimer();
+			requestId += 1;
+			inFlight = false;
+			const { windowHours, speed } = get(store);
+			set({ ...createInitialState(), windowHours, speed });
+			news.clearAll();
+			news.init();
+		},
+
+		seek(at: number) {
+			if (!get(store).active) return;
+			update((state) => ({ ...state, at: clampAt(at) }));
+			void load();
+		},
+
+		play() {
+			const state = get(store);
+			if (!state.active || playTimer) return;
+			update((current) => ({ ...current, playing: true }));
+			playTimer = setInterval(step, REPLAY_TICK_MS);
+		},
+
+		pause() {
+			stopTimer();
+			update((state) => ({ ...state, playing: false }));
+		},
+
+		setSpeed(speed: number) {
+			if (!Number.isFinite(speed) || speed <= 0) return;
+			update((state) => ({ ...state, speed }));
+		},
+
+		setWindow(windowHours: number) {
+			const hours = Math.min(Math.max(Math.round(windowHours), 1), REPLAY_MAX_WINDOW_HOURS);
+			update((state) => ({ ...state, windowHours: hours }));
+			if (get(store).active) void load();
+		}
+	};
+}
+
+export const replay = createReplayStore();
+
+export const replayActive = derived(replay, ($replay) => $replay.active);
+
+let contextSnapshot: ReplaySnapshot | null = null;
+let context: CorrelationReplayContext | null = null;
+
+/** Moment and baseline correlations are scored against while replaying (one per snapshot) */
+export const replayCorrelationContext = derived(
+	replay,
+	($replay): CorrelationReplayContext | null => {
+		const snapshot = $replay.active ? $replay.snapshot : null;
+		if (snapshot !== contextSnapshot) {
+			contextSnapshot = snapshot;
+			context = snapshot ? { at: snapshot.at, hourlyAverages: snapshot.correlationBaseline } : null;
+		}
+		return context;
+	}
+);
@@ -0,0 +1,173 @@
+/**
+ * Tests for the live update stream store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+
+vi.mock('$app/environment', () => ({
+	browser: true
+}));
+
+class FakeEventSource {
+	static readonly CONNECTING = 0;
+	static readonly OPEN = 1;
+	static readonly CLOSED = 2;
+	static instances: FakeEventSource[] = [];
+
+	readyState = FakeEventSource.CONNECTING;
+	onopen: (() => void) | null = null;
+	onerror: (() => void) | null = null;
+	private listeners = new Map<string, Array<(event: MessageEvent<string>) => void>>();
+
+	constructor(public url: string) {
+		FakeEventSource.instances.push(this);
+	}
+
+	addEventListener(type: string, listener: (event: MessageEvent<string>) => void) {
+		this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+	}
+
+	close() {
+		this.readyState = FakeEventSource.CLOSED;
+	}
+
+	open() {
+		this.readyState = FakeEventSource.OPEN;
+		this.onopen?.();
+	}
+
+	fail(readyState: number) {
+		this.readyState = readyState;
+		this.onerror?.();
+	}
+
+	emit(type: string, data: unknown) {
+		const event = new MessageEvent(type, { data: JSON.stringify(data) });
+		this.listeners.get(type)?.forEach((listener) => listener(event));
+	}
+}
+
+describe('Stream Store', () => {
+	beforeEach(() => {
+		vi.resetModules();
+		vi.useFakeTimers();
+		localStorage.clear();
+		FakeEventSource.instances = [];
+		vi.stubGlobal('EventSource', FakeEventSource);
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response(JSON.stringify({ series: {} })))
+		);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it('merges pushed news, markets and alerts into their stores', async () => {
+		const { stream } = await import('./stream');
+		const { news } = await import('./news');
+		const { markets } = await import('./markets');
+		const { alertPopups } = await import('./alertPopups');
+
+		news.setItems('politics', [
+			{
+				id: 'a',
+				title: 'Senate passes budget resolution',
+				link: 'https://example.com/a',
+				timestamp: Date.now() - 2 * 60 * 1000,
+				source: 'AP',
+				category: 'politics'
+			}
+		]);
+		stream.connect({ poll: vi.fn() });
+		const source = FakeEventSource.instances[0];
+		expect(source.url).toBe('/api/stream');
+		source.open();
+		expect(get(stream).status).toBe('open');
+
+		const pushed = {
+			id: 'b',
+			title: 'Earthquake strikes coastal region',
+			link: 'https://example.com/b',
+			timestamp: Date.now() - 60 * 1000,
+			source: 'AP',
+			category: 'politics'
+		};
+		source.emit('news', { category: 'politics', items: [pushed] });
+		// Categories that were never loaded are left for their first load
+		source.emit('news', { category: 'tech', items: [{ ...pushed, id: 't', category: 'tech' }] });
+		expect(
+			get(news)
+				.categories.politics.items.map((item) => item.id)
+				.sort()
+		).toEqual(['a', 'b']);
+		expect(get(news).categories.tech.items).toEqual([]);
+
+		const index = { symbol: '^GSPC', name: 'S&P 500', price: 5000, change: 10, changePercent: 0.2 };
+		source.emit('markets', {
+			indices: [index],
+			sectors: [],
+			commodities: [],
+			crypto: [],
+			marketHealth: {},
+			updatedAt: 3000
+		});
+		expect(get(markets).indices.items).toEqual([index]);
+		// Sparklines reload with the new ticks
+		expect(vi.mocked(fetch).mock.calls[0]?.[0]).toMatch(/^\/api\/markets\/history\?/);
+
+		source.emit('alert', {
+			alerts: [
+				{
+					id: 'newsAlert:b',
+					type: 'newsAlert',
+					severity: 'danger',
+					titleKey: 'alerts.title.newsAlert',
+					firstFiredAt: 4000,
+					lastFiredAt: 4000,
+					lastSeenAt: 4000,
+					ackedAt: null,
+					fireCount: 1
+				}
+			],
+			unacknowledged: 1
+		});
+		expect(get(alertPopups).items.map((alert) => alert.id)).toEqual(['newsAlert:b']);
+		expect(get(alertPopups).unacknowledged).toBe(1);
+
+		source.emit('health', { lastRefreshTime: 5000, newsCount: 2, errors: [], clients: 1 });
+		expect(get(stream).health?.lastRefreshTime).toBe(5000);
+
+		stream.disconnect();
+		expect(source.readyState).toBe(FakeEventSource.CLOSED);
+	});
+
+	it('polls while the stream is down and catches up once it reconnects', async () => {
+		const { stream } = await import('./stream');
+		const poll = vi.fn();
+
+		stream.connect({ poll, pollIntervalMs: 1000 });
+		const first = FakeEventSource.instances[0];
+		first.open();
+
+		// Refused outright: the store reconnects itself after a backoff
+		first.fail(FakeEventSource.CLOSED);
+		expect(get(stream).status).toBe('polling');
+		vi.advanceTimersByTime(3000);
+		expect(poll).toHaveBeenCalledTimes(3);
+
+		vi.advanceTimersByTime(2000);
+		const second = FakeEventSource.instances[1];
+		expect(second).toBeDefined();
+		second.open();
+		expect(get(stream).status).toBe('open');
+		expect(poll).toHaveBeenCalledTimes(6);
+
+		vi.advanceTimersByTime(5000);
+		expect(poll).toHaveBeenCalledTimes(6);
+		stream.disconnect();
+	});
+});
@@ -0,0 +1,198 @@
+/**
+ * Stream store - live updates from /api/stream (Server-Sent Events) merged into the
+ * news, markets and alert stores, with polling while the stream is down. News and market
+ * updates are held back while a replay drives those stores.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import { browser } from '$app/environment';
+import type { StreamEventMap, StreamEventType } from '$lib/types';
+import { news } from './news';
+import { markets } from './markets';
+import { marketHistory } from './marketHistory';
+import { alertPopups } from './alertPopups';
+import { replay } from './replay';
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'polling';
+
+export interface StreamState {
+	status: StreamStatus;
+	lastEventAt: number | null;
+	health: StreamEventMap['health'] | null;
+}
+
+export interface StreamConnectOptions {
+	/** Fetches whatever the stream would have delivered; called while the stream is down */
+	poll: () => void | Promise<void>;
+	pollIntervalMs?: number;
+}
+
+const STREAM_URL = '/api/stream';
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const RECONNECT_BASE_DELAY_MS = 5000;
+const RECONNECT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+function createStreamStore() {
+	const { subscribe, update, set } = writable<StreamState>({
+		status: 'idle',
+		lastEventAt: null,
+		health: null
+	});
+
+	let source: EventSource | null = null;
+	let options: StreamConnectOptions | null = null;
+	let pollTimer: ReturnType<typeof setInterval> | null = null;
+	let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	let reconnectAttempts = 0;
+	let hasDropped = false;
+
+	function runPoll() {
+		try {
+			void Promise.resolve(options?.poll()).catch((error) => {
+				console.warn('Stream fallback poll failed:', error);
+			});
+		} catch (error) {
+			console.warn('Stream fallback poll failed:', error);
+		}
+	}
+
+	function startPolling() {
+		if (pollTimer || !options) return;
+		pollTimer = setInterval(runPoll, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+	}
+
+	function stopPolling() {
+		if (pollTimer) {
+			clearInterval(pollTimer);
+			pollTimer = null;
+		}
+	}
+
+	function handleEvent<K extends StreamEventType>(type: K, data: StreamEventMap[K]) {
+		update((state) => ({
+			...state,
+			lastEventAt: Date.now(),
+			health: type === 'health' ? (data as StreamEventMap['health']) : state.health
+		}));
+		const replaying = get(replay).active;
+
+		switch (type) {
+			case 'news': {
+				const { category, items } = data as StreamEventMap['news'];
+				// Categories the page has not loaded yet pick these up on their first load
+				if (!replaying && get(news).categories[category]?.lastUpdated) {
+					news.mergeItems(category, items);
+				}
+				break;
+			}
+			case 'markets': {
+				if (replaying) break;
+				const payload = data as StreamEventMap['markets'];
+				markets.setAll(payload);
+				for (const category of ['indices', 'sectors', 'commodities', 'crypto'] as const) {
+					markets.setHealth(category, payload.marketHealth?.[category]);
+				}
+				void marketHistory.load();
+				break;
+			}
+			case 'alert': {
+				const { alerts, unacknowledged } = data as StreamEventMap['alert'];
+				alertPopups.receive(alerts, unacknowledged);
+				break;
+			}
+		}
+	}
+
+	function listen<K extends StreamEventType>(eventSource: EventSource, type: K) {
+		eventSource.addEventListener(type, (event) => {
+			try {
+				handleEvent(type, JSON.parse((event as MessageEvent<string>).data) as StreamEventMap[K]);
+			} catch (error) {
+				console.warn(`Invalid ${type} stream event:`, error);
+			}
+		});
+	}
+
+	function open() {
+		if (!options || typeof EventSource === 'undefined') return;
+		update((state) => ({ ...state, status: hasDropped ? 'polling' : 'connecting' }));
+
+		const eventSource = new EventSource(STREAM_URL);
+		source = eventSource;
+		listen(eventSource, 'news');
+		listen(eventSource, 'markets');
+		listen(eventSource, 'alert');
+		listen(eventSource, 'health');
+
+		eventSource.onopen = () => {
+			reconnectAttempts = 0;
+			stopPolling();
+			update((state) => ({ ...state, status: 'open' }));
+			// Catch up on whatever was stored while the stream was down
+			if (hasDropped) runPoll();
+			hasDropped = false;
+		};
+
+		eventSource.onerror = () => {
+			hasDropped = true;
+			update((state) => ({ ...state, status: 'polling' }));
+			startPolling();
+
+			// The browser retries on its own unless the connection was refused outright
+			if (eventSource.readyState === EventSource.CLOSED) {
+				eventSource.close();
+				if (source === eventSource) source = null;
+				scheduleReconnect();
+			}
+		};
+	}
+
+	function scheduleReconnect() {
+		if (reconnectTimer || !options) return;
+		const delay = Math.min(
+			RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts,
+			RECONNECT_MAX_DELAY_MS
+		);
+		reconnectAttempts += 1;
+		reconnectTimer = setTimeout(() => {
+			reconnectTimer = null;
+			open();
+		}, delay);
+	}
+
+	return {
+		subscribe,
+
+		/**
+		 * Open the stream. Without EventSource support the store just polls.
+		 */
+		connect(connectOptions: StreamConnectOptions) {
+			if (!browser || source) return;
+			options = connectOptions;
+			if (typeof EventSource === 'undefined') {
+				update((state) => ({ ...state, status: 'polling' }));
+				startPolling();
+				return;
+			}
+			open();
+		},
+
+		disconnect() {
+			source?.close();
+			source = null;
+			options = null;
+			stopPolling();
+			if (reconnectTimer) {
+				clearTimeout(reconnectTimer);
+				reconnectTimer = null;
+			}
+			reconnectAttempts = 0;
+			hasDropped = false;
+			set({ status: 'idle', lastEventAt: null, health: null });
+		}
+	};
+}
+
+export const stream = createStreamStore();
+
+export const streamStatus = derived(stream, ($stream) => $stream.status);
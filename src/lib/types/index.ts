@@ -38,6 +38,25 @@ export type SourceMutationError =
 /**
  * A news item from any source (RSS, GDELT, etc.)
  */
+/**
+ * ISO 639-1 code of a headline's language, detected on ingest
+ */
+export type NewsLanguage =
+	| 'en'
+	| 'es'
+	| 'pt'
+	| 'fr'
+	| 'de'
+	| 'it'
+	| 'fa'
+	| 'ar'
+	| 'ru'
+	| 'uk'
+	| 'he'
+	| 'zh'
+	| 'ja'
+	| 'ko';
+
 export interface NewsItem {
 	id: string;
 	title: string;
@@ -52,6 +71,48 @@ export interface NewsItem {
 	alertKeyword?: string;
 	region?: string;
 	topics?: string[];
+	/** Story the headline belongs to, shared with other sources' coverage of the same event */
+	clusterId?: string;
+	/** Detected language; absent when the headline was too short to tell */
+	lang?: NewsLanguage;
+	/** Title translated by the configured translation provider (non-English headlines only) */
+	translatedTitle?: string;
+	/** Lexicon sentiment from -1 to 1, scored at ingest; absent when no lexicon covers the language */
+	sentiment?: number;
+	/** Position of the place the headline names, geocoded at ingest; absent when none is known */
+	lat?: number;
+	lon?: number;
+	/** ISO 3166-1 alpha-2 code of that place; absent for places at sea */
+	countryCode?: string;
+	/** Gazetteer name of that place */
+	place?: string;
+	/** Imported map areas (see UserMapLayer) whose polygons contain that place */
+	areas?: string[];
+}
+
+/**
+ * Full-text search hit over cached news
+ */
+export interface NewsSearchResult extends NewsItem {
+	/** HTML-escaped title with matched terms wrapped in <mark> */
+	highlightedTitle: string;
+	/** HTML-escaped description excerpt with matched terms wrapped in <mark> */
+	snippet?: string;
+	/** Relevance score (higher is better) */
+	score: number;
+}
+
+/**
+ * Response of GET /api/search
+ */
+export interface NewsSearchResponse {
+	query: string;
+	results: NewsSearchResult[];
+	total: number;
+	from: number;
+	to: number;
+	limit: number;
+	offset: number;
 }
 
 /**
@@ -114,6 +175,50 @@ export interface MarketCategoryHealth {
 
 export type MarketHealthMap = Record<MarketCategoryKey, MarketCategoryHealth>;
 
+/**
+ * Stored price observation for a market symbol (/api/markets/history)
+ */
+export interface MarketTick {
+	timestamp: number;
+	price: number;
+	changePercent: number | null;
+}
+
+/**
+ * Sparkline window: intraday ticks or seven days of hourly closes
+ */
+export type MarketHistoryRange = '1d' | '7d';
+
+/**
+ * Event study: market reaction after correlation signals fire (/api/analysis/event-study)
+ */
+export type EventStudySignalKind = 'pattern' | 'topic';
+
+export interface EventStudyHorizonStats {
+	/** Resolved observations with a non-flat move */
+	samples: number;
+	/** Observations that moved in the expected direction */
+	hits: number;
+	hitRate: number | null;
+	/** Mean move in percent, signed so that positive is the expected direction */
+	avgMove: number | null;
+}
+
+export interface EventStudySignalStats {
+	kind: EventStudySignalKind;
+	signalId: string;
+	name: string;
+	events: number;
+	lastFiredAt: number;
+	instruments: string[];
+	horizons: Record<import('$lib/config/event-study').EventStudyHorizon, EventStudyHorizonStats>;
+}
+
+export interface EventStudySummary {
+	patterns: EventStudySignalStats[];
+	topics: EventStudySignalStats[];
+}
+
 /**
  * Sector heatmap data
  */
@@ -169,17 +274,130 @@ export interface PredictionData {
 	url: string;
 }
 
+/**
+ * Direction of a whale transfer relative to known exchange wallets
+ */
+export type WhaleFlow = 'exchange-inflow' | 'exchange-outflow' | 'exchange-internal' | 'wallet';
+
 /**
  * Whale transaction data
  */
 export interface WhaleTransaction {
+	/** `${chain}:${hash}:${token}` */
+	id: string;
 	hash: string;
+	chain: string;
 	from: string;
 	to: string;
+	/** Exchange or entity owning the sending wallet, when known */
+	fromLabel: string | null;
+	toLabel: string | null;
+	/** Amount in token units */
 	value: number;
+	valueUsd: number;
 	token: string;
 	timestamp: number;
 	type: 'transfer' | 'swap' | 'mint' | 'burn';
+	flow: WhaleFlow;
+	/** Provider that reported the transaction */
+	source: string;
+}
+
+export type PredictionCategory = 'politics' | 'geopolitics' | 'tech' | 'finance' | 'elections';
+
+/** Windows over which prediction-market probability moves are measured */
+export type PredictionDeltaWindow = '1h' | '24h' | '7d';
+
+/**
+ * Polymarket market with its current "yes" probability (0-100)
+ */
+export interface Prediction {
+	id: string;
+	question: string;
+	yes: number;
+	volume: number;
+	volume24hr?: number;
+	url: string;
+	endDate?: string;
+	category: PredictionCategory;
+	/**
+	 * Change in the yes probability (percentage points) over each window, from the server's
+	 * snapshot history; null while the history is shorter than the window
+	 */
+	deltas?: Record<PredictionDeltaWindow, number | null>;
+	/** CORRELATION_TOPICS ids the question matches */
+	topics?: string[];
+	/** MAINSTREAM_NARRATIVE_PATTERNS ids the question matches */
+	narratives?: string[];
+}
+
+/**
+ * Stored yes probability of a prediction market (/api/predictions/[id]/history)
+ */
+export interface PredictionSnapshot {
+	timestamp: number;
+	yes: number;
+}
+
+export type PredictionHistoryRange = '24h' | '7d' | '30d';
+
+/** Backends the server can write the AI brief with */
+export type AIBriefProviderId = 'openai' | 'anthropic' | 'extractive';
+
+/**
+ * Cluster of headlines about one story in the extractive brief
+ */
+export interface BriefStory {
+	/** Representative headline: from the most credible source, newest first */
+	title: string;
+	link: string;
+	source: string;
+	/** Every source that carried the story, most credible first */
+	sources: string[];
+	headlineCount: number;
+	/** Newest headline in the cluster */
+	timestamp: number;
+	region: string | null;
+	topics: string[];
+}
+
+/**
+ * Compound pattern whose topics the top stories cover
+ */
+export interface BriefSignal {
+	id: string;
+	name: string;
+	/** CORRELATION_TOPICS ids of the pattern found in the stories */
+	topics: string[];
+}
+
+/**
+ * Structured brief built without a model: ranked story clusters, the regions they affect and
+ * the compound signals they relate to
+ */
+export interface ExtractiveSummary {
+	stories: BriefStory[];
+	regions: Array<{ region: string; count: number }>;
+	signals: BriefSignal[];
+}
+
+/**
+ * Situation brief generated from recent headlines (/api/ai/brief)
+ */
+export interface AIBrief {
+	text: string;
+	generatedAt: number;
+	headlineCount: number;
+	/** News item ids the brief was built from */
+	headlineIds: string[];
+	provider: AIBriefProviderId;
+	/** Model name; null for the extractive provider */
+	model: string | null;
+	language: string;
+	/** Structured form of the extractive brief */
+	summary?: ExtractiveSummary;
+	/** Served from the SQLite cache rather than generated for this request */
+	cached: boolean;
 }
 
 /**
@@ -187,24 +405,90 @@ export interface WhaleTransaction {
  */
 export interface GovContract {
 	id: string;
+	/** Procurement instrument id (PIID) */
+	awardId: string;
 	title: string;
 	agency: string;
+	subAgency: string | null;
 	value: number;
 	vendor: string;
+	naicsCode: string | null;
+	/** Base obligation date, YYYY-MM-DD */
 	date: string;
 	url: string;
+	/** When the award was first ingested */
+	firstSeenAt: number;
+	/** Recent headlines naming the vendor */
+	headlineMentions: number;
+	headlineTitle: string | null;
+	headlineUrl: string | null;
+}
+
+export type GovContractSort = 'date' | 'value';
+
+export interface GovContractPage {
+	contracts: GovContract[];
+	total: number;
+	page: number;
+	limit: number;
+	/** Award counts per agency, for the agency filter */
+	agencies: Array<{ agency: string; count: number }>;
+	updatedAt: number | null;
 }
 
+export type LayoffSector =
+	| 'technology'
+	| 'finance'
+	| 'retail'
+	| 'manufacturing'
+	| 'automotive'
+	| 'healthcare'
+	| 'media'
+	| 'logistics'
+	| 'energy'
+	| 'hospitality'
+	| 'government'
+	| 'services'
+	| 'other';
+
+/** WARN notices are state filings; news reports are headlines from the tech/finance feeds */
+export type LayoffReportKind = 'warn' | 'news';
+
 /**
- * Layoff announcement data
+ * Layoff event - one company's cut, merged across every WARN notice and headline reporting it
  */
 export interface LayoffData {
+	id: string;
 	company: string;
-	count: number;
-	percentage?: number;
+	/** Affected workers; null when no report gave a headcount */
+	count: number | null;
+	/** Share of the workforce cut, from headlines that state one */
+	percentage: number | null;
+	/** Earliest report date (YYYY-MM-DD) */
 	date: string;
+	sector: LayoffSector;
+	/** Headline (or WARN notice description) shown for the event */
+	title: string;
 	source: string;
 	url: string;
+	kind: LayoffReportKind;
+	/** State of the first WARN notice, if any */
+	state: string | null;
+	/** Number of WARN notices and headlines merged into this event */
+	reports: number;
+}
+
+export interface LayoffSectorStats {
+	sector: LayoffSector;
+	events: number;
+	workers: number;
+}
+
+export interface LayoffSummary {
+	layoffs: LayoffData[];
+	/** Sector aggregates over the trailing 30 and 90 days, largest headcount first */
+	sectors: Record<'30d' | '90d', LayoffSectorStats[]>;
+	updatedAt: number | null;
 }
 
 /**
@@ -232,6 +516,14 @@ export type MarkerType = 'monitor' | 'hotspot' | 'chokepoint' | 'cable' | 'nucle
  */
 export type ThreatLevel = 'critical' | 'high' | 'elevated' | 'low';
 
+/**
+ * Area a monitor watches: a radius around a point, or a polygon drawn on the map whose
+ * ring is [lon, lat] positions, closed and counterclockwise as in GeoJSON
+ */
+export type MonitorGeofence =
+	| { type: 'radius'; lat: number; lon: number; radiusKm: number }
+	| { type: 'polygon'; coordinates: GeoJSON.Position[] };
+
 /**
  * Custom monitor created by user
  */
@@ -256,8 +548,189 @@ export interface CustomMonitor {
 	description?: string;
 	/** Threat level for hotspot markers */
 	threatLevel?: ThreatLevel;
+	/** Only geolocated items inside this area match; combines with the query when both are set */
+	geofence?: MonitorGeofence;
+}
+
+/**
+ * Located event other than a headline that geofenced monitors are matched against
+ */
+export interface MonitorGeoEvent {
+	id: string;
+	kind: 'outage' | 'earthquake';
+	title: string;
+	description?: string;
+	link: string;
+	timestamp: number;
+	lat: number;
+	lon: number;
 }
 
+export type MonitorMutationError =
+	| 'required'
+	| 'invalid-query'
+	| 'invalid-location'
+	| 'invalid-geofence'
+	| 'duplicate'
+	| 'limit-reached'
+	| 'not-found';
+
+/** Geometries an imported map layer may hold; positions are [lon, lat] */
+export type MapLayerGeometry =
+	| GeoJSON.Point
+	| GeoJSON.MultiPoint
+	| GeoJSON.LineString
+	| GeoJSON.MultiLineString
+	| GeoJSON.Polygon
+	| GeoJSON.MultiPolygon;
+
+export type MapLayerFeature = GeoJSON.Feature<MapLayerGeometry, Record<string, unknown>>;
+
+export type MapLayerFeatureCollection = GeoJSON.FeatureCollection<
+	MapLayerGeometry,
+	Record<string, unknown>
+>;
+
+export type MapLayerFormat = 'geojson' | 'kml';
+
+/**
+ * Map layer imported by the user from a GeoJSON or KML file
+ */
+export interface UserMapLayer {
+	id: string;
+	name: string;
+	/** Color of features without their own styling */
+	color?: string;
+	/** Format of the imported file */
+	format: MapLayerFormat;
+	data: MapLayerFeatureCollection;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export type MapLayerMutationError =
+	| 'required'
+	| 'invalid-file'
+	| 'empty-layer'
+	| 'too-large'
+	| 'limit-reached'
+	| 'not-found';
+
+/**
+ * Matches recorded for a monitor per day (UTC)
+ */
+export interface MonitorTimelinePoint {
+	day: number;
+	count: number;
+}
+
+/**
+ * Response of GET /api/monitors/:id/matches
+ */
+export interface MonitorMatchHistory {
+	monitorId: string;
+	/** All recorded matches, including items already expired from the news cache */
+	total: number;
+	/** Most recent matches still in the news cache */
+	matches: Array<NewsItem & { matchedAt: number }>;
+	timeline: MonitorTimelinePoint[];
+}
+
+/**
+ * Entry in the shared alert inbox: one per fired item (news item, signal, market symbol)
+ */
+export interface AlertRecord {
+	/** `${type}:${key}` */
+	id: string;
+	type: import('$lib/alerts/engine').AlertType;
+	severity: import('$lib/alerts/engine').AlertSeverity;
+	titleKey: string;
+	detail?: string;
+	panelId?: import('$lib/config').PanelId;
+	tabId?: import('$lib/alerts/engine').AlertPopup['tabId'];
+	sourceId?: string;
+	url?: string;
+	firstFiredAt: number;
+	/** Latest time the alert fired; it fires again when it reappears after a gap */
+	lastFiredAt: number;
+	lastSeenAt: number;
+	ackedAt: number | null;
+	fireCount: number;
+}
+
+/**
+ * Outbound alert delivery channel
+ */
+export type AlertChannelType = 'webhook' | 'slack' | 'discord' | 'email' | 'ntfy' | 'gotify';
+
+export interface AlertChannel {
+	id: string;
+	name: string;
+	type: AlertChannelType;
+	/** Endpoint URL (webhook, Slack/Discord webhook, ntfy topic, Gotify server) or email recipients */
+	target: string;
+	/** Whether an access token is stored; the token itself is never returned */
+	hasToken: boolean;
+	/** Severities to deliver; empty delivers all */
+	severities: import('$lib/alerts/engine').AlertSeverity[];
+	/** Alert types to deliver; empty delivers all */
+	alertTypes: import('$lib/alerts/engine').AlertType[];
+	enabled: boolean;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export type AlertChannelMutationError =
+	| 'required'
+	| 'invalid-type'
+	| 'invalid-target'
+	| 'invalid-filter'
+	| 'not-found';
+
+/**
+ * One alert sent (or given up on) for one channel
+ */
+export interface AlertDelivery {
+	id: number;
+	channelId: string;
+	alertId: string;
+	alertType: string;
+	severity: string;
+	title: string;
+	status: 'sent' | 'failed';
+	attempts: number;
+	error?: string;
+	createdAt: number;
+	completedAt: number;
+}
+
+/**
+ * Payloads of the live update stream (/api/stream), keyed by SSE event name
+ */
+export interface StreamEventMap {
+	/** Items newly stored for a category */
+	news: { category: NewsCategory; items: NewsItem[] };
+	markets: {
+		indices: MarketItem[];
+		sectors: SectorPerformance[];
+		commodities: MarketItem[];
+		crypto: CryptoItem[];
+		marketHealth: MarketHealthMap;
+		updatedAt: number;
+	};
+	/** Alerts that fired or were acknowledged */
+	alert: { alerts: AlertRecord[]; unacknowledged: number };
+	health: {
+		lastRefreshTime: number | null;
+		newsCount: number;
+		/** Errors of the last background refresh cycle */
+		errors: string[];
+		clients: number;
+	};
+}
+
+export type StreamEventType = keyof StreamEventMap;
+
 /**
  * Panel configuration
  */
@@ -302,6 +775,132 @@ export interface MainCharacterResult {
 	sentiment: 'positive' | 'neutral' | 'negative' | 'mixed';
 }
 
+/**
+ * Named entities extracted from headlines on ingest
+ */
+export type EntityType = 'person' | 'organization' | 'location';
+
+export interface TrendingEntity {
+	/** `${type}:${slug}` */
+	id: string;
+	name: string;
+	type: EntityType;
+	/** Headlines mentioning the entity within the window */
+	mentions: number;
+	/** Mentions in the window before, for growth */
+	previousMentions: number;
+	sources: number;
+	/** People only: matched by PERSON_PATTERNS, i.e. already counted by the Main Character panel */
+	tracked: boolean;
+}
+
+export interface EntityEdge {
+	source: string;
+	target: string;
+	/** Headlines mentioning both entities */
+	weight: number;
+}
+
+export interface EntitySummary {
+	people: TrendingEntity[];
+	organizations: TrendingEntity[];
+	locations: TrendingEntity[];
+	/** Untracked people gaining mentions, fastest-growing first */
+	emerging: TrendingEntity[];
+	/** Co-mentions among the listed entities */
+	edges: EntityEdge[];
+	windowHours: number;
+	updatedAt: number;
+}
+
+/**
+ * Headline sentiment aggregated over time
+ */
+export interface SentimentPoint {
+	/** Start of the bucket */
+	timestamp: number;
+	/** Mean score of the headlines in the bucket, -1..1 */
+	score: number;
+	count: number;
+}
+
+export interface SentimentSeries {
+	/** Narrative id, topic id or person name */
+	key: string;
+	/** Mean over the whole window */
+	score: number;
+	count: number;
+	points: SentimentPoint[];
+}
+
+export interface SentimentTrends {
+	narratives: SentimentSeries[];
+	topics: SentimentSeries[];
+	people: SentimentSeries[];
+	windowHours: number;
+	bucketHours: number;
+	updatedAt: number;
+}
+
+/**
+ * Map hotspot threat level, hand-set in config or computed from news volume
+ */
+export type HotspotLevel = 'critical' | 'high' | 'elevated' | 'low';
+
+export interface HotspotLevelPoint {
+	/** Start of the hour the level was recorded in */
+	timestamp: number;
+	count: number;
+	level: HotspotLevel;
+}
+
+export interface HotspotStatus {
+	name: string;
+	/** Hand-set level from HOTSPOTS, the floor of `level` */
+	staticLevel: HotspotLevel;
+	/** Level from coverage against the rolling baseline alone */
+	computedLevel: HotspotLevel;
+	level: HotspotLevel;
+	/** Matching headlines in the scoring window */
+	count: number;
+	baselineMedian: number;
+	baselinePoints: number;
+	robustZScore: number;
+	/** Level recorded a day earlier; null while there is no history that old */
+	previousLevel: HotspotLevel | null;
+	history: HotspotLevelPoint[];
+}
+
+/**
+ * Response of GET /api/hotspots
+ */
+export interface HotspotLevels {
+	hotspots: HotspotStatus[];
+	windowHours: number;
+	updatedAt: number;
+}
+
+/**
+ * Dashboard state reconstructed for a past moment, as served by GET /api/replay
+ */
+export interface ReplaySnapshot {
+	at: number;
+	windowHours: number;
+	/** Headlines within ±windowHours of `at` */
+	news: NewsItem[];
+	/** Last stored tick per symbol at `at` */
+	markets: {
+		indices: MarketItem[];
+		sectors: SectorPerformance[];
+		commodities: MarketItem[];
+		crypto: CryptoItem[];
+	};
+	/** Hourly topic counts before `at`, oldest first - the correlation baseline of the moment */
+	correlationBaseline: Record<string, number[]>;
+	/** Alert log as it stood at `at` */
+	alerts: AlertRecord[];
+}
+
 /**
  * Service client configuration
  */
@@ -43,6 +43,47 @@ describe('boolean monitor queries', () => {
 		).toEqual(['iran', 'strait of hormuz', 'tanker', 'football']);
 	});
 
+	it('supports prefix wildcards on word starts', () => {
+		expect(evaluateBooleanQuery('New sanctions announced', 'sanction*').matches).toBe(true);
+		expect(evaluateBooleanQuery('Software update', 'war*').matches).toBe(false);
+		expect(evaluateBooleanQuery('Warships deployed', 'war*').matchedTerms).toEqual(['war*']);
+	});
+
+	it('supports NEAR/n proximity between terms', () => {
+		const text = 'Navy escorts tankers through the Strait of Hormuz';
+
+		expect(evaluateBooleanQuery(text, 'navy NEAR/5 hormuz').matches).toBe(false);
+		expect(evaluateBooleanQuery(text, 'navy NEAR/6 hormuz').matches).toBe(true);
+		expect(evaluateBooleanQuery(text, 'hormuz NEAR/4 tanker*').matches).toBe(true);
+		expect(evaluateBooleanQuery(text, '"strait of" NEAR/0 hormuz').matches).toBe(true);
+		expect(evaluateBooleanQuery('Troops near the border', 'troops near border').matches).toBe(true);
+	});
+
+	it('matches field qualifiers against item metadata', () => {
+		const item = {
+			text: 'Oil tanker seized',
+			source: 'Al Jazeera English',
+			category: 'intel',
+			region: 'MENA',
+			topics: ['CONFLICT', 'ENERGY']
+		};
+
+		expect(evaluateBooleanQuery(item, 'source:"al jazeera" AND tanker').matches).toBe(true);
+		expect(evaluateBooleanQuery(item, 'category:intel region:mena topic:energy').matches).toBe(
+			true
+		);
+		expect(evaluateBooleanQuery(item, 'tanker NOT category:intel').matches).toBe(false);
+		expect(evaluateBooleanQuery('Oil tanker seized', 'category:intel').matches).toBe(false);
+	});
+
+	it('rejects malformed extensions', () => {
+		expect(validateBooleanQuery('source:')).toBe('Missing value for source: in monitor query');
+		expect(validateBooleanQuery('(a OR b) NEAR/3 c')).toBe(
+			'NEAR needs a single search term on each side in monitor query'
+		);
+		expect(extractBooleanQueryTerms('sanction* AND category:finance')).toEqual(['sanction']);
+	});
+
 	it('converts legacy keyword arrays to OR queries', () => {
 		expect(keywordsToBooleanQuery(['ukraine', 'kyiv', 'power grid'])).toBe(
 			'ukraine OR kyiv OR "power grid"'
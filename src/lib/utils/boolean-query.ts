@@ -1,20 +1,80 @@
-type TokenType = 'term' | 'and' | 'or' | 'not' | 'lparen' | 'rparen' | 'eof';
+import type { CustomMonitor } from '$lib/types';
+
+type TokenType =
+	| 'term'
+	| 'prefix'
+	| 'field'
+	| 'and'
+	| 'or'
+	| 'not'
+	| 'near'
+	| 'lparen'
+	| 'rparen'
+	| 'eof';
 
 interface Token {
 	type: TokenType;
 	value: string;
+	field?: BooleanQueryField;
+	distance?: number;
 }
 
-type QueryNode =
+export type BooleanQueryField = 'source' | 'category' | 'region' | 'topic';
+
+/** Text leaves that can take part in a NEAR expression */
+export type BooleanQueryTextNode =
 	| { type: 'term'; value: string }
-	| { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
-	| { type: 'not'; child: QueryNode };
+	| { type: 'prefix'; value: string };
+
+export type BooleanQueryNode =
+	| BooleanQueryTextNode
+	| { type: 'field'; field: BooleanQueryField; value: string }
+	| { type: 'near'; left: BooleanQueryTextNode; right: BooleanQueryTextNode; distance: number }
+	| { type: 'and' | 'or'; left: BooleanQueryNode; right: BooleanQueryNode }
+	| { type: 'not'; child: BooleanQueryNode };
 
 export interface BooleanQueryResult {
 	matches: boolean;
 	matchedTerms: string[];
 }
 
+/**
+ * Searchable view of a news item. A plain string only carries text, so field
+ * qualifiers never match it.
+ */
+export interface BooleanQueryDocument {
+	text: string;
+	source?: string;
+	category?: string;
+	region?: string;
+	topics?: string[];
+}
+
+const FIELD_NAMES = new Set<BooleanQueryField>(['source', 'category', 'region', 'topic']);
+const NEAR_PATTERN = /^near\/(\d{1,3})$/i;
+
+function readQuoted(query: string, start: number): { value: string; end: number } {
+	const quote = query[start];
+	let value = '';
+	let i = start + 1;
+
+	while (i < query.length && query[i] !== quote) {
+		if (query[i] === '\\' && query[i + 1] === quote) {
+			value += quote;
+			i += 2;
+			continue;
+		}
+		value += query[i];
+		i += 1;
+	}
+
+	if (i >= query.length) {
+		throw new Error('Unclosed quote in monitor query');
+	}
+
+	return { value: value.trim(), end: i + 1 };
+}
+
 function tokenize(query: string): Token[] {
 	const tokens: Token[] = [];
 	let i = 0;
@@ -46,27 +106,10 @@ function tokenize(query: string): Token[] {
 		}
 
 		if (char === '"' || char === "'") {
-			const quote = char;
-			let value = '';
-			i += 1;
-
-			while (i < query.length && query[i] !== quote) {
-				if (query[i] === '\\' && query[i + 1] === quote) {
-					value += quote;
-					i += 2;
-					continue;
-				}
-				value += query[i];
-				i += 1;
-			}
-
-			if (i >= query.length) {
-				throw new Error('Unclosed quote in monitor query');
-			}
-
-			i += 1;
-			if (value.trim()) {
-				tokens.push({ type: 'term', value: value.trim() });
+			const { value, end } = readQuoted(query, i);
+			i = end;
+			if (value) {
+				tokens.push({ type: 'term', value });
 			}
 			continue;
 		}
@@ -75,11 +118,38 @@ function tokenize(query: string): Token[] {
 		while (i < query.length && !/[\s(),]/.test(query[i])) {
 			value += query[i];
 			i += 1;
+
+			// Field qualifier with a quoted value, e.g. source:"Al Jazeera"
+			const fieldName = value.slice(0, -1).toLowerCase() as BooleanQueryField;
+			if (value.endsWith(':') && FIELD_NAMES.has(fieldName) && /["']/.test(query[i] ?? '')) {
+				const quoted = readQuoted(query, i);
+				i = quoted.end;
+				value += quoted.value;
+				break;
+			}
 		}
 
 		const normalized = value.toLowerCase();
+		const colonIndex = value.indexOf(':');
+		const fieldName = normalized.slice(0, colonIndex) as BooleanQueryField;
+		const nearMatch = NEAR_PATTERN.exec(value);
+
 		if (normalized === 'and' || normalized === 'or' || normalized === 'not') {
 			tokens.push({ type: normalized, value });
+		} else if (nearMatch) {
+			tokens.push({ type: 'near', value, distance: Number.parseInt(nearMatch[1], 10) });
+		} else if (colonIndex > 0 && FIELD_NAMES.has(fieldName)) {
+			const fieldValue = value.slice(colonIndex + 1).trim();
+			if (!fieldValue) {
+				throw new Error(`Missing value for ${fieldName}: in monitor query`);
+			}
+			tokens.push({ type: 'field', field: fieldName, value: fieldValue });
+		} else if (value.length > 1 && value.endsWith('*')) {
+			const stem = value.replace(/\*+$/, '');
+			if (!stem) {
+				throw new Error('Wildcard needs a prefix in monitor query');
+			}
+			tokens.push({ type: 'prefix', value: stem });
 		} else if (value.trim()) {
 			tokens.push({ type: 'term', value: value.trim() });
 		}
@@ -94,7 +164,7 @@ class Parser {
 
 	constructor(private readonly tokens: Token[]) {}
 
-	parse(): QueryNode {
+	parse(): BooleanQueryNode {
 		const node = this.parseOr();
 		if (this.peek().type !== 'eof') {
 			throw new Error('Unexpected token in monitor query');
@@ -102,7 +172,7 @@ class Parser {
 		return node;
 	}
 
-	private parseOr(): QueryNode {
+	private parseOr(): BooleanQueryNode {
 		let node = this.parseAnd();
 
 		while (this.match('or')) {
@@ -112,7 +182,7 @@ class Parser {
 		return node;
 	}
 
-	private parseAnd(): QueryNode {
+	private parseAnd(): BooleanQueryNode {
 		let node = this.parseNot();
 
 		while (this.match('and') || this.startsPrimary()) {
@@ -122,21 +192,42 @@ class Parser {
 		return node;
 	}
 
-	private parseNot(): QueryNode {
+	private parseNot(): BooleanQueryNode {
 		if (this.match('not')) {
 			return { type: 'not', child: this.parseNot() };
 		}
 
-		return this.parsePrimary();
+		return this.parseNear();
+	}
+
+	private parseNear(): BooleanQueryNode {
+		const left = this.parsePrimary();
+		const token = this.peek();
+		if (!this.match('near')) return left;
+
+		const right = this.parsePrimary();
+		if (!isTextNode(left) || !isTextNode(right) || this.peek().type === 'near') {
+			throw new Error('NEAR needs a single search term on each side in monitor query');
+		}
+
+		return { type: 'near', left, right, distance: token.distance ?? 10 };
 	}
 
-	private parsePrimary(): QueryNode {
+	private parsePrimary(): BooleanQueryNode {
 		const token = this.peek();
 
 		if (this.match('term')) {
 			return { type: 'term', value: token.value };
 		}
 
+		if (this.match('prefix')) {
+			return { type: 'prefix', value: token.value };
+		}
+
+		if (this.match('field')) {
+			return { type: 'field', field: token.field!, value: token.value };
+		}
+
 		if (this.match('lparen')) {
 			const node = this.parseOr();
 			if (!this.match('rparen')) {
@@ -150,7 +241,13 @@ class Parser {
 
 	private startsPrimary(): boolean {
 		const type = this.peek().type;
-		return type === 'term' || type === 'not' || type === 'lparen';
+		return (
+			type === 'term' ||
+			type === 'prefix' ||
+			type === 'field' ||
+			type === 'not' ||
+			type === 'lparen'
+		);
 	}
 
 	private match(type: TokenType): boolean {
@@ -164,7 +261,15 @@ class Parser {
 	}
 }
 
-function parse(query: string): QueryNode {
+function isTextNode(node: BooleanQueryNode): node is BooleanQueryTextNode {
+	return node.type === 'term' || node.type === 'prefix';
+}
+
+/**
+ * Parse a monitor/search query into its syntax tree.
+ * Throws with a user-facing message when the query is invalid.
+ */
+export function parseBooleanQuery(query: string): BooleanQueryNode {
 	const tokens = tokenize(query);
 	if (tokens[0].type === 'eof') {
 		throw new Error('Monitor query is empty');
@@ -172,18 +277,103 @@ function parse(query: string): QueryNode {
 	return new Parser(tokens).parse();
 }
 
-function evaluateNode(node: QueryNode, normalizedText: string): BooleanQueryResult {
+function tokenizeWords(text: string): string[] {
+	return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/** Start positions (in word tokens) where a text node matches, plus its length in tokens */
+function findTextPositions(
+	node: BooleanQueryTextNode,
+	words: string[]
+): { starts: number[]; length: number } {
+	const parts = tokenizeWords(node.value);
+	const starts: number[] = [];
+	if (parts.length === 0) return { starts, length: 0 };
+
+	for (let i = 0; i + parts.length <= words.length; i++) {
+		const matched = parts.every((part, offset) => {
+			const word = words[i + offset];
+			const isLast = offset === parts.length - 1;
+			return node.type === 'prefix' && isLast ? word.startsWith(part) : word === part;
+		});
+		if (matched) starts.push(i);
+	}
+
+	return { starts, length: parts.length };
+}
+
+function matchesNear(
+	node: Extract<BooleanQueryNode, { type: 'near' }>,
+	normalizedText: string
+): boolean {
+	const words = tokenizeWords(normalizedText);
+	const left = findTextPositions(node.left, words);
+	const right = findTextPositions(node.right, words);
+
+	return left.starts.some((leftStart) =>
+		right.starts.some((rightStart) => {
+			const gap =
+				rightStart >= leftStart
+					? rightStart - (leftStart + left.length)
+					: leftStart - (rightStart + right.length);
+			return gap >= 0 && gap <= node.distance;
+		})
+	);
+}
+
+function matchesField(
+	node: Extract<BooleanQueryNode, { type: 'field' }>,
+	document: BooleanQueryDocument
+): boolean {
+	const value = node.value.toLowerCase();
+	switch (node.field) {
+		case 'source':
+			return !!document.source && document.source.toLowerCase().includes(value);
+		case 'category':
+			return document.category?.toLowerCase() === value;
+		case 'region':
+			return document.region?.toLowerCase() === value;
+		case 'topic':
+			return (document.topics ?? []).some((topic) => topic.toLowerCase() === value);
+	}
+}
+
+function evaluateNode(
+	node: BooleanQueryNode,
+	normalizedText: string,
+	document: BooleanQueryDocument
+): BooleanQueryResult {
 	if (node.type === 'term') {
 		const matches = normalizedText.includes(node.value.toLowerCase());
 		return { matches, matchedTerms: matches ? [node.value] : [] };
 	}
 
+	if (node.type === 'prefix') {
+		const matches = findTextPositions(node, tokenizeWords(normalizedText)).starts.length > 0;
+		return { matches, matchedTerms: matches ? [`${node.value}*`] : [] };
+	}
+
+	if (node.type === 'near') {
+		const matches = matchesNear(node, normalizedText);
+		const terms = [node.left, node.right].map((child) =>
+			child.type === 'prefix' ? `${child.value}*` : child.value
+		);
+		return { matches, matchedTerms: matches ? terms : [] };
+	}
+
+	if (node.type === 'field') {
+		return { matches: matchesField(node, document), matchedTerms: [] };
+	}
+
 	if (node.type === 'not') {
-		return { matches: !evaluateNode(node.child, normalizedText).matches, matchedTerms: [] };
+		return {
+			matches: !evaluateNode(node.child, normalizedText, document).matches,
+			matchedTerms: []
+		};
 	}
 
-	const left = evaluateNode(node.left, normalizedText);
-	const right = evaluateNode(node.right, normalizedText);
+	const left = evaluateNode(node.left, normalizedText, document);
+	const right = evaluateNode(node.right, normalizedText, document);
 	const matches =
 		node.type === 'and' ? left.matches && right.matches : left.matches || right.matches;
 
@@ -193,14 +383,24 @@ function evaluateNode(node: QueryNode, normalizedText: string): BooleanQueryResu
 	};
 }
 
-export function evaluateBooleanQuery(text: string, query: string): BooleanQueryResult {
-	const ast = parse(query);
-	return evaluateNode(ast, text.toLowerCase());
+/**
+ * Evaluate a query against plain text or a news item view.
+ * Bare terms and phrases match as case-insensitive substrings, `prefix*` matches
+ * the start of a word, `a NEAR/n b` needs at most n words between both terms and
+ * `source:`, `category:`, `region:` and `topic:` match the item's metadata.
+ */
+export function evaluateBooleanQuery(
+	input: string | BooleanQueryDocument,
+	query: string
+): BooleanQueryResult {
+	const ast = parseBooleanQuery(query);
+	const document = typeof input === 'string' ? { text: input } : input;
+	return evaluateNode(ast, document.text.toLowerCase(), document);
 }
 
 export function validateBooleanQuery(query: string): string | null {
 	try {
-		parse(query);
+		parseBooleanQuery(query);
 		return null;
 	} catch (error) {
 		return error instanceof Error ? error.message : 'Invalid monitor query';
@@ -210,12 +410,16 @@ export function validateBooleanQuery(query: string): string | null {
 export function extractBooleanQueryTerms(query: string): string[] {
 	const terms: string[] = [];
 
-	function collect(node: QueryNode): void {
-		if (node.type === 'term') {
+	function collect(node: BooleanQueryNode): void {
+		if (node.type === 'term' || node.type === 'prefix') {
 			terms.push(node.value);
 			return;
 		}
 
+		if (node.type === 'field') {
+			return;
+		}
+
 		if (node.type === 'not') {
 			collect(node.child);
 			return;
@@ -225,7 +429,7 @@ export function extractBooleanQueryTerms(query: string): string[] {
 		collect(node.right);
 	}
 
-	collect(parse(query));
+	collect(parseBooleanQuery(query));
 	return [...new Set(terms.map((term) => term.trim().toLowerCase()).filter(Boolean))];
 }
 
@@ -236,3 +440,10 @@ export function keywordsToBooleanQuery(keywords: string[]): string {
 		.map((keyword) => (/\s/.test(keyword) ? `"${keyword.replaceAll('"', '\\"')}"` : keyword))
 		.join(' OR ');
 }
+
+/**
+ * Effective query of a monitor: its boolean query, or its keywords joined with OR
+ */
+export function getMonitorQuery(monitor: Pick<CustomMonitor, 'query' | 'keywords'>): string {
+	return monitor.query?.trim() || keywordsToBooleanQuery(monitor.keywords);
+}
@@ -98,6 +98,13 @@ export function escapeHtml(text: string): string {
 	return div.innerHTML;
 }
 
+/**
+ * Escape text for use as a literal inside a RegExp
+ */
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
  * Get date from days ago
  */
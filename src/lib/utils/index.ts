@@ -10,6 +10,7 @@ export {
 	formatPercentChange,
 	getChangeClass,
 	escapeHtml,
+	escapeRegExp,
 	getDateDaysAgo,
 	getToday,
 	latLonToXY
@@ -1,4 +1,5 @@
 import type { NewsCategory, NewsItem } from '$lib/types';
+import { escapeRegExp } from './format';
 
 type RegionalCategory = 'brazil' | 'latam';
 
@@ -353,10 +354,6 @@ function normalizeText(text: string): string {
 		.trim();
 }
 
-function escapeRegExp(value: string): string {
-	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
 function matchesTerm(text: string, term: string): boolean {
 	const normalizedTerm = normalizeText(term);
 	if (!normalizedTerm) return false;
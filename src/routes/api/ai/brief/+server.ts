@@ -0,0 +1,22 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getAIBrief, isAIBriefLanguage } from '$lib/server/ai-brief';
+
+/**
+ * Situation brief of the last 24 hours of headlines: ?lang=en|pt-BR (defaults to
+ * AI_BRIEF_LANGUAGE), ?refresh=true regenerates instead of serving a cached brief that is at
+ * least five minutes old
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	const language = url.searchParams.get('lang');
+	if (language !== null && !isAIBriefLanguage(language)) {
+		return json({ error: 'invalid-language' }, { status: 400 });
+	}
+
+	return json(
+		await getAIBrief({
+			language: language ?? undefined,
+			refresh: url.searchParams.get('refresh') === 'true'
+		})
+	);
+};
@@ -0,0 +1,13 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getAlerts } from '$lib/server/alerts';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const limit = Number.parseInt(url.searchParams.get('limit') ?? '', 10);
+	return json(
+		getAlerts({
+			limit: Number.isFinite(limit) ? limit : undefined,
+			unacknowledgedOnly: url.searchParams.get('unacknowledged') === 'true'
+		})
+	);
+};
@@ -0,0 +1,11 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { acknowledgeAlert } from '$lib/server/alerts';
+
+export const POST: RequestHandler = async ({ params }) => {
+	const result = acknowledgeAlert(params.id);
+	if (!result.ok) {
+		return json({ error: result.error }, { status: 404 });
+	}
+	return json({ record: result.record });
+};
@@ -0,0 +1,27 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	addAlertChannel,
+	getAlertChannels,
+	type AlertChannelInput
+} from '$lib/server/alert-delivery';
+
+export const GET: RequestHandler = async () => {
+	return json({ records: getAlertChannels() });
+};
+
+export const POST: RequestHandler = async ({ request }) => {
+	let payload: AlertChannelInput;
+	try {
+		payload = await request.json();
+	} catch {
+		return json({ error: 'required' }, { status: 400 });
+	}
+
+	const result = addAlertChannel(payload ?? {});
+	if (!result.ok) {
+		return json({ error: result.error }, { status: 400 });
+	}
+
+	return json({ record: result.record }, { status: 201 });
+};
@@ -0,0 +1,30 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	removeAlertChannel,
+	updateAlertChannel,
+	type AlertChannelInput
+} from '$lib/server/alert-delivery';
+
+export const PATCH: RequestHandler = async ({ params, request }) => {
+	let payload: AlertChannelInput;
+	try {
+		payload = await request.json();
+	} catch {
+		return json({ error: 'required' }, { status: 400 });
+	}
+
+	const result = updateAlertChannel(params.id, payload ?? {});
+	if (!result.ok) {
+		return json({ error: result.error }, { status: result.error === 'not-found' ? 404 : 400 });
+	}
+	return json({ record: result.record });
+};
+
+export const DELETE: RequestHandler = async ({ params }) => {
+	const result = removeAlertChannel(params.id);
+	if (!result.ok) {
+		return json({ error: result.error }, { status: 404 });
+	}
+	return json({ ok: true });
+};
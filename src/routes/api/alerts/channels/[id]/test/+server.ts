@@ -0,0 +1,11 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { sendTestAlert } from '$lib/server/alert-delivery';
+
+export const POST: RequestHandler = async ({ params }) => {
+	const result = await sendTestAlert(params.id);
+	if (!result.ok) {
+		return json({ error: result.error }, { status: result.error === 'not-found' ? 404 : 502 });
+	}
+	return json({ ok: true });
+};
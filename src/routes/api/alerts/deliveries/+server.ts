@@ -0,0 +1,11 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getAlertDeliveryLog } from '$lib/server/alert-delivery';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const limit = Number.parseInt(url.searchParams.get('limit') ?? '100', 10);
+	const channelId = url.searchParams.get('channel') ?? undefined;
+	return json({
+		records: getAlertDeliveryLog(Number.isFinite(limit) ? limit : 100, channelId)
+	});
+};
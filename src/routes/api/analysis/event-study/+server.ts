@@ -0,0 +1,14 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getEventStudySummary } from '$lib/server/event-study';
+
+const DEFAULT_DAYS = 90;
+
+export const GET: RequestHandler = async ({ url }) => {
+	const days = Number.parseInt(url.searchParams.get('days') ?? `${DEFAULT_DAYS}`, 10);
+	const windowDays = Number.isFinite(days) && days > 0 ? days : DEFAULT_DAYS;
+	return json({
+		...getEventStudySummary(Date.now() - windowDays * 86400000),
+		days: windowDays
+	});
+};
@@ -0,0 +1,35 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getGovContractAgencyCounts, getGovContractsPage } from '$lib/server/db';
+import { getContractRefreshStatus } from '$lib/server/contracts';
+import type { GovContractPage } from '$lib/types';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+	const parsed = Number.parseInt(value ?? '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export const GET: RequestHandler = async ({ url }) => {
+	const sort = url.searchParams.get('sort') ?? 'date';
+	if (sort !== 'date' && sort !== 'value') {
+		return json({ error: 'invalid-sort' }, { status: 400 });
+	}
+
+	const page = parsePositiveInt(url.searchParams.get('page'), 1);
+	const limit = Math.min(parsePositiveInt(url.searchParams.get('limit'), DEFAULT_LIMIT), MAX_LIMIT);
+	const agency = url.searchParams.get('agency')?.trim() || undefined;
+
+	const { contracts, total } = getGovContractsPage({ page, limit, agency, sort });
+	const body: GovContractPage = {
+		contracts,
+		total,
+		page,
+		limit,
+		agencies: getGovContractAgencyCounts(),
+		updatedAt: getContractRefreshStatus().updatedAt
+	};
+	return json(body);
+};
@@ -0,0 +1,22 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { DEFAULT_ENTITY_LIMIT, DEFAULT_ENTITY_WINDOW_HOURS } from '$lib/config/entities';
+import { getEntitySummary } from '$lib/server/entities';
+
+const MAX_WINDOW_HOURS = 24 * 7;
+const MAX_LIMIT = 50;
+
+export const GET: RequestHandler = async ({ url }) => {
+	const hoursParam = Number.parseInt(url.searchParams.get('hours') ?? '', 10);
+	const windowHours =
+		Number.isFinite(hoursParam) && hoursParam > 0
+			? Math.min(hoursParam, MAX_WINDOW_HOURS)
+			: DEFAULT_ENTITY_WINDOW_HOURS;
+	const limitParam = Number.parseInt(url.searchParams.get('limit') ?? '', 10);
+	const limit =
+		Number.isFinite(limitParam) && limitParam > 0
+			? Math.min(limitParam, MAX_LIMIT)
+			: DEFAULT_ENTITY_LIMIT;
+
+	return json(getEntitySummary({ windowHours, limit }));
+};
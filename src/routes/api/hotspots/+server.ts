@@ -0,0 +1,16 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { HOTSPOT_BASELINE_DAYS } from '$lib/config/hotspots';
+import { DEFAULT_HOTSPOT_HISTORY_HOURS, getHotspotLevels } from '$lib/server/hotspots';
+
+const MAX_HISTORY_HOURS = HOTSPOT_BASELINE_DAYS * 24;
+
+export const GET: RequestHandler = async ({ url }) => {
+	const hoursParam = Number.parseInt(url.searchParams.get('hours') ?? '', 10);
+	const historyHours =
+		Number.isFinite(hoursParam) && hoursParam > 0
+			? Math.min(hoursParam, MAX_HISTORY_HOURS)
+			: DEFAULT_HOTSPOT_HISTORY_HOURS;
+
+	return json(getHotspotLevels({ historyHours }));
+};
@@ -0,0 +1,23 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { addMapLayer, getMapLayers, type MapLayerInput } from '$lib/server/map-layers';
+
+export const GET: RequestHandler = async () => {
+	return json({ records: getMapLayers() });
+};
+
+export const POST: RequestHandler = async ({ request }) => {
+	let payload: MapLayerInput;
+	try {
+		payload = await request.json();
+	} catch {
+		return json({ error: 'required' }, { status: 400 });
+	}
+
+	const result = addMapLayer(payload ?? {});
+	if (!result.ok) {
+		return json({ error: result.error }, { status: result.error === 'too-large' ? 413 : 400 });
+	}
+
+	return json({ record: result.record }, { status: 201 });
+};
@@ -0,0 +1,39 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getMapLayer,
+	removeMapLayer,
+	updateMapLayer,
+	type MapLayerInput
+} from '$lib/server/map-layers';
+
+export const GET: RequestHandler = async ({ params }) => {
+	const record = getMapLayer(params.id);
+	if (!record) {
+		return json({ error: 'not-found' }, { status: 404 });
+	}
+	return json({ record });
+};
+
+export const PATCH: RequestHandler = async ({ params, request }) => {
+	let payload: Pick<MapLayerInput, 'name' | 'color'>;
+	try {
+		payload = await request.json();
+	} catch {
+		return json({ error: 'required' }, { status: 400 });
+	}
+
+	const result = updateMapLayer(params.id, payload ?? {});
+	if (!result.ok) {
+		return json({ error: result.error }, { status: result.error === 'not-found' ? 404 : 400 });
+	}
+	return json({ record: result.record });
+};
+
+export const DELETE: RequestHandler = async ({ params }) => {
+	const result = removeMapLayer(params.id);
+	if (!result.ok) {
+		return json({ error: result.error }, { status: 404 });
+	}
+	return json({ ok: true });
+};
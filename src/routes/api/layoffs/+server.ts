@@ -0,0 +1,7 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getLayoffSummary } from '$lib/server/layoffs';
+
+export const GET: RequestHandler = async () => {
+	return json(getLayoffSummary());
+};
@@ -0,0 +1,31 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getMarketHistory,
+	isMarketHistoryRange,
+	MAX_HISTORY_SYMBOLS
+} from '$lib/server/market-history';
+
+/**
+ * Price history for sparklines: ?symbol=CL=F,^GSPC&range=1d|7d
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	const symbols = [
+		...new Set(
+			url.searchParams
+				.getAll('symbol')
+				.flatMap((value) => value.split(','))
+				.map((symbol) => symbol.trim())
+				.filter(Boolean)
+		)
+	];
+	if (symbols.length === 0) return json({ error: 'required' }, { status: 400 });
+	if (symbols.length > MAX_HISTORY_SYMBOLS) {
+		return json({ error: 'too-many-symbols' }, { status: 400 });
+	}
+
+	const range = url.searchParams.get('range') ?? '1d';
+	if (!isMarketHistoryRange(range)) return json({ error: 'invalid-range' }, { status: 400 });
+
+	return json({ range, ...getMarketHistory(symbols, range) });
+};
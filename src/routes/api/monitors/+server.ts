@@ -0,0 +1,23 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { addMonitor, getAllMonitors, type MonitorInput } from '$lib/server/monitors';
+
+export const GET: RequestHandler = async () => {
+	return json({ records: getAllMonitors() });
+};
+
+export const POST: RequestHandler = async ({ request }) => {
+	let payload: MonitorInput;
+	try {
+		payload = await request.json();
+	} catch {
+		return json({ error: 'required' }, { status: 400 });
+	}
+
+	const result = addMonitor(payload ?? {});
+	if (!result.ok) {
+		return json({ error: result.error }, { status: result.error === 'duplicate' ? 409 : 400 });
+	}
+
+	return json({ record: result.record }, { status: 201 });
+};
@@ -0,0 +1,34 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getMonitor, removeMonitor, updateMonitor, type MonitorInput } from '$lib/server/monitors';
+
+export const GET: RequestHandler = async ({ params }) => {
+	const record = getMonitor(params.id);
+	if (!record) {
+		return json({ error: 'not-found' }, { status: 404 });
+	}
+	return json({ record });
+};
+
+export const PATCH: RequestHandler = async ({ params, request }) => {
+	let payload: MonitorInput;
+	try {
+		payload = await request.json();
+	} catch {
+		return json({ error: 'required' }, { status: 400 });
+	}
+
+	const result = updateMonitor(params.id, payload ?? {});
+	if (!result.ok) {
+		return json({ error: result.error }, { status: result.error === 'not-found' ? 404 : 400 });
+	}
+	return json({ record: result.record });
+};
+
+export const DELETE: RequestHandler = async ({ params }) => {
+	const result = removeMonitor(params.id);
+	if (!result.ok) {
+		return json({ error: result.error }, { status: 404 });
+	}
+	return json({ ok: true });
+};
@@ -0,0 +1,20 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getMonitorMatchHistory } from '$lib/server/monitors';
+
+function parseInteger(value: string | null): number | undefined {
+	if (value === null) return undefined;
+	const parsed = Number.parseInt(value, 10);
+	return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export const GET: RequestHandler = async ({ params, url }) => {
+	const history = getMonitorMatchHistory(params.id, {
+		limit: parseInteger(url.searchParams.get('limit')),
+		days: parseInteger(url.searchParams.get('days'))
+	});
+	if (!history) {
+		return json({ error: 'not-found' }, { status: 404 });
+	}
+	return json(history);
+};
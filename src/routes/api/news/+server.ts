@@ -2,8 +2,7 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import type { NewsCategory } from '$lib/types';
 import { getNewsByCategoryBatch, isNewsCategoryCacheStale } from '$lib/server/db';
-import { fetchCategoryNewsServer } from '$lib/server/fetcher';
-import { getEnabledFeedsByCategory } from '$lib/server/sources';
+import { fetchNewsCategoriesServer } from '$lib/server/fetcher';
 
 const VALID_CATEGORIES: Set<NewsCategory> = new Set([
 	'politics', 'tech', 'finance', 'gov', 'ai', 'intel',
@@ -39,18 +38,15 @@ export const GET: RequestHandler = async ({ url }) => {
 	const result = getNewsByCategoryBatch(categories, sinceByCategory);
 
 	// Fetch categories that are empty or older than the background refresh interval.
-	const fetchPromises: Promise<void>[] = [];
-	for (const category of categories) {
-		if (result[category].length === 0 || isNewsCategoryCacheStale(category)) {
-			fetchPromises.push(
-				fetchCategoryNewsServer(category, getEnabledFeedsByCategory(category)).then((items) => {
-					result[category] = items;
-				})
-			);
+	const staleCategories = categories.filter(
+		(category) => result[category].length === 0 || isNewsCategoryCacheStale(category)
+	);
+	if (staleCategories.length > 0) {
+		const fetched = await fetchNewsCategoriesServer(staleCategories);
+		if (fetched.errors.length > 0) {
+			console.warn('[News] Category fetch failed, serving cached news:', fetched.errors);
 		}
-	}
-	if (fetchPromises.length > 0) {
-		await Promise.all(fetchPromises);
+		Object.assign(result, fetched.items);
 	}
 
 	// Build checkpoints
@@ -0,0 +1,19 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getPredictions,
+	PREDICTION_POLL_INTERVAL_MS,
+	refreshPredictions
+} from '$lib/server/predictions';
+
+/**
+ * Current prediction markets with 1h/24h/7d probability deltas
+ */
+export const GET: RequestHandler = async () => {
+	let result = getPredictions();
+	if (result.updatedAt === null || Date.now() - result.updatedAt > PREDICTION_POLL_INTERVAL_MS) {
+		await refreshPredictions();
+		result = getPredictions();
+	}
+	return json(result);
+};
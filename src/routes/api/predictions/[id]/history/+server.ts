@@ -0,0 +1,13 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getPredictionHistory, isPredictionHistoryRange } from '$lib/server/predictions';
+
+/**
+ * Yes-probability history of one market: ?range=24h|7d|30d
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const range = url.searchParams.get('range') ?? '24h';
+	if (!isPredictionHistoryRange(range)) return json({ error: 'invalid-range' }, { status: 400 });
+
+	return json({ id: params.id, range, points: getPredictionHistory(params.id, range) });
+};
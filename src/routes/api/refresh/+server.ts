@@ -3,6 +3,13 @@ import type { RequestHandler } from './$types';
 import type { NewsCategory } from '$lib/types';
 import { refreshAllNews, fetchAllMarketsServer } from '$lib/server/fetcher';
 import { deleteOldNews } from '$lib/server/db';
+import { evaluateMonitors } from '$lib/server/monitors';
+import { detectServerAlerts } from '$lib/server/alerts';
+import { deliverAlerts } from '$lib/server/alert-delivery';
+
+async function detectAndDeliverAlerts(): Promise<void> {
+	await deliverAlerts(detectServerAlerts());
+}
 
 export const POST: RequestHandler = async ({ request }) => {
 	let categories: NewsCategory[] | undefined;
@@ -17,8 +24,14 @@ export const POST: RequestHandler = async ({ request }) => {
 	}
 
 	const newsResult = await refreshAllNews(categories);
+	evaluateMonitors();
 	await fetchAllMarketsServer();
 
+	// Deliveries retry with backoff, so they must not hold up the response
+	detectAndDeliverAlerts().catch((error) => {
+		console.error('[Refresh] Alert delivery failed:', error);
+	});
+
 	// Clean up old news
 	const deleted = deleteOldNews(7);
 
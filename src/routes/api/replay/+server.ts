@@ -0,0 +1,13 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getReplaySnapshot } from '$lib/server/replay';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const at = Number.parseInt(url.searchParams.get('at') ?? '', 10);
+	if (!Number.isFinite(at) || at <= 0) {
+		return json({ error: 'invalid-at' }, { status: 400 });
+	}
+	const hours = Number.parseInt(url.searchParams.get('hours') ?? '', 10);
+
+	return json(getReplaySnapshot({ at, windowHours: Number.isFinite(hours) ? hours : undefined }));
+};
@@ -0,0 +1,17 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isSearchQueryError, parseNewsSearchParams, searchCachedNews } from '$lib/server/search';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const parsed = parseNewsSearchParams(url.searchParams);
+	if (!parsed.ok) {
+		return json(parsed, { status: 400 });
+	}
+
+	try {
+		return json(searchCachedNews(parsed.params));
+	} catch (error) {
+		if (!isSearchQueryError(error)) throw error;
+		return json({ error: 'invalid-query', detail: error.message }, { status: 400 });
+	}
+};
@@ -0,0 +1,16 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { DEFAULT_SENTIMENT_WINDOW_HOURS } from '$lib/config/sentiment';
+import { getSentimentTrends } from '$lib/server/sentiment';
+
+const MAX_WINDOW_HOURS = 24 * 7;
+
+export const GET: RequestHandler = async ({ url }) => {
+	const hoursParam = Number.parseInt(url.searchParams.get('hours') ?? '', 10);
+	const windowHours =
+		Number.isFinite(hoursParam) && hoursParam > 0
+			? Math.min(hoursParam, MAX_WINDOW_HOURS)
+			: DEFAULT_SENTIMENT_WINDOW_HOURS;
+
+	return json(getSentimentTrends({ windowHours }));
+};
@@ -0,0 +1,58 @@
+import type { RequestHandler } from './$types';
+import { formatServerSentEvent, getStreamHealth, subscribeServerEvents } from '$lib/server/events';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const CLIENT_RETRY_MS = 5000;
+
+/**
+ * Server-Sent Events: `news`, `markets`, `alert` and `health` as the background worker stores them
+ */
+export const GET: RequestHandler = async ({ request }) => {
+	const encoder = new TextEncoder();
+	let cleanup = () => {};
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			let closed = false;
+			const send = (chunk: string) => {
+				if (closed) return;
+				try {
+					controller.enqueue(encoder.encode(chunk));
+				} catch {
+					cleanup();
+				}
+			};
+
+			const unsubscribe = subscribeServerEvents((event) => send(formatServerSentEvent(event)));
+			// Comment lines keep proxies from timing out idle connections
+			const heartbeat = setInterval(() => send(': keepalive\n\n'), HEARTBEAT_INTERVAL_MS);
+			cleanup = () => {
+				if (closed) return;
+				closed = true;
+				clearInterval(heartbeat);
+				unsubscribe();
+				try {
+					controller.close();
+				} catch {
+					// Already closed by the client
+				}
+			};
+			request.signal.addEventListener('abort', () => cleanup());
+
+			send(`retry: ${CLIENT_RETRY_MS}\n\n`);
+			send(formatServerSentEvent({ type: 'health', data: getStreamHealth() }));
+		},
+		cancel() {
+			cleanup();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+			'X-Accel-Buffering': 'no'
+		}
+	});
+};
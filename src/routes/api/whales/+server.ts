@@ -0,0 +1,27 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWhaleTransactions } from '$lib/server/db';
+import { getWhaleRefreshStatus, refreshWhaleTransactions } from '$lib/server/whales';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const STALE_THRESHOLD_MS = 15 * 60000;
+
+export const GET: RequestHandler = async ({ url }) => {
+	const limitParam = Number.parseInt(url.searchParams.get('limit') ?? `${DEFAULT_LIMIT}`, 10);
+	const limit =
+		Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+	const token = url.searchParams.get('token')?.trim() || undefined;
+
+	let status = getWhaleRefreshStatus();
+	if (status.updatedAt === null || Date.now() - status.updatedAt > STALE_THRESHOLD_MS) {
+		await refreshWhaleTransactions();
+		status = getWhaleRefreshStatus();
+	}
+
+	return json({
+		transactions: getWhaleTransactions(limit, token),
+		updatedAt: status.updatedAt,
+		errors: status.errors
+	});
+};